@@ -0,0 +1,110 @@
+/**
+ * Admin Disputes Controller
+ * Payment disputes received from Stripe, their evidence deadlines and frozen vendor earnings
+ */
+import { Op } from 'sequelize';
+import db from '../../models/index.js';
+import { CLOSED_DISPUTE_STATUSES, evidenceUrgency } from '../../services/paymentEventRules.js';
+
+const { PaymentDispute, Order, User } = db;
+
+/**
+ * GET /admin/disputes
+ * List disputes; open disputes are ordered by evidence deadline, soonest first
+ * Query params: status ('open' | 'closed'), page, limit
+ */
+export const listAll = async (req, res) => {
+  try {
+    const { status = 'open', page = 1, limit = 20 } = req.query;
+
+    const where = {};
+    if (status === 'open') {
+      where.status = { [Op.notIn]: CLOSED_DISPUTE_STATUSES };
+    } else if (status === 'closed') {
+      where.status = { [Op.in]: CLOSED_DISPUTE_STATUSES };
+    }
+
+    const offset = (parseInt(page) - 1) * parseInt(limit);
+
+    const { rows, count: total } = await PaymentDispute.findAndCountAll({
+      where,
+      include: [
+        {
+          model: Order,
+          as: 'order',
+          attributes: ['id', 'orderNumber', 'totalAmount', 'currency', 'createdAt'],
+          include: [
+            { model: User, as: 'user', attributes: ['id', 'email', 'firstName', 'lastName'] },
+          ],
+        },
+      ],
+      order:
+        status === 'open'
+          ? [
+              [db.sequelize.literal('evidence_due_by IS NULL'), 'ASC'],
+              ['evidenceDueBy', 'ASC'],
+            ]
+          : [['createdAt', 'DESC']],
+      limit: parseInt(limit),
+      offset,
+    });
+
+    const now = new Date();
+    const disputes = rows.map((dispute) => ({
+      ...dispute.toJSON(),
+      evidenceUrgency: evidenceUrgency(dispute.status, dispute.evidenceDueBy, now),
+      frozenAmount: dispute.frozenEarnings.reduce((sum, entry) => sum + entry.amount, 0),
+    }));
+
+    const openDisputes = await PaymentDispute.findAll({
+      where: { status: { [Op.notIn]: CLOSED_DISPUTE_STATUSES } },
+      attributes: ['status', 'amount', 'evidenceDueBy'],
+    });
+    const stats = {
+      open: openDisputes.length,
+      dueSoon: openDisputes.filter((dispute) =>
+        ['due_soon', 'overdue'].includes(
+          evidenceUrgency(dispute.status, dispute.evidenceDueBy, now),
+        ),
+      ).length,
+      openAmount: openDisputes.reduce((sum, dispute) => sum + parseFloat(dispute.amount), 0),
+    };
+
+    res.json({
+      success: true,
+      data: {
+        disputes,
+        stats,
+        pagination: {
+          total,
+          page: parseInt(page),
+          limit: parseInt(limit),
+          totalPages: Math.ceil(total / parseInt(limit)),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error listing disputes:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * PATCH /admin/disputes/:id/notes
+ * Update internal notes (e.g. evidence gathered, contact with the vendor)
+ */
+export const updateNotes = async (req, res) => {
+  try {
+    const dispute = await PaymentDispute.findByPk(req.params.id);
+    if (!dispute) {
+      return res.status(404).json({ success: false, error: 'Dispute not found' });
+    }
+
+    await dispute.update({ adminNotes: req.body.adminNotes || null });
+
+    res.json({ success: true, data: dispute });
+  } catch (error) {
+    console.error('Error updating dispute notes:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
@@ -1,39 +1,300 @@
 /**
  * Admin Emails Controller
- * Email template management should be handled through a separate system or migrated to Sequelize.
+ * Email templates: the built-in defaults every email falls back to, and the admin's own versions
+ * saved as EmailTemplate rows under the same name, which emails use instead while active
+ *
+ * Templates are addressed by id, or by name for a built-in that has not been customized yet.
  */
+import db from '../../models/index.js';
+import {
+  FALLBACK_TEMPLATES,
+  replaceVariables,
+  sendTemplatedEmail,
+} from '../../services/emailService.js';
+import { digestVariables } from '../../services/notificationDigestRules.js';
 
-const disabledResponse = {
-  success: false,
-  message: 'Email template management is currently unavailable.',
+const { EmailTemplate } = db;
+
+const DEFAULT_CATEGORY = 'transactional';
+
+// Sample values for previews of templates whose variables are not plain text
+const PREVIEW_VARIABLES = {
+  'notification-digest': () =>
+    digestVariables(
+      { firstName: 'Jane', timezone: 'UTC' },
+      [
+        {
+          heading: 'Auctions',
+          items: [
+            {
+              title: "You've Been Outbid",
+              message: 'You\'ve been outbid on "First Folio facsimile". Current bid: $420.',
+              createdAt: new Date(),
+            },
+          ],
+        },
+        {
+          heading: 'Offers',
+          items: [
+            {
+              title: 'New Custom Offer',
+              message: 'Old Leaf Books sent you a custom offer for Moby-Dick (1851)',
+              createdAt: new Date(),
+            },
+          ],
+        },
+      ],
+      {
+        notificationsUrl: '#notifications',
+        preferencesUrl: '#preferences',
+      },
+    ),
+};
+
+const toDefault = (name) => ({
+  id: null,
+  name,
+  subject: FALLBACK_TEMPLATES[name].subject,
+  bodyHtml: FALLBACK_TEMPLATES[name].bodyHtml,
+  category: DEFAULT_CATEGORY,
+  active: true,
+  builtIn: true,
+  customized: false,
+});
+
+const toTemplate = (row) => ({
+  ...row.toJSON(),
+  builtIn: !!FALLBACK_TEMPLATES[row.name],
+  customized: true,
+});
+
+/**
+ * Find a template by id or name: the saved row, else the built-in default (id null)
+ */
+const findTemplate = async (idOrName) => {
+  const row = /^\d+$/.test(idOrName)
+    ? await EmailTemplate.findByPk(idOrName)
+    : await EmailTemplate.findOne({ where: { name: idOrName } });
+  if (row) return toTemplate(row);
+  return FALLBACK_TEMPLATES[idOrName] ? toDefault(idOrName) : null;
+};
+
+/**
+ * Validate template fields from the request body
+ * @returns {Object} { fields } or { error }
+ */
+const sanitizeTemplate = (body, { partial = false } = {}) => {
+  const fields = {
+    name: body.name !== undefined ? String(body.name).trim() : undefined,
+    subject: body.subject !== undefined ? String(body.subject).trim() : undefined,
+    bodyHtml: body.bodyHtml !== undefined ? String(body.bodyHtml) : undefined,
+    category: body.category !== undefined ? String(body.category).trim() : undefined,
+    active: body.active !== undefined ? !!body.active : undefined,
+  };
+
+  if (!partial && (!fields.name || !fields.subject || !fields.bodyHtml)) {
+    return { error: 'Name, subject and body are required' };
+  }
+  if (fields.subject === '' || fields.bodyHtml === '') {
+    return { error: 'Subject and body cannot be empty' };
+  }
+
+  Object.keys(fields).forEach((key) => fields[key] === undefined && delete fields[key]);
+  return { fields };
 };
 
+/**
+ * GET /admin/emails
+ * Saved templates and the built-in defaults not customized yet, by name
+ */
 export const listAll = async (req, res) => {
-  return res.status(501).json(disabledResponse);
+  try {
+    const rows = await EmailTemplate.findAll({ order: [['name', 'ASC']] });
+    const saved = new Set(rows.map((row) => row.name));
+
+    const templates = [
+      ...rows.map(toTemplate),
+      ...Object.keys(FALLBACK_TEMPLATES)
+        .filter((name) => !saved.has(name))
+        .map(toDefault),
+    ].sort((a, b) => a.name.localeCompare(b.name));
+
+    res.json({ success: true, data: templates });
+  } catch (error) {
+    console.error('Error listing email templates:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
 };
 
+/**
+ * GET /admin/emails/:id
+ */
 export const getOne = async (req, res) => {
-  return res.status(501).json(disabledResponse);
+  try {
+    const template = await findTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Email template not found' });
+    }
+
+    res.json({ success: true, data: template });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
 };
 
+/**
+ * POST /admin/emails
+ * Create a template; using a built-in's name customizes that built-in
+ */
 export const create = async (req, res) => {
-  return res.status(501).json(disabledResponse);
+  try {
+    const { fields, error } = sanitizeTemplate(req.body);
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    if (await EmailTemplate.findOne({ where: { name: fields.name } })) {
+      return res
+        .status(409)
+        .json({ success: false, error: 'A template with this name already exists' });
+    }
+
+    const row = await EmailTemplate.create({
+      category: DEFAULT_CATEGORY,
+      ...fields,
+      updatedById: req.userId,
+    });
+
+    res.status(201).json({ success: true, data: toTemplate(row) });
+  } catch (error) {
+    console.error('Error creating email template:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
 };
 
+/**
+ * PUT /admin/emails/:id
+ * Update a template; updating a built-in by name saves the admin's version of it
+ */
 export const update = async (req, res) => {
-  return res.status(501).json(disabledResponse);
+  try {
+    const template = await findTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Email template not found' });
+    }
+
+    const { fields, error } = sanitizeTemplate(req.body, { partial: true });
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+    // Emails look templates up by name, so a saved template keeps its name
+    delete fields.name;
+
+    let row;
+    if (template.id) {
+      row = await EmailTemplate.findByPk(template.id);
+      await row.update({ ...fields, updatedById: req.userId });
+    } else {
+      row = await EmailTemplate.create({
+        name: template.name,
+        subject: template.subject,
+        bodyHtml: template.bodyHtml,
+        category: DEFAULT_CATEGORY,
+        ...fields,
+        updatedById: req.userId,
+      });
+    }
+
+    res.json({ success: true, data: toTemplate(row) });
+  } catch (error) {
+    console.error('Error updating email template:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
 };
 
+/**
+ * DELETE /admin/emails/:id
+ * Delete a saved template; a customized built-in goes back to its default
+ */
 export const deleteTemplate = async (req, res) => {
-  return res.status(501).json(disabledResponse);
+  try {
+    const template = await findTemplate(req.params.id);
+    if (!template?.id) {
+      return res.status(404).json({ success: false, error: 'Email template not found' });
+    }
+
+    await EmailTemplate.destroy({ where: { id: template.id } });
+
+    res.json({
+      success: true,
+      message: template.builtIn ? 'Email template reset to its default' : 'Email template deleted',
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
 };
 
+/**
+ * GET /admin/emails/:id/preview
+ * Render a template with sample values; query parameters override them
+ */
 export const preview = async (req, res) => {
-  return res.status(501).json(disabledResponse);
+  try {
+    const template = await findTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Email template not found' });
+    }
+
+    const variables = {
+      userName: 'Jane',
+      firstName: 'Jane',
+      ...PREVIEW_VARIABLES[template.name]?.(),
+      ...req.query,
+    };
+
+    res.json({
+      success: true,
+      data: {
+        subject: replaceVariables(template.subject, variables),
+        html: replaceVariables(template.bodyHtml, variables),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
 };
 
+/**
+ * POST /admin/emails/:id/test
+ * Send a template to an address, as emails would send it now
+ * Body: { to, variables }
+ */
 export const sendTest = async (req, res) => {
-  return res.status(501).json(disabledResponse);
+  try {
+    const template = await findTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Email template not found' });
+    }
+
+    const { to, variables = {} } = req.body;
+    if (!to) {
+      return res.status(400).json({ success: false, error: 'A recipient address is required' });
+    }
+
+    const sent = await sendTemplatedEmail(template.name, to, {
+      userName: 'Jane',
+      firstName: 'Jane',
+      ...PREVIEW_VARIABLES[template.name]?.(),
+      ...variables,
+    });
+
+    res.status(sent ? 200 : 502).json({
+      success: sent,
+      message: sent ? `Test email sent to ${to}` : `Failed to send test email to ${to}`,
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
 };
 
 // Legacy aliases
@@ -42,5 +303,5 @@ export const getTemplate = getOne;
 export const updateTemplate = update;
 export const sendTestEmail = sendTest;
 export const getEmailLogs = async (req, res) => {
-  return res.status(501).json(disabledResponse);
+  return res.status(501).json({ success: false, message: 'Email logs are not recorded.' });
 };
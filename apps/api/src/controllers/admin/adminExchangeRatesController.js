@@ -0,0 +1,129 @@
+/**
+ * Admin Exchange Rates Controller
+ * CRUD for the exchange rate table used for display conversion and order settlement
+ */
+import db from '../../models/index.js';
+import { BASE_CURRENCY } from '../../services/currencyConverter.js';
+
+const { ExchangeRate } = db;
+
+/**
+ * Validate and normalize exchange rate fields from the request body
+ * @returns {Object} { fields } or { error }
+ */
+const sanitizeExchangeRate = (body, { partial = false } = {}) => {
+  const fields = {
+    currency:
+      body.currency !== undefined
+        ? String(body.currency || '')
+            .trim()
+            .toUpperCase()
+        : undefined,
+    rate: body.rate !== undefined ? parseFloat(body.rate) : undefined,
+    isActive: body.isActive !== undefined ? !!body.isActive : undefined,
+  };
+
+  if (!partial && (!fields.currency || fields.rate === undefined)) {
+    return { error: 'Currency and rate are required' };
+  }
+
+  if (fields.currency !== undefined && !/^[A-Z]{3}$/.test(fields.currency)) {
+    return { error: 'Currency must be a three-letter ISO code' };
+  }
+
+  if (fields.currency === BASE_CURRENCY) {
+    return { error: `${BASE_CURRENCY} is the base currency and always has a rate of 1` };
+  }
+
+  if (fields.rate !== undefined && (isNaN(fields.rate) || fields.rate <= 0)) {
+    return { error: `Rate must be a positive number of units per 1 ${BASE_CURRENCY}` };
+  }
+
+  Object.keys(fields).forEach((key) => fields[key] === undefined && delete fields[key]);
+  return { fields };
+};
+
+/**
+ * GET /admin/exchange-rates
+ * List exchange rates
+ */
+export const listAll = async (req, res) => {
+  try {
+    const exchangeRates = await ExchangeRate.findAll({ order: [['currency', 'ASC']] });
+
+    res.json({ success: true, data: exchangeRates });
+  } catch (error) {
+    console.error('Error listing exchange rates:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * POST /admin/exchange-rates
+ * Create an exchange rate
+ */
+export const create = async (req, res) => {
+  try {
+    const { fields, error } = sanitizeExchangeRate(req.body);
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    const existing = await ExchangeRate.findOne({ where: { currency: fields.currency } });
+    if (existing) {
+      return res
+        .status(409)
+        .json({ success: false, error: `A rate for ${fields.currency} already exists` });
+    }
+
+    const exchangeRate = await ExchangeRate.create(fields);
+
+    res.status(201).json({ success: true, data: exchangeRate });
+  } catch (error) {
+    console.error('Error creating exchange rate:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * PUT /admin/exchange-rates/:id
+ * Update an exchange rate
+ */
+export const update = async (req, res) => {
+  try {
+    const exchangeRate = await ExchangeRate.findByPk(req.params.id);
+    if (!exchangeRate) {
+      return res.status(404).json({ success: false, error: 'Exchange rate not found' });
+    }
+
+    const { fields, error } = sanitizeExchangeRate(req.body, { partial: true });
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    await exchangeRate.update(fields);
+
+    res.json({ success: true, data: exchangeRate });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * DELETE /admin/exchange-rates/:id
+ * Delete an exchange rate (placed orders keep their recorded rate)
+ */
+export const deleteExchangeRate = async (req, res) => {
+  try {
+    const exchangeRate = await ExchangeRate.findByPk(req.params.id);
+    if (!exchangeRate) {
+      return res.status(404).json({ success: false, error: 'Exchange rate not found' });
+    }
+
+    await exchangeRate.destroy();
+
+    res.json({ success: true, message: 'Exchange rate deleted' });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
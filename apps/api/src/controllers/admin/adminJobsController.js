@@ -0,0 +1,131 @@
+/**
+ * Admin Jobs Controller
+ * Background job definitions, run history and failures, manual runs and retries
+ */
+import { Op } from 'sequelize';
+import db from '../../models/index.js';
+import { enqueueJob, getJobDefinitions } from '../../services/jobs/jobQueue.js';
+
+const { BackgroundJob } = db;
+
+/**
+ * GET /admin/jobs
+ * Registered jobs with their latest run, next queued run and recent failures
+ */
+export const listJobs = async (req, res) => {
+  try {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    const jobs = await Promise.all(
+      getJobDefinitions().map(async (definition) => {
+        const [lastRun, nextRun, failures24h] = await Promise.all([
+          BackgroundJob.findOne({
+            where: { name: definition.name, status: { [Op.in]: ['completed', 'failed'] } },
+            order: [['finishedAt', 'DESC']],
+          }),
+          BackgroundJob.findOne({
+            where: { name: definition.name, status: { [Op.in]: ['pending', 'running'] } },
+            order: [['runAt', 'ASC']],
+          }),
+          BackgroundJob.count({
+            where: { name: definition.name, status: 'failed', finishedAt: { [Op.gte]: since } },
+          }),
+        ]);
+
+        return { ...definition, lastRun, nextRun, failures24h };
+      }),
+    );
+
+    res.json({ success: true, data: jobs });
+  } catch (error) {
+    console.error('Error listing jobs:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * GET /admin/jobs/runs
+ * Job runs, newest first, filtered by name and status
+ */
+export const listRuns = async (req, res) => {
+  try {
+    const { page = 1, limit = 25, name, status } = req.query;
+
+    const where = {};
+    if (name) where.name = name;
+    if (status) where.status = status;
+
+    const offset = (parseInt(page) - 1) * parseInt(limit);
+
+    const { rows: runs, count: total } = await BackgroundJob.findAndCountAll({
+      where,
+      order: [
+        ['runAt', 'DESC'],
+        ['id', 'DESC'],
+      ],
+      limit: parseInt(limit),
+      offset,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        runs,
+        pagination: {
+          total,
+          page: parseInt(page),
+          limit: parseInt(limit),
+          totalPages: Math.ceil(total / parseInt(limit)),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error listing job runs:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * POST /admin/jobs/:name/run
+ * Queue a one-off run of a job now
+ */
+export const runNow = async (req, res) => {
+  try {
+    const { name } = req.params;
+
+    if (!getJobDefinitions().some((definition) => definition.name === name)) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+
+    const run = await enqueueJob(name, req.body?.payload || {});
+
+    res.status(201).json({ success: true, data: run, message: `${name} queued` });
+  } catch (error) {
+    console.error('Error queueing job:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * POST /admin/jobs/runs/:id/retry
+ * Queue a fresh run of a failed run with the same payload
+ */
+export const retryRun = async (req, res) => {
+  try {
+    const run = await BackgroundJob.findByPk(req.params.id);
+    if (!run) {
+      return res.status(404).json({ success: false, error: 'Job run not found' });
+    }
+
+    if (run.status !== 'failed') {
+      return res.status(400).json({ success: false, error: 'Only failed runs can be retried' });
+    }
+
+    const retry = await enqueueJob(run.name, run.payload);
+
+    res.status(201).json({ success: true, data: retry, message: `${run.name} queued` });
+  } catch (error) {
+    console.error('Error retrying job run:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
@@ -5,7 +5,7 @@
 
 import db from '../../models/index.js';
 import Stripe from 'stripe';
-import { sendTemplatedEmail } from '../../services/emailService.js';
+import { dispatchNotification } from '../../services/notificationDispatch.js';
 
 const { MembershipPlan, MembershipSubscription, User } = db;
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
@@ -407,14 +407,21 @@ export const createSubscription = async (req, res) => {
       subscriptionMetadata.emailSentAt = now.toISOString();
       subscriptionMetadata.paymentSetupRequired = true;
 
-      // Send email
       try {
-        await sendTemplatedEmail('membership-setup-required', user.email, {
-          firstName: user.firstName || 'Member',
-          planName: plan.name,
-          price: `$${plan.price}`,
-          interval: plan.interval,
-          setupUrl: `${process.env.FRONTEND_URL}/account/membership/setup?planId=${planId}`,
+        await dispatchNotification(user, 'MEMBERSHIP_UPDATE', {
+          title: 'Set Up Your Membership Payment',
+          message: `Add a payment method to start your ${plan.name} membership.`,
+          data: { entityType: 'membership_plan', entityId: String(planId) },
+          email: {
+            template: 'membership-setup-required',
+            variables: {
+              firstName: user.firstName || 'Member',
+              planName: plan.name,
+              price: `$${plan.price}`,
+              interval: plan.interval,
+              setupUrl: `${process.env.FRONTEND_URL}/account/membership/setup?planId=${planId}`,
+            },
+          },
         });
       } catch (emailError) {
         console.error('[Admin] Failed to send setup email:', emailError);
@@ -440,16 +447,24 @@ export const createSubscription = async (req, res) => {
       metadata: subscriptionMetadata,
     });
 
-    // Send appropriate notification email
+    // Confirm the new membership
     if (paymentOption === 'user_method' || paymentOption === 'skip') {
       try {
-        await sendTemplatedEmail('membership-new', user.email, {
-          firstName: user.firstName || 'Member',
-          planName: plan.name,
-          price: paymentOption === 'skip' ? 'Free (Admin Grant)' : `$${plan.price}`,
-          interval: plan.interval,
-          nextBillingDate: periodEnd.toLocaleDateString(),
-          accountUrl: `${process.env.FRONTEND_URL}/account/membership`,
+        await dispatchNotification(user, 'MEMBERSHIP_UPDATE', {
+          title: 'Membership Started',
+          message: `Welcome to ${plan.name}! Your membership is active.`,
+          data: { entityType: 'membership', entityId: String(subscription.id) },
+          email: {
+            template: 'membership-new',
+            variables: {
+              firstName: user.firstName || 'Member',
+              planName: plan.name,
+              price: paymentOption === 'skip' ? 'Free (Admin Grant)' : `$${plan.price}`,
+              interval: plan.interval,
+              nextBillingDate: periodEnd.toLocaleDateString(),
+              accountUrl: `${process.env.FRONTEND_URL}/account/membership`,
+            },
+          },
         });
       } catch (emailError) {
         console.error('[Admin] Failed to send confirmation email:', emailError);
@@ -601,19 +616,27 @@ export const updateSubscription = async (req, res) => {
       ],
     });
 
-    // Send notification email if plan changed
+    // Notify the member if the plan changed
     if (newPlan && subscription.user) {
       try {
-        await sendTemplatedEmail('membership-updated', subscription.user.email, {
-          firstName: subscription.user.firstName || 'Member',
-          oldPlanName: subscription.plan.name,
-          newPlanName: newPlan.name,
-          price: `$${newPlan.price}`,
-          interval: newPlan.interval,
-          nextBillingDate: updates.currentPeriodEnd
-            ? new Date(updates.currentPeriodEnd).toLocaleDateString()
-            : new Date(subscription.currentPeriodEnd).toLocaleDateString(),
-          accountUrl: `${process.env.FRONTEND_URL}/account/membership`,
+        await dispatchNotification(subscription.user, 'MEMBERSHIP_UPDATE', {
+          title: 'Membership Updated',
+          message: `Your membership is now ${newPlan.name}.`,
+          data: { entityType: 'membership', entityId: String(subscription.id) },
+          email: {
+            template: 'membership-updated',
+            variables: {
+              firstName: subscription.user.firstName || 'Member',
+              oldPlanName: subscription.plan.name,
+              newPlanName: newPlan.name,
+              price: `$${newPlan.price}`,
+              interval: newPlan.interval,
+              nextBillingDate: updates.currentPeriodEnd
+                ? new Date(updates.currentPeriodEnd).toLocaleDateString()
+                : new Date(subscription.currentPeriodEnd).toLocaleDateString(),
+              accountUrl: `${process.env.FRONTEND_URL}/account/membership`,
+            },
+          },
         });
       } catch (emailError) {
         console.error('[Admin] Failed to send update email:', emailError);
@@ -5,8 +5,15 @@
 
 import db from '../../models/index.js';
 import { Op } from 'sequelize';
+import { SHIPMENT_STATUSES } from '../../services/orderFulfillment.js';
+import { updateShipment as applyShipmentUpdate } from '../../services/orderShipmentService.js';
+import {
+  declineRefundRequest,
+  getRefundSummary,
+  issueRefund,
+} from '../../services/orderRefundService.js';
 
-const { Order, OrderItem, Book, BookMedia, User } = db;
+const { Order, OrderItem, OrderShipment, Book, BookMedia, User, Vendor } = db;
 
 /**
  * List all orders
@@ -60,6 +67,13 @@ export const listAll = async (req, res) => {
       distinct: true,
     });
 
+    // Loaded separately so the paginated join is not multiplied by shipments
+    const shipments = await OrderShipment.findAll({
+      where: { orderId: orders.map((order) => order.id) },
+      include: [{ model: Vendor, as: 'vendor', attributes: ['id', 'shopName'] }],
+      order: [['id', 'ASC']],
+    });
+
     const enriched = orders.map((order) => {
       const o = order.toJSON();
       const enrichedItems = (o.items || []).map((item) => {
@@ -87,6 +101,7 @@ export const listAll = async (req, res) => {
       const vendorNet = parseFloat((vendorTotal - platformFee).toFixed(2));
       return {
         ...o,
+        shipments: shipments.filter((shipment) => shipment.orderId === o.id),
         vendorItems: enrichedItems,
         vendorTotal,
         vendorEarnings: vendorTotal,
@@ -124,7 +139,17 @@ export const listAll = async (req, res) => {
  */
 export const getOrderStats = async (req, res) => {
   try {
-    const statuses = ['completed', 'pending', 'processing', 'shipped', 'delivered', 'on_hold', 'cancelled', 'failed'];
+    const statuses = [
+      'completed',
+      'pending',
+      'processing',
+      'partially_shipped',
+      'shipped',
+      'delivered',
+      'on_hold',
+      'cancelled',
+      'failed',
+    ];
 
     const counts = await Promise.all(
       statuses.map((s) => Order.count({ where: { status: s } }))
@@ -159,7 +184,7 @@ export const getOrderStats = async (req, res) => {
         total,
         completed: statusMap.completed + statusMap.delivered,
         pending: statusMap.pending + statusMap.processing,
-        shipped: statusMap.shipped,
+        shipped: statusMap.shipped + statusMap.partially_shipped,
         onHold: statusMap.on_hold,
         cancelled: statusMap.cancelled + statusMap.failed,
         totalRevenue,
@@ -205,14 +230,21 @@ export const getOne = async (req, res) => {
 
 /**
  * Update order status
- * Body: { status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' }
+ * Body: { status: 'pending' | 'processing' | 'partially_shipped' | 'shipped' | 'delivered' | 'cancelled' }
  */
 export const updateStatus = async (req, res) => {
   try {
     const { id } = req.params;
     const { status } = req.body;
 
-    const validStatuses = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'];
+    const validStatuses = [
+      'pending',
+      'processing',
+      'partially_shipped',
+      'shipped',
+      'delivered',
+      'cancelled',
+    ];
     if (!validStatuses.includes(status)) {
       return res.status(400).json({
         success: false,
@@ -248,25 +280,102 @@ export const updateStatus = async (req, res) => {
 };
 
 /**
- * Refund order
- * Body: { amount?, reason?, refundShipping? }
+ * Update a vendor shipment within an order (admin override, any status)
+ * PUT /api/admin/orders/:id/shipments/:shipmentId
+ * Body: { status?, carrier?, trackingNumber? }
  */
-export const refundOrder = async (req, res) => {
+export const updateShipment = async (req, res) => {
   try {
-    const { id } = req.params;
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { amount, reason } = req.body;
+    const { id, shipmentId } = req.params;
+    const { status, carrier, trackingNumber } = req.body;
+
+    if (status && !SHIPMENT_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Must be one of: ${SHIPMENT_STATUSES.join(', ')}`,
+      });
+    }
+
+    const shipment = await OrderShipment.findOne({ where: { id: shipmentId, orderId: id } });
+    if (!shipment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Shipment not found',
+      });
+    }
+
+    await applyShipmentUpdate(shipment, { status, carrier, trackingNumber });
+    const order = await Order.findByPk(id, { attributes: ['id', 'status'] });
+
+    return res.json({
+      success: true,
+      data: { shipment, orderStatus: order.status },
+      message: 'Shipment updated successfully',
+    });
+  } catch (error) {
+    console.error('[Admin Orders] Shipment update error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update shipment',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Refundable items, shipping and refund history for an order
+ * GET /admin/orders/:id/refunds
+ */
+export const getRefunds = async (req, res) => {
+  try {
+    const result = await getRefundSummary(req.params.id);
+    if (!result) {
+      return res.status(404).json({ success: false, message: 'Order not found' });
+    }
 
     return res.json({
       success: true,
       data: {
-        id,
-        refundAmount: amount,
-        refundedAt: new Date(),
+        orderId: result.order.id,
+        orderNumber: result.order.orderNumber,
+        currency: result.order.currency,
+        totalAmount: result.order.totalAmount,
+        paymentStatus: result.order.paymentStatus,
+        ...result.summary,
+        refunds: result.refunds,
       },
+    });
+  } catch (error) {
+    console.error('[Admin Orders] Refund summary error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to load refunds',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Refund order, in full or in part
+ * POST /admin/orders/:id/refund
+ * Body: { items?: [{ orderItemId, quantity }], refundShipping?: true | vendorIds, amount?,
+ *   reason?, restock?, refundRequestId? }
+ */
+export const refundOrder = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const result = await issueRefund(req.params.id, req.body || {}, userId);
+    if (!result.success) {
+      return res.status(result.statusCode).json({ success: false, message: result.error });
+    }
+
+    return res.json({
+      success: true,
+      data: result.refund,
       message: 'Order refunded successfully',
     });
   } catch (error) {
+    console.error('[Admin Orders] Refund error:', error);
     return res.status(500).json({
       success: false,
       message: 'Failed to refund order',
@@ -274,3 +383,36 @@ export const refundOrder = async (req, res) => {
     });
   }
 };
+
+/**
+ * Decline a vendor's refund request
+ * POST /admin/orders/:id/refunds/:refundId/decline
+ * Body: { note? }
+ */
+export const declineRefund = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const result = await declineRefundRequest(
+      req.params.id,
+      req.params.refundId,
+      userId,
+      req.body?.note,
+    );
+    if (!result.success) {
+      return res.status(result.statusCode).json({ success: false, message: result.error });
+    }
+
+    return res.json({
+      success: true,
+      data: result.refund,
+      message: 'Refund request declined',
+    });
+  } catch (error) {
+    console.error('[Admin Orders] Decline refund error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to decline refund request',
+      error: error.message,
+    });
+  }
+};
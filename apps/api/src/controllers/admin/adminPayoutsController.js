@@ -4,7 +4,7 @@
  */
 
 import db from '../../models/index.js';
-import { sendTemplatedEmail } from '../../services/emailService.js';
+import { dispatchNotification } from '../../services/notificationDispatch.js';
 
 const { Vendor, VendorPayout, VendorEarning, User } = db;
 
@@ -149,17 +149,25 @@ export const createPayout = async (req, res) => {
       balanceAvailable: parseFloat(vendor.balanceAvailable) - requestedAmount,
     });
 
-    // Get vendor user for email
+    // Get vendor user to notify
     const user = await User.findByPk(vendor.userId);
 
-    // Send payout notification email
+    // Notify vendor of the payout
     if (user) {
-      await sendTemplatedEmail('vendor-payout-created', user.email, {
-        firstName: user.firstName || user.name,
-        shopName: vendor.shopName,
-        amount: requestedAmount.toFixed(2),
-        method,
-        notes: vendorNotes || '',
+      await dispatchNotification(user, 'VENDOR_PAYOUT_UPDATE', {
+        title: 'Payout Created',
+        message: `A payout of $${requestedAmount.toFixed(2)} is on its way.`,
+        data: { entityType: 'payout', entityId: String(payout.id) },
+        email: {
+          template: 'vendor-payout-created',
+          variables: {
+            firstName: user.firstName || user.name,
+            shopName: vendor.shopName,
+            amount: requestedAmount.toFixed(2),
+            method,
+            notes: vendorNotes || '',
+          },
+        },
       });
     }
 
@@ -235,15 +243,23 @@ export const markPayoutAsPaid = async (req, res) => {
       },
     );
 
-    // Send confirmation email
+    // Notify vendor of the payment
     const user = await User.findByPk(payout.vendor.userId);
     if (user) {
-      await sendTemplatedEmail('vendor-payout-completed', user.email, {
-        firstName: user.firstName || user.name,
-        shopName: payout.vendor.shopName,
-        amount: payout.amount,
-        method: payout.method,
-        transactionId: transactionId || 'N/A',
+      await dispatchNotification(user, 'VENDOR_PAYOUT_UPDATE', {
+        title: 'Payout Completed',
+        message: `Your payout of $${payout.amount} has been paid.`,
+        data: { entityType: 'payout', entityId: String(payout.id) },
+        email: {
+          template: 'vendor-payout-completed',
+          variables: {
+            firstName: user.firstName || user.name,
+            shopName: payout.vendor.shopName,
+            amount: payout.amount,
+            method: payout.method,
+            transactionId: transactionId || 'N/A',
+          },
+        },
       });
     }
 
@@ -5,6 +5,7 @@
 
 import db from '../../models/index.js';
 import { Op, Sequelize } from 'sequelize';
+import { matchBookToRequests } from '../../services/rareBookRequestMatching.js';
 
 const { Book, Product, Vendor, BookMedia, Category, Auction } = db;
 
@@ -413,6 +414,10 @@ export const createProduct = async (req, res) => {
         ],
       });
 
+      matchBookToRequests(newProduct.id).catch((err) =>
+        console.error('Failed to match book requests:', err),
+      );
+
       const message =
         status === 'draft' && price === 0
           ? 'Book created as draft. Set a price above $0 to publish.'
@@ -757,6 +762,10 @@ export const updateProduct = async (req, res) => {
         ],
       });
 
+      matchBookToRequests(product.id).catch((err) =>
+        console.error('Failed to match book requests:', err),
+      );
+
       const message = autoDrafted
         ? 'Book updated and set to draft due to $0 price. Set a price above $0 to publish.'
         : 'Book updated successfully';
@@ -0,0 +1,155 @@
+/**
+ * Admin Tax Rates Controller
+ * CRUD for jurisdiction tax rate tables (country / state / postal prefix)
+ */
+import { Op } from 'sequelize';
+import db from '../../models/index.js';
+import { normalizeCountry } from '../../services/shippingRateEngine.js';
+
+const { TaxRate } = db;
+
+const toCode = (value) => {
+  if (value === undefined) return undefined;
+  const code = String(value || '')
+    .replace(/\s+/g, '')
+    .toUpperCase();
+  return code || null;
+};
+
+const toCategoryList = (value) => {
+  if (value === undefined) return undefined;
+  const list = Array.isArray(value) ? value : String(value || '').split(',');
+  return list.map((category) => String(category).trim().toLowerCase()).filter(Boolean);
+};
+
+/**
+ * Validate and normalize tax rate fields from the request body
+ * @returns {Object} { fields } or { error }
+ */
+const sanitizeTaxRate = (body, { partial = false } = {}) => {
+  const fields = {
+    name: body.name,
+    country: body.country !== undefined ? normalizeCountry(body.country) : undefined,
+    state: toCode(body.state),
+    postalPrefix: toCode(body.postalPrefix),
+    rate: body.rate !== undefined ? parseFloat(body.rate) : undefined,
+    inclusive: body.inclusive !== undefined ? !!body.inclusive : undefined,
+    exemptCategories: toCategoryList(body.exemptCategories),
+    isActive: body.isActive !== undefined ? !!body.isActive : undefined,
+  };
+
+  if (!partial && (!fields.name || !fields.country || fields.rate === undefined)) {
+    return { error: 'Name, country, and rate are required' };
+  }
+
+  if (fields.country !== undefined && !/^[A-Z]{2}$/.test(fields.country)) {
+    return { error: 'Country must be a two-letter ISO code' };
+  }
+
+  if (fields.rate !== undefined && (isNaN(fields.rate) || fields.rate < 0 || fields.rate >= 1)) {
+    return { error: 'Rate must be a decimal between 0 and 1 (e.g. 0.0725 for 7.25%)' };
+  }
+
+  Object.keys(fields).forEach((key) => fields[key] === undefined && delete fields[key]);
+  return { fields };
+};
+
+/**
+ * GET /admin/tax-rates
+ * List tax rates, optionally filtered by country or search term
+ */
+export const listAll = async (req, res) => {
+  try {
+    const { country, search } = req.query;
+    const where = {};
+
+    if (country) {
+      where.country = normalizeCountry(country);
+    }
+
+    if (search) {
+      where[Op.or] = [
+        { name: { [Op.iLike]: `%${search}%` } },
+        { state: { [Op.iLike]: `%${search}%` } },
+        { postalPrefix: { [Op.iLike]: `${search}%` } },
+      ];
+    }
+
+    const taxRates = await TaxRate.findAll({
+      where,
+      order: [
+        ['country', 'ASC'],
+        ['state', 'ASC NULLS FIRST'],
+        ['postalPrefix', 'ASC NULLS FIRST'],
+      ],
+    });
+
+    res.json({ success: true, data: taxRates });
+  } catch (error) {
+    console.error('Error listing tax rates:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * POST /admin/tax-rates
+ * Create a tax rate
+ */
+export const create = async (req, res) => {
+  try {
+    const { fields, error } = sanitizeTaxRate(req.body);
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    const taxRate = await TaxRate.create(fields);
+
+    res.status(201).json({ success: true, data: taxRate });
+  } catch (error) {
+    console.error('Error creating tax rate:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * PUT /admin/tax-rates/:id
+ * Update a tax rate
+ */
+export const update = async (req, res) => {
+  try {
+    const taxRate = await TaxRate.findByPk(req.params.id);
+    if (!taxRate) {
+      return res.status(404).json({ success: false, error: 'Tax rate not found' });
+    }
+
+    const { fields, error } = sanitizeTaxRate(req.body, { partial: true });
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    await taxRate.update(fields);
+
+    res.json({ success: true, data: taxRate });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * DELETE /admin/tax-rates/:id
+ * Delete a tax rate (orders keep their persisted tax lines)
+ */
+export const deleteTaxRate = async (req, res) => {
+  try {
+    const taxRate = await TaxRate.findByPk(req.params.id);
+    if (!taxRate) {
+      return res.status(404).json({ success: false, error: 'Tax rate not found' });
+    }
+
+    await taxRate.destroy();
+
+    res.json({ success: true, message: 'Tax rate deleted' });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
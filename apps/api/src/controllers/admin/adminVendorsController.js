@@ -5,7 +5,8 @@
  */
 
 import db from '../../models/index.js';
-import { sendTemplatedEmail } from '../../services/emailService.js';
+import { dispatchNotification } from '../../services/notificationDispatch.js';
+import { expireFeaturedVendors as expireFeatured } from '../../services/jobs/lifecycleJobs.js';
 import { Op } from 'sequelize';
 
 const { Vendor, User, VendorEarning, VendorPayout, Book, Auction, Order, OrderItem } = db;
@@ -238,15 +239,23 @@ export const approveVendor = async (req, res) => {
       role: 'vendor',
     });
 
-    // Send approval email
+    // Notify the vendor of the approval
     try {
-      await sendTemplatedEmail('vendor-application-approved', vendor.user.email, {
-        firstName: vendor.user.firstName,
-        lastName: vendor.user.lastName,
-        shopName: vendor.shopName,
-        dashboardUrl: `${process.env.FRONTEND_URL}/vendor/dashboard`,
-        commissionRate: '8%',
-        approvalDate: new Date().toLocaleDateString(),
+      await dispatchNotification(vendor.user, 'VENDOR_ACCOUNT_STATUS', {
+        title: 'Seller Application Approved',
+        message: `Your shop ${vendor.shopName} is approved. Welcome aboard!`,
+        data: { entityType: 'vendor', entityId: String(vendor.id) },
+        email: {
+          template: 'vendor-application-approved',
+          variables: {
+            firstName: vendor.user.firstName,
+            lastName: vendor.user.lastName,
+            shopName: vendor.shopName,
+            dashboardUrl: `${process.env.FRONTEND_URL}/vendor/dashboard`,
+            commissionRate: '8%',
+            approvalDate: new Date().toLocaleDateString(),
+          },
+        },
       });
     } catch (emailError) {
       // Continue anyway - vendor is already approved
@@ -305,15 +314,23 @@ export const rejectVendor = async (req, res) => {
       role: 'customer',
     });
 
-    // Send rejection email
+    // Notify the applicant of the decision
     try {
-      await sendTemplatedEmail('vendor-application-rejected', vendor.user.email, {
-        firstName: vendor.user.firstName,
-        lastName: vendor.user.lastName,
-        shopName: vendor.shopName,
-        rejectionReason: reason,
-        reapplyUrl: `${process.env.FRONTEND_URL}/vendor-registration`,
-        supportEmail: process.env.SUPPORT_EMAIL || 'support@agelessliterature.com',
+      await dispatchNotification(vendor.user, 'VENDOR_ACCOUNT_STATUS', {
+        title: 'Seller Application Declined',
+        message: `Your application for ${vendor.shopName} was not approved: ${reason}`,
+        data: { entityType: 'vendor', entityId: String(vendor.id) },
+        email: {
+          template: 'vendor-application-rejected',
+          variables: {
+            firstName: vendor.user.firstName,
+            lastName: vendor.user.lastName,
+            shopName: vendor.shopName,
+            rejectionReason: reason,
+            reapplyUrl: `${process.env.FRONTEND_URL}/vendor-registration`,
+            supportEmail: process.env.SUPPORT_EMAIL || 'support@agelessliterature.com',
+          },
+        },
       });
     } catch (emailError) {
       // Continue anyway - vendor is already rejected
@@ -630,13 +647,21 @@ export const suspendVendor = async (req, res) => {
       role: 'customer',
     });
 
-    // Send suspension email
-    if (vendor.user?.email) {
-      await sendTemplatedEmail('vendor-suspended', vendor.user.email, {
-        firstName: vendor.user.firstName,
-        shopName: vendor.shopName,
-        reason: reason || 'Terms of service violation',
-        supportEmail: process.env.SUPPORT_EMAIL || 'support@agelessliterature.com',
+    // Notify the vendor of the suspension
+    if (vendor.user) {
+      await dispatchNotification(vendor.user, 'VENDOR_ACCOUNT_STATUS', {
+        title: 'Seller Account Suspended',
+        message: `Your shop ${vendor.shopName} has been suspended.`,
+        data: { entityType: 'vendor', entityId: String(vendor.id) },
+        email: {
+          template: 'vendor-suspended',
+          variables: {
+            firstName: vendor.user.firstName,
+            shopName: vendor.shopName,
+            reason: reason || 'Terms of service violation',
+            supportEmail: process.env.SUPPORT_EMAIL || 'support@agelessliterature.com',
+          },
+        },
       });
     }
 
@@ -953,22 +978,24 @@ export const createVendor = async (req, res) => {
       ],
     });
 
-    // Send approval email if status is approved
+    // Welcome the vendor if the shop starts out approved
     if (status === 'approved' || status === 'active') {
-      try {
-        await sendTemplatedEmail({
-          to: user.email,
-          subject: 'Vendor Application Approved',
-          template: 'vendor-approved',
-          data: {
+      await dispatchNotification(user, 'VENDOR_ACCOUNT_STATUS', {
+        title: 'Seller Account Approved',
+        message: `Your shop ${vendor.shopName} is approved. Welcome aboard!`,
+        data: { entityType: 'vendor', entityId: String(vendor.id) },
+        email: {
+          template: 'vendor-application-approved',
+          variables: {
+            firstName: user.firstName,
+            lastName: user.lastName,
             shopName: vendor.shopName,
-            shopUrl: vendor.shopUrl,
-            userName: user.name || user.firstName || user.email,
+            dashboardUrl: `${process.env.FRONTEND_URL}/vendor/dashboard`,
+            commissionRate: `${Math.round(parseFloat(vendor.commissionRate) * 100)}%`,
+            approvalDate: new Date().toLocaleDateString(),
           },
-        });
-      } catch (emailError) {
-        console.error('Failed to send vendor approval email:', emailError);
-      }
+        },
+      });
     }
 
     return res.status(201).json({
@@ -1105,22 +1132,24 @@ export const createVendorWithUser = async (req, res) => {
       ],
     });
 
-    // Send approval email if status is approved
+    // Welcome the vendor if the shop starts out approved
     if (status === 'approved' || status === 'active') {
-      try {
-        await sendTemplatedEmail({
-          to: email,
-          subject: 'Vendor Application Approved',
-          template: 'vendor-approved',
-          data: {
-            shopName,
-            shopUrl,
-            userName: newUser.name || newUser.firstName || email,
+      await dispatchNotification(newUser, 'VENDOR_ACCOUNT_STATUS', {
+        title: 'Seller Account Approved',
+        message: `Your shop ${vendor.shopName} is approved. Welcome aboard!`,
+        data: { entityType: 'vendor', entityId: String(vendor.id) },
+        email: {
+          template: 'vendor-application-approved',
+          variables: {
+            firstName: newUser.firstName,
+            lastName: newUser.lastName,
+            shopName: vendor.shopName,
+            dashboardUrl: `${process.env.FRONTEND_URL}/vendor/dashboard`,
+            commissionRate: `${Math.round(parseFloat(vendor.commissionRate) * 100)}%`,
+            approvalDate: new Date().toLocaleDateString(),
           },
-        });
-      } catch (emailError) {
-        console.error('Failed to send new vendor email:', emailError);
-      }
+        },
+      });
     }
 
     return res.status(201).json({
@@ -1260,36 +1289,17 @@ export const updateFeaturedStatus = async (req, res) => {
 
 /**
  * Check and expire featured vendors
- * This should be called periodically (e.g., via cron job)
+ * Also runs hourly as the featured-vendor-expiry background job
  * POST /api/admin/vendors/expire-featured
  */
 export const expireFeaturedVendors = async (req, res) => {
   try {
-    const now = new Date();
-
-    // Find vendors whose featured period has ended
-    const expiredVendors = await Vendor.findAll({
-      where: {
-        isFeatured: true,
-        featuredEndDate: {
-          [Op.lte]: now,
-          [Op.ne]: null,
-        },
-      },
-    });
-
-    // Turn off featured status
-    for (const vendor of expiredVendors) {
-      await vendor.update({ isFeatured: false });
-    }
+    const { expiredCount, vendors } = await expireFeatured();
 
     return res.json({
       success: true,
-      data: {
-        expiredCount: expiredVendors.length,
-        vendors: expiredVendors.map((v) => ({ id: v.id, shopName: v.shopName })),
-      },
-      message: `Expired ${expiredVendors.length} featured vendor(s)`,
+      data: { expiredCount, vendors },
+      message: `Expired ${expiredCount} featured vendor(s)`,
     });
   } catch (error) {
     console.error('Error expiring featured vendors:', error);
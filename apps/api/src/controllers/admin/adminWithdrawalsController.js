@@ -7,7 +7,7 @@
 
 import db from '../../models/index.js';
 import { processWithdrawal } from '../../services/payoutService.js';
-import { sendTemplatedEmail } from '../../services/emailService.js';
+import { dispatchNotification } from '../../services/notificationDispatch.js';
 
 const { Vendor, VendorWithdrawal, VendorPayout, User } = db;
 
@@ -172,16 +172,24 @@ export const approveWithdrawal = async (req, res) => {
       adminNotes,
     });
 
-    // Send email to vendor
+    // Notify vendor
     const user = withdrawal.vendor.user;
-    if (user?.email) {
-      await sendTemplatedEmail('vendor-withdrawal-approved', user.email, {
-        firstName: user.firstName || user.name,
-        shopName: withdrawal.vendor.shopName,
-        amount: parseFloat(withdrawal.amount).toFixed(2),
-        method: withdrawal.method.toUpperCase(),
-        notes: adminNotes || '',
-      }).catch((err) => console.error('Email send error:', err));
+    if (user) {
+      await dispatchNotification(user, 'VENDOR_PAYOUT_UPDATE', {
+        title: 'Withdrawal Approved',
+        message: `Your withdrawal of $${parseFloat(withdrawal.amount).toFixed(2)} was approved.`,
+        data: { entityType: 'withdrawal', entityId: String(withdrawal.id) },
+        email: {
+          template: 'vendor-withdrawal-approved',
+          variables: {
+            firstName: user.firstName || user.name,
+            shopName: withdrawal.vendor.shopName,
+            amount: parseFloat(withdrawal.amount).toFixed(2),
+            method: withdrawal.method.toUpperCase(),
+            notes: adminNotes || '',
+          },
+        },
+      });
     }
 
     return res.json({
@@ -253,17 +261,25 @@ export const processWithdrawalRequest = async (req, res) => {
       completedAt: result.manual ? null : new Date(),
     });
 
-    // Send completion email (unless manual)
+    // Notify vendor of completion (unless manual)
     if (!result.manual) {
       const user = withdrawal.vendor.user;
-      if (user?.email) {
-        await sendTemplatedEmail('vendor-withdrawal-completed', user.email, {
-          firstName: user.firstName || user.name,
-          shopName: withdrawal.vendor.shopName,
-          amount: parseFloat(withdrawal.amount).toFixed(2),
-          method: withdrawal.method.toUpperCase(),
-          transactionId: result.transactionId || 'N/A',
-        }).catch((err) => console.error('Email send error:', err));
+      if (user) {
+        await dispatchNotification(user, 'VENDOR_PAYOUT_UPDATE', {
+          title: 'Withdrawal Completed',
+          message: `Your withdrawal of $${parseFloat(withdrawal.amount).toFixed(2)} has been paid.`,
+          data: { entityType: 'withdrawal', entityId: String(withdrawal.id) },
+          email: {
+            template: 'vendor-withdrawal-completed',
+            variables: {
+              firstName: user.firstName || user.name,
+              shopName: withdrawal.vendor.shopName,
+              amount: parseFloat(withdrawal.amount).toFixed(2),
+              method: withdrawal.method.toUpperCase(),
+              transactionId: result.transactionId || 'N/A',
+            },
+          },
+        });
       }
     }
 
@@ -349,15 +365,23 @@ export const rejectWithdrawal = async (req, res) => {
       adminNotes,
     });
 
-    // Send rejection email
+    // Notify vendor of rejection
     const user = withdrawal.vendor.user;
-    if (user?.email) {
-      await sendTemplatedEmail('vendor-withdrawal-rejected', user.email, {
-        firstName: user.firstName || user.name,
-        shopName: withdrawal.vendor.shopName,
-        amount: parseFloat(withdrawal.amount).toFixed(2),
-        reason: rejectionReason,
-      }).catch((err) => console.error('Email send error:', err));
+    if (user) {
+      await dispatchNotification(user, 'VENDOR_PAYOUT_UPDATE', {
+        title: 'Withdrawal Rejected',
+        message: `Your withdrawal of $${parseFloat(withdrawal.amount).toFixed(2)} was rejected: ${rejectionReason}`,
+        data: { entityType: 'withdrawal', entityId: String(withdrawal.id) },
+        email: {
+          template: 'vendor-withdrawal-rejected',
+          variables: {
+            firstName: user.firstName || user.name,
+            shopName: withdrawal.vendor.shopName,
+            amount: parseFloat(withdrawal.amount).toFixed(2),
+            reason: rejectionReason,
+          },
+        },
+      });
     }
 
     return res.json({
@@ -451,16 +475,24 @@ export const completeWithdrawal = async (req, res) => {
       });
     }
 
-    // Send completion email
+    // Notify vendor of completion
     const user = withdrawal.vendor.user;
-    if (user?.email) {
-      await sendTemplatedEmail('vendor-withdrawal-completed', user.email, {
-        firstName: user.firstName || user.name,
-        shopName: withdrawal.vendor.shopName,
-        amount: parseFloat(withdrawal.amount).toFixed(2),
-        method: withdrawal.method.toUpperCase(),
-        transactionId: transactionId || 'N/A',
-      }).catch((err) => console.error('Email send error:', err));
+    if (user) {
+      await dispatchNotification(user, 'VENDOR_PAYOUT_UPDATE', {
+        title: 'Withdrawal Completed',
+        message: `Your withdrawal of $${parseFloat(withdrawal.amount).toFixed(2)} has been paid.`,
+        data: { entityType: 'withdrawal', entityId: String(withdrawal.id) },
+        email: {
+          template: 'vendor-withdrawal-completed',
+          variables: {
+            firstName: user.firstName || user.name,
+            shopName: withdrawal.vendor.shopName,
+            amount: parseFloat(withdrawal.amount).toFixed(2),
+            method: withdrawal.method.toUpperCase(),
+            transactionId: transactionId || 'N/A',
+          },
+        },
+      });
     }
 
     return res.json({
@@ -5,12 +5,15 @@
 
 import db from '../models/index.js';
 import { Op } from 'sequelize';
-import { sendTemplatedEmail, sendSms } from '../services/emailService.js';
-import { emitNotification } from '../sockets/index.js';
+import { dispatchNotification } from '../services/notificationDispatch.js';
+import { emitAuctionEvent } from '../sockets/index.js';
+import { getBidIncrement, getMinimumBid } from '../services/proxyBidEngine.js';
+import { resolveSoftCloseSettings } from '../services/auctionSoftClose.js';
 
 const {
   Auction,
   AuctionBid,
+  AuctionEvent,
   AuctionWin,
   Book,
   Product,
@@ -22,47 +25,6 @@ const {
   sequelize,
 } = db;
 
-/**
- * Helper: check if user is eligible for SMS
- */
-async function canSendSms(userId) {
-  try {
-    const user = await User.findByPk(userId);
-    if (!user || !user.phoneNumber) return null;
-
-    const metadata = user.metadata || {};
-    const eligible =
-      metadata.phoneVerified === true && metadata.smsOptIn === true && metadata.smsStop !== true;
-
-    if (!eligible) return null;
-
-    // Check rate limit: max 3 SMS per day
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const smsCount = await Notification.count({
-      where: {
-        userId,
-        type: { [Op.like]: 'SMS_%' },
-        createdAt: { [Op.gte]: today },
-      },
-    });
-
-    if (smsCount >= 3) {
-      console.log(`[SMS] Rate limit reached for user ${userId}: ${smsCount}/3 today`);
-      return null;
-    }
-
-    return {
-      phoneNumber: user.phoneNumber,
-      user,
-    };
-  } catch (error) {
-    console.error('[SMS] Error checking eligibility:', error);
-    return null;
-  }
-}
-
 /**
  * Helper function to load auctionable item based on type
  */
@@ -209,6 +171,8 @@ export const getAuctionById = async (req, res) => {
         {
           model: AuctionBid,
           as: 'bids',
+          // Hidden maximums are never exposed to other bidders or the vendor
+          attributes: { exclude: ['maxBidAmount'] },
           include: [{ model: User, as: 'user', attributes: ['id', 'firstName', 'lastName'] }],
           order: [['amount', 'DESC']],
           limit: 10,
@@ -223,6 +187,10 @@ export const getAuctionById = async (req, res) => {
     // Load the auctionable item (book or product)
     await loadAuctionableItem(auction);
 
+    auction.dataValues.minimumBid = getMinimumBid(auction);
+    auction.dataValues.bidIncrement = getBidIncrement(auction.currentBid, auction.bidIncrement);
+    auction.dataValues.softClose = resolveSoftCloseSettings(auction, auction.vendor);
+
     res.json({ success: true, data: auction });
   } catch (error) {
     res.status(500).json({ success: false, message: error.message });
@@ -253,7 +221,18 @@ export const getActiveAuctionForProduct = async (req, res) => {
         endsAt: { [Op.gt]: new Date() },
       },
       include: [
-        { model: Vendor, as: 'vendor', attributes: ['id', 'shopName', 'shopUrl'] },
+        {
+          model: Vendor,
+          as: 'vendor',
+          attributes: [
+            'id',
+            'shopName',
+            'shopUrl',
+            'softCloseWindowMinutes',
+            'softCloseExtensionMinutes',
+            'softCloseMaxExtensionMinutes',
+          ],
+        },
         {
           model: AuctionBid,
           as: 'bids',
@@ -279,10 +258,19 @@ export const getActiveAuctionForProduct = async (req, res) => {
       startingPrice: auction.startingPrice,
       currentBid: auction.currentBid || auction.startingPrice,
       bidCount: auction.bidCount || 0,
+      minimumBid: getMinimumBid(auction),
+      bidIncrement: getBidIncrement(auction.currentBid, auction.bidIncrement),
       startsAt: auction.startsAt,
       endsAt: auction.endsAt,
+      originalEndsAt: auction.originalEndDate,
+      extensionCount: auction.extensionCount || 0,
+      softClose: resolveSoftCloseSettings(auction, auction.vendor),
       status: auction.status,
-      vendor: auction.vendor,
+      vendor: {
+        id: auction.vendor?.id,
+        shopName: auction.vendor?.shopName,
+        shopUrl: auction.vendor?.shopUrl,
+      },
       item: auction.dataValues.item,
     };
 
@@ -296,6 +284,8 @@ export const getActiveAuctionForProduct = async (req, res) => {
  * Create new auction (vendors only)
  * POST /api/auctions
  * Body: { auctionableType: 'book' | 'product', auctionableId, startingPrice, reservePrice, startDate, endDate }
+ * Optional soft close overrides: { softCloseWindowMinutes, softCloseExtensionMinutes, softCloseMaxExtensionMinutes }
+ * (omitted values fall back to the vendor's defaults when bids arrive)
  * Legacy support: { bookId, ... } will be converted to { auctionableType: 'book', auctionableId: bookId }
  */
 export const createAuction = async (req, res) => {
@@ -313,6 +303,10 @@ export const createAuction = async (req, res) => {
       productId,
       startingPrice,
       reservePrice,
+      bidIncrement,
+      softCloseWindowMinutes,
+      softCloseExtensionMinutes,
+      softCloseMaxExtensionMinutes,
       startDate,
       endDate,
     } = req.body;
@@ -406,6 +400,10 @@ export const createAuction = async (req, res) => {
       startingPrice,
       startingBid: startingPrice, // New field
       reservePrice,
+      bidIncrement: bidIncrement || null,
+      softCloseWindowMinutes: softCloseWindowMinutes ?? null,
+      softCloseExtensionMinutes: softCloseExtensionMinutes ?? null,
+      softCloseMaxExtensionMinutes: softCloseMaxExtensionMinutes ?? null,
       currentBid: null,
       startDate: startDate || new Date(),
       endDate,
@@ -459,7 +457,16 @@ export const updateAuction = async (req, res) => {
         .json({ success: false, message: 'Cannot update auction with active bids' });
     }
 
-    const allowedFields = ['startingPrice', 'reservePrice', 'startDate', 'endDate'];
+    const allowedFields = [
+      'startingPrice',
+      'reservePrice',
+      'bidIncrement',
+      'softCloseWindowMinutes',
+      'softCloseExtensionMinutes',
+      'softCloseMaxExtensionMinutes',
+      'startDate',
+      'endDate',
+    ];
     const updates = {};
     allowedFields.forEach((field) => {
       if (req.body[field] !== undefined) {
@@ -485,6 +492,31 @@ export const updateAuction = async (req, res) => {
   }
 };
 
+/**
+ * Get auction event history (soft-close extensions, ending)
+ * GET /api/auctions/:id/events
+ */
+export const getAuctionEvents = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const auction = await Auction.findByPk(id, { attributes: ['id'] });
+    if (!auction) {
+      return res.status(404).json({ success: false, message: 'Auction not found' });
+    }
+
+    const events = await AuctionEvent.findAll({
+      where: { auctionId: id },
+      attributes: ['id', 'eventType', 'data', 'createdAt'],
+      order: [['createdAt', 'ASC']],
+    });
+
+    res.json({ success: true, data: events });
+  } catch (error) {
+    res.status(500).json({ success: false, message: error.message });
+  }
+};
+
 /**
  * Close auction manually
  * POST /api/auctions/:id/close
@@ -511,11 +543,13 @@ export const closeAuction = async (req, res) => {
       return res.status(400).json({ success: false, message: 'Auction already closed' });
     }
 
-    // Find highest bid
-    const highestBid = await AuctionBid.findOne({
-      where: { auctionId: id },
-      order: [['amount', 'DESC']],
-    });
+    // Find the leading bid (proxy ties share an amount, so status decides)
+    const highestBid =
+      (await AuctionBid.findOne({ where: { auctionId: id, status: 'winning' } })) ||
+      (await AuctionBid.findOne({
+        where: { auctionId: id },
+        order: [['amount', 'DESC']],
+      }));
 
     let updates = { status: 'ended' };
 
@@ -532,153 +566,60 @@ export const closeAuction = async (req, res) => {
         status: 'pending_payment',
       });
 
-      // Send winner notification email (with idempotency check)
+      // Notify the winner (with idempotency check)
       try {
         // Check if notification already sent using JSONB query
-        const existingNotification = Notification
-          ? await Notification.findOne({
-              where: {
-                type: 'AUCTION_WON_PAYMENT_DUE',
-                [Op.and]: sequelize.where(
-                  sequelize.cast(sequelize.json('data.entityId'), 'text'),
-                  id,
-                ),
-              },
-            })
-          : null;
+        const existingNotification = await Notification.findOne({
+          where: {
+            type: 'AUCTION_WON_PAYMENT_DUE',
+            [Op.and]: sequelize.where(sequelize.cast(sequelize.json('data.entityId'), 'text'), id),
+          },
+        });
 
         if (existingNotification) {
-          console.log(
-            `Notification already sent: AUCTION_WON_PAYMENT_DUE ${id} ${existingNotification.data.recipientEmail}`,
-          );
+          console.log(`Notification already sent: AUCTION_WON_PAYMENT_DUE ${id}`);
         } else {
           // Load auction item details
           await loadAuctionableItem(auction);
           const item = auction.dataValues.item;
           const auctionTitle = item?.title || 'Auction Item';
 
-          // Get winner details
           const winner = await User.findByPk(highestBid.userId);
-          if (winner?.email && winner.emailNotifications !== false) {
+          if (winner) {
             const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
             const winningAmount = parseFloat(highestBid.amount).toFixed(2);
 
-            // Send email
-            await sendTemplatedEmail('auction_won_payment_due', winner.email, {
-              userName: winner.name || winner.firstName || 'Collector',
-              auctionTitle,
-              winningAmount,
-              auctionId: id,
-              paymentLink: `${frontendUrl}/account/winnings`,
-            });
-
-            console.log(
-              `EMAIL: auction_won_payment_due | recipient=${winner.email} | auctionId=${id}`,
-            );
-
-            // Persist notification after successful send
-            if (Notification) {
-              const notificationRecord = await Notification.create({
-                userId: highestBid.userId,
-                type: 'AUCTION_WON_PAYMENT_DUE',
-                data: {
-                  entityType: 'auction',
-                  entityId: id,
-                  templateName: 'auction_won_payment_due',
-                  recipientEmail: winner.email,
-                  sentAt: new Date().toISOString(),
-                  metadata: {
-                    auctionTitle,
-                    winningAmount,
-                    auctionId: id,
-                    productTitle: auctionTitle,
-                  },
+            await dispatchNotification(winner, 'AUCTION_WON_PAYMENT_DUE', {
+              message: `Congratulations! You won "${auctionTitle}". Payment is due.`,
+              data: {
+                entityType: 'auction',
+                entityId: id,
+                metadata: {
+                  auctionTitle,
+                  winningAmount,
+                  auctionId: id,
+                  productTitle: auctionTitle,
                 },
-                isRead: false,
-              });
-
-              // Emit real-time notification via Socket.IO
-              try {
-                emitNotification(
-                  highestBid.userId,
-                  'notification:new',
-                  notificationRecord.toJSON(),
-                );
-              } catch (socketError) {
-                console.error('Failed to emit notification socket event:', socketError.message);
-              }
-            }
-
-            // Send SMS if user opted in (never block auction close)
-            try {
-              if (canSendSms(winner)) {
-                // Check SMS idempotency
-                const existingSmsNotification = await Notification.findOne({
-                  where: {
-                    userId: winner.id,
-                    type: 'SMS_AUCTION_WON_PAYMENT_DUE',
-                    [sequelize.Op.and]: [
-                      sequelize.where(sequelize.cast(sequelize.json('data.entityId'), 'text'), id),
-                    ],
-                  },
-                });
-
-                if (!existingSmsNotification) {
-                  const smsMessage = `Congratulations! You won "${auctionTitle}" for $${winningAmount}. Payment due. View: ${frontendUrl}/account/winnings`;
-                  const smsResult = await sendSms(winner.phoneNumber, smsMessage, {
-                    correlationId: id,
-                    type: 'SMS_AUCTION_WON_PAYMENT_DUE',
-                    entityId: id,
-                  });
-
-                  if (smsResult.ok) {
-                    // Create SMS notification record
-                    const smsNotificationRecord = await Notification.create({
-                      userId: winner.id,
-                      type: 'SMS_AUCTION_WON_PAYMENT_DUE',
-                      data: {
-                        entityType: 'auction',
-                        entityId: id,
-                        channel: 'sms',
-                        recipientPhone: winner.phoneNumber,
-                        providerMessageId: smsResult.providerMessageId,
-                        sentAt: new Date().toISOString(),
-                        metadata: {
-                          auctionTitle,
-                          winningAmount,
-                        },
-                      },
-                      isRead: false,
-                    });
-
-                    console.log(
-                      `SMS: SMS_AUCTION_WON_PAYMENT_DUE | recipient=${winner.phoneNumber} | auctionId=${id}`,
-                    );
-
-                    // Emit socket event for SMS notification
-                    try {
-                      emitNotification(
-                        winner.id,
-                        'notification:new',
-                        smsNotificationRecord.toJSON(),
-                      );
-                    } catch (socketError) {
-                      console.error(
-                        'Failed to emit SMS notification socket event:',
-                        socketError.message,
-                      );
-                    }
-                  }
-                }
-              }
-            } catch (smsError) {
-              console.error('Failed to send auction winner SMS:', smsError.message);
-            }
+              },
+              email: {
+                template: 'auction_won_payment_due',
+                variables: {
+                  userName: winner.name || winner.firstName || 'Collector',
+                  auctionTitle,
+                  winningAmount,
+                  auctionId: id,
+                  paymentLink: `${frontendUrl}/account/winnings`,
+                },
+              },
+              sms: {
+                message: `Congratulations! You won "${auctionTitle}" for $${winningAmount}. Payment due. View: ${frontendUrl}/account/winnings`,
+              },
+            });
           }
         }
-      } catch (emailError) {
-        // Never block auction close on email failure
-        console.error('Failed to send auction winner email:', emailError.message);
+      } catch (notifyError) {
+        // Never block auction close on notification failure
+        console.error('Failed to notify auction winner:', notifyError.message);
       }
 
       // Update bid statuses
@@ -699,6 +640,12 @@ export const closeAuction = async (req, res) => {
 
     await auction.update(updates);
 
+    emitAuctionEvent(auction.id, 'auction:ended', {
+      auctionId: auction.id,
+      status: updates.status,
+      endedAt: new Date(),
+    });
+
     res.json({
       success: true,
       message: 'Auction closed successfully',
@@ -741,6 +688,12 @@ export const cancelAuction = async (req, res) => {
     // Update all bids to cancelled
     await AuctionBid.update({ status: 'lost' }, { where: { auctionId: id } });
 
+    emitAuctionEvent(auction.id, 'auction:ended', {
+      auctionId: auction.id,
+      status: 'cancelled',
+      endedAt: new Date(),
+    });
+
     res.json({ success: true, message: 'Auction cancelled successfully' });
   } catch (error) {
     res.status(500).json({ success: false, message: error.message });
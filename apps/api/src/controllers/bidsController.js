@@ -4,19 +4,23 @@
 
 import db from '../models/index.js';
 import { Op } from 'sequelize';
-import { sendSms } from '../services/emailService.js';
+import { getMinimumBid, resolveProxyBid } from '../services/proxyBidEngine.js';
+import { computeSoftCloseExtension } from '../services/auctionSoftClose.js';
+import { dispatchNotification } from '../services/notificationDispatch.js';
+import { emitAuctionEvent, emitAuctionUserEvent } from '../sockets/index.js';
 
-const { AuctionBid, Auction, User, Book } = db;
+const { AuctionBid, AuctionEvent, Auction, Vendor, User, Book, sequelize } = db;
 
 /**
  * Place a bid on an auction
  * POST /api/auctions/:id/bids
+ * Body: { amount, maxBid? } - maxBid sets a hidden maximum the server bids up to automatically
  */
 export const placeBid = async (req, res) => {
   try {
     const { auctionId } = req.params;
     const { userId } = req.user;
-    const { amount, smsOptIn, phoneNumber } = req.body;
+    const { amount, maxBid, smsOptIn, phoneNumber } = req.body;
 
     // Get current user
     const currentUser = await User.findByPk(userId);
@@ -51,87 +55,184 @@ export const placeBid = async (req, res) => {
       return res.status(400).json({ success: false, message: 'Auction has ended' });
     }
 
-    // Validate bid amount
-    const minBid = auction.currentBid
-      ? parseFloat(auction.currentBid) + 1
-      : parseFloat(auction.startingPrice);
-    if (parseFloat(amount) < minBid) {
-      return res.status(400).json({
-        success: false,
-        message: `Bid must be at least $${minBid.toFixed(2)}`,
-      });
+    const hasMaxBid = maxBid !== undefined && maxBid !== null && maxBid !== '';
+    const requestedMax = hasMaxBid ? parseFloat(maxBid) : null;
+    if (hasMaxBid && isNaN(requestedMax)) {
+      return res.status(400).json({ success: false, message: 'Maximum bid must be a number' });
     }
 
-    // Prevent self-outbidding: check if user already has the highest (winning) bid
-    const existingWinningBid = await AuctionBid.findOne({
-      where: { auctionId, userId, status: 'winning' },
-    });
-    if (existingWinningBid) {
-      return res.status(400).json({
-        success: false,
-        message: 'You already have the highest bid on this auction',
+    const transaction = await sequelize.transaction();
+    let result;
+    let previousLeader;
+    let extension = null;
+    let createdBids = [];
+    let updatedAuction;
+
+    try {
+      // Lock the auction row so concurrent bids resolve one at a time
+      const lockedAuction = await Auction.findByPk(auctionId, {
+        lock: transaction.LOCK.UPDATE,
+        transaction,
       });
-    }
 
-    // Create new bid
-    const bid = await AuctionBid.create({
-      auctionId,
-      userId,
-      amount,
-      status: 'winning',
-    });
+      // The auction may have closed while this bid waited for the lock
+      const bidTime = new Date();
+      if (lockedAuction.status !== 'active' || new Date(lockedAuction.endDate) <= bidTime) {
+        await transaction.rollback();
+        return res.status(400).json({ success: false, message: 'Auction has ended' });
+      }
 
-    // Update previous bids to outbid and notify users
-    const outbidUsers = await AuctionBid.findAll({
-      where: {
-        auctionId,
-        id: { [Op.ne]: bid.id },
-        status: { [Op.in]: ['active', 'winning'] },
-      },
-      include: [{ model: User, as: 'user' }],
-    });
+      previousLeader = await AuctionBid.findOne({
+        where: { auctionId, status: 'winning' },
+        order: [['createdAt', 'DESC']],
+        transaction,
+      });
 
-    // Send SMS notifications to outbid users
-    for (const outbidBid of outbidUsers) {
-      const outbidUser = outbidBid.user;
-      const metadata = outbidUser.metadata || {};
-
-      if (metadata.smsOptIn && outbidUser.phoneNumber) {
-        try {
-          await sendSms(
-            outbidUser.phoneNumber,
-            `Ageless Literature: You've been outbid on "${auction.book?.title || 'auction item'}". Current bid: $${amount}. Place a new bid at agelessliterature.com`,
-            {
-              type: 'auction_outbid',
-              entityId: auctionId,
-              correlationId: `auction_${auctionId}_bid_${bid.id}`,
-            },
-          );
-          // SMS sent successfully
-        } catch (smsError) {
-          console.error(`[Bid] Failed to send SMS to user ${outbidUser.id}:`, smsError);
+      // Current leader may only raise their hidden maximum
+      if (previousLeader && previousLeader.userId === userId) {
+        const currentMax = parseFloat(previousLeader.maxBidAmount || previousLeader.amount);
+        if (!hasMaxBid || requestedMax <= currentMax) {
+          await transaction.rollback();
+          return res.status(400).json({
+            success: false,
+            message: 'You already have the highest bid on this auction',
+          });
         }
+
+        await previousLeader.update({ maxBidAmount: requestedMax }, { transaction });
+        await transaction.commit();
+
+        return res.json({
+          success: true,
+          message: 'Maximum bid updated',
+          data: { bid: previousLeader, isLeading: true, currentBid: lockedAuction.currentBid },
+        });
+      }
+
+      // Validate bid amount
+      const minBid = getMinimumBid(lockedAuction);
+      const bidAmount = amount !== undefined && amount !== '' ? parseFloat(amount) : minBid;
+      if (isNaN(bidAmount) || bidAmount < minBid) {
+        await transaction.rollback();
+        return res.status(400).json({
+          success: false,
+          message: `Bid must be at least $${minBid.toFixed(2)}`,
+        });
+      }
+      if (hasMaxBid && requestedMax < bidAmount) {
+        await transaction.rollback();
+        return res.status(400).json({
+          success: false,
+          message: 'Maximum bid cannot be lower than your bid amount',
+        });
       }
-    }
 
-    await AuctionBid.update(
-      { status: 'outbid' },
-      {
-        where: {
-          auctionId,
-          id: { [Op.ne]: bid.id },
-          status: { [Op.in]: ['active', 'winning'] },
+      result = resolveProxyBid({
+        auction: lockedAuction,
+        leader: previousLeader,
+        challenger: { userId, amount: bidAmount, maxBidAmount: requestedMax },
+      });
+
+      // Demote the previous leader before persisting the resolved bids
+      await AuctionBid.update(
+        { status: 'outbid' },
+        {
+          where: { auctionId, status: { [Op.in]: ['active', 'winning'] } },
+          transaction,
         },
-      },
-    );
+      );
+
+      for (const resolved of result.bids) {
+        createdBids.push(
+          await AuctionBid.create({ auctionId, ...resolved, bidTime }, { transaction }),
+        );
+      }
+
+      result.challengerBid = createdBids.find((b) => b.userId === userId);
+
+      // Anti-sniping: a bid in the final window pushes the end time back
+      const vendor = await Vendor.findByPk(lockedAuction.vendorId, {
+        attributes: [
+          'id',
+          'softCloseWindowMinutes',
+          'softCloseExtensionMinutes',
+          'softCloseMaxExtensionMinutes',
+        ],
+        transaction,
+      });
+      extension = computeSoftCloseExtension(lockedAuction, bidTime, vendor);
 
-    // Update auction current bid and bid count
-    await auction.update({
-      currentBid: amount,
-      bidCount: (auction.bidCount || 0) + 1,
+      const auctionUpdates = {
+        currentBid: result.currentBid,
+        bidCount: (lockedAuction.bidCount || 0) + createdBids.length,
+      };
+      if (extension) {
+        Object.assign(auctionUpdates, {
+          endDate: extension.newEndDate,
+          endsAt: extension.newEndDate,
+          originalEndDate: extension.originalEndDate,
+          extensionCount: (lockedAuction.extensionCount || 0) + 1,
+        });
+        await AuctionEvent.create(
+          {
+            auctionId: lockedAuction.id,
+            eventType: 'extended',
+            userId,
+            data: {
+              bidId: result.challengerBid.id,
+              previousEndDate: extension.previousEndDate,
+              newEndDate: extension.newEndDate,
+              extendedByMinutes: extension.extendedByMinutes,
+            },
+          },
+          { transaction },
+        );
+      }
+
+      await lockedAuction.update(auctionUpdates, { transaction });
+
+      await transaction.commit();
+      updatedAuction = lockedAuction;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    // Live auction room: public bid details only, never hidden maximums
+    const publicBids = await AuctionBid.findAll({
+      where: { id: createdBids.map((b) => b.id) },
+      attributes: { exclude: ['maxBidAmount'] },
+      include: [{ model: User, as: 'user', attributes: ['id', 'firstName', 'lastName', 'image'] }],
+      order: [['amount', 'DESC']],
     });
+    emitAuctionEvent(auctionId, 'auction:bid', {
+      auctionId: parseInt(auctionId),
+      currentBid: result.currentBid,
+      bidCount: updatedAuction.bidCount,
+      minimumBid: getMinimumBid(updatedAuction),
+      bids: publicBids.map((b) => b.toJSON()),
+    });
+
+    if (extension) {
+      emitAuctionEvent(auctionId, 'auction:extended', {
+        auctionId: parseInt(auctionId),
+        endsAt: extension.newEndDate,
+        previousEndsAt: extension.previousEndDate,
+        extendedByMinutes: extension.extendedByMinutes,
+      });
+    }
 
-    const createdBid = await AuctionBid.findByPk(bid.id, {
+    // Notify whoever just lost the lead (the challenger learns from the response)
+    if (previousLeader && result.challengerLeads) {
+      emitAuctionUserEvent(previousLeader.userId, 'auction:outbid', {
+        auctionId: parseInt(auctionId),
+        currentBid: result.currentBid,
+        minimumBid: getMinimumBid(updatedAuction),
+      });
+      await notifyOutbid(previousLeader.userId, auction, result.currentBid, result.challengerBid);
+    }
+
+    const createdBid = await AuctionBid.findByPk(result.challengerBid.id, {
       include: [
         {
           model: Auction,
@@ -143,14 +244,40 @@ export const placeBid = async (req, res) => {
 
     res.status(201).json({
       success: true,
-      message: 'Bid placed successfully',
-      data: createdBid,
+      message: result.challengerLeads
+        ? 'Bid placed successfully'
+        : "Bid placed, but another bidder's maximum is higher",
+      data: {
+        bid: createdBid,
+        isLeading: result.challengerLeads,
+        currentBid: result.currentBid,
+        endsAt: extension ? extension.newEndDate : auction.endDate,
+        extended: Boolean(extension),
+      },
     });
   } catch (error) {
     res.status(500).json({ success: false, message: error.message });
   }
 };
 
+/**
+ * Tell a bidder they have been outbid, on the channels they chose
+ */
+async function notifyOutbid(outbidUserId, auction, currentBid, bid) {
+  const itemTitle = auction.book?.title || 'auction item';
+  await dispatchNotification(outbidUserId, 'AUCTION_OUTBID', {
+    message: `You've been outbid on "${itemTitle}". Current bid: $${currentBid}.`,
+    data: {
+      entityType: 'auction',
+      entityId: String(auction.id),
+      metadata: { bidId: bid.id, currentBid, itemTitle },
+    },
+    sms: {
+      message: `Ageless Literature: You've been outbid on "${itemTitle}". Current bid: $${currentBid}. Place a new bid at agelessliterature.com`,
+    },
+  });
+}
+
 /**
  * Get bids for specific auction
  * GET /api/auctions/:id/bids
@@ -163,6 +290,8 @@ export const getAuctionBids = async (req, res) => {
 
     const bids = await AuctionBid.findAndCountAll({
       where: { auctionId },
+      // Hidden maximums are never exposed to other bidders or the vendor
+      attributes: { exclude: ['maxBidAmount'] },
       include: [{ model: User, as: 'user', attributes: ['id', 'firstName', 'lastName', 'image'] }],
       order: [
         ['amount', 'DESC'],
@@ -6,6 +6,8 @@
 import db from '../models/index.js';
 import { Op } from 'sequelize';
 import { indexBook, removeBookFromIndex } from '../utils/meilisearch.js';
+import { matchBookToRequests } from '../services/rareBookRequestMatching.js';
+import { bibliographicFilters, bibliographicWhere } from '../services/bibliographicDetails.js';
 
 const { Book, Vendor, BookMedia, Category, Tag, Auction } = db;
 
@@ -51,6 +53,8 @@ export const getAllBooks = async (req, res) => {
       if (minPrice) where.price[Op.gte] = minPrice;
       if (maxPrice) where.price[Op.lte] = maxPrice;
     }
+    const bibliographic = bibliographicWhere(bibliographicFilters(req.query));
+    if (bibliographic) where.bibliographicDetails = bibliographic;
     if (search) {
       where[Op.and] = [
         {
@@ -276,6 +280,9 @@ export const createBook = async (req, res) => {
 
     // Index in Meilisearch (async, don't wait)
     indexBook(book.id).catch((err) => console.error('Failed to index book:', err));
+    matchBookToRequests(book.id).catch((err) =>
+      console.error('Failed to match book requests:', err),
+    );
 
     res.status(201).json({ success: true, data: book });
   } catch (error) {
@@ -300,6 +307,9 @@ export const updateBook = async (req, res) => {
 
     // Update in Meilisearch (async, don't wait)
     indexBook(book.id).catch((err) => console.error('Failed to update book in search:', err));
+    matchBookToRequests(book.id).catch((err) =>
+      console.error('Failed to match book requests:', err),
+    );
 
     res.json({ success: true, data: book });
   } catch (error) {
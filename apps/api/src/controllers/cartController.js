@@ -5,6 +5,14 @@ import {
   calculateDiscount,
   getDiscountSummary,
 } from '../services/couponService.js';
+import { DEFAULT_FLAT_RATE } from '../services/shippingRateEngine.js';
+import {
+  BASE_CURRENCY,
+  convertAmount,
+  normalizeCurrency,
+  resolveSettlementCurrency,
+} from '../services/currencyConverter.js';
+import { loadRateTable } from '../services/currencyService.js';
 
 const { Cart, CartItem, Book, Product, Auction, BookMedia } = db;
 
@@ -33,7 +41,7 @@ export const getCart = async (req, res) => {
       cart = await Cart.create({ userId });
       return res.json({
         success: true,
-        data: { items: [], subtotal: 0, total: 0 },
+        data: { items: [], subtotal: 0, total: 0, currency: BASE_CURRENCY },
       });
     }
 
@@ -54,6 +62,7 @@ export const getCart = async (req, res) => {
           id: source.id,
           title: source.title,
           price: parseFloat(source.salePrice || source.price) || 0,
+          currency: normalizeCurrency(source.currency),
           quantity: source.quantity ?? 1,
           sid: source.sid || source.slug || null,
           // Books use BookMedia (array of { imageUrl }), Products use images JSONB (array of { url })
@@ -72,8 +81,20 @@ export const getCart = async (req, res) => {
       })
       .filter(Boolean);
 
-    // Compute subtotal and total
-    const subtotal = items.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+    // Compute subtotal and total in the currency the order will settle in
+    const currency = resolveSettlementCurrency(items.map((item) => item.product.currency));
+    const needsConversion = items.some((item) => item.product.currency !== currency);
+    const rates = needsConversion ? await loadRateTable() : {};
+    const priceIn = (product) => {
+      if (!needsConversion) return product.price;
+      try {
+        return convertAmount(product.price, product.currency, currency, rates);
+      } catch {
+        // Missing rate: checkout rejects the order, the cart still renders
+        return product.price;
+      }
+    };
+    const subtotal = items.reduce((sum, item) => sum + priceIn(item.product) * item.quantity, 0);
     const total = subtotal; // Shipping / tax are computed at checkout
 
     // Check for applied coupon
@@ -81,7 +102,8 @@ export const getCart = async (req, res) => {
     if (cart.couponCode) {
       try {
         const coupon = await validateCoupon(cart.couponCode, userId, items, subtotal);
-        const shippingCost = 10;
+        // Destination is unknown until checkout, so preview against the default rate
+        const shippingCost = DEFAULT_FLAT_RATE;
         const discountAmount = calculateDiscount(coupon, items, subtotal, shippingCost);
         const summary = getDiscountSummary(coupon, discountAmount);
         couponData = {
@@ -96,7 +118,7 @@ export const getCart = async (req, res) => {
       }
     }
 
-    res.json({ success: true, data: { items, subtotal, total, coupon: couponData } });
+    res.json({ success: true, data: { items, subtotal, total, currency, coupon: couponData } });
   } catch (error) {
     console.error('getCart error:', error);
     res.status(500).json({ success: false, error: error.message });
@@ -0,0 +1,429 @@
+/**
+ * Chat Controller
+ * Attachments, read receipts, search and in-chat offers shared by buyer and vendor chat
+ */
+
+import db from '../models/index.js';
+import {
+  createChatMessage,
+  findParticipantConversation,
+  markConversationRead,
+  otherParticipantId,
+  searchChatMessages,
+  toMessagePayload,
+  uploadChatAttachments,
+} from '../services/chatMessageService.js';
+import { MIN_SEARCH_LENGTH, normalizeSearchQuery } from '../services/chatMessageRules.js';
+import {
+  OFFER_ACTIONS,
+  allowedOfferActions,
+  isOfferExpired,
+  offerExpiry,
+  offerParty,
+  offerPriceError,
+  toChatOffer,
+} from '../services/customOfferRules.js';
+import { findOfferItem, offerEmail, postOfferEvent } from '../services/offerChatService.js';
+import { dispatchNotification } from '../services/notificationDispatch.js';
+import { CHAT_NAMESPACE } from '../sockets/chatHandler.js';
+
+const { CustomOffer, Vendor, sequelize } = db;
+
+const MAX_MESSAGE_LENGTH = 5000;
+
+/**
+ * Move an offer out of pending, unless a concurrent response already did
+ * @returns {Promise<boolean>} false when the offer was no longer pending
+ */
+const settlePendingOffer = async (offer, values, options = {}) => {
+  const [updated] = await CustomOffer.update(values, {
+    where: { id: offer.id, status: 'pending' },
+    ...options,
+  });
+  if (updated === 0) return false;
+  await offer.reload(options);
+  return true;
+};
+
+const offerConflict = (res) =>
+  res.status(409).json({
+    success: false,
+    message: 'This offer has already been answered',
+  });
+
+const broadcast = (req, conversationId, event, payload) => {
+  const io = req.app.get('io');
+  if (io) io.of(CHAT_NAMESPACE).to(`conversation:${conversationId}`).emit(event, payload);
+};
+
+/**
+ * Send a message with image/PDF attachments
+ * POST /api/chat/conversations/:conversationId/attachments
+ * Body: multipart/form-data with files[] and an optional message
+ */
+export const sendAttachments = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const { conversationId } = req.params;
+    const text = (req.body.message || '').trim();
+
+    if (!req.files?.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'At least one file is required',
+      });
+    }
+
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters`,
+      });
+    }
+
+    const conversation = await findParticipantConversation(conversationId, userId);
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conversation not found',
+      });
+    }
+
+    const attachments = await uploadChatAttachments(req.files, conversation.id);
+    const message = await createChatMessage({
+      conversationId: conversation.id,
+      senderId: userId,
+      body: text,
+      attachments,
+    });
+
+    const payload = toMessagePayload(message);
+    broadcast(req, conversation.id, 'message:new', payload);
+
+    return res.status(201).json({
+      success: true,
+      data: { message: payload },
+    });
+  } catch (error) {
+    console.error('Send attachments error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to send attachments',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Mark a conversation read up to a message (default: the latest)
+ * POST /api/chat/conversations/:conversationId/read
+ */
+export const markRead = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const { conversationId } = req.params;
+
+    const conversation = await findParticipantConversation(conversationId, userId);
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conversation not found',
+      });
+    }
+
+    const receipt = await markConversationRead(conversation.id, userId, req.body?.messageId);
+    if (receipt) broadcast(req, conversation.id, 'conversation:read', receipt);
+
+    return res.status(200).json({
+      success: true,
+      data: { receipt },
+    });
+  } catch (error) {
+    console.error('Mark read error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to mark conversation as read',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Search messages across the user's conversations
+ * GET /api/chat/search?q=
+ */
+export const searchMessages = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const query = normalizeSearchQuery(req.query.q);
+
+    if (!query) {
+      return res.status(400).json({
+        success: false,
+        message: `Search terms must be at least ${MIN_SEARCH_LENGTH} characters`,
+      });
+    }
+
+    const results = await searchChatMessages(userId, query, { limit: req.query.limit });
+
+    return res.status(200).json({
+      success: true,
+      data: { results },
+    });
+  } catch (error) {
+    console.error('Search messages error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to search messages',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Make an offer on the item a conversation is about
+ * POST /api/chat/conversations/:conversationId/offers
+ * Body: { offerPrice, message? } — buyers offer on the listing, vendors send a custom offer
+ */
+export const makeOffer = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const { conversationId } = req.params;
+    const { offerPrice, message } = req.body;
+
+    const conversation = await findParticipantConversation(conversationId, userId);
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conversation not found',
+      });
+    }
+
+    const item = await findOfferItem(conversation.itemType, conversation.itemId);
+    if (!item) {
+      return res.status(400).json({
+        success: false,
+        message: 'Offers can only be made in a conversation about an item',
+      });
+    }
+
+    const vendor = await Vendor.findByPk(item.vendorId, {
+      attributes: ['id', 'userId', 'shopName'],
+    });
+    const otherUserId = otherParticipantId(conversation, userId);
+    const party = String(vendor?.userId) === String(userId) ? 'vendor' : 'buyer';
+    if (!vendor || (party === 'buyer' && String(vendor.userId) !== String(otherUserId))) {
+      return res.status(400).json({
+        success: false,
+        message: 'This conversation is not with the seller of the item',
+      });
+    }
+
+    const priceError = offerPriceError(offerPrice, item.price);
+    if (priceError) {
+      return res.status(400).json({
+        success: false,
+        message: priceError,
+      });
+    }
+
+    const buyerId = party === 'buyer' ? userId : otherUserId;
+    const existingOffer = await CustomOffer.findOne({
+      where: {
+        vendorId: vendor.id,
+        userId: buyerId,
+        itemType: conversation.itemType,
+        itemId: item.id,
+        status: 'pending',
+      },
+    });
+    if (existingOffer && !isOfferExpired(existingOffer)) {
+      return res.status(400).json({
+        success: false,
+        message: 'There is already a pending offer on this item',
+      });
+    }
+
+    const offer = await CustomOffer.create({
+      vendorId: vendor.id,
+      userId: buyerId,
+      itemType: conversation.itemType,
+      itemId: item.id,
+      originalPrice: item.price,
+      offerPrice,
+      message: message?.trim() || null,
+      expiresAt: offerExpiry(),
+      status: 'pending',
+      initiatedBy: party,
+      conversationId: conversation.id,
+    });
+
+    const payload = await postOfferEvent(offer, 'created', userId);
+
+    await dispatchNotification(otherUserId, party === 'vendor' ? 'custom_offer' : 'buyer_offer', {
+      title: party === 'vendor' ? 'New Custom Offer' : 'New Offer Received',
+      message:
+        party === 'vendor'
+          ? `${vendor.shopName || 'A vendor'} sent you a custom offer for ${item.title}`
+          : `A buyer made an offer of $${offerPrice} on "${item.title}"`,
+      data: {
+        offerId: offer.id,
+        conversationId: conversation.id,
+        itemType: offer.itemType,
+        itemId: offer.itemId,
+        originalPrice: offer.originalPrice,
+        offerPrice,
+      },
+      email: offerEmail(party === 'vendor' ? 'buyer' : 'vendor'),
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: { offer: toChatOffer(offer), message: payload },
+    });
+  } catch (error) {
+    console.error('Make offer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to make offer',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Accept, decline, counter or withdraw an offer from its chat message
+ * POST /api/chat/offers/:offerId/respond
+ * Body: { action, offerPrice?, message? } — offerPrice is required to counter
+ */
+export const respondToOffer = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const { offerId } = req.params;
+    const { action, offerPrice, message } = req.body;
+
+    if (!OFFER_ACTIONS[action]) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid action. Must be one of: ${Object.keys(OFFER_ACTIONS).join(', ')}`,
+      });
+    }
+
+    const offer = await CustomOffer.findByPk(offerId, {
+      include: [{ model: Vendor, as: 'vendor', attributes: ['id', 'userId', 'shopName'] }],
+    });
+    const party = offer && offerParty(offer, { userId, vendorUserId: offer.vendor?.userId });
+    if (!party) {
+      return res.status(404).json({
+        success: false,
+        message: 'Offer not found',
+      });
+    }
+
+    if (isOfferExpired(offer)) {
+      if (await settlePendingOffer(offer, { status: 'expired' })) {
+        await postOfferEvent(offer, 'expired', userId);
+      }
+      return res.status(400).json({
+        success: false,
+        message: 'This offer has expired',
+      });
+    }
+
+    if (!allowedOfferActions(offer, party).includes(action)) {
+      return res.status(400).json({
+        success: false,
+        message:
+          offer.status === 'pending'
+            ? `You cannot ${action} this offer`
+            : `This offer has already been ${offer.status}`,
+      });
+    }
+
+    let result = offer;
+    if (action === 'counter') {
+      const priceError = offerPriceError(offerPrice, offer.originalPrice);
+      if (priceError) {
+        return res.status(400).json({
+          success: false,
+          message: priceError,
+        });
+      }
+
+      // The answered offer and its counter change together
+      const transaction = await sequelize.transaction();
+      try {
+        const settled = await settlePendingOffer(
+          offer,
+          { status: 'countered', respondedAt: new Date() },
+          { transaction },
+        );
+        if (!settled) {
+          await transaction.rollback();
+          return offerConflict(res);
+        }
+        result = await CustomOffer.create(
+          {
+            vendorId: offer.vendorId,
+            userId: offer.userId,
+            itemType: offer.itemType,
+            itemId: offer.itemId,
+            originalPrice: offer.originalPrice,
+            offerPrice,
+            message: message?.trim() || null,
+            expiresAt: offerExpiry(),
+            status: 'pending',
+            initiatedBy: party,
+            conversationId: offer.conversationId,
+            counterOfId: offer.id,
+          },
+          { transaction },
+        );
+        await transaction.commit();
+      } catch (error) {
+        await transaction.rollback();
+        throw error;
+      }
+    } else {
+      const settled = await settlePendingOffer(offer, {
+        status: OFFER_ACTIONS[action],
+        ...(action !== 'cancel' && { respondedAt: new Date() }),
+      });
+      if (!settled) return offerConflict(res);
+    }
+
+    const event = action === 'counter' ? 'countered' : result.status;
+    const payload = await postOfferEvent(result, event, userId);
+
+    const item = await findOfferItem(offer.itemType, offer.itemId);
+    await dispatchNotification(
+      party === 'buyer' ? offer.vendor.userId : offer.userId,
+      'offer_response',
+      {
+        title: `Offer ${event}`,
+        message: `${party === 'vendor' ? offer.vendor.shopName || 'The vendor' : 'The buyer'} ${
+          event === 'cancelled' ? 'withdrew' : `has ${event}`
+        } the offer on "${item?.title || 'an item'}"`,
+        data: {
+          offerId: result.id,
+          conversationId: result.conversationId,
+          status: event,
+          offerPrice: result.offerPrice,
+        },
+        email: offerEmail(party === 'buyer' ? 'vendor' : 'buyer'),
+      },
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: { offer: toChatOffer(result), message: payload },
+    });
+  } catch (error) {
+    console.error('Respond to offer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to respond to offer',
+      error: error.message,
+    });
+  }
+};
@@ -0,0 +1,21 @@
+/**
+ * Currency Controller (Customer-facing)
+ * Publishes exchange rates so prices can be shown in the buyer's currency
+ */
+import { BASE_CURRENCY } from '../services/currencyConverter.js';
+import { loadRateTable } from '../services/currencyService.js';
+
+/**
+ * GET /currency/rates
+ * Returns { base, rates: { USD: 1, EUR: 0.92, ... } }
+ */
+export const getRates = async (req, res) => {
+  try {
+    const rates = await loadRateTable();
+
+    res.json({ success: true, data: { base: BASE_CURRENCY, rates } });
+  } catch (error) {
+    console.error('Exchange rates error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load exchange rates' });
+  }
+};
@@ -1,12 +1,15 @@
 /**
  * Custom Offers Controller
  * Handles vendor custom price offers to specific users
+ * Every offer event is also posted to the item's buyer/vendor conversation (offerChatService)
  */
 
 import db from '../models/index.js';
 import { Op } from 'sequelize';
+import { offerEmail, postOfferEvent } from '../services/offerChatService.js';
+import { dispatchNotification } from '../services/notificationDispatch.js';
 
-const { CustomOffer, Vendor, User, Book, Product, BookMedia, Notification } = db;
+const { CustomOffer, Vendor, User, Book, Product, BookMedia } = db;
 
 /**
  * Create a custom offer (Vendor)
@@ -104,22 +107,21 @@ export const createOffer = async (req, res) => {
       initiatedBy: 'vendor',
     });
 
+    await postOfferEvent(offer, 'created', userId);
+
     // Create notification for the user
-    if (Notification) {
-      await Notification.create({
-        userId: targetUserId,
-        type: 'custom_offer',
-        title: 'New Custom Offer',
-        message: `${vendor.shopName || 'A vendor'} sent you a custom offer for ${item.title}`,
-        data: {
-          offerId: offer.id,
-          itemType,
-          itemId,
-          originalPrice,
-          offerPrice,
-        },
-      });
-    }
+    await dispatchNotification(targetUserId, 'custom_offer', {
+      title: 'New Custom Offer',
+      message: `${vendor.shopName || 'A vendor'} sent you a custom offer for ${item.title}`,
+      data: {
+        offerId: offer.id,
+        itemType,
+        itemId,
+        originalPrice,
+        offerPrice,
+      },
+      email: offerEmail('buyer'),
+    });
 
     return res.status(201).json({
       success: true,
@@ -243,6 +245,7 @@ export const cancelOffer = async (req, res) => {
     }
 
     await offer.update({ status: 'cancelled' });
+    await postOfferEvent(offer, 'cancelled', userId);
 
     return res.json({
       success: true,
@@ -351,6 +354,7 @@ export const respondToOffer = async (req, res) => {
         id,
         userId,
         status: 'pending',
+        initiatedBy: 'vendor',
       },
       include: [
         {
@@ -370,6 +374,7 @@ export const respondToOffer = async (req, res) => {
     // Check if expired
     if (offer.expiresAt && new Date() > new Date(offer.expiresAt)) {
       await offer.update({ status: 'expired' });
+      await postOfferEvent(offer, 'expired', userId);
       return res.status(400).json({
         success: false,
         message: 'This offer has expired',
@@ -381,19 +386,19 @@ export const respondToOffer = async (req, res) => {
       status: newStatus,
       respondedAt: new Date(),
     });
+    await postOfferEvent(offer, newStatus, userId);
 
     // Notify vendor
-    if (Notification && offer.vendor) {
+    if (offer.vendor) {
       const user = await User.findByPk(userId);
-      await Notification.create({
-        userId: offer.vendor.userId,
-        type: 'offer_response',
+      await dispatchNotification(offer.vendor.userId, 'offer_response', {
         title: `Offer ${newStatus}`,
         message: `${user?.name || 'A customer'} has ${newStatus} your custom offer`,
         data: {
           offerId: offer.id,
           status: newStatus,
         },
+        email: offerEmail('vendor'),
       });
     }
 
@@ -608,12 +613,12 @@ export const createBuyerOffer = async (req, res) => {
       initiatedBy: 'buyer',
     });
 
+    await postOfferEvent(offer, 'created', userId);
+
     // Notify the vendor
-    if (Notification && item.vendor) {
+    if (item.vendor) {
       const buyer = await User.findByPk(userId, { attributes: ['id', 'firstName', 'lastName'] });
-      await Notification.create({
-        userId: item.vendor.userId,
-        type: 'buyer_offer',
+      await dispatchNotification(item.vendor.userId, 'buyer_offer', {
         title: 'New Offer Received',
         message: `${buyer?.firstName || 'A buyer'} made an offer of $${offerPrice} on "${item.title}"`,
         data: {
@@ -623,6 +628,7 @@ export const createBuyerOffer = async (req, res) => {
           originalPrice,
           offerPrice,
         },
+        email: offerEmail('vendor'),
       });
     }
 
@@ -685,6 +691,7 @@ export const vendorRespondToOffer = async (req, res) => {
     // Check if expired
     if (offer.expiresAt && new Date() > new Date(offer.expiresAt)) {
       await offer.update({ status: 'expired' });
+      await postOfferEvent(offer, 'expired', userId);
       return res.status(400).json({
         success: false,
         message: 'This offer has expired',
@@ -696,29 +703,27 @@ export const vendorRespondToOffer = async (req, res) => {
       status: newStatus,
       respondedAt: new Date(),
     });
+    await postOfferEvent(offer, newStatus, userId);
 
     // Notify the buyer
-    if (Notification) {
-      let item;
-      if (offer.itemType === 'book') {
-        item = await Book.findByPk(offer.itemId);
-      } else {
-        item = await Product.findByPk(offer.itemId);
-      }
-
-      await Notification.create({
-        userId: offer.userId,
-        type: 'offer_response',
-        title: `Offer ${newStatus}`,
-        message: `${vendor.shopName || 'The vendor'} has ${newStatus} your offer of $${offer.offerPrice} on "${item?.title || 'an item'}"`,
-        data: {
-          offerId: offer.id,
-          status: newStatus,
-          offerPrice: offer.offerPrice,
-        },
-      });
+    let item;
+    if (offer.itemType === 'book') {
+      item = await Book.findByPk(offer.itemId);
+    } else {
+      item = await Product.findByPk(offer.itemId);
     }
 
+    await dispatchNotification(offer.userId, 'offer_response', {
+      title: `Offer ${newStatus}`,
+      message: `${vendor.shopName || 'The vendor'} has ${newStatus} your offer of $${offer.offerPrice} on "${item?.title || 'an item'}"`,
+      data: {
+        offerId: offer.id,
+        status: newStatus,
+        offerPrice: offer.offerPrice,
+      },
+      email: offerEmail('buyer'),
+    });
+
     return res.json({
       success: true,
       message: `Offer ${newStatus} successfully`,
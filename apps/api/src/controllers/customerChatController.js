@@ -1,17 +1,30 @@
 /**
  * Customer Chat Controller
- * Handles customer-side messaging with vendors
+ * Handles customer-side messaging with vendors, in general or about one of their items
  */
 
 import db from '../models/index.js';
+import {
+  createChatMessage,
+  findOtherReadCursor,
+  findParticipantConversation,
+  toMessagePayload,
+} from '../services/chatMessageService.js';
+import { toChatOffer, toChatItem } from '../services/customOfferRules.js';
+import { findOfferItem, findOrCreateConversation } from '../services/offerChatService.js';
+import { CHAT_NAMESPACE } from '../sockets/chatHandler.js';
+
+const { CustomOffer, Message, User, Vendor } = db;
 
-const { Conversation, Message, User, Vendor } = db;
-
-// Get or create conversation with vendor
+/**
+ * Get or create the conversation with a vendor, general or about one of their items
+ * POST /api/customer/chat/conversations
+ * Body: { vendorId, itemType?, itemId? }
+ */
 export const getOrCreateConversation = async (req, res) => {
   try {
     const userId = req.user?.userId || req.user?.id;
-    const { vendorId } = req.body;
+    const { vendorId, itemType, itemId } = req.body;
 
     if (!vendorId) {
       return res.status(400).json({
@@ -20,47 +33,54 @@ export const getOrCreateConversation = async (req, res) => {
       });
     }
 
-    // Check if conversation already exists
-    let conversation = await Conversation.findOne({
-      where: {
-        buyerId: userId,
-        vendorId: vendorId,
-      },
-      include: [
-        {
-          model: Vendor,
-          as: 'vendor',
-          attributes: ['id', 'businessName', 'shopUrl'],
-        },
-      ],
+    const vendor = await Vendor.findByPk(vendorId, {
+      attributes: ['id', 'userId', 'shopName', 'shopUrl', 'logoUrl'],
     });
-
-    // Create new conversation if it doesn't exist
-    if (!conversation) {
-      conversation = await Conversation.create({
-        buyerId: userId,
-        vendorId: vendorId,
+    if (!vendor) {
+      return res.status(404).json({
+        success: false,
+        message: 'Vendor not found',
       });
+    }
 
-      // Reload with vendor info
-      conversation = await Conversation.findByPk(conversation.id, {
-        include: [
-          {
-            model: Vendor,
-            as: 'vendor',
-            attributes: ['id', 'businessName', 'shopUrl'],
-          },
-        ],
+    if (String(vendor.userId) === String(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot start a conversation with your own shop',
       });
     }
 
+    let item = null;
+    if (itemId) {
+      item = await findOfferItem(itemType, itemId);
+      if (!item || String(item.vendorId) !== String(vendor.id)) {
+        return res.status(404).json({
+          success: false,
+          message: 'Item not found for this vendor',
+        });
+      }
+    }
+
+    const conversation = await findOrCreateConversation({
+      userId,
+      otherUserId: vendor.userId,
+      itemType: item ? itemType : null,
+      itemId: item ? item.id : null,
+    });
+
     return res.status(200).json({
       success: true,
       data: {
         conversation: {
           id: conversation.id,
-          vendorId: conversation.vendorId,
-          vendor: conversation.vendor,
+          vendorId: vendor.id,
+          vendor: {
+            id: vendor.id,
+            shopName: vendor.shopName,
+            shopUrl: vendor.shopUrl,
+            logoUrl: vendor.logoUrl,
+          },
+          item: item ? toChatItem(itemType, item) : null,
         },
       },
     });
@@ -83,13 +103,8 @@ export const getMessages = async (req, res) => {
     const userId = req.user?.userId || req.user?.id;
     const { conversationId } = req.params;
 
-    // Verify conversation belongs to customer
-    const conversation = await Conversation.findOne({
-      where: {
-        id: conversationId,
-        buyerId: userId,
-      },
-    });
+    // Verify the customer takes part in the conversation
+    const conversation = await findParticipantConversation(conversationId, userId);
 
     if (!conversation) {
       return res.status(404).json({
@@ -106,22 +121,33 @@ export const getMessages = async (req, res) => {
           as: 'sender',
           attributes: ['id', 'firstName', 'lastName'],
         },
+        { model: CustomOffer, as: 'offer' },
       ],
       order: [['createdAt', 'ASC']],
     });
 
     const formattedMessages = messages.map((msg) => ({
       id: msg.id,
-      message: msg.message,
+      message: msg.body,
+      attachments: msg.attachments || [],
+      kind: msg.kind,
+      offerEvent: msg.offerEvent,
+      offer: msg.offer ? toChatOffer(msg.offer) : null,
       isCustomer: msg.senderId === userId,
       sender: msg.sender,
       createdAt: msg.createdAt,
     }));
 
+    // How far the vendor has read, for "Seen" on the customer's messages
+    const readCursor = await findOtherReadCursor(conversation, userId);
+    const item = await findOfferItem(conversation.itemType, conversation.itemId);
+
     return res.status(200).json({
       success: true,
       data: {
         messages: formattedMessages,
+        otherReadAt: readCursor?.lastReadAt || null,
+        item: toChatItem(conversation.itemType, item),
       },
     });
   } catch (error) {
@@ -150,13 +176,8 @@ export const sendMessage = async (req, res) => {
       });
     }
 
-    // Verify conversation belongs to customer
-    const conversation = await Conversation.findOne({
-      where: {
-        id: conversationId,
-        buyerId: userId,
-      },
-    });
+    // Verify the customer takes part in the conversation
+    const conversation = await findParticipantConversation(conversationId, userId);
 
     if (!conversation) {
       return res.status(404).json({
@@ -165,30 +186,18 @@ export const sendMessage = async (req, res) => {
       });
     }
 
-    const newMessage = await Message.create({
-      conversationId,
+    const newMessage = await createChatMessage({
+      conversationId: conversation.id,
       senderId: userId,
-      message: message.trim(),
-    });
-
-    // Update conversation timestamp
-    await conversation.update({
-      updatedAt: new Date(),
-      lastMessageAt: new Date(),
+      body: message.trim(),
     });
 
     // Emit socket event for real-time update
     const io = req.app.get('io');
     if (io) {
-      io.of('/chat').to(`conversation:${conversationId}`).emit('message:new', {
-        id: newMessage.id,
-        conversationId,
-        senderId: userId,
-        content: message.trim(),
-        message: message.trim(),
-        createdAt: newMessage.createdAt,
-        isCustomer: true,
-      });
+      io.of(CHAT_NAMESPACE)
+        .to(`conversation:${conversationId}`)
+        .emit('message:new', { ...toMessagePayload(newMessage), isCustomer: true });
     }
 
     return res.status(201).json({
@@ -0,0 +1,73 @@
+/**
+ * Export Controller
+ * HTTP endpoints for catalog export (CSV, JSON, ONIX 3.0)
+ */
+
+import { exportOptions } from '../services/export/catalogFormats.js';
+import { EXPORT_CONTENT_TYPES, streamCatalogExport } from '../services/export/catalogExport.js';
+import db from '../models/index.js';
+
+/**
+ * Stream an export as a download
+ * Once the body has started an error can no longer become a JSON response, so the connection is
+ * dropped instead of leaving the client with a silently truncated file.
+ */
+const sendExport = async (res, options, scope) => {
+  const { type, extension } = EXPORT_CONTENT_TYPES[options.format];
+  const date = new Date().toISOString().split('T')[0];
+  res.setHeader('Content-Type', type);
+  res.setHeader('Content-Disposition', `attachment; filename="catalog-${date}.${extension}"`);
+
+  try {
+    await streamCatalogExport(res, options, db, scope);
+    res.end();
+  } catch (error) {
+    console.error('[Export] Catalog export error:', error);
+    if (!res.headersSent) {
+      return res.status(500).json({ success: false, message: error.message });
+    }
+    res.destroy(error);
+  }
+};
+
+/**
+ * Export the vendor's catalog
+ * GET /vendor/exports/books?format=csv|json|onix&status=&category=&from=&to=
+ */
+export const vendorExportCatalog = async (req, res) => {
+  let options;
+  try {
+    options = exportOptions(req.query);
+  } catch (error) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const vendor = await db.Vendor.findOne({ where: { userId } });
+    if (!vendor) {
+      return res.status(403).json({ success: false, message: 'Vendor profile not found' });
+    }
+
+    return await sendExport(res, options, { vendorId: vendor.id, senderName: vendor.shopName });
+  } catch (error) {
+    console.error('[Export] Vendor export error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Export the catalog (Admin), optionally for one vendor
+ * GET /admin/exports/books?format=csv|json|onix&vendorId=&status=&category=&from=&to=
+ */
+export const adminExportCatalog = async (req, res) => {
+  let options;
+  try {
+    options = exportOptions(req.query);
+  } catch (error) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  const vendorId = req.query.vendorId ? parseInt(req.query.vendorId) : null;
+  return sendExport(res, options, { vendorId });
+};
@@ -7,12 +7,61 @@ import {
   stageCSVImport,
   remapStagedImport,
   getStagedRows,
-  commitImport,
+  queueImport,
+  previewImport,
+  cancelImportBatch,
+  rollbackImportBatch,
   generateErrorCSV,
+  lookupStagedIsbns,
+  resolveStagedSuggestions,
   TARGET_FIELDS,
 } from '../services/import/importService.js';
-import { getStagedImport, getImportResult, stageImport } from '../services/import/stagingStore.js';
+import { getStagedImport, stageImport } from '../services/import/stagingStore.js';
+import { sanitizeTemplate, sanitizeTransforms } from '../services/import/mappingTemplates.js';
+import { batchProgress, batchReportCSV } from '../services/import/importProgress.js';
+import { queueImportBatch } from '../services/jobs/importJobs.js';
 import db from '../models/index.js';
+import { Op } from 'sequelize';
+
+/**
+ * Mapping templates an importer can use: shared templates plus the vendor's own
+ */
+const availableTemplates = async (vendorId) => {
+  const templates = await db.ImportMappingTemplate.findAll({
+    where: vendorId ? { [Op.or]: [{ vendorId: null }, { vendorId }] } : { vendorId: null },
+    order: [
+      ['usageCount', 'DESC'],
+      ['name', 'ASC'],
+    ],
+  });
+  return templates.map((template) => template.get({ plain: true }));
+};
+
+/**
+ * Count a committed import against the template it was mapped with
+ */
+const recordTemplateUse = (staging) => {
+  const templateId = staging?.template?.id;
+  if (!templateId) return;
+  db.ImportMappingTemplate.update(
+    { usageCount: db.sequelize.literal('usage_count + 1'), lastUsedAt: new Date() },
+    { where: { id: templateId } },
+  ).catch((err) => console.error('[Import] Failed to record template use:', err));
+};
+
+/**
+ * Staged import for a request; on the vendor routes only the vendor's own imports are found
+ * @returns {Promise<Object|null>}
+ */
+const findStagedImport = async (req, importId) => {
+  const vendorId = req.vendorId || req.vendor?.id;
+  const staging = await getStagedImport(importId);
+  if (!staging || (vendorId && staging.meta?.vendorId !== vendorId)) return null;
+  return staging;
+};
+
+const stagedImportNotFound = (res) =>
+  res.status(404).json({ success: false, message: 'Import session not found or expired' });
 
 /** Stage CSV Import (Vendor) */
 export const vendorStageImport = async (req, res) => {
@@ -28,12 +77,16 @@ export const vendorStageImport = async (req, res) => {
     }
 
     const csvContent = req.file ? req.file.buffer.toString('utf-8') : req.body.csvContent;
-    const result = await stageCSVImport(csvContent, {
-      fileName: req.file?.originalname || 'import.csv',
-      vendorId: vendor.id,
-      userId,
-      role: 'vendor',
-    });
+    const result = await stageCSVImport(
+      csvContent,
+      {
+        fileName: req.file?.originalname || 'import.csv',
+        vendorId: vendor.id,
+        userId,
+        role: 'vendor',
+      },
+      { templates: await availableTemplates(vendor.id), templateId: req.body.templateId },
+    );
 
     return res.json({ success: true, data: result });
   } catch (error) {
@@ -56,12 +109,16 @@ export const adminStageImport = async (req, res) => {
     const csvContent = req.file ? req.file.buffer.toString('utf-8') : req.body.csvContent;
     const vendorId = req.body.vendorId ? parseInt(req.body.vendorId) : null;
 
-    const result = await stageCSVImport(csvContent, {
-      fileName: req.file?.originalname || 'import.csv',
-      vendorId,
-      userId,
-      role: 'admin',
-    });
+    const result = await stageCSVImport(
+      csvContent,
+      {
+        fileName: req.file?.originalname || 'import.csv',
+        vendorId,
+        userId,
+        role: 'admin',
+      },
+      { templates: await availableTemplates(vendorId), templateId: req.body.templateId },
+    );
 
     return res.json({ success: true, data: result });
   } catch (error) {
@@ -76,21 +133,30 @@ export const adminStageImport = async (req, res) => {
 /** Re-map columns */
 export const remapImport = async (req, res) => {
   try {
-    const { importId, mappings } = req.body;
+    const { importId, mappings, templateId } = req.body;
     if (!importId || !mappings) {
       return res
         .status(400)
         .json({ success: false, message: 'importId and mappings are required' });
     }
 
-    const staging = await getStagedImport(importId);
-    if (!staging) {
-      return res
-        .status(404)
-        .json({ success: false, message: 'Import session not found or expired' });
+    let transforms;
+    if (req.body.transforms !== undefined) {
+      const sanitized = sanitizeTransforms(req.body.transforms, TARGET_FIELDS);
+      if (sanitized.error) {
+        return res.status(400).json({ success: false, message: sanitized.error });
+      }
+      transforms = sanitized.transforms;
     }
 
-    const result = await remapStagedImport(importId, mappings);
+    if (!(await findStagedImport(req, importId))) return stagedImportNotFound(res);
+
+    const result = await remapStagedImport(
+      importId,
+      mappings,
+      transforms,
+      templateId === undefined ? undefined : parseInt(templateId) || null,
+    );
     return res.json({ success: true, data: result });
   } catch (error) {
     console.error('[Import] Remap error:', error);
@@ -106,6 +172,7 @@ export const getRows = async (req, res) => {
     const limit = parseInt(req.query.limit) || 50;
     const filter = req.query.filter || 'all';
 
+    if (!(await findStagedImport(req, importId))) return stagedImportNotFound(res);
     const result = await getStagedRows(importId, page, limit, filter);
     return res.json({ success: true, data: result });
   } catch (error) {
@@ -113,12 +180,13 @@ export const getRows = async (req, res) => {
   }
 };
 
-/** Get import status */
+/** Get import status; on the vendor routes, only the vendor's own imports */
 export const getImportStatus = async (req, res) => {
   try {
     const { importId } = req.params;
+    const vendorId = req.vendorId || req.vendor?.id;
 
-    const staging = await getStagedImport(importId);
+    const staging = await findStagedImport(req, importId);
     if (staging) {
       return res.json({
         success: true,
@@ -131,9 +199,11 @@ export const getImportStatus = async (req, res) => {
       });
     }
 
-    const result = await getImportResult(importId);
-    if (result) {
-      return res.json({ success: true, data: result });
+    const batch = await db.ImportBatch.findOne({
+      where: { importId, ...(vendorId && { vendorId }) },
+    });
+    if (batch) {
+      return res.json({ success: true, data: batchProgress(batch) });
     }
 
     return res.status(404).json({ success: false, message: 'Import not found' });
@@ -142,11 +212,17 @@ export const getImportStatus = async (req, res) => {
   }
 };
 
-/** Commit staged import (Vendor) */
+/** Commit staged import (Vendor): queues it as a background import batch */
 export const vendorCommitImport = async (req, res) => {
   try {
     const userId = req.user?.userId || req.user?.id;
-    const { importId, mode = 'upsert', matchStrategy = 'sku', defaultStatus = 'draft' } = req.body;
+    const {
+      importId,
+      mode = 'upsert',
+      matchStrategy = 'sku',
+      defaultStatus = 'draft',
+      sparse = false,
+    } = req.body;
 
     if (!importId) {
       return res.status(400).json({ success: false, message: 'importId is required' });
@@ -167,20 +243,22 @@ export const vendorCommitImport = async (req, res) => {
       return res.status(403).json({ success: false, message: 'Not authorized for this import' });
     }
 
-    const result = await commitImport(
+    const batch = await queueImport(
       importId,
-      { mode, matchStrategy, defaultStatus, vendorId: vendor.id, userId },
+      { mode, matchStrategy, defaultStatus, sparse: !!sparse, vendorId: vendor.id, userId },
       db,
     );
+    await queueImportBatch(batch.id);
 
-    return res.json({ success: true, data: result });
+    recordTemplateUse(staging);
+    return res.status(202).json({ success: true, data: batchProgress(batch) });
   } catch (error) {
     console.error('[Import] Commit error:', error);
     return res.status(400).json({ success: false, message: error.message });
   }
 };
 
-/** Commit staged import (Admin) */
+/** Commit staged import (Admin): queues it as a background import batch */
 export const adminCommitImport = async (req, res) => {
   try {
     const userId = req.user?.id;
@@ -189,6 +267,7 @@ export const adminCommitImport = async (req, res) => {
       mode = 'upsert',
       matchStrategy = 'sku',
       defaultStatus = 'draft',
+      sparse = false,
       vendorId,
     } = req.body;
 
@@ -201,29 +280,328 @@ export const adminCommitImport = async (req, res) => {
         .json({ success: false, message: 'vendorId is required for admin imports' });
     }
 
-    const result = await commitImport(
+    const staging = await getStagedImport(importId);
+    const batch = await queueImport(
       importId,
-      { mode, matchStrategy, defaultStatus, vendorId: parseInt(vendorId), userId },
+      {
+        mode,
+        matchStrategy,
+        defaultStatus,
+        sparse: !!sparse,
+        vendorId: parseInt(vendorId),
+        userId,
+      },
       db,
     );
+    await queueImportBatch(batch.id);
 
-    return res.json({ success: true, data: result });
+    recordTemplateUse(staging);
+    return res.status(202).json({ success: true, data: batchProgress(batch) });
   } catch (error) {
     console.error('[Import] Admin commit error:', error);
     return res.status(400).json({ success: false, message: error.message });
   }
 };
 
-/** Download error CSV */
-export const downloadErrorCSV = async (req, res) => {
+// ─── Dry runs and rollback ───
+
+/** Preview what committing a staged import would change (Vendor) */
+export const vendorPreviewImport = async (req, res) => {
   try {
-    const { importId } = req.params;
+    const userId = req.user?.userId || req.user?.id;
+    const { importId, mode, matchStrategy, defaultStatus, sparse = false } = req.body;
+
+    if (!importId) {
+      return res.status(400).json({ success: false, message: 'importId is required' });
+    }
+
+    const vendor = await db.Vendor.findOne({ where: { userId } });
+    if (!vendor) {
+      return res.status(403).json({ success: false, message: 'Vendor profile not found' });
+    }
+
     const staging = await getStagedImport(importId);
     if (!staging) {
       return res
         .status(404)
         .json({ success: false, message: 'Import session not found or expired' });
     }
+    if (staging.meta.vendorId !== vendor.id) {
+      return res.status(403).json({ success: false, message: 'Not authorized for this import' });
+    }
+
+    const preview = await previewImport(
+      importId,
+      { mode, matchStrategy, defaultStatus, sparse: !!sparse, vendorId: vendor.id },
+      db,
+    );
+    return res.json({ success: true, data: preview });
+  } catch (error) {
+    console.error('[Import] Preview error:', error);
+    return res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/** Preview what committing a staged import would change (Admin) */
+export const adminPreviewImport = async (req, res) => {
+  try {
+    const { importId, mode, matchStrategy, defaultStatus, sparse = false, vendorId } = req.body;
+
+    if (!importId) {
+      return res.status(400).json({ success: false, message: 'importId is required' });
+    }
+    if (!vendorId) {
+      return res
+        .status(400)
+        .json({ success: false, message: 'vendorId is required for admin imports' });
+    }
+
+    const preview = await previewImport(
+      importId,
+      { mode, matchStrategy, defaultStatus, sparse: !!sparse, vendorId: parseInt(vendorId) },
+      db,
+    );
+    return res.json({ success: true, data: preview });
+  } catch (error) {
+    console.error('[Import] Admin preview error:', error);
+    return res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Import history, newest first, as progress snapshots
+ */
+const listBatches = async (req, res, where) => {
+  const page = Math.max(parseInt(req.query.page) || 1, 1);
+  const limit = Math.min(parseInt(req.query.limit) || 20, 100);
+  const { rows, count } = await db.ImportBatch.findAndCountAll({
+    where,
+    order: [['createdAt', 'DESC']],
+    limit,
+    offset: (page - 1) * limit,
+  });
+  return res.json({
+    success: true,
+    data: {
+      batches: rows.map(batchProgress),
+      pagination: { page, limit, total: count, totalPages: Math.ceil(count / limit) },
+    },
+  });
+};
+
+/**
+ * The requesting vendor's batch, or null after sending the error response
+ */
+const findVendorBatch = async (req, res) => {
+  const userId = req.user?.userId || req.user?.id;
+  const vendor = await db.Vendor.findOne({ where: { userId } });
+  if (!vendor) {
+    res.status(403).json({ success: false, message: 'Vendor profile not found' });
+    return null;
+  }
+
+  const batch = await db.ImportBatch.findOne({
+    where: { id: req.params.batchId, vendorId: vendor.id },
+  });
+  if (!batch) {
+    res.status(404).json({ success: false, message: 'Import not found' });
+    return null;
+  }
+  return batch;
+};
+
+/**
+ * Any vendor's batch (admin), or null after sending the error response
+ */
+const findAdminBatch = async (req, res) => {
+  const batch = await db.ImportBatch.findByPk(req.params.batchId);
+  if (!batch) {
+    res.status(404).json({ success: false, message: 'Import not found' });
+    return null;
+  }
+  return batch;
+};
+
+/**
+ * Progress of a batch, with the first failed rows once there are any
+ */
+const sendBatchProgress = async (res, batch) => {
+  const failures = batch.failedCount
+    ? await db.ImportBatchRow.findAll({
+        where: { batchId: batch.id, status: 'failed' },
+        order: [['rowIndex', 'ASC']],
+        limit: 100,
+      })
+    : [];
+  return res.json({
+    success: true,
+    data: {
+      ...batchProgress(batch),
+      failures: [
+        ...failures.map((row) => ({
+          rowIndex: row.rowIndex,
+          title: row.data?.title || null,
+          error: row.message,
+        })),
+        ...(batch.failures || []),
+      ],
+    },
+  });
+};
+
+/**
+ * Result report download: every row with what happened to it
+ */
+const sendBatchReport = async (res, batch) => {
+  const rows = await db.ImportBatchRow.findAll({
+    where: { batchId: batch.id },
+    order: [['rowIndex', 'ASC']],
+  });
+  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename="import-report-${batch.id}.csv"`);
+  return res.send(batchReportCSV(rows));
+};
+
+/** Import history (Vendor) */
+export const vendorGetBatches = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const vendor = await db.Vendor.findOne({ where: { userId } });
+    if (!vendor) {
+      return res.status(403).json({ success: false, message: 'Vendor profile not found' });
+    }
+
+    return await listBatches(req, res, { vendorId: vendor.id });
+  } catch (error) {
+    console.error('[Import] List batches error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** Import history (Admin): all vendors, or one with ?vendorId */
+export const adminGetBatches = async (req, res) => {
+  try {
+    const where = req.query.vendorId ? { vendorId: parseInt(req.query.vendorId) } : {};
+    return await listBatches(req, res, where);
+  } catch (error) {
+    console.error('[Import] Admin list batches error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** Import progress (Vendor) */
+export const vendorGetBatch = async (req, res) => {
+  try {
+    const batch = await findVendorBatch(req, res);
+    if (!batch) return;
+    return await sendBatchProgress(res, batch);
+  } catch (error) {
+    console.error('[Import] Batch progress error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** Import progress (Admin) */
+export const adminGetBatch = async (req, res) => {
+  try {
+    const batch = await findAdminBatch(req, res);
+    if (!batch) return;
+    return await sendBatchProgress(res, batch);
+  } catch (error) {
+    console.error('[Import] Admin batch progress error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** Download an import's result report (Vendor) */
+export const vendorDownloadBatchReport = async (req, res) => {
+  try {
+    const batch = await findVendorBatch(req, res);
+    if (!batch) return;
+    return await sendBatchReport(res, batch);
+  } catch (error) {
+    console.error('[Import] Batch report error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** Download an import's result report (Admin) */
+export const adminDownloadBatchReport = async (req, res) => {
+  try {
+    const batch = await findAdminBatch(req, res);
+    if (!batch) return;
+    return await sendBatchReport(res, batch);
+  } catch (error) {
+    console.error('[Import] Admin batch report error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** Cancel a queued or running import (Vendor) */
+export const vendorCancelBatch = async (req, res) => {
+  try {
+    const batch = await findVendorBatch(req, res);
+    if (!batch) return;
+    const status = await cancelImportBatch(batch, db);
+    return res.json({ success: true, data: { batchId: batch.id, status } });
+  } catch (error) {
+    console.error('[Import] Cancel error:', error);
+    return res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/** Cancel a queued or running import (Admin) */
+export const adminCancelBatch = async (req, res) => {
+  try {
+    const batch = await findAdminBatch(req, res);
+    if (!batch) return;
+    const status = await cancelImportBatch(batch, db);
+    return res.json({ success: true, data: { batchId: batch.id, status } });
+  } catch (error) {
+    console.error('[Import] Admin cancel error:', error);
+    return res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/** Roll back an import (Vendor) */
+export const vendorRollbackBatch = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const batch = await findVendorBatch(req, res);
+    if (!batch) return;
+
+    const result = await rollbackImportBatch(batch, { userId, force: !!req.body?.force }, db);
+    return res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('[Import] Rollback error:', error);
+    return res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/** Roll back an import (Admin) */
+export const adminRollbackBatch = async (req, res) => {
+  try {
+    const batch = await findAdminBatch(req, res);
+    if (!batch) return;
+
+    const result = await rollbackImportBatch(
+      batch,
+      { userId: req.user?.id, force: !!req.body?.force },
+      db,
+    );
+    return res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('[Import] Admin rollback error:', error);
+    return res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/** Download error CSV */
+export const downloadErrorCSV = async (req, res) => {
+  try {
+    const { importId } = req.params;
+    const staging = await findStagedImport(req, importId);
+    if (!staging) return stagedImportNotFound(res);
 
     const csv = generateErrorCSV(staging.normalizedRows);
 
@@ -246,10 +624,8 @@ export const updateStagedRow = async (req, res) => {
     const { importId, rowIndex } = req.params;
     const updates = req.body;
 
-    const staging = await getStagedImport(importId);
-    if (!staging) {
-      return res.status(404).json({ success: false, message: 'Import session not found' });
-    }
+    const staging = await findStagedImport(req, importId);
+    if (!staging) return stagedImportNotFound(res);
 
     const idx = staging.normalizedRows.findIndex((r) => r._rowIndex === parseInt(rowIndex));
     if (idx === -1) {
@@ -293,3 +669,189 @@ export const updateStagedRow = async (req, res) => {
     return res.status(500).json({ success: false, message: error.message });
   }
 };
+
+/** Look up the ISBNs of a staged import and attach suggestions for blank fields */
+export const lookupIsbns = async (req, res) => {
+  try {
+    if (!(await findStagedImport(req, req.params.importId))) return stagedImportNotFound(res);
+
+    const summary = await lookupStagedIsbns(req.params.importId);
+    return res.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('[Import] ISBN lookup error:', error);
+    return res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Accept or reject ISBN lookup suggestions
+ * Body: { rowIndex?, fields?, accept } — without rowIndex every row with suggestions is resolved
+ */
+export const resolveSuggestions = async (req, res) => {
+  try {
+    const { rowIndex, fields, accept = true } = req.body;
+    if (fields !== undefined && !Array.isArray(fields)) {
+      return res.status(400).json({ success: false, message: 'fields must be an array' });
+    }
+    if (!(await findStagedImport(req, req.params.importId))) return stagedImportNotFound(res);
+
+    const result = await resolveStagedSuggestions(req.params.importId, {
+      rowIndex,
+      fields,
+      accept: !!accept,
+    });
+    return res.json({ success: true, data: result });
+  } catch (error) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+// ─── Mapping templates ───
+
+/**
+ * Save a template from the request body
+ * @param {Object} attrs - Ownership attributes for new templates ({ vendorId, createdByUserId })
+ * @param {Object} existing - Template being updated, if any
+ */
+const saveTemplate = async (req, res, attrs, existing = null) => {
+  const cleaned = sanitizeTemplate(req.body, TARGET_FIELDS);
+  if (cleaned.error) {
+    return res.status(400).json({ success: false, message: cleaned.error });
+  }
+
+  const template = existing
+    ? await existing.update(cleaned)
+    : await db.ImportMappingTemplate.create({ ...cleaned, ...attrs });
+  return res.status(existing ? 200 : 201).json({ success: true, data: template });
+};
+
+/** List mapping templates (Vendor): shared templates plus the vendor's own */
+export const vendorGetTemplates = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const vendor = await db.Vendor.findOne({ where: { userId } });
+    if (!vendor) {
+      return res.status(403).json({ success: false, message: 'Vendor profile not found' });
+    }
+
+    return res.json({ success: true, data: await availableTemplates(vendor.id) });
+  } catch (error) {
+    console.error('[Import] List templates error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** List mapping templates (Admin): shared templates, plus a vendor's own with ?vendorId */
+export const adminGetTemplates = async (req, res) => {
+  try {
+    const vendorId = req.query.vendorId ? parseInt(req.query.vendorId) : null;
+    return res.json({ success: true, data: await availableTemplates(vendorId) });
+  } catch (error) {
+    console.error('[Import] Admin list templates error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** Create a mapping template (Vendor) */
+export const vendorCreateTemplate = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const vendor = await db.Vendor.findOne({ where: { userId } });
+    if (!vendor) {
+      return res.status(403).json({ success: false, message: 'Vendor profile not found' });
+    }
+
+    return await saveTemplate(req, res, { vendorId: vendor.id, createdByUserId: userId });
+  } catch (error) {
+    console.error('[Import] Create template error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** Create a shared mapping template (Admin) */
+export const adminCreateTemplate = async (req, res) => {
+  try {
+    return await saveTemplate(req, res, { vendorId: null, createdByUserId: req.user?.id });
+  } catch (error) {
+    console.error('[Import] Admin create template error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** Update a mapping template (Vendor, own templates only) */
+export const vendorUpdateTemplate = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const vendor = await db.Vendor.findOne({ where: { userId } });
+    if (!vendor) {
+      return res.status(403).json({ success: false, message: 'Vendor profile not found' });
+    }
+
+    const template = await db.ImportMappingTemplate.findOne({
+      where: { id: req.params.templateId, vendorId: vendor.id },
+    });
+    if (!template) {
+      return res.status(404).json({ success: false, message: 'Template not found' });
+    }
+
+    return await saveTemplate(req, res, {}, template);
+  } catch (error) {
+    console.error('[Import] Update template error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** Update a mapping template (Admin) */
+export const adminUpdateTemplate = async (req, res) => {
+  try {
+    const template = await db.ImportMappingTemplate.findByPk(req.params.templateId);
+    if (!template) {
+      return res.status(404).json({ success: false, message: 'Template not found' });
+    }
+
+    return await saveTemplate(req, res, {}, template);
+  } catch (error) {
+    console.error('[Import] Admin update template error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** Delete a mapping template (Vendor, own templates only) */
+export const vendorDeleteTemplate = async (req, res) => {
+  try {
+    const userId = req.user?.userId || req.user?.id;
+    const vendor = await db.Vendor.findOne({ where: { userId } });
+    if (!vendor) {
+      return res.status(403).json({ success: false, message: 'Vendor profile not found' });
+    }
+
+    const deleted = await db.ImportMappingTemplate.destroy({
+      where: { id: req.params.templateId, vendorId: vendor.id },
+    });
+    if (!deleted) {
+      return res.status(404).json({ success: false, message: 'Template not found' });
+    }
+
+    return res.json({ success: true, message: 'Template deleted' });
+  } catch (error) {
+    console.error('[Import] Delete template error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/** Delete a mapping template (Admin) */
+export const adminDeleteTemplate = async (req, res) => {
+  try {
+    const deleted = await db.ImportMappingTemplate.destroy({
+      where: { id: req.params.templateId },
+    });
+    if (!deleted) {
+      return res.status(404).json({ success: false, message: 'Template not found' });
+    }
+
+    return res.json({ success: true, message: 'Template deleted' });
+  } catch (error) {
+    console.error('[Import] Admin delete template error:', error);
+    return res.status(500).json({ success: false, message: error.message });
+  }
+};
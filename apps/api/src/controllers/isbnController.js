@@ -0,0 +1,27 @@
+/**
+ * ISBN Controller
+ * Bibliographic lookup for filling in book listings from an ISBN
+ */
+
+import { lookupIsbn } from '../services/isbn/isbnLookup.js';
+
+/**
+ * Look up an ISBN
+ * GET /vendor/isbn/:isbn, GET /admin/isbn/:isbn
+ * Responds with both ISBN forms and the metadata found (null when the provider has no record)
+ */
+export const lookupIsbnMetadata = async (req, res) => {
+  try {
+    const result = await lookupIsbn(req.params.isbn);
+    if (!result.valid) {
+      return res.status(400).json({ success: false, message: result.error });
+    }
+
+    return res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('[ISBN] Lookup error:', error);
+    return res
+      .status(502)
+      .json({ success: false, message: 'ISBN lookup is unavailable right now, try again later' });
+  }
+};
@@ -1,5 +1,5 @@
 import db from '../models/index.js';
-import { sendTemplatedEmail } from '../services/emailService.js';
+import { dispatchNotification } from '../services/notificationDispatch.js';
 import Stripe from 'stripe';
 
 const { MembershipPlan, MembershipSubscription, MembershipInvoice } = db;
@@ -125,14 +125,24 @@ export const subscribe = async (req, res) => {
 
     // Invoice will be created by webhook when payment succeeds
 
-    // Send welcome email
-    await sendTemplatedEmail('membership-new', email, {
-      firstName: firstName || 'Member',
-      planName: plan.name,
-      price: `$${plan.price}`,
-      interval: plan.interval,
-      nextBillingDate: new Date(stripeSubscription.current_period_end * 1000).toLocaleDateString(),
-      accountUrl: `${process.env.FRONTEND_URL}/account/membership`,
+    // Welcome the new member
+    await dispatchNotification(userId, 'MEMBERSHIP_UPDATE', {
+      title: 'Membership Started',
+      message: `Welcome to ${plan.name}! Your membership is active.`,
+      data: { entityType: 'membership', entityId: String(subscription.id) },
+      email: {
+        template: 'membership-new',
+        variables: {
+          firstName: firstName || 'Member',
+          planName: plan.name,
+          price: `$${plan.price}`,
+          interval: plan.interval,
+          nextBillingDate: new Date(
+            stripeSubscription.current_period_end * 1000,
+          ).toLocaleDateString(),
+          accountUrl: `${process.env.FRONTEND_URL}/account/membership`,
+        },
+      },
     });
 
     const subscriptionWithPlan = await MembershipSubscription.findByPk(subscription.id, {
@@ -150,7 +160,7 @@ export const subscribe = async (req, res) => {
  */
 export const cancelSubscription = async (req, res) => {
   try {
-    const { userId, email, firstName } = req.user;
+    const { userId, firstName } = req.user;
     const { immediate = false } = req.body;
 
     const subscription = await MembershipSubscription.findOne({
@@ -179,11 +189,23 @@ export const cancelSubscription = async (req, res) => {
       });
     }
 
-    // Send cancellation email
-    await sendTemplatedEmail('membership-cancelled', email, {
-      firstName: firstName || 'Member',
-      planName: subscription.plan.name,
-      cancelDate: immediate ? 'immediately' : subscription.currentPeriodEnd.toLocaleDateString(),
+    // Confirm the cancellation
+    await dispatchNotification(userId, 'MEMBERSHIP_UPDATE', {
+      title: 'Membership Cancelled',
+      message: immediate
+        ? `Your ${subscription.plan.name} membership has been cancelled.`
+        : `Your ${subscription.plan.name} membership will end on ${subscription.currentPeriodEnd.toLocaleDateString()}.`,
+      data: { entityType: 'membership', entityId: String(subscription.id) },
+      email: {
+        template: 'membership-cancelled',
+        variables: {
+          firstName: firstName || 'Member',
+          planName: subscription.plan.name,
+          cancelDate: immediate
+            ? 'immediately'
+            : subscription.currentPeriodEnd.toLocaleDateString(),
+        },
+      },
     });
 
     res.json({
@@ -203,7 +225,7 @@ export const cancelSubscription = async (req, res) => {
  */
 export const pauseSubscription = async (req, res) => {
   try {
-    const { userId, email, firstName } = req.user;
+    const { userId, firstName } = req.user;
 
     const subscription = await MembershipSubscription.findOne({
       where: { userId, status: 'active' },
@@ -224,10 +246,18 @@ export const pauseSubscription = async (req, res) => {
       pausedAt: new Date(),
     });
 
-    // Send pause email
-    await sendTemplatedEmail('membership-paused', email, {
-      firstName: firstName || 'Member',
-      planName: subscription.plan.name,
+    // Confirm the pause
+    await dispatchNotification(userId, 'MEMBERSHIP_UPDATE', {
+      title: 'Membership Paused',
+      message: `Your ${subscription.plan.name} membership has been paused.`,
+      data: { entityType: 'membership', entityId: String(subscription.id) },
+      email: {
+        template: 'membership-paused',
+        variables: {
+          firstName: firstName || 'Member',
+          planName: subscription.plan.name,
+        },
+      },
     });
 
     res.json({ success: true, message: 'Subscription paused', data: subscription });
@@ -241,7 +271,7 @@ export const pauseSubscription = async (req, res) => {
  */
 export const resumeSubscription = async (req, res) => {
   try {
-    const { userId, email, firstName } = req.user;
+    const { userId, firstName } = req.user;
 
     const subscription = await MembershipSubscription.findOne({
       where: { userId, status: 'paused' },
@@ -263,11 +293,19 @@ export const resumeSubscription = async (req, res) => {
       cancelAtPeriodEnd: false,
     });
 
-    // Send resume email
-    await sendTemplatedEmail('membership-resumed', email, {
-      firstName: firstName || 'Member',
-      planName: subscription.plan.name,
-      nextBillingDate: subscription.currentPeriodEnd.toLocaleDateString(),
+    // Confirm the resume
+    await dispatchNotification(userId, 'MEMBERSHIP_UPDATE', {
+      title: 'Membership Resumed',
+      message: `Your ${subscription.plan.name} membership has been resumed.`,
+      data: { entityType: 'membership', entityId: String(subscription.id) },
+      email: {
+        template: 'membership-resumed',
+        variables: {
+          firstName: firstName || 'Member',
+          planName: subscription.plan.name,
+          nextBillingDate: subscription.currentPeriodEnd.toLocaleDateString(),
+        },
+      },
     });
 
     res.json({ success: true, message: 'Subscription resumed', data: subscription });
@@ -308,7 +346,7 @@ export const rejoinSubscription = async (req, res) => {
  */
 export const changePlan = async (req, res) => {
   try {
-    const { userId, email, firstName } = req.user;
+    const { userId, firstName } = req.user;
     const { newPlanId } = req.body;
 
     if (!newPlanId) {
@@ -351,14 +389,22 @@ export const changePlan = async (req, res) => {
       planId: newPlanId,
     });
 
-    // Send upgrade/downgrade email
-    await sendTemplatedEmail(isUpgrade ? 'membership-upgraded' : 'membership-downgraded', email, {
-      firstName: firstName || 'Member',
-      oldPlanName: oldPlan.name,
-      newPlanName: newPlan.name,
-      newPrice: `$${newPlan.price}`,
-      interval: newPlan.interval,
-      nextBillingDate: subscription.currentPeriodEnd.toLocaleDateString(),
+    // Confirm the plan change
+    await dispatchNotification(userId, 'MEMBERSHIP_UPDATE', {
+      title: isUpgrade ? 'Membership Upgraded' : 'Membership Changed',
+      message: `Your membership is now ${newPlan.name}.`,
+      data: { entityType: 'membership', entityId: String(subscription.id) },
+      email: {
+        template: isUpgrade ? 'membership-upgraded' : 'membership-downgraded',
+        variables: {
+          firstName: firstName || 'Member',
+          oldPlanName: oldPlan.name,
+          newPlanName: newPlan.name,
+          newPrice: `$${newPlan.price}`,
+          interval: newPlan.interval,
+          nextBillingDate: subscription.currentPeriodEnd.toLocaleDateString(),
+        },
+      },
     });
 
     const updatedSubscription = await MembershipSubscription.findByPk(subscription.id, {
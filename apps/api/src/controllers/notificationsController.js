@@ -1,6 +1,7 @@
 /**
  * Notifications Controller
  * In-app notifications with pagination, read status, and bulk operations
+ * Rows with inApp false record email/SMS-only deliveries and stay out of the inbox.
  */
 
 import db from '../models/index.js';
@@ -20,7 +21,7 @@ export const getNotifications = async (req, res) => {
     const offset = (parseInt(page) - 1) * parseInt(limit);
 
     // Build where clause
-    const where = { userId };
+    const where = { userId, inApp: true };
     if (type) where.type = type;
     if (isRead !== null) where.isRead = isRead === 'true';
 
@@ -60,6 +61,7 @@ export const getUnreadCount = async (req, res) => {
     const count = await Notification.count({
       where: {
         userId,
+        inApp: true,
         isRead: false,
       },
     });
@@ -137,6 +139,7 @@ export const markAllAsRead = async (req, res) => {
       {
         where: {
           userId,
+          inApp: true,
           isRead: false,
         },
       },
@@ -1,9 +1,21 @@
 import db from '../models/index.js';
+import { Op } from 'sequelize';
 import { generateOrderNumber } from '../utils/helpers.js';
-import { sendTemplatedEmail, sendSms } from '../services/emailService.js';
-import { emitNotification } from '../sockets/index.js';
+import { dispatchNotification } from '../services/notificationDispatch.js';
 import inventoryService from '../services/inventoryService.js';
 import { validateCoupon, calculateDiscount, recordRedemption } from '../services/couponService.js';
+import { quoteShipping } from '../services/shippingService.js';
+import { destinationFromAddress, toShippingItem } from '../services/shippingRateEngine.js';
+import { quoteTax, toTaxItem, categoryInclude } from '../services/taxService.js';
+import { createOrderShipments } from '../services/orderShipmentService.js';
+import {
+  BASE_CURRENCY,
+  convertAmount,
+  normalizeCurrency,
+  resolveSettlementCurrency,
+  toMinorUnits,
+} from '../services/currencyConverter.js';
+import { loadRateTable } from '../services/currencyService.js';
 import Stripe from 'stripe';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
@@ -11,6 +23,8 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
 const {
   Order,
   OrderItem,
+  OrderShipment,
+  OrderRefund,
   Book,
   Product,
   Vendor,
@@ -39,6 +53,9 @@ export const createOrder = async (req, res) => {
 
     // Validate and reserve inventory for all items first
     const validatedItems = [];
+    const shippingItems = [];
+    const taxItems = [];
+    const listingCurrencies = [];
     let subtotal = 0;
 
     for (const item of items) {
@@ -46,7 +63,7 @@ export const createOrder = async (req, res) => {
 
       // Check if it's a book or product
       if (item.bookId) {
-        const book = await Book.findByPk(item.bookId, { transaction });
+        const book = await Book.findByPk(item.bookId, { include: categoryInclude(), transaction });
         if (!book) {
           await transaction.rollback();
           return res.status(400).json({
@@ -73,8 +90,14 @@ export const createOrder = async (req, res) => {
         itemData = inventoryResult.book;
         vendorId = book.vendorId;
         itemPrice = book.price;
+        listingCurrencies.push(normalizeCurrency(book.currency));
+        shippingItems.push(toShippingItem(book, 'book', item.quantity || 1));
+        taxItems.push(toTaxItem(book, 'book', item.quantity || 1));
       } else if (item.productId) {
-        const product = await Product.findByPk(item.productId, { transaction });
+        const product = await Product.findByPk(item.productId, {
+          include: categoryInclude(),
+          transaction,
+        });
         if (!product) {
           await transaction.rollback();
           return res.status(400).json({
@@ -101,6 +124,9 @@ export const createOrder = async (req, res) => {
         itemData = inventoryResult.product;
         vendorId = product.vendorId;
         itemPrice = product.salePrice || product.price;
+        listingCurrencies.push(normalizeCurrency(product.currency));
+        shippingItems.push(toShippingItem(product, 'product', item.quantity || 1));
+        taxItems.push(toTaxItem(product, 'product', item.quantity || 1));
       } else {
         await transaction.rollback();
         return res.status(400).json({
@@ -123,8 +149,47 @@ export const createOrder = async (req, res) => {
       });
     }
 
-    const tax = subtotal * 0.08; // Example tax rate
-    const shippingCost = 10.0; // Flat shipping
+    // Orders settle in the listing currency; mixed-currency carts settle in the base currency.
+    // Shipping rates and coupon amounts are kept in the base currency and converted.
+    const settlementCurrency = resolveSettlementCurrency(listingCurrencies);
+    const rates = await loadRateTable({ transaction });
+    const exchangeRate = rates[settlementCurrency];
+    const convert = (amount, from, to = settlementCurrency) =>
+      convertAmount(amount, from, to, rates);
+
+    try {
+      if (!exchangeRate) throw new Error(`No exchange rate for ${settlementCurrency}`);
+
+      subtotal = 0;
+      validatedItems.forEach((item, index) => {
+        item.price = convert(item.price, listingCurrencies[index]);
+        item.subtotal = item.price * item.quantity;
+        subtotal += item.subtotal;
+      });
+    } catch (conversionError) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        error: `Checkout is not available for this currency: ${conversionError.message}`,
+      });
+    }
+
+    // Shipping is always recomputed from vendor shipping profiles; client totals are display-only
+    const shippingQuote = await quoteShipping(
+      shippingItems,
+      destinationFromAddress(shippingAddress),
+      { transaction, currency: settlementCurrency, rates },
+    );
+    if (shippingQuote.errors.length > 0) {
+      await transaction.rollback();
+      const sellers = shippingQuote.errors.map((line) => line.vendorName || 'A seller').join(', ');
+      return res.status(400).json({
+        success: false,
+        error: `${sellers} does not ship to ${shippingAddress?.country || 'this destination'}`,
+        data: { shippingLines: shippingQuote.lines },
+      });
+    }
+    const shippingCost = shippingQuote.total;
 
     // --- Coupon Processing ---
     let couponId = null;
@@ -146,8 +211,18 @@ export const createOrder = async (req, res) => {
 
     if (effectiveCouponCode) {
       try {
-        appliedCoupon = await validateCoupon(effectiveCouponCode, userId, validatedItems, subtotal);
-        discountAmount = calculateDiscount(appliedCoupon, validatedItems, subtotal, shippingCost);
+        appliedCoupon = await validateCoupon(
+          effectiveCouponCode,
+          userId,
+          validatedItems,
+          convert(subtotal, settlementCurrency, BASE_CURRENCY),
+        );
+        discountAmount = calculateDiscount(
+          settlementCoupon(appliedCoupon, convert),
+          validatedItems,
+          subtotal,
+          shippingCost,
+        );
         couponId = appliedCoupon.id;
         couponCode = appliedCoupon.code;
       } catch (couponError) {
@@ -156,7 +231,17 @@ export const createOrder = async (req, res) => {
       }
     }
 
-    const totalAmount = subtotal + tax + shippingCost - discountAmount;
+    // Tax follows the coupon so item discounts reduce the taxable amount (free shipping does not)
+    const taxQuote = await quoteTax(taxItems, destinationFromAddress(shippingAddress), {
+      discount: appliedCoupon?.discountType === 'free_shipping' ? 0 : discountAmount,
+      transaction,
+      currency: settlementCurrency,
+      exchangeRates: rates,
+    });
+    const tax = taxQuote.totalTax;
+
+    // Tax-inclusive (EU VAT) prices already contain their tax, so only exclusive tax is added
+    const totalAmount = subtotal + taxQuote.exclusiveTax + shippingCost - discountAmount;
 
     // Look up / create Stripe Customer for this user
     const user = await User.findByPk(userId);
@@ -201,8 +286,8 @@ export const createOrder = async (req, res) => {
     let paymentIntent;
     try {
       paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(totalAmount * 100), // Stripe expects amount in cents
-        currency: 'usd',
+        amount: toMinorUnits(totalAmount, settlementCurrency), // Stripe expects minor units
+        currency: settlementCurrency.toLowerCase(),
         customer: stripeCustomerId,
         payment_method: paymentMethodId,
         confirm: true,
@@ -245,8 +330,12 @@ export const createOrder = async (req, res) => {
         stripePaymentIntentId: paymentIntent.id,
         subtotal,
         tax,
+        taxLines: taxQuote.lines,
         shippingCost,
+        shippingLines: shippingQuote.lines,
         totalAmount,
+        currency: settlementCurrency,
+        exchangeRate,
         couponId,
         couponCode,
         discountAmount,
@@ -256,9 +345,22 @@ export const createOrder = async (req, res) => {
       { transaction },
     );
 
-    // Create order items
-    for (const item of validatedItems) {
-      await OrderItem.create({ ...item, orderId: order.id }, { transaction });
+    // Split into one shipment per vendor, then create order items within their shipment
+    const shipments = await createOrderShipments(order, validatedItems, shippingQuote.lines, {
+      transaction,
+    });
+
+    for (const [index, item] of validatedItems.entries()) {
+      await OrderItem.create(
+        {
+          ...item,
+          orderId: order.id,
+          shipmentId: shipments.get(item.vendorId)?.id || null,
+          taxAmount: taxQuote.items[index].taxAmount,
+          taxLines: taxQuote.items[index].taxLines,
+        },
+        { transaction },
+      );
     }
 
     // Record coupon redemption if a coupon was applied
@@ -295,36 +397,13 @@ export const createOrder = async (req, res) => {
       }
     });
 
-    // Send order confirmation emails (async, don't block)
+    // Send order confirmation notifications (async, don't block)
     setImmediate(() => {
       sendOrderNotifications(order.id, userId, validatedItems).catch((err) => {
         console.error('Failed to send order emails:', err.message);
       });
     });
 
-    // Send SMS notification if user opted in (async)
-    setImmediate(async () => {
-      try {
-        const user = await User.findByPk(userId);
-        const metadata = user?.metadata || {};
-
-        if (metadata.smsOptIn && user?.phoneNumber) {
-          await sendSms(
-            user.phoneNumber,
-            `Ageless Literature: Order #${order.orderNumber} confirmed! Total: $${totalAmount.toFixed(2)}. Track your order at agelessliterature.com/account/orders`,
-            {
-              type: 'order_confirmation',
-              entityId: order.id,
-              correlationId: `order_${order.id}`,
-            },
-          );
-          console.log(`[Order] SMS confirmation sent to user ${userId}`);
-        }
-      } catch (smsError) {
-        console.error('Failed to send order SMS:', smsError.message);
-      }
-    });
-
     res.status(201).json({ success: true, data: order });
   } catch (error) {
     await transaction.rollback();
@@ -383,6 +462,31 @@ export const getOrderById = async (req, res) => {
             { model: Product, as: 'product' },
           ],
         },
+        {
+          model: OrderShipment,
+          as: 'shipments',
+          include: [{ model: Vendor, as: 'vendor', attributes: ['id', 'shopName'] }],
+        },
+        {
+          // Refunds issued on the order; vendor requests and earning clawbacks stay internal
+          model: OrderRefund,
+          as: 'refunds',
+          required: false,
+          where: { status: { [Op.in]: ['pending', 'processing', 'succeeded'] } },
+          attributes: {
+            exclude: [
+              'reversedEarnings',
+              'note',
+              'requestedByUserId',
+              'processedByUserId',
+              'failureReason',
+            ],
+          },
+        },
+      ],
+      order: [
+        [{ model: OrderShipment, as: 'shipments' }, 'id', 'ASC'],
+        [{ model: OrderRefund, as: 'refunds' }, 'createdAt', 'ASC'],
       ],
     });
 
@@ -441,6 +545,24 @@ export const updateOrderStatus = async (req, res) => {
   }
 };
 
+/**
+ * Coupon with its fixed amounts (base currency) converted into the settlement currency
+ */
+function settlementCoupon(coupon, convert) {
+  const plain = coupon.get ? coupon.get({ plain: true }) : coupon;
+
+  return {
+    ...plain,
+    discountValue:
+      plain.discountType === 'fixed_amount'
+        ? convert(plain.discountValue, BASE_CURRENCY)
+        : plain.discountValue,
+    maximumDiscountAmount: plain.maximumDiscountAmount
+      ? convert(plain.maximumDiscountAmount, BASE_CURRENCY)
+      : plain.maximumDiscountAmount,
+  };
+}
+
 /**
  * Process vendor commission for paid order
  * Creates VendorEarning records and updates vendor balances
@@ -456,8 +578,13 @@ async function processOrderCommission(order) {
       const vendor = await Vendor.findByPk(item.vendorId, { transaction });
       if (!vendor) continue;
 
-      // Calculate commission breakdown
-      const grossAmount = parseFloat(item.subtotal);
+      // Calculate commission breakdown (tax contained in tax-inclusive prices is not revenue)
+      const includedTax = (item.taxLines || [])
+        .filter((line) => line.inclusive)
+        .reduce((sum, line) => sum + parseFloat(line.amount), 0);
+      // Vendor balances are kept in the base currency
+      const grossAmount =
+        (parseFloat(item.subtotal) - includedTax) / (parseFloat(order.exchangeRate) || 1);
       const commissionRate = parseFloat(vendor.commissionRate) || 0.08;
       const platformCommission = grossAmount * commissionRate;
       const vendorEarnings = grossAmount - platformCommission;
@@ -470,6 +597,7 @@ async function processOrderCommission(order) {
         {
           vendorId: vendor.id,
           orderId: order.id,
+          orderItemId: item.id,
           amount: grossAmount, // Database column: amount (gross amount before commission)
           commissionRateBps: Math.round(commissionRate * 10000), // Convert to basis points
           platformFee: platformCommission, // Database column: platformFee
@@ -525,28 +653,24 @@ async function sendOrderNotifications(orderId, userId, _orderItems) {
 
     const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
 
-    // 1. Send buyer confirmation email
+    // 1. Notify the buyer
     const buyer = await User.findByPk(userId);
-    if (buyer?.email && buyer.emailNotifications !== false) {
+    if (buyer) {
       // Check if already sent using JSONB query
-      const existingBuyerNotification = Notification
-        ? await Notification.findOne({
-            where: {
-              type: 'ORDER_CONFIRMED_BUYER',
-              [sequelize.Op.and]: [
-                sequelize.where(
-                  sequelize.cast(sequelize.json('data.entityId'), 'text'),
-                  String(order.id),
-                ),
-              ],
-            },
-          })
-        : null;
+      const existingBuyerNotification = await Notification.findOne({
+        where: {
+          type: 'ORDER_CONFIRMED_BUYER',
+          [sequelize.Op.and]: [
+            sequelize.where(
+              sequelize.cast(sequelize.json('data.entityId'), 'text'),
+              String(order.id),
+            ),
+          ],
+        },
+      });
 
       if (existingBuyerNotification) {
-        console.log(
-          `Notification already sent: ORDER_CONFIRMED_BUYER ${order.id} ${existingBuyerNotification.data.recipientEmail}`,
-        );
+        console.log(`Notification already sent: ORDER_CONFIRMED_BUYER ${order.id}`);
       } else {
         const items = order.items.map((item) => ({
           title: item.book?.title || item.product?.title || 'Item',
@@ -561,47 +685,32 @@ async function sendOrderNotifications(orderId, userId, _orderItems) {
 
         const orderTotal = parseFloat(order.totalAmount || order.total).toFixed(2);
 
-        // Send email
-        await sendTemplatedEmail('order_confirmation_buyer', buyer.email, {
-          userName: buyer.name || buyer.firstName || 'Customer',
-          orderNumber: order.orderNumber,
-          orderTotal,
-          items,
-          shippingAddress: shippingAddressStr,
-          orderLink: `${frontendUrl}/account/orders/${order.id}`,
-        });
-
-        console.log(
-          `EMAIL: order_confirmation_buyer | recipient=${buyer.email} | orderId=${order.id}`,
-        );
-
-        // Persist notification after successful send
-        if (Notification) {
-          const notificationRecord = await Notification.create({
-            userId: buyer.id,
-            type: 'ORDER_CONFIRMED_BUYER',
-            data: {
-              entityType: 'order',
-              entityId: String(order.id),
-              templateName: 'order_confirmation_buyer',
-              recipientEmail: buyer.email,
-              sentAt: new Date().toISOString(),
-              metadata: {
-                orderNumber: order.orderNumber,
-                orderTotal,
-                itemCount: items.length,
-              },
+        await dispatchNotification(buyer, 'ORDER_CONFIRMED_BUYER', {
+          message: `Your order #${order.orderNumber} has been confirmed.`,
+          data: {
+            entityType: 'order',
+            entityId: String(order.id),
+            metadata: {
+              orderNumber: order.orderNumber,
+              orderTotal,
+              itemCount: items.length,
             },
-            isRead: false,
-          });
-
-          // Emit real-time notification via Socket.IO
-          try {
-            emitNotification(buyer.id, 'notification:new', notificationRecord.toJSON());
-          } catch (socketError) {
-            console.error('Failed to emit notification socket event:', socketError.message);
-          }
-        }
+          },
+          email: {
+            template: 'order_confirmation_buyer',
+            variables: {
+              userName: buyer.name || buyer.firstName || 'Customer',
+              orderNumber: order.orderNumber,
+              orderTotal,
+              items,
+              shippingAddress: shippingAddressStr,
+              orderLink: `${frontendUrl}/account/orders/${order.id}`,
+            },
+          },
+          sms: {
+            message: `Ageless Literature: Order #${order.orderNumber} confirmed! Total: $${orderTotal}. Track your order at agelessliterature.com/account/orders`,
+          },
+        });
       }
     }
 
@@ -621,32 +730,27 @@ async function sendOrderNotifications(orderId, userId, _orderItems) {
         include: [{ model: User, as: 'user' }],
       });
 
-      if (!vendor?.user?.email) continue;
-      if (vendor.user.emailNotifications === false) continue;
+      if (!vendor?.user) continue;
 
       // Check if already sent to this vendor for this order using JSONB query
-      const existingVendorNotification = Notification
-        ? await Notification.findOne({
-            where: {
-              type: 'ORDER_NEW_VENDOR',
-              [sequelize.Op.and]: [
-                sequelize.where(
-                  sequelize.cast(sequelize.json('data.entityId'), 'text'),
-                  String(order.id),
-                ),
-                sequelize.where(
-                  sequelize.cast(sequelize.json('data.metadata.vendorId'), 'text'),
-                  String(vendor.id),
-                ),
-              ],
-            },
-          })
-        : null;
+      const existingVendorNotification = await Notification.findOne({
+        where: {
+          type: 'ORDER_NEW_VENDOR',
+          [sequelize.Op.and]: [
+            sequelize.where(
+              sequelize.cast(sequelize.json('data.entityId'), 'text'),
+              String(order.id),
+            ),
+            sequelize.where(
+              sequelize.cast(sequelize.json('data.metadata.vendorId'), 'text'),
+              String(vendor.id),
+            ),
+          ],
+        },
+      });
 
       if (existingVendorNotification) {
-        console.log(
-          `Notification already sent: ORDER_NEW_VENDOR ${order.id} ${vendor.id} ${existingVendorNotification.data.recipientEmail}`,
-        );
+        console.log(`Notification already sent: ORDER_NEW_VENDOR ${order.id} ${vendor.id}`);
       } else {
         const items = vendorItems.map((item) => ({
           title: item.book?.title || item.product?.title || 'Item',
@@ -658,49 +762,31 @@ async function sendOrderNotifications(orderId, userId, _orderItems) {
           .reduce((sum, item) => sum + parseFloat(item.subtotal), 0)
           .toFixed(2);
 
-        // Send email
-        await sendTemplatedEmail('order_new_vendor', vendor.user.email, {
-          vendorName: vendor.shopName || vendor.user.name || 'Vendor',
-          orderNumber: order.orderNumber,
-          orderDate: order.createdAt.toLocaleDateString(),
-          items,
-          vendorTotal,
-          orderLink: `${frontendUrl}/vendor/orders/${order.id}`,
-        });
-
-        console.log(
-          `EMAIL: order_new_vendor | recipient=${vendor.user.email} | orderId=${order.id} | vendorId=${vendor.id}`,
-        );
-
-        // Persist notification after successful send
-        if (Notification) {
-          const notificationRecord = await Notification.create({
-            userId: vendor.user.id,
-            type: 'ORDER_NEW_VENDOR',
-            data: {
-              entityType: 'order',
-              entityId: String(order.id),
-              templateName: 'order_new_vendor',
-              recipientEmail: vendor.user.email,
-              sentAt: new Date().toISOString(),
-              metadata: {
-                orderNumber: order.orderNumber,
-                vendorId: String(vendor.id),
-                vendorName: vendor.shopName,
-                vendorTotal,
-                itemCount: items.length,
-              },
+        await dispatchNotification(vendor.user, 'ORDER_NEW_VENDOR', {
+          message: `New order #${order.orderNumber} received.`,
+          data: {
+            entityType: 'order',
+            entityId: String(order.id),
+            metadata: {
+              orderNumber: order.orderNumber,
+              vendorId: String(vendor.id),
+              vendorName: vendor.shopName,
+              vendorTotal,
+              itemCount: items.length,
             },
-            isRead: false,
-          });
-
-          // Emit real-time notification via Socket.IO
-          try {
-            emitNotification(vendor.user.id, 'notification:new', notificationRecord.toJSON());
-          } catch (socketError) {
-            console.error('Failed to emit notification socket event:', socketError.message);
-          }
-        }
+          },
+          email: {
+            template: 'order_new_vendor',
+            variables: {
+              vendorName: vendor.shopName || vendor.user.name || 'Vendor',
+              orderNumber: order.orderNumber,
+              orderDate: order.createdAt.toLocaleDateString(),
+              items,
+              vendorTotal,
+              orderLink: `${frontendUrl}/vendor/orders/${order.id}`,
+            },
+          },
+        });
       }
     }
   } catch (error) {
@@ -0,0 +1,108 @@
+/**
+ * Price History Controller
+ * Value charts for a book or product and for the work it is a copy of (Gold members and above)
+ */
+import db from '../models/index.js';
+import { buildValueChart, workKeyFor } from '../services/priceHistoryEngine.js';
+import { BASE_CURRENCY, convertAmount } from '../services/currencyConverter.js';
+import { loadRateTable } from '../services/currencyService.js';
+
+const { PriceHistory, Book, Product, MembershipSubscription, MembershipPlan } = db;
+
+// Plans that include value charts (matches valueCharts in the web membership access table)
+const VALUE_CHART_PLANS = ['gold', 'platinum'];
+
+const MAX_ENTRIES = 1000;
+
+/**
+ * Whether the user's membership includes value charts; admins always have access
+ */
+const hasValueChartAccess = async (user) => {
+  if (user.role === 'admin') return true;
+
+  const subscription = await MembershipSubscription.findOne({
+    where: { userId: user.userId, status: 'active' },
+    include: [{ model: MembershipPlan, as: 'plan', attributes: ['slug'] }],
+  });
+  return VALUE_CHART_PLANS.includes(subscription?.plan?.slug?.toLowerCase());
+};
+
+/**
+ * Convert entries to the base currency so copies listed in different currencies share an axis;
+ * entries without an exchange rate are left out
+ */
+const toBaseCurrency = (entries, rates) =>
+  entries.flatMap((entry) => {
+    try {
+      return [
+        {
+          eventType: entry.eventType,
+          amount: convertAmount(entry.amount, entry.currency, BASE_CURRENCY, rates),
+          recordedAt: entry.createdAt,
+        },
+      ];
+    } catch {
+      return [];
+    }
+  });
+
+/**
+ * GET /price-history/:itemType/:itemId
+ * Price history for a listing and its normalized work, in the base currency
+ */
+export const getValueChart = async (req, res) => {
+  try {
+    const { itemType, itemId } = req.params;
+
+    if (!['book', 'product'].includes(itemType)) {
+      return res.status(400).json({ success: false, error: 'Item type must be book or product' });
+    }
+
+    if (!(await hasValueChartAccess(req.user))) {
+      return res
+        .status(403)
+        .json({ success: false, error: 'Value charts are available to Gold members and above' });
+    }
+
+    const item = await (itemType === 'book' ? Book : Product).findByPk(itemId);
+    if (!item) {
+      return res.status(404).json({ success: false, error: 'Item not found' });
+    }
+
+    const workKey = workKeyFor(item);
+    const [itemEntries, workEntries, rates] = await Promise.all([
+      PriceHistory.findAll({
+        where: { itemType, itemId: item.id },
+        order: [['createdAt', 'ASC']],
+        limit: MAX_ENTRIES,
+      }),
+      workKey
+        ? PriceHistory.findAll({
+            where: { workKey },
+            order: [['createdAt', 'DESC']],
+            limit: MAX_ENTRIES,
+          })
+        : [],
+      loadRateTable(),
+    ]);
+
+    const listingCount = new Set(workEntries.map((entry) => `${entry.itemType}:${entry.itemId}`))
+      .size;
+
+    res.json({
+      success: true,
+      data: {
+        currency: BASE_CURRENCY,
+        item: buildValueChart(toBaseCurrency(itemEntries, rates)),
+        work: {
+          key: workKey,
+          listingCount,
+          ...buildValueChart(toBaseCurrency(workEntries, rates)),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get value chart error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
@@ -0,0 +1,130 @@
+/**
+ * Saved Searches Controller
+ * Lets collectors save a search query and filters and be alerted about new matching listings
+ */
+import db from '../models/index.js';
+import { normalizeSavedSearchFilters } from '../services/savedSearchMatcher.js';
+
+const { SavedSearch } = db;
+
+const MAX_SAVED_SEARCHES = 25;
+
+/**
+ * Default name for a saved search from its query and filters
+ */
+const describeSearch = (query, filters) => {
+  const parts = [query, filters.author, filters.category].filter(Boolean);
+  return (parts.join(' · ') || 'All new listings').slice(0, 120);
+};
+
+/**
+ * GET /saved-searches
+ * List the current user's saved searches
+ */
+export const getSavedSearches = async (req, res) => {
+  try {
+    const { userId } = req.user;
+    const savedSearches = await SavedSearch.findAll({
+      where: { userId },
+      order: [['createdAt', 'DESC']],
+    });
+
+    res.json({ success: true, data: savedSearches });
+  } catch (error) {
+    console.error('Get saved searches error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * POST /saved-searches
+ * Body: { name, query, filters, alertsEnabled }
+ */
+export const createSavedSearch = async (req, res) => {
+  try {
+    const { userId } = req.user;
+    const { name, alertsEnabled = true } = req.body;
+    const query = String(req.body.query || '')
+      .trim()
+      .slice(0, 255);
+    const filters = normalizeSavedSearchFilters(req.body.filters || {});
+
+    if (!query && Object.keys(filters).length === 0) {
+      return res
+        .status(400)
+        .json({ success: false, error: 'Enter a search term or choose a filter to save' });
+    }
+
+    const count = await SavedSearch.count({ where: { userId } });
+    if (count >= MAX_SAVED_SEARCHES) {
+      return res.status(400).json({
+        success: false,
+        error: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.`,
+      });
+    }
+
+    const savedSearch = await SavedSearch.create({
+      userId,
+      name:
+        String(name || '')
+          .trim()
+          .slice(0, 120) || describeSearch(query, filters),
+      query,
+      filters,
+      alertsEnabled: !!alertsEnabled,
+    });
+
+    res.status(201).json({ success: true, data: savedSearch });
+  } catch (error) {
+    console.error('Create saved search error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * PUT /saved-searches/:id
+ * Body: { name, query, filters, alertsEnabled } (all optional)
+ */
+export const updateSavedSearch = async (req, res) => {
+  try {
+    const { userId } = req.user;
+    const savedSearch = await SavedSearch.findOne({ where: { id: req.params.id, userId } });
+
+    if (!savedSearch) {
+      return res.status(404).json({ success: false, error: 'Saved search not found' });
+    }
+
+    const { name, query, filters, alertsEnabled } = req.body;
+    const updates = {};
+    if (name !== undefined) updates.name = String(name).trim().slice(0, 120) || savedSearch.name;
+    if (query !== undefined) updates.query = String(query).trim().slice(0, 255);
+    if (filters !== undefined) updates.filters = normalizeSavedSearchFilters(filters);
+    if (alertsEnabled !== undefined) updates.alertsEnabled = !!alertsEnabled;
+
+    await savedSearch.update(updates);
+
+    res.json({ success: true, data: savedSearch });
+  } catch (error) {
+    console.error('Update saved search error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
+
+/**
+ * DELETE /saved-searches/:id
+ */
+export const deleteSavedSearch = async (req, res) => {
+  try {
+    const { userId } = req.user;
+    const deleted = await SavedSearch.destroy({ where: { id: req.params.id, userId } });
+
+    if (!deleted) {
+      return res.status(404).json({ success: false, error: 'Saved search not found' });
+    }
+
+    res.json({ success: true, message: 'Saved search deleted' });
+  } catch (error) {
+    console.error('Delete saved search error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+};
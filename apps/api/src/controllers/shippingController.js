@@ -0,0 +1,46 @@
+/**
+ * Shipping Controller (Customer-facing)
+ * Quotes destination-based shipping for checkout; order creation recomputes authoritatively.
+ * Amounts are in the order's settlement currency.
+ */
+import { loadShippingItems, quoteShipping } from '../services/shippingService.js';
+import { resolveSettlementCurrency } from '../services/currencyConverter.js';
+import { loadRateTable } from '../services/currencyService.js';
+
+/**
+ * POST /shipping/quote
+ * Body: { items: [{ bookId | productId, quantity }], destination: { country, state, postalCode } }
+ */
+export const quote = async (req, res) => {
+  try {
+    const { items, destination } = req.body;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ success: false, error: 'Items are required' });
+    }
+
+    if (!destination?.country) {
+      return res.status(400).json({ success: false, error: 'Destination country is required' });
+    }
+
+    const shippingItems = await loadShippingItems(items);
+    const currency = resolveSettlementCurrency(shippingItems.map((item) => item.currency));
+    const { lines, total, errors } = await quoteShipping(shippingItems, destination, {
+      currency,
+      rates: await loadRateTable(),
+    });
+
+    res.json({
+      success: true,
+      data: {
+        lines,
+        total,
+        currency,
+        canShip: errors.length === 0,
+      },
+    });
+  } catch (error) {
+    console.error('Shipping quote error:', error);
+    res.status(500).json({ success: false, error: 'Failed to calculate shipping' });
+  }
+};
@@ -0,0 +1,42 @@
+/**
+ * Tax Controller (Customer-facing)
+ * Quotes jurisdiction tax for checkout; order creation recomputes authoritatively
+ */
+import { loadTaxItems, quoteTax } from '../services/taxService.js';
+import { resolveSettlementCurrency } from '../services/currencyConverter.js';
+import { loadRateTable } from '../services/currencyService.js';
+
+/**
+ * POST /tax/quote
+ * Body: { items: [{ bookId | productId, quantity }], destination: { country, state, postalCode }, discount }
+ * The discount and returned amounts are in the order's settlement currency
+ */
+export const quote = async (req, res) => {
+  try {
+    const { items, destination, discount = 0 } = req.body;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ success: false, error: 'Items are required' });
+    }
+
+    if (!destination?.country) {
+      return res.status(400).json({ success: false, error: 'Destination country is required' });
+    }
+
+    const taxItems = await loadTaxItems(items);
+    const currency = resolveSettlementCurrency(taxItems.map((item) => item.currency));
+    const { lines, totalTax, exclusiveTax, inclusiveTax } = await quoteTax(taxItems, destination, {
+      discount: parseFloat(discount) || 0,
+      currency,
+      exchangeRates: await loadRateTable(),
+    });
+
+    res.json({
+      success: true,
+      data: { lines, totalTax, exclusiveTax, inclusiveTax, currency },
+    });
+  } catch (error) {
+    console.error('Tax quote error:', error);
+    res.status(500).json({ success: false, error: 'Failed to calculate tax' });
+  }
+};
@@ -7,6 +7,15 @@ import db from '../models/index.js';
 import { validatePasswordComplexity } from '../utils/passwordValidation.js';
 import crypto from 'crypto';
 import { sendVerificationSms, SMS_TEMPLATES } from '../services/emailService.js';
+import {
+  DIGEST_MODES,
+  NOTIFICATION_CHANNELS,
+  isSmsEligible,
+  normalizePreferences,
+  preferenceAudiences,
+  preferenceMatrix,
+} from '../services/notificationCatalogue.js';
+import { normalizeQuietHours, resolveTimeZone } from '../services/notificationDigestRules.js';
 
 const { User, Vendor, MembershipSubscription, Order, AuctionBid, AuctionWin } = db;
 
@@ -703,6 +712,104 @@ export const getSmsPreferences = async (req, res) => {
   }
 };
 
+const toPreferenceCenter = (user) => ({
+  channels: NOTIFICATION_CHANNELS,
+  emailNotifications: user.emailNotifications,
+  smsEligible: isSmsEligible(user),
+  digestModes: DIGEST_MODES,
+  notificationDigest: user.notificationDigest,
+  quietHours: user.quietHours,
+  timezone: user.timezone,
+  categories: preferenceMatrix(user, preferenceAudiences(user)),
+});
+
+/**
+ * Get the notification preference center: each notification type the user can receive, by
+ * category, with its channels and whether each is on
+ * GET /api/users/notification-preferences
+ */
+export const getNotificationPreferences = async (req, res) => {
+  try {
+    const { userId } = req.user;
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    res.json({ success: true, data: toPreferenceCenter(user) });
+  } catch (error) {
+    console.error('Error getting notification preferences:', error);
+    res.status(500).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Save channel choices and email frequency per notification type, the default email frequency,
+ * quiet hours and the time zone they are read in
+ * PUT /api/users/notification-preferences
+ * Body: { preferences: { [type]: { inApp, email, sms, push, digest } }, emailNotifications,
+ *   notificationDigest, quietHours: { start, end } | null, timezone }
+ */
+export const updateNotificationPreferences = async (req, res) => {
+  try {
+    const { userId } = req.user;
+    const { preferences, emailNotifications, notificationDigest, quietHours, timezone } = req.body;
+
+    if (preferences !== undefined && (typeof preferences !== 'object' || preferences === null)) {
+      return res.status(400).json({ success: false, message: 'preferences must be an object' });
+    }
+    if (
+      notificationDigest !== undefined &&
+      notificationDigest !== null &&
+      !DIGEST_MODES.includes(notificationDigest)
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: `notificationDigest must be one of: ${DIGEST_MODES.join(', ')}`,
+      });
+    }
+    const cleanQuietHours = normalizeQuietHours(quietHours);
+    if (quietHours !== undefined && cleanQuietHours === undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'quietHours needs a different start and end time, as HH:MM',
+      });
+    }
+    if (timezone !== undefined && resolveTimeZone(timezone) !== timezone) {
+      return res.status(400).json({ success: false, message: 'Unknown time zone' });
+    }
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    if (preferences) {
+      user.notificationPreferences = normalizePreferences(
+        preferences,
+        user.notificationPreferences,
+      );
+    }
+    if (typeof emailNotifications === 'boolean') {
+      user.emailNotifications = emailNotifications;
+    }
+    if (notificationDigest !== undefined) user.notificationDigest = notificationDigest;
+    if (quietHours !== undefined) user.quietHours = cleanQuietHours;
+    if (timezone !== undefined) user.timezone = timezone;
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Notification preferences updated',
+      data: toPreferenceCenter(user),
+    });
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({ success: false, message: error.message });
+  }
+};
+
 /**
  * ==============================================================================
  * Twilio Inbound Webhook (STOP/HELP Compliance)
@@ -5,8 +5,18 @@
 
 import db from '../models/index.js';
 import { Op } from 'sequelize';
+import {
+  countUnreadMessages,
+  findOtherReadCursor,
+  markConversationRead,
+  toMessagePayload,
+} from '../services/chatMessageService.js';
+import { messagePreview } from '../services/chatMessageRules.js';
+import { toChatItem, toChatOffer } from '../services/customOfferRules.js';
+import { chatItemFor, findOfferItem, loadChatItems } from '../services/offerChatService.js';
+import { CHAT_NAMESPACE } from '../sockets/chatHandler.js';
 
-const { Conversation, Message, User, Vendor } = db;
+const { Conversation, CustomOffer, Message, User, Vendor } = db;
 
 /**
  * Get vendor conversations
@@ -45,21 +55,30 @@ export const getConversations = async (req, res) => {
           as: 'messages',
           limit: 1,
           order: [['createdAt', 'DESC']],
-          attributes: ['body', 'createdAt'],
+          attributes: ['body', 'attachments', 'createdAt'],
         },
       ],
       order: [['updatedAt', 'DESC']],
     });
 
+    const [unreadCounts, items] = await Promise.all([
+      countUnreadMessages(
+        conversations.map((conv) => conv.id),
+        userId,
+      ),
+      loadChatItems(conversations),
+    ]);
+
     const formattedConversations = conversations.map((conv) => {
       // Determine which user is the "other" party (not the vendor)
       const otherUser = conv.userId1 === userId ? conv.user2 : conv.user1;
       return {
         id: conv.id,
         customer: otherUser,
-        lastMessage: conv.messages?.[0]?.body || 'No messages yet',
+        item: chatItemFor(items, conv),
+        lastMessage: messagePreview(conv.messages?.[0]) || 'No messages yet',
         lastMessageAt: conv.messages?.[0]?.createdAt || conv.createdAt,
-        unreadCount: 0,
+        unreadCount: unreadCounts[conv.id] || 0,
       };
     });
 
@@ -119,6 +138,7 @@ export const getMessages = async (req, res) => {
           as: 'sender',
           attributes: ['id', 'firstName', 'lastName', 'email'],
         },
+        { model: CustomOffer, as: 'offer' },
       ],
       order: [['createdAt', 'ASC']],
     });
@@ -126,15 +146,25 @@ export const getMessages = async (req, res) => {
     const formattedMessages = messages.map((msg) => ({
       id: msg.id,
       message: msg.body,
+      attachments: msg.attachments || [],
+      kind: msg.kind,
+      offerEvent: msg.offerEvent,
+      offer: msg.offer ? toChatOffer(msg.offer) : null,
       isVendor: msg.senderId === userId,
       sender: msg.sender,
       createdAt: msg.createdAt,
     }));
 
+    // How far the customer has read, for "Seen" on the vendor's messages
+    const readCursor = await findOtherReadCursor(conversation, userId);
+    const item = await findOfferItem(conversation.itemType, conversation.itemId);
+
     return res.status(200).json({
       success: true,
       data: {
         messages: formattedMessages,
+        otherReadAt: readCursor?.lastReadAt || null,
+        item: toChatItem(conversation.itemType, item),
       },
     });
   } catch (error) {
@@ -198,15 +228,9 @@ export const sendMessage = async (req, res) => {
     // Emit socket event for real-time update
     const io = req.app.get('io');
     if (io) {
-      io.of('/chat').to(`conversation:${conversationId}`).emit('message:new', {
-        id: newMessage.id,
-        conversationId,
-        senderId: userId,
-        content: message.trim(),
-        message: message.trim(),
-        createdAt: newMessage.createdAt,
-        isVendor: true,
-      });
+      io.of(CHAT_NAMESPACE)
+        .to(`conversation:${conversationId}`)
+        .emit('message:new', { ...toMessagePayload(newMessage), isVendor: true });
     }
 
     return res.status(201).json({
@@ -242,6 +266,26 @@ export const markAsRead = async (req, res) => {
       });
     }
 
+    const conversation = await Conversation.findOne({
+      where: {
+        id: conversationId,
+        [Op.or]: [{ userId1: userId }, { userId2: userId }],
+      },
+    });
+
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conversation not found',
+      });
+    }
+
+    const receipt = await markConversationRead(conversation.id, userId);
+    const io = req.app.get('io');
+    if (io && receipt) {
+      io.of(CHAT_NAMESPACE).to(`conversation:${conversationId}`).emit('conversation:read', receipt);
+    }
+
     return res.status(200).json({
       success: true,
       message: 'Conversation marked as read',
@@ -6,6 +6,7 @@
 
 import db from '../models/index.js';
 import { Op } from 'sequelize';
+import { normalizeCurrency } from '../services/currencyConverter.js';
 
 const { Product, Vendor, Category } = db;
 
@@ -152,6 +153,7 @@ export const createCollectible = async (req, res) => {
       description,
       price,
       salePrice,
+      currency,
       quantity,
       condition,
       conditionNotes,
@@ -166,6 +168,7 @@ export const createCollectible = async (req, res) => {
       artist,
       dimensions,
       weight,
+      shippingOverride,
       materials,
       isSigned = false,
       isAuthenticated = false,
@@ -199,6 +202,7 @@ export const createCollectible = async (req, res) => {
       description,
       price,
       salePrice: salePrice || null,
+      currency: normalizeCurrency(currency),
       quantity: quantity || 1,
       condition: condition || null,
       conditionNotes: conditionNotes || null,
@@ -213,6 +217,8 @@ export const createCollectible = async (req, res) => {
       artist: artist || null,
       dimensions: dimensions || null,
       weight,
+      shippingOverride:
+        shippingOverride === '' || shippingOverride === undefined ? null : shippingOverride,
       materials: materials || null,
       isSigned,
       isAuthenticated,
@@ -288,6 +294,7 @@ export const updateCollectible = async (req, res) => {
       'price',
       'compareAtPrice',
       'cost',
+      'currency',
       'quantity',
       'category',
       'tags',
@@ -298,6 +305,7 @@ export const updateCollectible = async (req, res) => {
       'weight',
       'weightUnit',
       'requiresShipping',
+      'shippingOverride',
       'taxable',
       'trackQuantity',
       'lowStockThreshold',
@@ -313,6 +321,7 @@ export const updateCollectible = async (req, res) => {
       'cost',
       'quantity',
       'weight',
+      'shippingOverride',
       'lowStockThreshold',
     ];
     const sanitizeNumeric = (val) => {
@@ -329,6 +338,8 @@ export const updateCollectible = async (req, res) => {
       if (req.body[field] !== undefined) {
         if (numericFields.includes(field)) {
           updates[field] = sanitizeNumeric(req.body[field]);
+        } else if (field === 'currency') {
+          updates[field] = normalizeCurrency(req.body[field]);
         } else if (arrayFields.includes(field)) {
           // Ensure ARRAY/JSONB array fields always receive proper arrays
           updates[field] = Array.isArray(req.body[field]) ? req.body[field] : [];
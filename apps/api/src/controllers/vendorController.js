@@ -5,7 +5,7 @@
 
 import db from '../models/index.js';
 import { Op } from 'sequelize';
-import { sendTemplatedEmail } from '../services/emailService.js';
+import { dispatchNotification } from '../services/notificationDispatch.js';
 
 const { Vendor, User, Book, Product, Order, OrderItem, VendorEarning, sequelize } = db;
 
@@ -94,15 +94,23 @@ export const applyAsVendor = async (req, res) => {
       commissionRate: 0.08, // 8% platform commission
     });
 
-    // Get user info for email
+    // Get user to notify
     const user = await User.findByPk(userId);
 
-    // Send confirmation email
-    await sendTemplatedEmail('vendor-application-submitted', user.email, {
-      firstName: user.firstName,
-      lastName: user.lastName,
-      shopName,
-      applicationDate: new Date().toLocaleDateString(),
+    // Confirm the application
+    await dispatchNotification(user, 'VENDOR_ACCOUNT_STATUS', {
+      title: 'Application Received',
+      message: `We received your application for ${shopName}. We will review it shortly.`,
+      data: { entityType: 'vendor', entityId: String(vendor.id) },
+      email: {
+        template: 'vendor-application-submitted',
+        variables: {
+          firstName: user.firstName,
+          lastName: user.lastName,
+          shopName,
+          applicationDate: new Date().toLocaleDateString(),
+        },
+      },
     });
 
     return res.status(201).json({
@@ -297,6 +305,9 @@ export const updateVendorProfile = async (req, res) => {
       'taxId',
       'preferredPayoutMethod',
       'sampleFiles',
+      'softCloseWindowMinutes',
+      'softCloseExtensionMinutes',
+      'softCloseMaxExtensionMinutes',
     ];
 
     const updates = {};
@@ -306,6 +317,13 @@ export const updateVendorProfile = async (req, res) => {
       }
     });
 
+    // Blank soft-close defaults fall back to the platform defaults
+    ['softCloseWindowMinutes', 'softCloseExtensionMinutes', 'softCloseMaxExtensionMinutes'].forEach(
+      (field) => {
+        if (updates[field] === '') updates[field] = null;
+      },
+    );
+
     // If shopName updated, sync to storeName (legacy)
     if (updates.shopName) updates.storeName = updates.shopName;
     if (updates.businessDescription) updates.bio = updates.businessDescription;
@@ -5,8 +5,15 @@
 
 import db from '../models/index.js';
 import { Op } from 'sequelize';
+import { canTransition } from '../services/orderFulfillment.js';
+import {
+  ensureVendorShipment,
+  itemVendorId,
+  updateShipment,
+} from '../services/orderShipmentService.js';
+import { requestVendorRefund, vendorRefundHistory } from '../services/orderRefundService.js';
 
-const { Order, OrderItem, Book, User, Vendor } = db;
+const { Order, OrderItem, OrderShipment, OrderRefund, Book, Product, User, Vendor, sequelize } = db;
 
 /**
  * Get all orders containing vendor's products
@@ -28,7 +35,10 @@ export const getVendorOrders = async (req, res) => {
     // Build where clause for orders
     const orderWhere = {};
 
-    if (status) orderWhere.status = status;
+    // Status filters on this vendor's shipment; orders without shipments use the order status
+    if (status) {
+      orderWhere[Op.or] = [{ '$shipments.status$': status }, { '$shipments.id$': null, status }];
+    }
     if (search) orderWhere.orderNumber = { [Op.iLike]: `%${search}%` };
     if (startDate || endDate) {
       orderWhere.createdAt = {};
@@ -36,24 +46,34 @@ export const getVendorOrders = async (req, res) => {
       if (endDate) orderWhere.createdAt[Op.lte] = new Date(endDate);
     }
 
-    // Get orders containing vendor's products
+    // Get orders containing vendor's items
     const { count, rows: orders } = await Order.findAndCountAll({
       where: orderWhere,
       include: [
         {
           model: OrderItem,
           as: 'items',
+          where: { vendorId: vendor.id },
           required: true,
           include: [
             {
               model: Book,
               as: 'book',
-              where: { vendorId: vendor.id },
-              required: true,
-              attributes: ['id', 'title', 'author', 'price'],
+              attributes: ['id', 'title', 'author', 'price', 'vendorId'],
+            },
+            {
+              model: Product,
+              as: 'product',
+              attributes: ['id', 'title', 'price', 'vendorId'],
             },
           ],
         },
+        {
+          model: OrderShipment,
+          as: 'shipments',
+          where: { vendorId: vendor.id },
+          required: false,
+        },
         {
           model: User,
           as: 'user',
@@ -69,7 +89,8 @@ export const getVendorOrders = async (req, res) => {
 
     // Calculate vendor-specific totals for each order
     const enrichedOrders = orders.map((order) => {
-      const vendorItems = order.items.filter((item) => item.book?.vendorId === vendor.id);
+      const { shipments, ...orderData } = order.toJSON();
+      const vendorItems = order.items.filter((item) => itemVendorId(item) === vendor.id);
       const vendorTotal = vendorItems.reduce(
         (sum, item) => sum + parseFloat(item.price) * item.quantity,
         0,
@@ -77,7 +98,8 @@ export const getVendorOrders = async (req, res) => {
       const vendorEarnings = vendorTotal * 0.92; // 92% to vendor, 8% commission
 
       return {
-        ...order.toJSON(),
+        ...orderData,
+        vendorShipment: shipments?.[0] || null,
         vendorItems,
         vendorItemsCount: vendorItems.length,
         vendorTotal,
@@ -139,14 +161,24 @@ export const getVendorOrderDetail = async (req, res) => {
                 },
               ],
             },
+            { model: Product, as: 'product' },
           ],
         },
+        {
+          model: OrderShipment,
+          as: 'shipments',
+        },
         {
           model: User,
           as: 'user',
           attributes: ['id', 'firstName', 'lastName', 'email'],
         },
+        {
+          model: OrderRefund,
+          as: 'refunds',
+        },
       ],
+      order: [[{ model: OrderRefund, as: 'refunds' }, 'createdAt', 'ASC']],
     });
 
     if (!order) {
@@ -156,24 +188,26 @@ export const getVendorOrderDetail = async (req, res) => {
       });
     }
 
-    // Verify vendor has items in this order
-    const hasVendorItems = order.items.some((item) => item.book?.vendorId === vendor.id);
+    // Filter to show only vendor's items
+    const vendorItems = order.items.filter((item) => itemVendorId(item) === vendor.id);
 
-    if (!hasVendorItems) {
+    if (vendorItems.length === 0) {
       return res.status(403).json({
         success: false,
         message: 'Access denied to this order',
       });
     }
 
-    // Filter to show only vendor's items
-    const vendorItems = order.items.filter((item) => item.book?.vendorId === vendor.id);
+    // Other vendors' shipments and refund lines are not exposed
+    const { shipments, refunds, ...orderData } = order.toJSON();
 
     return res.json({
       success: true,
       data: {
-        ...order.toJSON(),
+        ...orderData,
         items: vendorItems,
+        shipment: shipments.find((shipment) => shipment.vendorId === vendor.id) || null,
+        refunds: vendorRefundHistory(refunds, vendor.id),
       },
     });
   } catch (error) {
@@ -187,94 +221,61 @@ export const getVendorOrderDetail = async (req, res) => {
 };
 
 /**
- * Update order status (for vendor items)
+ * Update the vendor's shipment status for an order
  * PUT /api/vendor/orders/:id/status
  */
 export const updateOrderStatus = async (req, res) => {
+  const transaction = await sequelize.transaction();
+
   try {
     const userId = req.user?.userId || req.user?.id;
     const { id } = req.params;
-    const { status, itemIds } = req.body;
+    const { status } = req.body;
 
     if (!['processing', 'shipped', 'delivered'].includes(status)) {
+      await transaction.rollback();
       return res.status(400).json({
         success: false,
         message: 'Invalid status value',
       });
     }
 
-    const vendor = await Vendor.findOne({ where: { userId } });
+    const vendor = await Vendor.findOne({ where: { userId }, transaction });
     if (!vendor) {
+      await transaction.rollback();
       return res.status(404).json({
         success: false,
         message: 'Vendor profile not found',
       });
     }
 
-    const order = await Order.findByPk(id, {
-      include: [
-        {
-          model: OrderItem,
-          as: 'items',
-          include: [{ model: Book, as: 'book' }],
-        },
-      ],
-    });
-
-    if (!order) {
+    const shipment = await ensureVendorShipment(parseInt(id), vendor.id, { transaction });
+    if (!shipment) {
+      await transaction.rollback();
       return res.status(404).json({
         success: false,
         message: 'Order not found',
       });
     }
 
-    // Update status for vendor's items
-    const vendorItemIds = order.items
-      .filter((item) => item.book?.vendorId === vendor.id)
-      .map((item) => item.id);
-
-    if (itemIds && itemIds.length > 0) {
-      // Update specific items
-      await OrderItem.update(
-        { status },
-        {
-          where: {
-            id: { [Op.in]: itemIds },
-            orderId: id,
-          },
-        },
-      );
-    } else {
-      // Update all vendor items
-      await OrderItem.update(
-        { status },
-        {
-          where: {
-            id: { [Op.in]: vendorItemIds },
-            orderId: id,
-          },
-        },
-      );
+    if (!canTransition(shipment.status, status)) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: `Cannot change a ${shipment.status} shipment to ${status}`,
+      });
     }
 
-    // Check if all items are now the same status to update order status
-    const updatedOrder = await Order.findByPk(id, {
-      include: [{ model: OrderItem, as: 'items' }],
-    });
-
-    const allStatuses = updatedOrder.items.map((item) => item.status);
-    const uniqueStatuses = [...new Set(allStatuses)];
-
-    if (uniqueStatuses.length === 1) {
-      await updatedOrder.update({ status: uniqueStatuses[0] });
-    }
+    await updateShipment(shipment, { status }, { transaction });
+    await transaction.commit();
 
     return res.json({
       success: true,
       message: 'Order status updated successfully',
-      data: updatedOrder,
+      data: shipment,
     });
   } catch (error) {
+    await transaction.rollback();
     console.error('Error updating order status:', error);
     return res.status(500).json({
       success: false,
@@ -285,88 +286,70 @@ export const updateOrderStatus = async (req, res) => {
 };
 
 /**
- * Update tracking information
+ * Update tracking information for the vendor's shipment and mark it shipped
  * PUT /api/vendor/orders/:id/tracking
  */
 export const updateTrackingInfo = async (req, res) => {
+  const transaction = await sequelize.transaction();
+
   try {
     const userId = req.user?.userId || req.user?.id;
     const { id } = req.params;
-    const { trackingNumber, carrier, itemIds } = req.body;
+    const { trackingNumber, carrier } = req.body;
 
     if (!trackingNumber) {
+      await transaction.rollback();
       return res.status(400).json({
         success: false,
         message: 'Tracking number is required',
       });
     }
 
-    const vendor = await Vendor.findOne({ where: { userId } });
+    const vendor = await Vendor.findOne({ where: { userId }, transaction });
     if (!vendor) {
+      await transaction.rollback();
       return res.status(404).json({
         success: false,
         message: 'Vendor profile not found',
       });
     }
 
-    const order = await Order.findByPk(id, {
-      include: [
-        {
-          model: OrderItem,
-          as: 'items',
-          include: [{ model: Book, as: 'book' }],
-        },
-      ],
-    });
-
-    if (!order) {
+    const shipment = await ensureVendorShipment(parseInt(id), vendor.id, { transaction });
+    if (!shipment) {
+      await transaction.rollback();
       return res.status(404).json({
         success: false,
         message: 'Order not found',
       });
     }
 
-    // Update tracking for vendor's items
-    const vendorItemIds = order.items
-      .filter((item) => item.book?.vendorId === vendor.id)
-      .map((item) => item.id);
-
-    const updateData = {
-      trackingNumber,
-      ...(carrier && { carrier }),
-      status: 'shipped',
-      shippedAt: new Date(),
-    };
-
-    if (itemIds && itemIds.length > 0) {
-      await OrderItem.update(updateData, {
-        where: {
-          id: { [Op.in]: itemIds },
-          orderId: id,
-        },
-      });
-    } else {
-      await OrderItem.update(updateData, {
-        where: {
-          id: { [Op.in]: vendorItemIds },
-          orderId: id,
-        },
+    if (shipment.status === 'cancelled') {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot add tracking to a cancelled shipment',
       });
     }
 
-    // Update order tracking and status
-    await order.update({
-      trackingNumber,
-      carrier,
-      status: 'shipped',
-    });
+    // Delivered shipments keep their status; only the tracking details change
+    await updateShipment(
+      shipment,
+      {
+        trackingNumber,
+        ...(carrier !== undefined && { carrier }),
+        ...(shipment.status !== 'delivered' && { status: 'shipped' }),
+      },
+      { transaction },
+    );
+    await transaction.commit();
 
     return res.json({
       success: true,
       message: 'Tracking information updated successfully',
-      data: order,
+      data: shipment,
     });
   } catch (error) {
+    await transaction.rollback();
     console.error('Error updating tracking info:', error);
     return res.status(500).json({
       success: false,
@@ -379,12 +362,14 @@ export const updateTrackingInfo = async (req, res) => {
 /**
  * Request refund for order
  * POST /api/vendor/orders/:id/refund-request
+ * Body: { reason, items?: [{ orderItemId, quantity }], refundShipping?, amount?, restock? };
+ * without items or an amount, all of the vendor's remaining items and shipping are requested
  */
 export const requestRefund = async (req, res) => {
   try {
     const userId = req.user?.userId || req.user?.id;
     const { id } = req.params;
-    const { reason } = req.body;
+    const { reason, items, refundShipping, amount, restock } = req.body;
 
     if (!reason) {
       return res.status(400).json({
@@ -406,7 +391,10 @@ export const requestRefund = async (req, res) => {
         {
           model: OrderItem,
           as: 'items',
-          include: [{ model: Book, as: 'book' }],
+          include: [
+            { model: Book, as: 'book' },
+            { model: Product, as: 'product' },
+          ],
         },
       ],
     });
@@ -419,7 +407,7 @@ export const requestRefund = async (req, res) => {
     }
 
     // Verify vendor owns the items
-    const hasVendorItems = order.items.some((item) => item.book?.vendorId === vendor.id);
+    const hasVendorItems = order.items.some((item) => itemVendorId(item) === vendor.id);
 
     if (!hasVendorItems) {
       return res.status(403).json({
@@ -428,19 +416,25 @@ export const requestRefund = async (req, res) => {
       });
     }
 
-    // Create refund request (this would integrate with payment processor)
-    // For now, just update order status
-    await order.update({
-      status: 'refund_requested',
-      refundReason: reason,
-      refundRequestedAt: new Date(),
-      refundRequestedBy: 'vendor',
-    });
+    // Vendors can only request shipping refunds for their own shipment
+    const result = await requestVendorRefund(
+      order.id,
+      vendor,
+      userId,
+      { items, refundShipping: refundShipping ? [vendor.id] : undefined, amount, restock },
+      reason,
+    );
+    if (!result.success) {
+      return res.status(result.statusCode).json({
+        success: false,
+        message: result.error,
+      });
+    }
 
     return res.json({
       success: true,
       message: 'Refund request submitted successfully',
-      data: order,
+      data: result.refund,
     });
   } catch (error) {
     console.error('Error requesting refund:', error);
@@ -6,6 +6,9 @@
 import db from '../models/index.js';
 import { Op, Sequelize } from 'sequelize';
 import { indexBook, removeBookFromIndex } from '../utils/meilisearch.js';
+import { normalizeCurrency } from '../services/currencyConverter.js';
+import { matchBookToRequests } from '../services/rareBookRequestMatching.js';
+import { sanitizeBibliographicDetails } from '../services/bibliographicDetails.js';
 
 const { Book, Vendor, BookMedia, Category, BookCategory } = db;
 
@@ -295,6 +298,7 @@ export const createProduct = async (req, res) => {
       shortDescription,
       price,
       salePrice,
+      currency,
       quantity,
       condition,
       conditionNotes,
@@ -306,9 +310,11 @@ export const createProduct = async (req, res) => {
       language = 'English',
       binding,
       isSigned = false,
+      bibliographicDetails,
       status = 'draft',
       images = [],
       shippingWeight,
+      shippingOverride,
       shippingDimensions,
       sellerNotes,
       metaTitle,
@@ -324,6 +330,11 @@ export const createProduct = async (req, res) => {
       });
     }
 
+    const bibliographic = sanitizeBibliographicDetails(bibliographicDetails);
+    if (bibliographic.error) {
+      return res.status(400).json({ success: false, message: bibliographic.error });
+    }
+
     const vendor = await Vendor.findOne({ where: { userId } });
     if (!vendor) {
       return res.status(404).json({
@@ -347,6 +358,7 @@ export const createProduct = async (req, res) => {
       shortDescription: shortDescription || null,
       price: price || 0,
       salePrice: salePrice === '' || salePrice === undefined ? null : salePrice,
+      currency: normalizeCurrency(currency),
       quantity: quantity || 1,
       condition,
       conditionNotes,
@@ -358,8 +370,11 @@ export const createProduct = async (req, res) => {
       language,
       binding,
       isSigned,
+      bibliographicDetails: bibliographic.details,
       status: dbStatus,
       shippingWeight: shippingWeight === '' ? null : shippingWeight,
+      shippingOverride:
+        shippingOverride === '' || shippingOverride === undefined ? null : shippingOverride,
       shippingDimensions,
       sellerNotes,
       metaTitle,
@@ -401,6 +416,9 @@ export const createProduct = async (req, res) => {
 
     // Index in Meilisearch (async, don't wait)
     indexBook(product.id).catch((err) => console.error('Failed to index book:', err));
+    matchBookToRequests(product.id).catch((err) =>
+      console.error('Failed to match book requests:', err),
+    );
 
     return res.status(201).json({
       success: true,
@@ -454,6 +472,7 @@ export const updateProduct = async (req, res) => {
       'shortDescription',
       'price',
       'salePrice',
+      'currency',
       'quantity',
       'condition',
       'conditionNotes',
@@ -464,8 +483,10 @@ export const updateProduct = async (req, res) => {
       'language',
       'binding',
       'isSigned',
+      'bibliographicDetails',
       'status',
       'shippingWeight',
+      'shippingOverride',
       'shippingDimensions',
       'sellerNotes',
       'metaTitle',
@@ -483,6 +504,7 @@ export const updateProduct = async (req, res) => {
       'quantity',
       'publicationYear',
       'shippingWeight',
+      'shippingOverride',
       'views',
       'menuOrder',
     ];
@@ -492,6 +514,11 @@ export const updateProduct = async (req, res) => {
       return isNaN(num) ? null : num;
     };
 
+    const bibliographic = sanitizeBibliographicDetails(req.body.bibliographicDetails);
+    if (bibliographic.error) {
+      return res.status(400).json({ success: false, message: bibliographic.error });
+    }
+
     const updates = {};
     allowedUpdates.forEach((field) => {
       if (req.body[field] !== undefined) {
@@ -502,6 +529,10 @@ export const updateProduct = async (req, res) => {
           updates[field] = statusMap[req.body[field]] || req.body[field];
         } else if (numericFields.includes(field)) {
           updates[field] = sanitizeNumeric(req.body[field]);
+        } else if (field === 'currency') {
+          updates[field] = normalizeCurrency(req.body[field]);
+        } else if (field === 'bibliographicDetails') {
+          updates[field] = bibliographic.details;
         } else {
           updates[field] = req.body[field];
         }
@@ -556,6 +587,7 @@ export const updateProduct = async (req, res) => {
 
     // Update in Meilisearch (async, don't wait)
     indexBook(id).catch((err) => console.error('Failed to update book in search:', err));
+    matchBookToRequests(id).catch((err) => console.error('Failed to match book requests:', err));
 
     return res.json({
       success: true,
@@ -669,6 +701,7 @@ export const updateProductStatus = async (req, res) => {
     } else {
       // Index/update if active or draft
       indexBook(id).catch((err) => console.error('Failed to update book in search:', err));
+      matchBookToRequests(id).catch((err) => console.error('Failed to match book requests:', err));
     }
 
     return res.json({
@@ -781,6 +814,7 @@ export const relistProduct = async (req, res) => {
     });
 
     indexBook(id).catch((err) => console.error('Failed to index book:', err));
+    matchBookToRequests(id).catch((err) => console.error('Failed to match book requests:', err));
 
     return res.json({
       success: true,
@@ -6,7 +6,41 @@
 import db from '../models/index.js';
 import { Op } from 'sequelize';
 
-const { RareBookRequest, User, Vendor } = db;
+const { RareBookRequest, RareBookRequestMatch, Book, User, Vendor } = db;
+
+/**
+ * Load this vendor's suggested listings for requests, best match first
+ */
+const getVendorMatches = async (vendorId, requestIds) => {
+  if (!RareBookRequestMatch || requestIds.length === 0) return [];
+
+  const matches = await RareBookRequestMatch.findAll({
+    where: { vendorId, requestId: requestIds },
+    include: [
+      {
+        model: Book,
+        as: 'book',
+        attributes: ['id', 'sid', 'title', 'author', 'price', 'salePrice', 'currency', 'status'],
+      },
+    ],
+    order: [['confidence', 'DESC']],
+  });
+
+  return matches
+    .filter((match) => match.book)
+    .map((match) => ({
+      requestId: match.requestId,
+      bookId: match.bookId,
+      sid: match.book.sid,
+      title: match.book.title,
+      author: match.book.author,
+      price: match.book.salePrice ?? match.book.price,
+      currency: match.book.currency,
+      status: match.book.status,
+      confidence: match.confidence,
+      reasons: match.reasons,
+    }));
+};
 
 /**
  * Get rare book requests
@@ -47,6 +81,11 @@ export const getRequests = async (req, res) => {
       order: [['createdAt', 'DESC']],
     });
 
+    const matches = await getVendorMatches(
+      vendor.id,
+      requests.map((request) => request.id),
+    );
+
     return res.status(200).json({
       success: true,
       data: {
@@ -56,10 +95,12 @@ export const getRequests = async (req, res) => {
           author: req.author,
           category: req.category,
           condition: req.condition,
+          isbn: req.isbn,
           maxPrice: req.maxPrice,
           description: req.description,
           userId: req.userId,
           createdAt: req.createdAt,
+          matches: matches.filter((match) => match.requestId === req.id),
         })),
       },
     });
@@ -108,10 +149,13 @@ export const getRequestDetail = async (req, res) => {
       });
     }
 
+    const matches = await getVendorMatches(vendor.id, [request.id]);
+
     return res.status(200).json({
       success: true,
       data: {
         request,
+        matches,
       },
     });
   } catch (error) {
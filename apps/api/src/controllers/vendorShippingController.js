@@ -0,0 +1,148 @@
+/**
+ * Vendor Shipping Controller
+ * Manage the vendor's shipping profile (rate type and destination zones)
+ */
+import db from '../models/index.js';
+import { RATE_TYPES, REST_OF_WORLD, normalizeCountry } from '../services/shippingRateEngine.js';
+
+const { ShippingProfile, ShippingZone, sequelize } = db;
+
+const toOptionalAmount = (value) => {
+  if (value === '' || value === undefined || value === null) return null;
+  const num = parseFloat(value);
+  return isNaN(num) ? null : num;
+};
+
+/**
+ * Normalize and validate zones from the request body
+ * @returns {Object} { zones } or { error }
+ */
+const sanitizeZones = (zones) => {
+  if (!Array.isArray(zones) || zones.length === 0) {
+    return { error: 'At least one shipping zone is required' };
+  }
+
+  const sanitized = [];
+  for (const [index, zone] of zones.entries()) {
+    const countries = (Array.isArray(zone.countries) ? zone.countries : [])
+      .map((country) => (country === REST_OF_WORLD ? REST_OF_WORLD : normalizeCountry(country)))
+      .filter(Boolean);
+
+    if (!zone.name || countries.length === 0) {
+      return { error: `Zone ${index + 1} needs a name and at least one country` };
+    }
+
+    const baseRate = toOptionalAmount(zone.baseRate) ?? 0;
+    const additionalRate = toOptionalAmount(zone.additionalRate) ?? 0;
+    if (baseRate < 0 || additionalRate < 0) {
+      return { error: `Zone "${zone.name}" rates cannot be negative` };
+    }
+
+    sanitized.push({
+      name: zone.name,
+      countries,
+      regions: (Array.isArray(zone.regions) ? zone.regions : [])
+        .map((region) => String(region).trim().toUpperCase())
+        .filter(Boolean),
+      baseRate,
+      additionalRate,
+      freeShippingThreshold: toOptionalAmount(zone.freeShippingThreshold),
+      sortOrder: index,
+    });
+  }
+
+  return { zones: sanitized };
+};
+
+/**
+ * GET /vendor/shipping-profile
+ * Returns null when the vendor still uses the platform flat rate
+ */
+export const getShippingProfile = async (req, res) => {
+  try {
+    const vendorId = req.vendorId || req.vendor?.id;
+
+    const profile = await ShippingProfile.findOne({
+      where: { vendorId },
+      include: [{ model: ShippingZone, as: 'zones' }],
+      order: [[{ model: ShippingZone, as: 'zones' }, 'sortOrder', 'ASC']],
+    });
+
+    res.json({ success: true, data: profile });
+  } catch (error) {
+    console.error('Get shipping profile error:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch shipping profile' });
+  }
+};
+
+/**
+ * PUT /vendor/shipping-profile
+ * Body: { name, rateType, zones: [{ name, countries, regions, baseRate, additionalRate, freeShippingThreshold }] }
+ * Zones are replaced wholesale
+ */
+export const saveShippingProfile = async (req, res) => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const vendorId = req.vendorId || req.vendor?.id;
+    const { name, rateType = 'flat', zones } = req.body;
+
+    if (!RATE_TYPES.includes(rateType)) {
+      await transaction.rollback();
+      return res.status(400).json({
+        success: false,
+        message: `Rate type must be one of: ${RATE_TYPES.join(', ')}`,
+      });
+    }
+
+    const { zones: sanitizedZones, error } = sanitizeZones(zones);
+    if (error) {
+      await transaction.rollback();
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    let profile = await ShippingProfile.findOne({ where: { vendorId }, transaction });
+    if (profile) {
+      await profile.update({ name: name || profile.name, rateType }, { transaction });
+      await ShippingZone.destroy({ where: { profileId: profile.id }, transaction });
+    } else {
+      profile = await ShippingProfile.create(
+        { vendorId, name: name || 'Standard Shipping', rateType },
+        { transaction },
+      );
+    }
+
+    await ShippingZone.bulkCreate(
+      sanitizedZones.map((zone) => ({ ...zone, profileId: profile.id })),
+      { transaction },
+    );
+
+    await transaction.commit();
+
+    const savedProfile = await ShippingProfile.findByPk(profile.id, {
+      include: [{ model: ShippingZone, as: 'zones' }],
+      order: [[{ model: ShippingZone, as: 'zones' }, 'sortOrder', 'ASC']],
+    });
+
+    res.json({ success: true, message: 'Shipping profile saved', data: savedProfile });
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Save shipping profile error:', error);
+    res.status(500).json({ success: false, message: 'Failed to save shipping profile' });
+  }
+};
+
+/**
+ * DELETE /vendor/shipping-profile
+ * Reverts the vendor to the platform flat rate
+ */
+export const deleteShippingProfile = async (req, res) => {
+  try {
+    const vendorId = req.vendorId || req.vendor?.id;
+    await ShippingProfile.destroy({ where: { vendorId } });
+    res.json({ success: true, message: 'Shipping profile removed' });
+  } catch (error) {
+    console.error('Delete shipping profile error:', error);
+    res.status(500).json({ success: false, message: 'Failed to remove shipping profile' });
+  }
+};
@@ -7,7 +7,7 @@
 
 import db from '../models/index.js';
 import { validateWithdrawalRequest } from '../services/payoutService.js';
-import { sendTemplatedEmail } from '../services/emailService.js';
+import { dispatchNotification } from '../services/notificationDispatch.js';
 
 const { Vendor, VendorWithdrawal, VendorPayout, User } = db;
 
@@ -83,18 +83,26 @@ export const requestWithdrawal = async (req, res) => {
       status: 'pending',
     });
 
-    // Get vendor user for email
+    // Get vendor user to notify
     const user = await User.findByPk(vendor.userId);
 
-    // Send confirmation email to vendor
-    if (user?.email) {
-      await sendTemplatedEmail('vendor-withdrawal-requested', user.email, {
-        firstName: user.firstName || user.name,
-        shopName: vendor.shopName,
-        amount: requestedAmount.toFixed(2),
-        method: method.toUpperCase(),
-        withdrawalId: withdrawal.id,
-      }).catch((err) => console.error('Email send error:', err));
+    // Confirm the request to the vendor
+    if (user) {
+      await dispatchNotification(user, 'VENDOR_PAYOUT_UPDATE', {
+        title: 'Withdrawal Requested',
+        message: `We received your withdrawal request for $${requestedAmount.toFixed(2)}.`,
+        data: { entityType: 'withdrawal', entityId: String(withdrawal.id) },
+        email: {
+          template: 'vendor-withdrawal-requested',
+          variables: {
+            firstName: user.firstName || user.name,
+            shopName: vendor.shopName,
+            amount: requestedAmount.toFixed(2),
+            method: method.toUpperCase(),
+            withdrawalId: withdrawal.id,
+          },
+        },
+      });
     }
 
 
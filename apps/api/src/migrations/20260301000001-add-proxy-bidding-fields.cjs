@@ -0,0 +1,61 @@
+/**
+ * Migration: Add Proxy Bidding Fields
+ * Adds hidden maximum bids to auction_bids and a configurable bid increment to auctions
+ */
+
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const bidsTable = await queryInterface.describeTable('auction_bids');
+
+    if (!bidsTable.max_bid_amount) {
+      await queryInterface.addColumn('auction_bids', 'max_bid_amount', {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: true,
+        comment: 'Hidden maximum for proxy bidding - never exposed to other users',
+      });
+    }
+
+    if (!bidsTable.bid_time) {
+      await queryInterface.addColumn('auction_bids', 'bid_time', {
+        type: Sequelize.DATE,
+        allowNull: true,
+        comment: 'When the bid was placed',
+      });
+    }
+
+    const auctionsTable = await queryInterface.describeTable('auctions');
+
+    if (!auctionsTable.bid_increment) {
+      await queryInterface.addColumn('auctions', 'bid_increment', {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: true,
+        comment: 'Fixed bid increment; NULL uses the default tiered increments',
+      });
+    }
+
+    await queryInterface.addIndex('auction_bids', ['auction_id', 'status'], {
+      name: 'auction_bids_auction_id_status',
+    });
+  },
+
+  async down(queryInterface) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.removeIndex('auction_bids', 'auction_bids_auction_id_status', {
+        transaction,
+      });
+      await queryInterface.removeColumn('auctions', 'bid_increment', { transaction });
+      await queryInterface.removeColumn('auction_bids', 'bid_time', { transaction });
+      await queryInterface.removeColumn('auction_bids', 'max_bid_amount', { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+};
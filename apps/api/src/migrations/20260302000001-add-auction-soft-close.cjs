@@ -0,0 +1,204 @@
+/**
+ * Migration: Add Auction Soft Close
+ * Adds anti-sniping settings to auctions and vendor defaults, and creates auction_events
+ * for the auction event history (extensions, endings).
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      const auctionsTable = await queryInterface.describeTable('auctions');
+
+      if (!auctionsTable.soft_close_window_minutes) {
+        await queryInterface.addColumn(
+          'auctions',
+          'soft_close_window_minutes',
+          {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            comment: 'Bids in the final N minutes extend the auction (0 = disabled)',
+          },
+          { transaction },
+        );
+      }
+
+      if (!auctionsTable.soft_close_extension_minutes) {
+        await queryInterface.addColumn(
+          'auctions',
+          'soft_close_extension_minutes',
+          {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            comment: 'Minutes added to end_date per soft-close extension',
+          },
+          { transaction },
+        );
+      }
+
+      if (!auctionsTable.soft_close_max_extension_minutes) {
+        await queryInterface.addColumn(
+          'auctions',
+          'soft_close_max_extension_minutes',
+          {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            comment: 'Cap on total extension past the original end date',
+          },
+          { transaction },
+        );
+      }
+
+      if (!auctionsTable.original_end_date) {
+        await queryInterface.addColumn(
+          'auctions',
+          'original_end_date',
+          {
+            type: Sequelize.DATE,
+            allowNull: true,
+            comment: 'Scheduled end before any soft-close extensions',
+          },
+          { transaction },
+        );
+      }
+
+      if (!auctionsTable.extension_count) {
+        await queryInterface.addColumn(
+          'auctions',
+          'extension_count',
+          {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+            comment: 'Number of soft-close extensions applied',
+          },
+          { transaction },
+        );
+      }
+
+      const vendorsTable = await queryInterface.describeTable('vendors');
+
+      if (!vendorsTable.soft_close_window_minutes) {
+        await queryInterface.addColumn(
+          'vendors',
+          'soft_close_window_minutes',
+          {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            comment: 'Default soft-close window for new auctions',
+          },
+          { transaction },
+        );
+      }
+
+      if (!vendorsTable.soft_close_extension_minutes) {
+        await queryInterface.addColumn(
+          'vendors',
+          'soft_close_extension_minutes',
+          {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            comment: 'Default soft-close extension for new auctions',
+          },
+          { transaction },
+        );
+      }
+
+      if (!vendorsTable.soft_close_max_extension_minutes) {
+        await queryInterface.addColumn(
+          'vendors',
+          'soft_close_max_extension_minutes',
+          {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            comment: 'Default soft-close extension cap for new auctions',
+          },
+          { transaction },
+        );
+      }
+
+      await queryInterface.createTable(
+        'auction_events',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          auction_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            references: { model: 'auctions', key: 'id' },
+            onUpdate: 'CASCADE',
+            onDelete: 'CASCADE',
+          },
+          event_type: {
+            type: Sequelize.STRING(50),
+            allowNull: false,
+          },
+          user_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: { model: 'users', key: 'id' },
+            onUpdate: 'CASCADE',
+            onDelete: 'SET NULL',
+          },
+          data: {
+            type: Sequelize.JSONB,
+            allowNull: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('auction_events', ['auction_id', 'created_at'], {
+        name: 'auction_events_auction_created',
+        transaction,
+      });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.dropTable('auction_events', { transaction });
+
+      for (const column of [
+        'soft_close_window_minutes',
+        'soft_close_extension_minutes',
+        'soft_close_max_extension_minutes',
+      ]) {
+        await queryInterface.removeColumn('vendors', column, { transaction });
+      }
+
+      for (const column of [
+        'soft_close_window_minutes',
+        'soft_close_extension_minutes',
+        'soft_close_max_extension_minutes',
+        'original_end_date',
+        'extension_count',
+      ]) {
+        await queryInterface.removeColumn('auctions', column, { transaction });
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,207 @@
+/**
+ * Migration: Add Shipping Profiles
+ * Creates vendor shipping profiles and zones, per-item shipping overrides,
+ * book shipping weight, and the per-vendor shipping breakdown on orders.
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.createTable(
+        'shipping_profiles',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          vendor_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            unique: true,
+            references: { model: 'vendors', key: 'id' },
+            onUpdate: 'CASCADE',
+            onDelete: 'CASCADE',
+          },
+          name: {
+            type: Sequelize.STRING(255),
+            allowNull: false,
+            defaultValue: 'Standard Shipping',
+          },
+          rate_type: {
+            type: Sequelize.ENUM('flat', 'weight', 'item'),
+            allowNull: false,
+            defaultValue: 'flat',
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.createTable(
+        'shipping_zones',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          profile_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            references: { model: 'shipping_profiles', key: 'id' },
+            onUpdate: 'CASCADE',
+            onDelete: 'CASCADE',
+          },
+          name: {
+            type: Sequelize.STRING(255),
+            allowNull: false,
+          },
+          countries: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: [],
+          },
+          regions: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: [],
+          },
+          base_rate: {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: false,
+            defaultValue: 0,
+          },
+          additional_rate: {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: false,
+            defaultValue: 0,
+          },
+          free_shipping_threshold: {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: true,
+          },
+          sort_order: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('shipping_zones', ['profile_id'], {
+        name: 'shipping_zones_profile_id',
+        transaction,
+      });
+
+      const booksTable = await queryInterface.describeTable('books');
+
+      if (!booksTable.shipping_weight) {
+        await queryInterface.addColumn(
+          'books',
+          'shipping_weight',
+          {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: true,
+            comment: 'Packed weight in pounds for weight-based shipping rates',
+          },
+          { transaction },
+        );
+      }
+
+      if (!booksTable.shipping_override) {
+        await queryInterface.addColumn(
+          'books',
+          'shipping_override',
+          {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: true,
+            comment: "Fixed per-unit shipping charge; bypasses the vendor's shipping profile rates",
+          },
+          { transaction },
+        );
+      }
+
+      const productsTable = await queryInterface.describeTable('products');
+
+      if (!productsTable.shipping_override) {
+        await queryInterface.addColumn(
+          'products',
+          'shipping_override',
+          {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: true,
+            comment: "Fixed per-unit shipping charge; bypasses the vendor's shipping profile rates",
+          },
+          { transaction },
+        );
+      }
+
+      const ordersTable = await queryInterface.describeTable('orders');
+
+      if (!ordersTable.shipping_lines) {
+        await queryInterface.addColumn(
+          'orders',
+          'shipping_lines',
+          {
+            type: Sequelize.JSONB,
+            allowNull: true,
+            comment: 'Per-vendor shipping breakdown',
+          },
+          { transaction },
+        );
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.removeColumn('orders', 'shipping_lines', { transaction });
+      await queryInterface.removeColumn('products', 'shipping_override', { transaction });
+      await queryInterface.removeColumn('books', 'shipping_override', { transaction });
+      await queryInterface.removeColumn('books', 'shipping_weight', { transaction });
+      await queryInterface.dropTable('shipping_zones', { transaction });
+      await queryInterface.dropTable('shipping_profiles', { transaction });
+      await queryInterface.sequelize.query(
+        'DROP TYPE IF EXISTS "enum_shipping_profiles_rate_type";',
+        { transaction },
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,140 @@
+/**
+ * Migration: Add Tax Rates
+ * Creates admin-managed jurisdiction tax rates and persists tax lines on orders and order items.
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.createTable(
+        'tax_rates',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          name: {
+            type: Sequelize.STRING(255),
+            allowNull: false,
+          },
+          country: {
+            type: Sequelize.STRING(2),
+            allowNull: false,
+          },
+          state: {
+            type: Sequelize.STRING(50),
+            allowNull: true,
+          },
+          postal_prefix: {
+            type: Sequelize.STRING(20),
+            allowNull: true,
+          },
+          rate: {
+            type: Sequelize.DECIMAL(6, 5),
+            allowNull: false,
+          },
+          inclusive: {
+            type: Sequelize.BOOLEAN,
+            allowNull: false,
+            defaultValue: false,
+          },
+          exempt_categories: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: [],
+          },
+          is_active: {
+            type: Sequelize.BOOLEAN,
+            allowNull: false,
+            defaultValue: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('tax_rates', ['country', 'state'], {
+        name: 'tax_rates_country_state',
+        transaction,
+      });
+
+      const ordersTable = await queryInterface.describeTable('orders');
+
+      if (!ordersTable.tax_lines) {
+        await queryInterface.addColumn(
+          'orders',
+          'tax_lines',
+          {
+            type: Sequelize.JSONB,
+            allowNull: true,
+            comment: 'Per-jurisdiction tax breakdown',
+          },
+          { transaction },
+        );
+      }
+
+      const orderItemsTable = await queryInterface.describeTable('order_items');
+
+      if (!orderItemsTable.tax_amount) {
+        await queryInterface.addColumn(
+          'order_items',
+          'tax_amount',
+          {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: false,
+            defaultValue: 0,
+          },
+          { transaction },
+        );
+      }
+
+      if (!orderItemsTable.tax_lines) {
+        await queryInterface.addColumn(
+          'order_items',
+          'tax_lines',
+          {
+            type: Sequelize.JSONB,
+            allowNull: true,
+            comment: 'Tax applied to this item',
+          },
+          { transaction },
+        );
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.removeColumn('order_items', 'tax_lines', { transaction });
+      await queryInterface.removeColumn('order_items', 'tax_amount', { transaction });
+      await queryInterface.removeColumn('orders', 'tax_lines', { transaction });
+      await queryInterface.dropTable('tax_rates', { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+};
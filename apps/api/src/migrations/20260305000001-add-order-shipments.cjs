@@ -0,0 +1,144 @@
+/**
+ * Migration: Add Order Shipments
+ * Splits orders into per-vendor shipments with their own status, carrier and tracking.
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.createTable(
+        'order_shipments',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          order_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            references: { model: 'orders', key: 'id' },
+            onDelete: 'CASCADE',
+          },
+          vendor_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            references: { model: 'vendors', key: 'id' },
+          },
+          status: {
+            type: Sequelize.STRING(20),
+            allowNull: false,
+            defaultValue: 'pending',
+          },
+          carrier: {
+            type: Sequelize.STRING(50),
+            allowNull: true,
+          },
+          tracking_number: {
+            type: Sequelize.STRING(100),
+            allowNull: true,
+          },
+          shipping_cost: {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: false,
+            defaultValue: 0,
+          },
+          shipped_at: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          delivered_at: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('order_shipments', ['order_id', 'vendor_id'], {
+        name: 'order_shipments_order_vendor',
+        unique: true,
+        transaction,
+      });
+      await queryInterface.addIndex('order_shipments', ['vendor_id'], {
+        name: 'order_shipments_vendor_id',
+        transaction,
+      });
+
+      const orderItemsTable = await queryInterface.describeTable('order_items');
+
+      if (!orderItemsTable.vendor_id) {
+        await queryInterface.addColumn(
+          'order_items',
+          'vendor_id',
+          {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: { model: 'vendors', key: 'id' },
+          },
+          { transaction },
+        );
+      }
+
+      if (!orderItemsTable.shipment_id) {
+        await queryInterface.addColumn(
+          'order_items',
+          'shipment_id',
+          {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: { model: 'order_shipments', key: 'id' },
+            onDelete: 'SET NULL',
+          },
+          { transaction },
+        );
+      }
+
+      // Backfill item vendors; shipments for existing orders are created on first fulfillment
+      await queryInterface.sequelize.query(
+        `UPDATE order_items oi SET vendor_id = b.vendor_id
+         FROM books b WHERE oi.book_id = b.id AND oi.vendor_id IS NULL`,
+        { transaction },
+      );
+      await queryInterface.sequelize.query(
+        `UPDATE order_items oi SET vendor_id = p.vendor_id
+         FROM products p WHERE oi.product_id = p.id AND oi.vendor_id IS NULL`,
+        { transaction },
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.removeColumn('order_items', 'shipment_id', { transaction });
+      await queryInterface.removeColumn('order_items', 'vendor_id', { transaction });
+      await queryInterface.dropTable('order_shipments', { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,106 @@
+/**
+ * Migration: Add Exchange Rates
+ * Creates admin-maintained exchange rates, gives books and products a listing currency
+ * and records the settlement rate on orders.
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.createTable(
+        'exchange_rates',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          currency: {
+            type: Sequelize.STRING(3),
+            allowNull: false,
+            unique: true,
+          },
+          rate: {
+            type: Sequelize.DECIMAL(18, 8),
+            allowNull: false,
+          },
+          is_active: {
+            type: Sequelize.BOOLEAN,
+            allowNull: false,
+            defaultValue: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      for (const table of ['books', 'products']) {
+        const description = await queryInterface.describeTable(table);
+
+        if (!description.currency) {
+          await queryInterface.addColumn(
+            table,
+            'currency',
+            {
+              type: Sequelize.STRING(3),
+              allowNull: false,
+              defaultValue: 'USD',
+              comment: 'Listing currency; orders settle in this currency',
+            },
+            { transaction },
+          );
+        }
+      }
+
+      const ordersTable = await queryInterface.describeTable('orders');
+
+      if (!ordersTable.exchange_rate) {
+        await queryInterface.addColumn(
+          'orders',
+          'exchange_rate',
+          {
+            type: Sequelize.DECIMAL(18, 8),
+            allowNull: false,
+            defaultValue: 1,
+            comment: 'Settlement currency units per 1 USD at checkout',
+          },
+          { transaction },
+        );
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.removeColumn('orders', 'exchange_rate', { transaction });
+      await queryInterface.removeColumn('products', 'currency', { transaction });
+      await queryInterface.removeColumn('books', 'currency', { transaction });
+      await queryInterface.dropTable('exchange_rates', { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,77 @@
+/**
+ * Migration: Add Saved Searches
+ * Stores users' search queries and filters for new-listing alerts
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.createTable(
+        'saved_searches',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          user_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            references: { model: 'users', key: 'id' },
+            onDelete: 'CASCADE',
+          },
+          name: {
+            type: Sequelize.STRING(120),
+            allowNull: false,
+          },
+          query: {
+            type: Sequelize.STRING(255),
+            allowNull: false,
+            defaultValue: '',
+          },
+          filters: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: {},
+          },
+          alerts_enabled: {
+            type: Sequelize.BOOLEAN,
+            allowNull: false,
+            defaultValue: true,
+          },
+          last_alerted_at: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('saved_searches', ['user_id'], { transaction });
+      await queryInterface.addIndex('saved_searches', ['alerts_enabled'], { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable('saved_searches');
+  },
+};
@@ -0,0 +1,75 @@
+/**
+ * Migration: Add Rare Book Request Matches
+ * Stores books automatically suggested for open rare book requests
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.createTable(
+        'rare_book_request_matches',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          request_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+          },
+          book_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            references: { model: 'books', key: 'id' },
+            onDelete: 'CASCADE',
+          },
+          vendor_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+          },
+          confidence: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+          },
+          reasons: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: [],
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('rare_book_request_matches', ['request_id', 'book_id'], {
+        unique: true,
+        transaction,
+      });
+      await queryInterface.addIndex('rare_book_request_matches', ['vendor_id'], { transaction });
+      await queryInterface.addIndex('rare_book_request_matches', ['book_id'], { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable('rare_book_request_matches');
+  },
+};
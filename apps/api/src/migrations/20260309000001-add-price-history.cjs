@@ -0,0 +1,116 @@
+/**
+ * Migration: Add Price History
+ * Stores price changes, sale prices, auction hammer prices and accepted offers for value
+ * charts, seeded with each existing listing's current price
+ */
+
+'use strict';
+
+const BATCH_SIZE = 1000;
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const { listingPriceEvents, workKeyFor } = await import('../services/priceHistoryEngine.js');
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.createTable(
+        'price_history',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          item_type: {
+            type: Sequelize.STRING(20),
+            allowNull: false,
+          },
+          item_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+          },
+          work_key: {
+            type: Sequelize.STRING(500),
+            allowNull: true,
+          },
+          vendor_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+          },
+          event_type: {
+            type: Sequelize.STRING(30),
+            allowNull: false,
+          },
+          amount: {
+            type: Sequelize.DECIMAL(12, 2),
+            allowNull: false,
+          },
+          currency: {
+            type: Sequelize.STRING(3),
+            allowNull: false,
+            defaultValue: 'USD',
+          },
+          source_id: {
+            type: Sequelize.STRING(64),
+            allowNull: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('price_history', ['item_type', 'item_id', 'created_at'], {
+        transaction,
+      });
+      await queryInterface.addIndex('price_history', ['work_key', 'created_at'], { transaction });
+
+      // Seed the current asking prices so existing listings start with a data point
+      const listings = [
+        ['book', 'SELECT id, isbn, title, author, NULL AS artist'],
+        ['product', 'SELECT id, NULL AS isbn, title, NULL AS author, artist'],
+      ];
+      for (const [itemType, select] of listings) {
+        const table = itemType === 'book' ? 'books' : 'products';
+        const [items] = await queryInterface.sequelize.query(
+          `${select}, price, sale_price, currency, vendor_id, created_at FROM ${table}`,
+          { transaction },
+        );
+
+        const rows = items.flatMap((item) =>
+          listingPriceEvents(null, { price: item.price, salePrice: item.sale_price }).map(
+            (event) => ({
+              item_type: itemType,
+              item_id: item.id,
+              work_key: workKeyFor(item),
+              vendor_id: item.vendor_id,
+              event_type: event.eventType,
+              amount: event.amount,
+              currency: item.currency || 'USD',
+              created_at: item.created_at,
+            }),
+          ),
+        );
+
+        for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+          await queryInterface.bulkInsert('price_history', rows.slice(i, i + BATCH_SIZE), {
+            transaction,
+          });
+        }
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable('price_history');
+  },
+};
@@ -0,0 +1,113 @@
+/**
+ * Migration: Add Background Jobs
+ * Persistent job queue for recurring and one-off lifecycle work, one row per run
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.createTable(
+        'background_jobs',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          name: {
+            type: Sequelize.STRING(100),
+            allowNull: false,
+          },
+          payload: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: {},
+          },
+          status: {
+            type: Sequelize.ENUM('pending', 'running', 'completed', 'failed'),
+            allowNull: false,
+            defaultValue: 'pending',
+          },
+          unique_key: {
+            type: Sequelize.STRING(150),
+            allowNull: true,
+          },
+          run_at: {
+            type: Sequelize.DATE,
+            allowNull: false,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          attempts: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+          },
+          max_attempts: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 3,
+          },
+          locked_by: {
+            type: Sequelize.STRING(100),
+            allowNull: true,
+          },
+          locked_until: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          started_at: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          finished_at: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          result: {
+            type: Sequelize.JSONB,
+            allowNull: true,
+          },
+          last_error: {
+            type: Sequelize.TEXT,
+            allowNull: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('background_jobs', ['status', 'run_at'], { transaction });
+      await queryInterface.addIndex('background_jobs', ['name', 'created_at'], { transaction });
+      // Only one queued or running copy of a keyed job (e.g. each recurring job) at a time
+      await queryInterface.addIndex('background_jobs', ['unique_key'], {
+        unique: true,
+        where: { status: ['pending', 'running'] },
+        name: 'background_jobs_active_unique_key',
+        transaction,
+      });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable('background_jobs');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_background_jobs_status";');
+  },
+};
@@ -0,0 +1,172 @@
+/**
+ * Migration: Add Payment Disputes
+ * Processed Stripe webhook events (for idempotency), payment disputes with their frozen
+ * vendor earnings, and the auction link on vendor earnings so auction sales can be frozen
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.createTable(
+        'stripe_webhook_events',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          event_id: {
+            type: Sequelize.STRING(255),
+            allowNull: false,
+            unique: true,
+          },
+          type: {
+            type: Sequelize.STRING(100),
+            allowNull: false,
+          },
+          status: {
+            type: Sequelize.STRING(20),
+            allowNull: false,
+            defaultValue: 'processing',
+          },
+          attempts: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 1,
+          },
+          last_error: {
+            type: Sequelize.TEXT,
+            allowNull: true,
+          },
+          processed_at: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.createTable(
+        'payment_disputes',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          stripe_dispute_id: {
+            type: Sequelize.STRING(255),
+            allowNull: false,
+            unique: true,
+          },
+          stripe_charge_id: {
+            type: Sequelize.STRING(255),
+            allowNull: true,
+          },
+          stripe_payment_intent_id: {
+            type: Sequelize.STRING(255),
+            allowNull: true,
+          },
+          order_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: { model: 'orders', key: 'id' },
+            onDelete: 'SET NULL',
+          },
+          amount: {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: false,
+          },
+          currency: {
+            type: Sequelize.STRING(3),
+            allowNull: false,
+            defaultValue: 'USD',
+          },
+          reason: {
+            type: Sequelize.STRING(50),
+            allowNull: true,
+          },
+          status: {
+            type: Sequelize.STRING(40),
+            allowNull: false,
+          },
+          evidence_due_by: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          frozen_earnings: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: [],
+          },
+          resolution: {
+            type: Sequelize.STRING(10),
+            allowNull: true,
+          },
+          closed_at: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          admin_notes: {
+            type: Sequelize.TEXT,
+            allowNull: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('payment_disputes', ['order_id'], { transaction });
+      await queryInterface.addIndex('payment_disputes', ['status', 'evidence_due_by'], {
+        transaction,
+      });
+
+      await queryInterface.addColumn(
+        'vendor_earnings',
+        'auction_id',
+        {
+          type: Sequelize.INTEGER,
+          allowNull: true,
+          references: { model: 'auctions', key: 'id' },
+          onDelete: 'SET NULL',
+        },
+        { transaction },
+      );
+      await queryInterface.addIndex('vendor_earnings', ['auction_id'], { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn('vendor_earnings', 'auction_id');
+    await queryInterface.dropTable('payment_disputes');
+    await queryInterface.dropTable('stripe_webhook_events');
+  },
+};
@@ -0,0 +1,166 @@
+/**
+ * Migration: Add Order Refunds
+ * Full, partial and per-item refunds (and vendor refund requests) with the items, shipping and
+ * tax they cover, and the order item link on vendor earnings so refunds claw back per item
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.createTable(
+        'order_refunds',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          order_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            references: { model: 'orders', key: 'id' },
+            onDelete: 'CASCADE',
+          },
+          status: {
+            type: Sequelize.STRING(20),
+            allowNull: false,
+            defaultValue: 'pending',
+          },
+          requested_by: {
+            type: Sequelize.STRING(20),
+            allowNull: false,
+            defaultValue: 'admin',
+          },
+          requested_by_user_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: { model: 'users', key: 'id' },
+            onDelete: 'SET NULL',
+          },
+          vendor_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: { model: 'vendors', key: 'id' },
+            onDelete: 'SET NULL',
+          },
+          processed_by_user_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: { model: 'users', key: 'id' },
+            onDelete: 'SET NULL',
+          },
+          reason: {
+            type: Sequelize.TEXT,
+            allowNull: true,
+          },
+          note: {
+            type: Sequelize.TEXT,
+            allowNull: true,
+          },
+          lines: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: [],
+          },
+          shipping_lines: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: [],
+          },
+          items_amount: {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: false,
+            defaultValue: 0,
+          },
+          shipping_amount: {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: false,
+            defaultValue: 0,
+          },
+          discount_amount: {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: false,
+            defaultValue: 0,
+          },
+          tax_amount: {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: false,
+            defaultValue: 0,
+          },
+          amount: {
+            type: Sequelize.DECIMAL(10, 2),
+            allowNull: false,
+          },
+          currency: {
+            type: Sequelize.STRING(3),
+            allowNull: false,
+            defaultValue: 'USD',
+          },
+          restock: {
+            type: Sequelize.BOOLEAN,
+            allowNull: false,
+            defaultValue: true,
+          },
+          stripe_refund_id: {
+            type: Sequelize.STRING(255),
+            allowNull: true,
+          },
+          reversed_earnings: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: [],
+          },
+          failure_reason: {
+            type: Sequelize.TEXT,
+            allowNull: true,
+          },
+          processed_at: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('order_refunds', ['order_id'], { transaction });
+      await queryInterface.addIndex('order_refunds', ['status'], { transaction });
+
+      await queryInterface.addColumn(
+        'vendor_earnings',
+        'order_item_id',
+        {
+          type: Sequelize.INTEGER,
+          allowNull: true,
+          references: { model: 'order_items', key: 'id' },
+          onDelete: 'SET NULL',
+        },
+        { transaction },
+      );
+      await queryInterface.addIndex('vendor_earnings', ['order_item_id'], { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn('vendor_earnings', 'order_item_id');
+    await queryInterface.dropTable('order_refunds');
+  },
+};
@@ -0,0 +1,210 @@
+/**
+ * Migration: Add Import Mapping Templates
+ * Saved CSV column mappings and value transforms for bulk book imports, seeded with shared
+ * templates for AbeBooks, Biblio and WooCommerce exports
+ */
+
+'use strict';
+
+// Dealer condition grades → listing conditions
+const CONDITION_SYNONYMS = {
+  'as new': 'like-new',
+  fine: 'like-new',
+  f: 'like-new',
+  'near fine': 'very-good',
+  nf: 'very-good',
+  'very good+': 'very-good',
+  'very good +': 'very-good',
+  vg: 'very-good',
+  'vg+': 'very-good',
+  'good+': 'good',
+  'good +': 'good',
+  g: 'good',
+  'reading copy': 'acceptable',
+};
+
+const SHARED_TEMPLATES = [
+  {
+    name: 'AbeBooks inventory export',
+    source: 'AbeBooks',
+    description: 'HomeBase / AbeBooks inventory file saved as CSV',
+    mappings: {
+      VendorListingID: 'sku',
+      Title: 'title',
+      Author: 'author',
+      Illustrator: null,
+      Price: 'price',
+      Quantity: 'quantity',
+      ISBN: 'isbn',
+      Publisher: 'publisher',
+      PubDate: 'publicationYear',
+      Edition: 'edition',
+      Binding: 'binding',
+      BookCondition: 'condition',
+      JacketCondition: null,
+      Signed: 'isSigned',
+      Description: 'description',
+      Keywords: 'keywords',
+      Subject: 'category',
+      Language: 'language',
+    },
+    transforms: { valueMaps: { condition: CONDITION_SYNONYMS } },
+  },
+  {
+    name: 'Biblio inventory export',
+    source: 'Biblio',
+    description: 'Biblio bookseller inventory download',
+    mappings: {
+      SKU: 'sku',
+      Title: 'title',
+      Author: 'author',
+      Price: 'price',
+      Quantity: 'quantity',
+      ISBN: 'isbn',
+      Publisher: 'publisher',
+      'Publication Date': 'publicationYear',
+      Edition: 'edition',
+      Binding: 'binding',
+      Condition: 'condition',
+      'Dust Jacket': null,
+      Signed: 'isSigned',
+      Description: 'description',
+      Keywords: 'keywords',
+      Category: 'category',
+      'Image URL': 'images',
+    },
+    transforms: { valueMaps: { condition: CONDITION_SYNONYMS } },
+  },
+  {
+    name: 'WooCommerce product export',
+    source: 'WooCommerce',
+    description: 'Products → Export from a WooCommerce store',
+    mappings: {
+      ID: 'wpPostId',
+      Type: null,
+      SKU: 'sku',
+      Name: 'title',
+      Published: 'status',
+      'Short description': 'shortDescription',
+      Description: 'description',
+      'In stock?': null,
+      Stock: 'quantity',
+      'Weight (lbs)': 'weight',
+      'Sale price': null,
+      'Regular price': 'price',
+      Categories: 'category',
+      Tags: 'keywords',
+      Images: 'images',
+    },
+    transforms: {
+      valueMaps: { status: { 1: 'published', 0: 'draft', '-1': 'draft' } },
+    },
+  },
+];
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.createTable(
+        'import_mapping_templates',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          vendor_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: { model: 'vendors', key: 'id' },
+            onDelete: 'CASCADE',
+          },
+          created_by_user_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: { model: 'users', key: 'id' },
+            onDelete: 'SET NULL',
+          },
+          name: {
+            type: Sequelize.STRING(120),
+            allowNull: false,
+          },
+          description: {
+            type: Sequelize.STRING(500),
+            allowNull: true,
+          },
+          source: {
+            type: Sequelize.STRING(60),
+            allowNull: true,
+          },
+          headers: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: [],
+          },
+          mappings: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: {},
+          },
+          transforms: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: {},
+          },
+          usage_count: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+          },
+          last_used_at: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('import_mapping_templates', ['vendor_id'], { transaction });
+
+      const now = new Date();
+      await queryInterface.bulkInsert(
+        'import_mapping_templates',
+        SHARED_TEMPLATES.map((template) => ({
+          vendor_id: null,
+          name: template.name,
+          description: template.description,
+          source: template.source,
+          headers: JSON.stringify(Object.keys(template.mappings)),
+          mappings: JSON.stringify(template.mappings),
+          transforms: JSON.stringify(template.transforms),
+          usage_count: 0,
+          created_at: now,
+          updated_at: now,
+        })),
+        { transaction },
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable('import_mapping_templates');
+  },
+};
@@ -0,0 +1,186 @@
+/**
+ * Migration: Add Import Batches
+ * Records committed CSV imports and a snapshot of each book they touched, for rollback
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.createTable(
+        'import_batches',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          import_id: {
+            type: Sequelize.STRING(64),
+            allowNull: false,
+          },
+          vendor_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            references: { model: 'vendors', key: 'id' },
+            onDelete: 'CASCADE',
+          },
+          user_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: { model: 'users', key: 'id' },
+            onDelete: 'SET NULL',
+          },
+          file_name: {
+            type: Sequelize.STRING(255),
+            allowNull: true,
+          },
+          mode: {
+            type: Sequelize.STRING(20),
+            allowNull: false,
+          },
+          match_strategy: {
+            type: Sequelize.STRING(20),
+            allowNull: false,
+          },
+          sparse: {
+            type: Sequelize.BOOLEAN,
+            allowNull: false,
+            defaultValue: false,
+          },
+          status: {
+            type: Sequelize.STRING(20),
+            allowNull: false,
+            defaultValue: 'running',
+          },
+          created_count: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+          },
+          updated_count: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+          },
+          unchanged_count: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+          },
+          skipped_count: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+          },
+          failed_count: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+          },
+          archived_count: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+          },
+          failures: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: [],
+          },
+          completed_at: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          rolled_back_at: {
+            type: Sequelize.DATE,
+            allowNull: true,
+          },
+          rolled_back_by_user_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: { model: 'users', key: 'id' },
+            onDelete: 'SET NULL',
+          },
+          rollback_result: {
+            type: Sequelize.JSONB,
+            allowNull: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+          updated_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('import_batches', ['vendor_id'], { transaction });
+      await queryInterface.addIndex('import_batches', ['import_id'], { transaction });
+
+      await queryInterface.createTable(
+        'import_batch_items',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          batch_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            references: { model: 'import_batches', key: 'id' },
+            onDelete: 'CASCADE',
+          },
+          book_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+          },
+          row_index: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+          },
+          action: {
+            type: Sequelize.STRING(20),
+            allowNull: false,
+          },
+          before: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+            defaultValue: {},
+          },
+          media_before: {
+            type: Sequelize.JSONB,
+            allowNull: true,
+          },
+          created_at: {
+            allowNull: false,
+            type: Sequelize.DATE,
+            defaultValue: Sequelize.literal('NOW()'),
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('import_batch_items', ['batch_id'], { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable('import_batch_items');
+    await queryInterface.dropTable('import_batches');
+  },
+};
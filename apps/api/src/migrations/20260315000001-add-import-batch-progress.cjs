@@ -0,0 +1,116 @@
+/**
+ * Migration: Add Import Batch Progress
+ * Imports now run as chunked background jobs: batches keep the options and progress needed to
+ * resume, and each valid row is persisted with its outcome for progress and result reports
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.addColumn(
+        'import_batches',
+        'default_status',
+        { type: Sequelize.STRING(20), allowNull: false, defaultValue: 'draft' },
+        { transaction },
+      );
+      await queryInterface.addColumn(
+        'import_batches',
+        'mapped_fields',
+        { type: Sequelize.JSONB, allowNull: false, defaultValue: [] },
+        { transaction },
+      );
+      await queryInterface.addColumn(
+        'import_batches',
+        'total_rows',
+        { type: Sequelize.INTEGER, allowNull: false, defaultValue: 0 },
+        { transaction },
+      );
+      await queryInterface.addColumn(
+        'import_batches',
+        'processed_rows',
+        { type: Sequelize.INTEGER, allowNull: false, defaultValue: 0 },
+        { transaction },
+      );
+      await queryInterface.addColumn(
+        'import_batches',
+        'started_at',
+        { type: Sequelize.DATE, allowNull: true },
+        { transaction },
+      );
+      await queryInterface.addColumn(
+        'import_batches',
+        'last_error',
+        { type: Sequelize.TEXT, allowNull: true },
+        { transaction },
+      );
+
+      await queryInterface.createTable(
+        'import_batch_rows',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          batch_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            references: { model: 'import_batches', key: 'id' },
+            onDelete: 'CASCADE',
+          },
+          row_index: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+          },
+          data: {
+            type: Sequelize.JSONB,
+            allowNull: false,
+          },
+          status: {
+            type: Sequelize.STRING(20),
+            allowNull: false,
+            defaultValue: 'pending',
+          },
+          book_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+          },
+          message: {
+            type: Sequelize.TEXT,
+            allowNull: true,
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('import_batch_rows', ['batch_id', 'row_index'], {
+        unique: true,
+        transaction,
+      });
+      await queryInterface.addIndex('import_batch_rows', ['batch_id', 'status'], { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.dropTable('import_batch_rows');
+    for (const column of [
+      'last_error',
+      'started_at',
+      'processed_rows',
+      'total_rows',
+      'mapped_fields',
+      'default_status',
+    ]) {
+      await queryInterface.removeColumn('import_batches', column);
+    }
+  },
+};
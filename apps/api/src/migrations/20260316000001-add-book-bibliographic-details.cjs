@@ -0,0 +1,20 @@
+/**
+ * Migration: Add Book Bibliographic Details
+ * Structured rare-book details (first printing, dust jacket, signature or inscription, points of
+ * issue, provenance and limitation) that buyers filter on
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    await queryInterface.addColumn('books', 'bibliographic_details', {
+      type: Sequelize.JSONB,
+      allowNull: true,
+    });
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn('books', 'bibliographic_details');
+  },
+};
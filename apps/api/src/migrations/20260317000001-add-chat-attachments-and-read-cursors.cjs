@@ -0,0 +1,89 @@
+/**
+ * Migration: Add Chat Attachments and Read Cursors
+ * Image/PDF attachments on messages, each participant's last read message per conversation, and
+ * a full-text index for searching message content
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.addColumn(
+        'messages',
+        'attachments',
+        {
+          type: Sequelize.JSONB,
+          allowNull: false,
+          defaultValue: [],
+        },
+        { transaction },
+      );
+
+      await queryInterface.createTable(
+        'conversation_read_cursors',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            autoIncrement: true,
+            primaryKey: true,
+          },
+          conversation_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            references: { model: 'conversations', key: 'id' },
+            onDelete: 'CASCADE',
+          },
+          user_id: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            references: { model: 'users', key: 'id' },
+            onDelete: 'CASCADE',
+          },
+          last_read_message_id: {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+          },
+          last_read_at: {
+            type: Sequelize.DATE,
+            allowNull: false,
+          },
+          created_at: {
+            type: Sequelize.DATE,
+            allowNull: false,
+            defaultValue: Sequelize.NOW,
+          },
+          updated_at: {
+            type: Sequelize.DATE,
+            allowNull: false,
+            defaultValue: Sequelize.NOW,
+          },
+        },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('conversation_read_cursors', ['conversation_id', 'user_id'], {
+        unique: true,
+        transaction,
+      });
+
+      await queryInterface.sequelize.query(
+        `CREATE INDEX messages_content_search_idx ON messages USING GIN (to_tsvector('english', content))`,
+        { transaction },
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.sequelize.query('DROP INDEX IF EXISTS messages_content_search_idx');
+    await queryInterface.dropTable('conversation_read_cursors');
+    await queryInterface.removeColumn('messages', 'attachments');
+  },
+};
@@ -0,0 +1,121 @@
+/**
+ * Migration: Add Item-Anchored Conversations
+ * Conversations about a specific book or product, custom offers made inside them (with counter
+ * offers linked to the offer they answer) and structured offer messages in the thread
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    // ALTER TYPE ... ADD VALUE cannot run inside a transaction block
+    await queryInterface.sequelize.query(
+      `ALTER TYPE "enum_custom_offers_status" ADD VALUE IF NOT EXISTS 'countered'`,
+    );
+
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.addColumn(
+        'conversations',
+        'item_type',
+        { type: Sequelize.STRING(20), allowNull: true },
+        { transaction },
+      );
+      await queryInterface.addColumn(
+        'conversations',
+        'item_id',
+        { type: Sequelize.INTEGER, allowNull: true },
+        { transaction },
+      );
+
+      // One general thread per pair of users, plus one per item they discuss
+      await queryInterface.removeIndex('conversations', ['user1_id', 'user2_id'], { transaction });
+      await queryInterface.addIndex('conversations', ['user1_id', 'user2_id'], {
+        name: 'conversations_users_general_unique',
+        unique: true,
+        where: { item_id: null },
+        transaction,
+      });
+      await queryInterface.addIndex(
+        'conversations',
+        ['user1_id', 'user2_id', 'item_type', 'item_id'],
+        {
+          name: 'conversations_users_item_unique',
+          unique: true,
+          where: { item_id: { [Sequelize.Op.ne]: null } },
+          transaction,
+        },
+      );
+
+      await queryInterface.addColumn(
+        'custom_offers',
+        'conversation_id',
+        {
+          type: Sequelize.INTEGER,
+          allowNull: true,
+          references: { model: 'conversations', key: 'id' },
+          onDelete: 'SET NULL',
+        },
+        { transaction },
+      );
+      await queryInterface.addColumn(
+        'custom_offers',
+        'counter_of_id',
+        {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: { model: 'custom_offers', key: 'id' },
+          onDelete: 'SET NULL',
+        },
+        { transaction },
+      );
+
+      await queryInterface.addColumn(
+        'messages',
+        'kind',
+        { type: Sequelize.STRING(20), allowNull: false, defaultValue: 'text' },
+        { transaction },
+      );
+      await queryInterface.addColumn(
+        'messages',
+        'offer_id',
+        {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: { model: 'custom_offers', key: 'id' },
+          onDelete: 'SET NULL',
+        },
+        { transaction },
+      );
+      await queryInterface.addColumn(
+        'messages',
+        'offer_event',
+        { type: Sequelize.STRING(20), allowNull: true },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('custom_offers', ['conversation_id'], { transaction });
+      await queryInterface.addIndex('messages', ['offer_id'], { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeColumn('messages', 'offer_event');
+    await queryInterface.removeColumn('messages', 'offer_id');
+    await queryInterface.removeColumn('messages', 'kind');
+    await queryInterface.removeColumn('custom_offers', 'counter_of_id');
+    await queryInterface.removeColumn('custom_offers', 'conversation_id');
+    await queryInterface.removeIndex('conversations', 'conversations_users_item_unique');
+    await queryInterface.removeIndex('conversations', 'conversations_users_general_unique');
+    await queryInterface.removeColumn('conversations', 'item_id');
+    await queryInterface.removeColumn('conversations', 'item_type');
+    await queryInterface.addIndex('conversations', ['user1_id', 'user2_id'], { unique: true });
+    // Postgres cannot drop an enum value; 'countered' stays in enum_custom_offers_status
+  },
+};
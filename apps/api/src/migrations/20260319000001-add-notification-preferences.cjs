@@ -0,0 +1,51 @@
+/**
+ * Migration: Add Notification Preferences
+ * Per-user channel choices for each notification type, and per-notification delivery records so
+ * a notification sent only by email or SMS is kept out of the in-app inbox
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.addColumn(
+        'users',
+        'notification_preferences',
+        { type: Sequelize.JSONB, allowNull: false, defaultValue: {} },
+        { transaction },
+      );
+
+      await queryInterface.addColumn(
+        'notifications',
+        'in_app',
+        { type: Sequelize.BOOLEAN, allowNull: false, defaultValue: true },
+        { transaction },
+      );
+      await queryInterface.addColumn(
+        'notifications',
+        'deliveries',
+        { type: Sequelize.JSONB, allowNull: false, defaultValue: {} },
+        { transaction },
+      );
+
+      await queryInterface.addIndex('notifications', ['user_id', 'in_app', 'is_read'], {
+        transaction,
+      });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeIndex('notifications', ['user_id', 'in_app', 'is_read']);
+    await queryInterface.removeColumn('notifications', 'deliveries');
+    await queryInterface.removeColumn('notifications', 'in_app');
+    await queryInterface.removeColumn('users', 'notification_preferences');
+  },
+};
@@ -0,0 +1,51 @@
+/**
+ * Migration: Add Notification Digests
+ * A default email frequency and quiet hours per user, and the time a notification's held-back
+ * email is due in the recipient's digest
+ */
+
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.addColumn(
+        'users',
+        'notification_digest',
+        { type: Sequelize.STRING(10), allowNull: true },
+        { transaction },
+      );
+      await queryInterface.addColumn(
+        'users',
+        'quiet_hours',
+        { type: Sequelize.JSONB, allowNull: true },
+        { transaction },
+      );
+
+      await queryInterface.addColumn(
+        'notifications',
+        'digest_at',
+        { type: Sequelize.DATE, allowNull: true },
+        { transaction },
+      );
+      await queryInterface.addIndex('notifications', ['digest_at'], {
+        where: { digest_at: { [Sequelize.Op.ne]: null } },
+        transaction,
+      });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    await queryInterface.removeIndex('notifications', ['digest_at']);
+    await queryInterface.removeColumn('notifications', 'digest_at');
+    await queryInterface.removeColumn('users', 'quiet_hours');
+    await queryInterface.removeColumn('users', 'notification_digest');
+  },
+};
@@ -60,6 +60,12 @@ export default (sequelize, DataTypes) => {
         field: 'reserve_price',
         comment: 'Minimum price required to win auction',
       },
+      bidIncrement: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+        field: 'bid_increment',
+        comment: 'Fixed bid increment; NULL uses the default tiered increments',
+      },
       bidCount: {
         type: DataTypes.INTEGER,
         allowNull: true,
@@ -86,6 +92,38 @@ export default (sequelize, DataTypes) => {
         allowNull: false,
         field: 'end_date',
       },
+      originalEndDate: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'original_end_date',
+        comment: 'Scheduled end before any soft-close extensions',
+      },
+      softCloseWindowMinutes: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'soft_close_window_minutes',
+        comment:
+          'Bids in the final N minutes extend the auction (0 = disabled, NULL = vendor default)',
+      },
+      softCloseExtensionMinutes: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'soft_close_extension_minutes',
+        comment: 'Minutes added to end_date per soft-close extension',
+      },
+      softCloseMaxExtensionMinutes: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'soft_close_max_extension_minutes',
+        comment: 'Cap on total extension past the original end date',
+      },
+      extensionCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'extension_count',
+        comment: 'Number of soft-close extensions applied',
+      },
       status: {
         type: DataTypes.STRING(20),
         allowNull: false,
@@ -229,6 +267,12 @@ export default (sequelize, DataTypes) => {
         as: 'winRecord',
       });
     }
+    if (models.AuctionEvent) {
+      Auction.hasMany(models.AuctionEvent, {
+        foreignKey: 'auctionId',
+        as: 'events',
+      });
+    }
   };
 
   // Helper method to get the auctionable item (Book or Product)
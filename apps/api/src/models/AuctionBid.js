@@ -35,7 +35,7 @@ export default (sequelize, DataTypes) => {
       maxBidAmount: {
         type: DataTypes.DECIMAL(10, 2),
         allowNull: true,
-        comment: 'Maximum auto-bid amount',
+        comment: 'Hidden maximum for proxy bidding - never exposed to other users',
       },
       status: {
         type: DataTypes.STRING(20),
@@ -56,6 +56,7 @@ export default (sequelize, DataTypes) => {
         { fields: ['auction_id'] },
         { fields: ['user_id'] },
         { fields: ['auction_id', 'user_id'] },
+        { fields: ['auction_id', 'status'] },
         { fields: ['created_at'] },
       ],
     },
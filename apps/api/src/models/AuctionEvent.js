@@ -0,0 +1,54 @@
+/**
+ * Auction Event Model
+ * Append-only history of auction lifecycle events (soft-close extensions, endings)
+ */
+
+export default (sequelize, DataTypes) => {
+  const AuctionEvent = sequelize.define(
+    'AuctionEvent',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      auctionId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'auction_id',
+        references: { model: 'auctions', key: 'id' },
+      },
+      eventType: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        field: 'event_type',
+        comment: 'extended, ended',
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'user_id',
+        references: { model: 'users', key: 'id' },
+        comment: 'User whose action triggered the event, if any',
+      },
+      data: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+    },
+    {
+      tableName: 'auction_events',
+      timestamps: true,
+      updatedAt: false,
+      underscored: true,
+      indexes: [{ fields: ['auction_id', 'created_at'] }],
+    },
+  );
+
+  AuctionEvent.associate = (models) => {
+    AuctionEvent.belongsTo(models.Auction, { foreignKey: 'auctionId', as: 'auction' });
+    AuctionEvent.belongsTo(models.User, { foreignKey: 'userId', as: 'user' });
+  };
+
+  return AuctionEvent;
+};
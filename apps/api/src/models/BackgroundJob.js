@@ -0,0 +1,103 @@
+/**
+ * Background Job Model
+ * One run of a named job in the persistent queue. Recurring jobs queue their next run when
+ * a run finishes; runners claim due rows with row locks so replicas never run the same row.
+ */
+
+export default (sequelize, DataTypes) => {
+  const BackgroundJob = sequelize.define(
+    'BackgroundJob',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      name: {
+        type: DataTypes.STRING(100),
+        allowNull: false,
+      },
+      payload: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {},
+      },
+      status: {
+        type: DataTypes.ENUM('pending', 'running', 'completed', 'failed'),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      uniqueKey: {
+        type: DataTypes.STRING(150),
+        allowNull: true,
+        field: 'unique_key',
+        comment: 'At most one pending/running job per key',
+      },
+      runAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'run_at',
+      },
+      attempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      maxAttempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 3,
+        field: 'max_attempts',
+      },
+      lockedBy: {
+        type: DataTypes.STRING(100),
+        allowNull: true,
+        field: 'locked_by',
+        comment: 'Runner (host:pid) holding the lease',
+      },
+      lockedUntil: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'locked_until',
+        comment: 'Lease expiry; a running job past it is reclaimed',
+      },
+      startedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'started_at',
+      },
+      finishedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'finished_at',
+      },
+      result: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'last_error',
+      },
+    },
+    {
+      tableName: 'background_jobs',
+      timestamps: true,
+      underscored: true,
+      indexes: [
+        { fields: ['status', 'run_at'] },
+        { fields: ['name', 'created_at'] },
+        {
+          fields: ['unique_key'],
+          unique: true,
+          where: { status: ['pending', 'running'] },
+          name: 'background_jobs_active_unique_key',
+        },
+      ],
+    },
+  );
+
+  return BackgroundJob;
+};
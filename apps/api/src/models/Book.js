@@ -69,6 +69,18 @@ export default (sequelize, DataTypes) => {
         field: 'track_quantity',
         comment: 'Whether to track inventory quantity for this book',
       },
+      shippingWeight: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+        field: 'shipping_weight',
+        comment: 'Packed weight in pounds for weight-based shipping rates',
+      },
+      shippingOverride: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+        field: 'shipping_override',
+        comment: "Fixed per-unit shipping charge; bypasses the vendor's shipping profile rates",
+      },
       condition: {
         type: DataTypes.STRING,
         allowNull: false,
@@ -127,9 +139,10 @@ export default (sequelize, DataTypes) => {
         comment: 'Maps to description field',
       },
       currency: {
-        type: DataTypes.VIRTUAL,
+        type: DataTypes.STRING(3),
+        allowNull: false,
         defaultValue: 'USD',
-        comment: 'Currency (not in schema)',
+        comment: 'Listing currency; orders settle in this currency',
       },
       binding: {
         type: DataTypes.VIRTUAL,
@@ -137,9 +150,9 @@ export default (sequelize, DataTypes) => {
         comment: 'Binding type (not in schema)',
       },
       publicationYear: {
-        type: DataTypes.VIRTUAL,
+        type: DataTypes.INTEGER,
         allowNull: true,
-        comment: 'Publication year (not in schema)',
+        field: 'publication_year',
       },
       edition: {
         type: DataTypes.VIRTUAL,
@@ -156,6 +169,13 @@ export default (sequelize, DataTypes) => {
         defaultValue: false,
         comment: 'Signed status (not in schema)',
       },
+      bibliographicDetails: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+        field: 'bibliographic_details',
+        comment:
+          'Rare-book details: first printing, dust jacket, signature or inscription, points of issue, provenance and limitation',
+      },
       stockQuantity: {
         type: DataTypes.VIRTUAL,
         get() {
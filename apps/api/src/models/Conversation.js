@@ -1,8 +1,9 @@
 /**
  * Conversation Model
- * Messaging conversations between two users
+ * Messaging conversations between two users, either general or about one book/product
+ * (itemType/itemId), which the thread shows as a card and custom offers are made on
  *
- * DB columns: id, userId1, userId2, lastMessageAt, createdAt, updatedAt
+ * DB columns: id, userId1, userId2, lastMessageAt, item_type, item_id, createdAt, updatedAt
  */
 export default (sequelize, DataTypes) => {
   const Conversation = sequelize.define(
@@ -20,6 +21,13 @@ export default (sequelize, DataTypes) => {
         references: { model: 'users', key: 'id' },
       },
       lastMessageAt: { type: DataTypes.DATE, allowNull: true },
+      itemType: {
+        type: DataTypes.STRING(20),
+        allowNull: true,
+        field: 'item_type',
+        comment: 'book or product the conversation is about; null for general threads',
+      },
+      itemId: { type: DataTypes.INTEGER, allowNull: true, field: 'item_id' },
     },
     { tableName: 'conversations', timestamps: true },
   );
@@ -30,6 +38,12 @@ export default (sequelize, DataTypes) => {
       Conversation.belongsTo(models.User, { foreignKey: 'userId2', as: 'user2' });
     }
     Conversation.hasMany(models.Message, { foreignKey: 'conversationId', as: 'messages' });
+    if (models.ConversationReadCursor) {
+      Conversation.hasMany(models.ConversationReadCursor, {
+        foreignKey: 'conversationId',
+        as: 'readCursors',
+      });
+    }
   };
   return Conversation;
 };
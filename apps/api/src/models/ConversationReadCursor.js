@@ -0,0 +1,56 @@
+/**
+ * Conversation Read Cursor Model
+ * How far one participant has read a conversation. lastReadAt is the creation time of the last
+ * message they read, so every message up to it counts as read and later ones as unread.
+ */
+
+export default (sequelize, DataTypes) => {
+  const ConversationReadCursor = sequelize.define(
+    'ConversationReadCursor',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      conversationId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'conversation_id',
+        references: { model: 'conversations', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'user_id',
+        references: { model: 'users', key: 'id' },
+      },
+      lastReadMessageId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'last_read_message_id',
+      },
+      lastReadAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'last_read_at',
+      },
+    },
+    {
+      tableName: 'conversation_read_cursors',
+      timestamps: true,
+      underscored: true,
+      indexes: [{ unique: true, fields: ['conversation_id', 'user_id'] }],
+    },
+  );
+
+  ConversationReadCursor.associate = (models) => {
+    ConversationReadCursor.belongsTo(models.Conversation, {
+      foreignKey: 'conversationId',
+      as: 'conversation',
+    });
+  };
+
+  return ConversationReadCursor;
+};
@@ -56,7 +56,14 @@ export default (sequelize, DataTypes) => {
         comment: 'Optional message from vendor to user',
       },
       status: {
-        type: DataTypes.ENUM('pending', 'accepted', 'declined', 'expired', 'cancelled'),
+        type: DataTypes.ENUM(
+          'pending',
+          'accepted',
+          'declined',
+          'expired',
+          'cancelled',
+          'countered',
+        ),
         defaultValue: 'pending',
         allowNull: false,
         comment: 'Status of the offer',
@@ -77,6 +84,20 @@ export default (sequelize, DataTypes) => {
         defaultValue: 'vendor',
         comment: 'Who initiated the offer: vendor or buyer',
       },
+      conversationId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'conversations',
+          key: 'id',
+        },
+        comment: 'Item conversation the offer is negotiated in',
+      },
+      counterOfId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        comment: 'The offer this one counters; that offer is then countered',
+      },
     },
     {
       tableName: 'custom_offers',
@@ -101,6 +122,16 @@ export default (sequelize, DataTypes) => {
       foreignKey: 'userId',
       as: 'user',
     });
+    CustomOffer.belongsTo(models.CustomOffer, {
+      foreignKey: 'counterOfId',
+      as: 'counterOf',
+    });
+    if (models.Conversation) {
+      CustomOffer.belongsTo(models.Conversation, {
+        foreignKey: 'conversationId',
+        as: 'conversation',
+      });
+    }
   };
 
   return CustomOffer;
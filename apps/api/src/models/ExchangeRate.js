@@ -0,0 +1,41 @@
+/**
+ * Exchange Rate Model
+ * Admin-maintained conversion rates, quoted as units of the currency per 1 USD
+ */
+
+export default (sequelize, DataTypes) => {
+  const ExchangeRate = sequelize.define(
+    'ExchangeRate',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      currency: {
+        type: DataTypes.STRING(3),
+        allowNull: false,
+        unique: true,
+        comment: 'ISO-4217 code, e.g. EUR',
+      },
+      rate: {
+        type: DataTypes.DECIMAL(18, 8),
+        allowNull: false,
+        comment: 'Units of this currency per 1 USD',
+      },
+      isActive: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        field: 'is_active',
+      },
+    },
+    {
+      tableName: 'exchange_rates',
+      timestamps: true,
+      underscored: true,
+    },
+  );
+
+  return ExchangeRate;
+};
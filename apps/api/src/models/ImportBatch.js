@@ -0,0 +1,186 @@
+/**
+ * Import Batch Model
+ * A committed CSV import: its options, progress, outcome counts and, through its items, a
+ * snapshot of every book it created, changed or archived so the import can be rolled back.
+ * Its rows are processed in chunks by the import-batch background job.
+ *
+ * Status: queued, running, cancelling, cancelled, completed, failed, rolled_back
+ */
+
+export default (sequelize, DataTypes) => {
+  const ImportBatch = sequelize.define(
+    'ImportBatch',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      importId: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        field: 'import_id',
+        comment: 'Staging session id',
+      },
+      vendorId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'vendor_id',
+        references: { model: 'vendors', key: 'id' },
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'user_id',
+        references: { model: 'users', key: 'id' },
+      },
+      fileName: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+        field: 'file_name',
+      },
+      mode: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        comment: 'create, update, upsert or sync',
+      },
+      matchStrategy: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        field: 'match_strategy',
+      },
+      sparse: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+        comment: 'Updates wrote only the mapped columns',
+      },
+      defaultStatus: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'draft',
+        field: 'default_status',
+        comment: 'Status for rows without one',
+      },
+      mappedFields: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        field: 'mapped_fields',
+        comment: 'Target fields mapped to a CSV column, for sparse updates',
+      },
+      status: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'running',
+      },
+      totalRows: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'total_rows',
+      },
+      processedRows: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'processed_rows',
+      },
+      createdCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'created_count',
+      },
+      updatedCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'updated_count',
+      },
+      unchangedCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'unchanged_count',
+      },
+      skippedCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'skipped_count',
+      },
+      failedCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'failed_count',
+      },
+      archivedCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'archived_count',
+      },
+      failures: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        comment: '[{ rowIndex, title, error }]',
+      },
+      startedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'started_at',
+      },
+      completedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'completed_at',
+        comment: 'When the import finished or stopped after a cancel',
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'last_error',
+      },
+      rolledBackAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'rolled_back_at',
+      },
+      rolledBackByUserId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'rolled_back_by_user_id',
+        references: { model: 'users', key: 'id' },
+      },
+      rollbackResult: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+        field: 'rollback_result',
+        comment: '{ deleted, restored, skipped: [{ bookId, title, reason }] }',
+      },
+    },
+    {
+      tableName: 'import_batches',
+      timestamps: true,
+      underscored: true,
+      indexes: [{ fields: ['vendor_id'] }, { fields: ['import_id'] }],
+    },
+  );
+
+  ImportBatch.associate = (models) => {
+    if (models.Vendor) {
+      ImportBatch.belongsTo(models.Vendor, { foreignKey: 'vendorId', as: 'vendor' });
+    }
+    if (models.ImportBatchItem) {
+      ImportBatch.hasMany(models.ImportBatchItem, { foreignKey: 'batchId', as: 'items' });
+    }
+    if (models.ImportBatchRow) {
+      ImportBatch.hasMany(models.ImportBatchRow, { foreignKey: 'batchId', as: 'rows' });
+    }
+  };
+
+  return ImportBatch;
+};
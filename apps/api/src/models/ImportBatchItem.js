@@ -0,0 +1,68 @@
+/**
+ * Import Batch Item Model
+ * One book an import created, updated or archived, with the values it had before so the
+ * change can be rolled back
+ */
+
+export default (sequelize, DataTypes) => {
+  const ImportBatchItem = sequelize.define(
+    'ImportBatchItem',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      batchId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'batch_id',
+        references: { model: 'import_batches', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      bookId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'book_id',
+      },
+      rowIndex: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'row_index',
+        comment: 'CSV row; null for listings archived by a sync import',
+      },
+      action: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        comment: 'created, updated or archived',
+      },
+      before: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {},
+        comment: 'Changed book attributes as they were before the import',
+      },
+      mediaBefore: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+        field: 'media_before',
+        comment: 'Image URLs before the import, when the import replaced them',
+      },
+    },
+    {
+      tableName: 'import_batch_items',
+      timestamps: true,
+      updatedAt: false,
+      underscored: true,
+      indexes: [{ fields: ['batch_id'] }],
+    },
+  );
+
+  ImportBatchItem.associate = (models) => {
+    if (models.ImportBatch) {
+      ImportBatchItem.belongsTo(models.ImportBatch, { foreignKey: 'batchId', as: 'batch' });
+    }
+  };
+
+  return ImportBatchItem;
+};
@@ -0,0 +1,70 @@
+/**
+ * Import Batch Row Model
+ * A valid CSV row queued with an import batch. Background chunks process pending rows in
+ * order and record what happened to each, so an interrupted import resumes where it stopped.
+ *
+ * Status: pending, created, updated, unchanged, skipped, failed
+ */
+
+export default (sequelize, DataTypes) => {
+  const ImportBatchRow = sequelize.define(
+    'ImportBatchRow',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      batchId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'batch_id',
+        references: { model: 'import_batches', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      rowIndex: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'row_index',
+      },
+      data: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        comment: 'Normalized row',
+      },
+      status: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      bookId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'book_id',
+        comment: 'Book the row created or matched',
+      },
+      message: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        comment: 'Error or skip reason',
+      },
+    },
+    {
+      tableName: 'import_batch_rows',
+      timestamps: false,
+      underscored: true,
+      indexes: [
+        { unique: true, fields: ['batch_id', 'row_index'] },
+        { fields: ['batch_id', 'status'] },
+      ],
+    },
+  );
+
+  ImportBatchRow.associate = (models) => {
+    if (models.ImportBatch) {
+      ImportBatchRow.belongsTo(models.ImportBatch, { foreignKey: 'batchId', as: 'batch' });
+    }
+  };
+
+  return ImportBatchRow;
+};
@@ -0,0 +1,90 @@
+/**
+ * Import Mapping Template Model
+ * A named CSV column-mapping profile with value transforms, reused across imports from the
+ * same source. Vendor templates belong to one vendor; shared templates (vendorId null) are
+ * curated by admins for common sources such as AbeBooks, Biblio or WooCommerce exports.
+ */
+
+export default (sequelize, DataTypes) => {
+  const ImportMappingTemplate = sequelize.define(
+    'ImportMappingTemplate',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      vendorId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'vendor_id',
+        references: { model: 'vendors', key: 'id' },
+        onDelete: 'CASCADE',
+        comment: 'Owning vendor; null for shared templates',
+      },
+      createdByUserId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'created_by_user_id',
+        references: { model: 'users', key: 'id' },
+      },
+      name: {
+        type: DataTypes.STRING(120),
+        allowNull: false,
+      },
+      description: {
+        type: DataTypes.STRING(500),
+        allowNull: true,
+      },
+      source: {
+        type: DataTypes.STRING(60),
+        allowNull: true,
+        comment: 'Exporting tool, e.g. AbeBooks, Biblio, WooCommerce',
+      },
+      headers: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        comment: 'CSV columns the source exports, used to auto-select the template',
+      },
+      mappings: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {},
+        comment: '{ csvColumn: targetFieldKey | null }',
+      },
+      transforms: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {},
+        comment:
+          '{ valueMaps: { field: { raw: value } }, defaults: { field: value }, priceMultiplier }',
+      },
+      usageCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'usage_count',
+      },
+      lastUsedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'last_used_at',
+      },
+    },
+    {
+      tableName: 'import_mapping_templates',
+      timestamps: true,
+      underscored: true,
+      indexes: [{ fields: ['vendor_id'] }],
+    },
+  );
+
+  ImportMappingTemplate.associate = (models) => {
+    if (models.Vendor) {
+      ImportMappingTemplate.belongsTo(models.Vendor, { foreignKey: 'vendorId', as: 'vendor' });
+    }
+  };
+
+  return ImportMappingTemplate;
+};
@@ -15,6 +15,30 @@ export default (sequelize, DataTypes) => {
         references: { model: 'users', key: 'id' },
       },
       body: { type: DataTypes.TEXT, allowNull: false },
+      attachments: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        comment: 'Cloudinary images and PDFs: url, publicId, kind, fileName, bytes',
+      },
+      kind: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'text',
+        comment: 'text, or offer for a custom offer being made, countered or answered',
+      },
+      offerId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'offer_id',
+        references: { model: 'custom_offers', key: 'id' },
+      },
+      offerEvent: {
+        type: DataTypes.STRING(20),
+        allowNull: true,
+        field: 'offer_event',
+        comment: 'created, countered, accepted, declined, cancelled or expired',
+      },
       isRead: { type: DataTypes.BOOLEAN, defaultValue: false },
       readAt: { type: DataTypes.DATE, allowNull: true },
     },
@@ -26,6 +50,9 @@ export default (sequelize, DataTypes) => {
     if (models.User) {
       Message.belongsTo(models.User, { foreignKey: 'senderId', as: 'sender' });
     }
+    if (models.CustomOffer) {
+      Message.belongsTo(models.CustomOffer, { foreignKey: 'offerId', as: 'offer' });
+    }
   };
   return Message;
 };
@@ -38,6 +38,26 @@ export default (sequelize, DataTypes) => {
           this.setDataValue('data', value);
         },
       },
+      // False when the recipient turned the in-app channel off: the row only records deliveries
+      inApp: {
+        type: DataTypes.BOOLEAN,
+        defaultValue: true,
+        allowNull: false,
+        field: 'in_app',
+      },
+      // Outcome per channel: { email: 'sent', sms: 'off', push: 'sent' }, plus emailAttempts for a
+      // queued email whose digest failed to send
+      deliveries: {
+        type: DataTypes.JSONB,
+        defaultValue: {},
+        allowNull: false,
+      },
+      // When an email held back for a digest or quiet hours is due (deliveries.email 'queued')
+      digestAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'digest_at',
+      },
       isRead: {
         type: DataTypes.BOOLEAN,
         defaultValue: false,
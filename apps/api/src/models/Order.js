@@ -37,6 +37,14 @@ export default (sequelize, DataTypes) => {
         type: DataTypes.DECIMAL(10, 2),
         allowNull: false,
         defaultValue: 0.0,
+        comment: 'Total tax, including tax already contained in tax-inclusive prices',
+      },
+      taxLines: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+        field: 'tax_lines',
+        comment:
+          'Per-jurisdiction tax breakdown: [{ taxRateId, name, jurisdiction, rate, inclusive, taxableAmount, amount }]',
       },
       shippingCost: {
         type: DataTypes.DECIMAL(10, 2),
@@ -44,6 +52,13 @@ export default (sequelize, DataTypes) => {
         defaultValue: 0.0,
         field: 'shipping_cost',
       },
+      shippingLines: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+        field: 'shipping_lines',
+        comment:
+          'Per-vendor shipping breakdown: [{ vendorId, vendorName, amount, zoneName, freeShipping }]',
+      },
       totalAmount: {
         type: DataTypes.DECIMAL(10, 2),
         allowNull: false,
@@ -52,6 +67,14 @@ export default (sequelize, DataTypes) => {
       currency: {
         type: DataTypes.STRING(3),
         defaultValue: 'USD',
+        comment: 'Settlement currency; all order amounts are in this currency',
+      },
+      exchangeRate: {
+        type: DataTypes.DECIMAL(18, 8),
+        allowNull: false,
+        defaultValue: 1,
+        field: 'exchange_rate',
+        comment: 'Settlement currency units per 1 USD at checkout',
       },
       shippingAddress: {
         type: DataTypes.JSONB,
@@ -83,6 +106,7 @@ export default (sequelize, DataTypes) => {
         type: DataTypes.STRING(100),
         allowNull: true,
         field: 'tracking_number',
+        comment: 'Legacy single-shipment tracking; vendor tracking lives on order_shipments',
       },
       notes: {
         type: DataTypes.TEXT,
@@ -117,6 +141,12 @@ export default (sequelize, DataTypes) => {
     Order.belongsTo(models.User, { foreignKey: 'userId', as: 'user' });
     Order.hasMany(models.OrderItem, { foreignKey: 'orderId', as: 'items' });
     Order.belongsTo(models.Coupon, { foreignKey: 'couponId', as: 'coupon' });
+    if (models.OrderShipment) {
+      Order.hasMany(models.OrderShipment, { foreignKey: 'orderId', as: 'shipments' });
+    }
+    if (models.OrderRefund) {
+      Order.hasMany(models.OrderRefund, { foreignKey: 'orderId', as: 'refunds' });
+    }
   };
   return Order;
 };
@@ -23,6 +23,19 @@ export default (sequelize, DataTypes) => {
         allowNull: true,
         references: { model: 'products', key: 'id' },
       },
+      vendorId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'vendor_id',
+        references: { model: 'vendors', key: 'id' },
+      },
+      shipmentId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'shipment_id',
+        references: { model: 'order_shipments', key: 'id' },
+        comment: 'Vendor shipment (sub-order) this item ships in',
+      },
       title: {
         type: DataTypes.STRING(500),
         allowNull: true,
@@ -30,6 +43,19 @@ export default (sequelize, DataTypes) => {
       quantity: { type: DataTypes.INTEGER, defaultValue: 1 },
       price: { type: DataTypes.DECIMAL(10, 2), allowNull: false },
       subtotal: { type: DataTypes.DECIMAL(10, 2), allowNull: false },
+      taxAmount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: 'tax_amount',
+      },
+      taxLines: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+        field: 'tax_lines',
+        comment:
+          'Tax applied to this item: [{ taxRateId, name, jurisdiction, rate, inclusive, amount }]',
+      },
     },
     {
       tableName: 'order_items',
@@ -42,6 +68,9 @@ export default (sequelize, DataTypes) => {
     OrderItem.belongsTo(models.Order, { foreignKey: 'orderId', as: 'order' });
     OrderItem.belongsTo(models.Book, { foreignKey: 'bookId', as: 'book' });
     OrderItem.belongsTo(models.Product, { foreignKey: 'productId', as: 'product' });
+    if (models.OrderShipment) {
+      OrderItem.belongsTo(models.OrderShipment, { foreignKey: 'shipmentId', as: 'shipment' });
+    }
   };
   return OrderItem;
 };
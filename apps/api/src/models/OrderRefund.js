@@ -0,0 +1,163 @@
+/**
+ * Order Refund Model
+ * A full, partial or per-item refund on an order, or a vendor's request for one. Each refund
+ * records which items (and what share of each) and which shipping it covers, so later refunds
+ * know what is left and the vendor earnings clawed back can be traced.
+ *
+ * Status: requested (by a vendor, awaiting an admin), declined, pending (sent to Stripe),
+ * succeeded, failed
+ */
+
+export default (sequelize, DataTypes) => {
+  const OrderRefund = sequelize.define(
+    'OrderRefund',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      orderId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'order_id',
+        references: { model: 'orders', key: 'id' },
+      },
+      status: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      requestedBy: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'admin',
+        field: 'requested_by',
+        comment: 'admin or vendor',
+      },
+      requestedByUserId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'requested_by_user_id',
+        references: { model: 'users', key: 'id' },
+      },
+      vendorId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'vendor_id',
+        references: { model: 'vendors', key: 'id' },
+        comment: 'Vendor who requested the refund; vendor requests cover only their items',
+      },
+      processedByUserId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'processed_by_user_id',
+        references: { model: 'users', key: 'id' },
+      },
+      reason: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      note: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        comment: 'Admin note, e.g. why a vendor request was declined',
+      },
+      lines: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        comment:
+          '[{ orderItemId, vendorId, title, quantity, share, itemAmount, discountAmount, taxAmount, amount }]',
+      },
+      shippingLines: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        field: 'shipping_lines',
+        comment: '[{ vendorId, amount, discountAmount }]',
+      },
+      itemsAmount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: 'items_amount',
+      },
+      shippingAmount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: 'shipping_amount',
+      },
+      discountAmount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: 'discount_amount',
+        comment: 'Coupon discount on the refunded items and shipping, not paid back to the buyer',
+      },
+      taxAmount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: 'tax_amount',
+        comment: 'Exclusive tax refunded; tax contained in tax-inclusive prices is in itemsAmount',
+      },
+      amount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        comment: 'Amount paid back to the buyer, in the order currency',
+      },
+      currency: {
+        type: DataTypes.STRING(3),
+        allowNull: false,
+        defaultValue: 'USD',
+      },
+      restock: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        comment: 'Return refunded units to inventory',
+      },
+      stripeRefundId: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+        field: 'stripe_refund_id',
+      },
+      reversedEarnings: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        field: 'reversed_earnings',
+        comment: '[{ earningId, vendorId, amount, platformFee, netAmount, balanceField }]',
+      },
+      failureReason: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'failure_reason',
+      },
+      processedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'processed_at',
+      },
+    },
+    {
+      tableName: 'order_refunds',
+      timestamps: true,
+      underscored: true,
+      indexes: [{ fields: ['order_id'] }, { fields: ['status'] }],
+    },
+  );
+
+  OrderRefund.associate = (models) => {
+    if (models.Order) {
+      OrderRefund.belongsTo(models.Order, { foreignKey: 'orderId', as: 'order' });
+    }
+    if (models.Vendor) {
+      OrderRefund.belongsTo(models.Vendor, { foreignKey: 'vendorId', as: 'vendor' });
+    }
+  };
+
+  return OrderRefund;
+};
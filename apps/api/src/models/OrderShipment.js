@@ -0,0 +1,76 @@
+/**
+ * Order Shipment Model
+ * One vendor's part of an order (sub-order), fulfilled and tracked independently
+ */
+
+export default (sequelize, DataTypes) => {
+  const OrderShipment = sequelize.define(
+    'OrderShipment',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      orderId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'order_id',
+        references: { model: 'orders', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      vendorId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'vendor_id',
+        references: { model: 'vendors', key: 'id' },
+      },
+      status: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'pending',
+        comment: 'pending, processing, shipped, delivered, cancelled',
+      },
+      carrier: {
+        type: DataTypes.STRING(50),
+        allowNull: true,
+      },
+      trackingNumber: {
+        type: DataTypes.STRING(100),
+        allowNull: true,
+        field: 'tracking_number',
+      },
+      shippingCost: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: 'shipping_cost',
+        comment: "This vendor's shipping line from checkout",
+      },
+      shippedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'shipped_at',
+      },
+      deliveredAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'delivered_at',
+      },
+    },
+    {
+      tableName: 'order_shipments',
+      timestamps: true,
+      underscored: true,
+      indexes: [{ unique: true, fields: ['order_id', 'vendor_id'] }, { fields: ['vendor_id'] }],
+    },
+  );
+
+  OrderShipment.associate = (models) => {
+    OrderShipment.belongsTo(models.Order, { foreignKey: 'orderId', as: 'order' });
+    OrderShipment.belongsTo(models.Vendor, { foreignKey: 'vendorId', as: 'vendor' });
+    OrderShipment.hasMany(models.OrderItem, { foreignKey: 'shipmentId', as: 'items' });
+  };
+
+  return OrderShipment;
+};
@@ -0,0 +1,100 @@
+/**
+ * Payment Dispute Model
+ * A Stripe dispute (chargeback or inquiry) on an order payment. The vendor earnings for the
+ * disputed sale are frozen while it is open, released if it is won and reversed if it is lost.
+ */
+
+export default (sequelize, DataTypes) => {
+  const PaymentDispute = sequelize.define(
+    'PaymentDispute',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      stripeDisputeId: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        unique: true,
+        field: 'stripe_dispute_id',
+      },
+      stripeChargeId: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+        field: 'stripe_charge_id',
+      },
+      stripePaymentIntentId: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+        field: 'stripe_payment_intent_id',
+      },
+      orderId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'order_id',
+        references: { model: 'orders', key: 'id' },
+      },
+      amount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      currency: {
+        type: DataTypes.STRING(3),
+        allowNull: false,
+        defaultValue: 'USD',
+      },
+      reason: {
+        type: DataTypes.STRING(50),
+        allowNull: true,
+        comment: 'Stripe dispute reason, e.g. fraudulent, product_not_received',
+      },
+      status: {
+        type: DataTypes.STRING(40),
+        allowNull: false,
+        comment: 'Stripe dispute status, e.g. needs_response, under_review, won, lost',
+      },
+      evidenceDueBy: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'evidence_due_by',
+      },
+      frozenEarnings: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        field: 'frozen_earnings',
+        comment: '[{ earningId, vendorId, amount, balanceField, previousStatus }]',
+      },
+      resolution: {
+        type: DataTypes.STRING(10),
+        allowNull: true,
+        comment: 'won or lost once closed',
+      },
+      closedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'closed_at',
+      },
+      adminNotes: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'admin_notes',
+      },
+    },
+    {
+      tableName: 'payment_disputes',
+      timestamps: true,
+      underscored: true,
+      indexes: [{ fields: ['order_id'] }, { fields: ['status', 'evidence_due_by'] }],
+    },
+  );
+
+  PaymentDispute.associate = (models) => {
+    if (models.Order) {
+      PaymentDispute.belongsTo(models.Order, { foreignKey: 'orderId', as: 'order' });
+    }
+  };
+
+  return PaymentDispute;
+};
@@ -0,0 +1,213 @@
+/**
+ * Price History Model
+ * Append-only record of listing price changes, sale prices, auction hammer prices and
+ * accepted custom offers per book/product and per normalized work, behind value charts.
+ * Entries are recorded by model hooks so every code path that prices an item is covered.
+ */
+
+import { listingPriceEvents, workKeyFor } from '../services/priceHistoryEngine.js';
+
+export default (sequelize, DataTypes) => {
+  const PriceHistory = sequelize.define(
+    'PriceHistory',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      itemType: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        field: 'item_type',
+        comment: 'book or product',
+      },
+      itemId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'item_id',
+      },
+      workKey: {
+        type: DataTypes.STRING(500),
+        allowNull: true,
+        field: 'work_key',
+        comment: 'isbn:<ISBN-13> or work:<title>|<author>, shared by copies of the same work',
+      },
+      vendorId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'vendor_id',
+      },
+      eventType: {
+        type: DataTypes.STRING(30),
+        allowNull: false,
+        field: 'event_type',
+        comment: 'list_price, sale_price, auction_hammer, offer_accepted',
+      },
+      amount: {
+        type: DataTypes.DECIMAL(12, 2),
+        allowNull: false,
+      },
+      currency: {
+        type: DataTypes.STRING(3),
+        allowNull: false,
+        defaultValue: 'USD',
+      },
+      sourceId: {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+        field: 'source_id',
+        comment: 'Auction or custom offer the price came from',
+      },
+    },
+    {
+      tableName: 'price_history',
+      timestamps: true,
+      updatedAt: false,
+      underscored: true,
+      indexes: [
+        { fields: ['item_type', 'item_id', 'created_at'] },
+        { fields: ['work_key', 'created_at'] },
+      ],
+    },
+  );
+
+  /**
+   * Record the price events a listing create/update produced
+   * @param {string} itemType - 'book' | 'product'
+   * @param {Object} item - Book or Product instance
+   * @param {Object|null} previous - { price, salePrice } before the update; null on create
+   */
+  PriceHistory.recordListing = async function (itemType, item, previous, options = {}) {
+    const events = listingPriceEvents(previous, item);
+    if (events.length === 0) return;
+
+    await PriceHistory.bulkCreate(
+      events.map((event) => ({
+        ...event,
+        itemType,
+        itemId: item.id,
+        workKey: workKeyFor(item),
+        vendorId: item.vendorId || null,
+        currency: item.currency || 'USD',
+      })),
+      { transaction: options.transaction },
+    );
+  };
+
+  /**
+   * Record a realized price (auction hammer or accepted offer) for a book or product
+   */
+  PriceHistory.recordRealized = async function (
+    itemType,
+    itemId,
+    eventType,
+    amount,
+    sourceId,
+    options = {},
+  ) {
+    const model = itemType === 'product' ? sequelize.models.Product : sequelize.models.Book;
+    const item = model ? await model.findByPk(itemId, { transaction: options.transaction }) : null;
+    if (!item) return;
+
+    await PriceHistory.create(
+      {
+        itemType,
+        itemId: item.id,
+        workKey: workKeyFor(item),
+        vendorId: item.vendorId || null,
+        eventType,
+        amount,
+        currency: item.currency || 'USD',
+        sourceId: sourceId ? String(sourceId) : null,
+      },
+      { transaction: options.transaction },
+    );
+  };
+
+  PriceHistory.associate = (models) => {
+    // Failures are logged rather than thrown so recording history never blocks a sale or edit.
+    // Inside the caller's transaction the write runs in a savepoint: a failed statement would
+    // otherwise abort the whole transaction.
+    const safely = (label, record) => async (instance, options) => {
+      try {
+        if (options.transaction) {
+          await sequelize.transaction({ transaction: options.transaction }, (savepoint) =>
+            record(instance, { ...options, transaction: savepoint }),
+          );
+        } else {
+          await record(instance, options);
+        }
+      } catch (error) {
+        console.error(`Failed to record price history for ${label}:`, error.message);
+      }
+    };
+
+    for (const [itemType, model] of [
+      ['book', models.Book],
+      ['product', models.Product],
+    ]) {
+      if (!model) continue;
+      model.addHook(
+        'afterCreate',
+        'priceHistory',
+        safely(itemType, (item, options) =>
+          PriceHistory.recordListing(itemType, item, null, options),
+        ),
+      );
+      model.addHook(
+        'afterUpdate',
+        'priceHistory',
+        safely(itemType, (item, options) =>
+          PriceHistory.recordListing(
+            itemType,
+            item,
+            { price: item.previous('price'), salePrice: item.previous('salePrice') },
+            options,
+          ),
+        ),
+      );
+    }
+
+    if (models.AuctionWin && models.Auction) {
+      models.AuctionWin.addHook(
+        'afterCreate',
+        'priceHistory',
+        safely('auction', async (win, options) => {
+          const auction = await models.Auction.findByPk(win.auctionId, {
+            transaction: options.transaction,
+          });
+          if (!auction) return;
+          await PriceHistory.recordRealized(
+            auction.auctionableType,
+            auction.auctionableId || auction.bookId,
+            'auction_hammer',
+            win.winningAmount,
+            auction.id,
+            options,
+          );
+        }),
+      );
+    }
+
+    if (models.CustomOffer) {
+      models.CustomOffer.addHook(
+        'afterUpdate',
+        'priceHistory',
+        safely('offer', async (offer, options) => {
+          if (!offer.changed('status') || offer.status !== 'accepted') return;
+          await PriceHistory.recordRealized(
+            offer.itemType,
+            offer.itemId,
+            'offer_accepted',
+            offer.offerPrice,
+            offer.id,
+            options,
+          );
+        }),
+      );
+    }
+  };
+
+  return PriceHistory;
+};
@@ -58,6 +58,12 @@ export default (sequelize, DataTypes) => {
         field: 'sale_price',
         comment: 'Discounted/sale price if item is on sale',
       },
+      currency: {
+        type: DataTypes.STRING(3),
+        allowNull: false,
+        defaultValue: 'USD',
+        comment: 'Listing currency; orders settle in this currency',
+      },
       compareAtPrice: {
         type: DataTypes.DECIMAL(10, 2),
         allowNull: true,
@@ -118,6 +124,12 @@ export default (sequelize, DataTypes) => {
         defaultValue: true,
         comment: 'Whether product requires shipping',
       },
+      shippingOverride: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+        field: 'shipping_override',
+        comment: "Fixed per-unit shipping charge; bypasses the vendor's shipping profile rates",
+      },
       taxable: {
         type: DataTypes.BOOLEAN,
         allowNull: false,
@@ -74,6 +74,12 @@ module.exports = (sequelize, DataTypes) => {
       foreignKey: 'userId',
       as: 'user',
     });
+    if (models.RareBookRequestMatch) {
+      RareBookRequest.hasMany(models.RareBookRequestMatch, {
+        foreignKey: 'requestId',
+        as: 'matches',
+      });
+    }
   };
 
   return RareBookRequest;
@@ -0,0 +1,69 @@
+/**
+ * Rare Book Request Match Model
+ * A book suggested for an open rare book request, scored by the request matcher
+ */
+
+export default (sequelize, DataTypes) => {
+  const RareBookRequestMatch = sequelize.define(
+    'RareBookRequestMatch',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      requestId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'request_id',
+      },
+      bookId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'book_id',
+        references: { model: 'books', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      vendorId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'vendor_id',
+      },
+      confidence: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        comment: 'Match confidence from 0 to 100',
+      },
+      reasons: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        comment: 'Matched criteria: isbn, title, author, price',
+      },
+    },
+    {
+      tableName: 'rare_book_request_matches',
+      timestamps: true,
+      underscored: true,
+      indexes: [
+        { fields: ['request_id', 'book_id'], unique: true },
+        { fields: ['vendor_id'] },
+        { fields: ['book_id'] },
+      ],
+    },
+  );
+
+  RareBookRequestMatch.associate = (models) => {
+    if (models.RareBookRequest) {
+      RareBookRequestMatch.belongsTo(models.RareBookRequest, {
+        foreignKey: 'requestId',
+        as: 'request',
+      });
+    }
+    if (models.Book) {
+      RareBookRequestMatch.belongsTo(models.Book, { foreignKey: 'bookId', as: 'book' });
+    }
+  };
+
+  return RareBookRequestMatch;
+};
@@ -0,0 +1,64 @@
+/**
+ * Saved Search Model
+ * A user's search query and filters, alerted when a matching listing is indexed
+ */
+
+export default (sequelize, DataTypes) => {
+  const SavedSearch = sequelize.define(
+    'SavedSearch',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'user_id',
+        references: { model: 'users', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      name: {
+        type: DataTypes.STRING(120),
+        allowNull: false,
+      },
+      query: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        defaultValue: '',
+      },
+      filters: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {},
+        comment: '{ type, author, category, minPrice, maxPrice, condition, signed }',
+      },
+      alertsEnabled: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        field: 'alerts_enabled',
+      },
+      lastAlertedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'last_alerted_at',
+      },
+    },
+    {
+      tableName: 'saved_searches',
+      timestamps: true,
+      underscored: true,
+      indexes: [{ fields: ['user_id'] }, { fields: ['alerts_enabled'] }],
+    },
+  );
+
+  SavedSearch.associate = (models) => {
+    if (models.User) {
+      SavedSearch.belongsTo(models.User, { foreignKey: 'userId', as: 'user' });
+    }
+  };
+
+  return SavedSearch;
+};
@@ -0,0 +1,50 @@
+/**
+ * Shipping Profile Model
+ * A vendor's destination-based shipping rules; rates live on the profile's zones
+ */
+
+export default (sequelize, DataTypes) => {
+  const ShippingProfile = sequelize.define(
+    'ShippingProfile',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      vendorId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        unique: true,
+        field: 'vendor_id',
+        references: { model: 'vendors', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      name: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        defaultValue: 'Standard Shipping',
+      },
+      rateType: {
+        type: DataTypes.ENUM('flat', 'weight', 'item'),
+        allowNull: false,
+        defaultValue: 'flat',
+        field: 'rate_type',
+        comment:
+          'flat: base rate per order; weight: base + per kg; item: base + per additional item',
+      },
+    },
+    {
+      tableName: 'shipping_profiles',
+      timestamps: true,
+      underscored: true,
+    },
+  );
+
+  ShippingProfile.associate = (models) => {
+    ShippingProfile.belongsTo(models.Vendor, { foreignKey: 'vendorId', as: 'vendor' });
+    ShippingProfile.hasMany(models.ShippingZone, { foreignKey: 'profileId', as: 'zones' });
+  };
+
+  return ShippingProfile;
+};
@@ -0,0 +1,77 @@
+/**
+ * Shipping Zone Model
+ * Destination group within a shipping profile, matched by country and optional region
+ */
+
+export default (sequelize, DataTypes) => {
+  const ShippingZone = sequelize.define(
+    'ShippingZone',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      profileId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        field: 'profile_id',
+        references: { model: 'shipping_profiles', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      name: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+      },
+      countries: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        comment: 'ISO alpha-2 country codes; "*" matches the rest of the world',
+      },
+      regions: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        comment: 'Optional state/region codes; empty matches the whole country',
+      },
+      baseRate: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: 'base_rate',
+      },
+      additionalRate: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+        field: 'additional_rate',
+        comment: 'Per kg (weight profiles) or per additional item (item profiles)',
+      },
+      freeShippingThreshold: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+        field: 'free_shipping_threshold',
+        comment: 'Vendor subtotal at or above which the zone rate is waived',
+      },
+      sortOrder: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'sort_order',
+      },
+    },
+    {
+      tableName: 'shipping_zones',
+      timestamps: true,
+      underscored: true,
+      indexes: [{ fields: ['profile_id'] }],
+    },
+  );
+
+  ShippingZone.associate = (models) => {
+    ShippingZone.belongsTo(models.ShippingProfile, { foreignKey: 'profileId', as: 'profile' });
+  };
+
+  return ShippingZone;
+};
@@ -0,0 +1,56 @@
+/**
+ * Stripe Webhook Event Model
+ * Stripe events already handled, keyed on the Stripe event id so redelivered events are
+ * acknowledged without being processed twice
+ */
+
+export default (sequelize, DataTypes) => {
+  const StripeWebhookEvent = sequelize.define(
+    'StripeWebhookEvent',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      eventId: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        unique: true,
+        field: 'event_id',
+      },
+      type: {
+        type: DataTypes.STRING(100),
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: 'processing',
+        comment: 'processing, processed, or failed (reprocessed when Stripe retries)',
+      },
+      attempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 1,
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        field: 'last_error',
+      },
+      processedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'processed_at',
+      },
+    },
+    {
+      tableName: 'stripe_webhook_events',
+      timestamps: true,
+      underscored: true,
+    },
+  );
+
+  return StripeWebhookEvent;
+};
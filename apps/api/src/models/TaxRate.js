@@ -0,0 +1,70 @@
+/**
+ * Tax Rate Model
+ * Admin-managed tax rate for a jurisdiction (country, optional state, optional postal prefix)
+ */
+
+export default (sequelize, DataTypes) => {
+  const TaxRate = sequelize.define(
+    'TaxRate',
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      name: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        comment: 'Label shown on tax lines, e.g. "CA State Tax" or "VAT"',
+      },
+      country: {
+        type: DataTypes.STRING(2),
+        allowNull: false,
+        comment: 'ISO 3166-1 alpha-2 country code',
+      },
+      state: {
+        type: DataTypes.STRING(50),
+        allowNull: true,
+        comment: 'State/province code; null applies to the whole country',
+      },
+      postalPrefix: {
+        type: DataTypes.STRING(20),
+        allowNull: true,
+        field: 'postal_prefix',
+        comment: 'Postal code prefix for local rates; null applies to the whole state/country',
+      },
+      rate: {
+        type: DataTypes.DECIMAL(6, 5),
+        allowNull: false,
+        comment: 'Decimal rate (0.0725 = 7.25%)',
+      },
+      inclusive: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+        comment: 'Listed prices already include this tax (EU VAT)',
+      },
+      exemptCategories: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        field: 'exempt_categories',
+        comment: 'Category slugs/names exempt from this rate',
+      },
+      isActive: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+        field: 'is_active',
+      },
+    },
+    {
+      tableName: 'tax_rates',
+      timestamps: true,
+      underscored: true,
+      indexes: [{ fields: ['country', 'state'] }],
+    },
+  );
+
+  return TaxRate;
+};
@@ -197,6 +197,26 @@ export default (sequelize, DataTypes) => {
         field: 'marketing_emails',
         comment: 'Marketing emails preference',
       },
+      notificationPreferences: {
+        type: DataTypes.JSONB,
+        defaultValue: {},
+        allowNull: false,
+        field: 'notification_preferences',
+        comment: 'Channel choices per notification type, e.g. { ORDER_NEW_VENDOR: { sms: false } }',
+      },
+      notificationDigest: {
+        type: DataTypes.STRING(10),
+        allowNull: true,
+        field: 'notification_digest',
+        comment: 'Default email frequency (instant, daily, weekly); null uses each type default',
+      },
+      quietHours: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+        field: 'quiet_hours',
+        comment:
+          "Local hours without notification email or SMS, e.g. { start: '22:00', end: '07:00' }",
+      },
       // Stripe fields
       stripeCustomerId: {
         type: DataTypes.STRING(255),
@@ -417,6 +437,12 @@ export default (sequelize, DataTypes) => {
       foreignKey: 'userId',
       as: 'reservations',
     });
+    if (models.SavedSearch) {
+      User.hasMany(models.SavedSearch, {
+        foreignKey: 'userId',
+        as: 'savedSearches',
+      });
+    }
 
     // Notifications
     User.hasMany(models.Notification, {
@@ -246,6 +246,26 @@ export default (sequelize, DataTypes) => {
         comment: 'PayPal email address for manual payouts',
       },
 
+      // Auction Soft Close Defaults (NULL = platform default)
+      softCloseWindowMinutes: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'soft_close_window_minutes',
+        comment: 'Default soft-close window for new auctions',
+      },
+      softCloseExtensionMinutes: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'soft_close_extension_minutes',
+        comment: 'Default soft-close extension for new auctions',
+      },
+      softCloseMaxExtensionMinutes: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'soft_close_max_extension_minutes',
+        comment: 'Default soft-close extension cap for new auctions',
+      },
+
       // Display Order
       menuOrder: {
         type: DataTypes.INTEGER,
@@ -330,6 +350,13 @@ export default (sequelize, DataTypes) => {
         as: 'withdrawals',
       });
     }
+
+    if (models.ShippingProfile) {
+      Vendor.hasOne(models.ShippingProfile, {
+        foreignKey: 'vendorId',
+        as: 'shippingProfile',
+      });
+    }
   };
 
   return Vendor;
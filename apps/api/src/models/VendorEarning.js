@@ -6,7 +6,11 @@
  * IMPORTANT: This model matches the actual database schema (underscored: true)
  * Database columns: id, vendor_id, order_id, amount, platform_fee, net_amount,
  * status, paid_at, payout_id, description, created_at, updated_at,
- * commission_rate_bps, transaction_type, completed_at
+ * commission_rate_bps, transaction_type, completed_at, auction_id, order_item_id
+ *
+ * Status: pending, available/completed, paid; disputed while frozen by a payment dispute,
+ * reversed when a dispute is lost and refunded when the sale is refunded. A partial refund
+ * reduces the amounts instead.
  */
 
 export default (sequelize, DataTypes) => {
@@ -30,6 +34,19 @@ export default (sequelize, DataTypes) => {
         references: { model: 'orders', key: 'id' },
         comment: 'Order associated with this earning',
       },
+      orderItemId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        field: 'order_item_id',
+        references: { model: 'order_items', key: 'id' },
+        comment: 'Order item this earning is for, so refunds can claw back per item',
+      },
+      auctionId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: { model: 'auctions', key: 'id' },
+        comment: 'Auction associated with this earning (auction sales)',
+      },
       // Financial Breakdown
       amount: {
         type: DataTypes.DECIMAL(10, 2),
@@ -92,7 +109,13 @@ export default (sequelize, DataTypes) => {
       tableName: 'vendor_earnings',
       timestamps: true,
       underscored: true,
-      indexes: [{ fields: ['vendor_id'] }, { fields: ['order_id'] }, { fields: ['status'] }],
+      indexes: [
+        { fields: ['vendor_id'] },
+        { fields: ['order_id'] },
+        { fields: ['order_item_id'] },
+        { fields: ['auction_id'] },
+        { fields: ['status'] },
+      ],
     },
   );
 
@@ -63,8 +63,10 @@ const allowedModels = [
   'Auction.js',
   'AuctionBid.js',
   'AuctionWin.js',
+  'AuctionEvent.js',
   'Conversation.js',
   'Message.js',
+  'ConversationReadCursor.js',
   'Notification.js',
   'Category.js',
   'Tag.js',
@@ -83,6 +85,22 @@ const allowedModels = [
   'Coupon.js',
   'CouponRedemption.js',
   'PasswordResetToken.js',
+  'ShippingProfile.js',
+  'ShippingZone.js',
+  'TaxRate.js',
+  'OrderShipment.js',
+  'ExchangeRate.js',
+  'SavedSearch.js',
+  'RareBookRequestMatch.js',
+  'PriceHistory.js',
+  'BackgroundJob.js',
+  'StripeWebhookEvent.js',
+  'PaymentDispute.js',
+  'OrderRefund.js',
+  'ImportMappingTemplate.js',
+  'ImportBatch.js',
+  'ImportBatchItem.js',
+  'ImportBatchRow.js',
 ];
 
 // Load all model files using dynamic import (they use module.exports, which works with import)
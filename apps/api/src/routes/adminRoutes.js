@@ -14,6 +14,12 @@ import * as adminEmailsController from '../controllers/admin/adminEmailsControll
 import * as adminProductsController from '../controllers/admin/adminProductsController.js';
 import * as adminCouponsController from '../controllers/admin/adminCouponsController.js';
 import * as adminCommissionsController from '../controllers/admin/adminCommissionsController.js';
+import * as adminTaxRatesController from '../controllers/admin/adminTaxRatesController.js';
+import * as adminExchangeRatesController from '../controllers/admin/adminExchangeRatesController.js';
+import * as adminJobsController from '../controllers/admin/adminJobsController.js';
+import * as adminDisputesController from '../controllers/admin/adminDisputesController.js';
+import * as exportController from '../controllers/exportController.js';
+import * as isbnController from '../controllers/isbnController.js';
 import { createAdminImportRouter } from './importRoutes.js';
 
 const router = express.Router();
@@ -85,7 +91,14 @@ router.get('/orders', adminOrdersController.listAll);
 router.get('/orders/stats', adminOrdersController.getOrderStats);
 router.get('/orders/:id', adminOrdersController.getOne);
 router.put('/orders/:id/status', adminOrdersController.updateStatus);
+router.put('/orders/:id/shipments/:shipmentId', adminOrdersController.updateShipment);
+router.get('/orders/:id/refunds', adminOrdersController.getRefunds);
 router.post('/orders/:id/refund', adminOrdersController.refundOrder);
+router.post('/orders/:id/refunds/:refundId/decline', adminOrdersController.declineRefund);
+
+// Payment Disputes
+router.get('/disputes', adminDisputesController.listAll);
+router.patch('/disputes/:id/notes', adminDisputesController.updateNotes);
 
 router.get('/commissions', adminCommissionsController.listCommissions);
 
@@ -101,6 +114,12 @@ router.post('/memberships/subscriptions/:id/cancel', adminMembershipsController.
 // CSV Import
 router.use('/imports/books', createAdminImportRouter());
 
+// Catalog Export
+router.get('/exports/books', exportController.adminExportCatalog);
+
+// ISBN Lookup
+router.get('/isbn/:isbn', isbnController.lookupIsbnMetadata);
+
 router.get('/products', adminProductsController.listAll);
 router.post('/products', adminProductsController.createProduct);
 router.get('/products/stats', adminProductsController.getProductStats);
@@ -130,4 +149,22 @@ router.post('/coupons', adminCouponsController.create);
 router.put('/coupons/:id', adminCouponsController.update);
 router.delete('/coupons/:id', adminCouponsController.deleteCoupon);
 
+// Tax Rates
+router.get('/tax-rates', adminTaxRatesController.listAll);
+router.post('/tax-rates', adminTaxRatesController.create);
+router.put('/tax-rates/:id', adminTaxRatesController.update);
+router.delete('/tax-rates/:id', adminTaxRatesController.deleteTaxRate);
+
+// Exchange Rates
+router.get('/exchange-rates', adminExchangeRatesController.listAll);
+router.post('/exchange-rates', adminExchangeRatesController.create);
+router.put('/exchange-rates/:id', adminExchangeRatesController.update);
+router.delete('/exchange-rates/:id', adminExchangeRatesController.deleteExchangeRate);
+
+// Background Jobs
+router.get('/jobs', adminJobsController.listJobs);
+router.get('/jobs/runs', adminJobsController.listRuns);
+router.post('/jobs/runs/:id/retry', adminJobsController.retryRun);
+router.post('/jobs/:name/run', adminJobsController.runNow);
+
 export default router;
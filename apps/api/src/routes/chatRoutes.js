@@ -0,0 +1,60 @@
+/**
+ * Chat Routes
+ * Attachments, read receipts, search and in-chat offers for buyer and vendor chat
+ */
+
+import express from 'express';
+import multer from 'multer';
+import * as chatController from '../controllers/chatController.js';
+import { verifyToken } from '../controllers/authController.js';
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  attachmentKind,
+} from '../services/chatMessageRules.js';
+
+const router = express.Router();
+
+// Configure multer for chat attachments (memory storage, images and PDFs only)
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: MAX_ATTACHMENTS_PER_MESSAGE },
+  fileFilter: (_req, file, cb) => {
+    if (attachmentKind(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only JPG, PNG, WebP and PDF files can be attached'), false);
+    }
+  },
+});
+
+// Answer upload errors in the API's JSON shape instead of the default error handler
+const uploadAttachments = (req, res, next) => {
+  upload.array('files', MAX_ATTACHMENTS_PER_MESSAGE)(req, res, (error) => {
+    if (!error) return next();
+
+    const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+    return res.status(tooLarge ? 413 : 400).json({
+      success: false,
+      message: tooLarge
+        ? `Files can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)}MB`
+        : error.code === 'LIMIT_FILE_COUNT' || error.code === 'LIMIT_UNEXPECTED_FILE'
+          ? `At most ${MAX_ATTACHMENTS_PER_MESSAGE} files can be attached`
+          : error.message,
+    });
+  });
+};
+
+router.use(verifyToken);
+
+router.get('/search', chatController.searchMessages);
+router.post(
+  '/conversations/:conversationId/attachments',
+  uploadAttachments,
+  chatController.sendAttachments,
+);
+router.post('/conversations/:conversationId/read', chatController.markRead);
+router.post('/conversations/:conversationId/offers', chatController.makeOffer);
+router.post('/offers/:offerId/respond', chatController.respondToOffer);
+
+export default router;
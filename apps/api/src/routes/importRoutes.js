@@ -7,10 +7,10 @@ import express from 'express';
 import multer from 'multer';
 import * as importController from '../controllers/importController.js';
 
-// Configure multer for CSV upload (memory storage, 10MB limit)
+// Configure multer for CSV upload (memory storage, 50MB limit)
 const upload = multer({
   storage: multer.memoryStorage(),
-  limits: { fileSize: 10 * 1024 * 1024 },
+  limits: { fileSize: 50 * 1024 * 1024 },
   fileFilter: (req, file, cb) => {
     const allowedMimes = ['text/csv', 'application/vnd.ms-excel', 'text/plain', 'application/csv'];
     if (allowedMimes.includes(file.mimetype) || file.originalname.endsWith('.csv')) {
@@ -25,13 +25,25 @@ const upload = multer({
 export function createVendorImportRouter() {
   const router = express.Router();
   router.get('/target-fields', importController.getTargetFields);
+  router.get('/templates', importController.vendorGetTemplates);
+  router.post('/templates', importController.vendorCreateTemplate);
+  router.put('/templates/:templateId', importController.vendorUpdateTemplate);
+  router.delete('/templates/:templateId', importController.vendorDeleteTemplate);
   router.post('/stage', upload.single('file'), importController.vendorStageImport);
   router.post('/remap', importController.remapImport);
+  router.post('/preview', importController.vendorPreviewImport);
   router.post('/commit', importController.vendorCommitImport);
+  router.get('/batches', importController.vendorGetBatches);
+  router.get('/batches/:batchId', importController.vendorGetBatch);
+  router.get('/batches/:batchId/report', importController.vendorDownloadBatchReport);
+  router.post('/batches/:batchId/cancel', importController.vendorCancelBatch);
+  router.post('/batches/:batchId/rollback', importController.vendorRollbackBatch);
   router.get('/:importId/status', importController.getImportStatus);
   router.get('/:importId/rows', importController.getRows);
   router.get('/:importId/errors-csv', importController.downloadErrorCSV);
   router.put('/:importId/rows/:rowIndex', importController.updateStagedRow);
+  router.post('/:importId/isbn-lookup', importController.lookupIsbns);
+  router.post('/:importId/suggestions', importController.resolveSuggestions);
   return router;
 }
 
@@ -39,12 +51,24 @@ export function createVendorImportRouter() {
 export function createAdminImportRouter() {
   const router = express.Router();
   router.get('/target-fields', importController.getTargetFields);
+  router.get('/templates', importController.adminGetTemplates);
+  router.post('/templates', importController.adminCreateTemplate);
+  router.put('/templates/:templateId', importController.adminUpdateTemplate);
+  router.delete('/templates/:templateId', importController.adminDeleteTemplate);
   router.post('/stage', upload.single('file'), importController.adminStageImport);
   router.post('/remap', importController.remapImport);
+  router.post('/preview', importController.adminPreviewImport);
   router.post('/commit', importController.adminCommitImport);
+  router.get('/batches', importController.adminGetBatches);
+  router.get('/batches/:batchId', importController.adminGetBatch);
+  router.get('/batches/:batchId/report', importController.adminDownloadBatchReport);
+  router.post('/batches/:batchId/cancel', importController.adminCancelBatch);
+  router.post('/batches/:batchId/rollback', importController.adminRollbackBatch);
   router.get('/:importId/status', importController.getImportStatus);
   router.get('/:importId/rows', importController.getRows);
   router.get('/:importId/errors-csv', importController.downloadErrorCSV);
   router.put('/:importId/rows/:rowIndex', importController.updateStagedRow);
+  router.post('/:importId/isbn-lookup', importController.lookupIsbns);
+  router.post('/:importId/suggestions', importController.resolveSuggestions);
   return router;
 }
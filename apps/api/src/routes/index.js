@@ -7,10 +7,12 @@ import cloudinaryRoutes from './cloudinaryRoutes.js';
 import accountRoutes from './accountRoutes.js';
 import vendorRoutes from './vendorRoutes.js';
 import uploadRoutes from './uploadRoutes.js';
+import chatRoutes from './chatRoutes.js';
 import * as cartController from '../controllers/cartController.js';
 import * as ordersController from '../controllers/ordersController.js';
 import * as reservationsController from '../controllers/reservationsController.js';
 import * as wishlistController from '../controllers/wishlistController.js';
+import * as savedSearchesController from '../controllers/savedSearchesController.js';
 import * as conversationsController from '../controllers/conversationsController.js';
 import * as customerChatController from '../controllers/customerChatController.js';
 import * as membershipsController from '../controllers/membershipsController.js';
@@ -26,6 +28,10 @@ import * as notificationsController from '../controllers/notificationsController
 import * as usersController from '../controllers/usersController.js';
 import * as stripeController from '../controllers/stripeController.js';
 import * as couponsController from '../controllers/couponsController.js';
+import * as shippingController from '../controllers/shippingController.js';
+import * as taxController from '../controllers/taxController.js';
+import * as currencyController from '../controllers/currencyController.js';
+import * as priceHistoryController from '../controllers/priceHistoryController.js';
 import { verifyToken } from '../controllers/authController.js';
 
 const router = express.Router();
@@ -39,6 +45,7 @@ router.use('/cloudinary', cloudinaryRoutes);
 router.use('/account', accountRoutes);
 router.use('/vendor', vendorRoutes);
 router.use('/upload', uploadRoutes);
+router.use('/chat', chatRoutes);
 
 // Stripe routes
 router.post('/stripe/setup-intent', authMiddleware, stripeController.createSetupIntent);
@@ -54,6 +61,15 @@ router.post('/coupons/validate', authMiddleware, couponsController.validate);
 router.post('/coupons/apply', authMiddleware, couponsController.apply);
 router.delete('/coupons/remove', authMiddleware, couponsController.remove);
 
+// Shipping quote (checkout display; orders recompute server-side)
+router.post('/shipping/quote', shippingController.quote);
+
+// Tax quote (checkout display; orders recompute server-side)
+router.post('/tax/quote', taxController.quote);
+
+// Exchange rates (display conversion; orders settle in the listing currency)
+router.get('/currency/rates', currencyController.getRates);
+
 router.get('/orders', authMiddleware, ordersController.getOrders);
 router.get('/orders/:id', authMiddleware, ordersController.getOrderById);
 router.post('/orders', authMiddleware, ordersController.createOrder);
@@ -67,6 +83,17 @@ router.get('/wishlist', authMiddleware, wishlistController.getWishlist);
 router.post('/wishlist', authMiddleware, wishlistController.addToWishlist);
 router.delete('/wishlist/:itemId', authMiddleware, wishlistController.removeFromWishlist);
 
+router.get('/saved-searches', authMiddleware, savedSearchesController.getSavedSearches);
+router.post('/saved-searches', authMiddleware, savedSearchesController.createSavedSearch);
+router.put('/saved-searches/:id', authMiddleware, savedSearchesController.updateSavedSearch);
+router.delete('/saved-searches/:id', authMiddleware, savedSearchesController.deleteSavedSearch);
+
+router.get(
+  '/price-history/:itemType/:itemId',
+  authMiddleware,
+  priceHistoryController.getValueChart,
+);
+
 router.get('/conversations', authMiddleware, conversationsController.getConversations);
 router.post('/conversations', authMiddleware, conversationsController.createConversation);
 router.get(
@@ -111,6 +138,7 @@ router.post(
 router.get('/auctions', auctionsController.listAuctions);
 router.get('/auctions/active', auctionsController.getActiveAuctionForProduct);
 router.get('/auctions/:id', auctionsController.getAuctionById);
+router.get('/auctions/:id/events', auctionsController.getAuctionEvents);
 router.post('/auctions', authMiddleware, auctionsController.createAuction);
 router.patch('/auctions/:id', authMiddleware, auctionsController.updateAuction);
 router.post('/auctions/:id/close', authMiddleware, auctionsController.closeAuction);
@@ -8,10 +8,34 @@ import express from 'express';
 const router = express.Router();
 import db from '../models/index.js';
 import { getPayPalAccessToken, isPayPalConfigured, getPayPalBaseUrl } from '../config/paypal.js';
-import { sendTemplatedEmail } from '../services/emailService.js';
+import { dispatchNotification } from '../services/notificationDispatch.js';
 
 const { VendorPayout, Vendor, User } = db;
 
+/**
+ * Tell the payout's vendor about a status change, in-app and by email
+ */
+async function notifyPayout(payout, template, title, message, variables = {}) {
+  const user = payout.vendor?.user;
+  if (!user) return;
+
+  const amount = parseFloat(payout.amount).toFixed(2);
+  await dispatchNotification(user, 'VENDOR_PAYOUT_UPDATE', {
+    title,
+    message,
+    data: { entityType: 'payout', entityId: String(payout.id), metadata: { amount } },
+    email: {
+      template,
+      variables: {
+        firstName: user.firstName || user.name,
+        shopName: payout.vendor.shopName,
+        amount,
+        ...variables,
+      },
+    },
+  });
+}
+
 /**
  * PayPal Webhook endpoint
  * POST /api/webhooks/paypal
@@ -180,16 +204,14 @@ async function handlePayoutItemSucceeded(event) {
       },
     );
 
-    // Send success email
-    const user = payout.vendor?.user;
-    if (user?.email) {
-      await sendTemplatedEmail('paypal-payout-succeeded', user.email, {
-        firstName: user.firstName || user.name,
-        shopName: payout.vendor.shopName,
-        amount: parseFloat(payout.amount).toFixed(2),
-        transactionId,
-      }).catch((err) => console.error('Email send error:', err));
-    }
+    // Notify vendor
+    await notifyPayout(
+      payout,
+      'paypal-payout-succeeded',
+      'PayPal Payout Sent',
+      `Your payout of $${parseFloat(payout.amount).toFixed(2)} was sent to PayPal.`,
+      { transactionId },
+    );
   } catch (error) {
     console.error('Handle payout succeeded error:', error);
   }
@@ -248,16 +270,14 @@ async function handlePayoutItemFailed(event) {
       balanceAvailable: parseFloat(payout.vendor.balanceAvailable) + parseFloat(payout.amount),
     });
 
-    // Send failure email
-    const user = payout.vendor?.user;
-    if (user?.email) {
-      await sendTemplatedEmail('paypal-payout-failed', user.email, {
-        firstName: user.firstName || user.name,
-        shopName: payout.vendor.shopName,
-        amount: parseFloat(payout.amount).toFixed(2),
-        reason: failureReason,
-      }).catch((err) => console.error('Email send error:', err));
-    }
+    // Notify vendor
+    await notifyPayout(
+      payout,
+      'paypal-payout-failed',
+      'PayPal Payout Failed',
+      `Your PayPal payout failed: ${failureReason}. The amount is back in your balance.`,
+      { reason: failureReason },
+    );
   } catch (error) {
     console.error('Handle payout failed error:', error);
   }
@@ -297,14 +317,12 @@ async function handlePayoutItemBlocked(event) {
     });
 
     // Notify vendor
-    const user = payout.vendor?.user;
-    if (user?.email) {
-      await sendTemplatedEmail('paypal-payout-blocked', user.email, {
-        firstName: user.firstName || user.name,
-        shopName: payout.vendor.shopName,
-        amount: parseFloat(payout.amount).toFixed(2),
-      }).catch((err) => console.error('Email send error:', err));
-    }
+    await notifyPayout(
+      payout,
+      'paypal-payout-blocked',
+      'PayPal Payout Blocked',
+      'Your PayPal payout was blocked by PayPal compliance.',
+    );
   } catch (error) {
     console.error('Handle payout blocked error:', error);
   }
@@ -348,14 +366,12 @@ async function handlePayoutItemReturned(event) {
     });
 
     // Notify vendor
-    const user = payout.vendor?.user;
-    if (user?.email) {
-      await sendTemplatedEmail('paypal-payout-returned', user.email, {
-        firstName: user.firstName || user.name,
-        shopName: payout.vendor.shopName,
-        amount: parseFloat(payout.amount).toFixed(2),
-      }).catch((err) => console.error('Email send error:', err));
-    }
+    await notifyPayout(
+      payout,
+      'paypal-payout-returned',
+      'PayPal Payout Returned',
+      'Your PayPal payout was returned. Please check your PayPal account details.',
+    );
   } catch (error) {
     console.error('Handle payout returned error:', error);
   }
@@ -4,28 +4,41 @@
  */
 
 import express from 'express';
-import { search } from '../utils/meilisearch.js';
+import { facetedSearch, search, searchFacetValues } from '../utils/meilisearch.js';
+import {
+  bibliographicFilters,
+  bibliographicSearchFilters,
+} from '../services/bibliographicDetails.js';
+import { SEARCH_FACETS, parseFacetSelections } from '../services/searchFacets.js';
 
 const router = express.Router();
 
+// The search modal sends singular types
+const INDEX_TYPES = { book: 'books', product: 'products' };
+
 /**
  * GET /api/search
  * Search books and products
+ * Facets (category, condition, vendor, price, century, signed, auction) take repeated params
+ * and match any selected value; the response includes facet counts for the current search
  */
 router.get('/', async (req, res) => {
   try {
     const {
       q = '',
-      type = 'all',
+      author,
       limit = 20,
       offset = 0,
-      category,
       minPrice,
       maxPrice,
-      condition,
       status = 'published',
       sort,
     } = req.query;
+    const type = INDEX_TYPES[req.query.type] || req.query.type || 'all';
+    const selections = parseFacetSelections(req.query);
+
+    // Meilisearch has no per-field query, so author terms join the search terms
+    const query = [q, author].filter(Boolean).join(' ');
 
     // Build filter string
     const filters = [];
@@ -34,13 +47,8 @@ router.get('/', async (req, res) => {
       filters.push(`status = "${status}"`);
     }
 
-    if (category) {
-      filters.push(`category = "${category}"`);
-    }
-
-    if (condition) {
-      filters.push(`condition = "${condition}"`);
-    }
+    // Rare-book details (books only)
+    filters.push(...bibliographicSearchFilters(bibliographicFilters(req.query)));
 
     if (minPrice || maxPrice) {
       if (minPrice && maxPrice) {
@@ -61,18 +69,19 @@ router.get('/', async (req, res) => {
 
     let results;
     try {
-      results = await search(q, {
+      results = await facetedSearch(query, {
         type,
         limit: parseInt(limit),
         offset: parseInt(offset),
-        filters: filters.join(' AND '),
+        filters,
+        selections,
         sort: sortArray,
       });
     } catch (searchError) {
       // If filters fail (e.g. attributes not configured as filterable), retry without filters
       if (searchError.message && searchError.message.includes('not filterable')) {
         console.warn('Search filter failed, retrying without filters:', searchError.message);
-        results = await search(q, {
+        results = await search(query, {
           type,
           limit: parseInt(limit),
           offset: parseInt(offset),
@@ -103,6 +112,36 @@ router.get('/', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/search/facets/:facet?facetQuery=
+ * Typo-tolerant search within a facet's values, for facets with too many values to list
+ */
+router.get('/facets/:facet', async (req, res) => {
+  try {
+    const { facet } = req.params;
+    const { facetQuery = '', q = '' } = req.query;
+    const type = INDEX_TYPES[req.query.type] || req.query.type || 'all';
+
+    if (!SEARCH_FACETS[facet]) {
+      return res.status(400).json({ success: false, message: `Unknown facet: ${facet}` });
+    }
+
+    const values = await searchFacetValues(facet, String(facetQuery), { type, q: String(q) });
+
+    res.json({
+      success: true,
+      data: values,
+    });
+  } catch (error) {
+    console.error('Facet search error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Facet search failed',
+      error: error.message,
+    });
+  }
+});
+
 /**
  * GET /api/search/suggestions
  * Get search suggestions (autocomplete)
@@ -7,6 +7,8 @@ const router = express.Router();
 
 router.get('/profile', usersController.getUserProfile);
 router.get('/me', verifyToken, usersController.getCurrentUser);
+router.get('/notification-preferences', verifyToken, usersController.getNotificationPreferences);
+router.put('/notification-preferences', verifyToken, usersController.updateNotificationPreferences);
 
 // Custom offers routes for users (must be before /:id routes)
 router.get('/offers', verifyToken, customOffersController.getUserOffers);
@@ -10,6 +10,9 @@ import * as vendorSettingsController from '../controllers/vendorSettingsControll
 import * as vendorWithdrawalController from '../controllers/vendorWithdrawalController.js';
 import * as customOffersController from '../controllers/customOffersController.js';
 import * as vendorCouponsController from '../controllers/vendorCouponsController.js';
+import * as vendorShippingController from '../controllers/vendorShippingController.js';
+import * as exportController from '../controllers/exportController.js';
+import * as isbnController from '../controllers/isbnController.js';
 import { verifyToken } from '../controllers/authController.js';
 import { vendorAuth } from '../middleware/vendorAuth.js';
 import { createVendorImportRouter } from './importRoutes.js';
@@ -90,9 +93,20 @@ router.get('/settings', vendorAuth, vendorSettingsController.getSettings);
 router.put('/settings', vendorAuth, vendorSettingsController.updateSettings);
 router.put('/settings/payout', vendorAuth, vendorSettingsController.updatePayoutSettings);
 
+// Shipping Profile
+router.get('/shipping-profile', vendorAuth, vendorShippingController.getShippingProfile);
+router.put('/shipping-profile', vendorAuth, vendorShippingController.saveShippingProfile);
+router.delete('/shipping-profile', vendorAuth, vendorShippingController.deleteShippingProfile);
+
 // CSV Import
 router.use('/imports/books', vendorAuth, createVendorImportRouter());
 
+// Catalog Export
+router.get('/exports/books', vendorAuth, exportController.vendorExportCatalog);
+
+// ISBN Lookup
+router.get('/isbn/:isbn', vendorAuth, isbnController.lookupIsbnMetadata);
+
 // Custom Offers
 router.get('/offers', vendorAuth, customOffersController.getVendorOffers);
 router.get('/offers/search-users', vendorAuth, customOffersController.searchUsers);
@@ -1,8 +1,18 @@
 import express from 'express';
 const router = express.Router();
 import db from '../models/index.js';
-import { sendTemplatedEmail, sendSms, SMS_TEMPLATES } from '../services/emailService.js';
+import { SMS_TEMPLATES } from '../services/emailService.js';
+import { dispatchNotification } from '../services/notificationDispatch.js';
 import Stripe from 'stripe';
+import {
+  beginWebhookEvent,
+  finishWebhookEvent,
+  handlePaymentIntentSucceeded,
+  handlePaymentIntentFailed,
+  handleChargeRefunded,
+  handleDisputeCreated,
+  handleDisputeUpdated,
+} from '../services/paymentReconciliationService.js';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
 const {
@@ -15,57 +25,6 @@ const {
   sequelize,
 } = db;
 
-// Helper function to get user email from Sequelize
-async function getUserEmail(userId) {
-  try {
-    const user = await User.findByPk(userId, {
-      attributes: ['email'],
-    });
-    return user?.email || null;
-  } catch (error) {
-    return null;
-  }
-}
-
-// Helper: check if user is eligible for SMS
-async function canSendSms(userId) {
-  try {
-    const user = await User.findByPk(userId);
-    if (!user || !user.phoneNumber) return null;
-
-    const metadata = user.metadata || {};
-    const eligible =
-      metadata.smsVerified === true && metadata.smsOptIn === true && metadata.smsStop !== true;
-
-    if (!eligible) return null;
-
-    // Check rate limit: max 3 SMS per day
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const smsCount = await Notification.count({
-      where: {
-        userId,
-        type: { [sequelize.Op.like]: 'SMS_%' },
-        createdAt: { [sequelize.Op.gte]: today },
-      },
-    });
-
-    if (smsCount >= 3) {
-      console.log(`[SMS] Rate limit reached for user ${userId}: ${smsCount}/3 today`);
-      return null;
-    }
-
-    return {
-      phoneNumber: user.phoneNumber,
-      user,
-    };
-  } catch (error) {
-    console.error('[SMS] Error checking eligibility:', error);
-    return null;
-  }
-}
-
 // Raw body needed for Stripe signature verification
 router.post('/stripe', express.raw({ type: 'application/json' }), async (req, res) => {
   const sig = req.headers['stripe-signature'];
@@ -77,6 +36,18 @@ router.post('/stripe', express.raw({ type: 'application/json' }), async (req, re
     return res.status(400).send(`Webhook Error: ${err.message}`);
   }
 
+  // Stripe redelivers events; each event id is applied once
+  let eventRecord;
+  try {
+    eventRecord = await beginWebhookEvent(event);
+  } catch (error) {
+    console.error('Failed to record webhook event:', error);
+    return res.status(500).json({ error: 'Webhook processing failed' });
+  }
+  if (!eventRecord) {
+    return res.json({ received: true, duplicate: true });
+  }
+
   try {
     switch (event.type) {
       case 'customer.subscription.created':
@@ -125,12 +96,37 @@ router.post('/stripe', express.raw({ type: 'application/json' }), async (req, re
         await handlePayoutFailed(event.data.object, event.account);
         break;
 
+      // Order and auction payment reconciliation
+      case 'payment_intent.succeeded':
+        await handlePaymentIntentSucceeded(event.data.object);
+        break;
+
+      case 'payment_intent.payment_failed':
+        await handlePaymentIntentFailed(event.data.object);
+        break;
+
+      case 'charge.refunded':
+        await handleChargeRefunded(event.data.object);
+        break;
+
+      case 'charge.dispute.created':
+        await handleDisputeCreated(event.data.object);
+        break;
+
+      case 'charge.dispute.updated':
+      case 'charge.dispute.closed':
+        await handleDisputeUpdated(event.data.object);
+        break;
+
       default:
         console.log(`Unhandled event type: ${event.type}`);
     }
 
+    await finishWebhookEvent(eventRecord);
     res.json({ received: true });
   } catch (error) {
+    console.error(`Webhook ${event.type} (${event.id}) failed:`, error);
+    await finishWebhookEvent(eventRecord, error).catch(() => {});
     res.status(500).json({ error: 'Webhook processing failed' });
   }
 });
@@ -170,12 +166,14 @@ async function handleSubscriptionUpdated(subscription) {
     cancelAtPeriodEnd: subscription.cancel_at_period_end,
   });
 
-  // Send email if subscription was paused
+  // Notify if subscription was paused
   if (subscription.pause_collection) {
-    const email = await getUserEmail(dbSubscription.userId);
-    if (email) {
-      await sendTemplatedEmail('membership-paused', email, {});
-    }
+    await dispatchNotification(dbSubscription.userId, 'MEMBERSHIP_UPDATE', {
+      title: 'Membership Paused',
+      message: 'Your membership has been paused.',
+      data: { entityType: 'membership', entityId: String(dbSubscription.id) },
+      email: { template: 'membership-paused', variables: {} },
+    });
   }
 }
 
@@ -193,12 +191,15 @@ async function handleSubscriptionDeleted(subscription) {
     cancelledAt: new Date(),
   });
 
-  const email = await getUserEmail(dbSubscription.userId);
-  if (email) {
-    await sendTemplatedEmail('membership-cancelled', email, {
-      cancellationDate: new Date().toLocaleDateString(),
-    });
-  }
+  await dispatchNotification(dbSubscription.userId, 'MEMBERSHIP_UPDATE', {
+    title: 'Membership Cancelled',
+    message: 'Your membership has been cancelled.',
+    data: { entityType: 'membership', entityId: String(dbSubscription.id) },
+    email: {
+      template: 'membership-cancelled',
+      variables: { cancellationDate: new Date().toLocaleDateString() },
+    },
+  });
 }
 
 async function handlePaymentSucceeded(invoice) {
@@ -238,73 +239,38 @@ async function handlePaymentFailed(invoice) {
     ? new Date(invoice.next_payment_attempt * 1000).toLocaleDateString()
     : 'soon';
 
-  // Send email
-  const email = await getUserEmail(dbSubscription.userId);
-  if (email) {
-    await sendTemplatedEmail('membership-payment-failed', email, {
-      amount,
-      currency,
-      retryDate,
-    });
-  }
-
-  // Send SMS if user opted in
-  try {
-    const smsEligibility = await canSendSms(dbSubscription.userId);
-    if (smsEligibility) {
-      // Check idempotency using Notification table
-      const existingSms = await Notification.findOne({
-        where: {
-          type: 'SMS_PAYMENT_FAILED',
-          userId: dbSubscription.userId,
-          [sequelize.Op.and]: [
-            sequelize.where(sequelize.cast(sequelize.json('data.entityId'), 'text'), invoice.id),
-          ],
-        },
-      });
+  // Notify once per invoice
+  const existingNotification = await Notification.findOne({
+    where: {
+      type: 'PAYMENT_FAILED',
+      userId: dbSubscription.userId,
+      [sequelize.Op.and]: [
+        sequelize.where(sequelize.cast(sequelize.json('data.entityId'), 'text'), invoice.id),
+      ],
+    },
+  });
 
-      if (!existingSms) {
-        const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-        const smsMessage = SMS_TEMPLATES.PAYMENT_FAILED({
+  if (!existingNotification) {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    await dispatchNotification(dbSubscription.userId, 'PAYMENT_FAILED', {
+      message: `Your membership payment of ${amount} ${currency} failed. We will retry ${retryDate}.`,
+      data: {
+        entityType: 'invoice',
+        entityId: invoice.id,
+        metadata: { amount, currency, description: 'membership subscription' },
+      },
+      email: {
+        template: 'membership-payment-failed',
+        variables: { amount, currency, retryDate },
+      },
+      sms: {
+        message: SMS_TEMPLATES.PAYMENT_FAILED({
           description: 'membership subscription',
           amount,
           paymentLink: `${frontendUrl}/account/membership`,
-        });
-
-        const smsResult = await sendSms(smsEligibility.phoneNumber, smsMessage, {
-          type: 'SMS_PAYMENT_FAILED',
-          entityId: invoice.id,
-          correlationId: `payment-failed-${invoice.id}`,
-        });
-
-        if (smsResult.ok) {
-          // Create Notification record after successful SMS send
-          await Notification.create({
-            userId: dbSubscription.userId,
-            type: 'SMS_PAYMENT_FAILED',
-            data: {
-              entityType: 'invoice',
-              entityId: invoice.id,
-              channel: 'sms',
-              phone: smsEligibility.phoneNumber,
-              providerMessageId: smsResult.providerMessageId,
-              sentAt: new Date().toISOString(),
-              metadata: {
-                amount,
-                description: 'membership subscription',
-              },
-            },
-            isRead: false,
-          });
-          console.log(`[SMS] Payment failed SMS sent to user ${dbSubscription.userId}`);
-        }
-      } else {
-        console.log(`[SMS] Payment failed SMS already sent for invoice ${invoice.id}`);
-      }
-    }
-  } catch (smsError) {
-    // Never block webhook processing on SMS errors
-    console.error('[SMS] Error sending payment failed SMS:', smsError.message);
+        }),
+      },
+    });
   }
 
   // Update invoice status
@@ -358,23 +324,37 @@ async function handleAccountUpdated(account) {
     // Notify vendor if account becomes active
     if (status === 'active' && vendor.stripeAccountStatus !== 'active') {
       const user = await User.findByPk(vendor.userId);
-      if (user?.email) {
-        await sendTemplatedEmail('stripe-account-active', user.email, {
-          firstName: user.firstName || user.name,
-          shopName: vendor.shopName,
-        }).catch((err) => console.error('Email send error:', err));
+      if (user) {
+        await dispatchNotification(user, 'VENDOR_ACCOUNT_STATUS', {
+          title: 'Payments Account Active',
+          message: 'Your Stripe account is active. You can now receive payouts.',
+          data: { entityType: 'vendor', entityId: String(vendor.id) },
+          email: {
+            template: 'stripe-account-active',
+            variables: { firstName: user.firstName || user.name, shopName: vendor.shopName },
+          },
+        });
       }
     }
 
     // Notify vendor if account restricted
     if (status === 'restricted') {
       const user = await User.findByPk(vendor.userId);
-      if (user?.email) {
-        await sendTemplatedEmail('stripe-account-restricted', user.email, {
-          firstName: user.firstName || user.name,
-          shopName: vendor.shopName,
-          reason: account.requirements?.disabled_reason || 'Unknown',
-        }).catch((err) => console.error('Email send error:', err));
+      if (user) {
+        const reason = account.requirements?.disabled_reason || 'Unknown';
+        await dispatchNotification(user, 'VENDOR_ACCOUNT_STATUS', {
+          title: 'Payments Account Restricted',
+          message: `Your Stripe account has been restricted: ${reason}.`,
+          data: { entityType: 'vendor', entityId: String(vendor.id), metadata: { reason } },
+          email: {
+            template: 'stripe-account-restricted',
+            variables: {
+              firstName: user.firstName || user.name,
+              shopName: vendor.shopName,
+              reason,
+            },
+          },
+        });
       }
     }
   } catch (error) {
@@ -482,13 +462,27 @@ async function handleTransferFailed(transfer) {
       // Notify vendor
       if (vendor) {
         const user = await User.findByPk(vendor.userId);
-        if (user?.email) {
-          await sendTemplatedEmail('payout-failed', user.email, {
-            firstName: user.firstName || user.name,
-            shopName: vendor.shopName,
-            amount: parseFloat(payout.amount).toFixed(2),
-            reason: transfer.failure_message || 'Unknown error',
-          }).catch((err) => console.error('Email send error:', err));
+        if (user) {
+          const amount = parseFloat(payout.amount).toFixed(2);
+          const reason = transfer.failure_message || 'Unknown error';
+          await dispatchNotification(user, 'VENDOR_PAYOUT_UPDATE', {
+            title: 'Payout Failed',
+            message: `Your payout of $${amount} failed: ${reason}. The amount is back in your balance.`,
+            data: {
+              entityType: 'payout',
+              entityId: String(payout.id),
+              metadata: { amount, reason },
+            },
+            email: {
+              template: 'payout-failed',
+              variables: {
+                firstName: user.firstName || user.name,
+                shopName: vendor.shopName,
+                amount,
+                reason,
+              },
+            },
+          });
         }
       }
     }
@@ -536,12 +530,21 @@ async function handlePayoutFailed(payout, connectedAccountId) {
 
     if (vendor) {
       const user = await User.findByPk(vendor.userId);
-      if (user?.email) {
-        await sendTemplatedEmail('bank-payout-failed', user.email, {
-          firstName: user.firstName || user.name,
-          shopName: vendor.shopName,
-          reason: payout.failure_message || 'Bank rejected payout',
-        }).catch((err) => console.error('Email send error:', err));
+      if (user) {
+        const reason = payout.failure_message || 'Bank rejected payout';
+        await dispatchNotification(user, 'VENDOR_PAYOUT_UPDATE', {
+          title: 'Bank Payout Failed',
+          message: `A payout to your bank account failed: ${reason}.`,
+          data: { entityType: 'payout', entityId: payout.id, metadata: { reason } },
+          email: {
+            template: 'bank-payout-failed',
+            variables: {
+              firstName: user.firstName || user.name,
+              shopName: vendor.shopName,
+              reason,
+            },
+          },
+        });
       }
     }
   } catch (error) {
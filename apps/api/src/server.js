@@ -10,7 +10,6 @@ import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { createServer } from 'http';
-import cron from 'node-cron';
 import adminRoutes from './routes/adminRoutes.js';
 import apiRoutes from './routes/index.js';
 import stripeRoutes from './routes/stripeRoutes.js';
@@ -18,7 +17,9 @@ import paypalRoutes from './routes/paypalRoutes.js';
 import searchRoutes from './routes/searchRoutes.js';
 import { seedDatabase } from './config/seed.js';
 import { initializeSocket } from './sockets/index.js';
-import { updateAuctionStatuses } from './services/auctionStatusService.js';
+import { startJobRunner, stopJobRunner } from './services/jobs/jobQueue.js';
+import { registerLifecycleJobs } from './services/jobs/lifecycleJobs.js';
+import { registerImportJobs } from './services/jobs/importJobs.js';
 import { initializeIndexes } from './utils/meilisearch.js';
 
 const filename = fileURLToPath(import.meta.url);
@@ -118,22 +119,14 @@ const start = async () => {
       );
     }
 
-    // Schedule auction status updates (runs every minute)
-    cron.schedule('* * * * *', async () => {
-      try {
-        await updateAuctionStatuses();
-      } catch (error) {
-        console.error('[Cron] Error updating auction statuses:', error);
-      }
-    });
-    console.log('[Cron] Auction status updater scheduled (every minute)');
-
-    // Run initial status update
+    // Start the background job runner (auction statuses, expiries, cleanup, CSV imports); every
+    // replica polls the shared queue and row locks ensure each run is processed once
+    registerLifecycleJobs();
+    registerImportJobs();
     try {
-      await updateAuctionStatuses();
-      console.log('[Auction Status] Initial status update completed');
+      await startJobRunner();
     } catch (error) {
-      console.error('[Auction Status] Initial update failed:', error);
+      console.error('[Jobs] Runner failed to start:', error);
     }
 
     // Start server
@@ -144,6 +137,7 @@ const start = async () => {
 
     // Graceful shutdown
     const gracefulShutdown = () => {
+      stopJobRunner();
       httpServer.close(() => {
         console.log('Server closed');
         process.exit(0);
@@ -0,0 +1,76 @@
+/**
+ * Auction Soft Close
+ * Pure anti-sniping rules: a bid in the final window pushes the end time back,
+ * up to a maximum total extension past the originally scheduled end.
+ */
+
+// Platform defaults used when neither the auction nor its vendor configures soft close
+export const DEFAULT_SOFT_CLOSE = {
+  windowMinutes: 2,
+  extensionMinutes: 2,
+  maxExtensionMinutes: 30,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+const pickMinutes = (...values) => {
+  const found = values.find((v) => v !== null && v !== undefined && v !== '');
+  const minutes = parseInt(found, 10);
+  return isNaN(minutes) || minutes < 0 ? 0 : minutes;
+};
+
+/**
+ * Resolve effective soft-close settings: auction overrides, then vendor defaults, then platform
+ * A window of 0 disables soft close for the auction
+ */
+export function resolveSoftCloseSettings(auction, vendor = null) {
+  return {
+    windowMinutes: pickMinutes(
+      auction?.softCloseWindowMinutes,
+      vendor?.softCloseWindowMinutes,
+      DEFAULT_SOFT_CLOSE.windowMinutes,
+    ),
+    extensionMinutes: pickMinutes(
+      auction?.softCloseExtensionMinutes,
+      vendor?.softCloseExtensionMinutes,
+      DEFAULT_SOFT_CLOSE.extensionMinutes,
+    ),
+    maxExtensionMinutes: pickMinutes(
+      auction?.softCloseMaxExtensionMinutes,
+      vendor?.softCloseMaxExtensionMinutes,
+      DEFAULT_SOFT_CLOSE.maxExtensionMinutes,
+    ),
+  };
+}
+
+/**
+ * Work out whether a bid placed at `bidTime` extends the auction
+ * @returns {Object|null} { previousEndDate, newEndDate, originalEndDate, extendedByMinutes } or null
+ */
+export function computeSoftCloseExtension(auction, bidTime = new Date(), vendor = null) {
+  const { windowMinutes, extensionMinutes, maxExtensionMinutes } = resolveSoftCloseSettings(
+    auction,
+    vendor,
+  );
+  if (windowMinutes === 0 || extensionMinutes === 0) return null;
+
+  const endDate = new Date(auction.endDate);
+  const bidAt = new Date(bidTime);
+  const remainingMs = endDate.getTime() - bidAt.getTime();
+
+  // Bid is outside the final window (or after the end, which bid validation rejects)
+  if (remainingMs < 0 || remainingMs > windowMinutes * MINUTE_MS) return null;
+
+  const originalEndDate = new Date(auction.originalEndDate || auction.endDate);
+  const latestEnd = originalEndDate.getTime() + maxExtensionMinutes * MINUTE_MS;
+  const newEnd = Math.min(endDate.getTime() + extensionMinutes * MINUTE_MS, latestEnd);
+
+  if (newEnd <= endDate.getTime()) return null;
+
+  return {
+    previousEndDate: endDate,
+    newEndDate: new Date(newEnd),
+    originalEndDate,
+    extendedByMinutes: Math.round((newEnd - endDate.getTime()) / MINUTE_MS),
+  };
+}
@@ -5,12 +5,21 @@
 
 import db from '../models/index.js';
 import { Op } from 'sequelize';
-import { sendTemplatedEmail, sendSms } from '../services/emailService.js';
-import { emitNotification } from '../sockets/index.js';
-import { removeBookFromIndex } from '../utils/meilisearch.js';
-
-const { Auction, AuctionBid, AuctionWin, Vendor, User, Notification, VendorEarning, sequelize } =
-  db;
+import { dispatchNotification } from './notificationDispatch.js';
+import { emitAuctionEvent } from '../sockets/index.js';
+import { removeBookFromIndex, reindexAuctionItem } from '../utils/meilisearch.js';
+
+const {
+  Auction,
+  AuctionBid,
+  AuctionEvent,
+  AuctionWin,
+  Vendor,
+  User,
+  Notification,
+  VendorEarning,
+  sequelize,
+} = db;
 
 /**
  * Update auction statuses
@@ -21,16 +30,28 @@ export const updateAuctionStatuses = async () => {
     const now = new Date();
 
     // Activate upcoming auctions
+    const starting = await Auction.findAll({
+      where: {
+        status: 'upcoming',
+        start_date: { [Op.lte]: now },
+      },
+      attributes: ['id', 'auctionableType', 'auctionableId'],
+    });
     const activatedCount = await Auction.update(
       { status: 'active' },
       {
         where: {
+          id: starting.map((auction) => auction.id),
           status: 'upcoming',
-          start_date: { [Op.lte]: now },
         },
       },
     );
 
+    // Listings under auction show in the active-auction search facet
+    setImmediate(async () => {
+      for (const auction of starting) await reindexAuctionItem(auction);
+    });
+
     // Process ending auctions with full lifecycle logic
     const endedCount = await processEndingAuctions();
 
@@ -105,6 +126,12 @@ async function processAuctionEnding(auction) {
       return;
     }
 
+    // Skip if a last-second bid soft-closed the auction past its old end time
+    if (new Date(lockedAuction.endDate) > new Date()) {
+      await transaction.commit();
+      return;
+    }
+
     // Note: Vendor could be fetched if needed in future
     // const vendor = await Vendor.findByPk(lockedAuction.vendorId, { transaction });
 
@@ -112,12 +139,17 @@ async function processAuctionEnding(auction) {
     const paymentWindowHours = lockedAuction.paymentWindowHours || 48;
     const paymentDeadline = new Date(endedAt.getTime() + paymentWindowHours * 60 * 60 * 1000);
 
-    // Find highest bid
-    const highestBid = await AuctionBid.findOne({
-      where: { auctionId: lockedAuction.id },
-      order: [['amount', 'DESC']],
-      transaction,
-    });
+    // Find the leading bid (proxy ties share an amount, so status decides)
+    const highestBid =
+      (await AuctionBid.findOne({
+        where: { auctionId: lockedAuction.id, status: 'winning' },
+        transaction,
+      })) ||
+      (await AuctionBid.findOne({
+        where: { auctionId: lockedAuction.id },
+        order: [['amount', 'DESC']],
+        transaction,
+      }));
 
     let updates = {
       endedAt,
@@ -182,9 +214,30 @@ async function processAuctionEnding(auction) {
     // Update auction with final state
     await lockedAuction.update(updates, { transaction });
 
+    await AuctionEvent.create(
+      {
+        auctionId: lockedAuction.id,
+        eventType: 'ended',
+        userId: updates.winnerId,
+        data: {
+          status: updates.status,
+          reason: updates.endOutcomeReason,
+          finalBid: highestBid ? highestBid.amount : null,
+          extensionCount: lockedAuction.extensionCount || 0,
+        },
+      },
+      { transaction },
+    );
+
     // Commit transaction before notifications
     await transaction.commit();
 
+    emitAuctionEvent(lockedAuction.id, 'auction:ended', {
+      auctionId: lockedAuction.id,
+      status: updates.status,
+      endedAt,
+    });
+
     // Send winner notifications (don't block on failures)
     if (updates.status === 'ended_sold' && highestBid) {
       setImmediate(async () => {
@@ -199,6 +252,11 @@ async function processAuctionEnding(auction) {
       });
     }
 
+    // Sold items stay listed but leave the active-auction search facet
+    if (updates.status === 'ended_sold') {
+      setImmediate(() => reindexAuctionItem(lockedAuction));
+    }
+
     // Remove from search index if ended without sale
     if (updates.status !== 'ended_sold') {
       setImmediate(async () => {
@@ -296,108 +354,43 @@ async function sendWinnerNotifications(auction, highestBid) {
     const winningAmount = parseFloat(highestBid.amount).toFixed(2);
     const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
 
-    // Send email with idempotency check
-    if (winner.email && winner.emailNotifications !== false) {
-      const existingNotification = Notification
-        ? await Notification.findOne({
-            where: {
-              type: 'AUCTION_WON_PAYMENT_DUE',
-              [Op.and]: sequelize.where(
-                sequelize.cast(sequelize.json('data.entityId'), 'text'),
-                auction.id.toString(),
-              ),
-            },
-          })
-        : null;
-
-      if (!existingNotification) {
-        await sendTemplatedEmail('auction_won_payment_due', winner.email, {
+    const existingNotification = await Notification.findOne({
+      where: {
+        type: 'AUCTION_WON_PAYMENT_DUE',
+        [Op.and]: sequelize.where(
+          sequelize.cast(sequelize.json('data.entityId'), 'text'),
+          auction.id.toString(),
+        ),
+      },
+    });
+    if (existingNotification) return;
+
+    await dispatchNotification(winner, 'AUCTION_WON_PAYMENT_DUE', {
+      message: `Congratulations! You won "${auctionTitle}". Payment is due.`,
+      data: {
+        entityType: 'auction',
+        entityId: auction.id,
+        metadata: {
+          auctionTitle,
+          winningAmount,
+          auctionId: auction.id,
+          productTitle: auctionTitle,
+        },
+      },
+      email: {
+        template: 'auction_won_payment_due',
+        variables: {
           userName: winner.name || winner.firstName || 'Collector',
           auctionTitle,
           winningAmount,
           auctionId: auction.id,
           paymentLink: `${frontendUrl}/account/winnings`,
-        });
-
-        console.log(
-          `EMAIL: auction_won_payment_due | recipient=${winner.email} | auctionId=${auction.id}`,
-        );
-
-        if (Notification) {
-          const notificationRecord = await Notification.create({
-            userId: highestBid.userId,
-            type: 'AUCTION_WON_PAYMENT_DUE',
-            data: {
-              entityType: 'auction',
-              entityId: auction.id,
-              templateName: 'auction_won_payment_due',
-              recipientEmail: winner.email,
-              sentAt: new Date().toISOString(),
-              metadata: { auctionTitle, winningAmount, auctionId: auction.id },
-            },
-            isRead: false,
-          });
-
-          try {
-            emitNotification(highestBid.userId, 'notification:new', notificationRecord.toJSON());
-          } catch (socketError) {
-            console.error('Failed to emit notification socket event:', socketError.message);
-          }
-        }
-      }
-    }
-
-    // Send SMS if opted in
-    if (winner.phoneNumber && winner.smsNotifications !== false) {
-      const existingSmsNotification = await Notification.findOne({
-        where: {
-          userId: winner.id,
-          type: 'SMS_AUCTION_WON_PAYMENT_DUE',
-          [Op.and]: [
-            sequelize.where(
-              sequelize.cast(sequelize.json('data.entityId'), 'text'),
-              auction.id.toString(),
-            ),
-          ],
         },
-      });
-
-      if (!existingSmsNotification) {
-        const smsMessage = `Congratulations! You won "${auctionTitle}" for $${winningAmount}. Payment due. View: ${frontendUrl}/account/winnings`;
-        const smsResult = await sendSms(winner.phoneNumber, smsMessage, {
-          correlationId: auction.id,
-          type: 'SMS_AUCTION_WON_PAYMENT_DUE',
-          entityId: auction.id,
-        });
-
-        if (smsResult.ok) {
-          const smsNotificationRecord = await Notification.create({
-            userId: winner.id,
-            type: 'SMS_AUCTION_WON_PAYMENT_DUE',
-            data: {
-              entityType: 'auction',
-              entityId: auction.id,
-              channel: 'sms',
-              recipientPhone: winner.phoneNumber,
-              providerMessageId: smsResult.providerMessageId,
-              sentAt: new Date().toISOString(),
-              metadata: { auctionTitle, winningAmount },
-            },
-            isRead: false,
-          });
-
-          console.log(
-            `SMS: SMS_AUCTION_WON_PAYMENT_DUE | recipient=${winner.phoneNumber} | auctionId=${auction.id}`,
-          );
-
-          try {
-            emitNotification(winner.id, 'notification:new', smsNotificationRecord.toJSON());
-          } catch (socketError) {
-            console.error('Failed to emit SMS notification socket event:', socketError.message);
-          }
-        }
-      }
-    }
+      },
+      sms: {
+        message: `Congratulations! You won "${auctionTitle}" for $${winningAmount}. Payment due. View: ${frontendUrl}/account/winnings`,
+      },
+    });
   } catch (error) {
     console.error(`[Auction ${auction.id}] Notification error:`, error.message);
   }
@@ -465,14 +458,6 @@ async function applyEndPolicies(auction, endStatus) {
   }
 }
 
-/**
- * Check helper functions (currently unused but kept for future use)
- */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function canSendSms(user) {
-  return user && user.phoneNumber && user.smsNotifications !== false;
-}
-
 export const getAuctionStatusStats = async () => {
   try {
     const stats = await Auction.findAll({
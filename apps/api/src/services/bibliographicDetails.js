@@ -0,0 +1,382 @@
+/**
+ * Bibliographic Details
+ * Pure helpers for the structured rare-book details stored on books.bibliographic_details:
+ * cleaning what vendors and imports send, filtering listings on them, and the flat attributes
+ * the search index filters on.
+ *
+ * Shape (every key optional; blank values are dropped):
+ * { firstPrinting, dustJacket, signature, signedBy, inscription, pointsOfIssue: [string],
+ *   provenance: [{ owner, period, note }], limitationNumber, limitationTotal }
+ */
+
+import { Op } from 'sequelize';
+
+// Jacket states: the usual grades for an original jacket, or why there isn't one
+export const DUST_JACKET_STATES = [
+  'fine',
+  'near-fine',
+  'very-good',
+  'good',
+  'fair',
+  'poor',
+  'facsimile',
+  'lacking',
+  'not-issued',
+];
+export const ORIGINAL_JACKET_STATES = DUST_JACKET_STATES.slice(0, 6);
+
+// signed: signature alone; inscribed: signed to a named recipient; association: inscribed to
+// someone connected with the author or the book
+export const SIGNATURE_TYPES = ['signed', 'inscribed', 'association'];
+
+// Import target fields that fill bibliographic details; limitation is CSV text like "45/250"
+export const BIBLIOGRAPHIC_IMPORT_FIELDS = [
+  'firstPrinting',
+  'dustJacket',
+  'signature',
+  'signedBy',
+  'inscription',
+  'pointsOfIssue',
+  'provenance',
+  'limitation',
+];
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_INSCRIPTION_LENGTH = 2000;
+const MAX_LIST_ENTRIES = 20;
+
+const isBlank = (value) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+const toBoolean = (value) => {
+  if (typeof value === 'boolean') return value;
+  const lower = String(value).trim().toLowerCase();
+  if (['y', 'yes', 'true', '1'].includes(lower)) return true;
+  if (['n', 'no', 'false', '0'].includes(lower)) return false;
+  return null;
+};
+
+const toKey = (value) =>
+  String(value)
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-');
+
+// Lists arrive as arrays from the listing form and as "a | b" or one-per-line text from CSVs
+const toList = (value) =>
+  (Array.isArray(value) ? value : String(value).split(/\s*[|\n]\s*/)).filter(
+    (item) => !isBlank(item),
+  );
+
+/**
+ * Provenance entry from form input ({ owner, period, note }) or CSV text ("Owner (1920-1954)")
+ */
+function provenanceEntry(value) {
+  if (value && typeof value === 'object') {
+    const entry = {};
+    for (const key of ['owner', 'period', 'note']) {
+      if (!isBlank(value[key])) entry[key] = String(value[key]).trim();
+    }
+    return entry;
+  }
+  const match = String(value)
+    .trim()
+    .match(/^(.*?)\s*\(([^)]*)\)$/);
+  return match ? { owner: match[1], period: match[2] } : { owner: String(value).trim() };
+}
+
+/**
+ * Clean bibliographic details sent by a listing form or built from an import row
+ * @returns {Object} { details } (null when nothing is set), or { error, field }
+ */
+export function sanitizeBibliographicDetails(input) {
+  if (isBlank(input)) return { details: null };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Bibliographic details must be an object', field: 'bibliographicDetails' };
+  }
+
+  const details = {};
+
+  if (!isBlank(input.firstPrinting)) {
+    const firstPrinting = toBoolean(input.firstPrinting);
+    if (firstPrinting === null) {
+      return { error: 'First printing must be yes or no', field: 'firstPrinting' };
+    }
+    details.firstPrinting = firstPrinting;
+  }
+
+  if (!isBlank(input.dustJacket)) {
+    const dustJacket = toKey(input.dustJacket);
+    if (!DUST_JACKET_STATES.includes(dustJacket)) {
+      return {
+        error: `Dust jacket must be one of: ${DUST_JACKET_STATES.join(', ')}`,
+        field: 'dustJacket',
+      };
+    }
+    details.dustJacket = dustJacket;
+  }
+
+  if (!isBlank(input.signature)) {
+    const signature = toKey(input.signature);
+    if (!SIGNATURE_TYPES.includes(signature)) {
+      return {
+        error: `Signature must be one of: ${SIGNATURE_TYPES.join(', ')}`,
+        field: 'signature',
+      };
+    }
+    details.signature = signature;
+  }
+
+  for (const [key, limit] of [
+    ['signedBy', MAX_TEXT_LENGTH],
+    ['inscription', MAX_INSCRIPTION_LENGTH],
+  ]) {
+    if (isBlank(input[key])) continue;
+    const text = String(input[key]).trim();
+    if (text.length > limit) {
+      return { error: `${key} exceeds ${limit} characters`, field: key };
+    }
+    details[key] = text;
+  }
+  if ((details.signedBy || details.inscription) && !details.signature) {
+    details.signature = details.inscription ? 'inscribed' : 'signed';
+  }
+
+  if (!isBlank(input.pointsOfIssue)) {
+    const points = toList(input.pointsOfIssue).map((point) => String(point).trim());
+    if (points.length > MAX_LIST_ENTRIES) {
+      return {
+        error: `List at most ${MAX_LIST_ENTRIES} points of issue`,
+        field: 'pointsOfIssue',
+      };
+    }
+    if (points.some((point) => point.length > MAX_TEXT_LENGTH)) {
+      return {
+        error: `Each point of issue must be under ${MAX_TEXT_LENGTH} characters`,
+        field: 'pointsOfIssue',
+      };
+    }
+    if (points.length > 0) details.pointsOfIssue = points;
+  }
+
+  if (!isBlank(input.provenance)) {
+    const chain = toList(input.provenance)
+      .map(provenanceEntry)
+      .filter((entry) => Object.keys(entry).length > 0);
+    if (chain.length > MAX_LIST_ENTRIES) {
+      return { error: `List at most ${MAX_LIST_ENTRIES} previous owners`, field: 'provenance' };
+    }
+    if (chain.some((entry) => !entry.owner)) {
+      return { error: 'Each provenance entry needs an owner', field: 'provenance' };
+    }
+    if (chain.some((entry) => Object.values(entry).some((text) => text.length > MAX_TEXT_LENGTH))) {
+      return {
+        error: `Provenance entries must be under ${MAX_TEXT_LENGTH} characters`,
+        field: 'provenance',
+      };
+    }
+    if (chain.length > 0) details.provenance = chain;
+  }
+
+  for (const key of ['limitationNumber', 'limitationTotal']) {
+    if (isBlank(input[key])) continue;
+    const num = Number(input[key]);
+    if (!Number.isInteger(num) || num < 1) {
+      return { error: 'Limitation numbers must be whole numbers of 1 or more', field: key };
+    }
+    details[key] = num;
+  }
+  if (details.limitationNumber && details.limitationTotal) {
+    if (details.limitationNumber > details.limitationTotal) {
+      return {
+        error: 'Copy number cannot exceed the size of the limitation',
+        field: 'limitationNumber',
+      };
+    }
+  }
+
+  return { details: Object.keys(details).length > 0 ? details : null };
+}
+
+/**
+ * Limitation from CSV text: "45/250", "No. 45 of 250", "one of 250" or a bare copy number
+ */
+export function parseLimitation(value) {
+  if (isBlank(value)) return {};
+  const text = String(value).trim();
+  const numbers = text.match(/\d+/g) || [];
+  if (numbers.length >= 2) {
+    return { limitationNumber: numbers[0], limitationTotal: numbers[1] };
+  }
+  if (numbers.length === 1) {
+    return /\b(of|edition of|limited to)\s*\d+$/i.test(text)
+      ? { limitationTotal: numbers[0] }
+      : { limitationNumber: numbers[0] };
+  }
+  return { limitationNumber: text };
+}
+
+/**
+ * Bibliographic details from a normalized import row
+ * @param {Array} keys - Limit to these import fields (the mapped ones, for sparse updates)
+ * @returns {Object} { details } or { error, field }
+ */
+export function bibliographicDetailsFromRow(row, keys = BIBLIOGRAPHIC_IMPORT_FIELDS) {
+  const input = {};
+  for (const key of keys) {
+    if (!BIBLIOGRAPHIC_IMPORT_FIELDS.includes(key) || isBlank(row[key])) continue;
+    if (key === 'limitation') {
+      Object.assign(input, parseLimitation(row.limitation));
+    } else {
+      input[key] = row[key];
+    }
+  }
+  return sanitizeBibliographicDetails(input);
+}
+
+/**
+ * Details after a partial update: keys in the update replace the stored ones
+ */
+export function mergeBibliographicDetails(existing, update) {
+  if (!update) return existing || null;
+  return { ...(existing || {}), ...update };
+}
+
+/**
+ * Details as import field values, in the text form bibliographicDetailsFromRow reads back
+ */
+export function bibliographicImportValues(details) {
+  const d = details || {};
+  const values = {};
+  for (const key of BIBLIOGRAPHIC_IMPORT_FIELDS) values[key] = null;
+
+  if (typeof d.firstPrinting === 'boolean') values.firstPrinting = d.firstPrinting;
+  for (const key of ['dustJacket', 'signature', 'signedBy', 'inscription']) {
+    if (d[key]) values[key] = d[key];
+  }
+  if (d.pointsOfIssue?.length) values.pointsOfIssue = d.pointsOfIssue.join(' | ');
+  if (d.provenance?.length) {
+    values.provenance = d.provenance
+      .map((entry) => (entry.period ? `${entry.owner} (${entry.period})` : entry.owner))
+      .join(' | ');
+  }
+  if (d.limitationNumber || d.limitationTotal) {
+    values.limitation =
+      d.limitationNumber && d.limitationTotal
+        ? `${d.limitationNumber}/${d.limitationTotal}`
+        : d.limitationTotal
+          ? `Limited to ${d.limitationTotal}`
+          : String(d.limitationNumber);
+  }
+  return values;
+}
+
+/**
+ * Bibliographic filters from a listing query
+ * @returns {Object} { firstPrinting, dustJacket, signature, provenance, limited }
+ *   dustJacket is a state or "original" (any graded original jacket); signature is a type or
+ *   "any"
+ */
+export function bibliographicFilters(query = {}) {
+  const filters = {};
+  const isTrue = (value) => value === true || value === 'true';
+
+  if (isTrue(query.firstPrinting)) filters.firstPrinting = true;
+  if (query.dustJacket === 'original' || DUST_JACKET_STATES.includes(query.dustJacket)) {
+    filters.dustJacket = query.dustJacket;
+  }
+  if (query.signature === 'any' || SIGNATURE_TYPES.includes(query.signature)) {
+    filters.signature = query.signature;
+  }
+  if (isTrue(query.provenance)) filters.provenance = true;
+  if (isTrue(query.limited)) filters.limited = true;
+
+  return filters;
+}
+
+const jacketStates = (dustJacket) =>
+  dustJacket === 'original' ? ORIGINAL_JACKET_STATES : [dustJacket];
+
+/**
+ * Sequelize condition on the bibliographic_details column, or null without filters
+ */
+export function bibliographicWhere(filters) {
+  const where = {};
+  if (filters.firstPrinting) where.firstPrinting = true;
+  if (filters.dustJacket) where.dustJacket = { [Op.in]: jacketStates(filters.dustJacket) };
+  if (filters.signature) {
+    where.signature =
+      filters.signature === 'any' ? { [Op.in]: SIGNATURE_TYPES } : filters.signature;
+  }
+  if (filters.provenance) where.provenance = { [Op.ne]: null };
+  if (filters.limited) where.limitationTotal = { [Op.ne]: null };
+  return Object.keys(where).length > 0 ? where : null;
+}
+
+/**
+ * Meilisearch filter expressions for the attributes from bibliographicIndexFields
+ */
+export function bibliographicSearchFilters(filters) {
+  const expressions = [];
+  const list = (values) => values.map((value) => `"${value}"`).join(', ');
+
+  if (filters.firstPrinting) expressions.push('firstPrinting = true');
+  if (filters.dustJacket) {
+    expressions.push(`dustJacket IN [${list(jacketStates(filters.dustJacket))}]`);
+  }
+  if (filters.signature) {
+    expressions.push(
+      filters.signature === 'any'
+        ? `signatureType IN [${list(SIGNATURE_TYPES)}]`
+        : `signatureType = "${filters.signature}"`,
+    );
+  }
+  if (filters.provenance) expressions.push('hasProvenance = true');
+  if (filters.limited) expressions.push('isLimited = true');
+  return expressions;
+}
+
+/**
+ * Flat search-index attributes for a book's bibliographic details
+ */
+export function bibliographicIndexFields(details) {
+  const d = details || {};
+  return {
+    firstPrinting: d.firstPrinting === true,
+    dustJacket: d.dustJacket || null,
+    signatureType: d.signature || null,
+    hasProvenance: Array.isArray(d.provenance) && d.provenance.length > 0,
+    isLimited: !!d.limitationTotal,
+    pointsOfIssue: Array.isArray(d.pointsOfIssue) ? d.pointsOfIssue : [],
+    provenanceOwners: Array.isArray(d.provenance) ? d.provenance.map((entry) => entry.owner) : [],
+  };
+}
+
+/**
+ * One-line summary for dry-run diffs and exports: "First printing; jacket very-good; ..."
+ */
+export function summarizeBibliographicDetails(details) {
+  if (!details) return '';
+  const parts = [];
+  if (details.firstPrinting) parts.push('First printing');
+  if (details.dustJacket) parts.push(`Jacket: ${details.dustJacket}`);
+  if (details.signature) {
+    parts.push(
+      details.signedBy ? `${details.signature} by ${details.signedBy}` : details.signature,
+    );
+  }
+  if (details.limitationNumber || details.limitationTotal) {
+    parts.push(
+      details.limitationNumber && details.limitationTotal
+        ? `No. ${details.limitationNumber} of ${details.limitationTotal}`
+        : details.limitationTotal
+          ? `Limited to ${details.limitationTotal}`
+          : `No. ${details.limitationNumber}`,
+    );
+  }
+  if (details.pointsOfIssue?.length) parts.push(`${details.pointsOfIssue.length} points of issue`);
+  if (details.provenance?.length) {
+    parts.push(`Provenance: ${details.provenance.map((entry) => entry.owner).join(' → ')}`);
+  }
+  return parts.join('; ');
+}
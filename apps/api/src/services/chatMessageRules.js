@@ -0,0 +1,117 @@
+/**
+ * Chat Message Rules
+ * Pure rules for chat attachments, read cursors and message search: which files can be
+ * attached, what is stored about them, how far a participant has read a conversation and the
+ * excerpt shown for a search hit
+ *
+ * Read cursors hold the creation time of the last message a participant read, so "read" and
+ * "unread" are comparisons of message times against it.
+ */
+
+// Condition photos and invoices/quotes
+export const CHAT_ATTACHMENT_TYPES = {
+  'image/jpeg': 'image',
+  'image/png': 'image',
+  'image/webp': 'image',
+  'application/pdf': 'pdf',
+};
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+export const MIN_SEARCH_LENGTH = 2;
+const MAX_SEARCH_LENGTH = 200;
+
+/**
+ * 'image', 'pdf' or null when the file type cannot be attached
+ */
+export const attachmentKind = (mimetype) => CHAT_ATTACHMENT_TYPES[mimetype] || null;
+
+/**
+ * What a message stores about an uploaded file
+ * @param {Object} file - Multer file ({ originalname, mimetype, size })
+ * @param {Object} result - Cloudinary upload result
+ */
+export function toAttachment(file, result) {
+  const kind = attachmentKind(file.mimetype);
+  return {
+    kind,
+    url: result.secure_url,
+    publicId: result.public_id,
+    resourceType: result.resource_type,
+    fileName: file.originalname,
+    mimeType: file.mimetype,
+    bytes: result.bytes ?? file.size,
+    width: result.width ?? null,
+    height: result.height ?? null,
+    thumbnailUrl: kind === 'image' ? result.eager?.[0]?.secure_url || result.secure_url : null,
+  };
+}
+
+/**
+ * Text shown for a message in conversation lists, covering attachment-only messages
+ */
+export function messagePreview(message) {
+  if (message?.body) return message.body;
+  const attachments = message?.attachments || [];
+  if (attachments.length === 0) return '';
+  if (attachments.length > 1) return `${attachments.length} attachments`;
+  return attachments[0].kind === 'image' ? 'Photo' : attachments[0].fileName || 'Attachment';
+}
+
+/**
+ * Whether reading `message` moves a cursor forward; cursors never move back
+ */
+export function advancesCursor(cursor, message) {
+  if (!message?.createdAt) return false;
+  if (!cursor?.lastReadAt) return true;
+  return new Date(message.createdAt) > new Date(cursor.lastReadAt);
+}
+
+/**
+ * Whether the cursor's owner has read a message
+ */
+export function isReadBy(cursor, message) {
+  if (!cursor?.lastReadAt || !message?.createdAt) return false;
+  return new Date(message.createdAt) <= new Date(cursor.lastReadAt);
+}
+
+/**
+ * Read receipt broadcast to a conversation when a participant's cursor moves
+ */
+export const toReadReceipt = (cursor) => ({
+  conversationId: cursor.conversationId,
+  userId: cursor.userId,
+  lastReadMessageId: cursor.lastReadMessageId,
+  lastReadAt: cursor.lastReadAt,
+});
+
+/**
+ * Search terms with whitespace collapsed, or '' when too short to search
+ */
+export function normalizeSearchQuery(query) {
+  if (typeof query !== 'string') return '';
+  const normalized = query.trim().replace(/\s+/g, ' ').slice(0, MAX_SEARCH_LENGTH);
+  return normalized.length >= MIN_SEARCH_LENGTH ? normalized : '';
+}
+
+/**
+ * Excerpt of a message around the first search term it contains
+ * Full-text matching is stemmed, so a term that does not appear verbatim falls back to the start
+ * of the message.
+ */
+export function searchSnippet(text, query, radius = 60) {
+  if (!text) return '';
+
+  const lower = text.toLowerCase();
+  const positions = normalizeSearchQuery(query)
+    .toLowerCase()
+    .split(' ')
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position >= 0);
+  const at = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, at - radius);
+  const end = Math.min(text.length, at + radius * 2);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,226 @@
+/**
+ * Chat Message Service
+ * Attachments, read cursors and search for buyer/vendor chat. Conversations are only reached
+ * through their participants (userId1/userId2); callers broadcast the returned payloads to the
+ * conversation's room on the /chat namespace.
+ */
+
+import { Op } from 'sequelize';
+import db from '../models/index.js';
+import cloudinary from '../utils/cloudinary.js';
+import {
+  advancesCursor,
+  attachmentKind,
+  normalizeSearchQuery,
+  searchSnippet,
+  toAttachment,
+  toReadReceipt,
+} from './chatMessageRules.js';
+import { toChatOffer } from './customOfferRules.js';
+
+const { Conversation, ConversationReadCursor, Message, User, Vendor, sequelize } = db;
+
+const participantWhere = (userId) => ({ [Op.or]: [{ userId1: userId }, { userId2: userId }] });
+
+export const otherParticipantId = (conversation, userId) =>
+  String(conversation.userId1) === String(userId) ? conversation.userId2 : conversation.userId1;
+
+/**
+ * A conversation the user takes part in, or null
+ */
+export async function findParticipantConversation(conversationId, userId) {
+  if (!conversationId || !userId) return null;
+  return Conversation.findOne({ where: { id: conversationId, ...participantWhere(userId) } });
+}
+
+/**
+ * What message:new carries for a saved message; offer messages carry the offer's current state
+ */
+export const toMessagePayload = (message, offer = message.offer) => ({
+  id: message.id,
+  conversationId: message.conversationId,
+  senderId: message.senderId,
+  content: message.body,
+  message: message.body,
+  attachments: message.attachments || [],
+  kind: message.kind || 'text',
+  offerEvent: message.offerEvent || null,
+  offer: offer ? toChatOffer(offer) : null,
+  createdAt: message.createdAt,
+});
+
+const uploadFile = (file, folder) =>
+  new Promise((resolve, reject) => {
+    const isImage = attachmentKind(file.mimetype) === 'image';
+    const stream = cloudinary.uploader.upload_stream(
+      {
+        folder,
+        // PDFs are stored as raw files so they download as the original document
+        resource_type: isImage ? 'image' : 'raw',
+        ...(isImage && {
+          transformation: [{ width: 2000, height: 2000, crop: 'limit' }, { quality: 'auto:good' }],
+          eager: [{ width: 300, height: 300, crop: 'fill', quality: 'auto:low' }],
+        }),
+      },
+      (error, result) => (error ? reject(error) : resolve(result)),
+    );
+    stream.end(file.buffer);
+  });
+
+/**
+ * Upload chat files to Cloudinary under the conversation's folder
+ * @param {Array} files - Multer memory-storage files, already type and size checked
+ */
+export async function uploadChatAttachments(files, conversationId) {
+  const folder = `chat/${conversationId}`;
+  const attachments = [];
+  for (const file of files) {
+    attachments.push(toAttachment(file, await uploadFile(file, folder)));
+  }
+  return attachments;
+}
+
+/**
+ * Save a message and bump the conversation
+ * Offer messages pass kind 'offer' with the offer and the event (see customOfferRules).
+ */
+export async function createChatMessage({
+  conversationId,
+  senderId,
+  body = '',
+  attachments = [],
+  kind = 'text',
+  offerId = null,
+  offerEvent = null,
+}) {
+  const message = await Message.create({
+    conversationId,
+    senderId,
+    body,
+    attachments,
+    kind,
+    offerId,
+    offerEvent,
+  });
+  await Conversation.update({ lastMessageAt: new Date() }, { where: { id: conversationId } });
+  return message;
+}
+
+/**
+ * Move the user's read cursor up to a message (default: the latest in the conversation)
+ * Returns the read receipt to broadcast, or null when the cursor did not move.
+ */
+export async function markConversationRead(conversationId, userId, messageId = null) {
+  const message = await Message.findOne({
+    where: { conversationId, ...(messageId && { id: messageId }) },
+    attributes: ['id', 'createdAt'],
+    order: [['createdAt', 'DESC']],
+  });
+  if (!message) return null;
+
+  const cursor = await ConversationReadCursor.findOne({ where: { conversationId, userId } });
+  if (!advancesCursor(cursor, message)) return null;
+
+  const position = { lastReadMessageId: message.id, lastReadAt: message.createdAt };
+  const saved = cursor
+    ? await cursor.update(position)
+    : await ConversationReadCursor.create({ conversationId, userId, ...position });
+  return toReadReceipt(saved);
+}
+
+/**
+ * The other participant's read cursor, for showing which of the user's messages were seen
+ */
+export async function findOtherReadCursor(conversation, userId) {
+  return ConversationReadCursor.findOne({
+    where: { conversationId: conversation.id, userId: otherParticipantId(conversation, userId) },
+  });
+}
+
+/**
+ * Messages from the other participant after the user's read cursor, per conversation id
+ */
+export async function countUnreadMessages(conversationIds, userId) {
+  if (conversationIds.length === 0) return {};
+
+  const cursors = await ConversationReadCursor.findAll({
+    where: { conversationId: { [Op.in]: conversationIds }, userId },
+  });
+  const readUpTo = new Map(cursors.map((cursor) => [String(cursor.conversationId), cursor]));
+
+  const rows = await Message.findAll({
+    attributes: ['conversationId', [sequelize.fn('COUNT', sequelize.col('id')), 'count']],
+    where: {
+      senderId: { [Op.ne]: userId },
+      [Op.or]: conversationIds.map((conversationId) => {
+        const cursor = readUpTo.get(String(conversationId));
+        return cursor
+          ? { conversationId, createdAt: { [Op.gt]: cursor.lastReadAt } }
+          : { conversationId };
+      }),
+    },
+    group: ['conversationId'],
+    raw: true,
+  });
+
+  return Object.fromEntries(rows.map((row) => [row.conversationId, parseInt(row.count, 10)]));
+}
+
+/**
+ * Full-text search over the messages in every conversation the user takes part in
+ * Each hit names the other participant (and their shop, for vendors) and the conversation's item
+ * so it can be opened.
+ */
+export async function searchChatMessages(userId, query, { limit = 20 } = {}) {
+  const terms = normalizeSearchQuery(query);
+  if (!terms) return [];
+
+  const conversations = await Conversation.findAll({
+    where: participantWhere(userId),
+    attributes: ['id', 'userId1', 'userId2', 'itemType', 'itemId'],
+  });
+  if (conversations.length === 0) return [];
+
+  const column = Message.rawAttributes.body.field;
+  const messages = await Message.findAll({
+    where: {
+      conversationId: { [Op.in]: conversations.map((conversation) => conversation.id) },
+      [Op.and]: sequelize.where(
+        sequelize.fn('to_tsvector', 'english', sequelize.col(`Message.${column}`)),
+        { [Op.match]: sequelize.fn('plainto_tsquery', 'english', terms) },
+      ),
+    },
+    include: [{ model: User, as: 'sender', attributes: ['id', 'firstName', 'lastName'] }],
+    order: [['createdAt', 'DESC']],
+    limit: Math.min(parseInt(limit, 10) || 20, 50),
+  });
+
+  const byId = new Map(
+    conversations.map((conversation) => [String(conversation.id), conversation]),
+  );
+  const otherIds = [
+    ...new Set(conversations.map((conversation) => otherParticipantId(conversation, userId))),
+  ];
+  const [others, vendors] = await Promise.all([
+    User.findAll({ where: { id: otherIds }, attributes: ['id', 'firstName', 'lastName'] }),
+    Vendor.findAll({ where: { userId: otherIds }, attributes: ['id', 'userId', 'shopName'] }),
+  ]);
+  const otherById = new Map(others.map((user) => [String(user.id), user]));
+  const vendorByUser = new Map(vendors.map((vendor) => [String(vendor.userId), vendor]));
+
+  return messages.map((message) => {
+    const conversation = byId.get(String(message.conversationId));
+    const otherId = otherParticipantId(conversation, userId);
+    const vendor = vendorByUser.get(String(otherId));
+    return {
+      ...toMessagePayload(message),
+      itemType: conversation.itemType || null,
+      itemId: conversation.itemId || null,
+      snippet: searchSnippet(message.body, terms),
+      isMine: String(message.senderId) === String(userId),
+      sender: message.sender,
+      otherUser: otherById.get(String(otherId)) || null,
+      vendor: vendor ? { id: vendor.id, shopName: vendor.shopName } : null,
+    };
+  });
+}
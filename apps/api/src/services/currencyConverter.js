@@ -0,0 +1,92 @@
+/**
+ * Currency Converter
+ * Pure conversion against admin-maintained exchange rates. Rates are quoted as units of a
+ * currency per one unit of the base currency (USD = 1), so any pair converts through the base.
+ */
+
+export const BASE_CURRENCY = 'USD';
+
+// Stripe charges these in whole units rather than cents
+const ZERO_DECIMAL_CURRENCIES = ['JPY', 'KRW', 'VND', 'CLP', 'ISK', 'HUF', 'TWD', 'UGX'];
+
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+const toNumber = (value) => {
+  const num = parseFloat(value);
+  return isNaN(num) ? 0 : num;
+};
+
+/**
+ * ISO-4217 code, falling back to the base currency for blank or malformed values
+ */
+export function normalizeCurrency(code) {
+  const currency = String(code || '')
+    .trim()
+    .toUpperCase();
+  return /^[A-Z]{3}$/.test(currency) ? currency : BASE_CURRENCY;
+}
+
+/**
+ * Rate lookup ({ EUR: 0.92, ... }) from exchange rate rows; inactive rows are skipped
+ */
+export function buildRateTable(rows = []) {
+  const rates = {};
+
+  for (const row of rows) {
+    if (row.isActive === false) continue;
+    const rate = toNumber(row.rate);
+    if (rate > 0) rates[normalizeCurrency(row.currency)] = rate;
+  }
+
+  rates[BASE_CURRENCY] = 1;
+  return rates;
+}
+
+/**
+ * Convert an amount between currencies, rounded to cents
+ * Throws when either currency has no rate so orders are never charged at a guessed rate
+ */
+export function convertAmount(amount, from, to, rates = {}) {
+  const source = normalizeCurrency(from);
+  const target = normalizeCurrency(to);
+  const value = toNumber(amount);
+
+  if (source === target) return roundMoney(value);
+
+  const sourceRate = source === BASE_CURRENCY ? 1 : rates[source];
+  const targetRate = target === BASE_CURRENCY ? 1 : rates[target];
+  if (!sourceRate || !targetRate) {
+    throw new Error(`No exchange rate for ${!sourceRate ? source : target}`);
+  }
+
+  return roundMoney((value / sourceRate) * targetRate);
+}
+
+/**
+ * Currency an order settles in: the listing currency when every item shares one,
+ * otherwise the base currency
+ */
+export function resolveSettlementCurrency(currencies = []) {
+  const unique = [...new Set(currencies.map(normalizeCurrency))];
+  return unique.length === 1 ? unique[0] : BASE_CURRENCY;
+}
+
+/**
+ * Amount in the smallest unit Stripe expects for the currency
+ */
+export function toMinorUnits(amount, currency) {
+  const value = toNumber(amount);
+  return ZERO_DECIMAL_CURRENCIES.includes(normalizeCurrency(currency))
+    ? Math.round(value)
+    : Math.round(value * 100);
+}
+
+/**
+ * Amount from the smallest unit Stripe reports, e.g. a dispute or refund amount
+ */
+export function fromMinorUnits(minorAmount, currency) {
+  const value = toNumber(minorAmount);
+  return ZERO_DECIMAL_CURRENCIES.includes(normalizeCurrency(currency))
+    ? value
+    : roundMoney(value / 100);
+}
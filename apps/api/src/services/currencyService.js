@@ -0,0 +1,23 @@
+/**
+ * Currency Service
+ * Loads admin-maintained exchange rates for conversion and order settlement
+ */
+
+import db from '../models/index.js';
+import { buildRateTable } from './currencyConverter.js';
+
+const { ExchangeRate } = db;
+
+/**
+ * Active exchange rates as a lookup table ({ USD: 1, EUR: 0.92, ... })
+ */
+export async function loadRateTable({ transaction } = {}) {
+  const rows = await ExchangeRate.findAll({
+    where: { isActive: true },
+    attributes: ['currency', 'rate', 'isActive'],
+    raw: true,
+    transaction,
+  });
+
+  return buildRateTable(rows);
+}
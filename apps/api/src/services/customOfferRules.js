@@ -0,0 +1,131 @@
+/**
+ * Custom Offer Rules
+ * Pure rules for negotiating a custom offer: who is buyer or vendor on an offer, what each can
+ * do with it, counter-offer prices, and the summary line an offer event leaves in the item's
+ * conversation
+ *
+ * The party that made a pending offer can only withdraw it; the other party accepts, declines or
+ * counters it. A counter marks the offer countered and becomes a new pending offer from the
+ * countering party, so a negotiation is a chain of offers linked by counterOfId.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const OFFER_EXPIRY_DAYS = 7;
+export const OFFER_ITEM_TYPES = ['book', 'product'];
+
+// Response action -> status it leaves the answered offer in (and the chat event it posts)
+export const OFFER_ACTIONS = {
+  accept: 'accepted',
+  decline: 'declined',
+  counter: 'countered',
+  cancel: 'cancelled',
+};
+
+const formatPrice = (amount) => `$${Number(amount).toFixed(2)}`;
+
+/**
+ * 'buyer', 'vendor' or null for a user on an offer
+ * @param {Object} offer - CustomOffer ({ userId })
+ * @param {Object} party - { userId, vendorUserId } where vendorUserId is the offer vendor's user
+ */
+export function offerParty(offer, { userId, vendorUserId }) {
+  if (userId == null) return null;
+  if (String(offer.userId) === String(userId)) return 'buyer';
+  if (vendorUserId != null && String(vendorUserId) === String(userId)) return 'vendor';
+  return null;
+}
+
+export const isOfferExpired = (offer, now = new Date()) =>
+  offer.status === 'pending' && !!offer.expiresAt && new Date(offer.expiresAt) <= now;
+
+/**
+ * Response actions a party can take on an offer right now
+ */
+export function allowedOfferActions(offer, party, now = new Date()) {
+  if (!party || offer.status !== 'pending' || isOfferExpired(offer, now)) return [];
+  return offer.initiatedBy === party ? ['cancel'] : ['accept', 'decline', 'counter'];
+}
+
+/**
+ * Why an offer price is unacceptable, or null
+ */
+export function offerPriceError(price, originalPrice) {
+  const amount = Number(price);
+  if (price === '' || price == null || !Number.isFinite(amount) || amount <= 0) {
+    return 'Offer price must be a positive amount';
+  }
+  if (originalPrice != null && amount > Number(originalPrice)) {
+    return `Offer price cannot be above the listed price of ${formatPrice(originalPrice)}`;
+  }
+  return null;
+}
+
+export const offerExpiry = (now = new Date(), days = OFFER_EXPIRY_DAYS) =>
+  new Date(now.getTime() + days * DAY_MS);
+
+/**
+ * Summary line for an offer event in the conversation (the message body, so it is searchable)
+ */
+export function offerEventText(event, offer) {
+  const price = formatPrice(offer.offerPrice);
+  switch (event) {
+    case 'created':
+      return `Offered ${price}`;
+    case 'countered':
+      return `Countered with ${price}`;
+    case 'accepted':
+      return `Accepted the offer of ${price}`;
+    case 'declined':
+      return `Declined the offer of ${price}`;
+    case 'cancelled':
+      return `Withdrew the offer of ${price}`;
+    case 'expired':
+      return `The offer of ${price} expired`;
+    default:
+      return `Offer of ${price}`;
+  }
+}
+
+/**
+ * An offer as chat messages show it
+ */
+export const toChatOffer = (offer) => ({
+  id: offer.id,
+  itemType: offer.itemType,
+  itemId: offer.itemId,
+  originalPrice: offer.originalPrice,
+  offerPrice: offer.offerPrice,
+  message: offer.message || null,
+  status: isOfferExpired(offer) ? 'expired' : offer.status,
+  initiatedBy: offer.initiatedBy,
+  counterOfId: offer.counterOfId || null,
+  expiresAt: offer.expiresAt || null,
+});
+
+/**
+ * The card an item conversation shows at the top of its thread
+ * @param {string} itemType - 'book' or 'product'
+ * @param {Object} item - Book (with media) or Product
+ */
+export function toChatItem(itemType, item) {
+  if (!item) return null;
+  const media = item.media?.find((m) => m.isPrimary) || item.media?.[0];
+  const image = item.images?.[0];
+  return {
+    type: itemType,
+    id: item.id,
+    title: item.title,
+    sid: item.sid || null,
+    price: item.price,
+    salePrice: item.salePrice ?? null,
+    status: item.status || null,
+    vendorId: item.vendorId,
+    imageUrl:
+      media?.thumbnailUrl ||
+      media?.imageUrl ||
+      item.featuredImage ||
+      (typeof image === 'string' ? image : image?.url) ||
+      null,
+  };
+}
@@ -205,6 +205,37 @@ const FALLBACK_TEMPLATES = {
       '<p><a href="{{orderLink}}" style="display:inline-block;padding:12px 24px;background:#000;color:#fff;text-decoration:none;margin:16px 0;">View Order Details</a></p>' +
       '<p>Thank you for being a valued vendor!</p>',
   },
+  // Saved search alerts
+  saved_search_match: {
+    subject: 'New match for "{{searchName}}" - Ageless Literature',
+    bodyHtml:
+      '<h1>A New Listing Matches Your Search</h1>' +
+      '<p>Hi {{userName}},</p>' +
+      '<p>A newly listed item matches your saved search <strong>{{searchName}}</strong>:</p>' +
+      '<p><strong>{{itemTitle}}</strong><br/>{{itemPrice}}</p>' +
+      '<p><a href="{{itemLink}}" style="display:inline-block;padding:12px 24px;background:#000;color:#fff;text-decoration:none;margin:16px 0;">View Listing</a></p>' +
+      '<p><a href="{{manageLink}}">Manage your saved searches</a></p>',
+  },
+  // Any notification, rendered from its title and message
+  'notification-event': {
+    subject: '{{subjectTitle}} - Ageless Literature',
+    bodyHtml:
+      '<h1>{{title}}</h1>' +
+      '<p>Hi {{userName}},</p>' +
+      '<p>{{message}}</p>' +
+      '<p><a href="{{notificationsUrl}}" style="display:inline-block;padding:12px 24px;background:#000;color:#fff;text-decoration:none;margin:16px 0;">View Notifications</a></p>',
+  },
+  // Daily and weekly summaries of notifications held back from instant email
+  'notification-digest': {
+    subject: 'Your Ageless Literature summary: {{summary}}',
+    bodyHtml:
+      '<h1>Here is what you missed</h1>' +
+      '<p>Hi {{userName}},</p>' +
+      '<p>You have {{summary}} waiting for you.</p>' +
+      '{{itemsHtml}}' +
+      '<p><a href="{{notificationsUrl}}" style="display:inline-block;padding:12px 24px;background:#000;color:#fff;text-decoration:none;margin:16px 0;">View All Notifications</a></p>' +
+      '<p><a href="{{preferencesUrl}}">Change how often we email you</a></p>',
+  },
   'test-email': {
     subject: 'Test Email - Ageless Literature',
     bodyHtml:
@@ -357,6 +388,8 @@ export default {
   sendTestEmail,
 };
 
+export { FALLBACK_TEMPLATES, replaceVariables };
+
 /**
  * ==============================================================================
  * SMS Service - Twilio Integration
@@ -0,0 +1,119 @@
+/**
+ * Catalog Export
+ * Streams a vendor's (or the whole store's) books as CSV, JSON or ONIX 3.0, a page of books at a
+ * time, so exports of any size run in constant memory
+ */
+
+import { once } from 'events';
+import { Op } from 'sequelize';
+import {
+  csvHeader,
+  csvLine,
+  exportRecord,
+  onixFooter,
+  onixHeader,
+  onixProduct,
+} from './catalogFormats.js';
+
+// Books loaded per query
+const EXPORT_PAGE_SIZE = 500;
+
+// Response headers per format
+export const EXPORT_CONTENT_TYPES = {
+  csv: { type: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { type: 'application/json; charset=utf-8', extension: 'json' },
+  onix: { type: 'application/xml; charset=utf-8', extension: 'xml' },
+};
+
+/**
+ * Where clause for an export
+ * @param {Object} options - From exportOptions
+ * @param {number|null} vendorId - Limit to one vendor's books
+ */
+function exportWhere({ status, category, from, to }, vendorId) {
+  const where = {};
+  if (vendorId) where.vendorId = vendorId;
+  if (status) where.status = status;
+  if (category) where.category = category;
+  if (from || to) {
+    where.createdAt = {};
+    if (from) where.createdAt[Op.gte] = from;
+    if (to) where.createdAt[Op.lte] = to;
+  }
+  return where;
+}
+
+/**
+ * Write an export to a writable stream (the HTTP response)
+ * Books are read in id order with keyset pagination; writing waits for the stream to drain and
+ * stops early if the client goes away.
+ * @param {Writable} out
+ * @param {Object} options - From exportOptions
+ * @param {Object} db - Models
+ * @param {Object} scope - { vendorId, senderName }
+ * @returns {Promise<number>} Books written
+ */
+export async function streamCatalogExport(out, options, db, { vendorId = null, senderName } = {}) {
+  const { Book, BookMedia, Vendor } = db;
+  const where = exportWhere(options, vendorId);
+  // A client that disconnects never drains the stream, so a close ends the wait as well and the
+  // destroyed check below stops the export
+  const write = async (chunk) => {
+    if (out.destroyed || out.write(chunk)) return;
+    const waiting = new AbortController();
+    await Promise.race([
+      once(out, 'drain', { signal: waiting.signal }),
+      once(out, 'close', { signal: waiting.signal }),
+    ]).finally(() => waiting.abort());
+  };
+
+  if (options.format === 'csv') await write(csvHeader());
+  if (options.format === 'json') await write('[');
+  if (options.format === 'onix') await write(onixHeader({ senderName }));
+
+  let lastId = 0;
+  let written = 0;
+  while (!out.destroyed) {
+    const books = await Book.findAll({
+      where: { ...where, id: { [Op.gt]: lastId } },
+      include: [{ model: Vendor, as: 'vendor', attributes: ['id', 'shopName'] }],
+      order: [['id', 'ASC']],
+      limit: EXPORT_PAGE_SIZE,
+    });
+    if (books.length === 0) break;
+    lastId = books[books.length - 1].id;
+
+    const media = await BookMedia.findAll({
+      where: { bookId: books.map((book) => book.id) },
+      attributes: ['bookId', 'imageUrl', 'displayOrder'],
+      order: [['displayOrder', 'ASC']],
+    });
+    const imagesByBook = new Map();
+    for (const item of media) {
+      if (!imagesByBook.has(item.bookId)) imagesByBook.set(item.bookId, []);
+      imagesByBook.get(item.bookId).push(item.imageUrl);
+    }
+
+    let chunk = '';
+    for (const book of books) {
+      const record = exportRecord(book.get({ plain: true }), imagesByBook.get(book.id) || []);
+      if (options.format === 'csv') {
+        chunk += csvLine(record);
+      } else if (options.format === 'json') {
+        chunk += `${written > 0 ? ',' : ''}\n${JSON.stringify({ id: book.id, ...record })}`;
+      } else {
+        chunk += onixProduct(record, {
+          currency: book.currency,
+          supplierName: book.vendor?.shopName || senderName,
+        });
+      }
+      written++;
+    }
+    await write(chunk);
+    if (books.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  if (options.format === 'json') await write(written > 0 ? '\n]\n' : ']\n');
+  if (options.format === 'onix') await write(onixFooter());
+  return written;
+}
@@ -0,0 +1,257 @@
+/**
+ * Catalog Formats
+ * Pure helpers for catalog exports: export options, one record per book in the import's
+ * TARGET_FIELDS vocabulary, and the CSV, JSON and ONIX 3.0 writers built on those records
+ */
+
+import { TARGET_FIELDS } from '../import/importService.js';
+import { bibliographicImportValues } from '../bibliographicDetails.js';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'onix'];
+
+export const EXPORT_STATUSES = ['draft', 'pending', 'published', 'sold', 'archived'];
+
+// Target fields an export writes; sid and keywords are not stored apart from sku and category
+export const EXPORT_FIELDS = TARGET_FIELDS.filter(
+  (field) => field.key !== 'sid' && field.key !== 'keywords',
+);
+
+// Book attribute per target field, where it differs from the key
+const BOOK_ATTRIBUTES = { sku: 'sid', weight: 'shippingWeight' };
+
+// CSV header for a target field; auto-mapping takes each header back to its field on import
+export const csvColumn = (key) => key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+
+/**
+ * Validate export query parameters
+ * @param {Object} query - { format, status, category, from, to } (from/to bound the listing date)
+ * @returns {Object} { format, status, category, from, to }
+ */
+export function exportOptions(query = {}) {
+  const format = String(query.format || 'csv').toLowerCase();
+  if (!EXPORT_FORMATS.includes(format)) throw new Error(`Unknown export format "${format}"`);
+
+  const status = query.status && query.status !== 'all' ? String(query.status) : null;
+  if (status && !EXPORT_STATUSES.includes(status)) {
+    throw new Error(`Unknown listing status "${status}"`);
+  }
+
+  const date = (value, name) => {
+    if (!value) return null;
+    const parsed = new Date(value);
+    if (isNaN(parsed.getTime())) throw new Error(`Invalid ${name} date`);
+    return parsed;
+  };
+  const from = date(query.from, 'from');
+  const to = date(query.to, 'to');
+  if (from && to && from > to) throw new Error('The from date must be before the to date');
+
+  return { format, status, category: query.category ? String(query.category) : null, from, to };
+}
+
+/**
+ * Export record for a book, keyed by target field
+ * @param {Object} book - Book values
+ * @param {Array} images - Image URLs in display order
+ */
+export function exportRecord(book, images = []) {
+  const record = {};
+  for (const { key } of EXPORT_FIELDS) {
+    const value = book[BOOK_ATTRIBUTES[key] || key];
+    record[key] = value === undefined ? null : value;
+  }
+  if (record.description && typeof record.description === 'object') {
+    record.description = record.description.html || record.description.en || null;
+  }
+  Object.assign(record, bibliographicImportValues(book.bibliographicDetails));
+  record.images = images;
+  return record;
+}
+
+const csvValue = (value) => {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export function csvHeader() {
+  return EXPORT_FIELDS.map((field) => csvColumn(field.key)).join(',') + '\n';
+}
+
+/**
+ * CSV line for an export record, in the form the import parses back
+ */
+export function csvLine(record) {
+  return (
+    EXPORT_FIELDS.map(({ key, type }) => {
+      const value = record[key];
+      if (type === 'images') return csvValue((value || []).join(' | '));
+      if (type === 'boolean') return value ? 'yes' : value === false ? 'no' : '';
+      return csvValue(value);
+    }).join(',') + '\n'
+  );
+}
+
+// ─── ONIX 3.0 ───
+
+// ONIX code list 150 product forms by binding
+const PRODUCT_FORMS = [
+  [/hard|cloth|leather|board/i, 'BB'],
+  [/paper|soft|wrapper/i, 'BC'],
+];
+
+// ISO 639-2/B codes for the languages listings usually carry
+const LANGUAGE_CODES = {
+  english: 'eng',
+  french: 'fre',
+  german: 'ger',
+  spanish: 'spa',
+  italian: 'ita',
+  latin: 'lat',
+  dutch: 'dut',
+  portuguese: 'por',
+  russian: 'rus',
+  greek: 'gre',
+  japanese: 'jpn',
+  chinese: 'chi',
+};
+
+const xml = (value) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const element = (name, value, attrs = '') =>
+  value === null || value === undefined || value === ''
+    ? ''
+    : `<${name}${attrs}>${xml(value)}</${name}>`;
+
+const onixDateTime = (date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\d\d\.\d+Z$/, 'Z');
+
+export function onixHeader({ senderName, sentAt = new Date() }) {
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<ONIXMessage release="3.0" xmlns="http://ns.editeur.org/onix/3.0/reference">\n' +
+    `<Header><Sender>${element('SenderName', senderName || 'Bookstore')}</Sender>` +
+    `${element('SentDateTime', onixDateTime(sentAt))}</Header>\n`
+  );
+}
+
+export function onixFooter() {
+  return '</ONIXMessage>\n';
+}
+
+/**
+ * ONIX 3.0 Product for an export record
+ * Listings without an ISBN are identified by SKU alone; condition has no ONIX element and is
+ * left out.
+ * @param {Object} record - Export record (see exportRecord)
+ * @param {Object} options - { currency, supplierName }
+ */
+export function onixProduct(record, { currency = 'USD', supplierName } = {}) {
+  const parts = [`<Product>${element('RecordReference', record.sku)}`];
+  parts.push('<NotificationType>03</NotificationType>');
+  parts.push(
+    `<ProductIdentifier><ProductIDType>01</ProductIDType><IDTypeName>SKU</IDTypeName>${element(
+      'IDValue',
+      record.sku,
+    )}</ProductIdentifier>`,
+  );
+  const isbn = String(record.isbn || '').replace(/[^0-9X]/gi, '');
+  if (isbn.length === 13 || isbn.length === 10) {
+    parts.push(
+      `<ProductIdentifier><ProductIDType>${isbn.length === 13 ? '15' : '02'}</ProductIDType>` +
+        `${element('IDValue', isbn)}</ProductIdentifier>`,
+    );
+  }
+
+  // Descriptive detail
+  const form = PRODUCT_FORMS.find(([pattern]) => pattern.test(record.binding || ''));
+  parts.push('<DescriptiveDetail><ProductComposition>00</ProductComposition>');
+  parts.push(element('ProductForm', form ? form[1] : 'BA'));
+  parts.push(
+    '<TitleDetail><TitleType>01</TitleType><TitleElement><TitleElementLevel>01</TitleElementLevel>' +
+      `${element('TitleText', record.title)}</TitleElement></TitleDetail>`,
+  );
+  parts.push(
+    record.author
+      ? '<Contributor><SequenceNumber>1</SequenceNumber><ContributorRole>A01</ContributorRole>' +
+          `${element('PersonName', record.author)}</Contributor>`
+      : '<NoContributor/>',
+  );
+  parts.push(element('EditionStatement', record.edition));
+  const language = LANGUAGE_CODES[String(record.language || '').toLowerCase()];
+  if (language) {
+    parts.push(
+      `<Language><LanguageRole>01</LanguageRole>${element('LanguageCode', language)}</Language>`,
+    );
+  }
+  if (record.category) {
+    parts.push(
+      '<Subject><SubjectSchemeIdentifier>20</SubjectSchemeIdentifier>' +
+        `${element('SubjectHeadingText', record.category)}</Subject>`,
+    );
+  }
+  parts.push('</DescriptiveDetail>');
+
+  // Collateral detail: descriptions and images
+  const collateral = [];
+  const text = (type, value) =>
+    value
+      ? `<TextContent><TextType>${type}</TextType><ContentAudience>00</ContentAudience>` +
+        `${element('Text', value, ' textformat="02"')}</TextContent>`
+      : '';
+  collateral.push(text('02', record.shortDescription), text('03', record.description));
+  (record.images || []).forEach((url, i) => {
+    collateral.push(
+      `<SupportingResource><ResourceContentType>${i === 0 ? '01' : '07'}</ResourceContentType>` +
+        '<ContentAudience>00</ContentAudience><ResourceMode>03</ResourceMode>' +
+        `<ResourceVersion><ResourceForm>02</ResourceForm>${element('ResourceLink', url)}` +
+        '</ResourceVersion></SupportingResource>',
+    );
+  });
+  const collateralXml = collateral.join('');
+  if (collateralXml) parts.push(`<CollateralDetail>${collateralXml}</CollateralDetail>`);
+
+  // Publishing detail
+  parts.push('<PublishingDetail>');
+  if (record.publisher) {
+    parts.push(
+      `<Publisher><PublishingRole>01</PublishingRole>${element('PublisherName', record.publisher)}</Publisher>`,
+    );
+  }
+  parts.push('<PublishingStatus>00</PublishingStatus>');
+  if (record.publicationYear) {
+    parts.push(
+      '<PublishingDate><PublishingDateRole>01</PublishingDateRole>' +
+        `${element('Date', record.publicationYear, ' dateformat="05"')}</PublishingDate>`,
+    );
+  }
+  parts.push('</PublishingDetail>');
+
+  // Supply: availability, stock and price
+  const available = record.status === 'published' && (record.quantity ?? 1) > 0;
+  parts.push('<ProductSupply><SupplyDetail>');
+  parts.push(
+    `<Supplier><SupplierRole>00</SupplierRole>${element('SupplierName', supplierName || 'Bookstore')}</Supplier>`,
+  );
+  parts.push(element('ProductAvailability', available ? '20' : '40'));
+  if (record.quantity !== null && record.quantity !== undefined) {
+    parts.push(`<Stock>${element('OnHand', available ? record.quantity : 0)}</Stock>`);
+  }
+  if (record.price !== null && record.price !== undefined) {
+    parts.push(
+      `<Price><PriceType>01</PriceType>${element('PriceAmount', Number(record.price).toFixed(2))}` +
+        `${element('CurrencyCode', currency)}</Price>`,
+    );
+  }
+  parts.push('</SupplyDetail></ProductSupply></Product>\n');
+
+  return parts.join('');
+}
@@ -0,0 +1,348 @@
+/**
+ * Import Diff
+ * Pure helpers for committing CSV imports: matching rows to a vendor's existing books, building
+ * the fields a row writes, field-level diffs for dry runs and rollback snapshots, and which
+ * listings a sync import archives
+ */
+
+import {
+  BIBLIOGRAPHIC_IMPORT_FIELDS,
+  bibliographicDetailsFromRow,
+  mergeBibliographicDetails,
+  summarizeBibliographicDetails,
+} from '../bibliographicDetails.js';
+
+// Target fields stored on books, by book attribute
+const BOOK_COLUMNS = {
+  title: 'title',
+  author: 'author',
+  isbn: 'isbn',
+  description: 'description',
+  shortDescription: 'shortDescription',
+  price: 'price',
+  quantity: 'quantity',
+  condition: 'condition',
+  category: 'category',
+  status: 'status',
+  sku: 'sid',
+  wpPostId: 'wpPostId',
+};
+
+// Book attributes an import can change; diffs and rollback snapshots cover these. The
+// bibliographic target fields are written together as bibliographicDetails.
+export const DIFF_FIELDS = [...Object.values(BOOK_COLUMNS), 'bibliographicDetails'];
+
+// Listing statuses a sync import archives when the book is missing from the file
+export const SYNC_ARCHIVABLE_STATUSES = ['draft', 'pending', 'published'];
+
+const lower = (value) =>
+  String(value ?? '')
+    .trim()
+    .toLowerCase();
+
+/**
+ * Index a vendor's books by every identifier a match strategy can use
+ */
+export function buildBookIndex(books) {
+  const index = { isbn: new Map(), sid: new Map(), wpPostId: new Map(), titleAuthor: new Map() };
+  for (const book of books) addToBookIndex(index, book);
+  return index;
+}
+
+/**
+ * Add a book to an index; the first book seen for an identifier wins, as with findOne
+ */
+export function addToBookIndex(index, book) {
+  const add = (map, key) => {
+    if (key && !map.has(key)) map.set(key, book);
+  };
+  add(index.isbn, book.isbn ? String(book.isbn) : null);
+  add(index.sid, book.sid ? String(book.sid) : null);
+  add(index.wpPostId, book.wpPostId ? String(book.wpPostId) : null);
+  if (book.title && book.author) {
+    add(index.titleAuthor, `${lower(book.title)}\u0000${lower(book.author)}`);
+  }
+}
+
+/**
+ * Existing book a row matches under a strategy, or null
+ * @param {string} matchStrategy - isbn | sku | title_author | wp_post_id | none
+ */
+export function findBookMatch(index, row, matchStrategy) {
+  switch (matchStrategy) {
+    case 'isbn':
+      return row.isbn ? index.isbn.get(String(row.isbn)) || null : null;
+    case 'sku':
+      return row.sku ? index.sid.get(String(row.sku)) || null : null;
+    case 'wp_post_id':
+      return row.wpPostId ? index.wpPostId.get(String(row.wpPostId)) || null : null;
+    case 'title_author':
+      return row.title && row.author
+        ? index.titleAuthor.get(`${lower(row.title)}\u0000${lower(row.author)}`) || null
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Book attributes a row writes
+ * A full row fills defaults for anything missing, as for a new listing. A sparse row writes
+ * only the mapped columns, so an update leaves everything else on the listing untouched.
+ * @param {Object} row - Normalized import row
+ * @param {Object} options
+ * @param {number} options.vendorId
+ * @param {string} options.defaultStatus - Status for rows without one
+ * @param {Array} options.mappedFields - Target fields mapped to a CSV column (sparse rows)
+ * @param {boolean} options.sparse
+ */
+export function buildBookData(row, { vendorId, defaultStatus = 'draft', mappedFields, sparse }) {
+  if (sparse) {
+    const data = {};
+    for (const key of mappedFields || []) {
+      const column = BOOK_COLUMNS[key];
+      if (!column || row[key] === undefined) continue;
+      if (key === 'description') {
+        data.description = row.description ? { html: row.description } : null;
+      } else if (key === 'status') {
+        data.status = row.status || defaultStatus;
+      } else {
+        data[column] = row[key] === '' ? null : row[key];
+      }
+    }
+    // Only the mapped detail keys; planImport merges them into the stored details
+    const bibliographicKeys = (mappedFields || []).filter((key) =>
+      BIBLIOGRAPHIC_IMPORT_FIELDS.includes(key),
+    );
+    if (bibliographicKeys.length > 0) {
+      const { details } = bibliographicDetailsFromRow(row, bibliographicKeys);
+      if (details) data.bibliographicDetails = details;
+    }
+    return data;
+  }
+
+  const data = {
+    vendorId,
+    title: row.title,
+    author: row.author,
+    isbn: row.isbn || null,
+    description: row.description ? { html: row.description } : null,
+    shortDescription: row.shortDescription || null,
+    price: row.price,
+    quantity: row.quantity || 1,
+    condition: row.condition || 'good',
+    category: row.category || null,
+    status: row.status || defaultStatus,
+    language: row.language || 'English',
+  };
+
+  if (row.sku) data.sid = row.sku; // book_id from CSV → sid field
+  if (row.publisher) data.publisher = row.publisher;
+  if (row.publicationYear) data.publicationYear = row.publicationYear;
+  if (row.edition) data.edition = row.edition;
+  if (row.binding) data.binding = row.binding;
+  if (row.isSigned !== undefined) data.isSigned = row.isSigned;
+  if (row.weight) data.weight = row.weight;
+  if (row.wpPostId) data.wpPostId = row.wpPostId;
+
+  const { details } = bibliographicDetailsFromRow(row);
+  if (details) data.bibliographicDetails = details;
+
+  return data;
+}
+
+// JSON with object keys sorted, since jsonb columns don't keep the order they were written in
+const sortedJson = (value) =>
+  JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v,
+  );
+
+/**
+ * Comparable form of a book attribute: decimals as numbers, descriptions as HTML, blanks as null
+ */
+function comparable(field, value) {
+  if (value === undefined || value === null || value === '') return null;
+  if (field === 'bibliographicDetails') return sortedJson(value);
+  if (field === 'description') {
+    const html = typeof value === 'object' ? value.html || value.en || '' : String(value);
+    return html.trim() || null;
+  }
+  if (field === 'price' || field === 'quantity' || field === 'wpPostId') {
+    const num = parseFloat(value);
+    return isNaN(num) ? null : num;
+  }
+  return String(value).trim();
+}
+
+/**
+ * Field-level changes a write would make to a book
+ * @param {Object} existing - Current book values
+ * @param {Object} data - Attributes to write (see buildBookData)
+ * @returns {Array} [{ field, before, after }] with before as stored, for rollback snapshots
+ */
+export function diffBook(existing, data) {
+  const changes = [];
+  for (const field of DIFF_FIELDS) {
+    if (!(field in data)) continue;
+    const before = existing[field] ?? null;
+    if (comparable(field, before) !== comparable(field, data[field])) {
+      changes.push({ field, before, after: data[field] ?? null });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Whether a row's image URLs differ from the book's current media
+ */
+export function imagesChanged(currentUrls, rowImages) {
+  if (!Array.isArray(rowImages) || rowImages.length === 0) return false;
+  const next = rowImages.map((url) => url.trim());
+  return next.length !== currentUrls.length || next.some((url, i) => url !== currentUrls[i]);
+}
+
+/**
+ * Decide what an import does with each row, without writing anything
+ * @param {Array} rows - Valid normalized rows
+ * @param {Array} books - The vendor's books (with DIFF_FIELDS, status and id)
+ * @param {Object} options
+ * @param {string} options.mode - create | update | upsert | sync (upsert, then archive the rest)
+ * @param {string} options.matchStrategy
+ * @param {boolean} options.sparse - Updates write only mapped columns
+ * @param {Array} options.mappedFields - Target fields mapped to a CSV column
+ * @param {Map} options.mediaByBook - bookId → current image URLs
+ * @returns {Object} { plan: [{ row, action, book, data, changes, replaceImages, reason }], archive }
+ */
+export function planImport(rows, books, options) {
+  const {
+    mode = 'upsert',
+    matchStrategy = 'sku',
+    sparse = false,
+    mappedFields = [],
+    mediaByBook = new Map(),
+    vendorId,
+    defaultStatus,
+  } = options;
+  const index = buildBookIndex(books);
+  const created = buildBookIndex([]);
+  const matchedIds = new Set();
+  const plan = [];
+
+  for (const row of rows) {
+    const existing =
+      mode !== 'create' && matchStrategy !== 'none'
+        ? findBookMatch(index, row, matchStrategy)
+        : null;
+
+    if (existing) {
+      matchedIds.add(existing.id);
+      const data = buildBookData(row, { vendorId, defaultStatus, mappedFields, sparse });
+      if (sparse && data.bibliographicDetails) {
+        data.bibliographicDetails = mergeBibliographicDetails(
+          existing.bibliographicDetails,
+          data.bibliographicDetails,
+        );
+      }
+      const changes = diffBook(existing, data);
+      const replaceImages =
+        (!sparse || mappedFields.includes('images')) &&
+        imagesChanged(mediaByBook.get(existing.id) || [], row.images);
+      plan.push({
+        row,
+        action: changes.length > 0 || replaceImages ? 'update' : 'unchanged',
+        book: existing,
+        data,
+        changes,
+        replaceImages,
+      });
+      continue;
+    }
+
+    if (mode === 'update') {
+      plan.push({ row, action: 'skip', reason: 'No matching listing' });
+      continue;
+    }
+
+    // A later row for a listing this import creates would otherwise create it twice
+    const duplicate = matchStrategy !== 'none' && findBookMatch(created, row, matchStrategy);
+    if (duplicate) {
+      plan.push({ row, action: 'skip', reason: `Duplicate of row ${duplicate._rowIndex}` });
+      continue;
+    }
+
+    const data = buildBookData(row, { vendorId, defaultStatus });
+    addToBookIndex(created, { ...data, _rowIndex: row._rowIndex });
+    plan.push({ row, action: 'create', data, changes: [], replaceImages: false });
+  }
+
+  const archive = mode === 'sync' ? syncArchiveCandidates(books, matchedIds) : [];
+  return { plan, archive };
+}
+
+/**
+ * Dry-run report for an import plan: counts plus per-row field-level changes
+ */
+export function summarizePlan({ plan, archive }) {
+  const show = (field, value) => {
+    if (field === 'bibliographicDetails') return summarizeBibliographicDetails(value);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value.html || '' : value;
+  };
+  const summary = { create: 0, update: 0, unchanged: 0, skip: 0, archive: archive.length };
+  for (const entry of plan) summary[entry.action]++;
+
+  return {
+    summary,
+    rows: plan.map((entry) => ({
+      rowIndex: entry.row._rowIndex,
+      title: entry.row.title,
+      action: entry.action,
+      bookId: entry.book?.id ?? null,
+      changes: (entry.changes || []).map((change) => ({
+        field: change.field,
+        before: show(change.field, change.before),
+        after: show(change.field, change.after),
+      })),
+      imagesChanged: !!entry.replaceImages,
+      reason: entry.reason || null,
+    })),
+    archive: archive.map((book) => ({ bookId: book.id, title: book.title, status: book.status })),
+  };
+}
+
+/**
+ * Listings a sync import archives: the vendor's live listings no row matched
+ * @param {Array} books - The vendor's books ({ id, status })
+ * @param {Set} matchedIds - Ids of books matched by a row
+ */
+export function syncArchiveCandidates(books, matchedIds) {
+  return books.filter(
+    (book) => !matchedIds.has(book.id) && SYNC_ARCHIVABLE_STATUSES.includes(book.status),
+  );
+}
+
+/**
+ * What rolling back one batch item does to its book
+ * A book edited after the import (or sold) is left alone unless forced, so a rollback never
+ * discards later work.
+ * @param {Object} item - { action: created | updated | archived, before }
+ * @param {Object|null} book - The book as it is now
+ * @param {Date} importedAt - When the import finished
+ * @param {boolean} force - Roll back books edited since the import too
+ * @returns {Object} { action: delete | restore | skip, reason }
+ */
+export function rollbackAction(item, book, importedAt, force = false) {
+  if (!book) {
+    return item.action === 'created'
+      ? { action: 'skip', reason: 'Already deleted' }
+      : { action: 'skip', reason: 'Book no longer exists' };
+  }
+  if (book.status === 'sold' && item.action === 'created') {
+    return { action: 'skip', reason: 'Sold since the import' };
+  }
+  if (!force && importedAt && new Date(book.updatedAt) > new Date(importedAt)) {
+    return { action: 'skip', reason: 'Edited since the import' };
+  }
+  return { action: item.action === 'created' ? 'delete' : 'restore' };
+}
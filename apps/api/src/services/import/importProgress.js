@@ -0,0 +1,127 @@
+/**
+ * Import Progress
+ * Pure helpers for background imports: which books a chunk of rows can match, what each plan
+ * entry did to its row, progress reporting, cancellation and the downloadable result report
+ */
+
+// Rows planned and written per transaction
+export const IMPORT_CHUNK_SIZE = 200;
+
+// Batches the background job still has work for
+export const ACTIVE_BATCH_STATUSES = ['queued', 'running', 'cancelling'];
+
+// Batches whose changes can be rolled back
+export const ROLLBACK_BATCH_STATUSES = ['completed', 'cancelled', 'failed'];
+
+// Plan action → row status
+const ROW_STATUS = {
+  create: 'created',
+  update: 'updated',
+  unchanged: 'unchanged',
+  skip: 'skipped',
+};
+
+/**
+ * Identifiers a chunk of rows can match on, so only those books are loaded
+ * @returns {Object|null} { attribute, values } (attribute 'title' holds lowercased titles),
+ *   or null when the rows cannot match existing books
+ */
+export function matchIdentifiers(rows, matchStrategy) {
+  const pick = {
+    isbn: ['isbn', (row) => row.isbn],
+    sku: ['sid', (row) => row.sku],
+    wp_post_id: ['wpPostId', (row) => row.wpPostId],
+    title_author: ['title', (row) => (row.title && row.author ? row.title.toLowerCase() : null)],
+  }[matchStrategy];
+  if (!pick) return null;
+
+  const [attribute, value] = pick;
+  const values = [...new Set(rows.map(value).filter(Boolean).map(String))];
+  return values.length > 0 ? { attribute, values } : null;
+}
+
+/**
+ * What a processed plan entry records on its row
+ * @returns {Object} { status, bookId, message }
+ */
+export function rowOutcome(entry, bookId = null) {
+  return {
+    status: ROW_STATUS[entry.action],
+    bookId: bookId ?? entry.book?.id ?? null,
+    message: entry.reason || null,
+  };
+}
+
+/**
+ * What a plan entry that failed to write records on its row
+ * The row keeps the book it matched, so a sync import does not archive that listing as missing
+ * from the file.
+ * @returns {Object} { status, bookId, message }
+ */
+export function failedRowOutcome(entry, message) {
+  return { status: 'failed', bookId: entry?.book?.id ?? null, message };
+}
+
+/**
+ * Progress snapshot of a batch for the progress endpoint
+ */
+export function batchProgress(batch) {
+  const total = batch.totalRows || 0;
+  const processed = Math.min(batch.processedRows || 0, total);
+  return {
+    batchId: batch.id,
+    importId: batch.importId,
+    fileName: batch.fileName,
+    mode: batch.mode,
+    status: batch.status,
+    totalRows: total,
+    processedRows: processed,
+    percent: total > 0 ? Math.floor((processed / total) * 100) : 0,
+    active: ACTIVE_BATCH_STATUSES.includes(batch.status),
+    canRollback: ROLLBACK_BATCH_STATUSES.includes(batch.status),
+    createdCount: batch.createdCount,
+    updatedCount: batch.updatedCount,
+    unchangedCount: batch.unchangedCount,
+    skippedCount: batch.skippedCount,
+    failedCount: batch.failedCount,
+    archivedCount: batch.archivedCount,
+    lastError: batch.lastError || null,
+    startedAt: batch.startedAt || null,
+    completedAt: batch.completedAt || null,
+    createdAt: batch.createdAt,
+  };
+}
+
+/**
+ * Status a cancel request moves a batch to
+ * A queued batch is cancelled outright; a running one finishes its current chunk first.
+ * @returns {string|null} Next status, or null when the batch can no longer be cancelled
+ */
+export function cancelTransition(status) {
+  if (status === 'queued') return 'cancelled';
+  if (status === 'running') return 'cancelling';
+  return null;
+}
+
+const csvValue = (value) => {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+/**
+ * Result report for a batch: one line per row with what happened to it
+ * @param {Array} rows - ImportBatchRow records ({ rowIndex, data, status, bookId, message })
+ */
+export function batchReportCSV(rows) {
+  const lines = [['row', 'title', 'sku', 'isbn', 'result', 'book_id', 'message'].join(',')];
+  for (const row of rows) {
+    const data = row.data || {};
+    lines.push(
+      [row.rowIndex, data.title, data.sku, data.isbn, row.status, row.bookId, row.message]
+        .map(csvValue)
+        .join(','),
+    );
+  }
+  return lines.join('\n') + '\n';
+}
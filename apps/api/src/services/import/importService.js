@@ -1,16 +1,41 @@
 /**
  * Import Service
- * Core logic for CSV bulk import: parse, auto-map, validate, stage, commit
+ * Core logic for CSV bulk import: parse, auto-map, validate, stage (optionally filling blanks from
+ * an ISBN lookup), then queue the commit as an import batch the import-batch background job
+ * processes in chunks
  */
 
 import { parse } from 'csv-parse';
 import { Readable } from 'stream';
+import { Op } from 'sequelize';
+import { generateImportId, stageImport, getStagedImport } from './stagingStore.js';
+import { matchTemplate, templateMappings } from './mappingTemplates.js';
 import {
-  generateImportId,
-  stageImport,
-  getStagedImport,
-  storeImportResult,
-} from './stagingStore.js';
+  DIFF_FIELDS,
+  SYNC_ARCHIVABLE_STATUSES,
+  planImport,
+  rollbackAction,
+  summarizePlan,
+} from './importDiff.js';
+import {
+  IMPORT_CHUNK_SIZE,
+  ACTIVE_BATCH_STATUSES,
+  ROLLBACK_BATCH_STATUSES,
+  matchIdentifiers,
+  rowOutcome,
+  failedRowOutcome,
+  cancelTransition,
+} from './importProgress.js';
+import { lookupSuggestions } from '../isbn/isbn.js';
+import { lookupIsbns } from '../isbn/isbnLookup.js';
+import {
+  DUST_JACKET_STATES,
+  SIGNATURE_TYPES,
+  bibliographicDetailsFromRow,
+} from '../bibliographicDetails.js';
+
+// Rows kept from a CSV; larger files are truncated
+export const MAX_IMPORT_ROWS = 50000;
 
 // ─── TARGET FIELD DEFINITIONS ───
 export const TARGET_FIELDS = [
@@ -51,6 +76,20 @@ export const TARGET_FIELDS = [
   { key: 'language', label: 'Language', required: false, type: 'string', default: 'English' },
   { key: 'binding', label: 'Binding', required: false, type: 'string' },
   { key: 'isSigned', label: 'Signed', required: false, type: 'boolean' },
+  { key: 'firstPrinting', label: 'First Printing', required: false, type: 'boolean' },
+  {
+    key: 'dustJacket',
+    label: 'Dust Jacket',
+    required: false,
+    type: 'enum',
+    options: DUST_JACKET_STATES,
+  },
+  { key: 'signature', label: 'Signature', required: false, type: 'enum', options: SIGNATURE_TYPES },
+  { key: 'signedBy', label: 'Signed By', required: false, type: 'string' },
+  { key: 'inscription', label: 'Inscription', required: false, type: 'text' },
+  { key: 'pointsOfIssue', label: 'Points of Issue', required: false, type: 'string' },
+  { key: 'provenance', label: 'Provenance', required: false, type: 'string' },
+  { key: 'limitation', label: 'Limitation (e.g. 45/250)', required: false, type: 'string' },
   { key: 'weight', label: 'Weight', required: false, type: 'number' },
   { key: 'wpPostId', label: 'WP Post ID', required: false, type: 'number' },
   { key: 'sid', label: 'SID (Internal ID)', required: false, type: 'string' },
@@ -103,6 +142,14 @@ const COLUMN_ALIAS_MAP = {
   language: ['language', 'lang', 'languages'],
   binding: ['binding', 'binding_type', 'format', 'cover_type', 'book_format'],
   isSigned: ['signed', 'is_signed', 'autographed', 'signed_text'],
+  firstPrinting: ['first_printing', 'first_print', '1st_printing', 'first_impression'],
+  dustJacket: ['dust_jacket', 'dustjacket', 'jacket', 'dust_wrapper'],
+  signature: ['signature', 'signature_type', 'signed_or_inscribed'],
+  signedBy: ['signed_by', 'signer', 'autographed_by'],
+  inscription: ['inscription', 'inscribed_to', 'inscription_text', 'dedication'],
+  pointsOfIssue: ['points_of_issue', 'issue_points', 'points'],
+  provenance: ['provenance', 'former_owners', 'ownership_history'],
+  limitation: ['limitation', 'limited_edition', 'limitation_number', 'copy_number', 'numbered'],
   weight: ['weight', 'shipping_weight', 'item_weight'],
   wpPostId: ['wp_post_id', 'wordpress_id', 'post_id'],
   sid: ['sid', 'internal_id', 'external_id', 'ref'],
@@ -169,7 +216,7 @@ export function parseCSV(csvContent, options = {}) {
   return new Promise((resolve, reject) => {
     const rows = [];
     let headers = null;
-    const maxRows = options.maxRows || 5000;
+    const maxRows = options.maxRows || MAX_IMPORT_ROWS;
     let rowCount = 0;
 
     const parser = parse({
@@ -264,12 +311,17 @@ function normalizeValue(value, fieldDef) {
 
 /**
  * Apply mappings to raw CSV rows, normalizing values
+ * Optional transforms (from a mapping template) rewrite raw values before normalizing, fill
+ * per-field defaults and scale prices: { valueMaps, defaults, priceMultiplier }
  */
-export function applyMappings(rows, mappings) {
+export function applyMappings(rows, mappings, transforms = {}) {
   const fieldMap = {};
   for (const tf of TARGET_FIELDS) {
     fieldMap[tf.key] = tf;
   }
+  const valueMaps = transforms.valueMaps || {};
+  const defaults = transforms.defaults || {};
+  const priceMultiplier = parseFloat(transforms.priceMultiplier) || 1;
 
   return rows.map((row, index) => {
     const normalized = { _rowIndex: index + 1 };
@@ -278,7 +330,26 @@ export function applyMappings(rows, mappings) {
       if (!targetKey || targetKey === '__ignore__') continue;
       const fieldDef = fieldMap[targetKey];
       if (!fieldDef) continue;
-      normalized[targetKey] = normalizeValue(row[csvCol], fieldDef);
+
+      let value = row[csvCol];
+      const raw = value === undefined || value === null ? '' : String(value).trim();
+      if (!raw && defaults[targetKey] !== undefined) {
+        value = defaults[targetKey];
+      } else if (valueMaps[targetKey]?.[raw.toLowerCase()] !== undefined) {
+        value = valueMaps[targetKey][raw.toLowerCase()];
+      }
+      normalized[targetKey] = normalizeValue(value, fieldDef);
+    }
+
+    // Template defaults for fields the CSV doesn't have
+    for (const [key, value] of Object.entries(defaults)) {
+      if (normalized[key] === undefined && fieldMap[key]) {
+        normalized[key] = normalizeValue(value, fieldMap[key]);
+      }
+    }
+
+    if (priceMultiplier !== 1 && typeof normalized.price === 'number') {
+      normalized.price = Math.round(normalized.price * priceMultiplier * 100) / 100;
     }
 
     // Apply defaults for missing fields
@@ -332,6 +403,13 @@ export function validateRows(normalizedRows) {
     if (row.title && String(row.title).length > 500) {
       rowErrors.push({ field: 'title', message: 'Title exceeds 500 characters' });
     }
+    const bibliographic = bibliographicDetailsFromRow(row);
+    if (bibliographic.error) {
+      rowErrors.push({
+        field: bibliographic.field.startsWith('limitation') ? 'limitation' : bibliographic.field,
+        message: bibliographic.error,
+      });
+    }
 
     if (rowErrors.length > 0) {
       invalidRows.push({ ...row, _errors: rowErrors });
@@ -344,10 +422,36 @@ export function validateRows(normalizedRows) {
   return { validRows, invalidRows, errors };
 }
 
+/**
+ * Mappings for a CSV: the template's where it knows a column, auto-detected otherwise
+ */
+function mappingsForTemplate(headers, template) {
+  const fromTemplate = templateMappings(headers, template);
+  const used = new Set(Object.values(fromTemplate).filter(Boolean));
+  const remaining = headers.filter((header) => !(header in fromTemplate));
+  const detected = autoDetectMappings(remaining);
+
+  const mappings = {};
+  for (const header of headers) {
+    if (header in fromTemplate) {
+      mappings[header] = fromTemplate[header];
+    } else {
+      const target = detected[header];
+      mappings[header] = target && !used.has(target) ? target : null;
+    }
+  }
+  return mappings;
+}
+
 /**
  * Stage a CSV import: Parse -> auto-map -> validate -> store in staging
+ * @param {string|Buffer} csvContent
+ * @param {Object} meta - { fileName, vendorId, userId, role }
+ * @param {Object} options
+ * @param {Array} options.templates - Mapping templates available to the importer
+ * @param {number} options.templateId - Use this template instead of picking one by headers
  */
-export async function stageCSVImport(csvContent, meta = {}) {
+export async function stageCSVImport(csvContent, meta = {}, { templates = [], templateId } = {}) {
   const importId = generateImportId();
 
   const { headers, rows, totalParsed } = await parseCSV(csvContent);
@@ -359,8 +463,20 @@ export async function stageCSVImport(csvContent, meta = {}) {
     throw new Error('CSV file has no data rows');
   }
 
-  const suggestedMappings = autoDetectMappings(headers);
-  const normalizedRows = applyMappings(rows, suggestedMappings);
+  let match = null;
+  if (templateId) {
+    const template = templates.find((t) => t.id === parseInt(templateId, 10));
+    if (!template) throw new Error('Mapping template not found');
+    match = { template, score: null };
+  } else {
+    match = matchTemplate(headers, templates);
+  }
+
+  const suggestedMappings = match
+    ? mappingsForTemplate(headers, match.template)
+    : autoDetectMappings(headers);
+  const transforms = match?.template.transforms || {};
+  const normalizedRows = applyMappings(rows, suggestedMappings, transforms);
   const { validRows, invalidRows, errors } = validateRows(normalizedRows);
 
   const stats = {
@@ -368,14 +484,25 @@ export async function stageCSVImport(csvContent, meta = {}) {
     totalParsed,
     validRows: validRows.length,
     invalidRows: invalidRows.length,
-    truncated: totalParsed > 5000,
+    truncated: totalParsed > MAX_IMPORT_ROWS,
   };
 
+  const template = match
+    ? {
+        id: match.template.id,
+        name: match.template.name,
+        score: match.score,
+        autoSelected: !templateId,
+      }
+    : null;
+
   const stagingData = {
     importId,
     csvHeaders: headers,
     suggestedMappings,
     currentMappings: suggestedMappings,
+    currentTransforms: transforms,
+    template,
     rawRows: rows,
     normalizedRows: [...validRows, ...invalidRows],
     validationErrors: errors,
@@ -394,6 +521,8 @@ export async function stageCSVImport(csvContent, meta = {}) {
     importId,
     csvHeaders: headers,
     suggestedMappings,
+    transforms,
+    template,
     stats,
     validationErrors: errors,
     previewRows: [...validRows, ...invalidRows].slice(0, 100),
@@ -403,12 +532,24 @@ export async function stageCSVImport(csvContent, meta = {}) {
 
 /**
  * Re-map staged import with user-adjusted mappings
+ * @param {Object} transforms - Value transforms; omitted to keep the current ones
+ * @param {number|null} templateId - Template the mappings came from; omitted to keep the
+ *   current one
  */
-export async function remapStagedImport(importId, newMappings) {
+export async function remapStagedImport(importId, newMappings, transforms, templateId) {
   const staging = await getStagedImport(importId);
   if (!staging) throw new Error('Import session not found or expired');
 
-  const normalizedRows = applyMappings(staging.rawRows, newMappings);
+  if (transforms !== undefined) staging.currentTransforms = transforms;
+  if (templateId !== undefined) {
+    staging.template = templateId ? { id: templateId, autoSelected: false } : null;
+  }
+
+  const normalizedRows = applyMappings(
+    staging.rawRows,
+    newMappings,
+    staging.currentTransforms || {},
+  );
   const { validRows, invalidRows, errors } = validateRows(normalizedRows);
 
   const stats = {
@@ -447,6 +588,8 @@ export async function getStagedRows(importId, page = 1, limit = 50, filter = 'al
     rows = rows.filter((r) => !r._errors || r._errors.length === 0);
   } else if (filter === 'invalid') {
     rows = rows.filter((r) => r._errors && r._errors.length > 0);
+  } else if (filter === 'suggestions') {
+    rows = rows.filter((r) => r._suggestions || r._isbnError);
   }
 
   const total = rows.length;
@@ -459,174 +602,681 @@ export async function getStagedRows(importId, page = 1, limit = 50, filter = 'al
   };
 }
 
+// Distinct ISBNs looked up per request
+const MAX_ISBN_LOOKUPS = 1000;
+
+// The lookup runs inside the HTTP request, so it stops well before a proxy would time it out;
+// ISBNs it did not reach are resolved by running it again, as those already found are cached
+const ISBN_LOOKUP_BUDGET_MS = 20000;
+
+/**
+ * Re-validate staged rows after their values changed and refresh the counts
+ */
+function revalidateStagedRows(staging, rows) {
+  for (const row of rows) {
+    const { errors } = validateRows([{ ...row, _errors: undefined }]);
+    row._errors = errors.length > 0 ? errors[0].errors : undefined;
+  }
+
+  const validCount = staging.normalizedRows.filter(
+    (r) => !r._errors || r._errors.length === 0,
+  ).length;
+  staging.stats.validRows = validCount;
+  staging.stats.invalidRows = staging.normalizedRows.length - validCount;
+  staging.validationErrors = staging.normalizedRows
+    .filter((r) => r._errors && r._errors.length > 0)
+    .map((r) => ({ rowIndex: r._rowIndex, errors: r._errors }));
+}
+
 /**
- * Commit staged import to database
+ * Look up the ISBNs of a staged import and attach what the lookup found to each row as
+ * suggestions (_suggestions), for the importer to accept or reject field by field. Rows whose
+ * ISBN fails its checksum get _isbnError.
+ * @returns {Promise<Object>} { lookedUp, rowsWithSuggestions, invalidIsbns, failed, remaining,
+ *   truncated } — remaining counts ISBNs the time budget ran out before
  */
-export async function commitImport(importId, options, db) {
+export async function lookupStagedIsbns(importId) {
   const staging = await getStagedImport(importId);
   if (!staging) throw new Error('Import session not found or expired');
-  if (staging.status === 'committed') throw new Error('Import has already been committed');
 
+  const isbns = [...new Set(staging.normalizedRows.map((r) => r.isbn).filter(Boolean))];
+  const requested = isbns.slice(0, MAX_ISBN_LOOKUPS);
+  const results = await lookupIsbns(requested, { timeBudgetMs: ISBN_LOOKUP_BUDGET_MS });
+
+  const summary = {
+    lookedUp: results.size,
+    rowsWithSuggestions: 0,
+    invalidIsbns: 0,
+    failed: 0,
+    remaining: requested.length - results.size,
+    truncated: isbns.length > MAX_ISBN_LOOKUPS,
+  };
+  for (const row of staging.normalizedRows) {
+    const result = row.isbn ? results.get(String(row.isbn)) : null;
+    if (!result) continue;
+
+    delete row._isbnError;
+    delete row._suggestions;
+    if (!result.valid) {
+      row._isbnError = result.error;
+      summary.invalidIsbns++;
+      continue;
+    }
+    if (result.error) summary.failed++;
+
+    const suggestions = lookupSuggestions(row, result.metadata);
+    if (Object.keys(suggestions).length > 0) {
+      row._suggestions = suggestions;
+      summary.rowsWithSuggestions++;
+    }
+  }
+
+  await stageImport(importId, staging);
+  return summary;
+}
+
+/**
+ * Accept or reject lookup suggestions on staged rows
+ * @param {Object} options
+ * @param {number} options.rowIndex - One row; omitted for every row with suggestions
+ * @param {Array} options.fields - Fields to resolve; omitted for all of them
+ * @param {boolean} options.accept - Copy the suggested values onto the rows, or drop them
+ * @returns {Promise<Object>} { resolved, rows, stats }; rows holds the changed row for a
+ *   single-row request, and is empty otherwise so bulk accepts stay small
+ */
+export async function resolveStagedSuggestions(importId, { rowIndex, fields, accept = true }) {
+  const staging = await getStagedImport(importId);
+  if (!staging) throw new Error('Import session not found or expired');
+
+  const rows = staging.normalizedRows.filter(
+    (r) => r._suggestions && (rowIndex === undefined || r._rowIndex === parseInt(rowIndex)),
+  );
+  for (const row of rows) {
+    for (const field of Object.keys(row._suggestions)) {
+      if (fields && !fields.includes(field)) continue;
+      if (accept) row[field] = row._suggestions[field];
+      delete row._suggestions[field];
+    }
+    if (Object.keys(row._suggestions).length === 0) delete row._suggestions;
+  }
+  if (accept) revalidateStagedRows(staging, rows);
+
+  await stageImport(importId, staging);
+  return {
+    resolved: rows.length,
+    rows: rowIndex === undefined ? [] : rows,
+    stats: staging.stats,
+  };
+}
+
+const IMPORT_MODES = ['create', 'update', 'upsert', 'sync'];
+
+// Rows returned by a dry run; the summary still counts every row
+const PREVIEW_ROW_LIMIT = 500;
+
+// Listings archived per transaction by a sync import
+const ARCHIVE_CHUNK_SIZE = 500;
+
+// How long one run of the import-batch job works before handing over to a new run
+const RUN_BUDGET_MS = 60 * 1000;
+
+/**
+ * Validate commit options and fill in defaults
+ */
+function importOptions(options) {
   const {
     mode = 'upsert',
     matchStrategy = 'sku',
     defaultStatus = 'draft',
-    vendorId,
-    userId,
+    sparse = false,
   } = options;
-  const { Book, BookMedia, sequelize } = db;
-  const { Op } = await import('sequelize');
-
-  const rows = staging.normalizedRows.filter((r) => !r._errors || r._errors.length === 0);
-
-  let createdCount = 0;
-  let updatedCount = 0;
-  let skippedCount = 0;
-  let failedCount = 0;
-  const failures = [];
-  const createdIds = [];
-
-  const BATCH_SIZE = 100;
-  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
-    const batch = rows.slice(i, i + BATCH_SIZE);
-    const transaction = await sequelize.transaction();
-    try {
-      for (const row of batch) {
-        try {
-          let existing = null;
-          if (mode !== 'create' && matchStrategy !== 'none') {
-            const where = { vendorId };
-
-            if (matchStrategy === 'isbn' && row.isbn) {
-              where.isbn = row.isbn;
-            } else if (matchStrategy === 'sku' && row.sku) {
-              where.sid = row.sku;
-            } else if (matchStrategy === 'title_author') {
-              where.title = { [Op.iLike]: row.title };
-              where.author = { [Op.iLike]: row.author };
-            } else if (matchStrategy === 'wp_post_id' && row.wpPostId) {
-              where.wpPostId = row.wpPostId;
-            }
-
-            const hasIdentifier =
-              where.isbn || where.sid || where.wpPostId || (where.title && where.author);
-            if (hasIdentifier) {
-              existing = await Book.findOne({ where, transaction });
-            }
-          }
+  if (!IMPORT_MODES.includes(mode)) throw new Error(`Unknown import mode "${mode}"`);
+  if (mode === 'sync' && matchStrategy === 'none') {
+    throw new Error('Sync imports need a matching strategy to tell which listings are in the file');
+  }
+  return { mode, matchStrategy, defaultStatus, sparse: !!sparse };
+}
+
+const validStagedRows = (staging) =>
+  staging.normalizedRows.filter((r) => !r._errors || r._errors.length === 0);
+
+/**
+ * Sync imports archive every listing no row matches, and invalid rows are not imported, so the
+ * listings they were meant for would be archived; such files must be fixed first
+ */
+function assertSyncable(staging, mode) {
+  if (mode !== 'sync') return;
+  const invalid = staging.normalizedRows.length - validStagedRows(staging).length;
+  if (invalid > 0) {
+    throw new Error(
+      `Sync imports archive listings missing from the file; fix or remove the ${invalid} invalid row${invalid === 1 ? '' : 's'} first`,
+    );
+  }
+}
+
+const mappedTargetFields = (staging) =>
+  Object.values(staging.currentMappings || {}).filter(
+    (target) => target && target !== '__ignore__',
+  );
+
+/**
+ * Current image URLs of books, in display order
+ * @returns {Map} bookId → [imageUrl]
+ */
+async function currentMedia(BookMedia, bookIds) {
+  const mediaByBook = new Map();
+  if (bookIds.length === 0) return mediaByBook;
+
+  const media = await BookMedia.findAll({
+    where: { bookId: bookIds },
+    attributes: ['bookId', 'imageUrl', 'displayOrder'],
+    order: [['displayOrder', 'ASC']],
+  });
+  for (const item of media) {
+    if (!mediaByBook.has(item.bookId)) mediaByBook.set(item.bookId, []);
+    mediaByBook.get(item.bookId).push(item.imageUrl);
+  }
+  return mediaByBook;
+}
+
+/**
+ * Plan a staged import against the vendor's current books
+ * @returns {Object} { staging, plan, archive }
+ */
+async function planStagedImport(importId, options, db) {
+  const staging = await getStagedImport(importId);
+  if (!staging) throw new Error('Import session not found or expired');
+
+  const { mode, matchStrategy, defaultStatus, sparse } = importOptions(options);
+  const { vendorId } = options;
+  assertSyncable(staging, mode);
 
-          const bookData = {
-            vendorId,
-            title: row.title,
-            author: row.author,
-            isbn: row.isbn || null,
-            description: row.description ? { html: row.description } : null,
-            shortDescription: row.shortDescription || null,
-            price: row.price,
-            quantity: row.quantity || 1,
-            condition: row.condition || 'good',
-            category: row.category || null,
-            status: row.status || defaultStatus,
-            language: row.language || 'English',
-            views: 0,
-          };
-
-          if (row.sku) bookData.sid = row.sku; // book_id from CSV → sid field
-          if (row.publisher) bookData.publisher = row.publisher;
-          if (row.publicationYear) bookData.publicationYear = row.publicationYear;
-          if (row.edition) bookData.edition = row.edition;
-          if (row.binding) bookData.binding = row.binding;
-          if (row.isSigned !== undefined) bookData.isSigned = row.isSigned;
-          if (row.weight) bookData.weight = row.weight;
-          if (row.wpPostId) bookData.wpPostId = row.wpPostId;
-
-          if (existing) {
-            if (mode === 'create') {
-              skippedCount++;
-              continue;
-            }
-            await existing.update(bookData, { transaction });
-            updatedCount++;
-
-            if (row.images && row.images.length > 0) {
-              await BookMedia.destroy({ where: { bookId: existing.id }, transaction });
-              const mediaRecords = row.images.map((url, idx) => ({
-                bookId: existing.id,
-                imageUrl: url.trim(),
-                thumbnailUrl: url.trim(),
-                displayOrder: idx,
-                isPrimary: idx === 0,
-              }));
-              await BookMedia.bulkCreate(mediaRecords, { transaction });
-            }
-          } else {
-            if (mode === 'update') {
-              skippedCount++;
-              continue;
-            }
-            const newBook = await Book.create(bookData, { transaction });
-            createdCount++;
-            createdIds.push(newBook.id);
-
-            if (row.images && row.images.length > 0) {
-              const mediaRecords = row.images.map((url, idx) => ({
-                bookId: newBook.id,
-                imageUrl: url.trim(),
-                thumbnailUrl: url.trim(),
-                displayOrder: idx,
-                isPrimary: idx === 0,
-              }));
-              await BookMedia.bulkCreate(mediaRecords, { transaction });
-            }
+  const { Book, BookMedia } = db;
+  const books = await Book.findAll({
+    where: { vendorId },
+    attributes: ['id', 'vendorId', 'updatedAt', ...DIFF_FIELDS],
+    order: [['id', 'ASC']],
+  });
+  const mediaByBook = await currentMedia(
+    BookMedia,
+    books.map((book) => book.id),
+  );
+
+  const { plan, archive } = planImport(validStagedRows(staging), books, {
+    mode,
+    matchStrategy,
+    sparse,
+    mappedFields: mappedTargetFields(staging),
+    mediaByBook,
+    vendorId,
+    defaultStatus,
+  });
+
+  return { staging, plan, archive };
+}
+
+/**
+ * Dry run: what committing a staged import would create, change, leave alone and archive
+ * @returns {Object} { summary, rows: [{ rowIndex, title, action, changes }], archive } with
+ *   rows limited to the first PREVIEW_ROW_LIMIT
+ */
+export async function previewImport(importId, options, db) {
+  const { plan, archive } = await planStagedImport(importId, options, db);
+  const report = summarizePlan({ plan, archive });
+  return {
+    importId,
+    ...report,
+    rows: report.rows.slice(0, PREVIEW_ROW_LIMIT),
+    rowsTruncated: report.rows.length > PREVIEW_ROW_LIMIT,
+  };
+}
+
+/**
+ * Replace a book's images with the given URLs
+ */
+async function replaceBookMedia(BookMedia, bookId, urls, transaction) {
+  await BookMedia.destroy({ where: { bookId }, transaction });
+  if (urls.length === 0) return;
+  await BookMedia.bulkCreate(
+    urls.map((url, idx) => ({
+      bookId,
+      imageUrl: url.trim(),
+      thumbnailUrl: url.trim(),
+      displayOrder: idx,
+      isPrimary: idx === 0,
+    })),
+    { transaction },
+  );
+}
+
+/**
+ * Queue a staged import for the import-batch job
+ * Persists the options and every valid row, so the import survives the staging session and
+ * restarts; the caller enqueues the job.
+ * @param {Object} options - { mode, matchStrategy, defaultStatus, sparse, vendorId, userId }
+ * @returns {Object} ImportBatch with status queued
+ */
+export async function queueImport(importId, options, db) {
+  const staging = await getStagedImport(importId);
+  if (!staging) throw new Error('Import session not found or expired');
+  if (staging.status === 'committed') throw new Error('Import has already been committed');
+
+  const { mode, matchStrategy, defaultStatus, sparse } = importOptions(options);
+  const { vendorId, userId } = options;
+  assertSyncable(staging, mode);
+  const rows = validStagedRows(staging);
+  if (rows.length === 0) throw new Error('No valid rows to import');
+
+  const { ImportBatch, ImportBatchRow, sequelize } = db;
+  const batch = await sequelize.transaction(async (transaction) => {
+    const created = await ImportBatch.create(
+      {
+        importId,
+        vendorId,
+        userId,
+        fileName: staging.meta?.fileName || null,
+        mode,
+        matchStrategy,
+        sparse,
+        defaultStatus,
+        mappedFields: mappedTargetFields(staging),
+        status: 'queued',
+        totalRows: rows.length,
+      },
+      { transaction },
+    );
+
+    for (let i = 0; i < rows.length; i += 1000) {
+      await ImportBatchRow.bulkCreate(
+        rows.slice(i, i + 1000).map((row) => ({
+          batchId: created.id,
+          rowIndex: row._rowIndex,
+          data: row,
+        })),
+        { transaction },
+      );
+    }
+    return created;
+  });
+
+  staging.status = 'committed';
+  staging.batchId = batch.id;
+  await stageImport(importId, staging);
+
+  return batch;
+}
+
+/**
+ * The vendor's books a chunk of rows can match under the batch's strategy
+ */
+async function candidateBooks(batch, rows, db) {
+  if (batch.mode === 'create') return [];
+  const identifiers = matchIdentifiers(rows, batch.matchStrategy);
+  if (!identifiers) return [];
+
+  const { Book, sequelize } = db;
+  const match =
+    identifiers.attribute === 'title'
+      ? sequelize.where(sequelize.fn('lower', sequelize.col('title')), {
+          [Op.in]: identifiers.values,
+        })
+      : { [identifiers.attribute]: identifiers.values };
+
+  return Book.findAll({
+    where: { [Op.and]: [{ vendorId: batch.vendorId }, match] },
+    attributes: ['id', 'vendorId', 'updatedAt', ...DIFF_FIELDS],
+    order: [['id', 'ASC']],
+  });
+}
+
+/**
+ * Write one planned row inside the chunk transaction
+ * @returns {Object} { bookId, item } where item is the rollback snapshot, if the row wrote
+ */
+async function applyPlanEntry(entry, batch, db, mediaByBook, transaction) {
+  const { Book, BookMedia } = db;
+  const { row } = entry;
+
+  if (entry.action === 'create') {
+    const newBook = await Book.create({ ...entry.data, views: 0 }, { transaction });
+    if (row.images && row.images.length > 0) {
+      await replaceBookMedia(BookMedia, newBook.id, row.images, transaction);
+    }
+    return {
+      bookId: newBook.id,
+      item: { batchId: batch.id, bookId: newBook.id, rowIndex: row._rowIndex, action: 'created' },
+    };
+  }
+
+  if (entry.action === 'update') {
+    const before = Object.fromEntries(entry.changes.map((change) => [change.field, change.before]));
+    await entry.book.update(entry.data, { transaction });
+    let mediaBefore = null;
+    if (entry.replaceImages) {
+      mediaBefore = mediaByBook.get(entry.book.id) || [];
+      await replaceBookMedia(BookMedia, entry.book.id, row.images, transaction);
+    }
+    return {
+      bookId: entry.book.id,
+      item: {
+        batchId: batch.id,
+        bookId: entry.book.id,
+        rowIndex: row._rowIndex,
+        action: 'updated',
+        before,
+        mediaBefore,
+      },
+    };
+  }
+
+  return { bookId: entry.book?.id ?? null, item: null };
+}
+
+/**
+ * Plan and write one chunk of pending rows in a transaction
+ * Each row runs in a savepoint, so a failing row is recorded without losing the rest of the
+ * chunk. Counters and row outcomes commit with the writes, which is what makes a batch
+ * resumable.
+ * @returns {Array} Ids of books the chunk created or updated
+ */
+async function processChunk(batch, records, db) {
+  const { BookMedia, ImportBatchItem, ImportBatchRow, sequelize } = db;
+  const rows = records.map((record) => record.data);
+  const books = await candidateBooks(batch, rows, db);
+  const mediaByBook = await currentMedia(
+    BookMedia,
+    books.map((book) => book.id),
+  );
+
+  // Sync archives once every row is processed; per chunk it is an upsert
+  const { plan } = planImport(rows, books, {
+    mode: batch.mode === 'sync' ? 'upsert' : batch.mode,
+    matchStrategy: batch.matchStrategy,
+    sparse: batch.sparse,
+    mappedFields: batch.mappedFields,
+    mediaByBook,
+    vendorId: batch.vendorId,
+    defaultStatus: batch.defaultStatus,
+  });
+
+  const counts = { created: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0 };
+  const touchedIds = [];
+
+  try {
+    await sequelize.transaction(async (transaction) => {
+      const items = [];
+      const outcomes = [];
+
+      for (const [idx, entry] of plan.entries()) {
+        let outcome;
+        try {
+          const { bookId, item } = await sequelize.transaction({ transaction }, (savepoint) =>
+            applyPlanEntry(entry, batch, db, mediaByBook, savepoint),
+          );
+          outcome = rowOutcome(entry, bookId);
+          if (item) {
+            items.push(item);
+            touchedIds.push(bookId);
           }
         } catch (rowError) {
-          failedCount++;
-          failures.push({
-            rowIndex: row._rowIndex,
-            title: row.title,
-            error: rowError.message,
-          });
+          outcome = failedRowOutcome(entry, rowError.message);
         }
+        counts[outcome.status]++;
+        outcomes.push({ ...records[idx].get({ plain: true }), ...outcome });
       }
-      await transaction.commit();
-    } catch (batchError) {
-      await transaction.rollback();
-      for (const row of batch) {
-        failedCount++;
-        failures.push({
-          rowIndex: row._rowIndex,
-          title: row.title,
-          error: `Batch error: ${batchError.message}`,
-        });
+
+      await ImportBatchItem.bulkCreate(items, { transaction });
+      await ImportBatchRow.bulkCreate(outcomes, {
+        updateOnDuplicate: ['status', 'bookId', 'message'],
+        transaction,
+      });
+      await batch.increment(
+        {
+          createdCount: counts.created,
+          updatedCount: counts.updated,
+          unchangedCount: counts.unchanged,
+          skippedCount: counts.skipped,
+          failedCount: counts.failed,
+          processedRows: records.length,
+        },
+        { transaction },
+      );
+    });
+  } catch (chunkError) {
+    console.error(`[Import] Batch ${batch.id} chunk failed:`, chunkError.message);
+    await ImportBatchRow.bulkCreate(
+      records.map((record, idx) => ({
+        ...record.get({ plain: true }),
+        ...failedRowOutcome(plan[idx], `Batch error: ${chunkError.message}`),
+      })),
+      { updateOnDuplicate: ['status', 'bookId', 'message'] },
+    );
+    await batch.increment({ failedCount: records.length, processedRows: records.length });
+    return [];
+  }
+
+  return touchedIds;
+}
+
+/**
+ * Sync imports: archive the vendor's live listings that no row matched or created
+ * @returns {boolean} Whether archiving finished before the deadline
+ */
+async function archiveMissingListings(batch, db, deadline) {
+  const { Book, ImportBatchItem, sequelize } = db;
+  const inFile = sequelize.literal(
+    `(SELECT book_id FROM import_batch_rows WHERE batch_id = ${parseInt(batch.id, 10)} AND book_id IS NOT NULL)`,
+  );
+
+  while (Date.now() < deadline) {
+    const books = await Book.findAll({
+      where: {
+        vendorId: batch.vendorId,
+        status: SYNC_ARCHIVABLE_STATUSES,
+        id: { [Op.notIn]: inFile },
+      },
+      attributes: ['id', 'status'],
+      order: [['id', 'ASC']],
+      limit: ARCHIVE_CHUNK_SIZE,
+    });
+    if (books.length === 0) return true;
+
+    const ids = books.map((book) => book.id);
+    try {
+      await sequelize.transaction(async (transaction) => {
+        await Book.update({ status: 'archived' }, { where: { id: ids }, transaction });
+        await ImportBatchItem.bulkCreate(
+          books.map((book) => ({
+            batchId: batch.id,
+            bookId: book.id,
+            rowIndex: null,
+            action: 'archived',
+            before: { status: book.status },
+          })),
+          { transaction },
+        );
+        await batch.increment({ archivedCount: ids.length }, { transaction });
+      });
+    } catch (archiveError) {
+      console.error('[Import] Failed to archive listings missing from sync import:', archiveError);
+      await batch.update({
+        failures: [
+          ...(batch.failures || []),
+          {
+            rowIndex: null,
+            title: `${ids.length} listings not in the file`,
+            error: `Archive error: ${archiveError.message}`,
+          },
+        ],
+      });
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Work through a queued import batch, chunk by chunk
+ * Stops after the time budget so one large import can't hold a job runner; the caller queues
+ * another run when the batch isn't done. Checks for a cancel request between chunks.
+ * @returns {Object} { status, processedRows, totalRows, done, bookIds }
+ */
+export async function processImportBatch(batchId, db, { budgetMs = RUN_BUDGET_MS } = {}) {
+  const { ImportBatch, ImportBatchRow } = db;
+  const batch = await ImportBatch.findByPk(batchId);
+  if (!batch) throw new Error(`Import batch ${batchId} not found`);
+
+  const result = (done, bookIds = []) => ({
+    status: batch.status,
+    processedRows: batch.processedRows,
+    totalRows: batch.totalRows,
+    done,
+    bookIds,
+  });
+
+  if (!ACTIVE_BATCH_STATUSES.includes(batch.status)) return result(true);
+
+  // Conditional, so a cancel that lands first wins
+  await ImportBatch.update(
+    { status: 'running', startedAt: new Date() },
+    { where: { id: batch.id, status: 'queued' } },
+  );
+
+  const deadline = Date.now() + budgetMs;
+  const bookIds = [];
+  while (Date.now() < deadline) {
+    await batch.reload();
+    if (batch.status === 'cancelling') {
+      await batch.update({ status: 'cancelled', completedAt: new Date() });
+      return result(true, bookIds);
+    }
+
+    const records = await ImportBatchRow.findAll({
+      where: { batchId: batch.id, status: 'pending' },
+      order: [['rowIndex', 'ASC']],
+      limit: IMPORT_CHUNK_SIZE,
+    });
+
+    if (records.length === 0) {
+      if (batch.mode === 'sync' && !(await archiveMissingListings(batch, db, deadline))) {
+        break;
       }
+      await batch.update({ status: 'completed', completedAt: new Date() });
+      return result(true, bookIds);
     }
+
+    bookIds.push(...(await processChunk(batch, records, db)));
   }
 
-  const result = {
-    importId,
-    status: 'completed',
-    createdCount,
-    updatedCount,
-    skippedCount,
-    failedCount,
-    totalProcessed: createdCount + updatedCount + skippedCount + failedCount,
-    failures,
-    createdIds,
-    completedAt: new Date().toISOString(),
-    meta: {
-      ...staging.meta,
-      userId,
-      vendorId,
-      mode,
-      matchStrategy,
-      defaultStatus,
-    },
-  };
+  await batch.reload();
+  return result(false, bookIds);
+}
 
-  await storeImportResult(importId, result);
+/**
+ * Record a batch the import-batch job gave up on, so it stops showing as running
+ */
+export async function failImportBatch(batchId, error, db) {
+  await db.ImportBatch.update(
+    { status: 'failed', lastError: error.message, completedAt: new Date() },
+    { where: { id: batchId, status: ACTIVE_BATCH_STATUSES } },
+  );
+}
 
-  staging.status = 'committed';
-  await stageImport(importId, staging);
+/**
+ * Ask a queued or running import to stop
+ * Rows already written stay; roll the batch back to undo them.
+ * @returns {string} The batch's new status
+ */
+export async function cancelImportBatch(batch, db) {
+  const next = cancelTransition(batch.status);
+  if (!next) throw new Error(`This import is ${batch.status} and cannot be cancelled`);
+
+  const [updated] = await db.ImportBatch.update(
+    { status: next, ...(next === 'cancelled' && { completedAt: new Date() }) },
+    { where: { id: batch.id, status: batch.status } },
+  );
+  if (updated === 0) {
+    // The job moved the batch on in the meantime; try again from its new status
+    await batch.reload();
+    return cancelImportBatch(batch, db);
+  }
+  return next;
+}
+
+/**
+ * Roll an import batch back to its pre-import snapshot
+ * Created books are deleted (or archived when other records reference them), updated books get
+ * their previous values and images back, and archived listings their previous status. Books
+ * edited or sold since the import are left alone unless forced.
+ * @param {Object} batch - ImportBatch instance (completed, cancelled or failed)
+ * @param {Object} options - { userId, force }
+ * @returns {Object} { deleted, restored, archived, skipped: [{ bookId, title, reason }] }
+ */
+export async function rollbackImportBatch(batch, { userId, force = false } = {}, db) {
+  if (!ROLLBACK_BATCH_STATUSES.includes(batch.status)) {
+    throw new Error(
+      batch.status === 'rolled_back'
+        ? 'This import has already been rolled back'
+        : `This import is ${batch.status} and cannot be rolled back`,
+    );
+  }
+  const { Book, BookMedia, ImportBatchItem, sequelize } = db;
+  const items = await ImportBatchItem.findAll({
+    where: { batchId: batch.id },
+    order: [['id', 'DESC']],
+  });
+  const books = await Book.findAll({ where: { id: [...new Set(items.map((i) => i.bookId))] } });
+  const bookById = new Map(books.map((book) => [book.id, book]));
+
+  const result = { deleted: 0, restored: 0, archived: 0, skipped: [] };
+  const transaction = await sequelize.transaction();
+  try {
+    for (const item of items) {
+      const book = bookById.get(item.bookId) || null;
+      const decision = rollbackAction(item, book, batch.completedAt || new Date(), force);
+
+      if (decision.action === 'skip') {
+        result.skipped.push({
+          bookId: item.bookId,
+          title: book?.title || null,
+          reason: decision.reason,
+        });
+      } else if (decision.action === 'delete') {
+        try {
+          // Savepoint, so a book other records still reference doesn't abort the rollback
+          await sequelize.transaction({ transaction }, async (savepoint) => {
+            await BookMedia.destroy({ where: { bookId: book.id }, transaction: savepoint });
+            await book.destroy({ transaction: savepoint });
+          });
+          bookById.delete(book.id);
+          result.deleted++;
+        } catch (deleteError) {
+          await book.update({ status: 'archived' }, { transaction });
+          result.archived++;
+        }
+      } else {
+        await book.update(item.before || {}, { transaction });
+        if (item.mediaBefore) {
+          await replaceBookMedia(BookMedia, book.id, item.mediaBefore, transaction);
+        }
+        result.restored++;
+      }
+    }
+
+    await batch.update(
+      {
+        status: 'rolled_back',
+        rolledBackAt: new Date(),
+        rolledBackByUserId: userId || null,
+        rollbackResult: result,
+      },
+      { transaction },
+    );
+    await transaction.commit();
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
 
   return result;
 }
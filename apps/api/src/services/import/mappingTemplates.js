@@ -0,0 +1,220 @@
+/**
+ * Import Mapping Templates
+ * Pure helpers for saved column-mapping profiles: picking the template that fits a CSV's
+ * headers, applying its mappings, and validating templates before they are saved
+ *
+ * A template maps CSV column names to TARGET_FIELDS keys and carries value transforms:
+ *   valueMaps       - { targetKey: { rawValue: value } }, e.g. condition synonyms ("vg" → very-good)
+ *   defaults        - { targetKey: value } used when the column is missing or empty
+ *   priceMultiplier - factor applied to every imported price (e.g. a currency or markup)
+ */
+
+// Share of a template's columns a CSV must contain for the template to be auto-selected
+export const TEMPLATE_MATCH_THRESHOLD = 0.8;
+
+const MAX_PRICE_MULTIPLIER = 100;
+
+/**
+ * Normalize a CSV column name for comparison: case, spaces, dashes and dots are ignored
+ */
+export function normalizeColumnName(col) {
+  return String(col)
+    .toLowerCase()
+    .replace(/[\s\-.]+/g, '_')
+    .trim();
+}
+
+/**
+ * Columns a template expects, normalized
+ */
+function templateColumns(template) {
+  const columns =
+    Array.isArray(template.headers) && template.headers.length > 0
+      ? template.headers
+      : Object.keys(template.mappings || {});
+  return new Set(columns.map(normalizeColumnName));
+}
+
+/**
+ * Share (0–1) of a template's columns present in the CSV headers
+ * Extra CSV columns don't lower the score, so a template still matches exports that gained a
+ * column since it was saved.
+ */
+export function scoreTemplate(csvHeaders, template) {
+  const expected = templateColumns(template);
+  if (expected.size === 0) return 0;
+
+  const present = new Set(csvHeaders.map(normalizeColumnName));
+  let matched = 0;
+  for (const col of expected) {
+    if (present.has(col)) matched++;
+  }
+  return matched / expected.size;
+}
+
+/**
+ * Pick the template that best fits a CSV's headers
+ * Ties go to the vendor's own templates over shared ones, then to the most used.
+ * @returns {Object|null} { template, score } or null when nothing reaches the threshold
+ */
+export function matchTemplate(csvHeaders, templates, threshold = TEMPLATE_MATCH_THRESHOLD) {
+  // Higher is better: [score, vendor-owned, times used]
+  const rank = (template, score) => [score, template.vendorId ? 1 : 0, template.usageCount || 0];
+  const outranks = (a, b) => {
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return a[i] > b[i];
+    }
+    return false;
+  };
+
+  let best = null;
+  for (const template of templates) {
+    const score = scoreTemplate(csvHeaders, template);
+    if (score < threshold) continue;
+    if (!best || outranks(rank(template, score), rank(best.template, best.score))) {
+      best = { template, score };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * A template's mappings keyed by the CSV's own column names
+ * @returns {Object} { csvColumn: targetKey } for the CSV columns the template knows
+ */
+export function templateMappings(csvHeaders, template) {
+  const byColumn = new Map(
+    Object.entries(template.mappings || {}).map(([col, target]) => [
+      normalizeColumnName(col),
+      target || null,
+    ]),
+  );
+
+  const mappings = {};
+  for (const header of csvHeaders) {
+    const key = normalizeColumnName(header);
+    if (byColumn.has(key)) mappings[header] = byColumn.get(key);
+  }
+  return mappings;
+}
+
+/**
+ * Validate and clean value transforms against the target fields
+ * @returns {Object} { transforms } or { error }
+ */
+export function sanitizeTransforms(input, targetFields) {
+  if (input === undefined || input === null) return { transforms: {} };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Transforms must be an object' };
+  }
+
+  const fields = new Map(targetFields.map((field) => [field.key, field]));
+  const transforms = {};
+
+  if (input.valueMaps) {
+    const valueMaps = {};
+    for (const [key, map] of Object.entries(input.valueMaps)) {
+      const field = fields.get(key);
+      if (!field) return { error: `Unknown field "${key}" in value transforms` };
+      if (!map || typeof map !== 'object') continue;
+
+      const cleaned = {};
+      for (const [raw, value] of Object.entries(map)) {
+        const from = String(raw).trim().toLowerCase();
+        const to = String(value ?? '').trim();
+        if (!from || !to) continue;
+        if (field.options && !field.options.includes(to)) {
+          return { error: `"${to}" is not a valid ${field.label.toLowerCase()}` };
+        }
+        cleaned[from] = to;
+      }
+      if (Object.keys(cleaned).length > 0) valueMaps[key] = cleaned;
+    }
+    if (Object.keys(valueMaps).length > 0) transforms.valueMaps = valueMaps;
+  }
+
+  if (input.defaults) {
+    const defaults = {};
+    for (const [key, value] of Object.entries(input.defaults)) {
+      const field = fields.get(key);
+      if (!field) return { error: `Unknown field "${key}" in default values` };
+      const str = String(value ?? '').trim();
+      if (!str) continue;
+      if (field.options && !field.options.includes(str)) {
+        return { error: `"${str}" is not a valid ${field.label.toLowerCase()}` };
+      }
+      defaults[key] = str;
+    }
+    if (Object.keys(defaults).length > 0) transforms.defaults = defaults;
+  }
+
+  if (
+    input.priceMultiplier !== undefined &&
+    input.priceMultiplier !== null &&
+    input.priceMultiplier !== ''
+  ) {
+    const multiplier = parseFloat(input.priceMultiplier);
+    if (!(multiplier > 0) || multiplier > MAX_PRICE_MULTIPLIER) {
+      return { error: `Price multiplier must be between 0 and ${MAX_PRICE_MULTIPLIER}` };
+    }
+    if (multiplier !== 1) transforms.priceMultiplier = multiplier;
+  }
+
+  return { transforms };
+}
+
+/**
+ * Validate a template before it is saved
+ * @param {Object} input - { name, description, source, mappings, transforms, headers }
+ * @param {Array} targetFields - TARGET_FIELDS
+ * @returns {Object} Cleaned template attributes, or { error }
+ */
+export function sanitizeTemplate(input, targetFields) {
+  const name = String(input.name || '')
+    .trim()
+    .slice(0, 120);
+  if (!name) return { error: 'Template name is required' };
+
+  if (!input.mappings || typeof input.mappings !== 'object' || Array.isArray(input.mappings)) {
+    return { error: 'Column mappings are required' };
+  }
+
+  const targetKeys = new Set(targetFields.map((field) => field.key));
+  const mappings = {};
+  for (const [col, target] of Object.entries(input.mappings)) {
+    const column = String(col).trim();
+    if (!column) continue;
+    if (!target || target === '__ignore__') {
+      mappings[column] = null;
+      continue;
+    }
+    if (!targetKeys.has(target)) return { error: `Unknown target field "${target}"` };
+    mappings[column] = target;
+  }
+  if (!Object.values(mappings).some(Boolean)) {
+    return { error: 'Map at least one column to save a template' };
+  }
+
+  const { transforms, error } = sanitizeTransforms(input.transforms, targetFields);
+  if (error) return { error };
+
+  const headers = Array.isArray(input.headers)
+    ? input.headers.map((header) => String(header).trim()).filter(Boolean)
+    : Object.keys(mappings);
+
+  return {
+    name,
+    description:
+      String(input.description || '')
+        .trim()
+        .slice(0, 500) || null,
+    source:
+      String(input.source || '')
+        .trim()
+        .slice(0, 60) || null,
+    mappings,
+    transforms,
+    headers,
+  };
+}
@@ -1,19 +1,25 @@
 /**
  * Import Staging Store
- * Stores staged import data temporarily using Redis (preferred) or in-memory fallback.
- * Each staged import has a TTL of 30 minutes.
+ * Stores staged import data temporarily using Redis (preferred) or in-memory fallback while
+ * the importer maps and validates it. A staged import expires after 2 hours without being
+ * read or written. Redis expires keys itself; expired in-memory entries are ignored on read
+ * and purged by each process on an interval, since the in-memory store is per process and the
+ * import-staging-cleanup job runs on only one replica. Committed imports live on as import
+ * batches.
  */
 
 import { Redis } from 'ioredis';
 import config from '../../config/index.js';
 import crypto from 'crypto';
 
-const STAGING_TTL = 1800; // 30 minutes
+const STAGING_TTL = 7200; // 2 hours since last use
 const KEY_PREFIX = 'import:staging:';
 
-// In-memory fallback store
+// In-memory fallback store: key -> { serialized, expiresAt }
 const memoryStore = new Map();
-const memoryTimers = new Map();
+
+const MEMORY_PURGE_INTERVAL_MS = 10 * 60 * 1000;
+let memoryPurgeTimer = null;
 
 let redisClient = null;
 let redisAttempted = false;
@@ -43,6 +49,25 @@ async function getRedis() {
   }
 }
 
+function memorySet(key, serialized, ttlSeconds) {
+  memoryStore.set(key, { serialized, expiresAt: Date.now() + ttlSeconds * 1000 });
+  if (!memoryPurgeTimer) {
+    memoryPurgeTimer = setInterval(() => purgeExpiredStagedImports(), MEMORY_PURGE_INTERVAL_MS);
+    memoryPurgeTimer.unref();
+  }
+}
+
+function memoryGet(key, ttlSeconds) {
+  const entry = memoryStore.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    memoryStore.delete(key);
+    return null;
+  }
+  entry.expiresAt = Date.now() + ttlSeconds * 1000;
+  return entry.serialized;
+}
+
 /** Generate a unique import ID */
 export function generateImportId() {
   return `imp_${crypto.randomBytes(12).toString('hex')}`;
@@ -56,27 +81,20 @@ export async function stageImport(importId, data) {
   if (redis) {
     await redis.setex(key, STAGING_TTL, serialized);
   } else {
-    memoryStore.set(key, serialized);
-    if (memoryTimers.has(key)) clearTimeout(memoryTimers.get(key));
-    memoryTimers.set(
-      key,
-      setTimeout(() => {
-        memoryStore.delete(key);
-        memoryTimers.delete(key);
-      }, STAGING_TTL * 1000),
-    );
+    memorySet(key, serialized, STAGING_TTL);
   }
 }
 
-/** Retrieve staged import data */
+/** Retrieve staged import data, extending its expiry */
 export async function getStagedImport(importId) {
   const key = KEY_PREFIX + importId;
   const redis = await getRedis();
   if (redis) {
     const data = await redis.get(key);
+    if (data) await redis.expire(key, STAGING_TTL);
     return data ? JSON.parse(data) : null;
   }
-  const data = memoryStore.get(key);
+  const data = memoryGet(key, STAGING_TTL);
   return data ? JSON.parse(data) : null;
 }
 
@@ -97,40 +115,20 @@ export async function deleteStagedImport(importId) {
     await redis.del(key);
   } else {
     memoryStore.delete(key);
-    if (memoryTimers.has(key)) {
-      clearTimeout(memoryTimers.get(key));
-      memoryTimers.delete(key);
-    }
-  }
-}
-
-/** Store import result (audit log - 7 day TTL) */
-export async function storeImportResult(importId, result) {
-  const key = `import:result:${importId}`;
-  const serialized = JSON.stringify(result);
-  const redis = await getRedis();
-  if (redis) {
-    await redis.setex(key, 604800, serialized);
-  } else {
-    memoryStore.set(key, serialized);
-    memoryTimers.set(
-      key,
-      setTimeout(() => {
-        memoryStore.delete(key);
-        memoryTimers.delete(key);
-      }, 604800 * 1000),
-    );
   }
 }
 
-/** Get import result */
-export async function getImportResult(importId) {
-  const key = `import:result:${importId}`;
-  const redis = await getRedis();
-  if (redis) {
-    const data = await redis.get(key);
-    return data ? JSON.parse(data) : null;
+/**
+ * Remove expired staged imports from this process's in-memory fallback store
+ * @returns {number} Entries removed (always 0 with Redis, which expires keys itself)
+ */
+export function purgeExpiredStagedImports(now = Date.now()) {
+  let purged = 0;
+  for (const [key, entry] of memoryStore) {
+    if (entry.expiresAt <= now) {
+      memoryStore.delete(key);
+      purged++;
+    }
   }
-  const data = memoryStore.get(key);
-  return data ? JSON.parse(data) : null;
+  return purged;
 }
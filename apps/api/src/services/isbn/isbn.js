@@ -0,0 +1,119 @@
+/**
+ * ISBN
+ * Pure helpers for ISBN-10/13: normalizing, checksum validation, conversion between the two, the
+ * ISBN-13 key copies are matched by, and which looked-up fields to offer for a listing
+ */
+
+// Listing fields a bibliographic lookup can fill
+export const LOOKUP_FIELDS = [
+  'title',
+  'author',
+  'publisher',
+  'publicationYear',
+  'edition',
+  'language',
+  'binding',
+];
+
+/**
+ * Strip spaces and hyphens; ISBN-10s may end in X
+ */
+export function normalizeIsbn(value) {
+  return String(value ?? '')
+    .replace(/[\s-]/g, '')
+    .toUpperCase();
+}
+
+function isbn10CheckDigit(first9) {
+  let sum = 0;
+  for (let i = 0; i < 9; i++) sum += (10 - i) * Number(first9[i]);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+function isbn13CheckDigit(first12) {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) sum += (i % 2 === 0 ? 1 : 3) * Number(first12[i]);
+  return String((10 - (sum % 10)) % 10);
+}
+
+export function isValidIsbn10(value) {
+  const isbn = normalizeIsbn(value);
+  return /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn) === isbn[9];
+}
+
+export function isValidIsbn13(value) {
+  const isbn = normalizeIsbn(value);
+  return /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn) === isbn[12];
+}
+
+/**
+ * ISBN-13 for a valid ISBN-10 (978 prefix)
+ */
+export function isbn10To13(value) {
+  const isbn = normalizeIsbn(value);
+  if (!isValidIsbn10(isbn)) return null;
+  const first12 = `978${isbn.slice(0, 9)}`;
+  return first12 + isbn13CheckDigit(first12);
+}
+
+/**
+ * ISBN-10 for a valid ISBN-13; only 978 ISBNs have one
+ */
+export function isbn13To10(value) {
+  const isbn = normalizeIsbn(value);
+  if (!isValidIsbn13(isbn) || !isbn.startsWith('978')) return null;
+  const first9 = isbn.slice(3, 12);
+  return first9 + isbn10CheckDigit(first9);
+}
+
+/**
+ * Validate an ISBN and give both forms
+ * @returns {Object} { valid, isbn10, isbn13, error }
+ */
+export function parseIsbn(value) {
+  const isbn = normalizeIsbn(value);
+  if (!isbn) return { valid: false, isbn10: null, isbn13: null, error: 'ISBN is required' };
+
+  if (isbn.length === 10) {
+    return isValidIsbn10(isbn)
+      ? { valid: true, isbn10: isbn, isbn13: isbn10To13(isbn), error: null }
+      : { valid: false, isbn10: null, isbn13: null, error: 'Invalid ISBN-10 checksum' };
+  }
+  if (isbn.length === 13) {
+    return isValidIsbn13(isbn)
+      ? { valid: true, isbn10: isbn13To10(isbn), isbn13: isbn, error: null }
+      : { valid: false, isbn10: null, isbn13: null, error: 'Invalid ISBN-13 checksum' };
+  }
+  return { valid: false, isbn10: null, isbn13: null, error: 'ISBN must have 10 or 13 digits' };
+}
+
+/**
+ * ISBN-13 to match and group copies by, so both forms of an ISBN compare equal
+ * @returns {string|null} null when the value is not a valid ISBN
+ */
+export function isbn13Key(value) {
+  const { valid, isbn13 } = parseIsbn(value);
+  return valid ? isbn13 : null;
+}
+
+/**
+ * Looked-up values to offer for a listing: only fields the listing leaves blank, so a lookup
+ * never overwrites what the vendor entered
+ * @param {Object} values - Current listing or import row values
+ * @param {Object} metadata - Lookup result
+ * @returns {Object} field → suggested value
+ */
+export function lookupSuggestions(values, metadata) {
+  const suggestions = {};
+  if (!metadata) return suggestions;
+  for (const field of LOOKUP_FIELDS) {
+    const suggested = metadata[field];
+    if (suggested === null || suggested === undefined || suggested === '') continue;
+    const current = values[field];
+    if (current === null || current === undefined || String(current).trim() === '') {
+      suggestions[field] = suggested;
+    }
+  }
+  return suggestions;
+}
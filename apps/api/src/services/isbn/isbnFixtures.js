@@ -0,0 +1,51 @@
+/**
+ * ISBN Fixtures
+ * Records served by the fixture lookup provider, keyed by ISBN-13
+ */
+
+export const ISBN_FIXTURES = {
+  9780143105954: {
+    title: 'Moby-Dick',
+    author: 'Herman Melville',
+    publisher: 'Penguin Classics',
+    publicationYear: 2009,
+    edition: 'Deluxe Edition',
+    language: 'English',
+    binding: 'Softcover',
+    pageCount: 720,
+    coverUrl: null,
+  },
+  9780141439518: {
+    title: 'Pride and Prejudice',
+    author: 'Jane Austen',
+    publisher: 'Penguin Classics',
+    publicationYear: 2003,
+    edition: null,
+    language: 'English',
+    binding: 'Softcover',
+    pageCount: 480,
+    coverUrl: null,
+  },
+  9780679783268: {
+    title: 'Pride and Prejudice',
+    author: 'Jane Austen',
+    publisher: 'Modern Library',
+    publicationYear: 1995,
+    edition: 'Modern Library Edition',
+    language: 'English',
+    binding: 'Hardcover',
+    pageCount: 400,
+    coverUrl: null,
+  },
+  9780060850524: {
+    title: 'Brave New World',
+    author: 'Aldous Huxley',
+    publisher: 'Harper Perennial Modern Classics',
+    publicationYear: 2006,
+    edition: null,
+    language: 'English',
+    binding: 'Softcover',
+    pageCount: 288,
+    coverUrl: null,
+  },
+};
@@ -0,0 +1,139 @@
+/**
+ * ISBN Lookup
+ * Validates ISBNs and resolves bibliographic metadata through the configured provider, caching
+ * results in memory. ISBN_LOOKUP_PROVIDER picks the provider (openlibrary by default, fixture
+ * under test).
+ */
+
+import { parseIsbn } from './isbn.js';
+import { createFixtureProvider, openLibraryProvider } from './isbnProviders.js';
+
+const providers = new Map([
+  [openLibraryProvider.name, openLibraryProvider],
+  ['fixture', createFixtureProvider()],
+]);
+
+// Found records change rarely; misses are retried sooner in case the provider adds them
+const HIT_TTL_MS = 24 * 60 * 60 * 1000;
+const MISS_TTL_MS = 60 * 60 * 1000;
+const CACHE_LIMIT = 5000;
+
+// Provider requests in flight at once when resolving many ISBNs
+const LOOKUP_CONCURRENCY = 4;
+
+const cache = new Map();
+
+/**
+ * Add or replace a lookup provider
+ * @param {Object} provider - { name, lookup({ isbn10, isbn13 }) }
+ */
+export function registerIsbnProvider(provider) {
+  providers.set(provider.name, provider);
+}
+
+function activeProvider() {
+  const name =
+    process.env.ISBN_LOOKUP_PROVIDER ||
+    (process.env.NODE_ENV === 'test' ? 'fixture' : openLibraryProvider.name);
+  const provider = providers.get(name);
+  if (!provider) throw new Error(`Unknown ISBN lookup provider "${name}"`);
+  return provider;
+}
+
+function cached(provider, isbn13) {
+  const entry = cache.get(`${provider.name}:${isbn13}`);
+  return entry && entry.expiresAt > Date.now() ? entry : null;
+}
+
+function remember(provider, isbn13, metadata) {
+  if (cache.size >= CACHE_LIMIT) cache.delete(cache.keys().next().value);
+  cache.set(`${provider.name}:${isbn13}`, {
+    metadata,
+    expiresAt: Date.now() + (metadata ? HIT_TTL_MS : MISS_TTL_MS),
+  });
+}
+
+/**
+ * Look up one ISBN
+ * @returns {Promise<Object>} { valid, isbn10, isbn13, error, metadata, source }
+ *   metadata is null for invalid or unknown ISBNs
+ */
+export async function lookupIsbn(value) {
+  const isbn = parseIsbn(value);
+  if (!isbn.valid) return { ...isbn, metadata: null, source: null };
+
+  const provider = activeProvider();
+  const hit = cached(provider, isbn.isbn13);
+  if (hit) return { ...isbn, metadata: hit.metadata, source: provider.name };
+
+  const metadata = await provider.lookup({ isbn10: isbn.isbn10, isbn13: isbn.isbn13 });
+  remember(provider, isbn.isbn13, metadata);
+
+  return { ...isbn, metadata, source: provider.name };
+}
+
+// One provider request: a batch when the provider resolves many ISBNs at once, else a single ISBN
+async function lookupBatch(provider, isbns, signal) {
+  if (provider.lookupMany) return provider.lookupMany(isbns, { signal });
+  const [isbn] = isbns;
+  return new Map([[isbn.isbn13, await provider.lookup(isbn, { signal })]]);
+}
+
+/**
+ * Look up many ISBNs, a few provider requests at a time; a failed lookup is reported on its entry.
+ * Providers with lookupMany are sent batches of batchSize ISBNs.
+ * @param {Array} values - Raw ISBNs
+ * @param {Object} options
+ * @param {number} options.timeBudgetMs - Stop looking up once this has elapsed; ISBNs not
+ *   resolved by then are left out of the results
+ * @returns {Promise<Map>} raw ISBN → lookupIsbn result (with error set when the provider failed)
+ */
+export async function lookupIsbns(values, { timeBudgetMs } = {}) {
+  const results = new Map();
+  const provider = activeProvider();
+  const pending = new Map(); // isbn13 → { isbn, values }
+
+  for (const value of new Set(values.filter(Boolean).map(String))) {
+    const isbn = parseIsbn(value);
+    const hit = isbn.valid && cached(provider, isbn.isbn13);
+    if (!isbn.valid) {
+      results.set(value, { ...isbn, metadata: null, source: null });
+    } else if (hit) {
+      results.set(value, { ...isbn, metadata: hit.metadata, source: provider.name });
+    } else if (pending.has(isbn.isbn13)) {
+      pending.get(isbn.isbn13).values.push(value);
+    } else {
+      pending.set(isbn.isbn13, { isbn, values: [value] });
+    }
+  }
+
+  const batchSize = provider.lookupMany ? provider.batchSize : 1;
+  const queue = [...pending.values()];
+  const signal = timeBudgetMs ? AbortSignal.timeout(timeBudgetMs) : undefined;
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      const batch = queue.splice(0, batchSize);
+      const isbns = batch.map((entry) => entry.isbn);
+      let found;
+      let error = null;
+      try {
+        found = await lookupBatch(provider, isbns, signal);
+      } catch (err) {
+        if (signal?.aborted) return;
+        error = err.message;
+      }
+
+      for (const { isbn, values: raw } of batch) {
+        const metadata = found?.get(isbn.isbn13) ?? null;
+        if (!error) remember(provider, isbn.isbn13, metadata);
+        const result = error
+          ? { ...isbn, metadata: null, error }
+          : { ...isbn, metadata, source: provider.name };
+        for (const value of raw) results.set(value, result);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: LOOKUP_CONCURRENCY }, worker));
+  return results;
+}
@@ -0,0 +1,80 @@
+/**
+ * ISBN Providers
+ * Bibliographic lookup providers. A provider is { name, lookup(isbn, { signal }) } where isbn is
+ * { isbn10, isbn13 } and lookup resolves to metadata ({ title, author, publisher,
+ * publicationYear, edition, language, binding, pageCount, coverUrl }) or null when unknown.
+ * Providers that can resolve many ISBNs in one request also have batchSize and
+ * lookupMany(isbns, { signal }), resolving to a Map of isbn13 → metadata.
+ */
+
+import { ISBN_FIXTURES } from './isbnFixtures.js';
+
+const OPEN_LIBRARY_URL = 'https://openlibrary.org/api/books';
+
+// Give up on a slow provider rather than hold the form or import open
+const LOOKUP_TIMEOUT_MS = 5000;
+
+// ISBNs per Open Library request; each is sent in both forms, keeping the URL well under 4 KB
+const OPEN_LIBRARY_BATCH_SIZE = 50;
+
+/**
+ * Metadata from an Open Library "data" record
+ */
+export function fromOpenLibrary(record) {
+  if (!record || !record.title) return null;
+  const year = String(record.publish_date || '').match(/\b(\d{4})\b/);
+  return {
+    title: record.subtitle ? `${record.title}: ${record.subtitle}` : record.title,
+    author: (record.authors || []).map((author) => author.name).join(', ') || null,
+    publisher: record.publishers?.[0]?.name || null,
+    publicationYear: year ? parseInt(year[1]) : null,
+    edition: null,
+    language: null,
+    binding: null,
+    pageCount: record.number_of_pages || null,
+    coverUrl: record.cover?.large || record.cover?.medium || null,
+  };
+}
+
+async function fetchOpenLibrary(isbns, signal) {
+  const keys = isbns.flatMap(({ isbn10, isbn13 }) =>
+    [isbn13, isbn10].filter(Boolean).map((isbn) => `ISBN:${isbn}`),
+  );
+  const timeout = AbortSignal.timeout(LOOKUP_TIMEOUT_MS);
+  const url = `${OPEN_LIBRARY_URL}?bibkeys=${keys.join(',')}&format=json&jscmd=data`;
+  const res = await fetch(url, { signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+  if (!res.ok) throw new Error(`Open Library lookup failed (${res.status})`);
+
+  const data = await res.json();
+  return new Map(
+    isbns.map(({ isbn10, isbn13 }) => [
+      isbn13,
+      fromOpenLibrary(data[`ISBN:${isbn13}`] || (isbn10 && data[`ISBN:${isbn10}`])),
+    ]),
+  );
+}
+
+export const openLibraryProvider = {
+  name: 'openlibrary',
+  batchSize: OPEN_LIBRARY_BATCH_SIZE,
+  async lookup(isbn, { signal } = {}) {
+    const found = await fetchOpenLibrary([isbn], signal);
+    return found.get(isbn.isbn13);
+  },
+  lookupMany(isbns, { signal } = {}) {
+    return fetchOpenLibrary(isbns, signal);
+  },
+};
+
+/**
+ * Provider backed by local records keyed by ISBN-13, for tests and offline development
+ * @param {Object} records - isbn13 → metadata
+ */
+export function createFixtureProvider(records = ISBN_FIXTURES) {
+  return {
+    name: 'fixture',
+    async lookup({ isbn13 }) {
+      return records[isbn13] ? { ...records[isbn13] } : null;
+    },
+  };
+}
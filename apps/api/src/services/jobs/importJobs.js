@@ -0,0 +1,57 @@
+/**
+ * Import Jobs
+ * Runs committed CSV imports in the background: each run of import-batch works through a
+ * batch's pending rows in chunks for a bounded time, then queues the next run until the batch
+ * is done. A run lost with its process resumes from the first pending row.
+ */
+
+import db from '../../models/index.js';
+import { failImportBatch, processImportBatch } from '../import/importService.js';
+import { matchBooksToRequests } from '../rareBookRequestMatching.js';
+import { enqueueJob, registerJob } from './jobQueue.js';
+
+export const IMPORT_BATCH_JOB = 'import-batch';
+
+/**
+ * Queue the next run of a batch
+ */
+export const queueImportBatch = (batchId) => enqueueJob(IMPORT_BATCH_JOB, { batchId });
+
+/**
+ * Process a batch for one run's time budget
+ */
+export const runImportBatch = async ({ batchId }, job) => {
+  let result;
+  try {
+    result = await processImportBatch(batchId, db);
+  } catch (error) {
+    // Out of retries: stop the batch showing as running forever
+    if (job && job.attempts >= job.maxAttempts) await failImportBatch(batchId, error, db);
+    throw error;
+  }
+
+  if (result.bookIds.length > 0) {
+    matchBooksToRequests(result.bookIds).catch((err) =>
+      console.error('[Import] Failed to match book requests:', err),
+    );
+  }
+  if (!result.done) await queueImportBatch(batchId);
+
+  return {
+    status: result.status,
+    processedRows: result.processedRows,
+    totalRows: result.totalRows,
+    done: result.done,
+  };
+};
+
+/**
+ * Register the import jobs with the queue
+ */
+export function registerImportJobs() {
+  registerJob(IMPORT_BATCH_JOB, runImportBatch, {
+    description: 'Process committed CSV imports in chunks',
+    maxAttempts: 5,
+    leaseSeconds: 600,
+  });
+}
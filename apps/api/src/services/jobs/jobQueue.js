@@ -0,0 +1,227 @@
+/**
+ * Job Queue
+ * Persistent background job queue backed by the background_jobs table. Jobs are registered
+ * by name with a handler; recurring jobs keep exactly one queued run via their unique key.
+ * Each API process runs a poller that claims due rows with SELECT ... FOR UPDATE SKIP LOCKED
+ * and a lease, so replicas share the queue without processing the same run twice and a run
+ * abandoned by a crashed process is picked up again once its lease expires.
+ */
+
+import os from 'os';
+import { Op } from 'sequelize';
+import db from '../../models/index.js';
+import { nextIntervalRun, retryDelayMs, shouldRetry } from './jobSchedule.js';
+
+const { BackgroundJob, sequelize } = db;
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_RUNS_PER_TICK = 10;
+const DEFAULT_LEASE_SECONDS = 300;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+// name -> { name, description, handler, everySeconds, maxAttempts, leaseSeconds }
+const definitions = new Map();
+
+let pollTimer = null;
+let ticking = false;
+
+const recurringKey = (name) => `recurring:${name}`;
+
+/**
+ * Register a named job handler
+ * @param {string} name
+ * @param {Function} handler - async (payload, job) => result; the result is stored on the run
+ * @param {Object} options - { description, everySeconds (recurring), maxAttempts, leaseSeconds }
+ */
+export function registerJob(name, handler, options = {}) {
+  definitions.set(name, {
+    name,
+    handler,
+    description: options.description || '',
+    everySeconds: options.everySeconds || null,
+    maxAttempts: options.maxAttempts || 3,
+    leaseSeconds: options.leaseSeconds || DEFAULT_LEASE_SECONDS,
+  });
+}
+
+/**
+ * Registered jobs without their handlers, for the admin page
+ */
+export function getJobDefinitions() {
+  return [...definitions.values()].map(({ handler: _handler, ...definition }) => definition);
+}
+
+/**
+ * Queue a run of a registered job
+ * @param {string} name
+ * @param {Object} payload
+ * @param {Object} options - { runAt, uniqueKey }
+ * @returns {Object|null} The queued run, or null when a run with the same key is already queued
+ */
+export async function enqueueJob(name, payload = {}, options = {}) {
+  const definition = definitions.get(name);
+  if (!definition) {
+    throw new Error(`Unknown job: ${name}`);
+  }
+
+  try {
+    return await BackgroundJob.create({
+      name,
+      payload,
+      runAt: options.runAt || new Date(),
+      uniqueKey: options.uniqueKey || null,
+      maxAttempts: definition.maxAttempts,
+    });
+  } catch (error) {
+    if (error.name === 'SequelizeUniqueConstraintError') return null;
+    throw error;
+  }
+}
+
+/**
+ * Make sure every recurring job has a queued run; safe to call from every replica
+ */
+export async function ensureRecurringJobs() {
+  for (const definition of definitions.values()) {
+    if (!definition.everySeconds) continue;
+    await enqueueJob(definition.name, {}, { uniqueKey: recurringKey(definition.name) });
+  }
+}
+
+/**
+ * Claim the next due run, or a running one whose lease has expired
+ * @returns {Object|null}
+ */
+async function claimNextJob() {
+  return sequelize.transaction(async (transaction) => {
+    const now = new Date();
+    const job = await BackgroundJob.findOne({
+      where: {
+        [Op.or]: [
+          { status: 'pending', runAt: { [Op.lte]: now } },
+          { status: 'running', lockedUntil: { [Op.lt]: now } },
+        ],
+      },
+      order: [['runAt', 'ASC']],
+      lock: transaction.LOCK.UPDATE,
+      skipLocked: true,
+      transaction,
+    });
+    if (!job) return null;
+
+    const definition = definitions.get(job.name);
+    const leaseSeconds = definition?.leaseSeconds || DEFAULT_LEASE_SECONDS;
+
+    await job.update(
+      {
+        status: 'running',
+        attempts: job.attempts + 1,
+        lockedBy: WORKER_ID,
+        lockedUntil: new Date(now.getTime() + leaseSeconds * 1000),
+        startedAt: now,
+        finishedAt: null,
+      },
+      { transaction },
+    );
+    return job;
+  });
+}
+
+/**
+ * Run a claimed job and record the outcome: completed, retried with backoff, or failed
+ */
+async function runJob(job) {
+  const definition = definitions.get(job.name);
+
+  try {
+    if (!definition) {
+      throw new Error(`No handler registered for job "${job.name}"`);
+    }
+
+    const result = await definition.handler(job.payload || {}, job);
+    await job.update({
+      status: 'completed',
+      result: result ?? null,
+      lastError: null,
+      finishedAt: new Date(),
+      lockedBy: null,
+      lockedUntil: null,
+    });
+  } catch (error) {
+    const retry = shouldRetry(job.attempts, job.maxAttempts);
+    console.error(
+      `[Jobs] ${job.name} #${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`,
+      error.message,
+    );
+    await job.update({
+      status: retry ? 'pending' : 'failed',
+      runAt: retry ? new Date(Date.now() + retryDelayMs(job.attempts)) : job.runAt,
+      lastError: error.stack || error.message,
+      finishedAt: retry ? null : new Date(),
+      lockedBy: null,
+      lockedUntil: null,
+    });
+    if (retry) return;
+  }
+
+  // The finished run released the unique key, so the next slot can be queued
+  if (definition?.everySeconds && job.uniqueKey === recurringKey(job.name)) {
+    await enqueueJob(
+      job.name,
+      {},
+      {
+        uniqueKey: recurringKey(job.name),
+        runAt: nextIntervalRun(new Date(), definition.everySeconds),
+      },
+    );
+  }
+}
+
+/**
+ * Claim and run due jobs until none are left or the per-tick limit is reached
+ */
+export async function processDueJobs() {
+  let processed = 0;
+  while (processed < MAX_RUNS_PER_TICK) {
+    const job = await claimNextJob();
+    if (!job) break;
+    await runJob(job);
+    processed++;
+  }
+  return processed;
+}
+
+/**
+ * Start polling the queue in this process
+ */
+export async function startJobRunner() {
+  if (pollTimer) return;
+
+  await ensureRecurringJobs();
+
+  pollTimer = setInterval(async () => {
+    // Skip the tick if the previous one is still working through the queue
+    if (ticking) return;
+    ticking = true;
+    try {
+      await processDueJobs();
+    } catch (error) {
+      console.error('[Jobs] Error processing queue:', error.message);
+    } finally {
+      ticking = false;
+    }
+  }, POLL_INTERVAL_MS);
+
+  console.log(`[Jobs] Runner ${WORKER_ID} started (${definitions.size} jobs registered)`);
+}
+
+/**
+ * Stop polling; a run in progress finishes or is reclaimed after its lease expires
+ */
+export function stopJobRunner() {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
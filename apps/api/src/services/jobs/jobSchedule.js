@@ -0,0 +1,36 @@
+/**
+ * Job Schedule
+ * Pure timing rules for the background job queue: retry backoff and recurring run times
+ */
+
+export const RETRY_BASE_MS = 30 * 1000;
+export const RETRY_MAX_MS = 60 * 60 * 1000;
+
+/**
+ * Delay before retrying a failed run: exponential from 30s, capped at an hour
+ * @param {number} attempts - Attempts made so far, including the one that just failed
+ * @returns {number} milliseconds
+ */
+export function retryDelayMs(attempts, { baseMs = RETRY_BASE_MS, maxMs = RETRY_MAX_MS } = {}) {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(baseMs * 2 ** exponent, maxMs);
+}
+
+/**
+ * Next run of a job that recurs every `everySeconds`, aligned to the interval since the
+ * epoch so every replica computes the same slot (e.g. hourly jobs run on the hour)
+ * @param {Date} now
+ * @param {number} everySeconds
+ * @returns {Date}
+ */
+export function nextIntervalRun(now, everySeconds) {
+  const intervalMs = everySeconds * 1000;
+  return new Date((Math.floor(now.getTime() / intervalMs) + 1) * intervalMs);
+}
+
+/**
+ * Whether a failed run should be retried or is permanently failed
+ */
+export function shouldRetry(attempts, maxAttempts) {
+  return attempts < maxAttempts;
+}
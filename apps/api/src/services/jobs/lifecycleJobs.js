@@ -0,0 +1,137 @@
+/**
+ * Lifecycle Jobs
+ * Time-based lifecycle work run by the background job queue: auction status transitions,
+ * reservation, custom offer and featured vendor expiry, notification digests, import staging
+ * cleanup and pruning of old job runs
+ */
+
+import { Op } from 'sequelize';
+import db from '../../models/index.js';
+import { updateAuctionStatuses } from '../auctionStatusService.js';
+import { purgeExpiredStagedImports } from '../import/stagingStore.js';
+import { postOfferEvent } from '../offerChatService.js';
+import { sendDueDigests } from '../notificationDigestService.js';
+import { registerJob } from './jobQueue.js';
+
+const { Reservation, CustomOffer, Vendor, BackgroundJob } = db;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COMPLETED_RUN_RETENTION_DAYS = 7;
+const FAILED_RUN_RETENTION_DAYS = 30;
+
+/**
+ * Expire active reservations past their expiry time
+ */
+export const expireReservations = async () => {
+  const [expired] = await Reservation.update(
+    { status: 'expired' },
+    { where: { status: 'active', expiresAt: { [Op.lte]: new Date() } } },
+  );
+  return { expired };
+};
+
+/**
+ * Expire pending custom offers past their expiry time
+ * Offers already negotiated in chat get an "expired" message in their conversation.
+ */
+export const expireCustomOffers = async () => {
+  const due = { status: 'pending', expiresAt: { [Op.lte]: new Date() } };
+  const inChat = await CustomOffer.findAll({
+    where: { ...due, conversationId: { [Op.ne]: null } },
+    include: [{ model: Vendor, as: 'vendor', attributes: ['id', 'userId'] }],
+  });
+
+  const [expired] = await CustomOffer.update({ status: 'expired' }, { where: due });
+
+  for (const offer of inChat) {
+    offer.status = 'expired';
+    await postOfferEvent(offer, 'expired', offer.vendor?.userId ?? offer.userId);
+  }
+  return { expired };
+};
+
+/**
+ * Turn off featured status for vendors whose featured period has ended
+ * @returns {Object} { expiredCount, vendors: [{ id, shopName }] }
+ */
+export const expireFeaturedVendors = async () => {
+  const expiredVendors = await Vendor.findAll({
+    where: {
+      isFeatured: true,
+      featuredEndDate: {
+        [Op.lte]: new Date(),
+        [Op.ne]: null,
+      },
+    },
+  });
+
+  for (const vendor of expiredVendors) {
+    await vendor.update({ isFeatured: false });
+  }
+
+  return {
+    expiredCount: expiredVendors.length,
+    vendors: expiredVendors.map((v) => ({ id: v.id, shopName: v.shopName })),
+  };
+};
+
+/**
+ * Delete finished job runs past their retention period
+ */
+export const pruneJobRuns = async () => {
+  const now = Date.now();
+  const completed = await BackgroundJob.destroy({
+    where: {
+      status: 'completed',
+      finishedAt: { [Op.lt]: new Date(now - COMPLETED_RUN_RETENTION_DAYS * DAY_MS) },
+    },
+  });
+  const failed = await BackgroundJob.destroy({
+    where: {
+      status: 'failed',
+      finishedAt: { [Op.lt]: new Date(now - FAILED_RUN_RETENTION_DAYS * DAY_MS) },
+    },
+  });
+  return { completed, failed };
+};
+
+/**
+ * Register the lifecycle jobs with the queue
+ */
+export function registerLifecycleJobs() {
+  registerJob('auction-status', updateAuctionStatuses, {
+    description: 'Activate upcoming auctions and close ended ones',
+    everySeconds: 60,
+  });
+  registerJob('reservation-expiry', expireReservations, {
+    description: 'Expire reservations past their expiry time',
+    everySeconds: 300,
+  });
+  registerJob('custom-offer-expiry', expireCustomOffers, {
+    description: 'Expire pending custom offers past their expiry time',
+    everySeconds: 300,
+  });
+  registerJob(
+    'featured-vendor-expiry',
+    async () => {
+      const { expiredCount } = await expireFeaturedVendors();
+      return { expired: expiredCount };
+    },
+    {
+      description: 'Remove featured status when the featured period ends',
+      everySeconds: 3600,
+    },
+  );
+  registerJob('notification-digests', () => sendDueDigests(), {
+    description: 'Email daily and weekly digests and notifications held during quiet hours',
+    everySeconds: 900,
+  });
+  registerJob('import-staging-cleanup', async () => ({ purged: purgeExpiredStagedImports() }), {
+    description: "Purge expired staged imports from the runner's in-memory store",
+    everySeconds: 600,
+  });
+  registerJob('job-run-cleanup', pruneJobRuns, {
+    description: `Delete completed runs after ${COMPLETED_RUN_RETENTION_DAYS} days and failed runs after ${FAILED_RUN_RETENTION_DAYS} days`,
+    everySeconds: 86400,
+  });
+}
@@ -0,0 +1,310 @@
+/**
+ * Notification Catalogue
+ * Every notification type the platform sends, the channels it can go out on and their defaults,
+ * and the rules that turn a user's preferences into the channels one notification uses
+ *
+ * Channels: inApp is the notifications inbox, push the live pop-up while the site is open,
+ * email and SMS the outside channels. A user's notificationPreferences only hold overrides,
+ * { [type]: { [channel]: boolean } }; anything unset falls back to the type's default. Required
+ * channels (account and money emails) cannot be turned off. emailNotifications stays a master
+ * switch for all other email, and SMS also needs a verified, opted-in phone.
+ *
+ * Email that is not required can also be batched: each type goes out instantly or in a daily or
+ * weekly digest, chosen per type ({ [type]: { digest } }), else by the user's notificationDigest,
+ * else by the type's default.
+ */
+
+export const NOTIFICATION_CHANNELS = ['inApp', 'email', 'sms', 'push'];
+
+// Most SMS a user receives per day, across all types
+export const SMS_DAILY_LIMIT = 3;
+
+export const DIGEST_MODES = ['instant', 'daily', 'weekly'];
+
+// audience: who sees the category in their preference center
+export const NOTIFICATION_CATEGORIES = {
+  orders: { label: 'Orders', audience: 'customer' },
+  auctions: { label: 'Auctions', audience: 'customer' },
+  offers: { label: 'Offers', audience: 'customer' },
+  payments: { label: 'Payments & refunds', audience: 'customer' },
+  alerts: { label: 'Saved searches & requests', audience: 'customer' },
+  account: { label: 'Membership', audience: 'customer' },
+  selling: { label: 'Selling', audience: 'vendor' },
+  admin: { label: 'Administration', audience: 'admin' },
+};
+
+/**
+ * channels: supported channels and whether each is on by default
+ * required: channels that are always used (when the type supports them)
+ * digest: default email mode for high-volume types (instant when unset)
+ */
+export const NOTIFICATION_TYPES = {
+  ORDER_CONFIRMED_BUYER: {
+    category: 'orders',
+    label: 'Order confirmations',
+    title: 'Order Confirmed',
+    channels: { inApp: true, email: true, sms: true, push: true },
+  },
+  AUCTION_OUTBID: {
+    category: 'auctions',
+    label: 'Outbid alerts',
+    title: "You've Been Outbid",
+    channels: { inApp: true, email: true, sms: true, push: true },
+    digest: 'daily',
+  },
+  AUCTION_WON_PAYMENT_DUE: {
+    category: 'auctions',
+    label: 'Auction wins and payment reminders',
+    title: 'You Won an Auction!',
+    channels: { inApp: true, email: true, sms: true, push: true },
+  },
+  custom_offer: {
+    category: 'offers',
+    label: 'Custom offers from sellers',
+    title: 'New Custom Offer',
+    channels: { inApp: true, email: true, push: true },
+    digest: 'daily',
+  },
+  offer_response: {
+    category: 'offers',
+    label: 'Replies to your offers',
+    title: 'Offer Update',
+    channels: { inApp: true, email: true, push: true },
+    digest: 'daily',
+  },
+  PAYMENT_FAILED: {
+    category: 'payments',
+    label: 'Failed payments',
+    title: 'Payment Failed',
+    channels: { inApp: true, email: true, sms: true, push: true },
+    required: ['email'],
+  },
+  REFUND_ISSUED: {
+    category: 'payments',
+    label: 'Refunds',
+    title: 'Refund Issued',
+    channels: { inApp: true, push: true },
+  },
+  SAVED_SEARCH_MATCH: {
+    category: 'alerts',
+    label: 'Saved search matches',
+    title: 'New Match for Your Saved Search',
+    channels: { inApp: true, email: true, push: true },
+  },
+  RARE_BOOK_REQUEST_MATCH: {
+    category: 'alerts',
+    label: 'Rare book request matches',
+    title: 'A Book You Requested May Be Available',
+    channels: { inApp: true, push: true },
+  },
+  MEMBERSHIP_UPDATE: {
+    category: 'account',
+    label: 'Membership changes and billing',
+    title: 'Membership Updated',
+    channels: { inApp: true, email: true, push: true },
+    required: ['email'],
+  },
+  ORDER_NEW_VENDOR: {
+    category: 'selling',
+    label: 'New orders',
+    title: 'New Order Received',
+    channels: { inApp: true, email: true, push: true },
+  },
+  buyer_offer: {
+    category: 'selling',
+    label: 'Offers from buyers',
+    title: 'New Offer Received',
+    channels: { inApp: true, email: true, push: true },
+    digest: 'daily',
+  },
+  RARE_BOOK_REQUEST_MATCH_VENDOR: {
+    category: 'selling',
+    label: 'Listings matching rare book requests',
+    title: 'Your Listing Matches a Request',
+    channels: { inApp: true, push: true },
+  },
+  REFUND_ISSUED_VENDOR: {
+    category: 'selling',
+    label: 'Refunds on your sales',
+    title: 'Refund Issued on Your Sale',
+    channels: { inApp: true, push: true },
+  },
+  REFUND_REQUEST_DECLINED: {
+    category: 'selling',
+    label: 'Refund request decisions',
+    title: 'Refund Request Declined',
+    channels: { inApp: true, push: true },
+  },
+  PAYMENT_DISPUTE_OPENED_VENDOR: {
+    category: 'selling',
+    label: 'Disputed sales',
+    title: 'A Sale Was Disputed',
+    channels: { inApp: true, push: true },
+  },
+  PAYMENT_DISPUTE_CLOSED_VENDOR: {
+    category: 'selling',
+    label: 'Dispute outcomes',
+    title: 'Dispute Closed',
+    channels: { inApp: true, push: true },
+  },
+  VENDOR_PAYOUT_UPDATE: {
+    category: 'selling',
+    label: 'Payouts and withdrawals',
+    title: 'Payout Update',
+    channels: { inApp: true, email: true, push: true },
+    required: ['email'],
+  },
+  VENDOR_ACCOUNT_STATUS: {
+    category: 'selling',
+    label: 'Seller account status',
+    title: 'Seller Account Update',
+    channels: { inApp: true, email: true, push: true },
+    required: ['email'],
+  },
+  PAYMENT_DISPUTE_OPENED: {
+    category: 'admin',
+    label: 'New payment disputes',
+    title: 'Payment Disputed',
+    channels: { inApp: true, push: true },
+  },
+  PAYMENT_DISPUTE_CLOSED: {
+    category: 'admin',
+    label: 'Closed payment disputes',
+    title: 'Dispute Closed',
+    channels: { inApp: true, push: true },
+  },
+  REFUND_REQUESTED: {
+    category: 'admin',
+    label: 'Vendor refund requests',
+    title: 'Refund Requested',
+    channels: { inApp: true, push: true },
+  },
+};
+
+/**
+ * Whether a user has a verified phone that accepts SMS (opted in, never replied STOP)
+ */
+export function isSmsEligible(user) {
+  const metadata = user?.metadata || {};
+  return (
+    !!user?.phoneNumber &&
+    metadata.smsOptIn === true &&
+    metadata.smsStop !== true &&
+    (metadata.smsVerified === true || metadata.phoneVerified === true)
+  );
+}
+
+const isRequired = (entry, channel) => !!entry.required?.includes(channel);
+
+/**
+ * The user's choice for one channel of a type, ignoring eligibility
+ * Null when the type does not go out on that channel.
+ */
+export function channelPreference(type, channel, user) {
+  const entry = NOTIFICATION_TYPES[type];
+  if (!entry || !(channel in entry.channels)) return null;
+  if (isRequired(entry, channel)) return true;
+
+  const choice = user?.notificationPreferences?.[type]?.[channel];
+  return typeof choice === 'boolean' ? choice : entry.channels[channel];
+}
+
+/**
+ * Channels one notification of a type goes out on for a user
+ * Types missing from the catalogue only reach the inbox and the live pop-up.
+ * @returns {{ inApp: boolean, email: boolean, sms: boolean, push: boolean }}
+ */
+export function resolveChannels(type, user) {
+  const entry = NOTIFICATION_TYPES[type];
+  if (!entry) return { inApp: true, email: false, sms: false, push: true };
+
+  const channels = {};
+  for (const channel of NOTIFICATION_CHANNELS) {
+    channels[channel] = channelPreference(type, channel, user) === true;
+  }
+  if (!isRequired(entry, 'email') && user?.emailNotifications === false) channels.email = false;
+  if (!isSmsEligible(user)) channels.sms = false;
+  return channels;
+}
+
+/**
+ * How a type's email reaches a user: 'instant', 'daily' or 'weekly'
+ * Null when the type has no email or its email is required, which always goes out instantly.
+ */
+export function digestPreference(type, user) {
+  const entry = NOTIFICATION_TYPES[type];
+  if (!entry || !('email' in entry.channels) || isRequired(entry, 'email')) return null;
+
+  const choice = user?.notificationPreferences?.[type]?.digest;
+  if (DIGEST_MODES.includes(choice)) return choice;
+  if (DIGEST_MODES.includes(user?.notificationDigest)) return user.notificationDigest;
+  return entry.digest || 'instant';
+}
+
+/**
+ * Clean preferences submitted by a user: known types and channels only, booleans only,
+ * nothing for required channels, and a digest mode only for types that can be batched
+ * @param {Object} input - { [type]: { [channel]: boolean, digest: string } }
+ * @param {Object} current - preferences already saved, merged under the input
+ */
+export function normalizePreferences(input, current = {}) {
+  const preferences = {};
+  const types = new Set([...Object.keys(current || {}), ...Object.keys(input || {})]);
+
+  for (const type of types) {
+    const entry = NOTIFICATION_TYPES[type];
+    if (!entry) continue;
+
+    const merged = { ...current?.[type], ...input?.[type] };
+    const choices = {};
+    for (const channel of NOTIFICATION_CHANNELS) {
+      if (!(channel in entry.channels) || isRequired(entry, channel)) continue;
+      if (typeof merged[channel] === 'boolean') choices[channel] = merged[channel];
+    }
+    if (DIGEST_MODES.includes(merged.digest) && digestPreference(type, {}) !== null) {
+      choices.digest = merged.digest;
+    }
+    if (Object.keys(choices).length) preferences[type] = choices;
+  }
+
+  return preferences;
+}
+
+/**
+ * Preference center rows for a user, grouped by category
+ * @param {Object} user - User with notificationPreferences and notificationDigest
+ * @param {string[]} audiences - categories to include, e.g. ['customer', 'vendor']
+ */
+export function preferenceMatrix(user, audiences = ['customer']) {
+  return Object.entries(NOTIFICATION_CATEGORIES)
+    .filter(([, category]) => audiences.includes(category.audience))
+    .map(([key, category]) => ({
+      key,
+      label: category.label,
+      types: Object.entries(NOTIFICATION_TYPES)
+        .filter(([, entry]) => entry.category === key)
+        .map(([type, entry]) => ({
+          type,
+          label: entry.label,
+          channels: Object.fromEntries(
+            NOTIFICATION_CHANNELS.map((channel) => {
+              const enabled = channelPreference(type, channel, user);
+              return [
+                channel,
+                enabled === null ? null : { enabled, required: isRequired(entry, channel) },
+              ];
+            }),
+          ),
+          digest: digestPreference(type, user),
+        })),
+    }));
+}
+
+/**
+ * Preference center audiences for a user's role
+ */
+export function preferenceAudiences(user) {
+  if (user?.role === 'admin') return ['customer', 'vendor', 'admin'];
+  if (user?.role === 'vendor') return ['customer', 'vendor'];
+  return ['customer'];
+}
@@ -0,0 +1,252 @@
+/**
+ * Notification Digest Rules
+ * Pure timing and rendering rules for notification emails held back from instant delivery:
+ * daily and weekly digests, and quiet hours, all in the recipient's own time zone
+ *
+ * A held email is queued on its Notification row with the time it is due (digestAt). Rows due
+ * for the same user are sent together as one digest email, so a quiet-hours email and a daily
+ * digest due at the same time go out as a single summary.
+ */
+
+// Local time digests go out at, and the weekday of the weekly digest (0 = Sunday)
+export const DIGEST_HOUR = 8;
+export const WEEKLY_DIGEST_DAY = 1;
+
+// Most items listed in one digest email; the rest are summed up with a link to the inbox
+export const DIGEST_MAX_ITEMS = 25;
+
+// Sends a queued email gets before it is marked failed, and the wait added after each failure
+export const DIGEST_MAX_ATTEMPTS = 5;
+const DIGEST_RETRY_MINUTES = 30;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const WEEKDAYS = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * The user's time zone when it is one the runtime knows, otherwise UTC
+ */
+export function resolveTimeZone(timeZone) {
+  if (!timeZone) return 'UTC';
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Wall-clock parts of an instant in a time zone
+ * @returns {{ year, month, day, hour, minute, weekday }} month 1-12, weekday 0 = Sunday
+ */
+export function localParts(date, timeZone) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: resolveTimeZone(timeZone),
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const value = (type) => parts.find((part) => part.type === type)?.value;
+  return {
+    year: Number(value('year')),
+    month: Number(value('month')),
+    day: Number(value('day')),
+    hour: Number(value('hour')),
+    minute: Number(value('minute')),
+    weekday: WEEKDAYS[value('weekday')],
+  };
+}
+
+/**
+ * The instant a wall-clock time happens in a time zone
+ * Day overflow is allowed (day 32 is the 1st of the next month). A time skipped by a DST change
+ * resolves to the same wall-clock time under the earlier offset.
+ */
+export function zonedTime(timeZone, year, month, day, hour = 0, minute = 0) {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant) => {
+    const local = localParts(new Date(instant), timeZone);
+    return (
+      Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) -
+      Math.floor(instant / 60000) * 60000
+    );
+  };
+
+  const guess = wall - offsetAt(wall);
+  return new Date(wall - offsetAt(guess));
+}
+
+const toMinutes = (time) => {
+  const match = TIME_PATTERN.exec(time || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/**
+ * Clean quiet hours submitted by a user
+ * @param {Object|null} input - { start: 'HH:MM', end: 'HH:MM' }, or null to turn them off
+ * @returns {Object|null|undefined} the quiet hours to save, or undefined when the input is invalid
+ */
+export function normalizeQuietHours(input) {
+  if (input === null) return null;
+  if (!input || typeof input !== 'object') return undefined;
+
+  const start = toMinutes(input.start);
+  const end = toMinutes(input.end);
+  if (start === null || end === null || start === end) return undefined;
+  return { start: input.start, end: input.end };
+}
+
+/**
+ * Whether an instant falls within the user's quiet hours, read in their time zone
+ * Quiet hours may run past midnight (22:00 to 07:00).
+ */
+export function isQuietHours(date, user) {
+  const start = toMinutes(user?.quietHours?.start);
+  const end = toMinutes(user?.quietHours?.end);
+  if (start === null || end === null || start === end) return false;
+
+  const local = localParts(date, user.timezone);
+  const minutes = local.hour * 60 + local.minute;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * The first instant after `date` that is outside the user's quiet hours
+ * Returns `date` itself when it is not within quiet hours.
+ */
+export function quietHoursEnd(date, user) {
+  if (!isQuietHours(date, user)) return date;
+
+  const timeZone = resolveTimeZone(user.timezone);
+  const end = toMinutes(user.quietHours.end);
+  const local = localParts(date, timeZone);
+  const today = zonedTime(timeZone, local.year, local.month, local.day, 0, end);
+  return today > date ? today : zonedTime(timeZone, local.year, local.month, local.day + 1, 0, end);
+}
+
+/**
+ * When the next digest of a mode goes out for a user: DIGEST_HOUR local time every day, or every
+ * WEEKLY_DIGEST_DAY, moved to the end of quiet hours when it falls within them
+ * @param {Date} now
+ * @param {string} mode - 'daily' or 'weekly'
+ * @param {Object} user - User with timezone and quietHours
+ */
+export function nextDigestRun(now, mode, user) {
+  const timeZone = resolveTimeZone(user?.timezone);
+  const local = localParts(now, timeZone);
+
+  let days = 0;
+  if (mode === 'weekly') days = (WEEKLY_DIGEST_DAY - local.weekday + 7) % 7;
+
+  let run = zonedTime(timeZone, local.year, local.month, local.day + days, DIGEST_HOUR);
+  if (run <= now) {
+    run = zonedTime(
+      timeZone,
+      local.year,
+      local.month,
+      local.day + days + (mode === 'weekly' ? 7 : 1),
+      DIGEST_HOUR,
+    );
+  }
+  return quietHoursEnd(run, user);
+}
+
+/**
+ * When an email should go out: null to send it now, or the time it is queued for
+ * @param {Date} now
+ * @param {string} mode - the type's digest mode for the user
+ * @param {Object} user - User with timezone and quietHours
+ * @param {Object} options
+ * @param {boolean} [options.required] - account and money emails, never held back
+ */
+export function emailSchedule(now, mode, user, { required = false } = {}) {
+  if (required) return null;
+  if (mode === 'daily' || mode === 'weekly') return nextDigestRun(now, mode, user);
+  return isQuietHours(now, user) ? quietHoursEnd(now, user) : null;
+}
+
+/**
+ * When a queued email whose digest failed to send is tried again
+ * Each failure waits DIGEST_RETRY_MINUTES longer than the last.
+ * @param {number} attempts - sends tried so far, including the one that just failed
+ * @returns {Date|null} the retry time, or null once all DIGEST_MAX_ATTEMPTS are used
+ */
+export function digestRetryAt(now, attempts) {
+  if (attempts >= DIGEST_MAX_ATTEMPTS) return null;
+  return new Date(now.getTime() + attempts * DIGEST_RETRY_MINUTES * 60 * 1000);
+}
+
+const HTML_ESCAPES = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export const escapeHtml = (text) => String(text ?? '').replace(/[&<>"']/g, (c) => HTML_ESCAPES[c]);
+
+/**
+ * Group digest notifications under headings, keeping the order headings first appear in
+ * @param {Object[]} notifications - rows with title, message and createdAt, oldest first
+ * @param {Function} headingOf - notification => heading label
+ * @returns {Array<{ heading: string, items: Object[] }>}
+ */
+export function groupDigestItems(notifications, headingOf) {
+  const groups = new Map();
+  for (const notification of notifications) {
+    const heading = headingOf(notification);
+    if (!groups.has(heading)) groups.set(heading, []);
+    groups.get(heading).push(notification);
+  }
+  return [...groups].map(([heading, items]) => ({ heading, items }));
+}
+
+const formatLocalTime = (date, timeZone) =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone: resolveTimeZone(timeZone),
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(date);
+
+/**
+ * Template variables for a digest email
+ * @param {Object} user - User with firstName, timezone
+ * @param {Array} groups - from groupDigestItems
+ * @param {Object} links - { notificationsUrl, preferencesUrl }
+ * @returns {Object} { userName, count, summary, itemsHtml, notificationsUrl, preferencesUrl }
+ */
+export function digestVariables(user, groups, { notificationsUrl, preferencesUrl }) {
+  const count = groups.reduce((sum, group) => sum + group.items.length, 0);
+
+  let listed = 0;
+  const sections = [];
+  for (const group of groups) {
+    const items = group.items.slice(0, Math.max(0, DIGEST_MAX_ITEMS - listed));
+    if (!items.length) break;
+    listed += items.length;
+
+    const rows = items
+      .map(
+        (item) =>
+          `<li><strong>${escapeHtml(item.title)}</strong><br/>${escapeHtml(item.message)}` +
+          `<br/><small>${escapeHtml(formatLocalTime(new Date(item.createdAt), user.timezone))}</small></li>`,
+      )
+      .join('');
+    sections.push(`<h3>${escapeHtml(group.heading)}</h3><ul>${rows}</ul>`);
+  }
+  if (count > listed) {
+    sections.push(
+      `<p><a href="${escapeHtml(notificationsUrl)}">And ${count - listed} more in your notifications</a></p>`,
+    );
+  }
+
+  return {
+    userName: user.firstName || 'there',
+    count: String(count),
+    summary: count === 1 ? '1 update' : `${count} updates`,
+    itemsHtml: sections.join(''),
+    notificationsUrl,
+    preferencesUrl,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Notification Digest Service
+ * Sends the emails notificationDispatch queued for daily and weekly digests or held back during
+ * quiet hours: every user with queued notifications now due gets one summary email, rendered
+ * from the notification-digest email template
+ */
+
+import { Op } from 'sequelize';
+import db from '../models/index.js';
+import { sendTemplatedEmail } from './emailService.js';
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_TYPES,
+  resolveChannels,
+} from './notificationCatalogue.js';
+import { digestRetryAt, digestVariables, groupDigestItems } from './notificationDigestRules.js';
+
+const { Notification, User, sequelize } = db;
+
+const DIGEST_TEMPLATE = 'notification-digest';
+
+// Users sent a digest per run; the rest are picked up by the next run
+const USERS_PER_RUN = 200;
+
+const dueWhere = (now) => ({
+  digestAt: { [Op.lte]: now },
+  [Op.and]: [sequelize.where(sequelize.json('deliveries.email'), 'queued')],
+});
+
+const headingOf = (notification) =>
+  NOTIFICATION_CATEGORIES[NOTIFICATION_TYPES[notification.type]?.category]?.label || 'Updates';
+
+/**
+ * Send one user's due notifications as a single digest email
+ * Notifications whose email the user has since turned off are marked off instead. When the send
+ * fails they stay queued for a later run, and are marked failed once out of attempts.
+ * @returns {string} the email outcome: 'sent', 'failed' or 'off'
+ */
+async function sendUserDigest(user, notifications, now) {
+  const included = notifications.filter(
+    (notification) => resolveChannels(notification.type, user).email,
+  );
+
+  let outcome = 'off';
+  if (included.length && user.email) {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const variables = digestVariables(user, groupDigestItems(included, headingOf), {
+      notificationsUrl: `${frontendUrl}/account/notifications`,
+      preferencesUrl: `${frontendUrl}/account/preferences`,
+    });
+    outcome = (await sendTemplatedEmail(DIGEST_TEMPLATE, user.email, variables))
+      ? 'sent'
+      : 'failed';
+  }
+
+  for (const notification of notifications) {
+    const deliveries = { ...notification.deliveries };
+    let { digestAt } = notification;
+
+    if (!included.includes(notification)) {
+      deliveries.email = 'off';
+    } else if (outcome === 'failed') {
+      deliveries.emailAttempts = (deliveries.emailAttempts || 0) + 1;
+      const retryAt = digestRetryAt(now, deliveries.emailAttempts);
+      if (retryAt) digestAt = retryAt;
+      else deliveries.email = 'failed';
+    } else {
+      deliveries.email = outcome;
+    }
+
+    await notification.update({ deliveries, digestAt });
+  }
+  return outcome;
+}
+
+/**
+ * Send every digest that is due
+ * @returns {Object} { users, sent, failed }
+ */
+export async function sendDueDigests(now = new Date()) {
+  const due = await Notification.findAll({
+    attributes: [[sequelize.fn('DISTINCT', sequelize.col('user_id')), 'userId']],
+    where: dueWhere(now),
+    limit: USERS_PER_RUN,
+    raw: true,
+  });
+
+  const summary = { users: due.length, sent: 0, failed: 0 };
+  for (const { userId } of due) {
+    const [user, notifications] = await Promise.all([
+      User.findByPk(userId),
+      Notification.findAll({
+        where: { userId, ...dueWhere(now) },
+        order: [['createdAt', 'ASC']],
+      }),
+    ]);
+    if (!user) continue;
+
+    const outcome = await sendUserDigest(user, notifications, now);
+    if (outcome === 'sent') summary.sent++;
+    if (outcome === 'failed') summary.failed++;
+  }
+  return summary;
+}
@@ -0,0 +1,181 @@
+/**
+ * Notification Dispatch
+ * The one way to notify a user. Resolves the recipient's channels for the notification type from
+ * their preferences (notificationCatalogue), records the notification and delivers it on each
+ * channel: the inbox row, the live pop-up (push), email and SMS.
+ *
+ * Email that the recipient batches in a daily or weekly digest, or that arrives during their
+ * quiet hours, is queued on the row (deliveries.email 'queued', digestAt) for
+ * notificationDigestService; SMS during quiet hours is not sent at all.
+ *
+ * Every notification leaves a Notification row, even with the inbox channel off (inApp false),
+ * so callers can keep deduplicating on it and deliveries records what went out where.
+ */
+
+import { Op } from 'sequelize';
+import db from '../models/index.js';
+import { sendTemplatedEmail, sendSms } from './emailService.js';
+import { emitNotification } from '../sockets/index.js';
+import {
+  NOTIFICATION_TYPES,
+  SMS_DAILY_LIMIT,
+  digestPreference,
+  resolveChannels,
+} from './notificationCatalogue.js';
+import { emailSchedule, escapeHtml, isQuietHours } from './notificationDigestRules.js';
+
+const { Notification, User, sequelize } = db;
+
+// Rendered from the notification itself for types whose callers have no email of their own
+const EVENT_EMAIL_TEMPLATE = 'notification-event';
+
+const RECIPIENT_FIELDS = ['notificationPreferences', 'quietHours', 'timezone', 'metadata'];
+
+// A user instance passed in is used as is only when it was loaded with the preference fields
+async function loadRecipient(userOrId) {
+  if (userOrId && typeof userOrId === 'object') {
+    if (RECIPIENT_FIELDS.every((field) => userOrId[field] !== undefined)) {
+      return userOrId;
+    }
+    return User.findByPk(userOrId.id);
+  }
+  return userOrId ? User.findByPk(userOrId) : null;
+}
+
+async function smsSentToday(userId) {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return Notification.count({
+    where: {
+      userId,
+      createdAt: { [Op.gte]: today },
+      [Op.and]: [sequelize.where(sequelize.json('deliveries.sms'), 'sent')],
+    },
+  });
+}
+
+async function deliverEmail(user, notification, { template, variables = {}, to }) {
+  const recipient = to || user.email;
+  if (!recipient || !template) return 'off';
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const base = {
+    userName: user.firstName || 'there',
+    title: escapeHtml(notification.title),
+    // Subjects are plain text, so they take the title unescaped
+    subjectTitle: notification.title,
+    message: escapeHtml(notification.message),
+    notificationsUrl: `${frontendUrl}/account/notifications`,
+  };
+
+  try {
+    return (await sendTemplatedEmail(template, recipient, { ...base, ...variables }))
+      ? 'sent'
+      : 'failed';
+  } catch (error) {
+    console.error(`[Notify] Email ${template} to user ${user.id} failed:`, error.message);
+    return 'failed';
+  }
+}
+
+async function deliverSms(user, notification, { message }) {
+  if (!message) return 'off';
+
+  const sentToday = await smsSentToday(user.id);
+  if (sentToday >= SMS_DAILY_LIMIT) {
+    console.log(`[SMS] Rate limit reached for user ${user.id}: ${sentToday}/${SMS_DAILY_LIMIT}`);
+    return 'limited';
+  }
+
+  const result = await sendSms(user.phoneNumber, message, {
+    type: notification.type,
+    entityId: notification.data?.entityId,
+    correlationId: `notification-${notification.id}`,
+  });
+  return result.ok ? 'sent' : 'failed';
+}
+
+/**
+ * Notify a user of an event on every channel their preferences allow
+ * Never throws: a notification that cannot be delivered must not fail the action behind it.
+ * @param {Object|number} userOrId - Recipient User or user id
+ * @param {string} type - Notification type from NOTIFICATION_TYPES
+ * @param {Object} options
+ * @param {string} [options.title] - Inbox title (defaults to the type's title)
+ * @param {string} [options.message] - Inbox message
+ * @param {Object} [options.data] - Notification data ({ entityType, entityId, metadata })
+ * @param {Object} [options.email] - { template, variables, to } when the event has its own email;
+ *   types that go out by email without one use the generic notification-event template
+ * @param {Object} [options.sms] - { message } when the event has an SMS
+ * @returns {Promise<Object|null>} the Notification row, or null
+ */
+export async function dispatchNotification(
+  userOrId,
+  type,
+  { title, message, data = {}, email, sms } = {},
+) {
+  try {
+    const user = await loadRecipient(userOrId);
+    if (!user) return null;
+
+    const channels = resolveChannels(type, user);
+    const heading = title || NOTIFICATION_TYPES[type]?.title || 'Notification';
+
+    const notification = await Notification.create({
+      userId: user.id,
+      type,
+      title: heading,
+      message: message || heading,
+      data,
+      inApp: channels.inApp,
+      isRead: false,
+    });
+
+    const now = new Date();
+    const deliveries = {};
+    let digestAt = null;
+    if (channels.inApp || channels.push) {
+      try {
+        emitNotification(user.id, 'notification:new', {
+          ...notification.toJSON(),
+          silent: !channels.push,
+        });
+        if (channels.push) deliveries.push = 'sent';
+      } catch (socketError) {
+        console.error('Failed to emit notification socket event:', socketError.message);
+      }
+    }
+    const emailOptions = email || (channels.email ? { template: EVENT_EMAIL_TEMPLATE } : null);
+    if (emailOptions && channels.email) {
+      // Types with a required email have no digest mode and always go out at once
+      const mode = digestPreference(type, user);
+      digestAt = emailSchedule(now, mode, user, { required: mode === null });
+      deliveries.email = digestAt ? 'queued' : await deliverEmail(user, notification, emailOptions);
+    } else if (emailOptions) {
+      deliveries.email = 'off';
+    }
+    if (sms) {
+      if (!channels.sms) deliveries.sms = 'off';
+      else if (isQuietHours(now, user)) deliveries.sms = 'quiet';
+      else deliveries.sms = await deliverSms(user, notification, sms);
+    }
+
+    await notification.update({ deliveries, digestAt });
+    return notification;
+  } catch (error) {
+    const userId = typeof userOrId === 'object' ? userOrId?.id : userOrId;
+    console.error(`[Notify] ${type} for user ${userId} failed:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Dispatch one notification to every admin
+ */
+export async function dispatchToAdmins(type, options) {
+  const admins = await User.findAll({ where: { role: 'admin' } });
+  for (const admin of admins) {
+    await dispatchNotification(admin, type, options);
+  }
+}
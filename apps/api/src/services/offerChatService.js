@@ -0,0 +1,154 @@
+/**
+ * Offer Chat Service
+ * Item-anchored conversations and the custom offer messages posted in them. Every offer event —
+ * whether it happens in chat or on the offers pages — leaves a structured message in the
+ * conversation about the offer's item, so both views show the same negotiation.
+ */
+
+import { Op } from 'sequelize';
+import db from '../models/index.js';
+import { getIO } from '../sockets/index.js';
+import { CHAT_NAMESPACE } from '../sockets/chatHandler.js';
+import { createChatMessage, toMessagePayload } from './chatMessageService.js';
+import { OFFER_ITEM_TYPES, offerEventText, toChatItem } from './customOfferRules.js';
+
+const { Conversation, Vendor, Book, BookMedia, Product } = db;
+
+const itemKey = (itemType, itemId) => `${itemType}:${itemId}`;
+
+/**
+ * The book or product an item conversation is about, or null
+ */
+export async function findOfferItem(itemType, itemId) {
+  if (!OFFER_ITEM_TYPES.includes(itemType) || !itemId) return null;
+  return itemType === 'book'
+    ? Book.findByPk(itemId, { include: [{ model: BookMedia, as: 'media' }] })
+    : Product.findByPk(itemId);
+}
+
+/**
+ * Email for an offer notification: the generic event email, linking to the recipient's offers
+ * page rather than the notifications inbox
+ * @param {string} recipient - 'buyer' or 'vendor'
+ */
+export function offerEmail(recipient) {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  return {
+    template: 'notification-event',
+    variables: {
+      notificationsUrl: `${frontendUrl}/${recipient === 'vendor' ? 'vendor' : 'account'}/offers`,
+    },
+  };
+}
+
+/**
+ * Item cards for conversations, keyed by "itemType:itemId"
+ */
+export async function loadChatItems(conversations) {
+  const anchored = conversations.filter((conversation) => conversation.itemId);
+  const idsOf = (type) =>
+    anchored.filter((conversation) => conversation.itemType === type).map((c) => c.itemId);
+
+  const [books, products] = await Promise.all([
+    idsOf('book').length
+      ? Book.findAll({
+          where: { id: { [Op.in]: idsOf('book') } },
+          include: [{ model: BookMedia, as: 'media' }],
+        })
+      : [],
+    idsOf('product').length
+      ? Product.findAll({ where: { id: { [Op.in]: idsOf('product') } } })
+      : [],
+  ]);
+
+  return new Map([
+    ...books.map((book) => [itemKey('book', book.id), toChatItem('book', book)]),
+    ...products.map((product) => [itemKey('product', product.id), toChatItem('product', product)]),
+  ]);
+}
+
+export const chatItemFor = (items, conversation) =>
+  conversation.itemId
+    ? items.get(itemKey(conversation.itemType, conversation.itemId)) || null
+    : null;
+
+/**
+ * The conversation between two users, general or about one item, created when missing
+ * userId becomes userId1 of a new conversation.
+ */
+export async function findOrCreateConversation({
+  userId,
+  otherUserId,
+  itemType = null,
+  itemId = null,
+}) {
+  const anchor = itemId ? { itemType, itemId } : { itemId: null };
+  const conversation = await Conversation.findOne({
+    where: {
+      [Op.or]: [
+        { userId1: userId, userId2: otherUserId },
+        { userId1: otherUserId, userId2: userId },
+      ],
+      ...anchor,
+    },
+  });
+  if (conversation) return conversation;
+
+  return Conversation.create({
+    userId1: userId,
+    userId2: otherUserId,
+    itemType: itemId ? itemType : null,
+    itemId: itemId || null,
+  });
+}
+
+const chatNamespace = () => {
+  try {
+    return getIO().of(CHAT_NAMESPACE);
+  } catch {
+    return null; // Socket.IO not running (scripts, background jobs in another process)
+  }
+};
+
+/**
+ * Post an offer event to the offer's item conversation and broadcast it
+ * The conversation is created on the offer's first event. Failures are logged, not thrown, so
+ * an offer action never fails because its chat message could not be posted.
+ * @param {Object} offer - CustomOffer after the event was applied
+ * @param {string} event - created, countered, accepted, declined, cancelled or expired
+ * @param {number} senderId - User who caused the event (the vendor's user for expiry)
+ */
+export async function postOfferEvent(offer, event, senderId) {
+  try {
+    let { conversationId } = offer;
+    if (!conversationId) {
+      const vendor = await Vendor.findByPk(offer.vendorId, { attributes: ['id', 'userId'] });
+      if (!vendor) return null;
+
+      const conversation = await findOrCreateConversation({
+        userId: offer.userId,
+        otherUserId: vendor.userId,
+        itemType: offer.itemType,
+        itemId: offer.itemId,
+      });
+      conversationId = conversation.id;
+      await offer.update({ conversationId });
+    }
+
+    const message = await createChatMessage({
+      conversationId,
+      senderId,
+      body: offerEventText(event, offer),
+      kind: 'offer',
+      offerId: offer.id,
+      offerEvent: event,
+    });
+
+    const payload = toMessagePayload(message, offer);
+    chatNamespace()?.to(`conversation:${conversationId}`).emit('message:new', payload);
+    return payload;
+  } catch (error) {
+    console.error(`ERROR: Failed to post offer ${offer.id} ${event} to chat:`, error.message);
+    return null;
+  }
+}
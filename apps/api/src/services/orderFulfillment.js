@@ -0,0 +1,60 @@
+/**
+ * Order Fulfillment
+ * Pure rules for vendor shipments (sub-orders) and the parent order status derived from them.
+ * Each vendor in an order ships independently; the parent order only reads "shipped"
+ * once every vendor has shipped.
+ */
+
+export const SHIPMENT_STATUSES = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'];
+
+// Forward-only progression; cancelled is only reachable before shipping
+const NEXT_STATUSES = {
+  pending: ['processing', 'shipped', 'delivered', 'cancelled'],
+  processing: ['shipped', 'delivered', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+/**
+ * Whether a shipment may move from one status to another (re-saving the same status is allowed)
+ */
+export function canTransition(from, to) {
+  if (from === to) return SHIPMENT_STATUSES.includes(to);
+  return (NEXT_STATUSES[from] || []).includes(to);
+}
+
+/**
+ * Timestamp fields to set when a shipment enters a status
+ */
+export function statusTimestamps(status, shipment = {}, now = new Date()) {
+  const updates = {};
+  if ((status === 'shipped' || status === 'delivered') && !shipment.shippedAt) {
+    updates.shippedAt = now;
+  }
+  if (status === 'delivered' && !shipment.deliveredAt) {
+    updates.deliveredAt = now;
+  }
+  return updates;
+}
+
+/**
+ * Parent order status from its shipment statuses
+ * @param {Array<string>} statuses - one status per vendor shipment
+ * @param {string} currentStatus - returned unchanged when shipments do not decide it
+ */
+export function deriveOrderStatus(statuses = [], currentStatus = 'pending') {
+  if (statuses.length === 0) return currentStatus;
+
+  const active = statuses.filter((status) => status !== 'cancelled');
+  if (active.length === 0) return 'cancelled';
+
+  const shipped = active.filter((status) => status === 'shipped' || status === 'delivered');
+
+  if (active.every((status) => status === 'delivered')) return 'delivered';
+  if (shipped.length === active.length) return 'shipped';
+  if (shipped.length > 0) return 'partially_shipped';
+  if (active.some((status) => status === 'processing')) return 'processing';
+
+  return currentStatus;
+}
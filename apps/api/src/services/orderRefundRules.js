@@ -0,0 +1,352 @@
+/**
+ * Order Refund Rules
+ * Pure calculations for partial and per-item refunds: what is still refundable on an order,
+ * how a refund splits into item, coupon discount, tax and shipping portions, and how much of
+ * a vendor earning it claws back
+ *
+ * Each refund line records the share (0–1) of its order item being refunded, so item-based
+ * and amount-based refunds on the same item add up, and the coupon discount, exclusive tax and
+ * vendor earning for the item are reversed by the same share.
+ */
+
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+// Amounts within half a cent are treated as equal
+const MONEY_EPSILON = 0.005;
+
+// Refund statuses that count against what is still refundable; 'processing' refunds were
+// accepted by Stripe but are not applied to the order yet
+export const ACTIVE_REFUND_STATUSES = ['pending', 'processing', 'succeeded'];
+
+const num = (value) => parseFloat(value) || 0;
+
+/**
+ * Tax charged on top of an item's price; tax contained in tax-inclusive prices is already part
+ * of the item subtotal
+ */
+function exclusiveTax(item) {
+  if (!Array.isArray(item.taxLines)) return num(item.taxAmount);
+  return item.taxLines
+    .filter((line) => !line.inclusive)
+    .reduce((sum, line) => sum + num(line.amount), 0);
+}
+
+/**
+ * Order shipping as per-vendor lines; orders placed before per-vendor shipping have one line
+ */
+function orderShippingLines(order) {
+  if (Array.isArray(order.shippingLines) && order.shippingLines.length > 0) {
+    return order.shippingLines.map((line) => ({
+      vendorId: line.vendorId ?? null,
+      amount: num(line.amount),
+    }));
+  }
+  return num(order.shippingCost) > 0 ? [{ vendorId: null, amount: num(order.shippingCost) }] : [];
+}
+
+/**
+ * What is left to refund on an order after earlier refunds
+ * @param {Object} order - Order with items ({ id, vendorId, title, quantity, subtotal, taxAmount,
+ *   taxLines }), shippingLines, shippingCost, subtotal, discountAmount and totalAmount
+ * @param {Array} refunds - Earlier pending or succeeded refunds ({ lines, shippingLines, amount })
+ * @param {Object} options
+ * @param {string} options.discountType - Coupon discount type; 'free_shipping' discounts
+ *   shipping, anything else discounts the items
+ * @returns {Object} { items, shipping, refundedAmount, remainingAmount }
+ */
+export function refundableSummary(order, refunds = [], { discountType } = {}) {
+  const discount = num(order.discountAmount);
+  const orderSubtotal = num(order.subtotal);
+  const shippingLines = orderShippingLines(order);
+  const shippingTotal = shippingLines.reduce((sum, line) => sum + line.amount, 0);
+  const discountsShipping = discountType === 'free_shipping';
+
+  const refundedItems = new Map();
+  const refundedShipping = new Map();
+  for (const refund of refunds) {
+    for (const line of refund.lines || []) {
+      const entry = refundedItems.get(line.orderItemId) || { share: 0, quantity: 0 };
+      entry.share += num(line.share);
+      entry.quantity += line.quantity || 0;
+      refundedItems.set(line.orderItemId, entry);
+    }
+    for (const line of refund.shippingLines || []) {
+      const key = line.vendorId ?? null;
+      refundedShipping.set(key, (refundedShipping.get(key) || 0) + num(line.amount));
+    }
+  }
+
+  const items = (order.items || []).map((item) => {
+    const merchandise = num(item.subtotal);
+    const itemDiscount =
+      !discountsShipping && orderSubtotal > 0 ? (discount * merchandise) / orderSubtotal : 0;
+    const tax = exclusiveTax(item);
+    const refunded = refundedItems.get(item.id) || { share: 0, quantity: 0 };
+    const remainingShare = Math.max(0, 1 - refunded.share);
+
+    return {
+      orderItemId: item.id,
+      vendorId: item.vendorId ?? null,
+      title: item.title || null,
+      quantity: item.quantity || 1,
+      remainingQuantity: Math.max(0, (item.quantity || 1) - refunded.quantity),
+      merchandise,
+      discount: itemDiscount,
+      tax,
+      value: merchandise - itemDiscount + tax,
+      refundedShare: Math.min(1, refunded.share),
+      remainingShare,
+      remainingAmount: roundMoney((merchandise - itemDiscount + tax) * remainingShare),
+    };
+  });
+
+  const shipping = shippingLines.map((line) => {
+    const lineDiscount =
+      discountsShipping && shippingTotal > 0 ? (discount * line.amount) / shippingTotal : 0;
+    const refunded = refundedShipping.get(line.vendorId) || 0;
+    const remaining = Math.max(0, line.amount - refunded);
+
+    return {
+      vendorId: line.vendorId,
+      amount: line.amount,
+      discount: lineDiscount,
+      remainingAmount: remaining,
+      remainingNet: roundMoney(
+        line.amount > 0 ? remaining - (lineDiscount * remaining) / line.amount : 0,
+      ),
+    };
+  });
+
+  const refundedAmount = roundMoney(refunds.reduce((sum, refund) => sum + num(refund.amount), 0));
+
+  return {
+    items,
+    shipping,
+    refundedAmount,
+    remainingAmount: roundMoney(Math.max(0, num(order.totalAmount) - refundedAmount)),
+  };
+}
+
+/**
+ * Split a refund request into item, discount, tax and shipping portions
+ * @param {Object} order - See refundableSummary
+ * @param {Array} refunds - Earlier pending or succeeded refunds
+ * @param {Object} request
+ * @param {Array} request.items - [{ orderItemId, quantity }] units to refund
+ * @param {boolean|Array} request.refundShipping - true for all remaining shipping, or the
+ *   vendor ids whose shipping to refund
+ * @param {number} request.amount - With items or shipping, caps the refund (e.g. less a
+ *   restocking fee); on its own, refunded across the remaining items by value
+ * @param {Object} options
+ * @param {string} options.discountType - Coupon discount type
+ * @param {number} options.vendorId - Restrict the refund to one vendor's items and shipping
+ * @returns {Object} { error } when the request is invalid, otherwise { lines, shippingLines,
+ *   itemsAmount, shippingAmount, discountAmount, taxAmount, amount }
+ */
+export function calculateRefund(order, refunds, request = {}, options = {}) {
+  const { vendorId } = options;
+  const summary = refundableSummary(order, refunds, options);
+  const requestedItems = Array.isArray(request.items) ? request.items : [];
+  const requestedAmount =
+    request.amount === undefined || request.amount === null || request.amount === ''
+      ? null
+      : num(request.amount);
+
+  if (requestedAmount !== null && requestedAmount <= 0) {
+    return { error: 'Refund amount must be greater than zero' };
+  }
+
+  // Item shares
+  const shares = [];
+  for (const requested of requestedItems) {
+    const quantity = parseInt(requested.quantity, 10);
+    if (!quantity) continue;
+
+    const orderItemId = Number(requested.orderItemId);
+    const item = summary.items.find((entry) => entry.orderItemId === orderItemId);
+    if (!item || (vendorId && item.vendorId !== vendorId)) {
+      return { error: `Order item ${orderItemId} is not part of this order` };
+    }
+    if (quantity < 0 || quantity > item.remainingQuantity || item.remainingShare <= 0) {
+      return {
+        error: `Only ${item.remainingQuantity} of "${item.title || 'this item'}" can still be refunded`,
+      };
+    }
+    shares.push({
+      item,
+      quantity,
+      share: (item.remainingShare * quantity) / item.remainingQuantity,
+    });
+  }
+
+  // Shipping
+  const shippingVendorIds =
+    request.refundShipping === true
+      ? summary.shipping.map((line) => line.vendorId)
+      : Array.isArray(request.refundShipping)
+        ? request.refundShipping.map((id) => (id === null ? null : Number(id)))
+        : [];
+  const shipping = summary.shipping.filter(
+    (line) =>
+      line.remainingAmount > MONEY_EPSILON &&
+      shippingVendorIds.includes(line.vendorId) &&
+      (!vendorId || line.vendorId === vendorId),
+  );
+
+  let scale = 1;
+  const amountBased = shares.length === 0 && shipping.length === 0;
+  if (amountBased) {
+    if (requestedAmount === null) {
+      return { error: 'Select items, shipping or an amount to refund' };
+    }
+
+    // Amount-based refund, spread over the remaining items by value
+    const candidates = summary.items.filter(
+      (item) => item.remainingAmount > 0 && (!vendorId || item.vendorId === vendorId),
+    );
+    const available = candidates.reduce((sum, item) => sum + item.remainingAmount, 0);
+    if (requestedAmount > available + MONEY_EPSILON) {
+      return { error: `At most ${roundMoney(available).toFixed(2)} can be refunded on the items` };
+    }
+    for (const item of candidates) {
+      shares.push({
+        item,
+        quantity: 0,
+        share: (item.remainingShare * requestedAmount) / available,
+      });
+    }
+  }
+
+  const buildLines = () =>
+    shares.map(({ item, quantity, share }) => {
+      const lineShare = share * scale;
+      const itemAmount = roundMoney(item.merchandise * lineShare);
+      const discountAmount = roundMoney(item.discount * lineShare);
+      const taxAmount = roundMoney(item.tax * lineShare);
+      return {
+        orderItemId: item.orderItemId,
+        vendorId: item.vendorId,
+        title: item.title,
+        quantity,
+        share: lineShare,
+        itemAmount,
+        discountAmount,
+        taxAmount,
+        amount: roundMoney(itemAmount - discountAmount + taxAmount),
+      };
+    });
+  const buildShipping = () =>
+    shipping.map((line) => {
+      const amount = roundMoney(line.remainingAmount * scale);
+      const discountAmount = roundMoney(
+        line.amount > 0 ? (line.discount * line.remainingAmount * scale) / line.amount : 0,
+      );
+      return { vendorId: line.vendorId, amount, discountAmount };
+    });
+
+  let lines = buildLines();
+  let shippingLines = buildShipping();
+  const total = () =>
+    roundMoney(
+      lines.reduce((sum, line) => sum + line.amount, 0) +
+        shippingLines.reduce((sum, line) => sum + line.amount - line.discountAmount, 0),
+    );
+
+  if (requestedAmount !== null && !amountBased) {
+    const full = total();
+    if (requestedAmount > full + MONEY_EPSILON) {
+      return { error: `The selected items and shipping come to ${full.toFixed(2)}` };
+    }
+    if (full > 0) {
+      scale = requestedAmount / full;
+      lines = buildLines();
+      shippingLines = buildShipping();
+    }
+  }
+
+  const amount = total();
+  if (amount <= 0) {
+    return { error: 'Nothing left to refund for the selected items' };
+  }
+  if (amount > summary.remainingAmount + MONEY_EPSILON) {
+    return {
+      error: `At most ${summary.remainingAmount.toFixed(2)} can still be refunded on this order`,
+    };
+  }
+
+  return {
+    lines,
+    shippingLines,
+    itemsAmount: roundMoney(lines.reduce((sum, line) => sum + line.itemAmount, 0)),
+    shippingAmount: roundMoney(shippingLines.reduce((sum, line) => sum + line.amount, 0)),
+    discountAmount: roundMoney(
+      lines.reduce((sum, line) => sum + line.discountAmount, 0) +
+        shippingLines.reduce((sum, line) => sum + line.discountAmount, 0),
+    ),
+    taxAmount: roundMoney(lines.reduce((sum, line) => sum + line.taxAmount, 0)),
+    amount,
+  };
+}
+
+/**
+ * Whether an order has nothing left to refund
+ */
+export function isFullyRefunded(order, refunds) {
+  const refunded = refunds.reduce((sum, refund) => sum + num(refund.amount), 0);
+  return refunded >= num(order.totalAmount) - MONEY_EPSILON;
+}
+
+/**
+ * How much of a vendor earning to claw back for a refund line
+ * The earning's current amounts cover the part of the item not yet refunded, so the line's
+ * share of the whole item is taken relative to that remainder.
+ * @param {Object} earning - { amount, platformFee, netAmount }
+ * @param {number} share - Share of the item refunded by this line
+ * @param {number} refundedShare - Share of the item refunded before this line
+ * @returns {Object} { amount, platformFee, netAmount, full }
+ */
+export function earningClawback(earning, share, refundedShare = 0) {
+  const remaining = 1 - refundedShare;
+  const fraction = remaining > 0 ? Math.min(1, share / remaining) : 1;
+  const full = fraction >= 1 - 1e-6;
+
+  return {
+    amount: full ? num(earning.amount) : roundMoney(num(earning.amount) * fraction),
+    platformFee: full ? num(earning.platformFee) : roundMoney(num(earning.platformFee) * fraction),
+    netAmount: full ? num(earning.netAmount) : roundMoney(num(earning.netAmount) * fraction),
+    full,
+  };
+}
+
+/**
+ * Vendor balance a refund claws an earning back from, or null when there is nothing to claw
+ * back (already frozen by a dispute, reversed or refunded)
+ * Earnings already paid out are recovered from the available balance.
+ * @returns {string|null} 'balancePending' | 'balanceAvailable' | null
+ */
+export function clawbackBalanceField(earning) {
+  if (['disputed', 'reversed', 'refunded'].includes(earning.status)) return null;
+  if (earning.payoutId || earning.paidAt || earning.status === 'paid') return 'balanceAvailable';
+  if (earning.status === 'pending' && earning.transactionType !== 'auction_sale') {
+    return 'balancePending';
+  }
+  return 'balanceAvailable';
+}
+
+/**
+ * The part of a refund covering one vendor's items and shipping
+ * @returns {Object} { lines, shippingLines, amount }
+ */
+export function vendorRefundPortion(refund, vendorId) {
+  const lines = (refund.lines || []).filter((line) => line.vendorId === vendorId);
+  const shippingLines = (refund.shippingLines || []).filter((line) => line.vendorId === vendorId);
+
+  return {
+    lines,
+    shippingLines,
+    amount: roundMoney(
+      lines.reduce((sum, line) => sum + num(line.amount), 0) +
+        shippingLines.reduce((sum, line) => sum + num(line.amount) - num(line.discountAmount), 0),
+    ),
+  };
+}
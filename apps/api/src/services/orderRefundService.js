@@ -0,0 +1,588 @@
+/**
+ * Order Refund Service
+ * Issues full, partial and per-item refunds through Stripe and applies them: refunded units go
+ * back into inventory, the vendor earnings for the refunded items are clawed back in proportion
+ * and the coupon discount on them is returned to the coupon redemption. Vendors request refunds
+ * for their own items, which an admin then issues or declines.
+ */
+
+import Stripe from 'stripe';
+import { Op } from 'sequelize';
+import db from '../models/index.js';
+import { dispatchNotification } from './notificationDispatch.js';
+import inventoryService from './inventoryService.js';
+import { toMinorUnits } from './currencyConverter.js';
+import {
+  ACTIVE_REFUND_STATUSES,
+  calculateRefund,
+  clawbackBalanceField,
+  earningClawback,
+  isFullyRefunded,
+  refundableSummary,
+  vendorRefundPortion,
+} from './orderRefundRules.js';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
+
+const {
+  Order,
+  OrderItem,
+  OrderRefund,
+  Book,
+  Product,
+  Coupon,
+  CouponRedemption,
+  VendorEarning,
+  Vendor,
+  User,
+  sequelize,
+} = db;
+
+// Payment states in which an order cannot be refunded from here
+const NON_REFUNDABLE_PAYMENT_STATUSES = ['failed', 'refunded', 'disputed', 'chargeback'];
+
+async function notify(userId, type, title, message, data) {
+  await dispatchNotification(userId, type, { title, message, data });
+}
+
+/**
+ * Load an order with what the refund rules need: items, coupon type and earlier refunds
+ */
+async function loadRefundContext(orderId, transaction = null) {
+  const order = await Order.findByPk(orderId, {
+    transaction,
+    ...(transaction && { lock: transaction.LOCK.UPDATE }),
+  });
+  if (!order) return null;
+
+  const [items, coupon, refunds] = await Promise.all([
+    OrderItem.findAll({
+      where: { orderId: order.id },
+      include: [
+        { model: Book, as: 'book', attributes: ['id', 'title', 'vendorId'] },
+        { model: Product, as: 'product', attributes: ['id', 'title', 'vendorId'] },
+      ],
+      order: [['id', 'ASC']],
+      transaction,
+    }),
+    order.couponId
+      ? Coupon.findByPk(order.couponId, { attributes: ['id', 'discountType'], transaction })
+      : null,
+    OrderRefund.findAll({
+      where: { orderId: order.id },
+      order: [['createdAt', 'ASC']],
+      transaction,
+    }),
+  ]);
+
+  const plainOrder = {
+    ...order.get({ plain: true }),
+    items: items.map((item) => ({
+      ...item.get({ plain: true }),
+      vendorId: item.vendorId || item.book?.vendorId || item.product?.vendorId || null,
+      title: item.title || item.book?.title || item.product?.title || null,
+    })),
+  };
+  const activeRefunds = refunds
+    .filter((refund) => ACTIVE_REFUND_STATUSES.includes(refund.status))
+    .map((refund) => refund.get({ plain: true }));
+
+  return {
+    order,
+    items,
+    plainOrder,
+    refunds,
+    activeRefunds,
+    options: { discountType: coupon?.discountType },
+  };
+}
+
+/**
+ * What can still be refunded on an order, with its refund history
+ * @returns {Object|null} { order, summary, refunds }
+ */
+export async function getRefundSummary(orderId) {
+  const context = await loadRefundContext(orderId);
+  if (!context) return null;
+
+  return {
+    order: context.order,
+    summary: refundableSummary(context.plainOrder, context.activeRefunds, context.options),
+    refunds: context.refunds,
+  };
+}
+
+/**
+ * Refunds on an order as shown on a vendor's order page: only the refunds touching the vendor's
+ * items or shipping, narrowed to the vendor's portion
+ */
+export function vendorRefundHistory(refunds, vendorId) {
+  return refunds
+    .map((refund) => {
+      const plain = refund.get ? refund.get({ plain: true }) : refund;
+      const portion = vendorRefundPortion(plain, vendorId);
+      const { reversedEarnings, ...rest } = plain;
+      return {
+        ...rest,
+        ...portion,
+        reversedEarnings: (reversedEarnings || []).filter((entry) => entry.vendorId === vendorId),
+        orderAmount: plain.amount,
+      };
+    })
+    .filter(
+      (refund) =>
+        refund.vendorId === vendorId || refund.lines.length > 0 || refund.shippingLines.length > 0,
+    );
+}
+
+/**
+ * A vendor asks for a refund on their items in an order
+ * @param {Object} request - { items, refundShipping, amount }; defaults to all of the vendor's
+ *   remaining items and shipping
+ * @returns {Object} { success, refund } or { success: false, statusCode, error }
+ */
+export async function requestVendorRefund(orderId, vendor, userId, request, reason) {
+  const context = await loadRefundContext(orderId);
+  if (!context) return { success: false, statusCode: 404, error: 'Order not found' };
+
+  const { order, plainOrder, activeRefunds, options } = context;
+  if (NON_REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+    return { success: false, statusCode: 409, error: 'This order cannot be refunded' };
+  }
+
+  const hasItems = Array.isArray(request.items) && request.items.length > 0;
+  const hasAmount =
+    request.amount !== undefined && request.amount !== null && request.amount !== '';
+  const effectiveRequest =
+    hasItems || hasAmount || request.refundShipping
+      ? request
+      : {
+          items: refundableSummary(plainOrder, activeRefunds, options)
+            .items.filter((item) => item.vendorId === vendor.id && item.remainingQuantity > 0)
+            .map((item) => ({ orderItemId: item.orderItemId, quantity: item.remainingQuantity })),
+          refundShipping: [vendor.id],
+        };
+
+  const calculation = calculateRefund(plainOrder, activeRefunds, effectiveRequest, {
+    ...options,
+    vendorId: vendor.id,
+  });
+  if (calculation.error) return { success: false, statusCode: 400, error: calculation.error };
+
+  const refund = await OrderRefund.create({
+    orderId: order.id,
+    status: 'requested',
+    requestedBy: 'vendor',
+    requestedByUserId: userId,
+    vendorId: vendor.id,
+    reason,
+    currency: order.currency,
+    restock: request.restock !== false,
+    ...calculation,
+  });
+
+  const admins = await User.findAll({ where: { role: 'admin' }, attributes: ['id'] });
+  for (const admin of admins) {
+    await notify(
+      admin.id,
+      'REFUND_REQUESTED',
+      'Refund Requested',
+      `${vendor.shopName || 'A vendor'} requested a refund of ${calculation.amount.toFixed(2)} ${order.currency} on order ${order.orderNumber}.`,
+      {
+        entityType: 'order',
+        entityId: order.id,
+        metadata: {
+          refundId: refund.id,
+          orderNumber: order.orderNumber,
+          shopName: vendor.shopName,
+          amount: calculation.amount,
+          currency: order.currency,
+        },
+      },
+    );
+  }
+
+  return { success: true, refund };
+}
+
+/**
+ * Claw back the vendor earnings for a refund's lines
+ * @returns {Array} [{ earningId, vendorId, amount, platformFee, netAmount, balanceField }]
+ */
+async function clawBackEarnings(refund, context, summary, transaction) {
+  const earnings = await VendorEarning.findAll({
+    where: { orderId: context.order.id },
+    lock: transaction.LOCK.UPDATE,
+    transaction,
+  });
+  const reversed = [];
+
+  for (const line of refund.lines) {
+    let earning = earnings.find((entry) => entry.orderItemId === line.orderItemId);
+    if (!earning) {
+      // Earnings recorded before they were linked to order items
+      const unlinked = earnings.filter(
+        (entry) => !entry.orderItemId && entry.vendorId === line.vendorId,
+      );
+      const vendorItems = context.plainOrder.items.filter(
+        (item) => item.vendorId === line.vendorId,
+      );
+      if (unlinked.length === 1 && vendorItems.length === 1) earning = unlinked[0];
+    }
+    if (!earning) continue;
+
+    const balanceField = clawbackBalanceField(earning);
+    if (!balanceField) continue;
+
+    const refundedShare =
+      summary.items.find((item) => item.orderItemId === line.orderItemId)?.refundedShare || 0;
+    const clawback = earningClawback(earning, line.share, refundedShare);
+
+    const vendor = await Vendor.findByPk(earning.vendorId, { transaction });
+    if (vendor) {
+      await vendor.update(
+        {
+          [balanceField]: parseFloat(vendor[balanceField]) - clawback.netAmount,
+          lifetimeGrossSales: parseFloat(vendor.lifetimeGrossSales) - clawback.amount,
+          lifetimeCommissionTaken:
+            parseFloat(vendor.lifetimeCommissionTaken) - clawback.platformFee,
+          lifetimeVendorEarnings: parseFloat(vendor.lifetimeVendorEarnings) - clawback.netAmount,
+        },
+        { transaction },
+      );
+    }
+
+    await earning.update(
+      clawback.full
+        ? { status: 'refunded' }
+        : {
+            amount: parseFloat(earning.amount) - clawback.amount,
+            platformFee: parseFloat(earning.platformFee) - clawback.platformFee,
+            netAmount: parseFloat(earning.netAmount) - clawback.netAmount,
+          },
+      { transaction },
+    );
+
+    reversed.push({
+      earningId: earning.id,
+      vendorId: earning.vendorId,
+      amount: clawback.amount,
+      platformFee: clawback.platformFee,
+      netAmount: clawback.netAmount,
+      balanceField,
+    });
+  }
+
+  return reversed;
+}
+
+/**
+ * Apply a refund Stripe has accepted: claw back earnings, restock, return the coupon discount
+ * and update the order's payment status
+ * @returns {Object|null} { refund, order }, or null when the refund is not awaiting it
+ */
+async function applyRefund(refundId) {
+  return sequelize.transaction(async (transaction) => {
+    const refund = await OrderRefund.findByPk(refundId, {
+      lock: transaction.LOCK.UPDATE,
+      transaction,
+    });
+    if (refund?.status !== 'processing') return null;
+
+    const context = await loadRefundContext(refund.orderId, transaction);
+    const { order, items } = context;
+
+    // What was refunded before this refund, for the earning clawback shares
+    const earlierRefunds = context.activeRefunds.filter((entry) => entry.id !== refund.id);
+    const summary = refundableSummary(context.plainOrder, earlierRefunds, context.options);
+
+    const reversedEarnings = await clawBackEarnings(refund, context, summary, transaction);
+
+    if (refund.restock) {
+      for (const line of refund.lines) {
+        const item = items.find((entry) => entry.id === line.orderItemId);
+        if (!item || !line.quantity) continue;
+        if (item.bookId) {
+          await inventoryService.releaseBookInventory(item.bookId, line.quantity, transaction);
+        } else if (item.productId) {
+          await inventoryService.releaseProductInventory(
+            item.productId,
+            line.quantity,
+            transaction,
+          );
+        }
+      }
+    }
+
+    const fullyRefunded = isFullyRefunded(order, context.activeRefunds);
+    if (order.couponId) {
+      const redemption = await CouponRedemption.findOne({
+        where: { orderId: order.id, couponId: order.couponId },
+        transaction,
+      });
+      if (redemption && fullyRefunded) {
+        // A fully refunded order no longer counts as a use of the coupon
+        await redemption.destroy({ transaction });
+        await Coupon.decrement('usageCount', { by: 1, where: { id: order.couponId }, transaction });
+      } else if (redemption && parseFloat(refund.discountAmount) > 0) {
+        await redemption.update(
+          {
+            discountAmount: Math.max(
+              0,
+              parseFloat(redemption.discountAmount) - parseFloat(refund.discountAmount),
+            ),
+          },
+          { transaction },
+        );
+      }
+    }
+
+    await order.update(
+      fullyRefunded
+        ? { status: 'refunded', paymentStatus: 'refunded' }
+        : { paymentStatus: 'partially_refunded' },
+      { transaction },
+    );
+
+    await refund.update(
+      { status: 'succeeded', reversedEarnings, processedAt: new Date() },
+      { transaction },
+    );
+
+    return { refund, order };
+  });
+}
+
+/**
+ * Issue a refund on an order through Stripe
+ * @param {Object} request - { items, refundShipping, amount, reason, restock, refundRequestId };
+ *   with only a refundRequestId, the vendor's requested items are refunded
+ * @returns {Object} { success, refund } or { success: false, statusCode, error }
+ */
+export async function issueRefund(orderId, request, userId) {
+  let created;
+  try {
+    created = await sequelize.transaction(async (transaction) => {
+      const context = await loadRefundContext(orderId, transaction);
+      if (!context) return { success: false, statusCode: 404, error: 'Order not found' };
+
+      const { order, plainOrder, activeRefunds, options } = context;
+      if (!order.stripePaymentIntentId) {
+        return { success: false, statusCode: 409, error: 'Order has no Stripe payment to refund' };
+      }
+      if (NON_REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+        return {
+          success: false,
+          statusCode: 409,
+          error: `Orders with payment status "${order.paymentStatus}" cannot be refunded`,
+        };
+      }
+
+      let requested = null;
+      if (request.refundRequestId) {
+        requested = context.refunds.find(
+          (refund) =>
+            refund.id === parseInt(request.refundRequestId, 10) && refund.status === 'requested',
+        );
+        if (!requested) {
+          return { success: false, statusCode: 404, error: 'Refund request not found' };
+        }
+      }
+
+      const hasSelection =
+        (Array.isArray(request.items) && request.items.length > 0) ||
+        request.refundShipping ||
+        (request.amount !== undefined && request.amount !== null && request.amount !== '');
+      const effectiveRequest =
+        requested && !hasSelection
+          ? {
+              items: requested.lines
+                .filter((line) => line.quantity > 0)
+                .map((line) => ({ orderItemId: line.orderItemId, quantity: line.quantity })),
+              refundShipping: requested.shippingLines.map((line) => line.vendorId),
+              amount: parseFloat(requested.amount),
+            }
+          : request;
+
+      const calculation = calculateRefund(plainOrder, activeRefunds, effectiveRequest, {
+        ...options,
+        ...(requested && { vendorId: requested.vendorId }),
+      });
+      if (calculation.error) return { success: false, statusCode: 400, error: calculation.error };
+
+      const fields = {
+        ...calculation,
+        status: 'pending',
+        processedByUserId: userId,
+        currency: order.currency,
+        restock: request.restock ?? requested?.restock ?? true,
+      };
+      const refund = requested
+        ? await requested.update(fields, { transaction })
+        : await OrderRefund.create(
+            {
+              ...fields,
+              orderId: order.id,
+              requestedBy: 'admin',
+              requestedByUserId: userId,
+              reason: request.reason || null,
+            },
+            { transaction },
+          );
+
+      return { success: true, refund, order };
+    });
+  } catch (error) {
+    console.error('Error preparing refund:', error);
+    return { success: false, statusCode: 500, error: error.message };
+  }
+  if (!created.success) return created;
+
+  const { refund, order } = created;
+  let stripeRefund;
+  try {
+    stripeRefund = await stripe.refunds.create(
+      {
+        payment_intent: order.stripePaymentIntentId,
+        amount: toMinorUnits(parseFloat(refund.amount), refund.currency),
+        reason: 'requested_by_customer',
+        metadata: { orderId: String(order.id), orderRefundId: String(refund.id) },
+      },
+      { idempotencyKey: `order-refund-${refund.id}` },
+    );
+  } catch (error) {
+    await refund.update({
+      status: 'failed',
+      failureReason: error.message,
+      processedAt: new Date(),
+    });
+    return { success: false, statusCode: 502, error: `Stripe refund failed: ${error.message}` };
+  }
+
+  // The money has moved: record that first, so a refund that fails to apply is still known and
+  // is finished when Stripe's charge.refunded webhook arrives
+  await refund.update({ status: 'processing', stripeRefundId: stripeRefund.id });
+
+  let applied;
+  try {
+    applied = await applyRefund(refund.id);
+  } catch (error) {
+    console.error(`Error applying refund ${refund.id}, left processing:`, error);
+    return { success: true, refund };
+  }
+  if (!applied) return { success: true, refund: await refund.reload() };
+  await notifyRefundIssued(applied.refund, applied.order);
+
+  return { success: true, refund: applied.refund };
+}
+
+/**
+ * Apply an order's refunds that Stripe accepted but that were not applied when issued
+ * @returns {number} how many were applied
+ */
+export async function finishProcessingRefunds(orderId) {
+  const refunds = await OrderRefund.findAll({
+    where: { orderId, status: 'processing' },
+    attributes: ['id'],
+    order: [['createdAt', 'ASC']],
+  });
+
+  let finished = 0;
+  for (const { id } of refunds) {
+    const applied = await applyRefund(id);
+    if (!applied) continue;
+    await notifyRefundIssued(applied.refund, applied.order);
+    finished++;
+  }
+  return finished;
+}
+
+/**
+ * Decline a vendor's refund request
+ */
+export async function declineRefundRequest(orderId, refundId, userId, note) {
+  const refund = await OrderRefund.findOne({
+    where: { id: refundId, orderId, status: 'requested' },
+    include: [{ model: Vendor, as: 'vendor', attributes: ['id', 'userId'] }],
+  });
+  if (!refund) return { success: false, statusCode: 404, error: 'Refund request not found' };
+
+  await refund.update({
+    status: 'declined',
+    note: note || null,
+    processedByUserId: userId,
+    processedAt: new Date(),
+  });
+
+  const order = await Order.findByPk(orderId, { attributes: ['id', 'orderNumber'] });
+  if (refund.vendor?.userId) {
+    await notify(
+      refund.vendor.userId,
+      'REFUND_REQUEST_DECLINED',
+      'Refund Request Declined',
+      `Your refund request on order ${order?.orderNumber} was declined${note ? `: ${note}` : '.'}`,
+      {
+        entityType: 'order',
+        entityId: refund.orderId,
+        metadata: { refundId: refund.id, orderNumber: order?.orderNumber, note },
+      },
+    );
+  }
+
+  return { success: true, refund };
+}
+
+async function notifyRefundIssued(refund, order) {
+  const amount = parseFloat(refund.amount);
+  await notify(
+    order.userId,
+    'REFUND_ISSUED',
+    'Refund Issued',
+    `A refund of ${amount.toFixed(2)} ${refund.currency} for order ${order.orderNumber} is on its way to your original payment method.`,
+    {
+      entityType: 'order',
+      entityId: order.id,
+      metadata: {
+        refundId: refund.id,
+        orderNumber: order.orderNumber,
+        amount,
+        currency: refund.currency,
+      },
+    },
+  );
+
+  const vendorIds = [
+    ...new Set(
+      [...refund.lines, ...refund.shippingLines].map((line) => line.vendorId).filter(Boolean),
+    ),
+  ];
+  if (vendorIds.length === 0) return;
+
+  const vendors = await Vendor.findAll({
+    where: { id: { [Op.in]: vendorIds } },
+    attributes: ['id', 'userId'],
+  });
+  for (const vendor of vendors) {
+    if (!vendor.userId) continue;
+    const reversed = refund.reversedEarnings
+      .filter((entry) => entry.vendorId === vendor.id)
+      .reduce((sum, entry) => sum + entry.netAmount, 0);
+    await notify(
+      vendor.userId,
+      'REFUND_ISSUED_VENDOR',
+      'Refund Issued on Your Sale',
+      `A refund was issued on order ${order.orderNumber}.${reversed > 0 ? ` ${reversed.toFixed(2)} of your earnings were reversed.` : ''}`,
+      {
+        entityType: 'order',
+        entityId: order.id,
+        metadata: {
+          refundId: refund.id,
+          orderNumber: order.orderNumber,
+          amount: vendorRefundPortion(refund, vendor.id).amount,
+          currency: refund.currency,
+          reversedEarnings: reversed,
+        },
+      },
+    );
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Order Shipment Service
+ * Splits orders into per-vendor shipments and keeps the parent order status in sync
+ */
+
+import db from '../models/index.js';
+import { deriveOrderStatus, statusTimestamps } from './orderFulfillment.js';
+
+const { Order, OrderItem, OrderShipment, Book, Product } = db;
+
+/**
+ * Create one shipment per vendor for a new order
+ * @param {Object} order - created Order
+ * @param {Array} items - validated items with vendorId
+ * @param {Array} shippingLines - per-vendor lines from the shipping quote
+ * @returns {Map} vendorId -> OrderShipment
+ */
+export async function createOrderShipments(
+  order,
+  items = [],
+  shippingLines = [],
+  { transaction } = {},
+) {
+  const shipments = new Map();
+
+  for (const item of items) {
+    if (!item.vendorId || shipments.has(item.vendorId)) continue;
+
+    const line = shippingLines.find((entry) => entry.vendorId === item.vendorId);
+    const shipment = await OrderShipment.create(
+      {
+        orderId: order.id,
+        vendorId: item.vendorId,
+        shippingCost: line?.amount || 0,
+      },
+      { transaction },
+    );
+    shipments.set(item.vendorId, shipment);
+  }
+
+  return shipments;
+}
+
+/**
+ * Vendor of an order item, falling back to the book/product for items saved before vendorId
+ */
+export function itemVendorId(item) {
+  return item.vendorId || item.book?.vendorId || item.product?.vendorId || null;
+}
+
+/**
+ * Find a vendor's shipment for an order, creating it for orders placed before shipments existed
+ */
+export async function ensureVendorShipment(orderId, vendorId, { transaction } = {}) {
+  const existing = await OrderShipment.findOne({ where: { orderId, vendorId }, transaction });
+  if (existing) return existing;
+
+  const items = await OrderItem.findAll({
+    where: { orderId },
+    include: [
+      { model: Book, as: 'book', attributes: ['id', 'vendorId'] },
+      { model: Product, as: 'product', attributes: ['id', 'vendorId'] },
+    ],
+    transaction,
+  });
+  const vendorItems = items.filter((item) => itemVendorId(item) === vendorId);
+  if (vendorItems.length === 0) return null;
+
+  const order = await Order.findByPk(orderId, { transaction });
+  const line = (order.shippingLines || []).find((entry) => entry.vendorId === vendorId);
+  const status = ['shipped', 'delivered', 'cancelled'].includes(order.status)
+    ? order.status
+    : 'pending';
+
+  const shipment = await OrderShipment.create(
+    {
+      orderId,
+      vendorId,
+      status,
+      trackingNumber: order.trackingNumber,
+      shippingCost: line?.amount || 0,
+    },
+    { transaction },
+  );
+
+  for (const item of vendorItems) {
+    await item.update({ vendorId, shipmentId: shipment.id }, { transaction });
+  }
+
+  return shipment;
+}
+
+/**
+ * Recompute the parent order status from its shipments
+ */
+export async function syncOrderStatus(orderId, { transaction } = {}) {
+  const order = await Order.findByPk(orderId, {
+    include: [{ model: OrderShipment, as: 'shipments', attributes: ['id', 'status'] }],
+    transaction,
+  });
+  if (!order) return null;
+
+  const status = deriveOrderStatus(
+    order.shipments.map((shipment) => shipment.status),
+    order.status,
+  );
+  if (status !== order.status) {
+    await order.update({ status }, { transaction });
+  }
+
+  return order;
+}
+
+/**
+ * Apply status/carrier/tracking changes to a shipment and sync the parent order
+ */
+export async function updateShipment(
+  shipment,
+  { status, carrier, trackingNumber } = {},
+  { transaction } = {},
+) {
+  const updates = {};
+
+  if (carrier !== undefined) updates.carrier = carrier || null;
+  if (trackingNumber !== undefined) updates.trackingNumber = trackingNumber || null;
+  if (status) {
+    updates.status = status;
+    Object.assign(updates, statusTimestamps(status, shipment));
+  }
+
+  await shipment.update(updates, { transaction });
+  await syncOrderStatus(shipment.orderId, { transaction });
+
+  return shipment;
+}
@@ -0,0 +1,63 @@
+/**
+ * Payment Event Rules
+ * Pure rules for reconciling Stripe payment, refund and dispute events with orders,
+ * auction winnings and vendor earnings
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Evidence due within this many days is flagged as urgent on the admin disputes view
+export const EVIDENCE_DUE_SOON_DAYS = 3;
+
+// Dispute statuses after which Stripe accepts no more evidence
+export const CLOSED_DISPUTE_STATUSES = ['won', 'lost', 'warning_closed', 'charge_refunded'];
+
+/**
+ * Order payment status after a charge.refunded event
+ * @param {Object} charge - Stripe charge ({ amount, amount_refunded } in minor units)
+ * @returns {string|null} 'refunded', 'partially_refunded', or null when nothing was refunded
+ */
+export function refundPaymentStatus(charge) {
+  const refunded = charge?.amount_refunded || 0;
+  if (refunded <= 0) return null;
+  return refunded >= charge.amount ? 'refunded' : 'partially_refunded';
+}
+
+/**
+ * How a closed dispute affects the frozen vendor earnings
+ * @param {string} status - Stripe dispute status
+ * @returns {string|null} 'won' (release), 'lost' (reverse), or null while still open
+ */
+export function disputeResolution(status) {
+  if (status === 'won' || status === 'warning_closed') return 'won';
+  if (status === 'lost' || status === 'charge_refunded') return 'lost';
+  return null;
+}
+
+/**
+ * Urgency of a dispute's evidence deadline
+ * @returns {string|null} 'overdue', 'due_soon', 'open', or null when there is no deadline
+ *   or the dispute is closed
+ */
+export function evidenceUrgency(status, evidenceDueBy, now = new Date()) {
+  if (!evidenceDueBy || CLOSED_DISPUTE_STATUSES.includes(status)) return null;
+  const remaining = new Date(evidenceDueBy).getTime() - now.getTime();
+  if (remaining < 0) return 'overdue';
+  if (remaining <= EVIDENCE_DUE_SOON_DAYS * DAY_MS) return 'due_soon';
+  return 'open';
+}
+
+/**
+ * Vendor balance an earning's net amount currently sits in, or null once it has been paid
+ * out (or already frozen/reversed) and can no longer be held back
+ * Order earnings stay pending until delivery; auction earnings are available immediately.
+ * @returns {string|null} 'balancePending' | 'balanceAvailable' | null
+ */
+export function earningBalanceField(earning) {
+  if (earning.payoutId || earning.paidAt) return null;
+  if (earning.status === 'completed') return 'balanceAvailable';
+  if (earning.status === 'pending') {
+    return earning.transactionType === 'auction_sale' ? 'balanceAvailable' : 'balancePending';
+  }
+  return null;
+}
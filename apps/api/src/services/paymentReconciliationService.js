@@ -0,0 +1,408 @@
+/**
+ * Payment Reconciliation Service
+ * Applies Stripe payment intent, refund and dispute webhook events to orders, auction
+ * winnings and vendor earnings. Webhook events are recorded by id so a redelivered event
+ * is acknowledged without being applied twice.
+ */
+
+import { Op } from 'sequelize';
+import db from '../models/index.js';
+import { dispatchNotification, dispatchToAdmins } from './notificationDispatch.js';
+import { fromMinorUnits, toMinorUnits } from './currencyConverter.js';
+import { ACTIVE_REFUND_STATUSES } from './orderRefundRules.js';
+import { finishProcessingRefunds } from './orderRefundService.js';
+import {
+  disputeResolution,
+  earningBalanceField,
+  refundPaymentStatus,
+} from './paymentEventRules.js';
+
+const {
+  Order,
+  AuctionWin,
+  VendorEarning,
+  Vendor,
+  PaymentDispute,
+  OrderRefund,
+  StripeWebhookEvent,
+  sequelize,
+} = db;
+
+// A delivery still 'processing' after this long is taken to have died mid-handler
+const WEBHOOK_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Record a webhook event before handling it
+ * A failed event, or one left processing past the timeout, is reclaimed by the next delivery.
+ * @returns {Object|null} The event record, or null when the event was already processed
+ *   (or is being processed by a concurrent delivery)
+ */
+export async function beginWebhookEvent(event) {
+  const [record, created] = await StripeWebhookEvent.findOrCreate({
+    where: { eventId: event.id },
+    defaults: { type: event.type, status: 'processing' },
+  });
+  if (created) return record;
+
+  // Conditional update so only one of several concurrent retries reclaims the event
+  const [reclaimed] = await StripeWebhookEvent.update(
+    { status: 'processing', attempts: sequelize.literal('attempts + 1') },
+    {
+      where: {
+        id: record.id,
+        [Op.or]: [
+          { status: 'failed' },
+          {
+            status: 'processing',
+            updatedAt: { [Op.lt]: new Date(Date.now() - WEBHOOK_PROCESSING_TIMEOUT_MS) },
+          },
+        ],
+      },
+    },
+  );
+  if (!reclaimed) return null;
+
+  return record.reload();
+}
+
+/**
+ * Mark a webhook event processed, or failed so Stripe's retry reprocesses it
+ */
+export async function finishWebhookEvent(record, error = null) {
+  await record.update(
+    error
+      ? { status: 'failed', lastError: error.stack || error.message }
+      : { status: 'processed', processedAt: new Date(), lastError: null },
+  );
+}
+
+async function notify(userId, type, title, message, data) {
+  await dispatchNotification(userId, type, { title, message, data });
+}
+
+async function notifyAdmins(type, title, message, data) {
+  await dispatchToAdmins(type, { title, message, data });
+}
+
+async function findOrderForPaymentIntent(paymentIntentId, metadata = {}, options = {}) {
+  if (paymentIntentId) {
+    const order = await Order.findOne({
+      where: { stripePaymentIntentId: paymentIntentId },
+      ...options,
+    });
+    if (order) return order;
+  }
+  return metadata.orderId ? Order.findByPk(metadata.orderId, options) : null;
+}
+
+/**
+ * Vendor earnings for an order's sales, including auction sales paid through the order
+ */
+async function findOrderEarnings(order, transaction) {
+  const wins = await AuctionWin.findAll({
+    where: { orderId: order.id },
+    attributes: ['auctionId'],
+    transaction,
+  });
+  const auctionIds = wins.map((win) => win.auctionId);
+
+  return VendorEarning.findAll({
+    where: {
+      [Op.or]: [
+        { orderId: order.id },
+        ...(auctionIds.length ? [{ auctionId: { [Op.in]: auctionIds } }] : []),
+      ],
+    },
+    lock: transaction.LOCK.UPDATE,
+    transaction,
+  });
+}
+
+/**
+ * Take earnings out of the vendor balance they sit in and give them a new status
+ * @returns {Array} [{ earningId, vendorId, amount, balanceField, previousStatus }]
+ */
+async function holdEarnings(earnings, status, transaction) {
+  const held = [];
+
+  for (const earning of earnings) {
+    const balanceField = earningBalanceField(earning);
+    if (!balanceField) continue;
+
+    const amount = parseFloat(earning.netAmount);
+    const vendor = await Vendor.findByPk(earning.vendorId, { transaction });
+    if (vendor) {
+      await vendor.update(
+        { [balanceField]: parseFloat(vendor[balanceField]) - amount },
+        { transaction },
+      );
+    }
+
+    held.push({
+      earningId: earning.id,
+      vendorId: earning.vendorId,
+      amount,
+      balanceField,
+      previousStatus: earning.status,
+    });
+    await earning.update({ status }, { transaction });
+  }
+
+  return held;
+}
+
+/**
+ * Put frozen earnings back into the balance and status they were frozen from
+ */
+async function releaseEarnings(frozen, transaction) {
+  for (const entry of frozen) {
+    const earning = await VendorEarning.findByPk(entry.earningId, { transaction });
+    if (!earning || earning.status !== 'disputed') continue;
+
+    const vendor = await Vendor.findByPk(entry.vendorId, { transaction });
+    if (vendor) {
+      await vendor.update(
+        { [entry.balanceField]: parseFloat(vendor[entry.balanceField]) + entry.amount },
+        { transaction },
+      );
+    }
+    await earning.update({ status: entry.previousStatus }, { transaction });
+  }
+}
+
+async function vendorUserIds(vendorIds) {
+  if (vendorIds.length === 0) return [];
+  const vendors = await Vendor.findAll({
+    where: { id: { [Op.in]: [...new Set(vendorIds)] } },
+    attributes: ['userId'],
+  });
+  return vendors.map((vendor) => vendor.userId).filter(Boolean);
+}
+
+/**
+ * payment_intent.succeeded: mark the order paid and settle any auction win paid through it
+ */
+export async function handlePaymentIntentSucceeded(paymentIntent) {
+  const order = await findOrderForPaymentIntent(paymentIntent.id, paymentIntent.metadata);
+  if (!order) return;
+
+  await sequelize.transaction(async (transaction) => {
+    if (['pending', 'failed', null].includes(order.paymentStatus)) {
+      await order.update(
+        { paymentStatus: 'completed', stripePaymentIntentId: paymentIntent.id },
+        { transaction },
+      );
+    }
+
+    const wins = await AuctionWin.findAll({
+      where: { orderId: order.id, status: { [Op.ne]: 'paid' } },
+      transaction,
+    });
+    for (const win of wins) {
+      await win.update({ status: 'paid', isPaid: true, paidAt: new Date() }, { transaction });
+    }
+    if (wins.length > 0 && order.status === 'pending') {
+      await order.update({ status: 'paid' }, { transaction });
+    }
+  });
+}
+
+/**
+ * payment_intent.payment_failed: flag an unpaid order and tell the buyer
+ */
+export async function handlePaymentIntentFailed(paymentIntent) {
+  const order = await findOrderForPaymentIntent(paymentIntent.id, paymentIntent.metadata);
+  if (!order || order.paymentStatus === 'completed') return;
+
+  await order.update({ paymentStatus: 'failed' });
+
+  const reason = paymentIntent.last_payment_error?.message;
+  await notify(
+    order.userId,
+    'PAYMENT_FAILED',
+    'Payment Failed',
+    `Payment for order ${order.orderNumber} failed${reason ? `: ${reason}` : ''}.`,
+    {
+      entityType: 'order',
+      entityId: order.id,
+      metadata: { orderNumber: order.orderNumber, reason },
+    },
+  );
+}
+
+/**
+ * charge.refunded: record a partial or full refund; a full refund also reverses the vendor
+ * earnings for the sale that have not been paid out yet
+ * Refunds issued through the order refund service are applied there and skipped here; any
+ * that Stripe accepted but that failed to apply are finished here.
+ */
+export async function handleChargeRefunded(charge) {
+  const paymentStatus = refundPaymentStatus(charge);
+  if (!paymentStatus) return;
+
+  const order = await findOrderForPaymentIntent(charge.payment_intent, charge.metadata);
+  if (!order) return;
+
+  if (await finishProcessingRefunds(order.id)) await order.reload();
+  if (order.paymentStatus === paymentStatus) return;
+
+  const issuedHere = await OrderRefund.sum('amount', {
+    where: { orderId: order.id, status: { [Op.in]: ACTIVE_REFUND_STATUSES } },
+  });
+  if (toMinorUnits(issuedHere || 0, order.currency) >= charge.amount_refunded) return;
+
+  await sequelize.transaction(async (transaction) => {
+    await order.update({ paymentStatus }, { transaction });
+    if (paymentStatus !== 'refunded') return;
+
+    await order.update({ status: 'refunded' }, { transaction });
+    await AuctionWin.update({ status: 'refunded' }, { where: { orderId: order.id }, transaction });
+    await holdEarnings(await findOrderEarnings(order, transaction), 'refunded', transaction);
+  });
+}
+
+/**
+ * charge.dispute.created: record the dispute, freeze the sale's vendor earnings and notify
+ * the admins and affected vendors
+ */
+export async function handleDisputeCreated(dispute) {
+  const existing = await PaymentDispute.findOne({ where: { stripeDisputeId: dispute.id } });
+  if (existing) return handleDisputeUpdated(dispute);
+
+  const currency = (dispute.currency || 'usd').toUpperCase();
+  const amount = fromMinorUnits(dispute.amount, currency);
+  const evidenceDueBy = dispute.evidence_details?.due_by
+    ? new Date(dispute.evidence_details.due_by * 1000)
+    : null;
+
+  const record = await sequelize.transaction(async (transaction) => {
+    const order = await findOrderForPaymentIntent(dispute.payment_intent, dispute.metadata, {
+      transaction,
+    });
+
+    const frozenEarnings = order
+      ? await holdEarnings(await findOrderEarnings(order, transaction), 'disputed', transaction)
+      : [];
+    if (order) {
+      await order.update({ paymentStatus: 'disputed' }, { transaction });
+    }
+
+    return PaymentDispute.create(
+      {
+        stripeDisputeId: dispute.id,
+        stripeChargeId: dispute.charge,
+        stripePaymentIntentId: dispute.payment_intent,
+        orderId: order?.id || null,
+        amount,
+        currency,
+        reason: dispute.reason,
+        status: dispute.status,
+        evidenceDueBy,
+        frozenEarnings,
+      },
+      { transaction },
+    );
+  });
+
+  const order = record.orderId ? await Order.findByPk(record.orderId) : null;
+  const metadata = {
+    disputeId: record.id,
+    orderNumber: order?.orderNumber,
+    amount,
+    currency,
+    reason: dispute.reason,
+    evidenceDueBy,
+  };
+  const orderLabel = order ? `order ${order.orderNumber}` : `charge ${dispute.charge}`;
+
+  await notifyAdmins(
+    'PAYMENT_DISPUTE_OPENED',
+    'Payment Disputed',
+    `A ${dispute.reason?.replace(/_/g, ' ') || ''} dispute was opened on ${orderLabel}.`,
+    { entityType: 'payment_dispute', entityId: record.id, metadata },
+  );
+
+  const vendorIds = record.frozenEarnings.map((entry) => entry.vendorId);
+  for (const userId of await vendorUserIds(vendorIds)) {
+    await notify(
+      userId,
+      'PAYMENT_DISPUTE_OPENED_VENDOR',
+      'A Sale Was Disputed',
+      `The buyer disputed the payment for ${orderLabel}. Your earnings for this sale are on hold until the dispute is resolved.`,
+      { entityType: 'order', entityId: record.orderId, metadata },
+    );
+  }
+}
+
+/**
+ * charge.dispute.updated / charge.dispute.closed: track status and evidence deadline, and
+ * release (won) or reverse (lost) the frozen earnings once closed
+ */
+export async function handleDisputeUpdated(dispute) {
+  const record = await PaymentDispute.findOne({ where: { stripeDisputeId: dispute.id } });
+  if (!record) return handleDisputeCreated(dispute);
+  if (record.resolution) return;
+
+  const resolution = disputeResolution(dispute.status);
+  const evidenceDueBy = dispute.evidence_details?.due_by
+    ? new Date(dispute.evidence_details.due_by * 1000)
+    : record.evidenceDueBy;
+
+  await sequelize.transaction(async (transaction) => {
+    await record.update(
+      {
+        status: dispute.status,
+        evidenceDueBy,
+        ...(resolution && { resolution, closedAt: new Date() }),
+      },
+      { transaction },
+    );
+    if (!resolution) return;
+
+    const order = record.orderId ? await Order.findByPk(record.orderId, { transaction }) : null;
+    if (resolution === 'won') {
+      await releaseEarnings(record.frozenEarnings, transaction);
+      if (order) await order.update({ paymentStatus: 'completed' }, { transaction });
+    } else {
+      await VendorEarning.update(
+        { status: 'reversed' },
+        {
+          where: {
+            id: { [Op.in]: record.frozenEarnings.map((entry) => entry.earningId) },
+            status: 'disputed',
+          },
+          transaction,
+        },
+      );
+      if (order) await order.update({ paymentStatus: 'chargeback' }, { transaction });
+    }
+  });
+
+  if (!resolution) return;
+
+  const message =
+    resolution === 'won'
+      ? 'The dispute was resolved in your favor and the held earnings have been released.'
+      : 'The dispute was lost and the held earnings for this sale have been reversed.';
+  const data = {
+    entityType: 'payment_dispute',
+    entityId: record.id,
+    metadata: { disputeId: record.id, resolution, amount: parseFloat(record.amount) },
+  };
+
+  await notifyAdmins(
+    'PAYMENT_DISPUTE_CLOSED',
+    `Dispute ${resolution === 'won' ? 'Won' : 'Lost'}`,
+    message,
+    data,
+  );
+  for (const userId of await vendorUserIds(record.frozenEarnings.map((e) => e.vendorId))) {
+    await notify(
+      userId,
+      'PAYMENT_DISPUTE_CLOSED_VENDOR',
+      `Dispute ${resolution === 'won' ? 'Won' : 'Lost'}`,
+      message,
+      { ...data, entityType: 'order', entityId: record.orderId },
+    );
+  }
+}
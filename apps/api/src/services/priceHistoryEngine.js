@@ -0,0 +1,124 @@
+/**
+ * Price History Engine
+ * Pure helpers behind value charts: normalized work keys that group copies of the same
+ * work across listings, the price events a listing change produces, and chart series/stats.
+ */
+
+import { isbn13Key } from './isbn/isbn.js';
+
+export const PRICE_EVENT_TYPES = ['list_price', 'sale_price', 'auction_hammer', 'offer_accepted'];
+
+// Prices buyers actually paid, as opposed to asking prices
+export const REALIZED_EVENT_TYPES = ['auction_hammer', 'offer_accepted'];
+
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+const toNumber = (value) => {
+  const num = parseFloat(value);
+  return isNaN(num) ? null : num;
+};
+
+const normalizeWords = (value) =>
+  String(value || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter((word) => word && !['a', 'an', 'the'].includes(word));
+
+/**
+ * Key shared by every copy of a work: the ISBN-13 when known, otherwise the normalized
+ * title and author (or artist) so "Great Gatsby, The" by "Fitzgerald, F. Scott" groups
+ * with "The Great Gatsby" by "F. Scott Fitzgerald"
+ * @returns {string|null}
+ */
+export function workKeyFor(item = {}) {
+  const isbn = isbn13Key(item.isbn);
+  if (isbn) return `isbn:${isbn}`;
+
+  const title = normalizeWords(item.title).sort().join(' ');
+  if (!title) return null;
+
+  const creator = normalizeWords(item.author || item.artist)
+    .sort()
+    .join(' ');
+  return `work:${title}|${creator}`;
+}
+
+/**
+ * Price events produced by creating or updating a listing
+ * @param {Object|null} previous - { price, salePrice } before the change; null for a new listing
+ * @param {Object} current - { price, salePrice }
+ * @returns {Array} [{ eventType, amount }]
+ */
+export function listingPriceEvents(previous, current) {
+  const events = [];
+
+  const price = toNumber(current.price);
+  if (price !== null && price > 0 && (!previous || toNumber(previous.price) !== price)) {
+    events.push({ eventType: 'list_price', amount: roundMoney(price) });
+  }
+
+  const salePrice = toNumber(current.salePrice);
+  if (
+    salePrice !== null &&
+    salePrice > 0 &&
+    (!previous || toNumber(previous.salePrice) !== salePrice)
+  ) {
+    events.push({ eventType: 'sale_price', amount: roundMoney(salePrice) });
+  }
+
+  return events;
+}
+
+function median(values) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : roundMoney((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+/**
+ * Chart data for a set of price history entries
+ * @param {Array} entries - [{ eventType, amount, recordedAt }], amounts in one currency
+ * @returns {Object} { series: { [eventType]: [{ date, amount }] }, stats }
+ */
+export function buildValueChart(entries = []) {
+  const points = entries
+    .map((entry) => ({
+      eventType: entry.eventType,
+      amount: toNumber(entry.amount),
+      date: new Date(entry.recordedAt).toISOString(),
+    }))
+    .filter((point) => PRICE_EVENT_TYPES.includes(point.eventType) && point.amount !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const series = Object.fromEntries(PRICE_EVENT_TYPES.map((type) => [type, []]));
+  for (const point of points) {
+    series[point.eventType].push({ date: point.date, amount: point.amount });
+  }
+
+  const realized = points.filter((point) => REALIZED_EVENT_TYPES.includes(point.eventType));
+  const listPrices = series.list_price;
+  const firstListed = listPrices[0]?.amount;
+  const lastListed = listPrices[listPrices.length - 1]?.amount;
+  const amounts = points.map((point) => point.amount);
+
+  return {
+    series,
+    stats: {
+      count: points.length,
+      low: amounts.length ? Math.min(...amounts) : null,
+      high: amounts.length ? Math.max(...amounts) : null,
+      realizedCount: realized.length,
+      realizedMedian: median(realized.map((point) => point.amount)),
+      lastRealized: realized.length ? realized[realized.length - 1].amount : null,
+      listPriceChange:
+        listPrices.length > 1 && firstListed > 0
+          ? roundMoney(((lastListed - firstListed) / firstListed) * 100)
+          : null,
+    },
+  };
+}
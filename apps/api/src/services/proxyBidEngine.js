@@ -0,0 +1,153 @@
+/**
+ * Proxy Bid Engine
+ * Pure resolution logic for maximum (proxy) bids.
+ * No database access here - bidsController persists whatever this returns.
+ */
+
+// Default increment ladder used when an auction has no fixed bid_increment
+export const DEFAULT_INCREMENT_TIERS = [
+  { upTo: 100, increment: 5 },
+  { upTo: 500, increment: 10 },
+  { upTo: 1000, increment: 25 },
+  { upTo: 5000, increment: 50 },
+  { upTo: 10000, increment: 100 },
+  { upTo: Infinity, increment: 250 },
+];
+
+const toAmount = (value) => Math.round(parseFloat(value || 0) * 100) / 100;
+
+/**
+ * Get the bid increment for a given price level
+ * A positive fixed increment on the auction overrides the tier table
+ */
+export function getBidIncrement(amount, fixedIncrement = null) {
+  const fixed = toAmount(fixedIncrement);
+  if (fixed > 0) return fixed;
+
+  const value = toAmount(amount);
+  const tier = DEFAULT_INCREMENT_TIERS.find((t) => value < t.upTo);
+  return tier.increment;
+}
+
+/**
+ * Get the lowest amount the next bid may be placed at
+ */
+export function getMinimumBid(auction) {
+  const startingPrice = toAmount(auction.startingPrice ?? auction.startingBid);
+  const currentBid = toAmount(auction.currentBid);
+
+  if (!auction.bidCount || currentBid <= 0) return startingPrice;
+
+  return toAmount(currentBid + getBidIncrement(currentBid, auction.bidIncrement));
+}
+
+/**
+ * Lift a leading price to the reserve when the leader's max can cover it,
+ * so a high max is not left sitting below an unmet reserve
+ */
+function applyReserve(price, leaderMax, reservePrice) {
+  const reserve = toAmount(reservePrice);
+  if (reserve > 0 && price < reserve && leaderMax >= reserve) return reserve;
+  return price;
+}
+
+/**
+ * Resolve a new bid against the current leader
+ *
+ * @param {Object} params
+ * @param {Object} params.auction - { startingPrice, currentBid, bidCount, bidIncrement, reservePrice }
+ * @param {Object|null} params.leader - current winning bid { userId, amount, maxBidAmount }
+ * @param {Object} params.challenger - incoming bid { userId, amount, maxBidAmount }
+ * @returns {{ bids: Array, currentBid: number, leaderUserId: number, challengerLeads: boolean }}
+ *   bids are returned in the order they should be persisted; ties go to the earlier max (the leader)
+ */
+export function resolveProxyBid({ auction, leader, challenger }) {
+  const challengerAmount = toAmount(challenger.amount);
+  const challengerHasMax =
+    challenger.maxBidAmount !== null && challenger.maxBidAmount !== undefined;
+  const challengerMax = challengerHasMax
+    ? Math.max(toAmount(challenger.maxBidAmount), challengerAmount)
+    : challengerAmount;
+
+  // First bid on the auction - open at the amount entered
+  if (!leader) {
+    const price = applyReserve(challengerAmount, challengerMax, auction.reservePrice);
+    return {
+      bids: [
+        {
+          userId: challenger.userId,
+          amount: price,
+          maxBidAmount: challengerHasMax ? challengerMax : null,
+          isAutoBid: price > challengerAmount,
+          status: 'winning',
+        },
+      ],
+      currentBid: price,
+      leaderUserId: challenger.userId,
+      challengerLeads: true,
+    };
+  }
+
+  const leaderAmount = toAmount(leader.amount);
+  const leaderMax = Math.max(toAmount(leader.maxBidAmount), leaderAmount);
+
+  // Challenger's max beats the leader's max - leader's proxy is exhausted first
+  if (challengerMax > leaderMax) {
+    const bids = [];
+    if (leaderMax > leaderAmount) {
+      bids.push({
+        userId: leader.userId,
+        amount: leaderMax,
+        maxBidAmount: leaderMax,
+        isAutoBid: true,
+        status: 'outbid',
+      });
+    }
+
+    const step = getBidIncrement(leaderMax, auction.bidIncrement);
+    let price = Math.max(challengerAmount, Math.min(challengerMax, toAmount(leaderMax + step)));
+    price = applyReserve(price, challengerMax, auction.reservePrice);
+
+    bids.push({
+      userId: challenger.userId,
+      amount: price,
+      maxBidAmount: challengerHasMax ? challengerMax : null,
+      isAutoBid: price > challengerAmount,
+      status: 'winning',
+    });
+
+    return {
+      bids,
+      currentBid: price,
+      leaderUserId: challenger.userId,
+      challengerLeads: true,
+    };
+  }
+
+  // Leader's max holds (ties go to the earlier max) - leader counter-bids automatically
+  const step = getBidIncrement(challengerMax, auction.bidIncrement);
+  let price = Math.min(leaderMax, toAmount(challengerMax + step));
+  price = applyReserve(price, leaderMax, auction.reservePrice);
+
+  return {
+    bids: [
+      {
+        userId: challenger.userId,
+        amount: challengerMax,
+        maxBidAmount: challengerHasMax ? challengerMax : null,
+        isAutoBid: challengerMax > challengerAmount,
+        status: 'outbid',
+      },
+      {
+        userId: leader.userId,
+        amount: price,
+        maxBidAmount: leaderMax,
+        isAutoBid: true,
+        status: 'winning',
+      },
+    ],
+    currentBid: price,
+    leaderUserId: leader.userId,
+    challengerLeads: false,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Rare Book Request Matcher
+ * Pure scoring of books against customers' rare book requests.
+ * An exact ISBN is a certain match; otherwise the title must be fuzzily similar, weighted
+ * with the author when the request names one. Books priced above the request's budget never match.
+ * Budgets are in the base currency; listings in other currencies are converted before comparing,
+ * and never match a budget when there is no exchange rate for them.
+ */
+
+import { BASE_CURRENCY, convertAmount } from './currencyConverter.js';
+import { isbn13Key } from './isbn/isbn.js';
+
+export const MATCH_THRESHOLD = 0.6;
+
+// Title similarity below this is never a match, however well the author matches
+const MIN_TITLE_SIMILARITY = 0.5;
+
+// Only an ISBN match is certain
+const MAX_FUZZY_CONFIDENCE = 95;
+
+// Requests that name a different ISBN are usually after another edition
+const ISBN_MISMATCH_PENALTY = 0.7;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'by', 'of', 'the']);
+
+const toNumber = (value) => {
+  const num = parseFloat(value);
+  return isNaN(num) ? null : num;
+};
+
+const tokenize = (value) =>
+  String(value || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((token) => token && !STOP_WORDS.has(token));
+
+function bigrams(text) {
+  const grams = [];
+  for (let i = 0; i < text.length - 1; i++) grams.push(text.slice(i, i + 2));
+  return grams;
+}
+
+/**
+ * Similarity of two strings from 0 to 1, tolerant of typos, punctuation, word order
+ * and a request naming only part of a longer title
+ */
+export function textSimilarity(a, b) {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const joinedA = tokensA.join(' ');
+  const joinedB = tokensB.join(' ');
+  if (joinedA === joinedB) return 1;
+
+  // Dice coefficient over character bigrams of the sorted words
+  const gramsA = bigrams([...tokensA].sort().join(' '));
+  const gramsB = bigrams([...tokensB].sort().join(' '));
+  const remaining = [...gramsB];
+  let shared = 0;
+  for (const gram of gramsA) {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  const dice =
+    gramsA.length + gramsB.length > 0 ? (2 * shared) / (gramsA.length + gramsB.length) : 0;
+
+  // "Gatsby" against "The Great Gatsby: A Novel"
+  const [shorter, longer] =
+    tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const contained = shorter.every((token) => longer.includes(token));
+
+  return Math.max(dice, contained ? 0.9 : 0);
+}
+
+/**
+ * Score a book against a request
+ * @param {Object} request - { title, author, isbn, maxPrice }
+ * @param {Object} book - { title, author, isbn, price, salePrice, currency }
+ * @param {Object} rates - exchange rate table ({ EUR: 0.92, ... }) for listings not in USD
+ * @returns {Object|null} { confidence (0-100), reasons } or null when it is not a match
+ */
+export function scoreRequestMatch(request, book, rates = {}) {
+  const maxPrice = toNumber(request.maxPrice);
+  if (maxPrice !== null && maxPrice > 0) {
+    let price;
+    try {
+      price = convertAmount(
+        toNumber(book.salePrice) ?? toNumber(book.price) ?? 0,
+        book.currency,
+        BASE_CURRENCY,
+        rates,
+      );
+    } catch {
+      return null;
+    }
+    if (price > maxPrice) return null;
+  }
+
+  const budgetReason = maxPrice !== null && maxPrice > 0 ? ['price'] : [];
+
+  const requestIsbn = isbn13Key(request.isbn);
+  const bookIsbn = isbn13Key(book.isbn);
+  if (requestIsbn && requestIsbn === bookIsbn) {
+    return { confidence: 100, reasons: ['isbn', ...budgetReason] };
+  }
+
+  const titleScore = textSimilarity(request.title, book.title);
+  if (titleScore < MIN_TITLE_SIMILARITY) return null;
+
+  const reasons = ['title'];
+  let score = titleScore;
+
+  if (tokenize(request.author).length > 0) {
+    const authorScore = textSimilarity(request.author, book.author);
+    score = titleScore * 0.7 + authorScore * 0.3;
+    if (authorScore >= MIN_TITLE_SIMILARITY) reasons.push('author');
+  }
+
+  if (requestIsbn && bookIsbn) score *= ISBN_MISMATCH_PENALTY;
+  if (score < MATCH_THRESHOLD) return null;
+
+  return {
+    confidence: Math.min(MAX_FUZZY_CONFIDENCE, Math.round(score * 100)),
+    reasons: [...reasons, ...budgetReason],
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Rare Book Request Matching
+ * Scores created, imported and edited books against open rare book requests, keeps the
+ * suggested matches up to date and notifies the requester and the listing vendor of new ones
+ */
+
+import db from '../models/index.js';
+import { scoreRequestMatch } from './rareBookRequestMatcher.js';
+import { loadRateTable } from './currencyService.js';
+import { listingPath } from './savedSearchAlerts.js';
+import { dispatchNotification } from './notificationDispatch.js';
+
+const { Book, Vendor, RareBookRequest, RareBookRequestMatch } = db;
+
+async function notify(userId, type, title, message, data) {
+  await dispatchNotification(userId, type, { title, message, data });
+}
+
+async function notifyNewMatch(request, book, vendorUserId, confidence) {
+  const metadata = {
+    requestId: request.id,
+    requestTitle: request.title,
+    itemTitle: book.title,
+    itemPath: listingPath(book),
+    confidence,
+  };
+
+  await notify(
+    request.userId,
+    'RARE_BOOK_REQUEST_MATCH',
+    'A book you requested may be available',
+    `"${book.title}" is a ${confidence}% match for your request "${request.title}".`,
+    { entityType: 'book', entityId: String(book.id), metadata },
+  );
+
+  if (vendorUserId) {
+    await notify(
+      vendorUserId,
+      'RARE_BOOK_REQUEST_MATCH_VENDOR',
+      'Your listing matches a rare book request',
+      `"${book.title}" is a ${confidence}% match for a customer's request "${request.title}".`,
+      { entityType: 'rare_book_request', entityId: String(request.id), metadata },
+    );
+  }
+}
+
+/**
+ * Match books against every open request
+ * Matches that no longer score (price raised, title edited, unpublished) are removed;
+ * only matches that did not exist before are notified.
+ * @param {Array<number>} bookIds
+ * @returns {number} number of new matches
+ */
+export async function matchBooksToRequests(bookIds = []) {
+  const ids = [...new Set(bookIds.filter(Boolean))];
+  if (ids.length === 0) return 0;
+
+  const [books, requests] = await Promise.all([
+    Book.findAll({
+      where: { id: ids },
+      attributes: [
+        'id',
+        'sid',
+        'title',
+        'author',
+        'isbn',
+        'price',
+        'salePrice',
+        'currency',
+        'status',
+        'vendorId',
+      ],
+    }),
+    RareBookRequest.findAll({ where: { status: 'open' } }),
+  ]);
+  if (books.length === 0 || requests.length === 0) return 0;
+
+  const rates = await loadRateTable();
+  const vendors = await Vendor.findAll({
+    where: { id: [...new Set(books.map((book) => book.vendorId).filter(Boolean))] },
+    attributes: ['id', 'userId'],
+  });
+  const vendorUserIds = new Map(vendors.map((vendor) => [vendor.id, vendor.userId]));
+
+  let created = 0;
+
+  for (const book of books) {
+    const vendorUserId = vendorUserIds.get(book.vendorId) || null;
+    const existing = await RareBookRequestMatch.findAll({ where: { bookId: book.id } });
+    const existingByRequest = new Map(existing.map((match) => [match.requestId, match]));
+
+    for (const request of requests) {
+      try {
+        // Vendors never match their own requests
+        const result =
+          book.status === 'published' && request.userId !== vendorUserId
+            ? scoreRequestMatch(request, book, rates)
+            : null;
+        const previous = existingByRequest.get(request.id);
+
+        if (!result) {
+          if (previous) await previous.destroy();
+          continue;
+        }
+
+        if (previous) {
+          await previous.update({ confidence: result.confidence, reasons: result.reasons });
+          continue;
+        }
+
+        await RareBookRequestMatch.create({
+          requestId: request.id,
+          bookId: book.id,
+          vendorId: book.vendorId,
+          confidence: result.confidence,
+          reasons: result.reasons,
+        });
+        created++;
+
+        await notifyNewMatch(request, book, vendorUserId, result.confidence);
+      } catch (error) {
+        console.error(`Failed to match book ${book.id} to request ${request.id}:`, error.message);
+      }
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Match a single created or edited book against open requests
+ */
+export async function matchBookToRequests(bookId) {
+  return matchBooksToRequests([bookId]);
+}
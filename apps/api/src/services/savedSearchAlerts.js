@@ -0,0 +1,106 @@
+/**
+ * Saved Search Alerts
+ * Notifies users whose saved searches match a newly indexed listing, on the channels they chose
+ */
+
+import db from '../models/index.js';
+import { matchesSavedSearch } from './savedSearchMatcher.js';
+import { loadRateTable } from './currencyService.js';
+import { dispatchNotification } from './notificationDispatch.js';
+
+const { SavedSearch, User, Vendor } = db;
+
+/**
+ * Storefront path for an indexed listing; the product page resolves books and products by sid or id
+ */
+export function listingPath(document) {
+  return `/products/${document.sid || document.id}`;
+}
+
+/**
+ * Alert every saved search that matches a new listing
+ * @param {string} type - 'book' | 'product'
+ * @param {Object} document - indexed document from indexBook / indexProduct
+ * @returns {number} number of users alerted
+ */
+export async function notifySavedSearchMatches(type, document) {
+  const savedSearches = await SavedSearch.findAll({
+    where: { alertsEnabled: true },
+    include: [
+      {
+        model: User,
+        as: 'user',
+        attributes: [
+          'id',
+          'email',
+          'firstName',
+          'phoneNumber',
+          'emailNotifications',
+          'notificationPreferences',
+          'notificationDigest',
+          'quietHours',
+          'timezone',
+          'metadata',
+        ],
+      },
+    ],
+  });
+
+  // Vendors are not alerted about their own listings
+  const vendor = document.vendorId
+    ? await Vendor.findByPk(document.vendorId, { attributes: ['userId'] })
+    : null;
+
+  const rates = await loadRateTable();
+
+  // One alert per user, naming the first of their searches that matched
+  const matchesByUser = new Map();
+  for (const savedSearch of savedSearches) {
+    if (!savedSearch.user || savedSearch.userId === vendor?.userId) continue;
+    if (matchesByUser.has(savedSearch.userId)) continue;
+    if (matchesSavedSearch(savedSearch, document, type, rates)) {
+      matchesByUser.set(savedSearch.userId, savedSearch);
+    }
+  }
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const itemPath = listingPath(document);
+
+  for (const savedSearch of matchesByUser.values()) {
+    const { user } = savedSearch;
+
+    try {
+      await dispatchNotification(user, 'SAVED_SEARCH_MATCH', {
+        title: 'New match for your saved search',
+        message: `"${document.title}" matches your saved search "${savedSearch.name}".`,
+        data: {
+          entityType: type,
+          entityId: String(document.id),
+          metadata: {
+            savedSearchId: savedSearch.id,
+            savedSearchName: savedSearch.name,
+            itemTitle: document.title,
+            itemPath,
+          },
+        },
+        email: {
+          template: 'saved_search_match',
+          variables: {
+            userName: user.firstName || 'Collector',
+            searchName: savedSearch.name,
+            itemTitle: document.title,
+            itemPrice: (document.salePrice ?? document.price ?? 0).toFixed(2),
+            itemLink: `${frontendUrl}${itemPath}`,
+            manageLink: `${frontendUrl}/account/saved-searches`,
+          },
+        },
+      });
+
+      await savedSearch.update({ lastAlertedAt: new Date() });
+    } catch (error) {
+      console.error(`Failed to alert saved search ${savedSearch.id}:`, error.message);
+    }
+  }
+
+  return matchesByUser.size;
+}
@@ -0,0 +1,132 @@
+/**
+ * Saved Search Matcher
+ * Pure matching of indexed search documents against saved search queries and filters.
+ * Documents are the shapes written to Meilisearch by indexBook / indexProduct.
+ */
+
+import { listingBasePrice } from './searchFacets.js';
+
+const SEARCH_TYPES = ['book', 'product'];
+
+const toNumber = (value) => {
+  const num = parseFloat(value);
+  return isNaN(num) ? null : num;
+};
+
+const normalizeText = (value) =>
+  String(value || '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Clean filters from the search UI; unknown keys and blank values are dropped
+ * @returns {Object} { type, author, category, minPrice, maxPrice, condition, signed }
+ */
+export function normalizeSavedSearchFilters(input = {}) {
+  const filters = {};
+
+  if (SEARCH_TYPES.includes(input.type)) filters.type = input.type;
+
+  for (const key of ['author', 'category', 'condition']) {
+    const value = String(input[key] ?? '').trim();
+    if (value) filters[key] = value;
+  }
+
+  for (const key of ['minPrice', 'maxPrice']) {
+    const value = toNumber(input[key]);
+    if (value !== null && value >= 0) filters[key] = value;
+  }
+
+  if (input.signed === true || input.signed === 'true') filters.signed = true;
+
+  return filters;
+}
+
+/**
+ * Text a query is matched against
+ */
+function searchableText(document) {
+  const description =
+    typeof document.description === 'string' ? document.description.replace(/<[^>]*>/g, ' ') : '';
+
+  return normalizeText(
+    [
+      document.title,
+      document.author,
+      document.artist,
+      document.isbn,
+      document.sku,
+      document.category,
+      document.materials,
+      document.origin,
+      document.shortDescription,
+      description,
+      ...(document.tags || []),
+    ].join(' '),
+  );
+}
+
+/**
+ * Whether a document is a purchasable listing: published and in stock
+ */
+export function isAvailableListing(document) {
+  if (!document || document.status !== 'published') return false;
+  return document.trackQuantity === false || (document.quantity || 0) > 0;
+}
+
+/**
+ * Whether re-indexing a document turned it into a new listing (first indexed available,
+ * or newly published / restocked), so updates to live listings do not re-alert
+ */
+export function isNewListing(previous, next) {
+  return isAvailableListing(next) && !isAvailableListing(previous);
+}
+
+/**
+ * Whether an indexed document matches a saved search
+ * Price ranges are in the base currency; listings in other currencies are converted first.
+ * @param {Object} savedSearch - { query, filters }
+ * @param {Object} document - indexed book or product
+ * @param {string} type - 'book' | 'product'
+ * @param {Object} rates - exchange rate table from loadRateTable
+ */
+export function matchesSavedSearch(savedSearch, document, type, rates = {}) {
+  const filters = normalizeSavedSearchFilters(savedSearch.filters || {});
+
+  if (filters.type && filters.type !== type) return false;
+
+  const terms = normalizeText(savedSearch.query).split(' ').filter(Boolean);
+  if (terms.length > 0) {
+    const text = searchableText(document);
+    if (!terms.every((term) => text.includes(term))) return false;
+  }
+
+  if (filters.author) {
+    const creator = normalizeText(document.author || document.artist);
+    if (!creator.includes(normalizeText(filters.author))) return false;
+  }
+
+  if (filters.category && normalizeText(document.category) !== normalizeText(filters.category)) {
+    return false;
+  }
+
+  if (filters.condition && normalizeText(document.condition) !== normalizeText(filters.condition)) {
+    return false;
+  }
+
+  if (filters.signed && document.isSigned !== true) return false;
+
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    const price = listingBasePrice(document.price || 0, document.salePrice, {
+      currency: document.currency,
+      rates,
+    });
+    // A listing in a currency with no rate cannot be placed in the range
+    if (price === null) return false;
+    if (filters.minPrice !== undefined && price < filters.minPrice) return false;
+    if (filters.maxPrice !== undefined && price > filters.maxPrice) return false;
+  }
+
+  return true;
+}
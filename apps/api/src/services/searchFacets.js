@@ -0,0 +1,190 @@
+/**
+ * Search Facets
+ * Pure helpers for faceted search: the bucketed attributes written to the search index, reading
+ * facet selections from a query string, and building and merging the Meilisearch queries that
+ * return live counts.
+ *
+ * Selecting several values of one facet matches any of them; selections in different facets
+ * must all match. Counts for a facet are taken with every other facet's selection applied but
+ * not its own, so the unselected values of a facet keep showing what selecting them would add.
+ */
+
+import { BASE_CURRENCY, convertAmount } from './currencyConverter.js';
+
+// Query param name -> index attribute
+export const SEARCH_FACETS = {
+  category: 'categorySlugs',
+  condition: 'condition',
+  vendor: 'vendorName',
+  price: 'priceBucket',
+  century: 'publicationCentury',
+  signed: 'isSigned',
+  auction: 'hasActiveAuction',
+};
+
+const BOOLEAN_FACETS = ['signed', 'auction'];
+
+// Upper bounds are exclusive; the last bucket is open-ended
+export const PRICE_BUCKETS = [
+  { value: '0-50', max: 50 },
+  { value: '50-100', max: 100 },
+  { value: '100-250', max: 250 },
+  { value: '250-500', max: 500 },
+  { value: '500-1000', max: 1000 },
+  { value: '1000-5000', max: 5000 },
+  { value: '5000+', max: Infinity },
+];
+
+const MAX_FACET_VALUES = 20;
+const MAX_VALUE_LENGTH = 100;
+
+/**
+ * A listing's sale price when it has one, else its price, in the base currency
+ * @param {Object} options - { currency, rates }: the listing currency and the rate table
+ * @returns {number|null} null when the price is missing or its currency has no rate
+ */
+export function listingBasePrice(price, salePrice, { currency = BASE_CURRENCY, rates = {} } = {}) {
+  const amount = parseFloat(salePrice || price);
+  if (!Number.isFinite(amount) || amount < 0) return null;
+  try {
+    return convertAmount(amount, currency, BASE_CURRENCY, rates);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Price bucket a listing falls in, by its sale price when it has one, in the base currency
+ * @param {Object} options - { currency, rates }, as for listingBasePrice
+ */
+export function priceBucket(price, salePrice, options) {
+  const amount = listingBasePrice(price, salePrice, options);
+  if (amount === null) return null;
+  return PRICE_BUCKETS.find((bucket) => amount < bucket.max).value;
+}
+
+/**
+ * Century a year falls in: 1925 -> 20, 1900 -> 19
+ */
+export function publicationCentury(year) {
+  const value = parseInt(year);
+  if (!Number.isFinite(value) || value < 1 || value > 9999) return null;
+  return Math.floor((value - 1) / 100) + 1;
+}
+
+const isValidValue = (facet, value) => {
+  if (BOOLEAN_FACETS.includes(facet)) return value === 'true' || value === 'false';
+  if (facet === 'price') return PRICE_BUCKETS.some((bucket) => bucket.value === value);
+  if (facet === 'century') return /^\d{1,2}$/.test(value);
+  return value.length <= MAX_VALUE_LENGTH;
+};
+
+/**
+ * Facet selections from a query string, as { facet: [values] }
+ * Accepts repeated params (?condition=Fine&condition=Good) or arrays; unknown values are dropped
+ */
+export function parseFacetSelections(query = {}) {
+  const selections = {};
+
+  for (const facet of Object.keys(SEARCH_FACETS)) {
+    const raw = query[facet];
+    if (raw === undefined || raw === null) continue;
+
+    const values = (Array.isArray(raw) ? raw : [raw])
+      .filter((value) => typeof value === 'string')
+      .map((value) => value.trim())
+      .filter((value) => value && isValidValue(facet, value));
+    const unique = [...new Set(values)].slice(0, MAX_FACET_VALUES);
+    if (unique.length > 0) selections[facet] = unique;
+  }
+
+  return selections;
+}
+
+const quote = (value) => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Filter expression matching any of a facet's selected values
+ */
+export function facetFilter(facet, values) {
+  const attribute = SEARCH_FACETS[facet];
+  if (BOOLEAN_FACETS.includes(facet) || facet === 'century') {
+    const terms = values.map((value) => `${attribute} = ${value}`);
+    return terms.length === 1 ? terms[0] : `(${terms.join(' OR ')})`;
+  }
+  return `${attribute} IN [${values.map(quote).join(', ')}]`;
+}
+
+/**
+ * The queries one faceted search runs against an index: the results query, which also counts
+ * the unselected facets, then one count-only query per selected facet without its own selection
+ */
+export function buildFacetQueries(indexUid, q, { filters = [], selections = {}, ...options } = {}) {
+  const selected = Object.keys(selections);
+  const filterFor = (except) => [
+    ...filters,
+    ...selected.filter((facet) => facet !== except).map((f) => facetFilter(f, selections[f])),
+  ];
+
+  return [
+    {
+      indexUid,
+      q,
+      ...options,
+      filter: filterFor(null),
+      facets: Object.values(SEARCH_FACETS),
+    },
+    ...selected.map((facet) => ({
+      indexUid,
+      q,
+      filter: filterFor(facet),
+      facets: [SEARCH_FACETS[facet]],
+      limit: 0,
+    })),
+  ];
+}
+
+const compareValues = (facet) => {
+  if (facet === 'price') {
+    const order = PRICE_BUCKETS.map((bucket) => bucket.value);
+    return (a, b) => order.indexOf(a.value) - order.indexOf(b.value);
+  }
+  if (facet === 'century') return (a, b) => Number(b.value) - Number(a.value);
+  return (a, b) => b.count - a.count || a.value.localeCompare(b.value);
+};
+
+/**
+ * Facet counts for the API from the results of buildFacetQueries, one result list per index
+ * Returns { facet: [{ value, count, selected }] } with selected values always listed
+ */
+export function mergeFacetDistributions(resultsPerIndex, selections = {}) {
+  const totals = {};
+
+  for (const results of resultsPerIndex) {
+    const [main, ...perFacet] = results;
+    const selected = Object.keys(selections);
+
+    for (const [facet, attribute] of Object.entries(SEARCH_FACETS)) {
+      const source = selected.includes(facet) ? perFacet[selected.indexOf(facet)] : main;
+      const distribution = source?.facetDistribution?.[attribute] || {};
+      totals[facet] = totals[facet] || {};
+      for (const [value, count] of Object.entries(distribution)) {
+        totals[facet][value] = (totals[facet][value] || 0) + count;
+      }
+    }
+  }
+
+  const facets = {};
+  for (const facet of Object.keys(SEARCH_FACETS)) {
+    const counts = totals[facet] || {};
+    for (const value of selections[facet] || []) counts[value] = counts[value] || 0;
+    facets[facet] = Object.entries(counts)
+      .map(([value, count]) => ({
+        value,
+        count,
+        selected: (selections[facet] || []).includes(value),
+      }))
+      .sort(compareValues(facet));
+  }
+  return facets;
+}
@@ -0,0 +1,273 @@
+/**
+ * Shipping Rate Engine
+ * Pure destination-based shipping calculation from vendor shipping profiles.
+ * A profile has a rate type (flat, weight or item) and zones matched by country/region;
+ * items may carry a fixed per-unit override that bypasses the zone rate. Zone rates and
+ * thresholds are in the base currency, so item prices are converted from their listing currency.
+ */
+
+import { BASE_CURRENCY, convertAmount, normalizeCurrency } from './currencyConverter.js';
+
+// Charged per vendor when the vendor has not configured a shipping profile
+export const DEFAULT_FLAT_RATE = 10;
+
+export const RATE_TYPES = ['flat', 'weight', 'item'];
+
+// Zone country wildcard: matches any destination not covered by a more specific zone
+export const REST_OF_WORLD = '*';
+
+const KG_PER_UNIT = {
+  kg: 1,
+  g: 0.001,
+  lb: 0.45359237,
+  lbs: 0.45359237,
+  oz: 0.028349523125,
+};
+
+// Checkout collects country names; zones are configured with ISO 3166-1 alpha-2 codes
+const COUNTRY_CODES = {
+  'united states': 'US',
+  'united states of america': 'US',
+  usa: 'US',
+  canada: 'CA',
+  mexico: 'MX',
+  'united kingdom': 'GB',
+  'great britain': 'GB',
+  uk: 'GB',
+  ireland: 'IE',
+  australia: 'AU',
+  'new zealand': 'NZ',
+  france: 'FR',
+  germany: 'DE',
+  italy: 'IT',
+  spain: 'ES',
+  portugal: 'PT',
+  netherlands: 'NL',
+  belgium: 'BE',
+  austria: 'AT',
+  switzerland: 'CH',
+  sweden: 'SE',
+  norway: 'NO',
+  denmark: 'DK',
+  finland: 'FI',
+  japan: 'JP',
+};
+
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+const toNumber = (value) => {
+  const num = parseFloat(value);
+  return isNaN(num) ? 0 : num;
+};
+
+/**
+ * Normalize a country name or code to an upper-case ISO alpha-2 code where known
+ */
+export function normalizeCountry(country) {
+  if (!country) return '';
+  const trimmed = String(country).trim();
+  return COUNTRY_CODES[trimmed.toLowerCase()] || trimmed.toUpperCase();
+}
+
+/**
+ * Shipping destination from a checkout address ({ country, stateProvince, postalCode })
+ */
+export function destinationFromAddress(address = {}) {
+  return {
+    country: address?.country || '',
+    state: address?.stateProvince || address?.state || '',
+    postalCode: address?.postalCode || '',
+  };
+}
+
+/**
+ * Shipping attributes for a loaded book or product
+ */
+export function toShippingItem(record, type, quantity = 1) {
+  if (type === 'book') {
+    return {
+      vendorId: record.vendorId,
+      quantity,
+      price: record.price,
+      weight: record.shippingWeight,
+      weightUnit: 'lb',
+      shippingOverride: record.shippingOverride,
+      requiresShipping: true,
+      currency: normalizeCurrency(record.currency),
+    };
+  }
+
+  return {
+    vendorId: record.vendorId,
+    quantity,
+    price: record.salePrice || record.price,
+    weight: record.weight,
+    weightUnit: record.weightUnit,
+    shippingOverride: record.shippingOverride,
+    requiresShipping: record.requiresShipping,
+    currency: normalizeCurrency(record.currency),
+  };
+}
+
+/**
+ * Item price and override in the base currency, which zone rates and thresholds use
+ */
+export function toBaseCurrencyItem(item, rates) {
+  const toBase = (amount) => convertAmount(amount, item.currency, BASE_CURRENCY, rates);
+
+  return {
+    ...item,
+    price: toBase(item.price),
+    shippingOverride: item.shippingOverride ? toBase(item.shippingOverride) : item.shippingOverride,
+  };
+}
+
+/**
+ * Convert a weight to kilograms (unitless weights are treated as pounds)
+ */
+export function toKilograms(weight, unit = 'lb') {
+  const factor = KG_PER_UNIT[String(unit || 'lb').toLowerCase()] || KG_PER_UNIT.lb;
+  return toNumber(weight) * factor;
+}
+
+/**
+ * Pick the most specific zone for a destination:
+ * country + region beats country-wide, which beats the rest-of-world wildcard
+ */
+export function findZone(zones = [], destination = {}) {
+  const country = normalizeCountry(destination.country);
+  const region = String(destination.state || destination.region || '')
+    .trim()
+    .toUpperCase();
+
+  let best = null;
+  let bestScore = 0;
+
+  for (const zone of zones) {
+    const countries = (zone.countries || []).map(normalizeCountry);
+    const regions = (zone.regions || []).map((r) => String(r).trim().toUpperCase());
+
+    let score = 0;
+    if (countries.includes(country)) {
+      if (regions.length === 0) score = 2;
+      else if (region && regions.includes(region)) score = 3;
+    } else if (countries.includes(REST_OF_WORLD)) {
+      score = 1;
+    }
+
+    if (score > bestScore) {
+      best = zone;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Rate for the items shipped at the zone rate (items with overrides excluded)
+ */
+function zoneRate(rateType, zone, items) {
+  const baseRate = toNumber(zone.baseRate);
+  const additionalRate = toNumber(zone.additionalRate);
+
+  if (rateType === 'item') {
+    const count = items.reduce((sum, item) => sum + (item.quantity || 1), 0);
+    return baseRate + additionalRate * Math.max(0, count - 1);
+  }
+
+  if (rateType === 'weight') {
+    const kg = items.reduce(
+      (sum, item) => sum + toKilograms(item.weight, item.weightUnit) * (item.quantity || 1),
+      0,
+    );
+    return baseRate + additionalRate * kg;
+  }
+
+  return baseRate;
+}
+
+/**
+ * Shipping for one vendor's items to a destination
+ * @param {Object} profile - { rateType, zones: [{ id, name, countries, regions, baseRate, additionalRate, freeShippingThreshold }] } or null
+ * @param {Array} items - [{ quantity, price, weight, weightUnit, shippingOverride, requiresShipping }]
+ * @returns {Object} { amount, zoneId, zoneName, freeShipping, error }
+ */
+export function calculateVendorShipping(profile, items, destination) {
+  const shippable = items.filter((item) => item.requiresShipping !== false);
+  if (shippable.length === 0) {
+    return { amount: 0, zoneId: null, zoneName: null, freeShipping: false, error: null };
+  }
+
+  if (!profile) {
+    return {
+      amount: DEFAULT_FLAT_RATE,
+      zoneId: null,
+      zoneName: null,
+      freeShipping: false,
+      error: null,
+    };
+  }
+
+  const zone = findZone(profile.zones, destination);
+  if (!zone) {
+    return {
+      amount: 0,
+      zoneId: null,
+      zoneName: null,
+      freeShipping: false,
+      error: 'Does not ship to this destination',
+    };
+  }
+
+  const hasOverride = (item) =>
+    item.shippingOverride !== null &&
+    item.shippingOverride !== undefined &&
+    item.shippingOverride !== '';
+
+  const overridden = shippable.filter(hasOverride);
+  const rated = shippable.filter((item) => !hasOverride(item));
+
+  const overrideTotal = overridden.reduce(
+    (sum, item) => sum + toNumber(item.shippingOverride) * (item.quantity || 1),
+    0,
+  );
+
+  // Free-shipping thresholds waive the zone rate; fixed per-item overrides still apply
+  const subtotal = shippable.reduce(
+    (sum, item) => sum + toNumber(item.price) * (item.quantity || 1),
+    0,
+  );
+  const threshold = zone.freeShippingThreshold;
+  const freeShipping =
+    threshold !== null && threshold !== undefined && subtotal >= toNumber(threshold);
+
+  const rate = rated.length > 0 && !freeShipping ? zoneRate(profile.rateType, zone, rated) : 0;
+
+  return {
+    amount: roundMoney(rate + overrideTotal),
+    zoneId: zone.id ?? null,
+    zoneName: zone.name ?? null,
+    freeShipping,
+    error: null,
+  };
+}
+
+/**
+ * Per-vendor shipping lines for a cart
+ * @param {Array} groups - [{ vendorId, vendorName, profile, items }]
+ * @returns {Object} { lines: [{ vendorId, vendorName, amount, zoneName, freeShipping, error }], total, errors }
+ */
+export function calculateShippingLines(groups, destination) {
+  const lines = groups.map((group) => ({
+    vendorId: group.vendorId,
+    vendorName: group.vendorName || null,
+    ...calculateVendorShipping(group.profile, group.items, destination),
+  }));
+
+  return {
+    lines,
+    total: roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)),
+    errors: lines.filter((line) => line.error),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Shipping Service
+ * Loads vendor shipping profiles and item shipping attributes, then prices
+ * per-vendor shipping lines with the shipping rate engine
+ */
+
+import db from '../models/index.js';
+import {
+  calculateShippingLines,
+  toBaseCurrencyItem,
+  toShippingItem,
+} from './shippingRateEngine.js';
+import { BASE_CURRENCY, convertAmount } from './currencyConverter.js';
+
+const { Book, Product, Vendor, ShippingProfile, ShippingZone } = db;
+
+/**
+ * Load shipping attributes for cart-style items ({ bookId | productId, quantity })
+ * Unknown items are skipped; order creation validates items separately
+ */
+export async function loadShippingItems(items = [], { transaction } = {}) {
+  const shippingItems = [];
+
+  for (const item of items) {
+    const quantity = parseInt(item.quantity) || 1;
+
+    if (item.bookId) {
+      const book = await Book.findByPk(item.bookId, { transaction });
+      if (book) shippingItems.push(toShippingItem(book, 'book', quantity));
+    } else if (item.productId) {
+      const product = await Product.findByPk(item.productId, { transaction });
+      if (product) shippingItems.push(toShippingItem(product, 'product', quantity));
+    }
+  }
+
+  return shippingItems;
+}
+
+/**
+ * Price shipping for items grouped by vendor
+ * Without a currency, items are assumed to be priced in the base currency
+ * @param {Array} shippingItems - output of toShippingItem / loadShippingItems
+ * @param {Object} destination - { country, state, postalCode }
+ * @param {Object} options - { transaction, currency, rates } lines are returned in `currency`
+ * @returns {Object} { lines, total, errors }
+ */
+export async function quoteShipping(
+  shippingItems,
+  destination,
+  { transaction, currency, rates } = {},
+) {
+  const itemsByVendor = new Map();
+  for (const shippingItem of shippingItems) {
+    const item = currency ? toBaseCurrencyItem(shippingItem, rates) : shippingItem;
+    if (!itemsByVendor.has(item.vendorId)) itemsByVendor.set(item.vendorId, []);
+    itemsByVendor.get(item.vendorId).push(item);
+  }
+
+  const vendors = await Vendor.findAll({
+    where: { id: [...itemsByVendor.keys()] },
+    attributes: ['id', 'shopName'],
+    include: [
+      {
+        model: ShippingProfile,
+        as: 'shippingProfile',
+        required: false,
+        include: [{ model: ShippingZone, as: 'zones' }],
+      },
+    ],
+    transaction,
+  });
+  const vendorsById = new Map(vendors.map((vendor) => [vendor.id, vendor]));
+
+  const groups = [...itemsByVendor.entries()].map(([vendorId, items]) => {
+    const vendor = vendorsById.get(vendorId);
+    const profile = vendor?.shippingProfile;
+
+    return {
+      vendorId,
+      vendorName: vendor?.shopName || null,
+      profile: profile
+        ? {
+            rateType: profile.rateType,
+            zones: (profile.zones || []).map((zone) => zone.toJSON()),
+          }
+        : null,
+      items,
+    };
+  });
+
+  const quote = calculateShippingLines(groups, destination);
+  if (!currency) return quote;
+
+  const lines = quote.lines.map((line) => ({
+    ...line,
+    amount: convertAmount(line.amount, BASE_CURRENCY, currency, rates),
+  }));
+  const total = Math.round(lines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+
+  return { ...quote, lines, total };
+}
@@ -0,0 +1,146 @@
+/**
+ * Tax Engine
+ * Pure jurisdiction-based tax calculation from admin-managed rate tables.
+ * Rates match by country, optional state and optional postal prefix; every matching
+ * rate applies (e.g. state + county). Inclusive rates (EU VAT) are extracted from the
+ * listed price instead of being added on top.
+ */
+
+import { normalizeCountry } from './shippingRateEngine.js';
+
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+const toNumber = (value) => {
+  const num = parseFloat(value);
+  return isNaN(num) ? 0 : num;
+};
+
+const normalizeCode = (value) =>
+  String(value || '')
+    .replace(/\s+/g, '')
+    .toUpperCase();
+
+/**
+ * Jurisdiction label for a rate, e.g. "US-CA-900"
+ */
+export function jurisdictionOf(rate) {
+  return [rate.country, rate.state, rate.postalPrefix].filter(Boolean).join('-');
+}
+
+/**
+ * Active rates that apply to a destination ({ country, state, postalCode })
+ */
+export function matchTaxRates(rates = [], destination = {}) {
+  const country = normalizeCountry(destination.country);
+  const state = normalizeCode(destination.state);
+  const postalCode = normalizeCode(destination.postalCode);
+
+  return rates.filter((rate) => {
+    if (rate.isActive === false) return false;
+    if (normalizeCountry(rate.country) !== country) return false;
+    if (rate.state && normalizeCode(rate.state) !== state) return false;
+    if (rate.postalPrefix && !postalCode.startsWith(normalizeCode(rate.postalPrefix))) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Whether an item is exempt from a rate: non-taxable items are exempt everywhere,
+ * otherwise the rate's exempt categories are compared against the item's categories
+ */
+export function isExempt(rate, item) {
+  if (item.taxable === false) return true;
+
+  const exemptCategories = (rate.exemptCategories || []).map((c) => String(c).toLowerCase());
+  if (exemptCategories.length === 0) return false;
+
+  return (item.categories || []).some((category) =>
+    exemptCategories.includes(String(category).toLowerCase()),
+  );
+}
+
+/**
+ * Spread an order-level discount across items in proportion to their line amounts
+ */
+function allocateDiscount(amounts, discount) {
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (!discount || total <= 0) return amounts;
+
+  const ratio = Math.min(discount, total) / total;
+  return amounts.map((amount) => amount - amount * ratio);
+}
+
+/**
+ * Tax for a set of order items
+ * @param {Array} items - [{ price, quantity, taxable, categories }]
+ * @param {Array} rates - [{ id, name, country, state, postalPrefix, rate, inclusive, exemptCategories, isActive }]
+ * @param {Object} destination - { country, state, postalCode }
+ * @param {Object} options - { discount } order-level discount applied before tax
+ * @returns {Object} { items: [{ taxAmount, taxLines }], lines, totalTax, exclusiveTax, inclusiveTax }
+ */
+export function calculateTax(items = [], rates = [], destination = {}, { discount = 0 } = {}) {
+  const applicable = matchTaxRates(rates, destination);
+  const lineAmounts = allocateDiscount(
+    items.map((item) => toNumber(item.price) * (item.quantity || 1)),
+    toNumber(discount),
+  );
+
+  const linesByRate = new Map();
+  let exclusiveTax = 0;
+  let inclusiveTax = 0;
+
+  const itemResults = items.map((item, index) => {
+    const amount = lineAmounts[index];
+    const itemRates = applicable.filter((rate) => !isExempt(rate, item));
+
+    // Inclusive tax is part of the price; every rate applies to the net amount
+    const inclusiveTotalRate = itemRates
+      .filter((rate) => rate.inclusive)
+      .reduce((sum, rate) => sum + toNumber(rate.rate), 0);
+    const netAmount = amount / (1 + inclusiveTotalRate);
+
+    const taxLines = itemRates.map((rate) => {
+      const taxAmount = roundMoney(netAmount * toNumber(rate.rate));
+      const key = rate.id ?? jurisdictionOf(rate);
+      const line = linesByRate.get(key) || {
+        taxRateId: rate.id ?? null,
+        name: rate.name,
+        jurisdiction: jurisdictionOf(rate),
+        rate: toNumber(rate.rate),
+        inclusive: !!rate.inclusive,
+        taxableAmount: 0,
+        amount: 0,
+      };
+      line.taxableAmount = roundMoney(line.taxableAmount + netAmount);
+      line.amount = roundMoney(line.amount + taxAmount);
+      linesByRate.set(key, line);
+
+      if (rate.inclusive) inclusiveTax += taxAmount;
+      else exclusiveTax += taxAmount;
+
+      return {
+        taxRateId: rate.id ?? null,
+        name: rate.name,
+        jurisdiction: jurisdictionOf(rate),
+        rate: toNumber(rate.rate),
+        inclusive: !!rate.inclusive,
+        amount: taxAmount,
+      };
+    });
+
+    return {
+      taxAmount: roundMoney(taxLines.reduce((sum, line) => sum + line.amount, 0)),
+      taxLines,
+    };
+  });
+
+  return {
+    items: itemResults,
+    lines: [...linesByRate.values()],
+    totalTax: roundMoney(exclusiveTax + inclusiveTax),
+    exclusiveTax: roundMoney(exclusiveTax),
+    inclusiveTax: roundMoney(inclusiveTax),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Tax Service
+ * Loads jurisdiction rate tables and item tax attributes, then calculates
+ * per-item and per-jurisdiction tax lines with the tax engine
+ */
+
+import db from '../models/index.js';
+import { calculateTax } from './taxEngine.js';
+import { normalizeCountry } from './shippingRateEngine.js';
+import { convertAmount, normalizeCurrency } from './currencyConverter.js';
+
+const { Book, Product, Category, TaxRate } = db;
+
+/**
+ * Include for loading item categories alongside a book or product
+ */
+export const categoryInclude = () =>
+  Category
+    ? [
+        {
+          model: Category,
+          as: 'categories',
+          attributes: ['name', 'slug'],
+          through: { attributes: [] },
+        },
+      ]
+    : [];
+
+/**
+ * Tax attributes for a loaded book or product (load with categoryInclude for exemptions)
+ */
+export function toTaxItem(record, type, quantity = 1) {
+  const categories = [
+    record.category,
+    ...(record.categories || []).flatMap((category) => [category.slug, category.name]),
+  ].filter(Boolean);
+
+  return {
+    quantity,
+    price: type === 'book' ? record.price : record.salePrice || record.price,
+    // Books have no taxable flag; collectibles honor Product.taxable
+    taxable: type === 'book' ? true : record.taxable !== false,
+    categories,
+    currency: normalizeCurrency(record.currency),
+  };
+}
+
+/**
+ * Load tax attributes for cart-style items ({ bookId | productId, quantity })
+ */
+export async function loadTaxItems(items = [], { transaction } = {}) {
+  const taxItems = [];
+
+  for (const item of items) {
+    const quantity = parseInt(item.quantity) || 1;
+
+    if (item.bookId) {
+      const book = await Book.findByPk(item.bookId, { include: categoryInclude(), transaction });
+      if (book) taxItems.push(toTaxItem(book, 'book', quantity));
+    } else if (item.productId) {
+      const product = await Product.findByPk(item.productId, {
+        include: categoryInclude(),
+        transaction,
+      });
+      if (product) taxItems.push(toTaxItem(product, 'product', quantity));
+    }
+  }
+
+  return taxItems;
+}
+
+/**
+ * Calculate tax for items shipped to a destination
+ * @param {Array} taxItems - output of toTaxItem / loadTaxItems
+ * @param {Object} destination - { country, state, postalCode }
+ * @param {Object} options - { discount, transaction, currency, exchangeRates }
+ *   item prices are converted into `currency` when given; the discount must already be in it
+ * @returns {Object} { items, lines, totalTax, exclusiveTax, inclusiveTax }
+ */
+export async function quoteTax(
+  taxItems,
+  destination,
+  { discount = 0, transaction, currency, exchangeRates } = {},
+) {
+  const country = normalizeCountry(destination?.country);
+  const rates = country
+    ? await TaxRate.findAll({ where: { country, isActive: true }, raw: true, transaction })
+    : [];
+  const items = currency
+    ? taxItems.map((item) => ({
+        ...item,
+        price: convertAmount(item.price, item.currency, currency, exchangeRates),
+      }))
+    : taxItems;
+
+  return calculateTax(items, rates, destination, { discount });
+}
@@ -0,0 +1,59 @@
+/**
+ * Auction Namespace Handler
+ * Viewers join `auction:<id>` rooms to receive bid, outbid, extension and ended events.
+ * Rooms are public; signed-in viewers also join `user:<id>` for personal outbid alerts.
+ */
+
+export const AUCTION_NAMESPACE = '/auctions';
+
+const roomFor = (auctionId) => `auction:${auctionId}`;
+
+/**
+ * Broadcast the number of sockets currently viewing an auction
+ */
+const broadcastViewerCount = async (auctionNamespace, auctionId) => {
+  try {
+    const sockets = await auctionNamespace.in(roomFor(auctionId)).fetchSockets();
+    auctionNamespace.to(roomFor(auctionId)).emit('auction:viewers', {
+      auctionId: parseInt(auctionId),
+      viewerCount: sockets.length,
+    });
+  } catch (error) {
+    console.error('ERROR: Error broadcasting auction viewers:', error.message);
+  }
+};
+
+export default (io, authenticate) => {
+  const auctionNamespace = io.of(AUCTION_NAMESPACE);
+
+  auctionNamespace.use(authenticate);
+
+  auctionNamespace.on('connection', (socket) => {
+    if (socket.userId) {
+      socket.join(`user:${socket.userId}`);
+    }
+
+    socket.on('auction:join', async (auctionId) => {
+      if (!auctionId) return;
+      await socket.join(roomFor(auctionId));
+      await broadcastViewerCount(auctionNamespace, auctionId);
+    });
+
+    socket.on('auction:leave', async (auctionId) => {
+      if (!auctionId) return;
+      await socket.leave(roomFor(auctionId));
+      await broadcastViewerCount(auctionNamespace, auctionId);
+    });
+
+    // Rooms are still populated while disconnecting, so recount after the socket is gone
+    socket.on('disconnecting', () => {
+      const auctionIds = [...socket.rooms]
+        .filter((room) => room.startsWith('auction:'))
+        .map((room) => room.slice('auction:'.length));
+
+      setImmediate(() => {
+        auctionIds.forEach((auctionId) => broadcastViewerCount(auctionNamespace, auctionId));
+      });
+    });
+  });
+};
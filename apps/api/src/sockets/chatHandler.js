@@ -1,57 +1,156 @@
+/**
+ * Chat Namespace Handler
+ * Every socket is authenticated at the handshake, and the sender of a message is always the
+ * socket's user, never the payload. Sockets only join `conversation:<id>` rooms for conversations
+ * their user takes part in; each also joins `user:<id>` for its own events.
+ */
+
+import { Op } from 'sequelize';
 import db from '../models/index.js';
-const { Message, Conversation } = db;
+import { SOCKET_AUTH_ERRORS, msUntilExpiry } from './socketAuth.js';
+import {
+  createChatMessage,
+  markConversationRead,
+  toMessagePayload,
+} from '../services/chatMessageService.js';
+
+const { Conversation } = db;
+
+export const CHAT_NAMESPACE = '/chat';
+
+const MAX_MESSAGE_LENGTH = 5000;
+
+const roomFor = (conversationId) => `conversation:${conversationId}`;
+
+/**
+ * Whether the socket's user takes part in a conversation; remembered on the socket once true
+ */
+const canAccessConversation = async (socket, conversationId) => {
+  if (!conversationId) return false;
+
+  const key = String(conversationId);
+  if (socket.data.conversations.has(key)) return true;
+
+  const conversation = await Conversation.findOne({
+    where: {
+      id: conversationId,
+      [Op.or]: [{ userId1: socket.userId }, { userId2: socket.userId }],
+    },
+    attributes: ['id'],
+  });
+  if (conversation) socket.data.conversations.add(key);
+  return !!conversation;
+};
+
+// Answer the client's acknowledgement callback when it sent one
+const reply = (ack, payload) => {
+  if (typeof ack === 'function') ack(payload);
+};
 
-export default (io) => {
-  const chatNamespace = io.of('/chat');
+export default (io, requireAuth) => {
+  const chatNamespace = io.of(CHAT_NAMESPACE);
+
+  chatNamespace.use(requireAuth);
 
   chatNamespace.on('connection', (socket) => {
+    socket.data.conversations = new Set();
+    socket.join(`user:${socket.userId}`);
+
+    // Drop the connection when the handshake token expires; the client reconnects with a new one
+    const expiresIn = msUntilExpiry(socket.data.tokenExpiresAt);
+    const expiryTimer =
+      expiresIn !== null &&
+      setTimeout(() => {
+        socket.emit('auth:expired', { code: SOCKET_AUTH_ERRORS.expired });
+        socket.disconnect(true);
+      }, expiresIn);
+
     // Join conversation room
-    socket.on('join:conversation', (conversationId) => {
-      socket.join(`conversation:${conversationId}`);
+    socket.on('join:conversation', async (conversationId, ack) => {
+      try {
+        if (!(await canAccessConversation(socket, conversationId))) {
+          socket.emit('conversation:error', { conversationId, error: 'Conversation not found' });
+          return reply(ack, { success: false, message: 'Conversation not found' });
+        }
+
+        await socket.join(roomFor(conversationId));
+        reply(ack, { success: true });
+      } catch (error) {
+        console.error(`ERROR: Chat join failed for user ${socket.userId}:`, error.message);
+        reply(ack, { success: false, message: 'Failed to join conversation' });
+      }
     });
 
     // Leave conversation room
     socket.on('leave:conversation', (conversationId) => {
-      socket.leave(`conversation:${conversationId}`);
+      socket.leave(roomFor(conversationId));
     });
 
     // Handle new message
-    socket.on('message:send', async (data) => {
+    socket.on('message:send', async (data, ack) => {
+      const fail = (message) => {
+        socket.emit('message:error', { error: message });
+        reply(ack, { success: false, message });
+      };
+
       try {
-        const { conversationId, senderId, content } = data;
+        const { conversationId, content } = data || {};
+        const text = typeof content === 'string' ? content.trim() : '';
 
-        // Save message to database
-        const message = await Message.create({
+        if (!text) return fail('Message content is required');
+        if (text.length > MAX_MESSAGE_LENGTH) {
+          return fail(`Messages can be at most ${MAX_MESSAGE_LENGTH} characters`);
+        }
+        if (!(await canAccessConversation(socket, conversationId))) {
+          return fail('Conversation not found');
+        }
+
+        const message = await createChatMessage({
           conversationId,
-          senderId,
-          content,
+          senderId: socket.userId,
+          body: text,
         });
-
-        // Update conversation lastMessageAt
-        await Conversation.update({ lastMessageAt: new Date() }, { where: { id: conversationId } });
+        const payload = toMessagePayload(message);
 
         // Emit to all users in the conversation room
-        chatNamespace.to(`conversation:${conversationId}`).emit('message:new', {
-          id: message.id,
-          conversationId,
-          senderId,
-          content,
-          createdAt: message.createdAt,
-        });
+        chatNamespace.to(roomFor(conversationId)).emit('message:new', payload);
+        reply(ack, { success: true, data: payload });
       } catch (error) {
-        socket.emit('message:error', { error: error.message });
+        console.error(`ERROR: Chat message failed for user ${socket.userId}:`, error.message);
+        fail('Failed to send message');
       }
     });
 
-    // Typing indicator
+    // Read receipts: move the reader's cursor and tell the other participant
+    socket.on('conversation:read', async (data, ack) => {
+      try {
+        const { conversationId, messageId } = data || {};
+        if (!(await canAccessConversation(socket, conversationId))) {
+          return reply(ack, { success: false, message: 'Conversation not found' });
+        }
+
+        const receipt = await markConversationRead(conversationId, socket.userId, messageId);
+        if (receipt) chatNamespace.to(roomFor(conversationId)).emit('conversation:read', receipt);
+        reply(ack, { success: true, data: receipt });
+      } catch (error) {
+        console.error(`ERROR: Chat read failed for user ${socket.userId}:`, error.message);
+        reply(ack, { success: false, message: 'Failed to mark conversation as read' });
+      }
+    });
+
+    // Typing indicators, only to rooms the socket was allowed into
     socket.on('typing:start', (conversationId) => {
-      socket.to(`conversation:${conversationId}`).emit('typing:user', socket.id);
+      if (!socket.rooms.has(roomFor(conversationId))) return;
+      socket.to(roomFor(conversationId)).emit('typing:user', socket.userId);
     });
 
     socket.on('typing:stop', (conversationId) => {
-      socket.to(`conversation:${conversationId}`).emit('typing:stop', socket.id);
+      if (!socket.rooms.has(roomFor(conversationId))) return;
+      socket.to(roomFor(conversationId)).emit('typing:stop', socket.userId);
     });
 
-    socket.on('disconnect', () => {});
+    socket.on('disconnect', () => {
+      if (expiryTimer) clearTimeout(expiryTimer);
+    });
   });
 };
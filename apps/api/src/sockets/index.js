@@ -1,12 +1,71 @@
 import { Server } from 'socket.io';
 import { createAdapter } from '@socket.io/redis-adapter';
 import { Redis } from 'ioredis';
-import jwt from 'jsonwebtoken';
 import config from '../config/index.js';
+import db from '../models/index.js';
 import chatHandler from './chatHandler.js';
+import auctionHandler, { AUCTION_NAMESPACE } from './auctionHandler.js';
+import { SOCKET_AUTH_ERRORS, socketAuthError, verifySocketToken } from './socketAuth.js';
+
+const { User } = db;
 
 let io;
 
+const jwtSecret = () =>
+  config.jwt?.secret || process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production';
+
+/**
+ * Attach userId from the handshake token when present
+ * Connections without a token are allowed for public features; a token that fails to verify is
+ * rejected so the client refreshes it instead of silently losing its user room
+ */
+const authenticateSocket = (socket, next) => {
+  const token = socket.handshake.auth?.token;
+  if (!token) return next();
+
+  const { userId, error } = verifySocketToken(token, jwtSecret());
+  if (error) return next(socketAuthError(error, 'Authentication failed'));
+
+  socket.userId = userId;
+  next();
+};
+
+/**
+ * Like authenticateSocket, but a token that fails to verify connects as a guest
+ * For namespaces that are public at heart, where signing in only adds personal events
+ */
+const identifySocket = (socket, next) => {
+  const { userId } = verifySocketToken(socket.handshake.auth?.token, jwtSecret());
+  if (userId) socket.userId = userId;
+  next();
+};
+
+/**
+ * Require a valid handshake token from an active user; rejects everyone else
+ */
+const requireSocketAuth = async (socket, next) => {
+  const { userId, expiresAt, error } = verifySocketToken(socket.handshake.auth?.token, jwtSecret());
+  if (error) {
+    const message =
+      error === SOCKET_AUTH_ERRORS.missing ? 'Authentication required' : 'Authentication failed';
+    return next(socketAuthError(error, message));
+  }
+
+  try {
+    const user = await User.findByPk(userId, { attributes: ['id', 'status'] });
+    if (!user || user.status !== 'active') {
+      return next(socketAuthError(SOCKET_AUTH_ERRORS.inactive, 'Account is not active'));
+    }
+
+    socket.userId = user.id;
+    socket.data.tokenExpiresAt = expiresAt;
+    next();
+  } catch (err) {
+    console.error('ERROR: Socket authentication failed:', err.message);
+    next(new Error('Authentication unavailable'));
+  }
+};
+
 const initializeSocket = (httpServer) => {
   io = new Server(httpServer, {
     cors: config.cors,
@@ -54,29 +113,13 @@ const initializeSocket = (httpServer) => {
     console.log('Socket.IO running in single-server mode (no Redis)');
   }
 
-  io.use((socket, next) => {
-    const token = socket.handshake.auth.token;
-    if (!token) {
-      // Allow connection but don't set userId - user can still use public features
-      return next();
-    }
-
-    try {
-      const jwtSecret =
-        config.jwt?.secret ||
-        process.env.JWT_SECRET ||
-        'your-super-secret-jwt-key-change-in-production';
-      const decoded = jwt.verify(token, jwtSecret);
-      socket.userId = decoded.userId;
-      next();
-    } catch (error) {
-      // Invalid token - allow connection but no userId
-      next();
-    }
-  });
+  io.use(authenticateSocket);
 
   // Initialize chat namespace handler
-  chatHandler(io);
+  chatHandler(io, requireSocketAuth);
+
+  // Initialize auction namespace handler
+  auctionHandler(io, identifySocket);
 
   io.on('connection', (socket) => {
     // Join user-specific room for notification broadcasts
@@ -86,7 +129,10 @@ const initializeSocket = (httpServer) => {
     }
 
     socket.on('new_message', async (data) => {
-      const { receiverId, content } = data;
+      // Only signed-in users can relay messages, always as themselves
+      if (!socket.userId) return;
+
+      const { receiverId, content } = data || {};
       io.to(`user:${receiverId}`).emit('new_message', {
         senderId: socket.userId,
         content,
@@ -118,7 +164,7 @@ const emitNotification = (userId, eventType, notification) => {
 
   try {
     // Map notification type to UI data (matches frontend mapNotificationToUI)
-    const { type, data, id, isRead, readAt, createdAt } = notification;
+    const { type, data, id, isRead, readAt, createdAt, silent = false } = notification;
     let title, message, href, icon, color;
 
     switch (type) {
@@ -164,9 +210,118 @@ const emitNotification = (userId, eventType, notification) => {
         href = '/account/settings';
         break;
 
+      case 'SAVED_SEARCH_MATCH':
+        title = 'New Match for Your Saved Search';
+        message = data?.metadata?.itemTitle
+          ? `"${data.metadata.itemTitle}" matches "${data.metadata.savedSearchName}".`
+          : 'A new listing matches one of your saved searches.';
+        icon = 'search';
+        color = 'text-blue-600';
+        href = data?.metadata?.itemPath || '/account/saved-searches';
+        break;
+
+      case 'RARE_BOOK_REQUEST_MATCH':
+        title = 'A Book You Requested May Be Available';
+        message = data?.metadata?.itemTitle
+          ? `"${data.metadata.itemTitle}" is a ${data.metadata.confidence}% match for "${data.metadata.requestTitle}".`
+          : 'A new listing matches one of your rare book requests.';
+        icon = 'book';
+        color = 'text-green-600';
+        href = data?.metadata?.itemPath || '/account/notifications';
+        break;
+
+      case 'RARE_BOOK_REQUEST_MATCH_VENDOR':
+        title = 'Your Listing Matches a Request';
+        message = data?.metadata?.itemTitle
+          ? `"${data.metadata.itemTitle}" is a ${data.metadata.confidence}% match for "${data.metadata.requestTitle}".`
+          : 'One of your listings matches a rare book request.';
+        icon = 'book';
+        color = 'text-blue-600';
+        href = data?.metadata?.requestId
+          ? `/vendor/requests/${data.metadata.requestId}`
+          : '/vendor/requests';
+        break;
+
+      case 'PAYMENT_DISPUTE_OPENED':
+        title = 'Payment Disputed';
+        message = data?.metadata?.orderNumber
+          ? `A payment dispute was opened on order #${data.metadata.orderNumber}.`
+          : 'A payment dispute was opened.';
+        icon = 'exclamation-triangle';
+        color = 'text-red-600';
+        href = '/admin/disputes';
+        break;
+
+      case 'PAYMENT_DISPUTE_OPENED_VENDOR':
+        title = 'A Sale Was Disputed';
+        message = data?.metadata?.orderNumber
+          ? `The payment for order #${data.metadata.orderNumber} was disputed. Your earnings for it are on hold.`
+          : 'A payment was disputed. Your earnings for the sale are on hold.';
+        icon = 'exclamation-triangle';
+        color = 'text-red-600';
+        href = data?.entityId ? `/vendor/orders?highlight=${data.entityId}` : '/vendor/orders';
+        break;
+
+      case 'PAYMENT_DISPUTE_CLOSED':
+      case 'PAYMENT_DISPUTE_CLOSED_VENDOR':
+        title = data?.metadata?.resolution === 'won' ? 'Dispute Won' : 'Dispute Lost';
+        message =
+          data?.metadata?.resolution === 'won'
+            ? 'The dispute was resolved in your favor and the held earnings have been released.'
+            : 'The dispute was lost and the held earnings for this sale have been reversed.';
+        icon = 'gavel';
+        color = data?.metadata?.resolution === 'won' ? 'text-green-600' : 'text-red-600';
+        href =
+          type === 'PAYMENT_DISPUTE_CLOSED'
+            ? '/admin/disputes'
+            : data?.entityId
+              ? `/vendor/orders?highlight=${data.entityId}`
+              : '/vendor/orders';
+        break;
+
+      case 'REFUND_ISSUED':
+        title = 'Refund Issued';
+        message = data?.metadata?.orderNumber
+          ? `A refund for order #${data.metadata.orderNumber} is on its way to your original payment method.`
+          : 'A refund is on its way to your original payment method.';
+        icon = 'undo';
+        color = 'text-green-600';
+        href = data?.entityId ? `/account/orders/${data.entityId}` : '/account/orders';
+        break;
+
+      case 'REFUND_ISSUED_VENDOR':
+        title = 'Refund Issued on Your Sale';
+        message = data?.metadata?.orderNumber
+          ? `A refund was issued on order #${data.metadata.orderNumber}.`
+          : 'A refund was issued on one of your sales.';
+        icon = 'undo';
+        color = 'text-yellow-600';
+        href = data?.entityId ? `/vendor/orders/${data.entityId}` : '/vendor/orders';
+        break;
+
+      case 'REFUND_REQUESTED':
+        title = 'Refund Requested';
+        message = data?.metadata?.orderNumber
+          ? `${data.metadata.shopName || 'A vendor'} requested a refund on order #${data.metadata.orderNumber}.`
+          : 'A vendor requested a refund.';
+        icon = 'undo';
+        color = 'text-blue-600';
+        href = '/admin/orders';
+        break;
+
+      case 'REFUND_REQUEST_DECLINED':
+        title = 'Refund Request Declined';
+        message = data?.metadata?.orderNumber
+          ? `Your refund request on order #${data.metadata.orderNumber} was declined.`
+          : 'Your refund request was declined.';
+        icon = 'times-circle';
+        color = 'text-red-600';
+        href = data?.entityId ? `/vendor/orders/${data.entityId}` : '/vendor/orders';
+        break;
+
       default:
-        title = 'Notification';
-        message = 'You have a new notification.';
+        title = notification.title || 'Notification';
+        message = notification.message || 'You have a new notification.';
         icon = 'bell';
         color = 'text-gray-600';
         href = '/account/notifications';
@@ -183,6 +338,7 @@ const emitNotification = (userId, eventType, notification) => {
       href,
       icon,
       color,
+      silent, // the recipient turned pop-ups off for this type; only refresh the inbox
     };
 
     io.to(`user:${userId}`).emit(eventType, payload);
@@ -192,4 +348,30 @@ const emitNotification = (userId, eventType, notification) => {
   }
 };
 
-export { initializeSocket, getIO, emitNotification };
+/**
+ * Broadcast an auction event to everyone viewing the auction
+ */
+const emitAuctionEvent = (auctionId, eventType, payload) => {
+  if (!io || !auctionId) return;
+
+  try {
+    io.of(AUCTION_NAMESPACE).to(`auction:${auctionId}`).emit(eventType, payload);
+  } catch (error) {
+    console.error('ERROR: Error emitting auction event:', error);
+  }
+};
+
+/**
+ * Send an auction event to a single user's connections in the auction namespace
+ */
+const emitAuctionUserEvent = (userId, eventType, payload) => {
+  if (!io || !userId) return;
+
+  try {
+    io.of(AUCTION_NAMESPACE).to(`user:${userId}`).emit(eventType, payload);
+  } catch (error) {
+    console.error('ERROR: Error emitting auction user event:', error);
+  }
+};
+
+export { initializeSocket, getIO, emitNotification, emitAuctionEvent, emitAuctionUserEvent };
@@ -0,0 +1,59 @@
+/**
+ * Socket Authentication
+ * Verifies the JWT a client sends as `auth.token` in its handshake. A rejected handshake reaches
+ * the client as a connect_error whose `data.code` tells it whether refreshing its session token
+ * can help (expired or invalid) or it has to sign in again.
+ */
+
+import jwt from 'jsonwebtoken';
+
+export const SOCKET_AUTH_ERRORS = {
+  missing: 'AUTH_REQUIRED',
+  invalid: 'AUTH_INVALID',
+  expired: 'AUTH_EXPIRED',
+  inactive: 'ACCOUNT_INACTIVE',
+};
+
+// setTimeout fires immediately for delays past ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Error for a socket.io middleware to reject a handshake with
+ */
+export const socketAuthError = (code, message) => {
+  const error = new Error(message);
+  error.data = { code };
+  return error;
+};
+
+/**
+ * Verify a handshake token
+ * Returns { userId, expiresAt } (expiresAt in ms, or null) or { error } with a SOCKET_AUTH_ERRORS code
+ */
+export function verifySocketToken(token, secret) {
+  if (!token || typeof token !== 'string') return { error: SOCKET_AUTH_ERRORS.missing };
+
+  try {
+    const decoded = jwt.verify(token, secret);
+    if (!decoded.userId) return { error: SOCKET_AUTH_ERRORS.invalid };
+    return { userId: decoded.userId, expiresAt: decoded.exp ? decoded.exp * 1000 : null };
+  } catch (error) {
+    return {
+      error:
+        error.name === 'TokenExpiredError'
+          ? SOCKET_AUTH_ERRORS.expired
+          : SOCKET_AUTH_ERRORS.invalid,
+    };
+  }
+}
+
+/**
+ * Milliseconds until a verified token expires, or null when it has no expiry or expires too far
+ * off for a timer
+ */
+export function msUntilExpiry(expiresAt, now = Date.now()) {
+  if (!expiresAt) return null;
+  const ms = expiresAt - now;
+  if (ms > MAX_TIMER_MS) return null;
+  return Math.max(0, ms);
+}
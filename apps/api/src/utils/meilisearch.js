@@ -5,8 +5,19 @@
 
 import { MeiliSearch } from 'meilisearch';
 import db from '../models/index.js';
-
-const { Book, Product, Vendor, BookMedia } = db;
+import { isNewListing } from '../services/savedSearchMatcher.js';
+import { notifySavedSearchMatches } from '../services/savedSearchAlerts.js';
+import { bibliographicIndexFields } from '../services/bibliographicDetails.js';
+import { loadRateTable } from '../services/currencyService.js';
+import {
+  SEARCH_FACETS,
+  buildFacetQueries,
+  mergeFacetDistributions,
+  priceBucket,
+  publicationCentury,
+} from '../services/searchFacets.js';
+
+const { Book, Product, Vendor, BookMedia, Category, Auction } = db;
 
 // Initialize Meilisearch client
 const client = new MeiliSearch({
@@ -18,6 +29,57 @@ const client = new MeiliSearch({
 const BOOKS_INDEX = 'books';
 const PRODUCTS_INDEX = 'products';
 
+// Only published listings with stock are ever returned
+const INVENTORY_FILTERS = ['status = "published"', '(quantity > 0 OR trackQuantity = false)'];
+
+// Trade abbreviations from dealer descriptions, searched as the words they stand for
+const SYNONYMS = {
+  '1st': ['first'],
+  first: ['1st'],
+  sgd: ['signed'],
+  signed: ['sgd'],
+  dj: ['dust jacket', 'dustjacket'],
+  dustjacket: ['dj', 'dust jacket'],
+  'dust jacket': ['dj', 'dustjacket'],
+  ltd: ['limited'],
+  limited: ['ltd'],
+  insc: ['inscribed'],
+  inscribed: ['insc'],
+};
+
+const FACET_ATTRIBUTES = Object.values(SEARCH_FACETS);
+
+// Associations loaded wherever documents are built for the index
+const vendorInclude = { model: Vendor, as: 'vendor', attributes: ['id', 'shopName', 'shopUrl'] };
+const categoriesInclude = {
+  model: Category,
+  as: 'categories',
+  attributes: ['name', 'slug'],
+  through: { attributes: [] },
+};
+
+/**
+ * Currently indexed version of a document, or null when it is not in the index
+ */
+const getIndexedDocument = async (index, id) => {
+  try {
+    return await index.getDocument(id);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Alert saved searches when indexing turns a document into a new listing
+ */
+const alertSavedSearches = (type, previous, document) => {
+  if (!isNewListing(previous, document)) return;
+
+  notifySavedSearchMatches(type, document).catch((error) =>
+    console.error(`ERROR: Failed to alert saved searches for ${type} ${document.id}:`, error),
+  );
+};
+
 /**
  * Initialize indexes with settings
  */
@@ -26,7 +88,16 @@ export const initializeIndexes = async () => {
     // Books index
     const booksIndex = client.index(BOOKS_INDEX);
     await booksIndex.updateSettings({
-      searchableAttributes: ['title', 'author', 'isbn', 'description', 'category', 'tags'],
+      searchableAttributes: [
+        'title',
+        'author',
+        'isbn',
+        'description',
+        'category',
+        'tags',
+        'pointsOfIssue',
+        'provenanceOwners',
+      ],
       filterableAttributes: [
         'id',
         'vendorId',
@@ -36,11 +107,19 @@ export const initializeIndexes = async () => {
         'status',
         'quantity',
         'trackQuantity',
+        'isSigned',
         'isFeatured',
+        'firstPrinting',
+        'dustJacket',
+        'signatureType',
+        'hasProvenance',
+        'isLimited',
+        ...FACET_ATTRIBUTES,
       ],
-      sortableAttributes: ['price', 'createdAt', 'title'],
+      sortableAttributes: ['price', 'createdAt', 'title', 'menuOrder'],
       displayedAttributes: [
         'id',
+        'sid',
         'title',
         'author',
         'isbn',
@@ -56,8 +135,18 @@ export const initializeIndexes = async () => {
         'primaryImage',
         'vendor',
         'createdAt',
+        'firstPrinting',
+        'dustJacket',
+        'signatureType',
+        'isLimited',
+        'currency',
+        'publicationYear',
+        'vendorName',
+        'hasActiveAuction',
       ],
       rankingRules: ['words', 'typo', 'proximity', 'attribute', 'sort', 'exactness', 'price:asc'],
+      synonyms: SYNONYMS,
+      faceting: { maxValuesPerFacet: 100 },
     });
 
     // Products index
@@ -85,10 +174,12 @@ export const initializeIndexes = async () => {
         'isSigned',
         'isAuthenticated',
         'isFeatured',
+        ...FACET_ATTRIBUTES,
       ],
-      sortableAttributes: ['price', 'createdAt', 'title'],
+      sortableAttributes: ['price', 'createdAt', 'title', 'menuOrder'],
       displayedAttributes: [
         'id',
+        'sid',
         'title',
         'artist',
         'sku',
@@ -107,11 +198,16 @@ export const initializeIndexes = async () => {
         'origin',
         'isSigned',
         'isAuthenticated',
+        'currency',
         'primaryImage',
         'vendor',
         'createdAt',
+        'vendorName',
+        'hasActiveAuction',
       ],
       rankingRules: ['words', 'typo', 'proximity', 'attribute', 'sort', 'exactness', 'price:asc'],
+      synonyms: SYNONYMS,
+      faceting: { maxValuesPerFacet: 100 },
     });
 
     console.log('SUCCESS: Meilisearch indexes initialized successfully');
@@ -121,17 +217,42 @@ export const initializeIndexes = async () => {
   }
 };
 
+/**
+ * Ids of the listings of a type with an active auction, as strings
+ */
+const getActiveAuctionIds = async (type, ids) => {
+  const where = { auctionableType: type, status: 'active' };
+  if (ids) where.auctionableId = ids.map(String);
+  const auctions = await Auction.findAll({ where, attributes: ['auctionableId'] });
+  return new Set(auctions.map((auction) => String(auction.auctionableId)));
+};
+
+/**
+ * Facet attributes shared by book and product documents
+ * Price buckets are in the base currency, converted with the exchange rate table.
+ */
+const facetFields = (data, year, activeAuctionIds, rates) => ({
+  categorySlugs: (data.categories || []).map((category) => category.slug),
+  vendorName: data.vendor?.shopName || null,
+  priceBucket: priceBucket(data.price, data.salePrice, { currency: data.currency, rates }),
+  publicationCentury: publicationCentury(year),
+  hasActiveAuction: activeAuctionIds.has(String(data.id)),
+  menuOrder: data.menuOrder || 0,
+});
+
 /**
  * Transform book data for indexing
  */
-const transformBookForIndex = async (book) => {
+const transformBookForIndex = async (book, activeAuctionIds = new Set(), rates = {}) => {
   const bookData = book.toJSON ? book.toJSON() : book;
 
   // Get primary image from media
   const primaryImage = bookData.media?.find((img) => img.isPrimary) || bookData.media?.[0];
+  const bibliographic = bibliographicIndexFields(bookData.bibliographicDetails);
 
   return {
     id: bookData.id.toString(),
+    sid: bookData.sid || null,
     title: bookData.title || '',
     author: bookData.author || '',
     isbn: bookData.isbn || '',
@@ -145,7 +266,12 @@ const transformBookForIndex = async (book) => {
     trackQuantity: bookData.trackQuantity !== false, // Default to true
     status: bookData.status || 'draft',
     vendorId: bookData.vendorId || null,
+    isSigned: bookData.isSigned || !!bibliographic.signatureType,
     isFeatured: bookData.isFeatured || false,
+    currency: bookData.currency || 'USD',
+    publicationYear: bookData.publicationYear || null,
+    ...bibliographic,
+    ...facetFields(bookData, bookData.publicationYear, activeAuctionIds, rates),
     primaryImage: primaryImage?.url || primaryImage?.imageUrl || null,
     vendor: bookData.vendor
       ? {
@@ -162,7 +288,7 @@ const transformBookForIndex = async (book) => {
 /**
  * Transform product data for indexing
  */
-const transformProductForIndex = (product) => {
+const transformProductForIndex = (product, activeAuctionIds = new Set(), rates = {}) => {
   const productData = product.toJSON ? product.toJSON() : product;
 
   // Get primary image
@@ -170,6 +296,7 @@ const transformProductForIndex = (product) => {
 
   return {
     id: productData.id.toString(),
+    sid: productData.sid || null,
     title: productData.title || '',
     artist: productData.artist || '',
     sku: productData.sku || '',
@@ -190,6 +317,8 @@ const transformProductForIndex = (product) => {
     isSigned: productData.isSigned || false,
     isAuthenticated: productData.isAuthenticated || false,
     isFeatured: productData.isFeatured || false,
+    currency: productData.currency || 'USD',
+    ...facetFields(productData, productData.yearMade, activeAuctionIds, rates),
     primaryImage: primaryImage?.url || primaryImage?.imageUrl || null,
     vendor: productData.vendor
       ? {
@@ -210,11 +339,8 @@ export const indexBook = async (bookId) => {
   try {
     const book = await Book.findByPk(bookId, {
       include: [
-        {
-          model: Vendor,
-          as: 'vendor',
-          attributes: ['id', 'shopName', 'shopUrl'],
-        },
+        vendorInclude,
+        categoriesInclude,
         {
           model: BookMedia,
           as: 'media',
@@ -228,9 +354,15 @@ export const indexBook = async (bookId) => {
       return;
     }
 
-    const bookData = await transformBookForIndex(book);
+    const bookData = await transformBookForIndex(
+      book,
+      await getActiveAuctionIds('book', [bookId]),
+      await loadRateTable(),
+    );
     const index = client.index(BOOKS_INDEX);
+    const previous = await getIndexedDocument(index, bookData.id);
     await index.addDocuments([bookData]);
+    alertSavedSearches('book', previous, bookData);
 
     console.log(`SUCCESS: Indexed book: ${bookData.title} (${bookId})`);
   } catch (error) {
@@ -245,13 +377,7 @@ export const indexBook = async (bookId) => {
 export const indexProduct = async (productId) => {
   try {
     const product = await Product.findByPk(productId, {
-      include: [
-        {
-          model: Vendor,
-          as: 'vendor',
-          attributes: ['id', 'shopName', 'shopUrl'],
-        },
-      ],
+      include: [vendorInclude, categoriesInclude],
     });
 
     if (!product) {
@@ -259,9 +385,15 @@ export const indexProduct = async (productId) => {
       return;
     }
 
-    const productData = transformProductForIndex(product);
+    const productData = transformProductForIndex(
+      product,
+      await getActiveAuctionIds('product', [productId]),
+      await loadRateTable(),
+    );
     const index = client.index(PRODUCTS_INDEX);
+    const previous = await getIndexedDocument(index, productData.id);
     await index.addDocuments([productData]);
+    alertSavedSearches('product', previous, productData);
 
     console.log(`SUCCESS: Indexed product: ${productData.title} (${productId})`);
   } catch (error) {
@@ -277,11 +409,8 @@ export const indexAllBooks = async () => {
   try {
     const books = await Book.findAll({
       include: [
-        {
-          model: Vendor,
-          as: 'vendor',
-          attributes: ['id', 'shopName', 'shopUrl'],
-        },
+        vendorInclude,
+        categoriesInclude,
         {
           model: BookMedia,
           as: 'media',
@@ -290,7 +419,11 @@ export const indexAllBooks = async () => {
       ],
     });
 
-    const booksData = await Promise.all(books.map(transformBookForIndex));
+    const activeAuctionIds = await getActiveAuctionIds('book');
+    const rates = await loadRateTable();
+    const booksData = await Promise.all(
+      books.map((book) => transformBookForIndex(book, activeAuctionIds, rates)),
+    );
     const index = client.index(BOOKS_INDEX);
     await index.addDocuments(booksData, { primaryKey: 'id' });
 
@@ -308,16 +441,14 @@ export const indexAllBooks = async () => {
 export const indexAllProducts = async () => {
   try {
     const products = await Product.findAll({
-      include: [
-        {
-          model: Vendor,
-          as: 'vendor',
-          attributes: ['id', 'shopName', 'shopUrl'],
-        },
-      ],
+      include: [vendorInclude, categoriesInclude],
     });
 
-    const productsData = products.map(transformProductForIndex);
+    const activeAuctionIds = await getActiveAuctionIds('product');
+    const rates = await loadRateTable();
+    const productsData = products.map((product) =>
+      transformProductForIndex(product, activeAuctionIds, rates),
+    );
     const index = client.index(PRODUCTS_INDEX);
     await index.addDocuments(productsData, { primaryKey: 'id' });
 
@@ -368,13 +499,10 @@ export const search = async (query, options = {}) => {
       sort = [],
     } = options;
 
-    // Build filter to exclude sold items and items with no inventory
-    const inventoryFilters = ['status = "published"', '(quantity > 0 OR trackQuantity = false)'];
-
     // Combine with user-provided filters
     const combinedFilters = filters
-      ? `(${inventoryFilters.join(' AND ')}) AND (${filters})`
-      : inventoryFilters.join(' AND ');
+      ? `(${INVENTORY_FILTERS.join(' AND ')}) AND (${filters})`
+      : INVENTORY_FILTERS.join(' AND ');
 
     const searchOptions = {
       limit,
@@ -406,6 +534,101 @@ export const search = async (query, options = {}) => {
   }
 };
 
+/**
+ * Search books and products with facet counts
+ * filters are expressions every hit must match; selections are { facet: [values] } from
+ * parseFacetSelections. Returns { books, products, total, facets }
+ */
+export const facetedSearch = async (query, options = {}) => {
+  try {
+    const {
+      type = 'all',
+      limit = 20,
+      offset = 0,
+      filters = [],
+      selections = {},
+      sort = [],
+    } = options;
+
+    const indexes = [];
+    if (type === 'all' || type === 'books') indexes.push(BOOKS_INDEX);
+    if (type === 'all' || type === 'products') indexes.push(PRODUCTS_INDEX);
+
+    const perIndex = indexes.map((indexUid) =>
+      buildFacetQueries(indexUid, query, {
+        filters: [...INVENTORY_FILTERS, ...filters],
+        selections,
+        limit,
+        offset,
+        sort,
+      }),
+    );
+    const { results } = await client.multiSearch({ queries: perIndex.flat() });
+
+    // Split the flat results back into one list per index
+    let position = 0;
+    const resultsPerIndex = perIndex.map((queries) => {
+      const slice = results.slice(position, position + queries.length);
+      position += queries.length;
+      return slice;
+    });
+
+    const found = { books: [], products: [], total: 0 };
+    resultsPerIndex.forEach(([main], i) => {
+      found[indexes[i] === BOOKS_INDEX ? 'books' : 'products'] = main.hits;
+      found.total += main.estimatedTotalHits;
+    });
+
+    return { ...found, facets: mergeFacetDistributions(resultsPerIndex, selections) };
+  } catch (error) {
+    console.error('ERROR: Faceted search failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Typo-tolerant search within one facet's values, e.g. vendor names matching "antiquarain"
+ * Returns [{ value, count }] summed across the searched indexes
+ */
+export const searchFacetValues = async (facet, facetQuery, options = {}) => {
+  try {
+    const { type = 'all', q = '' } = options;
+    const indexes = [];
+    if (type === 'all' || type === 'books') indexes.push(BOOKS_INDEX);
+    if (type === 'all' || type === 'products') indexes.push(PRODUCTS_INDEX);
+
+    const counts = {};
+    for (const indexUid of indexes) {
+      const { facetHits } = await client.index(indexUid).searchForFacetValues({
+        facetName: SEARCH_FACETS[facet],
+        facetQuery,
+        q,
+        filter: INVENTORY_FILTERS,
+      });
+      for (const hit of facetHits) counts[hit.value] = (counts[hit.value] || 0) + hit.count;
+    }
+
+    return Object.entries(counts)
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count);
+  } catch (error) {
+    console.error(`ERROR: Facet value search failed for ${facet}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Reindex the listing an auction is for, so its active-auction facet follows the auction
+ */
+export const reindexAuctionItem = async (auction) => {
+  try {
+    if (auction.auctionableType === 'book') await indexBook(auction.auctionableId);
+    else if (auction.auctionableType === 'product') await indexProduct(auction.auctionableId);
+  } catch (error) {
+    console.error(`ERROR: Failed to reindex item for auction ${auction.id}:`, error);
+  }
+};
+
 /**
  * Get Meilisearch client
  */
@@ -420,5 +643,8 @@ export default {
   removeBookFromIndex,
   removeProductFromIndex,
   search,
+  facetedSearch,
+  searchFacetValues,
+  reindexAuctionItem,
   getMeiliClient,
 };
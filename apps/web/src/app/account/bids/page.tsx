@@ -102,7 +102,19 @@ export default function AccountBidsPage() {
                 </div>
               </div>
               <div className="border-t pt-4 flex justify-between items-center">
-                <p className="font-medium">Your bid: {formatMoney(bid.amount)}</p>
+                <div>
+                  <p className="font-medium">
+                    Your bid: {formatMoney(bid.amount)}
+                    {bid.isAutoBid && (
+                      <span className="ml-2 text-xs text-blue-700 font-normal">(auto-bid)</span>
+                    )}
+                  </p>
+                  {bid.maxBidAmount && (
+                    <p className="text-sm text-gray-500">
+                      Your maximum: {formatMoney(bid.maxBidAmount)}
+                    </p>
+                  )}
+                </div>
                 <Link
                   href={withBasePath(`/auctions/${bid.auctionId}`)}
                   className="text-primary hover:text-secondary"
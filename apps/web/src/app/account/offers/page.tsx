@@ -16,7 +16,9 @@ interface Offer {
   originalPrice: string;
   offerPrice: string;
   message: string | null;
-  status: 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+  status: 'pending' | 'accepted' | 'declined' | 'countered' | 'expired' | 'cancelled';
+  initiatedBy: 'vendor' | 'buyer';
+  conversationId: string | null; // item conversation the offer is negotiated in
   expiresAt: string | null;
   createdAt: string;
   vendor: {
@@ -93,6 +95,7 @@ export default function UserOffersPage() {
       pending: 'bg-yellow-100 text-yellow-800',
       accepted: 'bg-green-100 text-green-800',
       declined: 'bg-red-100 text-red-800',
+      countered: 'bg-blue-100 text-blue-800',
       expired: 'bg-gray-100 text-gray-800',
       cancelled: 'bg-gray-100 text-gray-800',
     };
@@ -142,6 +145,7 @@ export default function UserOffersPage() {
             <option value="pending">Pending</option>
             <option value="accepted">Accepted</option>
             <option value="declined">Declined</option>
+            <option value="countered">Countered</option>
             <option value="all">All</option>
           </select>
         </div>
@@ -244,7 +248,10 @@ export default function UserOffersPage() {
                     )}
 
                     <div className="mt-4 flex flex-wrap items-center gap-4">
-                      {offer.status === 'pending' && !expired && (
+                      {offer.status === 'pending' && !expired && offer.initiatedBy === 'buyer' && (
+                        <span className="text-sm text-gray-500">Waiting for the seller</span>
+                      )}
+                      {offer.status === 'pending' && !expired && offer.initiatedBy === 'vendor' && (
                         <>
                           <button
                             onClick={() =>
@@ -276,6 +283,17 @@ export default function UserOffersPage() {
                           Buy Now at ${offer.offerPrice}
                         </Link>
                       )}
+                      {offer.vendor && (
+                        <Link
+                          href={`/chat?vendorId=${offer.vendor.id}&itemType=${offer.itemType}&itemId=${offer.itemId}`}
+                          className="text-sm text-primary hover:underline"
+                        >
+                          <FontAwesomeIcon icon={['fal', 'comments']} className="mr-1" />
+                          {offer.status === 'pending' && !expired
+                            ? 'Counter in chat'
+                            : 'Open in chat'}
+                        </Link>
+                      )}
                     </div>
 
                     <div className="mt-3 text-xs text-gray-500">
@@ -16,7 +16,11 @@ import { getApiUrl } from '@/lib/api';
 import { withBasePath } from '@/lib/path-utils';
 import PageLoading from '@/components/ui/PageLoading';
 import InlineError from '@/components/ui/InlineError';
+import RefundTimeline from '@/components/orders/RefundTimeline';
 import { formatMoney } from '@/lib/format';
+import { TaxLine } from '@/types/Tax';
+import { OrderShipment } from '@/types';
+import { OrderRefund } from '@/types/OrderRefund';
 
 export default function AccountOrderDetailPage() {
   const { data: session, status } = useSession();
@@ -98,6 +102,7 @@ export default function AccountOrderDetailPage() {
     const colors: Record<string, string> = {
       pending: 'bg-yellow-100 text-yellow-800',
       processing: 'bg-blue-100 text-blue-800',
+      partially_shipped: 'bg-indigo-100 text-indigo-800',
       shipped: 'bg-purple-100 text-purple-800',
       delivered: 'bg-green-100 text-green-800',
       cancelled: 'bg-red-100 text-red-800',
@@ -106,6 +111,48 @@ export default function AccountOrderDetailPage() {
     return colors[status] || 'bg-gray-100 text-gray-800';
   };
 
+  // Orders are recorded and charged in their settlement currency
+  const money = (amount: number | string) => formatMoney(amount, { currency: order.currency });
+
+  const renderItem = (item: any) => {
+    const book = item.book || item.product;
+    const imageUrl = book?.media?.[0]?.imageUrl || book?.imageUrl || book?.images?.[0]?.url;
+    return (
+      <div key={item.id} className="flex items-start gap-4 pb-4 border-b last:border-b-0 last:pb-0">
+        <div className="w-20 h-28 flex-shrink-0 overflow-hidden rounded">
+          <CloudinaryImage
+            src={imageUrl}
+            alt={book?.title || 'Item'}
+            width={160}
+            height={224}
+            className="w-full h-full object-cover"
+            fallbackIcon={['fal', 'book']}
+          />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-medium text-gray-900">{book?.title}</h3>
+          {book?.author && <p className="text-sm text-gray-600">by {book.author}</p>}
+          <p className="text-sm text-gray-500 mt-1">Quantity: {item.quantity}</p>
+          <p className="text-sm font-semibold text-gray-900 mt-2">{money(item.price)} each</p>
+        </div>
+        <div className="text-right">
+          <p className="font-semibold text-gray-900">
+            {money(parseFloat(item.price) * item.quantity)}
+          </p>
+        </div>
+      </div>
+    );
+  };
+
+  const shipments: OrderShipment[] = order.shipments || [];
+  const refunds: OrderRefund[] = order.refunds || [];
+  const refundedTotal = refunds
+    .filter((refund) => refund.status === 'succeeded')
+    .reduce((sum, refund) => sum + parseFloat(String(refund.amount)), 0);
+  const unshippedItems = (order.items || []).filter(
+    (item: any) => !shipments.some((shipment) => shipment.id === item.shipmentId),
+  );
+
   return (
     <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Back Button */}
@@ -130,7 +177,7 @@ export default function AccountOrderDetailPage() {
             <span
               className={`px-4 py-2 rounded-full text-sm font-medium ${getStatusColor(order.status)}`}
             >
-              {order.status.toUpperCase()}
+              {order.status.replace('_', ' ').toUpperCase()}
             </span>
           </div>
         </div>
@@ -139,47 +186,52 @@ export default function AccountOrderDetailPage() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
-          {/* Order Items */}
-          <div className="bg-white border border-gray-200 rounded-lg p-6">
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">Order Items</h2>
-            <div className="space-y-4">
-              {order.items?.map((item: any) => {
-                const book = item.book || item.product;
-                const imageUrl =
-                  book?.media?.[0]?.imageUrl || book?.imageUrl || book?.images?.[0]?.url;
-                return (
-                  <div
-                    key={item.id}
-                    className="flex items-start gap-4 pb-4 border-b last:border-b-0 last:pb-0"
-                  >
-                    <div className="w-20 h-28 flex-shrink-0 overflow-hidden rounded">
-                      <CloudinaryImage
-                        src={imageUrl}
-                        alt={book?.title || 'Item'}
-                        width={160}
-                        height={224}
-                        className="w-full h-full object-cover"
-                        fallbackIcon={['fal', 'book']}
-                      />
-                    </div>
-                    <div className="flex-1">
-                      <h3 className="font-medium text-gray-900">{book?.title}</h3>
-                      {book?.author && <p className="text-sm text-gray-600">by {book.author}</p>}
-                      <p className="text-sm text-gray-500 mt-1">Quantity: {item.quantity}</p>
-                      <p className="text-sm font-semibold text-gray-900 mt-2">
-                        {formatMoney(item.price)} each
-                      </p>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-semibold text-gray-900">
-                        {formatMoney(parseFloat(item.price) * item.quantity)}
-                      </p>
-                    </div>
+          {/* Order Items, grouped into one shipment per seller */}
+          {shipments.map((shipment) => (
+            <div key={shipment.id} className="bg-white border border-gray-200 rounded-lg p-6">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  Shipped by {shipment.vendor?.shopName || 'Seller'}
+                </h2>
+                <span
+                  className={`self-start px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(shipment.status)}`}
+                >
+                  {shipment.status.toUpperCase()}
+                </span>
+              </div>
+              {shipment.trackingNumber && (
+                <div className="bg-blue-50 rounded px-4 py-3 mb-4 flex items-start gap-3">
+                  <FontAwesomeIcon icon={['fal', 'shipping-fast']} className="text-blue-900 mt-1" />
+                  <div>
+                    <p className="text-sm text-gray-600">
+                      {shipment.carrier ? `${shipment.carrier} tracking` : 'Tracking number'}
+                    </p>
+                    <p className="font-mono font-semibold text-gray-900">
+                      {shipment.trackingNumber}
+                    </p>
                   </div>
-                );
-              })}
+                </div>
+              )}
+              {(shipment.shippedAt || shipment.deliveredAt) && (
+                <p className="text-sm text-gray-500 mb-4">
+                  {shipment.shippedAt && `Shipped ${formatDate(shipment.shippedAt)}`}
+                  {shipment.shippedAt && shipment.deliveredAt && ' · '}
+                  {shipment.deliveredAt && `Delivered ${formatDate(shipment.deliveredAt)}`}
+                </p>
+              )}
+              <div className="space-y-4">
+                {order.items
+                  ?.filter((item: any) => item.shipmentId === shipment.id)
+                  .map(renderItem)}
+              </div>
             </div>
-          </div>
+          ))}
+          {unshippedItems.length > 0 && (
+            <div className="bg-white border border-gray-200 rounded-lg p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Order Items</h2>
+              <div className="space-y-4">{unshippedItems.map(renderItem)}</div>
+            </div>
+          )}
 
           {/* Shipping Info */}
           {order.shippingAddress && (
@@ -201,8 +253,8 @@ export default function AccountOrderDetailPage() {
             </div>
           )}
 
-          {/* Tracking Info */}
-          {order.trackingNumber && (
+          {/* Tracking Info (orders placed before per-seller shipments) */}
+          {shipments.length === 0 && order.trackingNumber && (
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
               <h2 className="text-lg font-semibold text-blue-900 mb-3 flex items-center gap-2">
                 <FontAwesomeIcon icon={['fal', 'shipping-fast']} />
@@ -216,6 +268,17 @@ export default function AccountOrderDetailPage() {
               </div>
             </div>
           )}
+
+          {/* Refunds */}
+          {refunds.length > 0 && (
+            <div className="bg-white border border-gray-200 rounded-lg p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <FontAwesomeIcon icon={['fal', 'undo']} />
+                Refunds
+              </h2>
+              <RefundTimeline refunds={refunds} currency={order.currency} viewer="buyer" />
+            </div>
+          )}
         </div>
 
         {/* Sidebar */}
@@ -226,20 +289,47 @@ export default function AccountOrderDetailPage() {
             <div className="space-y-3">
               <div className="flex justify-between text-gray-600">
                 <span>Subtotal</span>
-                <span>{formatMoney(order.subtotal)}</span>
+                <span>{money(order.subtotal)}</span>
               </div>
               <div className="flex justify-between text-gray-600">
                 <span>Shipping</span>
-                <span>{formatMoney(order.shippingCost)}</span>
-              </div>
-              <div className="flex justify-between text-gray-600">
-                <span>Tax</span>
-                <span>{formatMoney(order.tax)}</span>
+                <span>{money(order.shippingCost)}</span>
               </div>
+              {order.taxLines?.length > 0 ? (
+                order.taxLines.map((line: TaxLine) => (
+                  <div
+                    key={`${line.jurisdiction}-${line.name}`}
+                    className="flex justify-between text-gray-600"
+                  >
+                    <span>
+                      {line.name}
+                      {line.inclusive && ' (included)'}
+                    </span>
+                    <span>{money(line.amount)}</span>
+                  </div>
+                ))
+              ) : (
+                <div className="flex justify-between text-gray-600">
+                  <span>Tax</span>
+                  <span>{money(order.tax)}</span>
+                </div>
+              )}
               <div className="border-t pt-3 flex justify-between font-semibold text-lg">
                 <span>Total</span>
-                <span className="text-primary">{formatMoney(order.totalAmount)}</span>
+                <span className="text-primary">{money(order.totalAmount)}</span>
               </div>
+              {refundedTotal > 0 && (
+                <>
+                  <div className="flex justify-between text-green-700">
+                    <span>Refunded</span>
+                    <span>-{money(refundedTotal)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold text-gray-900">
+                    <span>Net paid</span>
+                    <span>{money(parseFloat(order.totalAmount) - refundedTotal)}</span>
+                  </div>
+                </>
+              )}
             </div>
           </div>
 
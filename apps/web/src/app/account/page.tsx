@@ -100,6 +100,11 @@ export default function AccountPage() {
       description: 'View and manage your saved books',
       icon: ['fal', 'heart'] as [string, string],
     },
+    {
+      title: 'Saved Searches',
+      href: '/account/saved-searches',
+      description: 'Get alerted when new listings match your searches',
+    },
     {
       title: t('orders'),
       href: '/account/orders',
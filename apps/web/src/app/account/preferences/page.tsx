@@ -3,22 +3,39 @@
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useTranslations } from '@/lib/clientTranslations';
 import toast from 'react-hot-toast';
 import LanguageSelector from '@/components/common/LanguageSelector';
 import api from '@/lib/api';
 import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
 import PhoneInput from '@/components/forms/PhoneInput';
+import NotificationPreferenceMatrix, {
+  DIGEST_LABELS,
+} from '@/components/account/NotificationPreferenceMatrix';
+import type {
+  NotificationChannel,
+  NotificationDigestMode,
+  NotificationPreferenceCenter,
+  NotificationPreferenceChanges,
+} from '@/types/NotificationPreferences';
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const timeZoneOptions = (current: string) => {
+  const zones =
+    typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return Array.from(new Set([current, browserTimeZone(), 'UTC', ...zones]));
+};
 
 export default function PreferencesPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
+  const queryClient = useQueryClient();
   const t = useTranslations('preferences'); // i18n: language-preference fix
   const [formData, setFormData] = useState({
     emailNotifications: true,
-    bidAlerts: true,
-    auctionReminders: true,
-    newsletter: true,
+    marketingEmails: false,
     smsNotifications: false,
     currency: 'USD',
     language: 'en',
@@ -30,6 +47,17 @@ export default function PreferencesPage() {
   const [sendingCode, setSendingCode] = useState(false);
   const [verifying, setVerifying] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [preferenceCenter, setPreferenceCenter] = useState<NotificationPreferenceCenter | null>(
+    null,
+  );
+  const [preferenceChanges, setPreferenceChanges] = useState<NotificationPreferenceChanges>({});
+  const [schedule, setSchedule] = useState({
+    notificationDigest: '' as NotificationDigestMode | '',
+    quietHoursEnabled: false,
+    quietStart: '22:00',
+    quietEnd: '07:00',
+    timezone: 'UTC',
+  });
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -42,7 +70,7 @@ export default function PreferencesPage() {
 
   const loadUserPreferences = async () => {
     try {
-      const { data } = await api.get('/user/me');
+      const { data } = await api.get('/users/me');
       if (data.success && data.data) {
         const user = data.data;
         const meta = user.metadata || {};
@@ -50,17 +78,44 @@ export default function PreferencesPage() {
         setFormData((prev) => ({
           ...prev,
           emailNotifications: user.emailNotifications !== false,
+          marketingEmails: user.marketingEmails === true,
           smsNotifications: meta.smsOptIn === true,
+          currency: user.currency || prev.currency,
         }));
 
         setPhoneNumber(user.phoneNumber || '');
-        setPhoneVerified(meta.phoneVerified === true);
+        setPhoneVerified(meta.smsVerified === true || meta.phoneVerified === true);
       }
+      await loadPreferenceCenter();
     } catch (error) {
       console.error('Failed to load preferences:', error);
     }
   };
 
+  const applyPreferenceCenter = (center: NotificationPreferenceCenter) => {
+    setPreferenceCenter(center);
+    setSchedule((prev) => ({
+      notificationDigest: center.notificationDigest || '',
+      quietHoursEnabled: !!center.quietHours,
+      quietStart: center.quietHours?.start || prev.quietStart,
+      quietEnd: center.quietHours?.end || prev.quietEnd,
+      timezone: center.timezone || 'UTC',
+    }));
+  };
+
+  const loadPreferenceCenter = async () => {
+    const { data } = await api.get('/users/notification-preferences');
+    if (data.success) applyPreferenceCenter(data.data);
+  };
+
+  const handlePreferenceChange = (type: string, channel: NotificationChannel, enabled: boolean) => {
+    setPreferenceChanges((prev) => ({ ...prev, [type]: { ...prev[type], [channel]: enabled } }));
+  };
+
+  const handleDigestChange = (type: string, mode: NotificationDigestMode) => {
+    setPreferenceChanges((prev) => ({ ...prev, [type]: { ...prev[type], digest: mode } }));
+  };
+
   const handleSendCode = async () => {
     if (!phoneNumber || phoneNumber.length < 10) {
       toast.error('Please enter a valid phone number');
@@ -98,6 +153,7 @@ export default function PreferencesPage() {
         toast.success('Phone verified! SMS notifications enabled.');
         setCodeSent(false);
         setVerificationCode('');
+        loadPreferenceCenter().catch(() => {});
       } else {
         toast.error(data.message || 'Invalid verification code');
       }
@@ -120,6 +176,7 @@ export default function PreferencesPage() {
       if (data.success) {
         setFormData((prev) => ({ ...prev, smsNotifications: enabled }));
         toast.success(enabled ? 'SMS notifications enabled' : 'SMS notifications disabled');
+        setPreferenceCenter((prev) => prev && { ...prev, smsEligible: enabled });
       }
     } catch (error: any) {
       toast.error(error.response?.data?.message || 'Failed to update SMS preference');
@@ -133,15 +190,26 @@ export default function PreferencesPage() {
     try {
       const res = await api.patch(`/users/${(session?.user as any)?.id}`, {
         emailNotifications: formData.emailNotifications,
-        metadata: {
-          bidAlerts: formData.bidAlerts,
-          auctionReminders: formData.auctionReminders,
-          newsletter: formData.newsletter,
-        },
+        marketingEmails: formData.marketingEmails,
         currency: formData.currency,
         defaultLanguage: formData.language,
       });
+      if (preferenceCenter) {
+        const { data } = await api.put('/users/notification-preferences', {
+          preferences: preferenceChanges,
+          notificationDigest: schedule.notificationDigest || null,
+          quietHours: schedule.quietHoursEnabled
+            ? { start: schedule.quietStart, end: schedule.quietEnd }
+            : null,
+          timezone: schedule.timezone,
+        });
+        if (data.success) {
+          applyPreferenceCenter(data.data);
+          setPreferenceChanges({});
+        }
+      }
       if (res.data?.success) {
+        queryClient.invalidateQueries({ queryKey: ['preferred-currency'] });
         toast.success('Preferences updated successfully!');
       }
     } catch (error: any) {
@@ -182,34 +250,126 @@ export default function PreferencesPage() {
             </label>
 
             <label className="flex items-center justify-between">
-              <span className="text-gray-700">{t('bidAlerts')}</span>
+              <span className="text-gray-700">{t('newsletter')}</span>
               <input
                 type="checkbox"
-                checked={formData.bidAlerts}
-                onChange={(e) => setFormData({ ...formData, bidAlerts: e.target.checked })}
+                checked={formData.marketingEmails}
+                onChange={(e) => setFormData({ ...formData, marketingEmails: e.target.checked })}
                 className="text-base text-secondary focus:ring-secondary border-gray-300"
               />
             </label>
 
-            <label className="flex items-center justify-between">
-              <span className="text-gray-700">{t('auctionReminders')}</span>
-              <input
-                type="checkbox"
-                checked={formData.auctionReminders}
-                onChange={(e) => setFormData({ ...formData, auctionReminders: e.target.checked })}
-                className="text-base text-secondary focus:ring-secondary border-gray-300"
-              />
-            </label>
+            {/* Channels per notification type */}
+            {preferenceCenter && (
+              <div className="pt-4 mt-4 border-t border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">
+                  What We Notify You About
+                </h3>
+                <p className="text-sm text-gray-600 mb-3">
+                  Choose how you hear about each kind of update. Pop-ups appear while you are on the
+                  site.
+                </p>
+                <NotificationPreferenceMatrix
+                  center={preferenceCenter}
+                  changes={preferenceChanges}
+                  emailEnabled={formData.emailNotifications}
+                  onChange={handlePreferenceChange}
+                  onDigestChange={handleDigestChange}
+                />
+              </div>
+            )}
 
-            <label className="flex items-center justify-between">
-              <span className="text-gray-700">{t('newsletter')}</span>
-              <input
-                type="checkbox"
-                checked={formData.newsletter}
-                onChange={(e) => setFormData({ ...formData, newsletter: e.target.checked })}
-                className="text-base text-secondary focus:ring-secondary border-gray-300"
-              />
-            </label>
+            {/* Email frequency and quiet hours */}
+            {preferenceCenter && (
+              <div className="pt-4 mt-4 border-t border-gray-200 space-y-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-1">Email Digests</h3>
+                  <p className="text-sm text-gray-600 mb-3">
+                    Get one summary email instead of an email for every outbid, offer or order.
+                    Account and payment emails always arrive right away.
+                  </p>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Default email frequency
+                  </label>
+                  <select
+                    value={schedule.notificationDigest}
+                    onChange={(e) =>
+                      setSchedule({
+                        ...schedule,
+                        notificationDigest: e.target.value as NotificationDigestMode | '',
+                      })
+                    }
+                    disabled={!formData.emailNotifications}
+                    className="w-full px-4 py-2 border border-gray-300 focus:ring-2 focus:ring-secondary focus:border-secondary disabled:opacity-50"
+                  >
+                    <option value="">Recommended for each kind of update</option>
+                    {preferenceCenter.digestModes.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {DIGEST_LABELS[mode]}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Choices made for a single kind of update above take priority. Digests are sent
+                    at 8:00 AM, weekly ones on Mondays.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="flex items-center justify-between">
+                    <span className="text-gray-700 font-medium">Quiet hours</span>
+                    <input
+                      type="checkbox"
+                      checked={schedule.quietHoursEnabled}
+                      onChange={(e) =>
+                        setSchedule({ ...schedule, quietHoursEnabled: e.target.checked })
+                      }
+                      className="text-base text-secondary focus:ring-secondary border-gray-300"
+                    />
+                  </label>
+                  <p className="text-xs text-gray-600 mt-1">
+                    No texts and no emails other than account and payment updates during these
+                    hours. Emails wait until quiet hours end.
+                  </p>
+                  {schedule.quietHoursEnabled && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                      From
+                      <input
+                        type="time"
+                        value={schedule.quietStart}
+                        onChange={(e) => setSchedule({ ...schedule, quietStart: e.target.value })}
+                        className="px-3 py-1 border border-gray-300 focus:ring-2 focus:ring-secondary focus:border-secondary"
+                      />
+                      to
+                      <input
+                        type="time"
+                        value={schedule.quietEnd}
+                        onChange={(e) => setSchedule({ ...schedule, quietEnd: e.target.value })}
+                        className="px-3 py-1 border border-gray-300 focus:ring-2 focus:ring-secondary focus:border-secondary"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Time zone</label>
+                  <select
+                    value={schedule.timezone}
+                    onChange={(e) => setSchedule({ ...schedule, timezone: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 focus:ring-2 focus:ring-secondary focus:border-secondary"
+                  >
+                    {timeZoneOptions(schedule.timezone).map((zone) => (
+                      <option key={zone} value={zone}>
+                        {zone}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Digests and quiet hours follow this time zone.
+                  </p>
+                </div>
+              </div>
+            )}
 
             {/* SMS Notifications Section */}
             <div className="pt-4 mt-4 border-t border-gray-200">
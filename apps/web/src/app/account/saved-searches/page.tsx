@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import {
+  useSavedSearches,
+  useUpdateSavedSearch,
+  useDeleteSavedSearch,
+} from '@/hooks/useSavedSearches';
+import { formatDate, formatMoney } from '@/lib/format';
+import type { SavedSearch } from '@/types/SavedSearch';
+
+// Human-readable chips for a saved search's query and filters
+const describeFilters = (search: SavedSearch): string[] => {
+  const { filters } = search;
+  const chips: string[] = [];
+
+  if (search.query) chips.push(`"${search.query}"`);
+  if (filters.type) chips.push(filters.type === 'book' ? 'Books' : 'Collectibles');
+  if (filters.author) chips.push(`Author: ${filters.author}`);
+  if (filters.category) chips.push(`Category: ${filters.category}`);
+  if (filters.condition) chips.push(`Condition: ${filters.condition}`);
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined) {
+    chips.push(`${formatMoney(filters.minPrice)} – ${formatMoney(filters.maxPrice)}`);
+  } else if (filters.minPrice !== undefined) {
+    chips.push(`From ${formatMoney(filters.minPrice)}`);
+  } else if (filters.maxPrice !== undefined) {
+    chips.push(`Up to ${formatMoney(filters.maxPrice)}`);
+  }
+  if (filters.signed) chips.push('Signed');
+
+  return chips;
+};
+
+export default function SavedSearchesPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const { data: savedSearches = [], isLoading } = useSavedSearches();
+  const updateMutation = useUpdateSavedSearch();
+  const deleteMutation = useDeleteSavedSearch();
+
+  if (status === 'loading') {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  if (status === 'unauthenticated') {
+    router.push('/auth/login');
+    return null;
+  }
+
+  const startRename = (search: SavedSearch) => {
+    setEditingId(search.id);
+    setEditName(search.name);
+  };
+
+  const saveRename = (search: SavedSearch) => {
+    const name = editName.trim();
+    if (name && name !== search.name) {
+      updateMutation.mutate({ id: search.id, name });
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (search: SavedSearch) => {
+    if (confirm(`Delete "${search.name}"? You will stop receiving alerts for it.`)) {
+      deleteMutation.mutate(search.id);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-primary mb-2">Saved Searches</h1>
+        <p className="text-gray-600">
+          We&apos;ll notify you when a new listing matches one of your searches
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12">Loading saved searches...</div>
+      ) : savedSearches.length === 0 ? (
+        <div className="bg-white border border-gray-200 p-8 text-center">
+          <FontAwesomeIcon icon={['fal', 'search']} className="text-4xl text-gray-300 mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No saved searches yet</h3>
+          <p className="text-gray-600">
+            Use &quot;Save Search&quot; in the search window to get alerts for new listings.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {savedSearches.map((search) => (
+            <div key={search.id} className="bg-white border border-gray-200 p-4 sm:p-6">
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  {editingId === search.id ? (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        saveRename(search);
+                      }}
+                      className="flex gap-2"
+                    >
+                      <input
+                        type="text"
+                        value={editName}
+                        maxLength={120}
+                        autoFocus
+                        onChange={(e) => setEditName(e.target.value)}
+                        className="flex-1 px-3 py-1.5 border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+                      />
+                      <button
+                        type="submit"
+                        className="px-3 py-1.5 bg-primary text-white text-sm hover:bg-secondary"
+                      >
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="px-3 py-1.5 border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <h3 className="font-semibold text-gray-900 truncate">{search.name}</h3>
+                  )}
+
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {describeFilters(search).map((chip) => (
+                      <span key={chip} className="px-2 py-1 text-xs bg-gray-100 text-gray-700">
+                        {chip}
+                      </span>
+                    ))}
+                  </div>
+
+                  <p className="mt-2 text-xs text-gray-500">
+                    Saved {formatDate(search.createdAt)}
+                    {search.lastAlertedAt &&
+                      ` · Last match ${formatDate(search.lastAlertedAt, { format: 'relative' })}`}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={search.alertsEnabled}
+                      disabled={updateMutation.isPending}
+                      onChange={(e) =>
+                        updateMutation.mutate({ id: search.id, alertsEnabled: e.target.checked })
+                      }
+                      className="w-4 h-4"
+                    />
+                    Alerts
+                  </label>
+                  <button
+                    onClick={() => startRename(search)}
+                    className="text-gray-500 hover:text-primary"
+                    title="Rename"
+                  >
+                    <FontAwesomeIcon icon={['fal', 'edit']} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(search)}
+                    disabled={deleteMutation.isPending}
+                    className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                    title="Delete"
+                  >
+                    <FontAwesomeIcon icon={['fal', 'trash']} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import api from '@/lib/api';
+import { formatDate, formatMoney } from '@/lib/format';
+import { EvidenceUrgency, PaymentDispute, PaymentDisputeStats } from '@/types/PaymentDispute';
+
+const URGENCY_STYLES: Record<EvidenceUrgency, string> = {
+  overdue: 'bg-red-100 text-red-800',
+  due_soon: 'bg-yellow-100 text-yellow-800',
+  open: 'bg-gray-100 text-gray-700',
+};
+
+const URGENCY_LABELS: Record<EvidenceUrgency, string> = {
+  overdue: 'Overdue',
+  due_soon: 'Due soon',
+  open: 'Open',
+};
+
+const humanize = (value: string | null) => (value ? value.replace(/_/g, ' ') : '—');
+
+export default function DisputesPage() {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<'open' | 'closed'>('open');
+  const [page, setPage] = useState(1);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [notes, setNotes] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin-disputes', status, page],
+    queryFn: async () => {
+      const { data } = await api.get('/admin/disputes', { params: { status, page, limit: 20 } });
+      return data.data as {
+        disputes: PaymentDispute[];
+        stats: PaymentDisputeStats;
+        pagination: { total: number; page: number; totalPages: number };
+      };
+    },
+  });
+
+  const notesMutation = useMutation({
+    mutationFn: async ({ id, adminNotes }: { id: number; adminNotes: string }) => {
+      await api.patch(`/admin/disputes/${id}/notes`, { adminNotes });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-disputes'] });
+      setEditingId(null);
+    },
+    onError: (error: any) => {
+      alert(error.response?.data?.error || 'Failed to save notes');
+    },
+  });
+
+  const disputes = data?.disputes || [];
+  const stats = data?.stats;
+  const pagination = data?.pagination;
+
+  return (
+    <div className="p-3 sm:p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Payment Disputes</h1>
+        <p className="text-gray-600 mt-1">
+          Disputes opened through Stripe. Vendor earnings for a disputed sale are held until the
+          dispute closes. Submit evidence in the Stripe dashboard before the deadline.
+        </p>
+      </div>
+
+      {/* Stats */}
+      {stats && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+          <div className="bg-white shadow p-4">
+            <p className="text-sm text-gray-500">Open disputes</p>
+            <p className="text-2xl font-bold text-gray-900">{stats.open}</p>
+          </div>
+          <div className="bg-white shadow p-4">
+            <p className="text-sm text-gray-500">Evidence due within 3 days</p>
+            <p
+              className={`text-2xl font-bold ${stats.dueSoon > 0 ? 'text-red-600' : 'text-gray-900'}`}
+            >
+              {stats.dueSoon}
+            </p>
+          </div>
+          <div className="bg-white shadow p-4">
+            <p className="text-sm text-gray-500">Amount in dispute</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {formatMoney(stats.openAmount, { decimals: 2 })}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="flex gap-2 mb-4">
+        {(['open', 'closed'] as const).map((tab) => (
+          <button
+            key={tab}
+            onClick={() => {
+              setStatus(tab);
+              setPage(1);
+            }}
+            className={`px-4 py-2 text-sm capitalize ${status === tab ? 'bg-primary text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+          >
+            {tab}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <FontAwesomeIcon icon={['fal', 'spinner-third']} spin className="text-4xl text-primary" />
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Order', 'Amount', 'Reason', 'Status', 'Evidence Due', 'Earnings Held', ''].map(
+                    (heading) => (
+                      <th
+                        key={heading}
+                        className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    ),
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {disputes.map((dispute) => (
+                  <tr key={dispute.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-3 sm:px-6 py-4 text-sm">
+                      <p className="font-medium text-gray-900">
+                        {dispute.order ? `#${dispute.order.orderNumber}` : 'Unmatched charge'}
+                      </p>
+                      <p className="text-gray-500">
+                        {dispute.order?.user?.email || dispute.stripeChargeId}
+                      </p>
+                      <p className="text-gray-400 text-xs">
+                        Opened {formatDate(dispute.createdAt)}
+                      </p>
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatMoney(dispute.amount, { currency: dispute.currency, decimals: 2 })}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-700 capitalize">
+                      {humanize(dispute.reason)}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm">
+                      <span className="capitalize text-gray-900">{humanize(dispute.status)}</span>
+                      {dispute.resolution && (
+                        <span
+                          className={`ml-2 px-2 py-0.5 text-xs rounded-full ${dispute.resolution === 'won' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}
+                        >
+                          {dispute.resolution === 'won' ? 'Won' : 'Lost'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm">
+                      {dispute.evidenceDueBy ? (
+                        <div className="flex items-center gap-2">
+                          <span className="text-gray-700">
+                            {formatDate(dispute.evidenceDueBy, { includeTime: true })}
+                          </span>
+                          {dispute.evidenceUrgency && (
+                            <span
+                              className={`px-2 py-0.5 text-xs rounded-full ${URGENCY_STYLES[dispute.evidenceUrgency]}`}
+                            >
+                              {URGENCY_LABELS[dispute.evidenceUrgency]}
+                            </span>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {dispute.frozenEarnings.length > 0
+                        ? `${formatMoney(dispute.frozenAmount, { decimals: 2 })} (${dispute.frozenEarnings.length} ${dispute.frozenEarnings.length === 1 ? 'earning' : 'earnings'})`
+                        : '—'}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 text-sm min-w-[16rem]">
+                      <a
+                        href={`https://dashboard.stripe.com/disputes/${dispute.stripeDisputeId}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:text-primary-dark"
+                      >
+                        <FontAwesomeIcon icon={['fal', 'external-link']} className="mr-1" />
+                        Stripe
+                      </a>
+                      {editingId === dispute.id ? (
+                        <div className="mt-2 space-y-2">
+                          <textarea
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            rows={3}
+                            className="w-full border border-gray-300 px-2 py-1 text-sm"
+                            placeholder="Evidence gathered, vendor contact..."
+                          />
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() =>
+                                notesMutation.mutate({ id: dispute.id, adminNotes: notes })
+                              }
+                              disabled={notesMutation.isPending}
+                              className="px-3 py-1 bg-primary text-white text-xs disabled:opacity-50"
+                            >
+                              Save
+                            </button>
+                            <button
+                              onClick={() => setEditingId(null)}
+                              className="px-3 py-1 border border-gray-300 text-xs"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="mt-2">
+                          {dispute.adminNotes && (
+                            <p className="text-gray-600 whitespace-pre-wrap mb-1">
+                              {dispute.adminNotes}
+                            </p>
+                          )}
+                          <button
+                            onClick={() => {
+                              setEditingId(dispute.id);
+                              setNotes(dispute.adminNotes || '');
+                            }}
+                            className="text-gray-500 hover:text-gray-800 text-xs"
+                          >
+                            <FontAwesomeIcon icon={['fal', 'edit']} className="mr-1" />
+                            {dispute.adminNotes ? 'Edit notes' : 'Add notes'}
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {disputes.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-3 sm:px-6 py-12 text-center text-gray-500">
+                      {status === 'open' ? 'No open disputes' : 'No closed disputes'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between px-3 sm:px-6 py-3 border-t border-gray-200 text-sm">
+              <span className="text-gray-600">
+                Page {pagination.page} of {pagination.totalPages} ({pagination.total} disputes)
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="px-3 py-1 border border-gray-300 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pagination.totalPages}
+                  className="px-3 py-1 border border-gray-300 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
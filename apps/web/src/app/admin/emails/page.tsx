@@ -0,0 +1,324 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import api from '@/lib/api';
+import { EmailTemplate, EmailTemplatePreview } from '@/types/EmailTemplate';
+
+interface EmailTemplateForm {
+  subject: string;
+  bodyHtml: string;
+  active: boolean;
+}
+
+// Built-in templates are addressed by name until they are customized
+const templateKey = (template: EmailTemplate) => template.id ?? template.name;
+
+export default function EmailTemplatesPage() {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<EmailTemplate | null>(null);
+  const [form, setForm] = useState<EmailTemplateForm>({ subject: '', bodyHtml: '', active: true });
+  const [preview, setPreview] = useState<EmailTemplatePreview | null>(null);
+  const [testRecipient, setTestRecipient] = useState('');
+
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ['admin-email-templates'],
+    queryFn: async () => {
+      const { data } = await api.get<{ success: boolean; data: EmailTemplate[] }>('/admin/emails');
+      return data.data;
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!editing) return;
+      await api.put(`/admin/emails/${templateKey(editing)}`, form);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-email-templates'] });
+      closeForm();
+    },
+    onError: (error: any) => {
+      alert(error.response?.data?.error || 'Failed to save email template');
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (template: EmailTemplate) => {
+      await api.delete(`/admin/emails/${templateKey(template)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-email-templates'] });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (template: EmailTemplate) => {
+      const { data } = await api.get<{ success: boolean; data: EmailTemplatePreview }>(
+        `/admin/emails/${templateKey(template)}/preview`,
+      );
+      return data.data;
+    },
+    onSuccess: (data) => setPreview(data),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      if (!editing) return;
+      const { data } = await api.post(`/admin/emails/${templateKey(editing)}/test`, {
+        to: testRecipient,
+      });
+      return data;
+    },
+    onSuccess: (data) => alert(data?.message || 'Test email sent'),
+    onError: (error: any) => {
+      alert(error.response?.data?.message || error.response?.data?.error || 'Failed to send');
+    },
+  });
+
+  const openForm = (template: EmailTemplate) => {
+    setEditing(template);
+    setForm({ subject: template.subject, bodyHtml: template.bodyHtml, active: template.active });
+    setPreview(null);
+  };
+
+  const closeForm = () => {
+    setEditing(null);
+    setPreview(null);
+  };
+
+  const handleReset = async (template: EmailTemplate) => {
+    const message = template.builtIn
+      ? `Reset "${template.name}" to its default content?`
+      : `Delete "${template.name}"? Emails using it will fall back to a generic message.`;
+    if (confirm(message)) {
+      try {
+        await resetMutation.mutateAsync(template);
+      } catch (error: any) {
+        alert(error.response?.data?.error || 'Failed to reset email template');
+      }
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  const inputClass =
+    'w-full border border-gray-300 px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary';
+
+  const filtered = templates?.filter(
+    (template) =>
+      !search ||
+      template.name.toLowerCase().includes(search.toLowerCase()) ||
+      template.subject.toLowerCase().includes(search.toLowerCase()),
+  );
+
+  return (
+    <div className="p-3 sm:p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Email Templates</h1>
+        <p className="text-gray-600 mt-1">
+          The emails the platform sends. Use {'{{variable}}'} placeholders; a customized template
+          replaces the built-in default while it is active.
+        </p>
+      </div>
+
+      {/* Form */}
+      {editing && (
+        <form onSubmit={handleSubmit} className="bg-white shadow p-4 sm:p-6 mb-6 space-y-4">
+          <h2 className="text-lg font-semibold">
+            Edit <span className="font-mono">{editing.name}</span>
+          </h2>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+            <input
+              type="text"
+              required
+              value={form.subject}
+              onChange={(e) => setForm({ ...form, subject: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Body (HTML)</label>
+            <textarea
+              required
+              rows={12}
+              value={form.bodyHtml}
+              onChange={(e) => setForm({ ...form, bodyHtml: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setForm({ ...form, active: e.target.checked })}
+            />
+            Active (inactive templates fall back to the built-in default)
+          </label>
+
+          {preview && (
+            <div className="border border-gray-200">
+              <div className="px-3 py-2 bg-gray-50 text-sm text-gray-700">
+                <strong>Subject:</strong> {preview.subject}
+              </div>
+              <iframe
+                title="Email preview"
+                sandbox=""
+                srcDoc={preview.html}
+                className="w-full h-96 bg-white"
+              />
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <input
+              type="email"
+              value={testRecipient}
+              onChange={(e) => setTestRecipient(e.target.value)}
+              placeholder="Send a saved test to..."
+              className={`${inputClass} sm:w-64`}
+            />
+            <button
+              type="button"
+              onClick={() => testMutation.mutate()}
+              disabled={!testRecipient || testMutation.isPending}
+              className="px-4 py-2 border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <FontAwesomeIcon icon={['fal', 'paper-plane']} className="mr-2" />
+              Send Test
+            </button>
+            <div className="flex gap-3 sm:ml-auto">
+              <button
+                type="button"
+                onClick={closeForm}
+                className="px-4 py-2 border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saveMutation.isPending}
+                className="px-4 py-2 bg-primary text-white text-sm hover:bg-primary-dark disabled:opacity-50"
+              >
+                {saveMutation.isPending ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Previews and test emails use the saved version of the template.
+          </p>
+        </form>
+      )}
+
+      {/* Filter */}
+      <div className="mb-6">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search templates..."
+          className="w-full sm:w-64 px-4 py-2 border border-gray-300 focus:ring-2 focus:ring-primary focus:border-primary"
+        />
+      </div>
+
+      {/* Loading */}
+      {isLoading && (
+        <div className="text-center py-12">
+          <FontAwesomeIcon icon={['fal', 'spinner-third']} spin className="text-4xl text-primary" />
+        </div>
+      )}
+
+      {/* Templates Table */}
+      {!isLoading && (
+        <div className="bg-white shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Name', 'Subject', 'Status', ''].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filtered?.map((template) => (
+                  <tr key={template.name} className="hover:bg-gray-50">
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                      {template.name}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 text-sm text-gray-500">{template.subject}</td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm">
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded-full ${
+                          !template.active
+                            ? 'bg-gray-100 text-gray-600'
+                            : template.customized
+                              ? 'bg-blue-100 text-blue-800'
+                              : 'bg-green-100 text-green-800'
+                        }`}
+                      >
+                        {!template.active
+                          ? 'Inactive'
+                          : template.customized
+                            ? 'Customized'
+                            : 'Default'}
+                      </span>
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => {
+                          openForm(template);
+                          previewMutation.mutate(template);
+                        }}
+                        className="text-gray-600 hover:text-gray-900 mr-2"
+                        title="Preview"
+                      >
+                        <FontAwesomeIcon icon={['fal', 'eye']} />
+                      </button>
+                      <button
+                        onClick={() => openForm(template)}
+                        className="text-yellow-600 hover:text-yellow-900 mr-2"
+                        title="Edit"
+                      >
+                        <FontAwesomeIcon icon={['fal', 'edit']} />
+                      </button>
+                      {template.customized && (
+                        <button
+                          onClick={() => handleReset(template)}
+                          className="text-red-600 hover:text-red-900"
+                          disabled={resetMutation.isPending}
+                          title={template.builtIn ? 'Reset to default' : 'Delete'}
+                        >
+                          <FontAwesomeIcon icon={['fal', template.builtIn ? 'undo' : 'trash']} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {filtered?.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-3 sm:px-6 py-12 text-center text-gray-500">
+                      No email templates match your search
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import api from '@/lib/api';
+import { formatDate } from '@/lib/format';
+import { ExchangeRate } from '@/types/Currency';
+
+interface ExchangeRateForm {
+  currency: string;
+  rate: string;
+  isActive: boolean;
+}
+
+const emptyForm: ExchangeRateForm = {
+  currency: '',
+  rate: '',
+  isActive: true,
+};
+
+const toForm = (exchangeRate: ExchangeRate): ExchangeRateForm => ({
+  currency: exchangeRate.currency,
+  rate: String(parseFloat(String(exchangeRate.rate))),
+  isActive: exchangeRate.isActive,
+});
+
+export default function ExchangeRatesPage() {
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ExchangeRateForm>(emptyForm);
+
+  const { data: exchangeRates, isLoading } = useQuery({
+    queryKey: ['admin-exchange-rates'],
+    queryFn: async () => {
+      const { data } = await api.get<{ success: boolean; data: ExchangeRate[] }>(
+        '/admin/exchange-rates',
+      );
+      return data.data;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-exchange-rates'] });
+    queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        currency: form.currency,
+        rate: parseFloat(form.rate),
+        isActive: form.isActive,
+      };
+      if (editingId) {
+        await api.put(`/admin/exchange-rates/${editingId}`, payload);
+      } else {
+        await api.post('/admin/exchange-rates', payload);
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      closeForm();
+    },
+    onError: (error: any) => {
+      alert(error.response?.data?.error || 'Failed to save exchange rate');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await api.delete(`/admin/exchange-rates/${id}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const openForm = (exchangeRate?: ExchangeRate) => {
+    setEditingId(exchangeRate?.id ?? null);
+    setForm(exchangeRate ? toForm(exchangeRate) : emptyForm);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(false);
+  };
+
+  const handleDelete = async (exchangeRate: ExchangeRate) => {
+    if (
+      confirm(
+        `Delete the ${exchangeRate.currency} rate? Listings in ${exchangeRate.currency} cannot be checked out without it.`,
+      )
+    ) {
+      try {
+        await deleteMutation.mutateAsync(exchangeRate.id);
+      } catch (error: any) {
+        alert(error.response?.data?.error || 'Failed to delete exchange rate');
+      }
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  const inputClass =
+    'w-full border border-gray-300 px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary';
+
+  return (
+    <div className="p-3 sm:p-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Exchange Rates</h1>
+          <p className="text-gray-600 mt-1">
+            Units of each currency per 1 USD. Used to show buyers approximate prices and to settle
+            mixed-currency orders in USD.
+          </p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="bg-primary text-white px-6 py-2 hover:bg-primary-dark transition-colors flex items-center justify-center sm:justify-start gap-2 w-full sm:w-auto"
+        >
+          <FontAwesomeIcon icon={['fal', 'plus']} />
+          Add Exchange Rate
+        </button>
+      </div>
+
+      {/* Form */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-white shadow p-4 sm:p-6 mb-6 space-y-4">
+          <h2 className="text-lg font-semibold">
+            {editingId ? 'Edit Exchange Rate' : 'New Exchange Rate'}
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+              <input
+                type="text"
+                required
+                maxLength={3}
+                value={form.currency}
+                onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                className={inputClass}
+                placeholder="EUR"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Rate (per 1 USD)
+              </label>
+              <input
+                type="number"
+                required
+                step="0.00000001"
+                min="0"
+                value={form.rate}
+                onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                className={inputClass}
+                placeholder="0.92"
+              />
+            </div>
+            <div className="flex flex-col justify-end">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                />
+                Active
+              </label>
+            </div>
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saveMutation.isPending}
+              className="px-4 py-2 bg-primary text-white text-sm hover:bg-primary-dark disabled:opacity-50"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Loading */}
+      {isLoading && (
+        <div className="text-center py-12">
+          <FontAwesomeIcon icon={['fal', 'spinner-third']} spin className="text-4xl text-primary" />
+        </div>
+      )}
+
+      {/* Exchange Rates Table */}
+      {!isLoading && (
+        <div className="bg-white shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Currency', 'Rate', 'Updated', 'Status', ''].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {exchangeRates?.map((exchangeRate) => (
+                  <tr key={exchangeRate.id} className="hover:bg-gray-50">
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {exchangeRate.currency}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      1 USD = {parseFloat(String(exchangeRate.rate))} {exchangeRate.currency}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(exchangeRate.updatedAt, { includeTime: true })}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm">
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded-full ${exchangeRate.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}
+                      >
+                        {exchangeRate.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => openForm(exchangeRate)}
+                        className="text-yellow-600 hover:text-yellow-900 mr-2"
+                      >
+                        <FontAwesomeIcon icon={['fal', 'edit']} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(exchangeRate)}
+                        className="text-red-600 hover:text-red-900"
+                        disabled={deleteMutation.isPending}
+                      >
+                        <FontAwesomeIcon icon={['fal', 'trash']} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {exchangeRates?.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-3 sm:px-6 py-12 text-center text-gray-500">
+                      No exchange rates configured — buyers see prices in the listing currency only
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
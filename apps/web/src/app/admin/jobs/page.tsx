@@ -0,0 +1,348 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import api from '@/lib/api';
+import { formatDate } from '@/lib/format';
+import {
+  BackgroundJobDefinition,
+  BackgroundJobRun,
+  BackgroundJobStatus,
+} from '@/types/BackgroundJob';
+
+const STATUS_STYLES: Record<BackgroundJobStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const describeInterval = (seconds: number | null) => {
+  if (!seconds) return 'On demand';
+  if (seconds % 86400 === 0) return seconds === 86400 ? 'Daily' : `Every ${seconds / 86400} days`;
+  if (seconds % 3600 === 0) return seconds === 3600 ? 'Hourly' : `Every ${seconds / 3600} hours`;
+  if (seconds % 60 === 0) return seconds === 60 ? 'Every minute' : `Every ${seconds / 60} minutes`;
+  return `Every ${seconds} seconds`;
+};
+
+const durationOf = (run: BackgroundJobRun) => {
+  if (!run.startedAt || !run.finishedAt) return '—';
+  const ms = new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime();
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+function StatusBadge({ status }: { status: BackgroundJobStatus }) {
+  return (
+    <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${STATUS_STYLES[status]}`}>
+      {status}
+    </span>
+  );
+}
+
+export default function JobsPage() {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [nameFilter, setNameFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+
+  const { data: jobs, isLoading: jobsLoading } = useQuery({
+    queryKey: ['admin-jobs'],
+    queryFn: async () => {
+      const { data } = await api.get<{ success: boolean; data: BackgroundJobDefinition[] }>(
+        '/admin/jobs',
+      );
+      return data.data;
+    },
+    refetchInterval: 15000,
+  });
+
+  const { data: runsData, isLoading: runsLoading } = useQuery({
+    queryKey: ['admin-job-runs', page, nameFilter, statusFilter],
+    queryFn: async () => {
+      const { data } = await api.get('/admin/jobs/runs', {
+        params: {
+          page,
+          limit: 25,
+          name: nameFilter || undefined,
+          status: statusFilter || undefined,
+        },
+      });
+      return data.data as {
+        runs: BackgroundJobRun[];
+        pagination: { total: number; page: number; totalPages: number };
+      };
+    },
+    refetchInterval: 15000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-jobs'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-job-runs'] });
+  };
+
+  const runNowMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await api.post(`/admin/jobs/${name}/run`);
+    },
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      alert(error.response?.data?.error || 'Failed to queue job');
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await api.post(`/admin/jobs/runs/${id}/retry`);
+    },
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      alert(error.response?.data?.error || 'Failed to retry job');
+    },
+  });
+
+  const runs = runsData?.runs || [];
+  const pagination = runsData?.pagination;
+
+  return (
+    <div className="p-3 sm:p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Background Jobs</h1>
+        <p className="text-gray-600 mt-1">
+          Scheduled lifecycle work shared by all API servers. Failed runs are retried with backoff
+          before being marked failed.
+        </p>
+      </div>
+
+      {/* Jobs */}
+      {jobsLoading ? (
+        <div className="text-center py-12">
+          <FontAwesomeIcon icon={['fal', 'spinner-third']} spin className="text-4xl text-primary" />
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden mb-8">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Job', 'Schedule', 'Last Run', 'Next Run', 'Failures (24h)', ''].map(
+                    (heading) => (
+                      <th
+                        key={heading}
+                        className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    ),
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {jobs?.map((job) => (
+                  <tr key={job.name} className="hover:bg-gray-50">
+                    <td className="px-3 sm:px-6 py-4 text-sm">
+                      <p className="font-medium text-gray-900">{job.name}</p>
+                      <p className="text-gray-500">{job.description}</p>
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {describeInterval(job.everySeconds)}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm">
+                      {job.lastRun ? (
+                        <div className="flex items-center gap-2">
+                          <StatusBadge status={job.lastRun.status} />
+                          <span className="text-gray-500">
+                            {formatDate(job.lastRun.finishedAt, { format: 'relative' })}
+                          </span>
+                        </div>
+                      ) : (
+                        <span className="text-gray-400">Never</span>
+                      )}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {job.nextRun?.status === 'running'
+                        ? 'Running now'
+                        : job.nextRun
+                          ? formatDate(job.nextRun.runAt, { includeTime: true })
+                          : '—'}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={job.failures24h > 0 ? 'text-red-600 font-semibold' : ''}>
+                        {job.failures24h}
+                      </span>
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <button
+                        onClick={() => runNowMutation.mutate(job.name)}
+                        disabled={runNowMutation.isPending}
+                        className="px-3 py-1 border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <FontAwesomeIcon icon={['fal', 'play']} className="mr-2" />
+                        Run now
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Run History */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Run History</h2>
+        <div className="flex gap-3">
+          <select
+            value={nameFilter}
+            onChange={(e) => {
+              setNameFilter(e.target.value);
+              setPage(1);
+            }}
+            className="border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="">All jobs</option>
+            {jobs?.map((job) => (
+              <option key={job.name} value={job.name}>
+                {job.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(1);
+            }}
+            className="border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="">All statuses</option>
+            {Object.keys(STATUS_STYLES).map((status) => (
+              <option key={status} value={status} className="capitalize">
+                {status}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {runsLoading ? (
+        <div className="text-center py-12">
+          <FontAwesomeIcon icon={['fal', 'spinner-third']} spin className="text-4xl text-primary" />
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Job', 'Status', 'Scheduled', 'Attempts', 'Duration', 'Runner', ''].map(
+                    (heading) => (
+                      <th
+                        key={heading}
+                        className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    ),
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {runs.map((run) => (
+                  <Fragment key={run.id}>
+                    <tr
+                      onClick={() => setExpandedRunId(expandedRunId === run.id ? null : run.id)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {run.name}
+                      </td>
+                      <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm">
+                        <StatusBadge status={run.status} />
+                      </td>
+                      <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(run.runAt, { includeTime: true })}
+                      </td>
+                      <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {run.attempts}/{run.maxAttempts}
+                      </td>
+                      <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {durationOf(run)}
+                      </td>
+                      <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {run.lockedBy || '—'}
+                      </td>
+                      <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-right text-sm">
+                        {run.status === 'failed' && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              retryMutation.mutate(run.id);
+                            }}
+                            disabled={retryMutation.isPending}
+                            className="text-primary hover:text-primary-dark disabled:opacity-50"
+                          >
+                            <FontAwesomeIcon icon={['fal', 'redo']} className="mr-1" />
+                            Retry
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedRunId === run.id && (
+                      <tr>
+                        <td colSpan={7} className="px-3 sm:px-6 py-4 bg-gray-50 text-xs">
+                          {run.lastError && (
+                            <pre className="whitespace-pre-wrap text-red-700 mb-3">
+                              {run.lastError}
+                            </pre>
+                          )}
+                          <pre className="whitespace-pre-wrap text-gray-700">
+                            {JSON.stringify({ payload: run.payload, result: run.result }, null, 2)}
+                          </pre>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+                {runs.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-3 sm:px-6 py-12 text-center text-gray-500">
+                      No job runs found
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between px-3 sm:px-6 py-3 border-t border-gray-200 text-sm">
+              <span className="text-gray-600">
+                Page {pagination.page} of {pagination.totalPages} ({pagination.total} runs)
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="px-3 py-1 border border-gray-300 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pagination.totalPages}
+                  className="px-3 py-1 border border-gray-300 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,9 +9,11 @@ import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
 import { CloudinaryImage } from '@/components/ui/CloudinaryImage';
 import toast from 'react-hot-toast';
 import TrackingNumberModal from '@/components/modals/TrackingNumberModal';
+import RefundOrderModal from '@/components/modals/RefundOrderModal';
 import { getApiUrl } from '@/lib/api';
 import EmptyState from '@/components/ui/EmptyState';
 import { formatMoney } from '@/lib/format';
+import { OrderShipment } from '@/types';
 
 export default function AdminOrdersPage() {
   const { data: session, status } = useSession();
@@ -21,7 +23,10 @@ export default function AdminOrdersPage() {
   const [search, setSearch] = useState('');
   const [page, setPage] = useState(1);
   const [selectedOrder, setSelectedOrder] = useState<any>(null);
+  const [selectedShipment, setSelectedShipment] = useState<OrderShipment | null>(null);
   const [trackingNumber, setTrackingNumber] = useState('');
+  const [carrier, setCarrier] = useState('');
+  const [refundOrderId, setRefundOrderId] = useState<number | null>(null);
 
   const { data: orderStats } = useQuery({
     queryKey: ['admin-order-stats'],
@@ -57,14 +62,22 @@ export default function AdminOrdersPage() {
   });
 
   const updateTrackingMutation = useMutation({
-    mutationFn: async ({ orderId, tracking }: { orderId: number; tracking: string }) => {
-      const res = await fetch(getApiUrl(`api/admin/orders/${orderId}/tracking`), {
+    mutationFn: async ({
+      orderId,
+      shipmentId,
+      tracking,
+    }: {
+      orderId: number;
+      shipmentId: number;
+      tracking: string;
+    }) => {
+      const res = await fetch(getApiUrl(`api/admin/orders/${orderId}/shipments/${shipmentId}`), {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${session?.accessToken}`,
         },
-        body: JSON.stringify({ trackingNumber: tracking }),
+        body: JSON.stringify({ trackingNumber: tracking, carrier, status: 'shipped' }),
       });
       if (!res.ok) throw new Error('Failed to update tracking');
       return res.json();
@@ -72,8 +85,8 @@ export default function AdminOrdersPage() {
     onSuccess: () => {
       toast.success('Tracking number added');
       queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
-      setSelectedOrder(null);
-      setTrackingNumber('');
+      queryClient.invalidateQueries({ queryKey: ['admin-order-stats'] });
+      closeTrackingModal();
     },
     onError: () => {
       toast.error('Failed to add tracking number');
@@ -96,8 +109,16 @@ export default function AdminOrdersPage() {
   const orders = ordersData?.orders || [];
   const pagination = ordersData?.pagination || {};
 
-  const handleMarkAsShipped = (order: any) => {
+  const handleMarkAsShipped = (order: any, shipment: OrderShipment) => {
     setSelectedOrder(order);
+    setSelectedShipment(shipment);
+  };
+
+  const closeTrackingModal = () => {
+    setSelectedOrder(null);
+    setSelectedShipment(null);
+    setTrackingNumber('');
+    setCarrier('');
   };
 
   const handleSubmitTracking = () => {
@@ -107,6 +128,7 @@ export default function AdminOrdersPage() {
     }
     updateTrackingMutation.mutate({
       orderId: selectedOrder.id,
+      shipmentId: selectedShipment!.id,
       tracking: trackingNumber,
     });
   };
@@ -179,6 +201,7 @@ export default function AdminOrdersPage() {
             <option value="completed">Completed</option>
             <option value="pending">Pending</option>
             <option value="processing">Processing</option>
+            <option value="partially_shipped">Partially Shipped</option>
             <option value="shipped">Shipped</option>
             <option value="delivered">Delivered</option>
             <option value="on_hold">On Hold</option>
@@ -218,7 +241,7 @@ export default function AdminOrdersPage() {
                       className={`px-3 py-1 text-xs font-semibold rounded-full ${
                         order.status === 'completed' || order.status === 'delivered'
                           ? 'bg-green-100 text-green-800'
-                          : order.status === 'shipped'
+                          : order.status === 'shipped' || order.status === 'partially_shipped'
                             ? 'bg-blue-100 text-blue-800'
                             : order.status === 'processing' || order.status === 'on_hold'
                               ? 'bg-yellow-100 text-yellow-800'
@@ -227,7 +250,7 @@ export default function AdminOrdersPage() {
                                 : 'bg-gray-100 text-gray-800'
                       }`}
                     >
-                      {order.status}
+                      {order.status.replace('_', ' ')}
                     </span>
                     <p className="text-sm text-gray-500 mt-2">
                       Order Total:{' '}
@@ -282,8 +305,64 @@ export default function AdminOrdersPage() {
                   </div>
                 </div>
 
-                {/* Shipping Info */}
-                {order.trackingNumber && (
+                {/* Vendor Shipments */}
+                {order.shipments?.length > 0 && (
+                  <div className="border-t mt-4 pt-4">
+                    <h4 className="text-sm font-medium text-gray-700 mb-3">Shipments:</h4>
+                    <div className="space-y-2">
+                      {order.shipments.map((shipment: OrderShipment) => (
+                        <div
+                          key={shipment.id}
+                          className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 bg-gray-50 p-3"
+                        >
+                          <div className="text-sm">
+                            <p className="font-medium text-gray-900">
+                              {shipment.vendor?.shopName || `Vendor #${shipment.vendorId}`}
+                            </p>
+                            {shipment.trackingNumber ? (
+                              <p className="text-xs text-gray-500">
+                                <FontAwesomeIcon icon={['fal', 'shipping-fast']} className="mr-1" />
+                                {shipment.carrier && `${shipment.carrier} `}
+                                <span className="font-mono">{shipment.trackingNumber}</span>
+                              </p>
+                            ) : (
+                              <p className="text-xs text-gray-500">No tracking yet</p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span
+                              className={`px-3 py-1 text-xs font-semibold rounded-full ${
+                                shipment.status === 'delivered'
+                                  ? 'bg-green-100 text-green-800'
+                                  : shipment.status === 'shipped'
+                                    ? 'bg-blue-100 text-blue-800'
+                                    : shipment.status === 'processing'
+                                      ? 'bg-yellow-100 text-yellow-800'
+                                      : shipment.status === 'cancelled'
+                                        ? 'bg-red-100 text-red-800'
+                                        : 'bg-gray-100 text-gray-800'
+                              }`}
+                            >
+                              {shipment.status}
+                            </span>
+                            {(shipment.status === 'pending' ||
+                              shipment.status === 'processing') && (
+                              <button
+                                onClick={() => handleMarkAsShipped(order, shipment)}
+                                className="bg-primary text-white px-3 py-1 text-xs hover:bg-opacity-90 transition"
+                              >
+                                Mark as Shipped
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Shipping Info (orders placed before per-vendor shipments) */}
+                {!order.shipments?.length && order.trackingNumber && (
                   <div className="mt-4 bg-blue-50 border border-blue-200 p-3">
                     <p className="text-sm text-blue-800">
                       <FontAwesomeIcon icon={['fal', 'shipping-fast']} className="mr-2" />
@@ -295,21 +374,21 @@ export default function AdminOrdersPage() {
 
                 {/* Actions */}
                 <div className="mt-4 flex gap-3">
-                  {order.status === 'pending' && (
-                    <button
-                      onClick={() => handleMarkAsShipped(order)}
-                      className="bg-primary text-white px-4 py-2 text-sm hover:bg-opacity-90 transition"
-                    >
-                      <FontAwesomeIcon icon={['fal', 'shipping-fast']} className="mr-2" />
-                      Mark as Shipped
-                    </button>
-                  )}
                   <Link
                     href={`/admin/orders/${order.id}`}
                     className="bg-gray-200 text-gray-700 px-4 py-2 text-sm hover:bg-gray-300 transition"
                   >
                     View Details
                   </Link>
+                  {['paid', 'partially_refunded', 'pending'].includes(order.paymentStatus) && (
+                    <button
+                      onClick={() => setRefundOrderId(order.id)}
+                      className="bg-white border border-gray-300 text-gray-700 px-4 py-2 text-sm hover:bg-gray-50 transition"
+                    >
+                      <FontAwesomeIcon icon={['fal', 'undo']} className="mr-2" />
+                      Refund
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
@@ -338,17 +417,23 @@ export default function AdminOrdersPage() {
 
       {/* Tracking Modal */}
       <TrackingNumberModal
-        isOpen={!!selectedOrder}
-        onClose={() => {
-          setSelectedOrder(null);
-          setTrackingNumber('');
-        }}
-        orderNumber={selectedOrder?.orderNumber || ''}
+        isOpen={!!selectedOrder && !!selectedShipment}
+        onClose={closeTrackingModal}
+        orderNumber={
+          selectedOrder
+            ? `${selectedOrder.orderNumber} · ${selectedShipment?.vendor?.shopName || 'Vendor'}`
+            : ''
+        }
         trackingNumber={trackingNumber}
         onTrackingChange={setTrackingNumber}
+        carrier={carrier}
+        onCarrierChange={setCarrier}
         onSubmit={handleSubmitTracking}
         isSubmitting={updateTrackingMutation.isPending}
       />
+
+      {/* Refund Modal */}
+      <RefundOrderModal orderId={refundOrderId} onClose={() => setRefundOrderId(null)} />
     </div>
   );
 }
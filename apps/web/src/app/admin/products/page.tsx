@@ -14,6 +14,7 @@ import ResponsiveDataView from '@/components/ui/ResponsiveDataView';
 import MobileCard from '@/components/ui/MobileCard';
 import MobileCardList from '@/components/ui/MobileCardList';
 import CSVImportWizard from '@/components/import/CSVImportWizard';
+import CatalogExportModal from '@/components/modals/CatalogExportModal';
 import Pagination from '@/components/shared/Pagination';
 
 interface Product {
@@ -104,6 +105,7 @@ export default function AdminProductsPage() {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showStatusModal, setShowStatusModal] = useState(false);
   const [showImportWizard, setShowImportWizard] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
   const [statusAction, setStatusAction] = useState<'published' | 'draft' | null>(null);
   const [vendors, setVendors] = useState<Vendor[]>([]);
   const [statusCounts, setStatusCounts] = useState<{
@@ -722,6 +724,13 @@ export default function AdminProductsPage() {
               <FontAwesomeIcon icon={['fal', 'file-csv']} />
               Import CSV
             </button>
+            <button
+              onClick={() => setShowExportModal(true)}
+              className="px-4 py-2 bg-white text-primary border border-primary transition-colors flex items-center justify-center gap-2 hover:bg-primary/5"
+            >
+              <FontAwesomeIcon icon={['fal', 'file-export']} />
+              Export
+            </button>
             <button
               onClick={() => router.push('/admin/products/new?type=book')}
               className="px-4 py-2 bg-primary text-white transition-colors flex items-center justify-center gap-2"
@@ -1585,6 +1594,16 @@ export default function AdminProductsPage() {
         onComplete={() => fetchProducts()}
         role="admin"
       />
+
+      {/* Catalog Export */}
+      <CatalogExportModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        apiPath="api/admin/exports/books"
+        token={session?.accessToken}
+        initialStatus={statusFilter}
+        extraParams={vendorFilter ? { vendorId: vendorFilter } : undefined}
+      />
     </div>
   );
 }
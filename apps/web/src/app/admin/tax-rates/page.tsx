@@ -0,0 +1,363 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import api from '@/lib/api';
+import { TaxRate } from '@/types/Tax';
+
+interface TaxRateForm {
+  name: string;
+  country: string;
+  state: string;
+  postalPrefix: string;
+  ratePercent: string;
+  inclusive: boolean;
+  exemptCategories: string;
+  isActive: boolean;
+}
+
+const emptyForm: TaxRateForm = {
+  name: '',
+  country: 'US',
+  state: '',
+  postalPrefix: '',
+  ratePercent: '',
+  inclusive: false,
+  exemptCategories: '',
+  isActive: true,
+};
+
+const toForm = (taxRate: TaxRate): TaxRateForm => ({
+  name: taxRate.name,
+  country: taxRate.country,
+  state: taxRate.state || '',
+  postalPrefix: taxRate.postalPrefix || '',
+  ratePercent: String(Math.round(parseFloat(String(taxRate.rate)) * 100000) / 1000),
+  inclusive: taxRate.inclusive,
+  exemptCategories: (taxRate.exemptCategories || []).join(', '),
+  isActive: taxRate.isActive,
+});
+
+const formatRate = (rate: number | string) =>
+  `${(Math.round(parseFloat(String(rate)) * 100000) / 1000).toString()}%`;
+
+export default function TaxRatesPage() {
+  const queryClient = useQueryClient();
+  const [countryFilter, setCountryFilter] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<TaxRateForm>(emptyForm);
+
+  const { data: taxRates, isLoading } = useQuery({
+    queryKey: ['admin-tax-rates', countryFilter],
+    queryFn: async () => {
+      const { data } = await api.get<{ success: boolean; data: TaxRate[] }>('/admin/tax-rates', {
+        params: countryFilter ? { country: countryFilter } : {},
+      });
+      return data.data;
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: form.name,
+        country: form.country,
+        state: form.state,
+        postalPrefix: form.postalPrefix,
+        rate: parseFloat(form.ratePercent) / 100,
+        inclusive: form.inclusive,
+        exemptCategories: form.exemptCategories,
+        isActive: form.isActive,
+      };
+      if (editingId) {
+        await api.put(`/admin/tax-rates/${editingId}`, payload);
+      } else {
+        await api.post('/admin/tax-rates', payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-tax-rates'] });
+      closeForm();
+    },
+    onError: (error: any) => {
+      alert(error.response?.data?.error || 'Failed to save tax rate');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await api.delete(`/admin/tax-rates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-tax-rates'] });
+    },
+  });
+
+  const openForm = (taxRate?: TaxRate) => {
+    setEditingId(taxRate?.id ?? null);
+    setForm(taxRate ? toForm(taxRate) : emptyForm);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(false);
+  };
+
+  const handleDelete = async (taxRate: TaxRate) => {
+    if (confirm(`Delete "${taxRate.name}"? Existing orders keep their recorded tax.`)) {
+      try {
+        await deleteMutation.mutateAsync(taxRate.id);
+      } catch (error: any) {
+        alert(error.response?.data?.error || 'Failed to delete tax rate');
+      }
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  const inputClass =
+    'w-full border border-gray-300 px-3 py-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary';
+
+  return (
+    <div className="p-3 sm:p-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Tax Rates</h1>
+          <p className="text-gray-600 mt-1">
+            Rates by country, state and postal prefix. All matching rates apply to an order.
+          </p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="bg-primary text-white px-6 py-2 hover:bg-primary-dark transition-colors flex items-center justify-center sm:justify-start gap-2 w-full sm:w-auto"
+        >
+          <FontAwesomeIcon icon={['fal', 'plus']} />
+          Add Tax Rate
+        </button>
+      </div>
+
+      {/* Form */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-white shadow p-4 sm:p-6 mb-6 space-y-4">
+          <h2 className="text-lg font-semibold">{editingId ? 'Edit Tax Rate' : 'New Tax Rate'}</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., CA State Tax"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Country</label>
+              <input
+                type="text"
+                required
+                maxLength={2}
+                value={form.country}
+                onChange={(e) => setForm({ ...form, country: e.target.value.toUpperCase() })}
+                className={inputClass}
+                placeholder="US"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                State (optional)
+              </label>
+              <input
+                type="text"
+                value={form.state}
+                onChange={(e) => setForm({ ...form, state: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., CA"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Postal Prefix (optional)
+              </label>
+              <input
+                type="text"
+                value={form.postalPrefix}
+                onChange={(e) => setForm({ ...form, postalPrefix: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., 900"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rate (%)</label>
+              <input
+                type="number"
+                required
+                step="0.001"
+                min="0"
+                max="99"
+                value={form.ratePercent}
+                onChange={(e) => setForm({ ...form, ratePercent: e.target.value })}
+                className={inputClass}
+                placeholder="7.25"
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Exempt Categories
+              </label>
+              <input
+                type="text"
+                value={form.exemptCategories}
+                onChange={(e) => setForm({ ...form, exemptCategories: e.target.value })}
+                className={inputClass}
+                placeholder="Category slugs, comma-separated"
+              />
+            </div>
+            <div className="flex flex-col justify-end gap-2">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.inclusive}
+                  onChange={(e) => setForm({ ...form, inclusive: e.target.checked })}
+                />
+                Prices include this tax
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                />
+                Active
+              </label>
+            </div>
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saveMutation.isPending}
+              className="px-4 py-2 bg-primary text-white text-sm hover:bg-primary-dark disabled:opacity-50"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Filter */}
+      <div className="mb-6">
+        <input
+          type="text"
+          maxLength={2}
+          value={countryFilter}
+          onChange={(e) => setCountryFilter(e.target.value.toUpperCase())}
+          placeholder="Filter by country code..."
+          className="w-full sm:w-64 px-4 py-2 border border-gray-300 focus:ring-2 focus:ring-primary focus:border-primary"
+        />
+      </div>
+
+      {/* Loading */}
+      {isLoading && (
+        <div className="text-center py-12">
+          <FontAwesomeIcon icon={['fal', 'spinner-third']} spin className="text-4xl text-primary" />
+        </div>
+      )}
+
+      {/* Tax Rates Table */}
+      {!isLoading && (
+        <div className="bg-white shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Name', 'Jurisdiction', 'Rate', 'Pricing', 'Exemptions', 'Status', ''].map(
+                    (heading) => (
+                      <th
+                        key={heading}
+                        className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    ),
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {taxRates?.map((taxRate) => (
+                  <tr key={taxRate.id} className="hover:bg-gray-50">
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {taxRate.name}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {[
+                        taxRate.country,
+                        taxRate.state,
+                        taxRate.postalPrefix && `${taxRate.postalPrefix}*`,
+                      ]
+                        .filter(Boolean)
+                        .join(' / ')}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatRate(taxRate.rate)}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {taxRate.inclusive ? 'Included in price' : 'Added at checkout'}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 text-sm text-gray-500">
+                      {taxRate.exemptCategories?.length ? taxRate.exemptCategories.join(', ') : '—'}
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-sm">
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded-full ${taxRate.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}
+                      >
+                        {taxRate.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-3 sm:px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => openForm(taxRate)}
+                        className="text-yellow-600 hover:text-yellow-900 mr-2"
+                      >
+                        <FontAwesomeIcon icon={['fal', 'edit']} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(taxRate)}
+                        className="text-red-600 hover:text-red-900"
+                        disabled={deleteMutation.isPending}
+                      >
+                        <FontAwesomeIcon icon={['fal', 'trash']} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {taxRates?.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-3 sm:px-6 py-12 text-center text-gray-500">
+                      No tax rates configured — orders are not taxed
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
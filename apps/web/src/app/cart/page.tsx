@@ -9,7 +9,8 @@ import api from '@/lib/api';
 import { withBasePath } from '@/lib/path-utils';
 import PageLoading from '@/components/ui/PageLoading';
 import EmptyState from '@/components/ui/EmptyState';
-import { formatMoney } from '@/lib/format';
+import { useCurrency } from '@/hooks/useCurrency';
+import Price from '@/components/ui/Price';
 
 interface CartItem {
   id: number;
@@ -21,6 +22,7 @@ interface CartItem {
     id: number;
     title: string;
     price: number;
+    currency?: string;
     images?: Array<{ url: string }>;
     media?: Array<{ imageUrl: string }>;
     quantity: number;
@@ -34,12 +36,14 @@ interface CartResponse {
     items: CartItem[];
     subtotal: number;
     total: number;
+    currency?: string;
   };
 }
 
 export default function CartPage() {
   const { data: session } = useSession();
   const queryClient = useQueryClient();
+  const { format, formatPrice } = useCurrency();
 
   // Fetch cart items
   const { data: cartData, isLoading } = useQuery({
@@ -122,6 +126,8 @@ export default function CartPage() {
   }
 
   const items = cartData?.items || [];
+  const settlementCurrency = cartData?.currency || 'USD';
+  const estimatedTotal = formatPrice(cartData?.total || 0, settlementCurrency);
   const isEmpty = items.length === 0;
 
   return (
@@ -174,9 +180,11 @@ export default function CartPage() {
                             {product.title}
                           </h3>
                         </Link>
-                        <p className="text-xl font-bold text-primary mt-2">
-                          {formatMoney(product.price)}
-                        </p>
+                        <Price
+                          amount={product.price}
+                          currency={product.currency}
+                          className="block text-xl font-bold text-primary mt-2"
+                        />
 
                         {/* Quantity Display */}
                         <p className="text-sm text-gray-600 mt-4">Qty: {item.quantity}</p>
@@ -204,7 +212,7 @@ export default function CartPage() {
                 <div className="space-y-3 mb-6">
                   <div className="flex justify-between text-gray-600">
                     <span>Subtotal</span>
-                    <span>{formatMoney(cartData?.subtotal || 0)}</span>
+                    <span>{format(cartData?.subtotal || 0, settlementCurrency)}</span>
                   </div>
                   <div className="flex justify-between text-gray-600">
                     <span>Shipping</span>
@@ -213,8 +221,13 @@ export default function CartPage() {
                   <div className="border-t border-gray-200 pt-3">
                     <div className="flex justify-between text-xl font-bold text-gray-900">
                       <span>Total</span>
-                      <span>{formatMoney(cartData?.total || 0)}</span>
+                      <span>{format(cartData?.total || 0, settlementCurrency)}</span>
                     </div>
+                    {estimatedTotal.approximate && (
+                      <p className="mt-1 text-sm text-gray-500 text-right">
+                        Approximately {estimatedTotal.text}; charged in {settlementCurrency}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -11,17 +11,30 @@ import InlineError from '@/components/ui/InlineError';
 import toast from 'react-hot-toast';
 import { getApiUrl } from '@/lib/api';
 import { useChatSocket } from '@/hooks/useChatSocket';
+import MessageAttachments from '@/components/chat/MessageAttachments';
+import ChatAttachmentButton from '@/components/chat/ChatAttachmentButton';
+import ChatSearch from '@/components/chat/ChatSearch';
+import ConversationItemCard, { chatItemHref } from '@/components/chat/ConversationItemCard';
+import OfferMessage from '@/components/chat/OfferMessage';
+import type { ChatItem, ChatSearchResult, ChatThreadMessage } from '@/types/Chat';
 
 function ChatContent() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const searchParams = useSearchParams();
   const vendorId = searchParams.get('vendorId');
+  // Conversation about one listing (?itemType=book&itemId=), opened from its page
+  const itemType = searchParams.get('itemType');
+  const itemId = searchParams.get('itemId');
   const queryClient = useQueryClient();
   const [conversationId, setConversationId] = useState<string | null>(null);
   const [messageText, setMessageText] = useState('');
   const [typingTimeout, setTypingTimeout] = useState<NodeJS.Timeout | null>(null);
+  // Message opened from search results, possibly in another conversation (?message=)
+  const messageParam = searchParams.get('message');
+  const [highlightedMessageId, setHighlightedMessageId] = useState(messageParam);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrolledToHighlightRef = useRef<string | null>(null);
 
   // Handle new messages from socket
   const handleNewMessage = useCallback(
@@ -35,18 +48,22 @@ function ChatContent() {
   // Initialize chat socket
   const {
     sendMessage: sendSocketMessage,
+    markRead,
     emitTyping,
     isConnected,
+    authError,
   } = useChatSocket({
     conversationId: conversationId ? parseInt(conversationId) : undefined,
     onNewMessage: handleNewMessage,
+    // Refetch so "Seen" follows the vendor's read cursor
+    onRead: handleNewMessage,
     onError: (error) => {
       console.error('Socket error:', error);
     },
   });
 
   const { data: conversationData, isLoading: conversationLoading } = useQuery({
-    queryKey: ['customer-conversation', vendorId],
+    queryKey: ['customer-conversation', vendorId, itemType, itemId],
     queryFn: async () => {
       const res = await fetch(getApiUrl('api/customer/chat/conversations'), {
         method: 'POST',
@@ -54,7 +71,7 @@ function ChatContent() {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${session?.accessToken}`,
         },
-        body: JSON.stringify({ vendorId }),
+        body: JSON.stringify({ vendorId, ...(itemId && { itemType, itemId }) }),
       });
       if (!res.ok) throw new Error('Failed to get conversation');
       const result = await res.json();
@@ -109,8 +126,29 @@ function ChatContent() {
   });
 
   useEffect(() => {
+    setHighlightedMessageId(messageParam);
+  }, [messageParam]);
+
+  // Scroll to a message opened from search once, otherwise follow the latest message
+  useEffect(() => {
+    const highlighted = highlightedMessageId
+      ? document.getElementById(`message-${highlightedMessageId}`)
+      : null;
+    if (highlighted && scrolledToHighlightRef.current !== highlightedMessageId) {
+      scrolledToHighlightRef.current = highlightedMessageId;
+      highlighted.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messagesData]);
+  }, [messagesData, highlightedMessageId]);
+
+  // Mark the vendor's latest message read once it is on screen
+  const lastIncomingId = messagesData?.messages
+    ?.filter((msg: ChatThreadMessage) => !msg.isCustomer)
+    .at(-1)?.id;
+  useEffect(() => {
+    if (lastIncomingId && document.visibilityState === 'visible') markRead(lastIncomingId);
+  }, [lastIncomingId, markRead]);
 
   if (status === 'loading' || conversationLoading) {
     return <PageLoading message="Loading chat..." fullPage={false} />;
@@ -131,20 +169,37 @@ function ChatContent() {
 
   const messages = messagesData?.messages || [];
   const vendor = conversationData?.conversation?.vendor;
+  const item: ChatItem | null = messagesData?.item || conversationData?.conversation?.item || null;
+  const refreshMessages = () =>
+    queryClient.invalidateQueries({ queryKey: ['customer-messages', conversationId] });
+
+  // The customer's last message the vendor has read
+  const otherReadAt = messagesData?.otherReadAt ? new Date(messagesData.otherReadAt) : null;
+  const lastSeenId = otherReadAt
+    ? messages
+        .filter(
+          (msg: ChatThreadMessage) => msg.isCustomer && new Date(msg.createdAt) <= otherReadAt,
+        )
+        .at(-1)?.id
+    : null;
 
-  const handleSendMessage = (e: React.FormEvent) => {
+  const handleSearchSelect = (result: ChatSearchResult) => {
+    if (String(result.conversationId) === String(conversationId)) {
+      setHighlightedMessageId(String(result.id));
+    } else if (result.vendor) {
+      const anchor = result.itemId ? `&itemType=${result.itemType}&itemId=${result.itemId}` : '';
+      router.push(`/chat?vendorId=${result.vendor.id}${anchor}&message=${result.id}`);
+    }
+  };
+
+  const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!messageText.trim() || !conversationId) return;
 
-    // Try to send via socket first
-    if (isConnected && sendSocketMessage) {
-      const sent = sendSocketMessage(messageText);
-      if (sent) {
-        setMessageText('');
-        // Still use mutation for optimistic update and fallback
-        sendMessageMutation.mutate(messageText);
-        return;
-      }
+    // Try to send via socket first; the server saves it and broadcasts message:new
+    if (isConnected && (await sendSocketMessage(messageText))) {
+      setMessageText('');
+      return;
     }
 
     // Fallback to REST API
@@ -172,12 +227,25 @@ function ChatContent() {
 
   return (
     <div className="mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-8">
-      <div className="mb-4">
-        <h1 className="text-2xl font-bold mb-2">Chat with {vendor?.businessName || 'Vendor'}</h1>
-        <p className="text-gray-600">Start a conversation with this bookseller</p>
+      <div className="mb-4 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold mb-2">Chat with {vendor?.shopName || 'Vendor'}</h1>
+          <p className="text-gray-600">
+            {item ? `About ${item.title}` : 'Start a conversation with this bookseller'}
+          </p>
+        </div>
+        <ChatSearch onSelect={handleSearchSelect} className="w-full sm:w-72" />
       </div>
 
       <div className="bg-white rounded-lg shadow-md">
+        {item && (
+          <ConversationItemCard
+            item={item}
+            conversationId={conversationId}
+            onOfferSent={refreshMessages}
+          />
+        )}
+
         {/* Messages Area */}
         <div className="h-[500px] overflow-y-auto p-4 border-b">
           {messagesLoading ? (
@@ -193,20 +261,36 @@ function ChatContent() {
               {messages.map((msg: any) => (
                 <div
                   key={msg.id}
+                  id={`message-${msg.id}`}
                   className={`flex ${msg.isCustomer ? 'justify-end' : 'justify-start'}`}
                 >
                   <div
                     className={`max-w-[70%] rounded-lg px-4 py-2 ${
                       msg.isCustomer ? 'bg-primary text-white' : 'bg-gray-100 text-gray-900'
-                    }`}
+                    } ${String(msg.id) === highlightedMessageId ? 'ring-2 ring-secondary' : ''}`}
                   >
-                    <p className="whitespace-pre-wrap break-words">{msg.message}</p>
+                    {msg.kind === 'offer' && msg.offer ? (
+                      <OfferMessage
+                        offer={msg.offer}
+                        event={msg.offerEvent}
+                        text={msg.message}
+                        party="buyer"
+                        itemHref={item ? chatItemHref(item) : undefined}
+                        onResponded={refreshMessages}
+                      />
+                    ) : (
+                      msg.message && (
+                        <p className="whitespace-pre-wrap break-words">{msg.message}</p>
+                      )
+                    )}
+                    <MessageAttachments attachments={msg.attachments} mine={msg.isCustomer} />
                     <p
                       className={`text-xs mt-1 ${
                         msg.isCustomer ? 'text-white/70' : 'text-gray-500'
                       }`}
                     >
                       {new Date(msg.createdAt).toLocaleString()}
+                      {msg.id === lastSeenId && ' · Seen'}
                     </p>
                   </div>
                 </div>
@@ -219,6 +303,14 @@ function ChatContent() {
         {/* Message Input */}
         <form onSubmit={handleSendMessage} className="p-4">
           <div className="flex gap-2">
+            <ChatAttachmentButton
+              conversationId={conversationId}
+              caption={messageText}
+              onSent={() => {
+                setMessageText('');
+                refreshMessages();
+              }}
+            />
             <input
               type="text"
               value={messageText}
@@ -239,6 +331,7 @@ function ChatContent() {
               )}
             </button>
           </div>
+          {authError && <p className="text-xs text-red-600 mt-2">{authError}</p>}
           {isConnected && (
             <p className="text-xs text-green-600 mt-2">
               <FontAwesomeIcon icon={['fas', 'circle']} className="mr-1" />
@@ -11,7 +11,10 @@ import { toast } from 'react-hot-toast';
 import api from '@/lib/api';
 import getStripe from '@/lib/stripe';
 import { withBasePath } from '@/lib/path-utils';
-import { formatMoney } from '@/lib/format';
+import { useCurrency } from '@/hooks/useCurrency';
+import Price from '@/components/ui/Price';
+import { ShippingQuote } from '@/types/Shipping';
+import { TaxQuote } from '@/types/Tax';
 
 interface CartItem {
   id: number;
@@ -23,6 +26,7 @@ interface CartItem {
     id: number;
     title: string;
     price: number;
+    currency?: string;
     images?: Array<{ url: string }>;
     media?: Array<{ imageUrl: string }>;
     quantity: number;
@@ -36,6 +40,7 @@ interface CartResponse {
     items: CartItem[];
     subtotal: number;
     total: number;
+    currency?: string;
   };
 }
 
@@ -214,6 +219,7 @@ function CheckoutForm({ clientSecret }: CheckoutFormProps) {
   const queryClient = useQueryClient();
   const stripe = useStripe();
   const elements = useElements();
+  const { format, formatPrice } = useCurrency();
 
   const [shippingAddress, setShippingAddress] = useState<Address>({
     fullName: '',
@@ -271,6 +277,66 @@ function CheckoutForm({ clientSecret }: CheckoutFormProps) {
     }
   }, [cartData]);
 
+  // Quote shipping for the destination; the server recomputes it when the order is placed
+  const quoteItems = (cartData?.items || []).map((item) => ({
+    bookId: item.bookId,
+    productId: item.productId,
+    quantity: item.quantity,
+  }));
+  const { data: shippingQuote, isFetching: shippingQuoteLoading } = useQuery({
+    queryKey: [
+      'shippingQuote',
+      quoteItems,
+      shippingAddress.country,
+      shippingAddress.stateProvince,
+      shippingAddress.postalCode,
+    ],
+    queryFn: async () => {
+      const response = await api.post<{ success: boolean; data: ShippingQuote }>(
+        '/shipping/quote',
+        {
+          items: quoteItems,
+          destination: {
+            country: shippingAddress.country,
+            state: shippingAddress.stateProvince,
+            postalCode: shippingAddress.postalCode,
+          },
+        },
+      );
+      return response.data.data;
+    },
+    enabled: quoteItems.length > 0 && !!shippingAddress.country,
+    placeholderData: (previous) => previous,
+  });
+
+  // Tax depends on the destination and the coupon discount (free shipping is not an item discount)
+  const taxableDiscount =
+    appliedCoupon && !appliedCoupon.freeShipping ? appliedCoupon.discountAmount : 0;
+  const { data: taxQuote } = useQuery({
+    queryKey: [
+      'taxQuote',
+      quoteItems,
+      shippingAddress.country,
+      shippingAddress.stateProvince,
+      shippingAddress.postalCode,
+      taxableDiscount,
+    ],
+    queryFn: async () => {
+      const response = await api.post<{ success: boolean; data: TaxQuote }>('/tax/quote', {
+        items: quoteItems,
+        destination: {
+          country: shippingAddress.country,
+          state: shippingAddress.stateProvince,
+          postalCode: shippingAddress.postalCode,
+        },
+        discount: taxableDiscount,
+      });
+      return response.data.data;
+    },
+    enabled: quoteItems.length > 0 && !!shippingAddress.country,
+    placeholderData: (previous) => previous,
+  });
+
   const handleApplyCoupon = async () => {
     if (!couponCode.trim()) return;
     setCouponLoading(true);
@@ -416,15 +482,24 @@ function CheckoutForm({ clientSecret }: CheckoutFormProps) {
   const items = cartData?.items || [];
   const isEmpty = items.length === 0;
   const discountAmount = appliedCoupon?.discountAmount || 0;
-  const shippingCost = appliedCoupon?.freeShipping ? 0 : 10.0;
+  const quotedShipping = shippingQuote?.total ?? 0;
+  const shippingCost = appliedCoupon?.freeShipping ? 0 : quotedShipping;
+  const shippingErrors = shippingQuote?.lines.filter((line) => line.error) || [];
   const subtotalBeforeDiscount = cartData?.subtotal || 0;
   const subtotalAfterDiscount = Math.max(
     0,
     subtotalBeforeDiscount - (appliedCoupon?.freeShipping ? 0 : discountAmount),
   );
-  const tax = subtotalAfterDiscount * 0.08;
+  // Tax-inclusive prices (EU VAT) already contain their tax; only exclusive tax is added
+  const taxLines = taxQuote?.lines || [];
+  const tax = taxQuote?.exclusiveTax ?? 0;
   const total = subtotalAfterDiscount + shippingCost + tax;
 
+  // Summary amounts are in the settlement currency; the total is also estimated in the buyer's
+  const settlementCurrency = cartData?.currency || 'USD';
+  const money = (amount: number) => format(amount, settlementCurrency);
+  const estimatedTotal = formatPrice(total, settlementCurrency);
+
   if (cartLoading) {
     return (
       <div className="min-h-screen bg-gray-50 py-12">
@@ -508,9 +583,11 @@ function CheckoutForm({ clientSecret }: CheckoutFormProps) {
                             {product.title}
                           </h3>
                           <p className="text-sm text-gray-600 mt-1">Quantity: {item.quantity}</p>
-                          <p className="text-base sm:text-lg font-bold text-primary mt-1">
-                            {formatMoney(product.price)}
-                          </p>
+                          <Price
+                            amount={product.price}
+                            currency={product.currency}
+                            className="block text-base sm:text-lg font-bold text-primary mt-1"
+                          />
                         </div>
                       </div>
                     );
@@ -873,42 +950,89 @@ function CheckoutForm({ clientSecret }: CheckoutFormProps) {
                 <div className="space-y-3 mb-6">
                   <div className="flex justify-between text-gray-600">
                     <span>Subtotal ({items.length} items)</span>
-                    <span>{formatMoney(subtotalBeforeDiscount, { fromCents: false })}</span>
+                    <span>{money(subtotalBeforeDiscount)}</span>
                   </div>
                   {appliedCoupon && discountAmount > 0 && !appliedCoupon.freeShipping && (
                     <div className="flex justify-between text-green-600">
                       <span>Discount ({appliedCoupon.label})</span>
-                      <span>-{formatMoney(discountAmount, { fromCents: false })}</span>
+                      <span>-{money(discountAmount)}</span>
                     </div>
                   )}
                   <div className="flex justify-between text-gray-600">
                     <span>Shipping</span>
-                    {appliedCoupon?.freeShipping ? (
+                    {shippingQuoteLoading && !shippingQuote ? (
+                      <FontAwesomeIcon icon={['fal', 'spinner-third']} spin />
+                    ) : appliedCoupon?.freeShipping ? (
                       <span className="text-green-600">
                         <span className="line-through text-gray-400 mr-1">
-                          {formatMoney(10, { fromCents: false })}
+                          {money(quotedShipping)}
                         </span>
                         Free
                       </span>
                     ) : (
-                      <span>{formatMoney(shippingCost, { fromCents: false })}</span>
+                      <span>{money(shippingCost)}</span>
                     )}
                   </div>
-                  <div className="flex justify-between text-gray-600">
-                    <span>Tax (estimated)</span>
-                    <span>{formatMoney(tax, { fromCents: false })}</span>
-                  </div>
+                  {shippingQuote && shippingQuote.lines.length > 1 && (
+                    <div className="pl-3 space-y-1 text-sm text-gray-500">
+                      {shippingQuote.lines.map((line) => (
+                        <div key={line.vendorId} className="flex justify-between">
+                          <span>{line.vendorName || 'Seller'}</span>
+                          <span>
+                            {line.error
+                              ? '—'
+                              : line.freeShipping && line.amount === 0
+                                ? 'Free'
+                                : money(line.amount)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {shippingErrors.length > 0 && (
+                    <div className="text-sm text-red-600">
+                      {shippingErrors.map((line) => (
+                        <p key={line.vendorId}>
+                          {line.vendorName || 'A seller'} does not ship to {shippingAddress.country}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  {taxLines.length > 0 ? (
+                    taxLines.map((line) => (
+                      <div
+                        key={`${line.jurisdiction}-${line.name}`}
+                        className="flex justify-between text-gray-600"
+                      >
+                        <span>
+                          {line.name}
+                          {line.inclusive && ' (included)'}
+                        </span>
+                        <span>{money(line.amount)}</span>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="flex justify-between text-gray-600">
+                      <span>Tax</span>
+                      <span>{money(tax)}</span>
+                    </div>
+                  )}
                   <div className="border-t border-gray-200 pt-3">
                     <div className="flex justify-between text-xl font-bold text-gray-900">
                       <span>Total</span>
-                      <span>{formatMoney(total, { fromCents: false })}</span>
+                      <span>{money(total)}</span>
                     </div>
+                    {estimatedTotal.approximate && (
+                      <p className="mt-1 text-sm text-gray-500 text-right">
+                        Approximately {estimatedTotal.text}; charged in {settlementCurrency}
+                      </p>
+                    )}
                   </div>
                 </div>
 
                 <button
                   type="submit"
-                  disabled={isProcessing || !stripe || !clientSecret}
+                  disabled={isProcessing || !stripe || !clientSecret || shippingErrors.length > 0}
                   className="w-full px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-primary hover:bg-primary-dark disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   {isProcessing ? (
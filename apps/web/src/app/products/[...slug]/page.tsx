@@ -12,11 +12,16 @@ import { withBasePath } from '@/lib/path-utils';
 import ImageZoomModal from '@/components/modals/ImageZoomModal';
 import AuctionBadge from '@/components/auctions/AuctionBadge';
 import AuctionDetailsPanel from '@/components/auctions/AuctionDetailsPanel';
+import AuctionBidHistory from '@/components/auctions/AuctionBidHistory';
 import PlaceBidModal from '@/components/auctions/PlaceBidModal';
 import BuyerOfferModal from '@/components/modals/BuyerOfferModal';
 import { AuctionSummary } from '@/types/Auction';
+import { useAuctionSocket } from '@/hooks/useAuctionSocket';
 import { formatMoney } from '@/lib/format';
 import RelatedItemsCarousel from '@/components/ui/RelatedItemsCarousel';
+import ValueChart from '@/components/products/ValueChart';
+import BibliographicDetailsSection from '@/components/books/BibliographicDetails';
+import { useMembership } from '@/hooks/useMembership';
 
 export default function ProductDetailPage() {
   const params = useParams();
@@ -33,6 +38,7 @@ export default function ProductDetailPage() {
   const [showOverflowMenu, setShowOverflowMenu] = useState(false);
   const queryClient = useQueryClient();
   const { data: session } = useSession();
+  const { hasAccess } = useMembership();
 
   // Extract sid from slug array (format: ["title-slug", "sid"] or ["sid"])
   const sid = slugArray.length > 1 ? slugArray[slugArray.length - 1] : slugArray[0];
@@ -82,8 +88,13 @@ export default function ProductDetailPage() {
             startingPrice: a.startingPrice || a.startingBid,
             currentBid: a.currentBid || a.startingPrice || a.startingBid,
             bidCount: a.bidCount || 0,
+            minimumBid: a.minimumBid,
+            bidIncrement: a.bidIncrement,
             startsAt: a.startsAt || a.startDate,
             endsAt: a.endsAt || a.endDate,
+            originalEndsAt: a.originalEndDate,
+            extensionCount: a.extensionCount || 0,
+            softClose: a.softClose,
             status: a.status,
             vendor: a.vendor,
             item: a.item || a.book || a.product,
@@ -122,6 +133,15 @@ export default function ProductDetailPage() {
   // Use auction from URL param first, then fallback to active auction lookup
   const activeAuction = auctionById || activeAuctionByProduct;
 
+  // Live bids, extensions and endings patch the cached auction in place
+  const { viewerCount } = useAuctionSocket({
+    auctionId: activeAuction?.id,
+    onOutbid: () => toast.error("You've been outbid! Place a new bid to stay in the lead."),
+    onExtended: (event) =>
+      toast(`A late bid extended this auction by ${event.extendedByMinutes} min`),
+    onEnded: () => toast('This auction has ended'),
+  });
+
   // Check if current user can edit this product (vendor ownership check)
   const { data: canEdit } = useQuery({
     queryKey: ['can-edit-product', product?.id, product?.type],
@@ -423,7 +443,10 @@ export default function ProductDetailPage() {
 
       {/* Auction Details Panel or Regular Price */}
       {activeAuction ? (
-        <AuctionDetailsPanel auction={activeAuction} className="mb-6 sm:mb-8" />
+        <>
+          <AuctionDetailsPanel auction={activeAuction} viewerCount={viewerCount} className="mb-4" />
+          <AuctionBidHistory auctionId={activeAuction.id} className="mb-6 sm:mb-8" />
+        </>
       ) : (
         <div className="text-3xl sm:text-4xl font-bold text-gray-900 mb-6 sm:mb-8">
           {formatMoney(product.price, { fromCents: false })}
@@ -815,6 +838,32 @@ export default function ProductDetailPage() {
             )}
           </div>
         )}
+
+        {product.type === 'book' && (
+          <BibliographicDetailsSection details={product.bibliographicDetails} />
+        )}
+      </div>
+
+      {/* Value History */}
+      <div className="border border-gray-200 p-4 sm:p-6 md:p-8 mb-8 sm:mb-12">
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-4">Value History</h2>
+        {hasAccess('valueCharts') ? (
+          <ValueChart itemType={product.type} itemId={product.id} />
+        ) : (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <p className="text-sm text-gray-600">
+              See asking price changes, auction hammer prices and accepted offers for this item and
+              every other copy of the work.
+            </p>
+            <Link
+              href="/memberships"
+              className="bg-black text-white px-4 py-2 text-sm font-semibold hover:bg-gray-800 transition whitespace-nowrap"
+            >
+              <FontAwesomeIcon icon={['fal', 'chart-line']} className="mr-2" />
+              Upgrade to Gold
+            </Link>
+          </div>
+        )}
       </div>
 
       {/* Vendor/Seller Info */}
@@ -953,7 +1002,7 @@ export default function ProductDetailPage() {
             <button
               onClick={() => {
                 if (product.vendor?.id) {
-                  window.location.href = `/chat?vendorId=${product.vendor.id}`;
+                  window.location.href = `/chat?vendorId=${product.vendor.id}&itemType=${product.type || 'book'}&itemId=${product.id}`;
                 }
               }}
               className="w-full bg-primary text-white py-3 rounded-lg hover:bg-primary-dark transition-all font-semibold"
@@ -6,6 +6,7 @@ import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import api from '@/lib/api';
 import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import Price from '@/components/ui/Price';
 
 export default function ProductsPage() {
   const searchParams = useSearchParams();
@@ -133,9 +134,11 @@ export default function ProductsPage() {
                   </h3>
                   <p className="text-sm text-gray-300 mb-2">{product.category}</p>
                   <div className="flex justify-between items-center">
-                    <span className="text-xl font-bold text-white">
-                      {Number(product.price).toFixed(0)} USD
-                    </span>
+                    <Price
+                      amount={product.price}
+                      currency={product.currency}
+                      className="text-xl font-bold text-white"
+                    />
                   </div>
                 </div>
               </Link>
@@ -6,31 +6,50 @@ import Link from 'next/link';
 import { useQuery } from '@tanstack/react-query';
 import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
 import { BookCard } from '@/components/books/BookCard';
-import { BooksFilters } from '@/components/books/BooksFilters';
+import {
+  BooksFilters,
+  BIBLIOGRAPHIC_FILTERS,
+  EMPTY_BIBLIOGRAPHIC_FILTERS,
+  type BibliographicFilterState,
+} from '@/components/books/BooksFilters';
 import Pagination from '@/components/shared/Pagination';
+import {
+  appendFacetSelections,
+  hasFacetSelections,
+  readFacetSelections,
+} from '@/components/shared/FacetPanel';
 import api from '@/lib/api';
 import { withBasePath } from '@/lib/path-utils';
 import type { BookListItem } from '@/types';
+import type { FacetSelections, SearchResponse } from '@/types/Search';
 import { Auction } from '@/types/Auction';
 import AuctionCountdown from '@/components/auctions/AuctionCountdown';
 import PageLoading from '@/components/ui/PageLoading';
 import InlineError from '@/components/ui/InlineError';
 import EmptyState from '@/components/ui/EmptyState';
 
-interface BooksResponse {
-  success: boolean;
-  data: BookListItem[];
-  pagination: {
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  };
-}
+// Book documents as the search index returns them
+type BookHit = Omit<BookListItem, 'id' | 'slug' | 'createdAt'> & { id: string; createdAt: number };
+
+const toListItem = (hit: BookHit): BookListItem => ({
+  ...hit,
+  id: Number(hit.id),
+  slug: hit.sid || hit.id,
+  createdAt: new Date(hit.createdAt).toISOString(),
+});
+
+// Listing sort options -> search index sort attributes
+const SEARCH_SORTS: Record<string, string> = {
+  menu_order: 'menuOrder',
+  createdAt: 'createdAt',
+  price: 'price',
+  title: 'title',
+};
 
-interface FilterState {
+const PAGE_SIZE = 24;
+
+interface FilterState extends BibliographicFilterState {
   search: string;
-  category: string;
   author: string;
   minPrice: string;
   maxPrice: string;
@@ -47,14 +66,21 @@ export default function ShopPage() {
   // Initialize state from URL search params (persisted on refresh)
   const [filters, setFilters] = useState<FilterState>(() => ({
     search: searchParams.get('search') || '',
-    category: searchParams.get('category') || '',
     author: searchParams.get('author') || '',
     minPrice: searchParams.get('minPrice') || '',
     maxPrice: searchParams.get('maxPrice') || '',
+    ...(Object.fromEntries(
+      BIBLIOGRAPHIC_FILTERS.map((key) => [key, searchParams.get(key) || '']),
+    ) as BibliographicFilterState),
     sortBy: searchParams.get('sortBy') || 'menu_order',
     sortOrder: searchParams.get('sortOrder') || 'ASC',
   }));
 
+  // Facet selections live in repeated params, e.g. ?condition=Fine&condition=Good
+  const [facetSelections, setFacetSelections] = useState<FacetSelections>(() =>
+    readFacetSelections(searchParams),
+  );
+
   const [page, setPage] = useState(() => Number(searchParams.get('page')) || 1);
   const [showFilters, setShowFilters] = useState(true);
 
@@ -68,24 +94,28 @@ export default function ShopPage() {
     const params = new URLSearchParams();
     if (page > 1) params.set('page', String(page));
     if (filters.search) params.set('search', filters.search);
-    if (filters.category) params.set('category', filters.category);
+    appendFacetSelections(params, facetSelections);
     if (filters.author) params.set('author', filters.author);
     if (filters.minPrice) params.set('minPrice', filters.minPrice);
     if (filters.maxPrice) params.set('maxPrice', filters.maxPrice);
+    for (const key of BIBLIOGRAPHIC_FILTERS) {
+      if (filters[key]) params.set(key, filters[key]);
+    }
     if (filters.sortBy && filters.sortBy !== 'menu_order') params.set('sortBy', filters.sortBy);
     if (filters.sortOrder && filters.sortOrder !== 'ASC') params.set('sortOrder', filters.sortOrder);
     const qs = params.toString();
     router.replace(qs ? `${pathname}?${qs}` : pathname, { scroll: false });
-  }, [page, filters, pathname, router]);
+  }, [page, filters, facetSelections, pathname, router]);
 
   // Reset to page 1 when filters change (but not on initial mount)
-  const prevFiltersRef = useRef(filters);
+  const prevFiltersRef = useRef({ filters, facetSelections });
   useEffect(() => {
-    if (prevFiltersRef.current !== filters) {
-      prevFiltersRef.current = filters;
+    const prev = prevFiltersRef.current;
+    if (prev.filters !== filters || prev.facetSelections !== facetSelections) {
+      prevFiltersRef.current = { filters, facetSelections };
       setPage(1);
     }
-  }, [filters]);
+  }, [filters, facetSelections]);
 
   // Scroll to top when page changes
   useEffect(() => {
@@ -93,26 +123,31 @@ export default function ShopPage() {
   }, [page]);
 
   const { data, isLoading, isError, error } = useQuery({
-    queryKey: ['books', filters, page],
+    queryKey: ['books', filters, facetSelections, page],
     queryFn: async () => {
-      const params: any = {
-        page,
-        limit: 24,
-        sortBy: filters.sortBy,
-        sortOrder: filters.sortOrder,
-      };
-
-      if (filters.search) params.search = filters.search;
-      if (filters.category) params.category = filters.category;
-      if (filters.author) params.author = filters.author;
-      if (filters.minPrice) params.minPrice = filters.minPrice;
-      if (filters.maxPrice) params.maxPrice = filters.maxPrice;
-
-      const { data } = await api.get<BooksResponse>('/books', { params });
+      const params = new URLSearchParams({
+        type: 'books',
+        limit: String(PAGE_SIZE),
+        offset: String((page - 1) * PAGE_SIZE),
+        sort: `${SEARCH_SORTS[filters.sortBy] || 'menuOrder'}:${filters.sortOrder.toLowerCase()}`,
+      });
+
+      if (filters.search) params.set('q', filters.search);
+      if (filters.author) params.set('author', filters.author);
+      if (filters.minPrice) params.set('minPrice', filters.minPrice);
+      if (filters.maxPrice) params.set('maxPrice', filters.maxPrice);
+      for (const key of BIBLIOGRAPHIC_FILTERS) {
+        if (filters[key]) params.set(key, filters[key]);
+      }
+      appendFacetSelections(params, facetSelections);
+
+      const { data } = await api.get<SearchResponse<BookHit>>(`/search?${params.toString()}`);
       return data;
     },
     staleTime: 0,
     gcTime: 0,
+    // Keep facet counts on screen while the next selection loads
+    placeholderData: (previous) => previous,
   });
 
   // Fetch active auctions
@@ -129,8 +164,14 @@ export default function ShopPage() {
     },
   });
 
-  const books = data?.data ?? [];
-  const pagination = data?.pagination ?? { total: 0, page: 1, limit: 24, totalPages: 1 };
+  const books = (data?.data.books ?? []).map(toListItem);
+  const total = data?.pagination.total ?? 0;
+  const pagination = {
+    total,
+    page,
+    limit: PAGE_SIZE,
+    totalPages: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+  };
 
   // Create a map of bookId -> auction for easy lookup
   const auctionMap = new Map<number, Auction>();
@@ -147,12 +188,13 @@ export default function ShopPage() {
   };
 
   const clearFilters = () => {
+    setFacetSelections({});
     setFilters({
       search: '',
-      category: '',
       author: '',
       minPrice: '',
       maxPrice: '',
+      ...EMPTY_BIBLIOGRAPHIC_FILTERS,
       sortBy: 'menu_order',
       sortOrder: 'ASC',
     });
@@ -218,7 +260,11 @@ export default function ShopPage() {
               className="px-6 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors flex items-center gap-2"
             >
               <span className="font-medium">Filters</span>
-              {(filters.category || filters.author || filters.minPrice || filters.maxPrice) && (
+              {(hasFacetSelections(facetSelections) ||
+                filters.author ||
+                filters.minPrice ||
+                filters.maxPrice ||
+                BIBLIOGRAPHIC_FILTERS.some((key) => filters[key])) && (
                 <span className="ml-1 px-2 py-0.5 bg-primary text-white text-xs">Active</span>
               )}
             </button>
@@ -226,7 +272,14 @@ export default function ShopPage() {
 
           {/* Expanded Filters */}
           {showFilters && (
-            <BooksFilters filters={filters} onChange={handleFilterChange} onClear={clearFilters} />
+            <BooksFilters
+              filters={filters}
+              onChange={handleFilterChange}
+              onClear={clearFilters}
+              facets={data?.data.facets}
+              facetSelections={facetSelections}
+              onFacetChange={setFacetSelections}
+            />
           )}
         </div>
       </div>
@@ -7,7 +7,12 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
 import { BookCard } from '@/components/books/BookCard';
-import { BooksFilters } from '@/components/books/BooksFilters';
+import {
+  BooksFilters,
+  BIBLIOGRAPHIC_FILTERS,
+  EMPTY_BIBLIOGRAPHIC_FILTERS,
+  type BibliographicFilterState,
+} from '@/components/books/BooksFilters';
 import api from '@/lib/api';
 import type { BookListItem } from '@/types';
 import { withBasePath } from '@/lib/path-utils';
@@ -49,7 +54,7 @@ interface BooksResponse {
   };
 }
 
-interface FilterState {
+interface FilterState extends BibliographicFilterState {
   search: string;
   category: string;
   author: string;
@@ -69,6 +74,7 @@ export default function VendorPage() {
     author: '',
     minPrice: '',
     maxPrice: '',
+    ...EMPTY_BIBLIOGRAPHIC_FILTERS,
     sortBy: 'menu_order',
     sortOrder: 'ASC',
   });
@@ -106,6 +112,9 @@ export default function VendorPage() {
       if (filters.author) params.author = filters.author;
       if (filters.minPrice) params.minPrice = filters.minPrice;
       if (filters.maxPrice) params.maxPrice = filters.maxPrice;
+      for (const key of BIBLIOGRAPHIC_FILTERS) {
+        if (filters[key]) params[key] = filters[key];
+      }
 
       const res = await api.get<BooksResponse>('/books', { params });
       return res.data;
@@ -124,6 +133,7 @@ export default function VendorPage() {
       author: '',
       minPrice: '',
       maxPrice: '',
+      ...EMPTY_BIBLIOGRAPHIC_FILTERS,
       sortBy: 'menu_order',
       sortOrder: 'ASC',
     });
@@ -22,6 +22,7 @@ const navItems: NavItem[] = [
   { href: '/account/orders', labelKey: 'orders', icon: ['fal', 'box'] },
   { href: '/account/bids', labelKey: 'bids', icon: ['fal', 'gavel'] },
   { href: '/account/offers', labelKey: 'offers', icon: ['fal', 'tag'] },
+  { href: '/account/saved-searches', labelKey: 'savedSearches', icon: ['fal', 'search'] },
   { href: '/account/settings', labelKey: 'settings', icon: ['fal', 'sliders'] },
   { href: '/memberships', labelKey: 'membership', icon: ['fal', 'crown'] },
 ];
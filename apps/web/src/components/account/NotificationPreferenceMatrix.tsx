@@ -0,0 +1,139 @@
+'use client';
+
+import type {
+  NotificationChannel,
+  NotificationDigestMode,
+  NotificationPreferenceCenter,
+  NotificationPreferenceChanges,
+} from '@/types/NotificationPreferences';
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  inApp: 'In-app',
+  email: 'Email',
+  sms: 'SMS',
+  push: 'Pop-up',
+};
+
+export const DIGEST_LABELS: Record<NotificationDigestMode, string> = {
+  instant: 'Right away',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
+
+interface NotificationPreferenceMatrixProps {
+  center: NotificationPreferenceCenter;
+  changes: NotificationPreferenceChanges;
+  emailEnabled: boolean; // the master email switch, as currently set on the form
+  onChange: (type: string, channel: NotificationChannel, enabled: boolean) => void;
+  onDigestChange: (type: string, mode: NotificationDigestMode) => void;
+}
+
+/**
+ * Channel choices and email frequency for every notification type, grouped by category
+ * Required channels are locked on; email follows the master switch and SMS needs a verified phone.
+ */
+export default function NotificationPreferenceMatrix({
+  center,
+  changes,
+  emailEnabled,
+  onChange,
+  onDigestChange,
+}: NotificationPreferenceMatrixProps) {
+  const channelAvailable = (channel: NotificationChannel) =>
+    (channel !== 'email' || emailEnabled) && (channel !== 'sms' || center.smsEligible);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200">
+            <th className="py-2 pr-4 text-left font-medium text-gray-700">Notify me about</th>
+            {center.channels.map((channel) => (
+              <th key={channel} className="py-2 px-2 w-16 text-center font-medium text-gray-700">
+                {CHANNEL_LABELS[channel]}
+              </th>
+            ))}
+            <th className="py-2 pl-2 text-left font-medium text-gray-700">Email frequency</th>
+          </tr>
+        </thead>
+        {center.categories.map((category) => (
+          <tbody key={category.key}>
+            <tr>
+              <th
+                colSpan={center.channels.length + 2}
+                className="pt-4 pb-1 text-left text-xs font-semibold uppercase tracking-wide text-gray-500"
+              >
+                {category.label}
+              </th>
+            </tr>
+            {category.types.map((row) => (
+              <tr key={row.type} className="border-b border-gray-100">
+                <td className="py-2 pr-4 text-gray-700">{row.label}</td>
+                {center.channels.map((channel) => {
+                  const setting = row.channels[channel];
+                  if (!setting) {
+                    return (
+                      <td key={channel} className="py-2 px-2 text-center text-gray-300">
+                        &mdash;
+                      </td>
+                    );
+                  }
+
+                  const locked = setting.required || !channelAvailable(channel);
+                  const checked = setting.required
+                    ? true
+                    : channelAvailable(channel) &&
+                      (changes[row.type]?.[channel] ?? setting.enabled);
+
+                  return (
+                    <td key={channel} className="py-2 px-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        disabled={locked}
+                        onChange={(e) => onChange(row.type, channel, e.target.checked)}
+                        title={
+                          setting.required
+                            ? 'Always sent for account and payment updates'
+                            : `${CHANNEL_LABELS[channel]}: ${row.label}`
+                        }
+                        aria-label={`${CHANNEL_LABELS[channel]}: ${row.label}`}
+                        className="text-base text-secondary focus:ring-secondary border-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                      />
+                    </td>
+                  );
+                })}
+                <td className="py-2 pl-2">
+                  {row.digest && (
+                    <select
+                      value={changes[row.type]?.digest ?? row.digest}
+                      disabled={
+                        !emailEnabled || !(changes[row.type]?.email ?? row.channels.email?.enabled)
+                      }
+                      onChange={(e) =>
+                        onDigestChange(row.type, e.target.value as NotificationDigestMode)
+                      }
+                      aria-label={`Email frequency: ${row.label}`}
+                      className="px-2 py-1 text-sm border border-gray-300 focus:ring-2 focus:ring-secondary focus:border-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {center.digestModes.map((mode) => (
+                        <option key={mode} value={mode}>
+                          {DIGEST_LABELS[mode]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        ))}
+      </table>
+      {!center.smsEligible && (
+        <p className="mt-3 text-xs text-gray-500">
+          Verify your phone number and enable SMS below to choose text messages.
+        </p>
+      )}
+    </div>
+  );
+}
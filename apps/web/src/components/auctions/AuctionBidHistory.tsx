@@ -0,0 +1,73 @@
+'use client';
+
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import api from '@/lib/api';
+import { formatMoney } from '@/lib/format';
+import { AuctionBid } from '@/types/Auction';
+
+interface AuctionBidHistoryProps {
+  auctionId: number;
+  className?: string;
+}
+
+/**
+ * Public bid history for an auction
+ * Automatic (proxy) bids are labelled; bidders' hidden maximums are never returned by the API
+ */
+export default function AuctionBidHistory({ auctionId, className = '' }: AuctionBidHistoryProps) {
+  const { data: bids = [], isLoading } = useQuery<AuctionBid[]>({
+    queryKey: ['auctionBids', auctionId],
+    queryFn: async () => {
+      const response = await api.get(`/auctions/${auctionId}/bids`, { params: { limit: 20 } });
+      return response.data.data || [];
+    },
+  });
+
+  const bidderName = (bid: AuctionBid) => {
+    const first = bid.user?.firstName || 'Bidder';
+    const lastInitial = bid.user?.lastName ? ` ${bid.user.lastName.charAt(0)}.` : '';
+    return `${first}${lastInitial}`;
+  };
+
+  return (
+    <div className={`border border-gray-200 ${className}`}>
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200 bg-gray-50">
+        <FontAwesomeIcon icon={['fal', 'list-ol'] as [string, string]} />
+        <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">Bid History</h3>
+      </div>
+
+      {isLoading ? (
+        <p className="px-4 py-6 text-sm text-gray-500">Loading bids...</p>
+      ) : bids.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-gray-500">No bids yet. Be the first to bid!</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {bids.map((bid, index) => (
+            <li key={bid.id} className="flex items-center justify-between px-4 py-3">
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {bidderName(bid)}
+                  {bid.isAutoBid && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs bg-blue-100 text-blue-800">
+                      Auto-bid
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {new Date(bid.createdAt).toLocaleString()}
+                </div>
+              </div>
+              <div
+                className={`text-sm font-bold ${index === 0 ? 'text-secondary-900' : 'text-gray-600'}`}
+              >
+                {formatMoney(bid.amount, { decimals: 2 })}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -7,10 +7,16 @@ import { AuctionSummary } from '@/types/Auction';
 
 interface AuctionDetailsPanelProps {
   auction: AuctionSummary;
+  // Live count of people in the auction room, when connected
+  viewerCount?: number | null;
   className?: string;
 }
 
-export default function AuctionDetailsPanel({ auction, className = '' }: AuctionDetailsPanelProps) {
+export default function AuctionDetailsPanel({
+  auction,
+  viewerCount,
+  className = '',
+}: AuctionDetailsPanelProps) {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -44,6 +50,12 @@ export default function AuctionDetailsPanel({ auction, className = '' }: Auction
           </div>
           <div className="text-sm text-gray-600 mt-1">
             {auction.bidCount} {auction.bidCount === 1 ? 'bid' : 'bids'}
+            {!!viewerCount && (
+              <span className="ml-2 text-secondary-700">
+                <FontAwesomeIcon icon={['fal', 'eye'] as [string, string]} className="mr-1" />
+                {viewerCount} watching
+              </span>
+            )}
           </div>
         </div>
 
@@ -57,6 +69,12 @@ export default function AuctionDetailsPanel({ auction, className = '' }: Auction
             <AuctionCountdown endsAt={auction.endsAt} />
           </div>
           <div className="text-sm text-gray-600 mt-1">Ends {formatDate(auction.endsAt)}</div>
+          {!!auction.extensionCount && (
+            <div className="text-xs text-secondary-700 font-semibold mt-1">
+              Extended {auction.extensionCount} {auction.extensionCount === 1 ? 'time' : 'times'} by
+              late bids
+            </div>
+          )}
         </div>
 
         {/* Starting Price */}
@@ -71,6 +89,16 @@ export default function AuctionDetailsPanel({ auction, className = '' }: Auction
           <div className="text-sm text-gray-600 mt-1">Started {formatDate(auction.startsAt)}</div>
         </div>
       </div>
+
+      {auction.softClose && auction.softClose.windowMinutes > 0 && (
+        <p className="mt-4 text-xs text-gray-600 text-center md:text-left">
+          <FontAwesomeIcon icon={['fal', 'info-circle'] as [string, string]} className="mr-1" />
+          Soft close: a bid in the final {auction.softClose.windowMinutes}{' '}
+          {auction.softClose.windowMinutes === 1 ? 'minute' : 'minutes'} extends the auction by{' '}
+          {auction.softClose.extensionMinutes}{' '}
+          {auction.softClose.extensionMinutes === 1 ? 'minute' : 'minutes'}.
+        </p>
+      )}
     </div>
   );
 }
@@ -6,7 +6,7 @@ import { useRouter } from 'next/navigation';
 import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
 import toast from 'react-hot-toast';
 import api from '@/lib/api';
-import { AuctionSummary } from '@/types/Auction';
+import { AuctionSummary, PlaceBidResponse } from '@/types/Auction';
 import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
 import PhoneInput from '@/components/forms/PhoneInput';
@@ -31,6 +31,8 @@ function BidForm({
   setupIntentClientSecret: string | null;
 }) {
   const [bidAmount, setBidAmount] = useState<string>('');
+  const [useMaxBid, setUseMaxBid] = useState(false);
+  const [maxBidAmount, setMaxBidAmount] = useState<string>('');
   const [smsOptIn, setSmsOptIn] = useState(false);
   const [phoneNumber, setPhoneNumber] = useState('');
   const [collectCard, setCollectCard] = useState(true); // Auto-expanded by default
@@ -43,7 +45,13 @@ function BidForm({
   const startingPrice = Number(auction.startingPrice) || 0;
   const rawCurrentBid = Number(auction.currentBid);
   const currentBid = rawCurrentBid > 0 ? rawCurrentBid : startingPrice;
-  const minBid = rawCurrentBid > 0 ? rawCurrentBid + 1 : startingPrice;
+  // Server computes the minimum from the auction's bid increment
+  const minBid =
+    Number(auction.minimumBid) > 0
+      ? Number(auction.minimumBid)
+      : rawCurrentBid > 0
+        ? rawCurrentBid + 1
+        : startingPrice;
 
   // Notify parent when collectCard changes
   useEffect(() => {
@@ -57,27 +65,37 @@ function BidForm({
   const placeBidMutation = useMutation({
     mutationFn: async ({
       amount,
+      maxBid,
       paymentMethodId,
     }: {
       amount: number;
+      maxBid?: number;
       paymentMethodId?: string;
     }) => {
       const response = await api.post(`/auctions/${auction.id}/bids`, {
         amount,
+        maxBid,
         paymentMethodId,
         smsOptIn,
         phoneNumber: smsOptIn ? phoneNumber : undefined,
       });
-      return response.data;
+      return response.data as { success: boolean; message: string; data: PlaceBidResponse };
     },
-    onSuccess: () => {
-      toast.success('Bid placed successfully!');
+    onSuccess: (result) => {
+      if (result.data?.isLeading === false) {
+        toast.error(result.message || "Another bidder's maximum is higher. Try bidding again.");
+      } else {
+        toast.success(result.message || 'Bid placed successfully!');
+      }
       queryClient.invalidateQueries({ queryKey: ['activeAuction'] });
       queryClient.invalidateQueries({ queryKey: ['auctionById'] });
+      queryClient.invalidateQueries({ queryKey: ['auctionBids', auction.id] });
       queryClient.invalidateQueries({ queryKey: ['product'] });
       router.refresh();
       onClose();
       setBidAmount('');
+      setMaxBidAmount('');
+      setUseMaxBid(false);
       setCollectCard(false);
     },
     onError: (error: any) => {
@@ -101,6 +119,15 @@ function BidForm({
       return;
     }
 
+    let maxBid: number | undefined;
+    if (useMaxBid) {
+      maxBid = parseFloat(maxBidAmount);
+      if (isNaN(maxBid) || maxBid < amount) {
+        toast.error('Your maximum bid must be at least your bid amount');
+        return;
+      }
+    }
+
     // Validate payment method is required
     if (!collectCard) {
       toast.error('Payment method is required to place a bid');
@@ -142,7 +169,7 @@ function BidForm({
       }
     }
 
-    placeBidMutation.mutate({ amount, paymentMethodId });
+    placeBidMutation.mutate({ amount, maxBid, paymentMethodId });
   };
 
   return (
@@ -206,6 +233,46 @@ function BidForm({
             </p>
           </div>
 
+          {/* Maximum (proxy) bid */}
+          <div className="mb-6 border border-gray-200 p-4 rounded-lg bg-gray-50">
+            <div className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                id="useMaxBid"
+                checked={useMaxBid}
+                onChange={(e) => setUseMaxBid(e.target.checked)}
+                className="mt-1 w-4 h-4 text-secondary-600 border-gray-300 rounded focus:ring-secondary-500"
+                disabled={placeBidMutation.isPending}
+              />
+              <label
+                htmlFor="useMaxBid"
+                className="text-sm font-medium text-gray-700 cursor-pointer"
+              >
+                <div>Bid automatically up to a maximum</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  We'll bid for you in increments only as needed to keep you in the lead. Your
+                  maximum stays private.
+                </div>
+              </label>
+            </div>
+            {useMaxBid && (
+              <div className="relative mt-3">
+                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+                <input
+                  type="number"
+                  id="maxBidAmount"
+                  value={maxBidAmount}
+                  onChange={(e) => setMaxBidAmount(e.target.value)}
+                  min={bidAmount || minBid}
+                  step="1"
+                  placeholder="Your maximum bid"
+                  className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded focus:border-secondary-600 focus:outline-none"
+                  disabled={placeBidMutation.isPending}
+                />
+              </div>
+            )}
+          </div>
+
           {/* SMS Notifications Opt-in */}
           <div className="mb-6 border border-gray-200 p-4 rounded-lg bg-gray-50">
             <div className="flex items-start gap-3 mb-3">
@@ -1,4 +1,5 @@
 export { default as AuctionBadge } from './AuctionBadge';
+export { default as AuctionBidHistory } from './AuctionBidHistory';
 export { default as AuctionCountdown } from './AuctionCountdown';
 export { default as AuctionDetailsPanel } from './AuctionDetailsPanel';
 export { default as PlaceBidModal } from './PlaceBidModal';
@@ -0,0 +1,98 @@
+'use client';
+
+import type { BibliographicDetails, DustJacketState, SignatureType } from '@/types/Book';
+
+export const DUST_JACKET_LABELS: Record<DustJacketState, string> = {
+  fine: 'Fine',
+  'near-fine': 'Near Fine',
+  'very-good': 'Very Good',
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor',
+  facsimile: 'Facsimile jacket',
+  lacking: 'Lacking jacket',
+  'not-issued': 'Issued without jacket',
+};
+
+export const SIGNATURE_LABELS: Record<SignatureType, string> = {
+  signed: 'Signed',
+  inscribed: 'Inscribed',
+  association: 'Association copy',
+};
+
+// "No. 45 of 250", "Limited to 250" or "No. 45"
+export function formatLimitation(details: BibliographicDetails): string | null {
+  const { limitationNumber, limitationTotal } = details;
+  if (limitationNumber && limitationTotal) return `No. ${limitationNumber} of ${limitationTotal}`;
+  if (limitationTotal) return `Limited to ${limitationTotal} copies`;
+  if (limitationNumber) return `No. ${limitationNumber}`;
+  return null;
+}
+
+interface BibliographicDetailsSectionProps {
+  details?: BibliographicDetails | null;
+}
+
+/**
+ * "Bibliographic details" section of a book page; renders nothing when no details are set
+ */
+export default function BibliographicDetailsSection({ details }: BibliographicDetailsSectionProps) {
+  if (!details || Object.keys(details).length === 0) return null;
+
+  const rows: Array<[string, string]> = [];
+  if (details.firstPrinting !== undefined) {
+    rows.push(['First printing', details.firstPrinting ? 'Yes' : 'No']);
+  }
+  if (details.dustJacket) {
+    const label = DUST_JACKET_LABELS[details.dustJacket];
+    const graded = !['facsimile', 'lacking', 'not-issued'].includes(details.dustJacket);
+    rows.push(['Dust jacket', graded ? `Original jacket, ${label}` : label]);
+  }
+  if (details.signature) {
+    const by = details.signedBy ? ` by ${details.signedBy}` : '';
+    rows.push(['Signature', `${SIGNATURE_LABELS[details.signature]}${by}`]);
+  }
+  if (details.inscription) rows.push(['Inscription', details.inscription]);
+  const limitation = formatLimitation(details);
+  if (limitation) rows.push(['Limitation', limitation]);
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg sm:text-xl font-bold text-gray-900 mb-3">Bibliographic details</h3>
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex gap-2">
+            <dt className="font-semibold text-gray-900 shrink-0">{label}:</dt>
+            <dd className="text-gray-700">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {details.pointsOfIssue && details.pointsOfIssue.length > 0 && (
+        <div className="mt-4 text-sm">
+          <p className="font-semibold text-gray-900 mb-1">Points of issue</p>
+          <ul className="list-disc pl-5 space-y-0.5 text-gray-700">
+            {details.pointsOfIssue.map((point, i) => (
+              <li key={i}>{point}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {details.provenance && details.provenance.length > 0 && (
+        <div className="mt-4 text-sm">
+          <p className="font-semibold text-gray-900 mb-1">Provenance</p>
+          <ol className="border-l-2 border-gray-200 pl-4 space-y-1.5 text-gray-700">
+            {details.provenance.map((entry, i) => (
+              <li key={i}>
+                <span className="font-medium text-gray-900">{entry.owner}</span>
+                {entry.period && <span className="text-gray-500"> ({entry.period})</span>}
+                {entry.note && <span> — {entry.note}</span>}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
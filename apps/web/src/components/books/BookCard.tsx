@@ -8,6 +8,7 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 import { useAddToWishlist, useRemoveFromWishlist, useIsInWishlist } from '@/hooks/useWishlist';
 import api from '@/lib/api';
+import Price from '@/components/ui/Price';
 import type { Book, BookListItem } from '@/types';
 
 interface BookCardProps {
@@ -146,17 +147,23 @@ export function BookCard({ book }: BookCardProps) {
             <div className="flex items-center gap-2 mb-3">
               {book.salePrice && Number(book.salePrice) < Number(book.price) ? (
                 <>
-                  <span className="text-2xl font-bold text-white">
-                    {Number(book.salePrice).toFixed(0)} USD
-                  </span>
-                  <span className="text-lg font-medium text-gray-400 line-through">
-                    {Number(book.price).toFixed(0)} USD
-                  </span>
+                  <Price
+                    amount={Number(book.salePrice)}
+                    currency={book.currency}
+                    className="text-2xl font-bold text-white"
+                  />
+                  <Price
+                    amount={book.price}
+                    currency={book.currency}
+                    className="text-lg font-medium text-gray-400 line-through"
+                  />
                 </>
               ) : (
-                <span className="text-2xl font-bold text-white">
-                  {Number(book.price).toFixed(0)} USD
-                </span>
+                <Price
+                  amount={book.price}
+                  currency={book.currency}
+                  className="text-2xl font-bold text-white"
+                />
               )}
             </div>
 
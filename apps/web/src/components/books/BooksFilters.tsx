@@ -3,10 +3,32 @@
 import { useEffect, useState } from 'react';
 import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
 import api from '@/lib/api';
+import { DUST_JACKET_LABELS, SIGNATURE_LABELS } from '@/components/books/BibliographicDetails';
+import FacetPanel, { hasFacetSelections } from '@/components/shared/FacetPanel';
+import type { FacetCounts, FacetSelections } from '@/types/Search';
 
-interface FilterState {
+// Rare-book detail filters, sent to GET /books as query params of the same name
+export const BIBLIOGRAPHIC_FILTERS = [
+  'firstPrinting',
+  'dustJacket',
+  'signature',
+  'provenance',
+  'limited',
+] as const;
+
+export type BibliographicFilterState = Record<(typeof BIBLIOGRAPHIC_FILTERS)[number], string>;
+
+export const EMPTY_BIBLIOGRAPHIC_FILTERS: BibliographicFilterState = {
+  firstPrinting: '',
+  dustJacket: '',
+  signature: '',
+  provenance: '',
+  limited: '',
+};
+
+interface FilterState extends Partial<BibliographicFilterState> {
   search: string;
-  category: string;
+  category?: string; // unused when filtering by facets
   author: string;
   minPrice: string;
   maxPrice: string;
@@ -18,6 +40,10 @@ interface BooksFiltersProps {
   filters: FilterState;
   onChange: (filters: Partial<FilterState>) => void;
   onClear: () => void;
+  // Facet counts from search; when given, facets replace the single category select
+  facets?: FacetCounts;
+  facetSelections?: FacetSelections;
+  onFacetChange?: (selections: FacetSelections) => void;
 }
 
 interface Category {
@@ -26,7 +52,14 @@ interface Category {
   slug: string;
 }
 
-export function BooksFilters({ filters, onChange, onClear }: BooksFiltersProps) {
+export function BooksFilters({
+  filters,
+  onChange,
+  onClear,
+  facets,
+  facetSelections = {},
+  onFacetChange,
+}: BooksFiltersProps) {
   const [categories, setCategories] = useState<Category[]>([]);
   const [loadingCategories, setLoadingCategories] = useState(true);
 
@@ -46,8 +79,19 @@ export function BooksFilters({ filters, onChange, onClear }: BooksFiltersProps)
     fetchCategories();
   }, []);
 
+  const faceted = !!onFacetChange;
+  const categoryNames = Object.fromEntries(categories.map((c) => [c.slug, c.name]));
+
   const hasActiveFilters =
-    filters.category || filters.author || filters.minPrice || filters.maxPrice;
+    hasFacetSelections(facetSelections) ||
+    filters.category ||
+    filters.author ||
+    filters.minPrice ||
+    filters.maxPrice ||
+    BIBLIOGRAPHIC_FILTERS.some((key) => filters[key]);
+
+  const toggle = (key: 'firstPrinting' | 'provenance' | 'limited') =>
+    onChange({ [key]: filters[key] ? '' : 'true' });
 
   const handleSortChange = (value: string) => {
     // Map sort option to sortBy and sortOrder
@@ -90,22 +134,24 @@ export function BooksFilters({ filters, onChange, onClear }: BooksFiltersProps)
     <div className="mt-4 pt-4 border-t border-gray-200 animate-in slide-in-from-top duration-300">
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {/* Category Filter */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
-          <select
-            value={filters.category}
-            onChange={(e) => onChange({ category: e.target.value })}
-            className="w-full px-3 py-2 border border-gray-300 focus:ring-2 focus:ring-primary focus:border-primary"
-            disabled={loadingCategories}
-          >
-            <option value="">All Categories</option>
-            {categories.map((category) => (
-              <option key={category.id} value={category.slug}>
-                {category.name}
-              </option>
-            ))}
-          </select>
-        </div>
+        {!faceted && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+            <select
+              value={filters.category || ''}
+              onChange={(e) => onChange({ category: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 focus:ring-2 focus:ring-primary focus:border-primary"
+              disabled={loadingCategories}
+            >
+              <option value="">All Categories</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.slug}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
 
         {/* Author Filter */}
         <div>
@@ -163,6 +209,76 @@ export function BooksFilters({ filters, onChange, onClear }: BooksFiltersProps)
         </div>
       </div>
 
+      {/* Facets with live counts */}
+      {faceted && (
+        <FacetPanel
+          facets={facets}
+          selections={facetSelections}
+          onChange={onFacetChange}
+          categoryNames={categoryNames}
+          query={[filters.search, filters.author].filter(Boolean).join(' ')}
+          type="books"
+          className="mt-4 pt-4 border-t border-gray-100"
+        />
+      )}
+
+      {/* Rare Book Details */}
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Dust Jacket</label>
+          <select
+            value={filters.dustJacket || ''}
+            onChange={(e) => onChange({ dustJacket: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 focus:ring-2 focus:ring-primary focus:border-primary"
+          >
+            <option value="">Any</option>
+            <option value="original">Original jacket (any grade)</option>
+            {Object.entries(DUST_JACKET_LABELS).map(([state, label]) => (
+              <option key={state} value={state}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Signature</label>
+          <select
+            value={filters.signature || ''}
+            onChange={(e) => onChange({ signature: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 focus:ring-2 focus:ring-primary focus:border-primary"
+          >
+            <option value="">Any</option>
+            <option value="any">Signed or inscribed</option>
+            {Object.entries(SIGNATURE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label} only
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="lg:col-span-2 flex flex-wrap items-end gap-x-6 gap-y-2 pb-2">
+          {(
+            [
+              ['firstPrinting', 'First printing'],
+              ['provenance', 'With provenance'],
+              ['limited', 'Limited edition'],
+            ] as const
+          ).map(([key, label]) => (
+            <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!filters[key]}
+                onChange={() => toggle(key)}
+                className="h-4 w-4 text-primary focus:ring-primary"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
       {/* Clear Filters Button */}
       {hasActiveFilters && (
         <div className="mt-4 flex justify-center md:justify-end">
@@ -0,0 +1,92 @@
+'use client';
+
+import { useRef } from 'react';
+import { useSession } from 'next-auth/react';
+import { useMutation } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import { getApiUrl } from '@/lib/api';
+import { CHAT_ATTACHMENT_ACCEPT, MAX_CHAT_ATTACHMENT_MB, MAX_CHAT_ATTACHMENTS } from '@/types/Chat';
+
+interface ChatAttachmentButtonProps {
+  conversationId?: number | string | null;
+  caption?: string; // sent as the message text alongside the files
+  onSent?: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Paperclip button that sends the chosen photos/PDFs as one message
+ * The server broadcasts it as message:new like any other message.
+ */
+export default function ChatAttachmentButton({
+  conversationId,
+  caption = '',
+  onSent,
+  disabled = false,
+  className = '',
+}: ChatAttachmentButtonProps) {
+  const { data: session } = useSession();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const sendAttachments = useMutation({
+    mutationFn: async (files: File[]) => {
+      const formData = new FormData();
+      files.forEach((file) => formData.append('files', file));
+      if (caption.trim()) formData.append('message', caption.trim());
+
+      const res = await fetch(getApiUrl(`api/chat/conversations/${conversationId}/attachments`), {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${session?.accessToken}` },
+        body: formData,
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(result.message || 'Failed to send attachments');
+      return result.data;
+    },
+    onSuccess: () => onSent?.(),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    if (files.length > MAX_CHAT_ATTACHMENTS) {
+      toast.error(`You can attach up to ${MAX_CHAT_ATTACHMENTS} files at a time`);
+      return;
+    }
+    if (files.some((file) => file.size > MAX_CHAT_ATTACHMENT_MB * 1024 * 1024)) {
+      toast.error(`Files can be at most ${MAX_CHAT_ATTACHMENT_MB}MB`);
+      return;
+    }
+    sendAttachments.mutate(files);
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={CHAT_ATTACHMENT_ACCEPT}
+        multiple
+        onChange={handleFiles}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || !conversationId || sendAttachments.isPending}
+        title="Attach photos or PDFs"
+        className={`px-3 py-2 text-gray-600 hover:text-primary disabled:opacity-50 disabled:cursor-not-allowed ${className}`}
+      >
+        <FontAwesomeIcon
+          icon={['fal', sendAttachments.isPending ? 'spinner' : 'paperclip']}
+          spin={sendAttachments.isPending}
+        />
+      </button>
+    </>
+  );
+}
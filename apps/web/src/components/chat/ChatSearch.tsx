@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useQuery } from '@tanstack/react-query';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import { getApiUrl } from '@/lib/api';
+import type { ChatSearchResult } from '@/types/Chat';
+
+const MIN_SEARCH_LENGTH = 2;
+
+const participantName = (result: ChatSearchResult) =>
+  result.vendor?.shopName ||
+  [result.otherUser?.firstName, result.otherUser?.lastName].filter(Boolean).join(' ') ||
+  'Conversation';
+
+interface ChatSearchProps {
+  onSelect: (result: ChatSearchResult) => void;
+  className?: string;
+}
+
+/**
+ * Search box over every conversation the user takes part in
+ */
+export default function ChatSearch({ onSelect, className = '' }: ChatSearchProps) {
+  const { data: session } = useSession();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: results, isFetching } = useQuery({
+    queryKey: ['chat-search', debouncedQuery],
+    queryFn: async () => {
+      const res = await fetch(
+        getApiUrl(`api/chat/search?q=${encodeURIComponent(debouncedQuery)}`),
+        { headers: { Authorization: `Bearer ${session?.accessToken}` } },
+      );
+      if (!res.ok) throw new Error('Failed to search messages');
+      const result = await res.json();
+      return result.data.results as ChatSearchResult[];
+    },
+    enabled: !!session && debouncedQuery.length >= MIN_SEARCH_LENGTH,
+    staleTime: 30 * 1000,
+  });
+
+  const open = debouncedQuery.length >= MIN_SEARCH_LENGTH;
+
+  return (
+    <div className={`relative ${className}`}>
+      <div className="relative">
+        <FontAwesomeIcon
+          icon={['fal', 'search']}
+          className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400"
+        />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search messages..."
+          className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      </div>
+
+      {open && (
+        <div className="absolute z-10 mt-1 w-full max-h-80 overflow-y-auto bg-white border border-gray-200 shadow-lg">
+          {isFetching && !results ? (
+            <p className="p-3 text-sm text-gray-500">Searching...</p>
+          ) : !results?.length ? (
+            <p className="p-3 text-sm text-gray-500">No messages found</p>
+          ) : (
+            <ul className="divide-y">
+              {results.map((result) => (
+                <li key={result.id}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onSelect(result);
+                      setQuery('');
+                    }}
+                    className="w-full p-3 text-left hover:bg-gray-50"
+                  >
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <span className="font-medium text-gray-900">{participantName(result)}</span>
+                      <span>{new Date(result.createdAt).toLocaleDateString()}</span>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-700 line-clamp-2">
+                      {result.isMine && <span className="text-gray-500">You: </span>}
+                      {result.snippet}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { useMutation } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import { CloudinaryImage } from '@/components/ui/CloudinaryImage';
+import { getApiUrl } from '@/lib/api';
+import type { ChatItem } from '@/types/Chat';
+
+// Listing page of a book or collectible, for item cards and offer links
+export const chatItemHref = (item: Pick<ChatItem, 'type' | 'sid'>) =>
+  item.sid ? `/${item.type === 'book' ? 'shop' : 'collectibles'}/${item.sid}` : '#';
+
+interface ConversationItemCardProps {
+  item: ChatItem;
+  conversationId?: number | string | null;
+  offerLabel?: string; // "Make an offer" for buyers, "Send custom offer" for vendors
+  onOfferSent?: () => void;
+}
+
+/**
+ * The book or product a conversation is about, pinned above the thread
+ * Either participant can open an offer on it; the offer then continues as chat messages.
+ */
+export default function ConversationItemCard({
+  item,
+  conversationId,
+  offerLabel = 'Make an offer',
+  onOfferSent,
+}: ConversationItemCardProps) {
+  const { data: session } = useSession();
+  const [showForm, setShowForm] = useState(false);
+  const [offerPrice, setOfferPrice] = useState('');
+  const [note, setNote] = useState('');
+
+  const makeOffer = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(getApiUrl(`api/chat/conversations/${conversationId}/offers`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.accessToken}`,
+        },
+        body: JSON.stringify({ offerPrice, message: note }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(result.message || 'Failed to send offer');
+      return result.data;
+    },
+    onSuccess: () => {
+      setShowForm(false);
+      setOfferPrice('');
+      setNote('');
+      toast.success('Offer sent');
+      onOfferSent?.();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const price = item.salePrice || item.price;
+
+  return (
+    <div className="p-3 border-b bg-gray-50">
+      <div className="flex items-center gap-3">
+        <Link href={chatItemHref(item)} className="w-14 h-14 flex-shrink-0 bg-gray-100">
+          {item.imageUrl ? (
+            <CloudinaryImage
+              src={item.imageUrl}
+              alt={item.title}
+              width={56}
+              height={56}
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center">
+              <FontAwesomeIcon
+                icon={['fal', item.type === 'book' ? 'book' : 'box']}
+                className="text-xl text-gray-400"
+              />
+            </div>
+          )}
+        </Link>
+        <div className="flex-1 min-w-0">
+          <Link
+            href={chatItemHref(item)}
+            className="font-semibold text-gray-900 hover:text-primary truncate block"
+          >
+            {item.title}
+          </Link>
+          <p className="text-sm text-gray-600">
+            ${price}
+            {item.status === 'sold' && <span className="ml-2 text-xs text-gray-500">Sold</span>}
+          </p>
+        </div>
+        {conversationId && item.status !== 'sold' && !showForm && (
+          <button
+            type="button"
+            onClick={() => setShowForm(true)}
+            className="px-3 py-1.5 text-sm border border-primary text-primary rounded hover:bg-primary hover:text-white transition-colors"
+          >
+            <FontAwesomeIcon icon={['fal', 'tag']} className="mr-1" />
+            {offerLabel}
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            makeOffer.mutate();
+          }}
+          className="mt-3 flex flex-col sm:flex-row gap-2"
+        >
+          <div className="relative sm:w-36">
+            <span className="absolute left-3 top-2 text-gray-500">$</span>
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              max={item.price}
+              required
+              value={offerPrice}
+              onChange={(e) => setOfferPrice(e.target.value)}
+              placeholder="Your price"
+              className="w-full pl-7 pr-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+          </div>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Add a note (optional)"
+            maxLength={500}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-transparent"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={!offerPrice || makeOffer.isPending}
+              className="px-4 py-2 bg-primary text-white rounded hover:bg-primary-dark disabled:bg-gray-300"
+            >
+              {makeOffer.isPending ? <FontAwesomeIcon icon={['fal', 'spinner']} spin /> : 'Send'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-3 py-2 border border-gray-300 rounded hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import type { ChatAttachment } from '@/types/Chat';
+
+const fileSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+
+interface MessageAttachmentsProps {
+  attachments?: ChatAttachment[];
+  mine?: boolean; // on the sender's own (coloured) bubble
+}
+
+/**
+ * Photos and PDFs in a chat bubble; photos open full size in a new tab
+ */
+export default function MessageAttachments({ attachments, mine = false }: MessageAttachmentsProps) {
+  if (!attachments?.length) return null;
+
+  return (
+    <div className="mt-1 space-y-2">
+      {attachments.map((attachment) =>
+        attachment.kind === 'image' ? (
+          <a
+            key={attachment.publicId}
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block"
+          >
+            <img
+              src={attachment.thumbnailUrl || attachment.url}
+              alt={attachment.fileName}
+              className="max-h-48 rounded object-cover"
+            />
+          </a>
+        ) : (
+          <a
+            key={attachment.publicId}
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`flex items-center gap-2 rounded px-3 py-2 text-sm ${
+              mine ? 'bg-white/10 hover:bg-white/20' : 'bg-white hover:bg-gray-50'
+            }`}
+          >
+            <FontAwesomeIcon icon={['fal', 'file-pdf']} className="text-lg" />
+            <span className="truncate">{attachment.fileName}</span>
+            <span className={`text-xs ${mine ? 'text-white/70' : 'text-gray-500'}`}>
+              {fileSize(attachment.bytes)}
+            </span>
+          </a>
+        ),
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { useMutation } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import { getApiUrl } from '@/lib/api';
+import type { ChatOffer, ChatOfferAction, ChatOfferStatus } from '@/types/Chat';
+
+const STATUS_STYLES: Record<ChatOfferStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  countered: 'bg-blue-100 text-blue-800',
+  expired: 'bg-gray-100 text-gray-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+// Events that put an offer on the table; only their messages carry the response buttons
+const OPENING_EVENTS = ['created', 'countered'];
+
+interface OfferMessageProps {
+  offer: ChatOffer;
+  event?: string | null;
+  text: string;
+  party: 'buyer' | 'vendor'; // the signed-in user's side of the negotiation
+  itemHref?: string; // listing page, for buying at an accepted price
+  onResponded?: () => void;
+}
+
+/**
+ * An offer event in the thread, showing the offer's current status
+ * The party the offer was made to can accept, decline or counter it; its maker can withdraw it.
+ */
+export default function OfferMessage({
+  offer,
+  event,
+  text,
+  party,
+  itemHref,
+  onResponded,
+}: OfferMessageProps) {
+  const { data: session } = useSession();
+  const [countering, setCountering] = useState(false);
+  const [counterPrice, setCounterPrice] = useState('');
+
+  const respond = useMutation({
+    mutationFn: async ({
+      action,
+      offerPrice,
+    }: {
+      action: ChatOfferAction;
+      offerPrice?: string;
+    }) => {
+      const res = await fetch(getApiUrl(`api/chat/offers/${offer.id}/respond`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.accessToken}`,
+        },
+        body: JSON.stringify({ action, offerPrice }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(result.message || 'Failed to respond to offer');
+      return result.data;
+    },
+    onSuccess: () => {
+      setCountering(false);
+      setCounterPrice('');
+      onResponded?.();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+      onResponded?.();
+    },
+  });
+
+  const open = offer.status === 'pending' && OPENING_EVENTS.includes(event || '');
+  const mine = offer.initiatedBy === party;
+
+  return (
+    <div className="min-w-[220px]">
+      <div className="flex items-center justify-between gap-3 mb-1">
+        <span className="text-xs font-medium uppercase tracking-wide opacity-80">
+          <FontAwesomeIcon icon={['fal', 'tag']} className="mr-1" />
+          Offer
+        </span>
+        <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_STYLES[offer.status]}`}>
+          {offer.status.charAt(0).toUpperCase() + offer.status.slice(1)}
+        </span>
+      </div>
+      <p className="font-semibold">{text}</p>
+      <p className="text-xs opacity-80">
+        Listed at <span className="line-through">${offer.originalPrice}</span>
+      </p>
+      {offer.message && event !== 'accepted' && (
+        <p className="text-sm italic mt-1">&ldquo;{offer.message}&rdquo;</p>
+      )}
+
+      {open && !countering && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {mine ? (
+            <button
+              type="button"
+              onClick={() => respond.mutate({ action: 'cancel' })}
+              disabled={respond.isPending}
+              className="px-3 py-1 text-xs font-semibold rounded border border-current hover:opacity-80 disabled:opacity-50"
+            >
+              Withdraw
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={() => respond.mutate({ action: 'accept' })}
+                disabled={respond.isPending}
+                className="px-3 py-1 text-xs font-semibold rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+              >
+                Accept
+              </button>
+              <button
+                type="button"
+                onClick={() => setCountering(true)}
+                disabled={respond.isPending}
+                className="px-3 py-1 text-xs font-semibold rounded bg-white text-gray-900 border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Counter
+              </button>
+              <button
+                type="button"
+                onClick={() => respond.mutate({ action: 'decline' })}
+                disabled={respond.isPending}
+                className="px-3 py-1 text-xs font-semibold rounded bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                Decline
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {open && countering && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            respond.mutate({ action: 'counter', offerPrice: counterPrice });
+          }}
+          className="mt-2 flex gap-2"
+        >
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            max={offer.originalPrice}
+            required
+            value={counterPrice}
+            onChange={(e) => setCounterPrice(e.target.value)}
+            placeholder="Your price"
+            className="w-28 px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded"
+          />
+          <button
+            type="submit"
+            disabled={!counterPrice || respond.isPending}
+            className="px-3 py-1 text-xs font-semibold rounded bg-primary text-white disabled:opacity-50"
+          >
+            Send
+          </button>
+          <button type="button" onClick={() => setCountering(false)} className="px-2 py-1 text-xs">
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {offer.status === 'accepted' && event === 'accepted' && party === 'buyer' && itemHref && (
+        <Link
+          href={`${itemHref}?offer=${offer.id}`}
+          className="mt-2 inline-block px-3 py-1 text-xs font-semibold rounded bg-green-600 text-white hover:bg-green-700"
+        >
+          <FontAwesomeIcon icon={['fal', 'shopping-cart']} className="mr-1" />
+          Buy now at ${offer.offerPrice}
+        </Link>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import { DUST_JACKET_LABELS, SIGNATURE_LABELS } from '@/components/books/BibliographicDetails';
+import type {
+  BibliographicDetails,
+  DustJacketState,
+  ProvenanceEntry,
+  SignatureType,
+} from '@/types/Book';
+
+interface BibliographicDetailsFieldsProps {
+  value: BibliographicDetails;
+  onChange: (details: BibliographicDetails) => void;
+}
+
+const inputClass =
+  'w-full border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black';
+
+/**
+ * Editor for a listing's structured rare-book details
+ * Blank fields are sent as-is; the API drops them before saving
+ */
+export default function BibliographicDetailsFields({
+  value,
+  onChange,
+}: BibliographicDetailsFieldsProps) {
+  const set = (changes: Partial<BibliographicDetails>) => onChange({ ...value, ...changes });
+  const toNumber = (input: string) => (input === '' ? undefined : Number(input));
+
+  const provenance = value.provenance || [];
+  const setProvenance = (index: number, changes: Partial<ProvenanceEntry>) =>
+    set({
+      provenance: provenance.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)),
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">First Printing</label>
+          <select
+            value={value.firstPrinting === undefined ? '' : String(value.firstPrinting)}
+            onChange={(e) =>
+              set({
+                firstPrinting: e.target.value === '' ? undefined : e.target.value === 'true',
+              })
+            }
+            className={inputClass}
+          >
+            <option value="">Not stated</option>
+            <option value="true">Yes</option>
+            <option value="false">No, later printing</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Dust Jacket</label>
+          <select
+            value={value.dustJacket || ''}
+            onChange={(e) =>
+              set({ dustJacket: (e.target.value || undefined) as DustJacketState | undefined })
+            }
+            className={inputClass}
+          >
+            <option value="">Not stated</option>
+            {Object.entries(DUST_JACKET_LABELS).map(([state, label]) => (
+              <option key={state} value={state}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Limitation</label>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-500">No.</span>
+            <input
+              type="number"
+              min="1"
+              value={value.limitationNumber ?? ''}
+              onChange={(e) => set({ limitationNumber: toNumber(e.target.value) })}
+              className={inputClass}
+              placeholder="45"
+            />
+            <span className="text-sm text-gray-500">of</span>
+            <input
+              type="number"
+              min="1"
+              value={value.limitationTotal ?? ''}
+              onChange={(e) => set({ limitationTotal: toNumber(e.target.value) })}
+              className={inputClass}
+              placeholder="250"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Signature</label>
+          <select
+            value={value.signature || ''}
+            onChange={(e) => {
+              // Signer and inscription only apply to the signature types that show them
+              const signature = (e.target.value || undefined) as SignatureType | undefined;
+              set({
+                signature,
+                signedBy: signature ? value.signedBy : undefined,
+                inscription: signature && signature !== 'signed' ? value.inscription : undefined,
+              });
+            }}
+            className={inputClass}
+          >
+            <option value="">Unsigned</option>
+            {Object.entries(SIGNATURE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {value.signature && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Signed By</label>
+            <input
+              type="text"
+              value={value.signedBy || ''}
+              onChange={(e) => set({ signedBy: e.target.value })}
+              className={inputClass}
+              placeholder="Leave blank if signed by the author"
+            />
+          </div>
+        )}
+
+        {(value.signature === 'inscribed' || value.signature === 'association') && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Inscription</label>
+            <input
+              type="text"
+              value={value.inscription || ''}
+              onChange={(e) => set({ inscription: e.target.value })}
+              className={inputClass}
+              placeholder='e.g., "For Max, with thanks"'
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Points of Issue</label>
+        <textarea
+          rows={3}
+          value={(value.pointsOfIssue || []).join('\n')}
+          onChange={(e) => set({ pointsOfIssue: e.target.value.split('\n') })}
+          className={inputClass}
+          placeholder={'One per line, e.g.\n"Stuart" for "Stewart" on p. 181, line 26'}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Provenance</label>
+        <p className="text-xs text-gray-500 mb-2">Previous owners, earliest first</p>
+        <div className="space-y-2">
+          {provenance.map((entry, index) => (
+            <div key={index} className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="text"
+                value={entry.owner}
+                onChange={(e) => setProvenance(index, { owner: e.target.value })}
+                className={`${inputClass} sm:flex-[2]`}
+                placeholder="Owner"
+              />
+              <input
+                type="text"
+                value={entry.period || ''}
+                onChange={(e) => setProvenance(index, { period: e.target.value })}
+                className={`${inputClass} sm:flex-1`}
+                placeholder="Period, e.g. 1921-1950"
+              />
+              <input
+                type="text"
+                value={entry.note || ''}
+                onChange={(e) => setProvenance(index, { note: e.target.value })}
+                className={`${inputClass} sm:flex-[2]`}
+                placeholder="Evidence, e.g. bookplate"
+              />
+              <button
+                type="button"
+                onClick={() => set({ provenance: provenance.filter((_, i) => i !== index) })}
+                className="px-3 py-2 text-sm text-red-600 hover:text-red-800"
+                aria-label="Remove owner"
+              >
+                <FontAwesomeIcon icon={['fal', 'times']} />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => set({ provenance: [...provenance, { owner: '' }] })}
+          className="mt-2 text-sm text-primary hover:underline"
+        >
+          <FontAwesomeIcon icon={['fal', 'plus']} className="mr-1" />
+          Add owner
+        </button>
+      </div>
+    </div>
+  );
+}
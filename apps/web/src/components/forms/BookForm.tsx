@@ -6,9 +6,13 @@ import { useMutation } from '@tanstack/react-query';
 import ImageUploader from '@/components/shared/ImageUploader';
 import { BookFormData, Book } from '@/types/Book';
 import api from '@/lib/api';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
 import { getApiUrl } from '@/lib/api-url';
 import RichTextEditor from '@/components/forms/RichTextEditor';
 import CategoryMultiSelect from '@/components/forms/CategoryMultiSelect';
+import IsbnSuggestions, { ISBN_FIELD_LABELS } from '@/components/forms/IsbnSuggestions';
+import BibliographicDetailsFields from '@/components/forms/BibliographicDetailsFields';
+import type { IsbnLookupField, IsbnLookupResult } from '@/types/IsbnLookup';
 
 const BOOK_CONDITIONS = ['Fine', 'Near Fine', 'Very Good', 'Good', 'Fair', 'Poor'];
 const BOOK_BINDINGS = ['Hardcover', 'Softcover', 'Leather', 'Cloth'];
@@ -66,6 +70,7 @@ export default function BookForm({ book, isEdit = false }: BookFormProps) {
       .trim(),
     price: book?.price?.toString() || '',
     salePrice: book?.salePrice?.toString() || '',
+    currency: book?.currency || 'USD',
     condition: book?.condition || 'Good',
     quantity: book?.quantity || 1,
     isbn: book?.isbn || '',
@@ -74,10 +79,19 @@ export default function BookForm({ book, isEdit = false }: BookFormProps) {
     edition: book?.edition || '',
     language: book?.language || 'English',
     binding: book?.binding || 'Hardcover',
+    bibliographicDetails: book?.bibliographicDetails || {},
     status: (book?.status as 'draft' | 'published' | 'sold') || 'published',
     menuOrder: book?.menuOrder?.toString() || '0',
+    shippingWeight: book?.shippingWeight?.toString() || '',
+    shippingOverride: book?.shippingOverride?.toString() || '',
   });
 
+  const [isbnLoading, setIsbnLoading] = useState(false);
+  const [isbnMessage, setIsbnMessage] = useState('');
+  const [isbnSuggestions, setIsbnSuggestions] = useState<
+    Partial<Record<IsbnLookupField, string | number>>
+  >({});
+
   useEffect(() => {
     fetchCategories();
   }, []);
@@ -155,6 +169,8 @@ export default function BookForm({ book, isEdit = false }: BookFormProps) {
       images,
       status: statusOverride ?? (formData.status as 'draft' | 'published'),
       menuOrder: sanitizeNumericInt(formData.menuOrder) ?? 0,
+      shippingWeight: sanitizeNumericStr(formData.shippingWeight) ?? '',
+      shippingOverride: sanitizeNumericStr(formData.shippingOverride) ?? '',
       // Only include shortDescription if checkbox is checked
       shortDescription: includeShortDescription ? formData.shortDescription : undefined,
     };
@@ -166,6 +182,56 @@ export default function BookForm({ book, isEdit = false }: BookFormProps) {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  // Look up the ISBN and offer each value that differs from the form; nothing changes until the
+  // vendor confirms it
+  const handleIsbnLookup = async () => {
+    setIsbnMessage('');
+    setIsbnSuggestions({});
+    const isbn = formData.isbn?.trim();
+    if (!isbn) {
+      setIsbnMessage('Enter an ISBN to look up');
+      return;
+    }
+
+    setIsbnLoading(true);
+    try {
+      const response = await api.get(`/vendor/isbn/${encodeURIComponent(isbn)}`);
+      const result: IsbnLookupResult = response.data.data;
+      if (!result.metadata) {
+        setIsbnMessage('No record found for this ISBN');
+        return;
+      }
+
+      const suggestions: Partial<Record<IsbnLookupField, string | number>> = {};
+      for (const field of Object.keys(ISBN_FIELD_LABELS) as IsbnLookupField[]) {
+        const value = result.metadata[field];
+        if (value === null || value === undefined || value === '') continue;
+        if (field === 'binding' && !BOOK_BINDINGS.includes(String(value))) continue;
+        if (String(formData[field] ?? '') !== String(value)) suggestions[field] = value;
+      }
+      if (Object.keys(suggestions).length === 0) {
+        setIsbnMessage('This listing already matches the ISBN record');
+      }
+      setIsbnSuggestions(suggestions);
+    } catch (error: any) {
+      setIsbnMessage(error.response?.data?.message || 'ISBN lookup failed');
+    } finally {
+      setIsbnLoading(false);
+    }
+  };
+
+  const resolveIsbnSuggestions = (fields: IsbnLookupField[], accept: boolean) => {
+    if (accept) {
+      const accepted = Object.fromEntries(fields.map((field) => [field, isbnSuggestions[field]]));
+      setFormData((prev) => ({ ...prev, ...accepted }));
+    }
+    setIsbnSuggestions((prev) => {
+      const next = { ...prev };
+      for (const field of fields) delete next[field];
+      return next;
+    });
+  };
+
   return (
     <form className="space-y-4 sm:space-y-6">
       {/* Top Action Buttons */}
@@ -364,10 +430,26 @@ export default function BookForm({ book, isEdit = false }: BookFormProps) {
           </div>
         </div>
 
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-4">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 mt-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+            <select
+              value={formData.currency || 'USD'}
+              onChange={(e) => handleChange('currency', e.target.value)}
+              className="w-full border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+            >
+              {SUPPORTED_CURRENCIES.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Buyers are charged in this currency</p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Price (USD) <span className="text-red-500">*</span>
+              Price ({formData.currency || 'USD'}) <span className="text-red-500">*</span>
             </label>
             <input
               type="number"
@@ -381,7 +463,9 @@ export default function BookForm({ book, isEdit = false }: BookFormProps) {
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Sale Price (USD)</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Sale Price ({formData.currency || 'USD'})
+            </label>
             <input
               type="number"
               min="0"
@@ -417,6 +501,28 @@ export default function BookForm({ book, isEdit = false }: BookFormProps) {
         <h2 className="text-lg font-semibold mb-4">Book Details</h2>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">ISBN</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={formData.isbn}
+                onChange={(e) => handleChange('isbn', e.target.value)}
+                className="flex-1 min-w-0 border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+                placeholder="e.g., 978-0-14-143951-8"
+              />
+              <button
+                type="button"
+                onClick={handleIsbnLookup}
+                disabled={isbnLoading}
+                className="px-3 py-2 text-sm border border-primary text-primary hover:bg-primary/5 disabled:opacity-50 transition-colors"
+              >
+                {isbnLoading ? 'Looking up...' : 'Look up'}
+              </button>
+            </div>
+            {isbnMessage && <p className="text-xs text-gray-600 mt-1">{isbnMessage}</p>}
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Publisher</label>
             <input
@@ -429,6 +535,13 @@ export default function BookForm({ book, isEdit = false }: BookFormProps) {
           </div>
         </div>
 
+        <IsbnSuggestions
+          suggestions={isbnSuggestions}
+          current={formData}
+          onAccept={(fields) => resolveIsbnSuggestions(fields, true)}
+          onReject={(fields) => resolveIsbnSuggestions(fields, false)}
+        />
+
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Publication Year</label>
@@ -482,6 +595,57 @@ export default function BookForm({ book, isEdit = false }: BookFormProps) {
         </div>
       </div>
 
+      {/* Rare Book Details */}
+      <div className="bg-white shadow p-4 sm:p-6 space-y-4">
+        <div className="mb-4">
+          <h2 className="text-lg font-semibold">Rare Book Details</h2>
+          <p className="text-sm text-gray-500">
+            Shown as &quot;Bibliographic details&quot; on the listing and used by shop filters
+          </p>
+        </div>
+        <BibliographicDetailsFields
+          value={formData.bibliographicDetails || {}}
+          onChange={(details) => handleChange('bibliographicDetails', details)}
+        />
+      </div>
+
+      {/* Shipping */}
+      <div className="bg-white shadow p-4 sm:p-6 space-y-4">
+        <h2 className="text-lg font-semibold mb-4">Shipping</h2>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Weight (lb)</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.shippingWeight ?? ''}
+              onChange={(e) => handleChange('shippingWeight', e.target.value)}
+              className="w-full border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+              placeholder="e.g., 1.5"
+            />
+            <p className="text-xs text-gray-500 mt-1">Used by weight-based shipping profiles</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Fixed Shipping Override ($)
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.shippingOverride ?? ''}
+              onChange={(e) => handleChange('shippingOverride', e.target.value)}
+              className="w-full border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+              placeholder="Leave blank to use your shipping profile"
+            />
+            <p className="text-xs text-gray-500 mt-1">Charged per copy instead of your zone rate</p>
+          </div>
+        </div>
+      </div>
+
       {/* Listing Status */}
       <div className="bg-white shadow p-4 sm:p-6">
         <h2 className="text-lg font-semibold mb-4">Listing Status</h2>
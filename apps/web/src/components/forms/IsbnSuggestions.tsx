@@ -0,0 +1,99 @@
+'use client';
+
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import type { IsbnLookupField } from '@/types/IsbnLookup';
+
+export const ISBN_FIELD_LABELS: Record<IsbnLookupField, string> = {
+  title: 'Title',
+  author: 'Author',
+  publisher: 'Publisher',
+  publicationYear: 'Publication Year',
+  edition: 'Edition',
+  language: 'Language',
+  binding: 'Binding',
+};
+
+interface IsbnSuggestionsProps {
+  /** Looked-up values not yet confirmed, by field */
+  suggestions: Partial<Record<IsbnLookupField, string | number>>;
+  /** Values the listing has now, shown next to each suggestion */
+  current?: Record<string, unknown>;
+  onAccept: (fields: IsbnLookupField[]) => void;
+  onReject: (fields: IsbnLookupField[]) => void;
+  busy?: boolean;
+}
+
+const show = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+/**
+ * Values an ISBN lookup found, for the vendor to confirm or dismiss field by field
+ */
+export default function IsbnSuggestions({
+  suggestions,
+  current = {},
+  onAccept,
+  onReject,
+  busy = false,
+}: IsbnSuggestionsProps) {
+  const fields = Object.keys(suggestions) as IsbnLookupField[];
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="border border-blue-200 bg-blue-50 p-3">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <p className="text-sm font-medium text-gray-800">
+          <FontAwesomeIcon icon={['fal', 'magic']} className="mr-1.5 text-blue-600" />
+          Found from ISBN — confirm each value
+        </p>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onAccept(fields)}
+            disabled={busy}
+            className="px-2 py-0.5 text-xs bg-primary text-white hover:bg-opacity-90 disabled:opacity-50"
+          >
+            Use all
+          </button>
+          <button
+            type="button"
+            onClick={() => onReject(fields)}
+            disabled={busy}
+            className="px-2 py-0.5 text-xs border border-gray-300 bg-white text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Dismiss all
+          </button>
+        </div>
+      </div>
+      <ul className="divide-y divide-blue-100">
+        {fields.map((field) => (
+          <li key={field} className="flex items-center gap-3 py-1.5 text-sm">
+            <span className="w-32 shrink-0 text-gray-500">{ISBN_FIELD_LABELS[field]}</span>
+            <span className="flex-1 min-w-0 truncate">
+              {current[field] !== undefined && show(current[field]) !== '—' && (
+                <span className="text-gray-400 line-through mr-2">{show(current[field])}</span>
+              )}
+              <span className="font-medium text-gray-900">{show(suggestions[field])}</span>
+            </span>
+            <button
+              type="button"
+              onClick={() => onAccept([field])}
+              disabled={busy}
+              className="text-xs text-primary hover:underline disabled:opacity-50"
+            >
+              Use
+            </button>
+            <button
+              type="button"
+              onClick={() => onReject([field])}
+              disabled={busy}
+              className="text-xs text-gray-500 hover:underline disabled:opacity-50"
+            >
+              Dismiss
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { useMutation, useQuery } from '@tanstack/react-query';
 import ImageUploader from '@/components/shared/ImageUploader';
 import { ProductFormData, Product } from '@/types/Product';
 import api from '@/lib/api';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
 import RichTextEditor from '@/components/forms/RichTextEditor';
 
 const PRODUCT_CONDITIONS = ['New', 'Like New', 'Very Good', 'Good', 'Fair', 'Poor'];
@@ -59,12 +60,15 @@ export default function ProductForm({ product, isEdit = false }: ProductFormProp
       .replace(/<[^>]*>/g, '')
       .trim(),
     price: product?.price?.toString() || '',
+    currency: product?.currency || 'USD',
     condition: product?.condition || undefined,
     quantity: product?.quantity || 1,
     artist: product?.artist || '',
     yearMade: product?.yearMade || undefined,
     materials: product?.materials || '',
     dimensions: product?.dimensions || '',
+    weight: product?.weight ?? undefined,
+    shippingOverride: product?.shippingOverride ?? null,
     status: (product?.status as 'draft' | 'published') || 'draft',
   });
 
@@ -119,6 +123,8 @@ export default function ProductForm({ product, isEdit = false }: ProductFormProp
       ...(formData as ProductFormData),
       price: String(sanitizeNumeric(formData.price) ?? 0),
       quantity: sanitizeNumeric(formData.quantity) ?? 1,
+      weight: sanitizeNumeric(formData.weight) ?? undefined,
+      shippingOverride: sanitizeNumeric(formData.shippingOverride),
       tags: Array.isArray((formData as any).tags) ? (formData as any).tags : [],
       images,
       status,
@@ -265,9 +271,25 @@ export default function ProductForm({ product, isEdit = false }: ProductFormProp
       <div className="bg-white shadow p-6">
         <h2 className="text-lg font-semibold mb-4">Pricing & Stock</h2>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+            <select
+              value={formData.currency || 'USD'}
+              onChange={(e) => handleChange('currency', e.target.value)}
+              className="w-full border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+            >
+              {SUPPORTED_CURRENCIES.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Buyers are charged in this currency</p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Price (USD) <span className="text-red-500">*</span>
+              Price ({formData.currency || 'USD'}) <span className="text-red-500">*</span>
             </label>
             <input
               type="number"
@@ -405,6 +427,41 @@ export default function ProductForm({ product, isEdit = false }: ProductFormProp
         </div>
       </div>
 
+      {/* Shipping */}
+      <div className="bg-white shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold mb-4">Shipping</h2>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Weight (lb)</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.weight ?? ''}
+              onChange={(e) => handleChange('weight', e.target.value)}
+              className="w-full border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+              placeholder="e.g., 3.5"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Fixed Shipping Override ($)
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.shippingOverride ?? ''}
+              onChange={(e) => handleChange('shippingOverride', e.target.value)}
+              className="w-full border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black"
+              placeholder="Leave blank to use your shipping profile"
+            />
+          </div>
+        </div>
+      </div>
+
       {/* Action Buttons */}
       <div className="flex justify-end gap-3">
         <button
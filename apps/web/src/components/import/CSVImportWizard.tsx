@@ -4,6 +4,17 @@ import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
 import { getApiUrl } from '@/lib/api';
+import ImportBatchProgress, {
+  ImportStatusBadge,
+  downloadImportReport,
+} from '@/components/import/ImportBatchProgress';
+import IsbnSuggestions from '@/components/forms/IsbnSuggestions';
+import type {
+  ImportBatchProgress as BatchProgress,
+  ImportMode,
+  ImportRollbackResult,
+} from '@/types/ImportBatch';
+import type { ImportIsbnLookupSummary, IsbnLookupField } from '@/types/IsbnLookup';
 
 // ─── Types ───
 interface TargetField {
@@ -18,6 +29,8 @@ interface TargetField {
 interface RowData {
   _rowIndex: number;
   _errors?: { field: string; message: string }[];
+  _suggestions?: Partial<Record<IsbnLookupField, string | number>>;
+  _isbnError?: string;
   [key: string]: any;
 }
 
@@ -29,25 +42,49 @@ interface ImportStats {
   truncated: boolean;
 }
 
+interface ImportTransforms {
+  valueMaps?: Record<string, Record<string, string>>;
+  defaults?: Record<string, string>;
+  priceMultiplier?: number;
+}
+
+interface MappingTemplate {
+  id: number;
+  vendorId: number | null;
+  name: string;
+  description: string | null;
+  source: string | null;
+  headers: string[];
+  mappings: Record<string, string | null>;
+  transforms: ImportTransforms;
+  usageCount: number;
+}
+
 interface StageResult {
   importId: string;
   csvHeaders: string[];
   suggestedMappings: Record<string, string | null>;
+  transforms: ImportTransforms;
+  template: { id: number; name: string; score: number | null; autoSelected: boolean } | null;
   stats: ImportStats;
   validationErrors: { rowIndex: number; errors: { field: string; message: string }[] }[];
   previewRows: RowData[];
   targetFields: TargetField[];
 }
 
-interface CommitResult {
-  importId: string;
-  status: string;
-  createdCount: number;
-  updatedCount: number;
-  skippedCount: number;
-  failedCount: number;
-  totalProcessed: number;
-  failures: { rowIndex: number; title: string; error: string }[];
+interface ImportPreview {
+  summary: { create: number; update: number; unchanged: number; skip: number; archive: number };
+  rows: {
+    rowIndex: number;
+    title: string;
+    action: 'create' | 'update' | 'unchanged' | 'skip';
+    bookId: number | null;
+    changes: { field: string; before: unknown; after: unknown }[];
+    imagesChanged: boolean;
+    reason: string | null;
+  }[];
+  archive: { bookId: number; title: string; status: string }[];
+  rowsTruncated: boolean;
 }
 
 interface CSVImportWizardProps {
@@ -60,6 +97,25 @@ interface CSVImportWizardProps {
 
 type Step = 'upload' | 'mapping' | 'validation' | 'preview' | 'confirm' | 'results';
 
+type RowFilter = 'all' | 'valid' | 'invalid' | 'suggestions';
+
+const ACTION_STYLES: Record<string, string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  unchanged: 'bg-gray-100 text-gray-600',
+  skip: 'bg-yellow-100 text-yellow-700',
+};
+
+const showValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+// Same normalization the API uses to match template columns to CSV headers
+const normalizeColumnName = (col: string) =>
+  col
+    .toLowerCase()
+    .replace(/[\s\-.]+/g, '_')
+    .trim();
+
 const STEPS: { key: Step; label: string; icon: [string, string] }[] = [
   { key: 'upload', label: 'Upload', icon: ['fal', 'cloud-upload'] },
   { key: 'mapping', label: 'Map Columns', icon: ['fal', 'columns'] },
@@ -87,23 +143,48 @@ export default function CSVImportWizard({
   const [rows, setRows] = useState<RowData[]>([]);
   const [stats, setStats] = useState<ImportStats | null>(null);
   const [selectedRow, setSelectedRow] = useState<RowData | null>(null);
-  const [rowFilter, setRowFilter] = useState<'all' | 'valid' | 'invalid'>('all');
+  const [rowFilter, setRowFilter] = useState<RowFilter>('all');
   const rowPageRef = useRef(1);
   const [showUnmappedCols, setShowUnmappedCols] = useState(false);
 
+  // Mapping templates
+  const [templates, setTemplates] = useState<MappingTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<number | null>(null);
+  const [transforms, setTransforms] = useState<ImportTransforms>({});
+  const [conditionRows, setConditionRows] = useState<[string, string][]>([]);
+  const [showTransforms, setShowTransforms] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [templateSaving, setTemplateSaving] = useState(false);
+  const [templateMessage, setTemplateMessage] = useState('');
+
   // Inline row editor
   const [editingRowIndex, setEditingRowIndex] = useState<number | null>(null);
   const [editDraft, setEditDraft] = useState<Record<string, any>>({});
   const [editSaving, setEditSaving] = useState(false);
 
+  // ISBN lookup
+  const [isbnSummary, setIsbnSummary] = useState<ImportIsbnLookupSummary | null>(null);
+  const [isbnLoading, setIsbnLoading] = useState(false);
+  const [reviewingRowIndex, setReviewingRowIndex] = useState<number | null>(null);
+  const [suggestionSaving, setSuggestionSaving] = useState(false);
+
   // Commit options
-  const [importMode, setImportMode] = useState<'create' | 'update' | 'upsert'>('create');
+  const [importMode, setImportMode] = useState<ImportMode>('create');
   const [matchStrategy, setMatchStrategy] = useState('none');
   const [defaultStatus, setDefaultStatus] = useState('draft');
+  const [sparse, setSparse] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
   const [adminVendorId, setAdminVendorId] = useState(vendorId?.toString() || '');
 
   // Results
-  const [commitResult, setCommitResult] = useState<CommitResult | null>(null);
+  const [commitResult, setCommitResult] = useState<BatchProgress | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+
+  // Rollback
+  const [batches, setBatches] = useState<BatchProgress[]>([]);
+  const [rollingBackId, setRollingBackId] = useState<number | null>(null);
+  const [rollbackResult, setRollbackResult] = useState<ImportRollbackResult | null>(null);
 
   // Vendor list (admin only)
   const [vendors, setVendors] = useState<{ id: string; shopName: string }[]>([]);
@@ -145,6 +226,74 @@ export default function CSVImportWizard({
       .finally(() => setVendorsLoading(false));
   }, [role, session?.accessToken, isOpen]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Fetch mapping templates (shared + the vendor's own)
+  const loadTemplates = useCallback(async () => {
+    if (!session?.accessToken) return;
+    const query = role === 'admin' && adminVendorId ? `?vendorId=${adminVendorId}` : '';
+    try {
+      const res = await fetch(getApiUrl(`${apiBase}/templates${query}`), {
+        headers: { Authorization: `Bearer ${session.accessToken}` },
+      });
+      const data = await res.json();
+      if (data.success) setTemplates(data.data);
+    } catch (err) {
+      console.error('Failed to load mapping templates:', err);
+    }
+  }, [apiBase, role, adminVendorId, session?.accessToken]);
+
+  useEffect(() => {
+    if (isOpen) loadTemplates();
+  }, [isOpen, loadTemplates]);
+
+  // Recent imports, to follow a running one or undo one
+  const loadBatches = useCallback(async () => {
+    if (!session?.accessToken) return;
+    if (role === 'admin' && !adminVendorId) return;
+    const query = role === 'admin' ? `?vendorId=${adminVendorId}` : '';
+    try {
+      const res = await fetch(getApiUrl(`${apiBase}/batches${query}`), {
+        headers: { Authorization: `Bearer ${session.accessToken}` },
+      });
+      const data = await res.json();
+      if (data.success) setBatches(data.data.batches);
+    } catch (err) {
+      console.error('Failed to load recent imports:', err);
+    }
+  }, [apiBase, role, adminVendorId, session?.accessToken]);
+
+  useEffect(() => {
+    if (isOpen) loadBatches();
+  }, [isOpen, loadBatches]);
+
+  // Follow a queued or running import until it finishes
+  const followedBatchId = commitResult?.active ? commitResult.batchId : null;
+  useEffect(() => {
+    if (!isOpen || !followedBatchId || !session?.accessToken) return;
+    const timer = setInterval(async () => {
+      try {
+        const res = await fetch(getApiUrl(`${apiBase}/batches/${followedBatchId}`), {
+          headers: { Authorization: `Bearer ${session.accessToken}` },
+        });
+        const data = await res.json();
+        if (!data.success) return;
+        setCommitResult(data.data);
+        if (!data.data.active) loadBatches();
+      } catch (err) {
+        console.error('Failed to load import progress:', err);
+      }
+    }, 2000);
+    return () => clearInterval(timer);
+  }, [isOpen, followedBatchId, apiBase, session?.accessToken, loadBatches]);
+
+  // A preview is only good for the options it was run with
+  useEffect(() => {
+    setImportPreview(null);
+  }, [importMode, matchStrategy, defaultStatus, sparse, adminVendorId]);
+
+  // Templates admins can edit are shared ones; vendors edit their own
+  const canEditTemplate = (template: MappingTemplate) =>
+    role === 'admin' ? template.vendorId === null : template.vendorId !== null;
+
   // ─── Upload Step ───
   const handleFile = useCallback(
     async (file: File) => {
@@ -181,6 +330,10 @@ export default function CSVImportWizard({
           cleaned[col] = target === 'sku' ? null : target;
         }
         setMappings(cleaned);
+        loadTransforms(data.data.transforms || {});
+        setTemplateId(data.data.template?.id ?? null);
+        setTemplateName('');
+        setTemplateMessage('');
         setRows(data.data.previewRows);
         setStats(data.data.stats);
         setStep('mapping');
@@ -216,6 +369,101 @@ export default function CSVImportWizard({
     setMappings((prev) => ({ ...prev, [csvCol]: targetKey }));
   };
 
+  // Switch to a template: its mappings for the columns it knows, the rest left as detected
+  const selectTemplate = (id: number | null) => {
+    setTemplateId(id);
+    setTemplateMessage('');
+    const template = templates.find((t) => t.id === id);
+    if (!template || !stageResult) {
+      loadTransforms({});
+      return;
+    }
+
+    const byColumn = new Map(
+      Object.entries(template.mappings).map(([col, target]) => [normalizeColumnName(col), target]),
+    );
+    const used = new Set(Array.from(byColumn.values()).filter(Boolean));
+    const next: Record<string, string | null> = {};
+    for (const col of stageResult.csvHeaders) {
+      const key = normalizeColumnName(col);
+      if (byColumn.has(key)) {
+        next[col] = byColumn.get(key) ?? null;
+      } else {
+        next[col] = mappings[col] && !used.has(mappings[col] as string) ? mappings[col] : null;
+      }
+    }
+    setMappings(next);
+    loadTransforms(template.transforms || {});
+  };
+
+  const loadTransforms = (next: ImportTransforms) => {
+    setTransforms(next);
+    setConditionRows(Object.entries(next.valueMaps?.condition || {}));
+  };
+
+  // Transforms as sent to the API, with the condition synonyms being edited
+  const effectiveTransforms = useMemo(() => {
+    const otherMaps = { ...transforms.valueMaps };
+    delete otherMaps.condition;
+    const condition = Object.fromEntries(conditionRows.filter(([from, to]) => from.trim() && to));
+    return {
+      ...transforms,
+      valueMaps: Object.keys(condition).length > 0 ? { ...otherMaps, condition } : otherMaps,
+    };
+  }, [transforms, conditionRows]);
+
+  const saveTemplate = async (asNew: boolean) => {
+    if (!stageResult) return;
+    const existing = templates.find((t) => t.id === templateId);
+    const name = asNew ? templateName.trim() : existing?.name;
+    if (!name) return;
+
+    setTemplateSaving(true);
+    setTemplateMessage('');
+    try {
+      const url = asNew ? `${apiBase}/templates` : `${apiBase}/templates/${templateId}`;
+      const res = await fetch(getApiUrl(url), {
+        method: asNew ? 'POST' : 'PUT',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          description: existing && !asNew ? existing.description : null,
+          source: existing && !asNew ? existing.source : null,
+          headers: stageResult.csvHeaders,
+          mappings,
+          transforms: effectiveTransforms,
+        }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.message);
+      await loadTemplates();
+      setTemplateId(data.data.id);
+      setTemplateName('');
+      setTemplateMessage(asNew ? `Saved template "${name}"` : `Updated template "${name}"`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save template');
+    } finally {
+      setTemplateSaving(false);
+    }
+  };
+
+  const deleteTemplate = async () => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template || !window.confirm(`Delete the template "${template.name}"?`)) return;
+    try {
+      const res = await fetch(getApiUrl(`${apiBase}/templates/${template.id}`), {
+        method: 'DELETE',
+        headers,
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.message);
+      setTemplateId(null);
+      await loadTemplates();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete template');
+    }
+  };
+
   const applyMappings = async () => {
     if (!stageResult) return;
     setLoading(true);
@@ -224,7 +472,12 @@ export default function CSVImportWizard({
       const res = await fetch(getApiUrl(`${apiBase}/remap`), {
         method: 'POST',
         headers: { ...headers, 'Content-Type': 'application/json' },
-        body: JSON.stringify({ importId: stageResult.importId, mappings }),
+        body: JSON.stringify({
+          importId: stageResult.importId,
+          mappings,
+          transforms: effectiveTransforms,
+          templateId,
+        }),
       });
       const data = await res.json();
       if (!data.success) throw new Error(data.message);
@@ -239,7 +492,7 @@ export default function CSVImportWizard({
   };
 
   // ─── Load rows with filter/pagination ───
-  const loadRows = async (page: number, filter: 'all' | 'valid' | 'invalid') => {
+  const loadRows = async (page: number, filter: RowFilter) => {
     if (!stageResult) return;
     try {
       const res = await fetch(
@@ -318,19 +571,100 @@ export default function CSVImportWizard({
     }
   };
 
+  // ─── ISBN lookup ───
+  const handleIsbnLookup = async () => {
+    if (!stageResult) return;
+    setIsbnLoading(true);
+    setError('');
+    try {
+      const res = await fetch(getApiUrl(`${apiBase}/${stageResult.importId}/isbn-lookup`), {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.message);
+      setIsbnSummary(data.data);
+      await loadRows(1, 'suggestions');
+    } catch (err: any) {
+      setError(err.message || 'ISBN lookup failed');
+    } finally {
+      setIsbnLoading(false);
+    }
+  };
+
+  // Accept or reject suggestions for one row, or for every row when rowIndex is omitted
+  const resolveSuggestions = async (
+    accept: boolean,
+    rowIndex?: number,
+    fields?: IsbnLookupField[],
+  ) => {
+    if (!stageResult) return;
+    setSuggestionSaving(true);
+    try {
+      const res = await fetch(getApiUrl(`${apiBase}/${stageResult.importId}/suggestions`), {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rowIndex, fields, accept }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.message);
+
+      setStats(data.data.stats);
+      if (rowIndex === undefined) {
+        setReviewingRowIndex(null);
+        await loadRows(rowPageRef.current, rowFilter);
+        return;
+      }
+      const updated: RowData = data.data.rows[0];
+      if (updated) setRows((prev) => prev.map((r) => (r._rowIndex === rowIndex ? updated : r)));
+      if (!updated?._suggestions) setReviewingRowIndex(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update suggestions');
+    } finally {
+      setSuggestionSaving(false);
+    }
+  };
+
   // ─── Commit ───
+  const commitOptions = () => {
+    const body: any = {
+      importId: stageResult?.importId,
+      mode: importMode,
+      matchStrategy,
+      defaultStatus,
+      sparse,
+    };
+    if (role === 'admin') body.vendorId = adminVendorId;
+    return body;
+  };
+
+  const handlePreview = async () => {
+    if (!stageResult) return;
+    setPreviewLoading(true);
+    setError('');
+    try {
+      const res = await fetch(getApiUrl(`${apiBase}/preview`), {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(commitOptions()),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.message);
+      setImportPreview(data.data);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
   const handleCommit = async () => {
     if (!stageResult) return;
     setLoading(true);
     setError('');
     try {
-      const body: any = {
-        importId: stageResult.importId,
-        mode: importMode,
-        matchStrategy,
-        defaultStatus,
-      };
-      if (role === 'admin') body.vendorId = adminVendorId;
+      const body = commitOptions();
 
       const res = await fetch(getApiUrl(`${apiBase}/commit`), {
         method: 'POST',
@@ -340,6 +674,7 @@ export default function CSVImportWizard({
       const data = await res.json();
       if (!data.success) throw new Error(data.message);
       setCommitResult(data.data);
+      setRollbackResult(null);
       setStep('results');
     } catch (err: any) {
       setError(err.message);
@@ -348,6 +683,89 @@ export default function CSVImportWizard({
     }
   };
 
+  // ─── Rollback ───
+  const handleRollback = async (batchId: number) => {
+    if (
+      !window.confirm(
+        'Undo this import? Listings it created are deleted and the listings it changed or archived get their previous values back.',
+      )
+    ) {
+      return;
+    }
+    setRollingBackId(batchId);
+    setError('');
+    try {
+      const res = await fetch(getApiUrl(`${apiBase}/batches/${batchId}/rollback`), {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.message);
+      setRollbackResult(data.data);
+      loadBatches();
+      if (commitResult?.batchId === batchId) {
+        setCommitResult({ ...commitResult, status: 'rolled_back', canRollback: false });
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  // ─── Background import ───
+  const openBatch = async (batchId: number) => {
+    setError('');
+    try {
+      const res = await fetch(getApiUrl(`${apiBase}/batches/${batchId}`), { headers });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.message);
+      setCommitResult(data.data);
+      setRollbackResult(null);
+      setStep('results');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!commitResult) return;
+    if (
+      !window.confirm('Stop this import? Rows already imported stay until you undo the import.')
+    ) {
+      return;
+    }
+    setCancelling(true);
+    setError('');
+    try {
+      const res = await fetch(getApiUrl(`${apiBase}/batches/${commitResult.batchId}/cancel`), {
+        method: 'POST',
+        headers,
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.message);
+      setCommitResult({
+        ...commitResult,
+        status: data.data.status,
+        active: data.data.status === 'cancelling',
+        canRollback: data.data.status === 'cancelled',
+      });
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const downloadReport = async (batchId: number) => {
+    try {
+      await downloadImportReport(apiBase, batchId, session?.accessToken);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
   // ─── Download error CSV ───
   const downloadErrors = async () => {
     if (!stageResult) return;
@@ -479,7 +897,7 @@ export default function CSVImportWizard({
                       Drop your CSV file here, or click to browse
                     </p>
                     <p className="text-sm text-gray-500 mt-2">
-                      Supports up to 5,000 rows. Max file size: 10MB
+                      Supports up to 50,000 rows. Max file size: 50MB
                     </p>
                   </>
                 )}
@@ -491,6 +909,60 @@ export default function CSVImportWizard({
                   className="hidden"
                 />
               </div>
+
+              {batches.length > 0 && (
+                <div className="mt-8">
+                  <h4 className="font-medium text-gray-900 mb-2">Recent Imports</h4>
+                  {rollbackResult && (
+                    <p className="text-sm text-green-700 mb-2">
+                      Import undone: {rollbackResult.deleted} deleted, {rollbackResult.restored}{' '}
+                      restored
+                      {rollbackResult.skipped.length > 0 &&
+                        `, ${rollbackResult.skipped.length} left as they are`}
+                    </p>
+                  )}
+                  <div className="border rounded divide-y">
+                    {batches.slice(0, 5).map((batch) => (
+                      <div
+                        key={batch.batchId}
+                        className="flex items-center justify-between gap-3 px-3 py-2 text-sm"
+                      >
+                        <div className="min-w-0">
+                          <div className="font-medium text-gray-800 truncate">
+                            {batch.fileName || `Import #${batch.batchId}`}{' '}
+                            <ImportStatusBadge status={batch.status} />
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {new Date(batch.createdAt).toLocaleString()} · {batch.mode} ·{' '}
+                            {batch.active
+                              ? `${batch.percent}% of ${batch.totalRows} rows`
+                              : `${batch.createdCount} created, ${batch.updatedCount} updated`}
+                            {batch.archivedCount > 0 && `, ${batch.archivedCount} archived`}
+                          </div>
+                        </div>
+                        <div className="shrink-0 flex items-center gap-3 text-xs">
+                          <button
+                            onClick={() => openBatch(batch.batchId)}
+                            className="text-primary hover:underline"
+                          >
+                            View
+                          </button>
+                          {batch.canRollback && (
+                            <button
+                              onClick={() => handleRollback(batch.batchId)}
+                              disabled={rollingBackId !== null}
+                              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                            >
+                              <FontAwesomeIcon icon={['fal', 'undo']} className="mr-1" />
+                              {rollingBackId === batch.batchId ? 'Undoing...' : 'Undo'}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -509,6 +981,44 @@ export default function CSVImportWizard({
                 </div>
               </div>
 
+              {/* Mapping template */}
+              <div className="mb-4 p-3 bg-gray-50 border rounded flex flex-wrap items-center gap-3">
+                <label className="text-sm font-medium text-gray-700">Mapping template</label>
+                <select
+                  value={templateId ?? ''}
+                  onChange={(e) => selectTemplate(e.target.value ? parseInt(e.target.value) : null)}
+                  className="px-3 py-2 border border-gray-300 rounded text-sm min-w-[220px]"
+                >
+                  <option value="">None (auto-detect)</option>
+                  {templates.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                      {t.vendorId === null ? ' (shared)' : ''}
+                    </option>
+                  ))}
+                </select>
+                {stageResult.template?.autoSelected && stageResult.template.id === templateId && (
+                  <span className="text-xs text-green-700">
+                    <FontAwesomeIcon icon={['fal', 'magic']} className="mr-1" />
+                    Selected automatically — your columns match this template
+                  </span>
+                )}
+                {(() => {
+                  const selected = templates.find((t) => t.id === templateId);
+                  if (!selected || !canEditTemplate(selected)) return null;
+                  return (
+                    <button
+                      type="button"
+                      onClick={deleteTemplate}
+                      className="ml-auto text-xs text-red-600 hover:text-red-800"
+                    >
+                      <FontAwesomeIcon icon={['fal', 'trash']} className="mr-1" />
+                      Delete template
+                    </button>
+                  );
+                })()}
+              </div>
+
               {(() => {
                 // Columns to always hide entirely
                 const hiddenCols = new Set(['book_id', 'sku']);
@@ -600,6 +1110,167 @@ export default function CSVImportWizard({
                   </div>
                 );
               })()}
+
+              {/* Value transforms */}
+              <div className="mt-4 border rounded">
+                <button
+                  type="button"
+                  onClick={() => setShowTransforms((v) => !v)}
+                  className="w-full flex items-center justify-between px-3 py-2 text-sm font-medium text-gray-700"
+                >
+                  <span>
+                    <FontAwesomeIcon icon={['fal', 'sliders-h']} className="mr-2" />
+                    Value transforms
+                  </span>
+                  <FontAwesomeIcon icon={['fal', showTransforms ? 'chevron-up' : 'chevron-down']} />
+                </button>
+                {showTransforms && (
+                  <div className="px-3 pb-3 space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Price multiplier</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={transforms.priceMultiplier ?? ''}
+                          onChange={(e) =>
+                            setTransforms((prev) => ({
+                              ...prev,
+                              priceMultiplier: e.target.value
+                                ? parseFloat(e.target.value)
+                                : undefined,
+                            }))
+                          }
+                          placeholder="1.00"
+                          className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Default category</label>
+                        <input
+                          type="text"
+                          value={transforms.defaults?.category ?? ''}
+                          onChange={(e) =>
+                            setTransforms((prev) => ({
+                              ...prev,
+                              defaults: { ...prev.defaults, category: e.target.value },
+                            }))
+                          }
+                          placeholder="Used when a row has no category"
+                          className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">
+                        Condition synonyms (value in your file → condition)
+                      </label>
+                      <div className="space-y-2">
+                        {conditionRows.map(([from, to], idx) => (
+                          <div key={idx} className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              value={from}
+                              onChange={(e) =>
+                                setConditionRows(
+                                  conditionRows.map((row, i) =>
+                                    i === idx ? [e.target.value, row[1]] : row,
+                                  ),
+                                )
+                              }
+                              placeholder="e.g. Near Fine"
+                              className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm"
+                            />
+                            <FontAwesomeIcon
+                              icon={['fal', 'arrow-right']}
+                              className="text-gray-400"
+                            />
+                            <select
+                              value={to}
+                              onChange={(e) =>
+                                setConditionRows(
+                                  conditionRows.map((row, i) =>
+                                    i === idx ? [row[0], e.target.value] : row,
+                                  ),
+                                )
+                              }
+                              className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm"
+                            >
+                              <option value="">Choose condition</option>
+                              {(
+                                stageResult.targetFields.find((f) => f.key === 'condition')
+                                  ?.options || []
+                              ).map((option) => (
+                                <option key={option} value={option}>
+                                  {option}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setConditionRows(conditionRows.filter((_, i) => i !== idx))
+                              }
+                              className="text-gray-400 hover:text-red-600"
+                            >
+                              <FontAwesomeIcon icon={['fal', 'times']} />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={() => setConditionRows([...conditionRows, ['', '']])}
+                          className="text-xs text-primary hover:underline"
+                        >
+                          <FontAwesomeIcon icon={['fal', 'plus']} className="mr-1" />
+                          Add synonym
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Save as template */}
+              <div className="mt-4 flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  placeholder={
+                    role === 'admin' ? 'Shared template name' : 'Save these mappings as…'
+                  }
+                  className="px-3 py-2 border border-gray-300 rounded text-sm flex-1 min-w-[200px]"
+                />
+                <button
+                  type="button"
+                  onClick={() => saveTemplate(true)}
+                  disabled={templateSaving || !templateName.trim()}
+                  className="px-4 py-2 border border-gray-300 rounded text-sm hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <FontAwesomeIcon icon={['fal', 'save']} className="mr-2" />
+                  Save as template
+                </button>
+                {(() => {
+                  const selected = templates.find((t) => t.id === templateId);
+                  if (!selected || !canEditTemplate(selected)) return null;
+                  return (
+                    <button
+                      type="button"
+                      onClick={() => saveTemplate(false)}
+                      disabled={templateSaving}
+                      className="px-4 py-2 border border-gray-300 rounded text-sm hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Update &ldquo;{selected.name}&rdquo;
+                    </button>
+                  );
+                })()}
+                {templateMessage && (
+                  <span className="text-xs text-green-700">{templateMessage}</span>
+                )}
+              </div>
             </div>
           )}
 
@@ -632,6 +1303,18 @@ export default function CSVImportWizard({
                           : `Invalid (${stats.invalidRows})`}
                     </button>
                   ))}
+                  {isbnSummary && (
+                    <button
+                      onClick={() => loadRows(1, 'suggestions')}
+                      className={`px-3 py-1.5 text-xs font-medium rounded transition ${
+                        rowFilter === 'suggestions'
+                          ? 'bg-primary text-white'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      From ISBN
+                    </button>
+                  )}
                   {stats.invalidRows > 0 && (
                     <button
                       onClick={downloadErrors}
@@ -669,6 +1352,63 @@ export default function CSVImportWizard({
                 </div>
               </div>
 
+              {/* ISBN lookup */}
+              {Object.values(mappings).includes('isbn') && (
+                <div className="mb-4 flex items-center justify-between flex-wrap gap-2 bg-blue-50 border border-blue-200 rounded p-3">
+                  <div className="text-sm text-gray-700">
+                    {isbnSummary ? (
+                      <>
+                        Looked up {isbnSummary.lookedUp} ISBNs: {isbnSummary.rowsWithSuggestions}{' '}
+                        rows have values to review
+                        {isbnSummary.invalidIsbns > 0 &&
+                          `, ${isbnSummary.invalidIsbns} ISBNs are invalid`}
+                        {isbnSummary.failed > 0 && `, ${isbnSummary.failed} lookups failed`}
+                        {isbnSummary.remaining > 0 &&
+                          `, ${isbnSummary.remaining} not looked up yet (look up again to continue)`}
+                        {isbnSummary.truncated && ' (first 1,000 ISBNs only)'}
+                      </>
+                    ) : (
+                      "Fill blank titles, authors, publishers and years from each row's ISBN"
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {isbnSummary && isbnSummary.rowsWithSuggestions > 0 && (
+                      <>
+                        <button
+                          onClick={() => resolveSuggestions(true)}
+                          disabled={suggestionSaving}
+                          className="px-3 py-1.5 text-xs font-medium bg-primary text-white rounded hover:bg-opacity-90 disabled:opacity-50 transition"
+                        >
+                          Use All
+                        </button>
+                        <button
+                          onClick={() => resolveSuggestions(false)}
+                          disabled={suggestionSaving}
+                          className="px-3 py-1.5 text-xs font-medium bg-white border border-gray-300 text-gray-600 rounded hover:bg-gray-50 disabled:opacity-50 transition"
+                        >
+                          Dismiss All
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={handleIsbnLookup}
+                      disabled={isbnLoading}
+                      className="px-3 py-1.5 text-xs font-medium bg-white border border-primary text-primary rounded hover:bg-primary/5 disabled:opacity-50 transition"
+                    >
+                      <FontAwesomeIcon
+                        icon={['fal', isbnLoading ? 'spinner' : 'search']}
+                        className={`mr-1 ${isbnLoading ? 'animate-spin' : ''}`}
+                      />
+                      {isbnLoading
+                        ? 'Looking up...'
+                        : isbnSummary
+                          ? 'Look Up Again'
+                          : 'Fill from ISBN'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Rows table + inline editor */}
               <div className="border rounded overflow-hidden">
                 <div className="overflow-x-auto max-h-[45vh] overflow-y-auto">
@@ -699,6 +1439,7 @@ export default function CSVImportWizard({
                       {rows.map((row) => {
                         const isInvalid = row._errors && row._errors.length > 0;
                         const isEditing = editingRowIndex === row._rowIndex;
+                        const isReviewing = reviewingRowIndex === row._rowIndex;
 
                         // All mapped target fields for the editor
                         const editableFields = stageResult
@@ -754,12 +1495,52 @@ export default function CSVImportWizard({
                                       {isEditing ? 'Cancel' : 'Fix'}
                                     </button>
                                   </div>
+                                ) : row._suggestions ? (
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      setReviewingRowIndex(isReviewing ? null : row._rowIndex)
+                                    }
+                                    className="px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition"
+                                  >
+                                    {isReviewing ? 'Close' : 'Review ISBN data'}
+                                  </button>
+                                ) : row._isbnError ? (
+                                  <span className="text-xs text-yellow-700">{row._isbnError}</span>
                                 ) : (
                                   <span className="text-xs text-gray-400">—</span>
                                 )}
+                                {isInvalid && row._suggestions && !isReviewing && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setReviewingRowIndex(row._rowIndex)}
+                                    className="mt-1 px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition"
+                                  >
+                                    Review ISBN data
+                                  </button>
+                                )}
                               </td>
                             </tr>
 
+                            {/* ISBN suggestions for this row */}
+                            {isReviewing && row._suggestions && (
+                              <tr key={`isbn-${row._rowIndex}`}>
+                                <td colSpan={6} className="px-3 py-2">
+                                  <IsbnSuggestions
+                                    suggestions={row._suggestions}
+                                    current={row}
+                                    busy={suggestionSaving}
+                                    onAccept={(fields) =>
+                                      resolveSuggestions(true, row._rowIndex, fields)
+                                    }
+                                    onReject={(fields) =>
+                                      resolveSuggestions(false, row._rowIndex, fields)
+                                    }
+                                  />
+                                </td>
+                              </tr>
+                            )}
+
                             {/* Inline editor row */}
                             {isEditing && (
                               <tr key={`edit-${row._rowIndex}`}>
@@ -1099,15 +1880,25 @@ export default function CSVImportWizard({
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Import Mode
                   </label>
-                  <div className="grid grid-cols-3 gap-3">
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                     {[
                       { value: 'create', label: 'Create Only', desc: 'Only create new records' },
                       { value: 'update', label: 'Update Only', desc: 'Only update existing' },
                       { value: 'upsert', label: 'Upsert', desc: 'Create or update' },
+                      {
+                        value: 'sync',
+                        label: 'Sync Inventory',
+                        desc: 'Upsert, then archive listings not in the file',
+                      },
                     ].map((opt) => (
                       <button
                         key={opt.value}
-                        onClick={() => setImportMode(opt.value as any)}
+                        onClick={() => {
+                          setImportMode(opt.value as ImportMode);
+                          if (opt.value === 'sync' && matchStrategy === 'none') {
+                            setMatchStrategy('sku');
+                          }
+                        }}
                         className={`p-3 border rounded text-left transition ${
                           importMode === opt.value
                             ? 'border-primary bg-primary/5 ring-2 ring-primary'
@@ -1132,7 +1923,9 @@ export default function CSVImportWizard({
                       onChange={(e) => setMatchStrategy(e.target.value)}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded focus:ring-2 focus:ring-primary"
                     >
-                      <option value="none">No matching (always create new)</option>
+                      {importMode !== 'sync' && (
+                        <option value="none">No matching (always create new)</option>
+                      )}
                       <option value="isbn">Match by ISBN</option>
                       <option value="sku">Match by Book ID (book_id / SKU field)</option>
                       <option value="title_author">Match by Title + Author (fallback)</option>
@@ -1145,6 +1938,34 @@ export default function CSVImportWizard({
                         possible.
                       </p>
                     )}
+                    {importMode === 'sync' && (
+                      <p className="text-xs text-yellow-600 mt-1">
+                        <FontAwesomeIcon icon={['fal', 'exclamation-triangle']} className="mr-1" />
+                        Draft, pending and published listings that no row matches are archived.
+                        Preview the changes first.
+                      </p>
+                    )}
+                    {importMode === 'sync' && !!stats?.invalidRows && (
+                      <p className="text-xs text-red-600 mt-1">
+                        Fix or remove the {stats.invalidRows} invalid rows first: a sync would
+                        archive the listings they were meant to match.
+                      </p>
+                    )}
+                    <label className="flex items-start gap-2 mt-3 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={sparse}
+                        onChange={(e) => setSparse(e.target.checked)}
+                        className="mt-0.5"
+                      />
+                      <span>
+                        Only update mapped columns
+                        <span className="block text-xs text-gray-500">
+                          Matched listings keep their current values for every field the file
+                          doesn&apos;t map (e.g. a price and quantity feed).
+                        </span>
+                      </span>
+                    </label>
                   </div>
                 )}
 
@@ -1205,25 +2026,190 @@ export default function CSVImportWizard({
                     </div>
                   </div>
                 </div>
+
+                {/* Dry run */}
+                <div>
+                  <button
+                    onClick={handlePreview}
+                    disabled={previewLoading || (role === 'admin' && !adminVendorId)}
+                    className="px-4 py-2 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 transition"
+                  >
+                    <FontAwesomeIcon
+                      icon={['fal', previewLoading ? 'spinner' : 'search']}
+                      spin={previewLoading}
+                      className="mr-2"
+                    />
+                    {importPreview ? 'Refresh Preview' : 'Preview Changes'}
+                  </button>
+
+                  {importPreview && (
+                    <div className="mt-4 space-y-4">
+                      <div className="grid grid-cols-5 gap-2 text-center text-sm">
+                        {[
+                          ['Create', importPreview.summary.create, 'text-green-700'],
+                          ['Update', importPreview.summary.update, 'text-blue-700'],
+                          ['Unchanged', importPreview.summary.unchanged, 'text-gray-600'],
+                          ['Skip', importPreview.summary.skip, 'text-yellow-700'],
+                          ['Archive', importPreview.summary.archive, 'text-red-700'],
+                        ].map(([label, count, color]) => (
+                          <div key={label as string} className="border rounded p-2">
+                            <div className={`text-xl font-bold ${color}`}>{count}</div>
+                            <div className="text-xs text-gray-500">{label}</div>
+                          </div>
+                        ))}
+                      </div>
+
+                      <div className="max-h-72 overflow-y-auto border rounded">
+                        <table className="min-w-full text-sm">
+                          <thead className="bg-gray-50 sticky top-0">
+                            <tr>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">
+                                Row
+                              </th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">
+                                Title
+                              </th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">
+                                Changes
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y">
+                            {importPreview.rows.map((row) => (
+                              <tr key={row.rowIndex} className="align-top">
+                                <td className="px-3 py-2 text-gray-500">{row.rowIndex}</td>
+                                <td className="px-3 py-2">
+                                  <span
+                                    className={`inline-block px-1.5 py-0.5 mr-2 rounded text-xs ${ACTION_STYLES[row.action]}`}
+                                  >
+                                    {row.action}
+                                  </span>
+                                  {row.title}
+                                </td>
+                                <td className="px-3 py-2 text-xs text-gray-600">
+                                  {row.action === 'skip' && row.reason}
+                                  {row.changes.map((change) => (
+                                    <div key={change.field}>
+                                      <span className="font-medium">{change.field}</span>:{' '}
+                                      <span className="line-through text-red-600">
+                                        {showValue(change.before)}
+                                      </span>{' '}
+                                      →{' '}
+                                      <span className="text-green-700">
+                                        {showValue(change.after)}
+                                      </span>
+                                    </div>
+                                  ))}
+                                  {row.imagesChanged && <div>Images replaced</div>}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      {importPreview.rowsTruncated && (
+                        <p className="text-xs text-gray-500">
+                          Showing the first {importPreview.rows.length} rows; the counts above cover
+                          the whole file.
+                        </p>
+                      )}
+
+                      {importPreview.archive.length > 0 && (
+                        <div className="border border-red-200 bg-red-50 rounded p-3 text-sm">
+                          <p className="font-medium text-red-800 mb-1">
+                            Archived ({importPreview.archive.length}): not in the file
+                          </p>
+                          <ul className="max-h-32 overflow-y-auto text-red-700 text-xs space-y-0.5">
+                            {importPreview.archive.map((book) => (
+                              <li key={book.bookId}>
+                                {book.title} ({book.status})
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
           )}
 
           {/* ═══ RESULTS STEP ═══ */}
-          {step === 'results' && commitResult && (
+          {step === 'results' && commitResult && commitResult.active && (
+            <div className="max-w-2xl mx-auto py-8">
+              <div className="text-center mb-6">
+                <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
+                  <FontAwesomeIcon
+                    icon={['fal', 'spinner-third']}
+                    spin
+                    className="text-3xl text-blue-600"
+                  />
+                </div>
+                <h3 className="text-xl font-bold text-gray-900">
+                  {commitResult.status === 'cancelling' ? 'Stopping Import...' : 'Importing...'}
+                </h3>
+                <p className="text-gray-500 mt-1">
+                  You can close this window. The import keeps running and you can come back to it
+                  from Recent Imports or the import history.
+                </p>
+              </div>
+              <ImportBatchProgress batch={commitResult} />
+              <div className="mt-3 flex justify-between text-xs text-gray-500">
+                <span>
+                  {commitResult.createdCount} created · {commitResult.updatedCount} updated ·{' '}
+                  {commitResult.failedCount} failed
+                </span>
+                {commitResult.status !== 'cancelling' && (
+                  <button
+                    onClick={handleCancel}
+                    disabled={cancelling}
+                    className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    {cancelling ? 'Cancelling...' : 'Cancel Import'}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {step === 'results' && commitResult && !commitResult.active && (
             <div className="max-w-2xl mx-auto py-4">
               <div className="text-center mb-8">
-                <div className="inline-flex items-center justify-center w-16 h-16 bg-green-100 rounded-full mb-4">
+                <div
+                  className={`inline-flex items-center justify-center w-16 h-16 rounded-full mb-4 ${
+                    commitResult.status === 'completed' ? 'bg-green-100' : 'bg-yellow-100'
+                  }`}
+                >
                   <FontAwesomeIcon
-                    icon={['fal', 'check-circle']}
-                    className="text-3xl text-green-600"
+                    icon={[
+                      'fal',
+                      commitResult.status === 'completed' ? 'check-circle' : 'exclamation-circle',
+                    ]}
+                    className={`text-3xl ${
+                      commitResult.status === 'completed' ? 'text-green-600' : 'text-yellow-600'
+                    }`}
                   />
                 </div>
-                <h3 className="text-xl font-bold text-gray-900">Import Complete</h3>
-                <p className="text-gray-500 mt-1">Processed {commitResult.totalProcessed} rows</p>
+                <h3 className="text-xl font-bold text-gray-900">
+                  {
+                    {
+                      completed: 'Import Complete',
+                      cancelled: 'Import Cancelled',
+                      failed: 'Import Failed',
+                      rolled_back: 'Import Undone',
+                    }[commitResult.status as string]
+                  }
+                </h3>
+                <p className="text-gray-500 mt-1">
+                  Processed {commitResult.processedRows} of {commitResult.totalRows} rows
+                </p>
+                {commitResult.lastError && (
+                  <p className="text-sm text-red-600 mt-1">{commitResult.lastError}</p>
+                )}
               </div>
 
-              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 mb-6">
                 <div className="bg-green-50 border border-green-200 rounded p-4 text-center">
                   <div className="text-3xl font-bold text-green-700">
                     {commitResult.createdCount}
@@ -1236,6 +2222,12 @@ export default function CSVImportWizard({
                   </div>
                   <div className="text-xs text-blue-600 mt-1">Updated</div>
                 </div>
+                <div className="bg-gray-50 border border-gray-200 rounded p-4 text-center">
+                  <div className="text-3xl font-bold text-gray-700">
+                    {commitResult.unchangedCount}
+                  </div>
+                  <div className="text-xs text-gray-600 mt-1">Unchanged</div>
+                </div>
                 <div className="bg-yellow-50 border border-yellow-200 rounded p-4 text-center">
                   <div className="text-3xl font-bold text-yellow-700">
                     {commitResult.skippedCount}
@@ -1246,12 +2238,18 @@ export default function CSVImportWizard({
                   <div className="text-3xl font-bold text-red-700">{commitResult.failedCount}</div>
                   <div className="text-xs text-red-600 mt-1">Failed</div>
                 </div>
+                <div className="bg-orange-50 border border-orange-200 rounded p-4 text-center">
+                  <div className="text-3xl font-bold text-orange-700">
+                    {commitResult.archivedCount}
+                  </div>
+                  <div className="text-xs text-orange-600 mt-1">Archived</div>
+                </div>
               </div>
 
-              {commitResult.failures.length > 0 && (
+              {(commitResult.failures?.length ?? 0) > 0 && (
                 <div className="mb-6">
                   <h4 className="font-medium text-gray-900 mb-2">
-                    Failed Rows ({commitResult.failures.length})
+                    Failed Rows ({commitResult.failedCount})
                   </h4>
                   <div className="max-h-48 overflow-y-auto border rounded">
                     <table className="min-w-full text-sm">
@@ -1269,9 +2267,9 @@ export default function CSVImportWizard({
                         </tr>
                       </thead>
                       <tbody className="divide-y">
-                        {commitResult.failures.map((f, i) => (
+                        {commitResult.failures?.map((f, i) => (
                           <tr key={i} className="bg-red-50/30">
-                            <td className="px-3 py-2">{f.rowIndex}</td>
+                            <td className="px-3 py-2">{f.rowIndex ?? '—'}</td>
                             <td className="px-3 py-2 truncate max-w-[200px]">{f.title}</td>
                             <td className="px-3 py-2 text-red-600">{f.error}</td>
                           </tr>
@@ -1282,6 +2280,46 @@ export default function CSVImportWizard({
                 </div>
               )}
 
+              {rollbackResult ? (
+                <div className="mb-6 border border-green-200 bg-green-50 rounded p-3 text-sm">
+                  <p className="font-medium text-green-800">
+                    Import undone: {rollbackResult.deleted} deleted, {rollbackResult.restored}{' '}
+                    restored
+                    {rollbackResult.archived > 0 &&
+                      `, ${rollbackResult.archived} archived (they have orders)`}
+                  </p>
+                  {rollbackResult.skipped.length > 0 && (
+                    <ul className="mt-2 text-xs text-gray-600 space-y-0.5">
+                      {rollbackResult.skipped.map((item) => (
+                        <li key={item.bookId}>
+                          {item.title || `Book #${item.bookId}`}: {item.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ) : (
+                <div className="mb-6 flex flex-wrap gap-3">
+                  <button
+                    onClick={() => downloadReport(commitResult.batchId)}
+                    className="px-4 py-2 text-sm border border-gray-300 rounded hover:bg-gray-50 transition"
+                  >
+                    <FontAwesomeIcon icon={['fal', 'file-download']} className="mr-2" />
+                    Download Report
+                  </button>
+                  {commitResult.canRollback && (
+                    <button
+                      onClick={() => handleRollback(commitResult.batchId)}
+                      disabled={rollingBackId !== null}
+                      className="px-4 py-2 text-sm border border-red-300 text-red-700 rounded hover:bg-red-50 disabled:opacity-50 transition"
+                    >
+                      <FontAwesomeIcon icon={['fal', 'undo']} className="mr-2" />
+                      {rollingBackId ? 'Undoing...' : 'Undo This Import'}
+                    </button>
+                  )}
+                </div>
+              )}
+
               <div className="text-sm text-gray-500 bg-gray-50 p-3 rounded">
                 <strong>Import ID:</strong> {commitResult.importId}
               </div>
@@ -0,0 +1,75 @@
+'use client';
+
+import { getApiUrl } from '@/lib/api';
+import type { ImportBatchProgress as Progress, ImportBatchStatus } from '@/types/ImportBatch';
+
+export const IMPORT_STATUS_LABELS: Record<ImportBatchStatus, string> = {
+  queued: 'Queued',
+  running: 'Importing',
+  cancelling: 'Cancelling',
+  cancelled: 'Cancelled',
+  completed: 'Completed',
+  failed: 'Failed',
+  rolled_back: 'Undone',
+};
+
+const STATUS_STYLES: Record<ImportBatchStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  cancelling: 'bg-yellow-100 text-yellow-700',
+  cancelled: 'bg-yellow-100 text-yellow-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  rolled_back: 'bg-gray-100 text-gray-600',
+};
+
+/**
+ * Download an import's result report (every row with what happened to it)
+ * @param apiBase - Import API base, e.g. api/vendor/imports/books
+ */
+export async function downloadImportReport(apiBase: string, batchId: number, token?: string) {
+  const res = await fetch(getApiUrl(`${apiBase}/batches/${batchId}/report`), {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) throw new Error('Failed to download the import report');
+
+  const blob = await res.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `import-report-${batchId}.csv`;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
+export function ImportStatusBadge({ status }: { status: ImportBatchStatus }) {
+  return (
+    <span className={`inline-block px-2 py-0.5 rounded text-xs ${STATUS_STYLES[status]}`}>
+      {IMPORT_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+/**
+ * Progress bar for a queued or running import
+ */
+export default function ImportBatchProgress({ batch }: { batch: Progress }) {
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-500 mb-1">
+        <span>
+          {batch.status === 'queued'
+            ? 'Waiting to start...'
+            : `${batch.processedRows.toLocaleString()} of ${batch.totalRows.toLocaleString()} rows`}
+        </span>
+        <span>{batch.percent}%</span>
+      </div>
+      <div className="h-2 bg-gray-200 rounded overflow-hidden">
+        <div
+          className="h-full bg-primary transition-all duration-500"
+          style={{ width: `${batch.percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -27,11 +27,16 @@ const navItems: NavItem[] = [
   { href: '/admin/vendors', label: 'Vendors', icon: ['fal', 'store'] },
   { href: '/admin/memberships', label: 'Memberships', icon: ['fal', 'crown'] },
   { href: '/admin/orders', label: 'Orders', icon: ['fal', 'shopping-cart'] },
+  { href: '/admin/disputes', label: 'Disputes', icon: ['fal', 'exclamation-triangle'] },
   { href: '/admin/products', label: 'Products', icon: ['fal', 'box'] },
   { href: '/admin/auctions', label: 'Auctions', icon: ['fal', 'gavel'] },
   { href: '/admin/categories', label: 'Categories', icon: ['fal', 'folder'] },
   { href: '/admin/coupons', label: 'Coupons', icon: ['fal', 'ticket-alt'] },
+  { href: '/admin/tax-rates', label: 'Tax Rates', icon: ['fal', 'percent'] },
+  { href: '/admin/exchange-rates', label: 'Exchange Rates', icon: ['fal', 'globe'] },
   { href: '/admin/payouts', label: 'Payouts', icon: ['fal', 'dollar-sign'] },
+  { href: '/admin/emails', label: 'Email Templates', icon: ['fal', 'envelope'] },
+  { href: '/admin/jobs', label: 'Jobs', icon: ['fal', 'clock'] },
 ];
 
 export default function AdminLayout({ children }: { children: React.ReactNode }) {
@@ -58,11 +63,13 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
 
     // Listen for new notifications
     socket.on('notification:new', (notification) => {
-      // Show toast popup
-      const uiData = mapNotificationToUI(notification);
-      showNotificationToast(uiData, (href) => {
-        router.push(href);
-      });
+      // Show toast popup, unless pop-ups are turned off for this type
+      if (!notification.silent) {
+        const uiData = mapNotificationToUI(notification);
+        showNotificationToast(uiData, (href) => {
+          router.push(href);
+        });
+      }
 
       // Refetch unread count
       queryClient.invalidateQueries({ queryKey: ['notifications'] });
@@ -53,11 +53,13 @@ export default function Header() {
 
     // Listen for new notifications
     socket.on('notification:new', (notification) => {
-      // Show toast popup
-      const uiData = mapNotificationToUI(notification);
-      showNotificationToast(uiData, (href) => {
-        router.push(href);
-      });
+      // Show toast popup, unless pop-ups are turned off for this type
+      if (!notification.silent) {
+        const uiData = mapNotificationToUI(notification);
+        showNotificationToast(uiData, (href) => {
+          router.push(href);
+        });
+      }
 
       // Refetch unread count and notification list
       queryClient.invalidateQueries({ queryKey: ['notifications'] });
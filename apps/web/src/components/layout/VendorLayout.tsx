@@ -28,6 +28,7 @@ const navItems: NavItem[] = [
   { href: '/vendor/auctions', label: 'Auctions', icon: ['fal', 'gavel'] },
   { href: '/vendor/offers', label: 'Offers', icon: ['fal', 'tags'] },
   { href: '/vendor/coupons', label: 'Coupons', icon: ['fal', 'ticket-alt'] },
+  { href: '/vendor/shipping', label: 'Shipping', icon: ['fal', 'truck'] },
   { href: '/vendor/earnings', label: 'Earnings', icon: ['fal', 'chart-line'] },
   { href: '/vendor/payouts', label: 'Payouts', icon: ['fal', 'money-check-alt'] },
   { href: '/vendor/withdrawals', label: 'Withdrawals', icon: ['fal', 'wallet'] },
@@ -59,11 +60,13 @@ export default function VendorLayout({ children }: { children: React.ReactNode }
 
     // Listen for new notifications
     socket.on('notification:new', (notification) => {
-      // Show toast popup
-      const uiData = mapNotificationToUI(notification);
-      showNotificationToast(uiData, (href) => {
-        router.push(href);
-      });
+      // Show toast popup, unless pop-ups are turned off for this type
+      if (!notification.silent) {
+        const uiData = mapNotificationToUI(notification);
+        showNotificationToast(uiData, (href) => {
+          router.push(href);
+        });
+      }
 
       // Refetch unread count
       queryClient.invalidateQueries({ queryKey: ['notifications'] });
@@ -222,6 +222,11 @@ export default function AuctionDetailsDrawer({
                           </div>
                           <div className="text-xs text-gray-500">
                             {new Date(bid.createdAt).toLocaleString()}
+                            {bid.isAutoBid && (
+                              <span className="ml-2 px-1.5 py-0.5 bg-blue-100 text-blue-800">
+                                Auto-bid
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -19,6 +19,9 @@ interface AuctionModalProps {
 interface AuctionFormData {
   startingBid: string;
   reservePrice: string;
+  bidIncrement: string;
+  softCloseWindowMinutes: string;
+  softCloseExtensionMinutes: string;
   startTime: string;
   endTime: string;
   description: string;
@@ -29,6 +32,9 @@ export default function AuctionModal({ isOpen, onClose, item, itemType }: Auctio
   const [formData, setFormData] = useState<AuctionFormData>({
     startingBid: '',
     reservePrice: '',
+    bidIncrement: '',
+    softCloseWindowMinutes: '',
+    softCloseExtensionMinutes: '',
     startTime: new Date().toISOString().slice(0, 16),
     endTime: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 16),
     description: '',
@@ -41,6 +47,13 @@ export default function AuctionModal({ isOpen, onClose, item, itemType }: Auctio
         auctionableId: item.id,
         startingPrice: parseFloat(data.startingBid),
         reservePrice: parseFloat(data.reservePrice),
+        bidIncrement: data.bidIncrement ? parseFloat(data.bidIncrement) : undefined,
+        softCloseWindowMinutes:
+          data.softCloseWindowMinutes !== '' ? parseInt(data.softCloseWindowMinutes) : undefined,
+        softCloseExtensionMinutes:
+          data.softCloseExtensionMinutes !== ''
+            ? parseInt(data.softCloseExtensionMinutes)
+            : undefined,
         startDate: new Date(data.startTime).toISOString(),
         endDate: new Date(data.endTime).toISOString(),
         description: data.description,
@@ -165,6 +178,30 @@ export default function AuctionModal({ isOpen, onClose, item, itemType }: Auctio
             </p>
           </div>
 
+          {/* Bid Increment */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Bid Increment (Optional)
+            </label>
+            <div className="relative">
+              <span className="absolute left-3 top-2.5 text-gray-500">$</span>
+              <input
+                type="number"
+                name="bidIncrement"
+                value={formData.bidIncrement}
+                onChange={handleChange}
+                min="1"
+                step="0.01"
+                className="w-full pl-8 pr-4 py-2 border border-gray-300 focus:ring-2 focus:ring-black focus:border-black"
+                placeholder="Tiered by price"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Fixed step for automatic bids. Leave blank to use increments that grow with the
+              current price.
+            </p>
+          </div>
+
           {/* Start Time */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -198,6 +235,37 @@ export default function AuctionModal({ isOpen, onClose, item, itemType }: Auctio
             </p>
           </div>
 
+          {/* Soft Close */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Soft Close (Optional)
+            </label>
+            <div className="grid grid-cols-2 gap-4">
+              <input
+                type="number"
+                name="softCloseWindowMinutes"
+                value={formData.softCloseWindowMinutes}
+                onChange={handleChange}
+                min="0"
+                className="w-full px-4 py-2 border border-gray-300 focus:ring-2 focus:ring-black focus:border-black"
+                placeholder="Window (min)"
+              />
+              <input
+                type="number"
+                name="softCloseExtensionMinutes"
+                value={formData.softCloseExtensionMinutes}
+                onChange={handleChange}
+                min="1"
+                className="w-full px-4 py-2 border border-gray-300 focus:ring-2 focus:ring-black focus:border-black"
+                placeholder="Extend by (min)"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Bids in the final minutes extend the end time. Leave blank to use your shop defaults;
+              set the window to 0 to disable.
+            </p>
+          </div>
+
           {/* Description */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import { getApiUrl } from '@/lib/api';
+
+type ExportFormat = 'csv' | 'json' | 'onix';
+
+interface CatalogExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Export endpoint, e.g. 'api/vendor/exports/books' */
+  apiPath: string;
+  token?: string;
+  /** Initial status filter, e.g. the tab the list is on */
+  initialStatus?: string;
+  /** Extra query parameters sent with every export (e.g. vendorId) */
+  extraParams?: Record<string, string>;
+}
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  {
+    value: 'csv',
+    label: 'CSV',
+    description: 'Same columns as CSV import, so the file can be edited and imported again',
+  },
+  { value: 'json', label: 'JSON', description: 'One record per listing, for scripts and tools' },
+  {
+    value: 'onix',
+    label: 'ONIX 3.0',
+    description: 'Industry-standard feed for other book marketplaces',
+  },
+];
+
+const STATUSES = ['all', 'published', 'draft', 'pending', 'sold', 'archived'];
+
+export default function CatalogExportModal({
+  isOpen,
+  onClose,
+  apiPath,
+  token,
+  initialStatus,
+  extraParams,
+}: CatalogExportModalProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [status, setStatus] = useState(
+    initialStatus && STATUSES.includes(initialStatus) ? initialStatus : 'all',
+  );
+  const [category, setCategory] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  // Start from the list's current tab each time the modal opens
+  useEffect(() => {
+    if (isOpen)
+      setStatus(initialStatus && STATUSES.includes(initialStatus) ? initialStatus : 'all');
+  }, [isOpen, initialStatus]);
+
+  if (!isOpen) return null;
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const params = new URLSearchParams({ format, ...extraParams });
+      if (status !== 'all') params.set('status', status);
+      if (category.trim()) params.set('category', category.trim());
+      if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+      if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+
+      const res = await fetch(getApiUrl(`${apiPath}?${params}`), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) {
+        const result = await res.json().catch(() => null);
+        throw new Error(result?.message || 'Export failed');
+      }
+
+      const blob = await res.blob();
+      const fileName =
+        res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ||
+        `catalog.${format === 'onix' ? 'xml' : format}`;
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      window.URL.revokeObjectURL(url);
+      onClose();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white max-w-lg w-full p-6 sm:p-8">
+        <h3 className="text-2xl font-bold text-primary mb-2">Export Catalog</h3>
+        <p className="text-gray-600 mb-6">Download listings as a file</p>
+
+        <div className="space-y-3 mb-6">
+          {FORMATS.map((option) => (
+            <label
+              key={option.value}
+              className={`flex items-start gap-3 p-3 border-2 cursor-pointer transition ${
+                format === option.value ? 'border-primary' : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <input
+                type="radio"
+                name="export-format"
+                value={option.value}
+                checked={format === option.value}
+                onChange={() => setFormat(option.value)}
+                className="mt-1"
+              />
+              <div>
+                <span className="font-semibold text-gray-900">{option.label}</span>
+                <p className="text-sm text-gray-600">{option.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="w-full border border-gray-300 px-3 py-2 text-sm"
+            >
+              {STATUSES.map((value) => (
+                <option key={value} value={value}>
+                  {value === 'all'
+                    ? 'All statuses'
+                    : value.charAt(0).toUpperCase() + value.slice(1)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+            <input
+              type="text"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="Any category"
+              className="w-full border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Listed from</label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Listed to</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-200 text-gray-700 px-4 py-2 hover:bg-gray-300 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="flex-1 flex items-center justify-center gap-2 bg-primary text-white px-4 py-2 hover:bg-opacity-90 transition disabled:opacity-50"
+          >
+            <FontAwesomeIcon
+              icon={['fal', exporting ? 'spinner' : 'file-export']}
+              className={exporting ? 'animate-spin' : ''}
+            />
+            {exporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import RefundTimeline from '@/components/orders/RefundTimeline';
+import { getApiUrl } from '@/lib/api';
+import { formatMoney } from '@/lib/format';
+import { OrderRefund, OrderRefundSummary } from '@/types/OrderRefund';
+
+interface RefundOrderModalProps {
+  orderId: number | null;
+  onClose: () => void;
+}
+
+/**
+ * Issue full, partial or per-item refunds on an order and act on vendor refund requests
+ */
+export default function RefundOrderModal({ orderId, onClose }: RefundOrderModalProps) {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [shippingVendors, setShippingVendors] = useState<(number | null)[]>([]);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [restock, setRestock] = useState(true);
+
+  useEffect(() => {
+    setQuantities({});
+    setShippingVendors([]);
+    setAmount('');
+    setReason('');
+    setRestock(true);
+  }, [orderId]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin-order-refunds', orderId],
+    queryFn: async () => {
+      const res = await fetch(getApiUrl(`api/admin/orders/${orderId}/refunds`), {
+        headers: { Authorization: `Bearer ${session?.accessToken}` },
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.message || 'Failed to load refunds');
+      return result.data as OrderRefundSummary;
+    },
+    enabled: !!session && !!orderId,
+  });
+
+  const onRefunded = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-order-refunds', orderId] });
+    queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-order-stats'] });
+    setQuantities({});
+    setShippingVendors([]);
+    setAmount('');
+    setReason('');
+  };
+
+  const refundMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const res = await fetch(getApiUrl(`api/admin/orders/${orderId}/refund`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.accessToken}`,
+        },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.message || 'Failed to refund order');
+      return result.data as OrderRefund;
+    },
+    onSuccess: (refund) => {
+      toast.success(
+        `Refunded ${formatMoney(refund.amount, { currency: refund.currency, decimals: 2 })}`,
+      );
+      onRefunded();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+      queryClient.invalidateQueries({ queryKey: ['admin-order-refunds', orderId] });
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async ({ refundId, note }: { refundId: number; note: string }) => {
+      const res = await fetch(
+        getApiUrl(`api/admin/orders/${orderId}/refunds/${refundId}/decline`),
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session?.accessToken}`,
+          },
+          body: JSON.stringify({ note }),
+        },
+      );
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.message || 'Failed to decline request');
+      return result;
+    },
+    onSuccess: () => {
+      toast.success('Refund request declined');
+      onRefunded();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  if (!orderId) return null;
+
+  const money = (value: number | string) =>
+    formatMoney(value, { currency: data?.currency || 'USD', decimals: 2 });
+  const requests = (data?.refunds || []).filter((refund) => refund.status === 'requested');
+  const selectedItems = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([orderItemId, quantity]) => ({ orderItemId: parseInt(orderItemId, 10), quantity }));
+  const canSubmit = selectedItems.length > 0 || shippingVendors.length > 0 || !!amount;
+
+  const submitRefund = () => {
+    refundMutation.mutate({
+      items: selectedItems,
+      refundShipping: shippingVendors,
+      ...(amount && { amount: parseFloat(amount) }),
+      reason: reason.trim() || undefined,
+      restock,
+    });
+  };
+
+  const declineRequest = (refundId: number) => {
+    const note = window.prompt('Reason for declining (shared with the vendor):') ?? null;
+    if (note === null) return;
+    declineMutation.mutate({ refundId, note });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h3 className="text-2xl font-bold text-primary">Refund Order</h3>
+            {data && (
+              <p className="text-sm text-gray-600">
+                Order #{data.orderNumber} · {money(data.totalAmount)} paid ·{' '}
+                {money(data.remainingAmount)} refundable
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <FontAwesomeIcon icon={['fal', 'times']} className="text-xl" />
+          </button>
+        </div>
+
+        {isLoading || !data ? (
+          <div className="text-center py-8">
+            <FontAwesomeIcon
+              icon={['fal', 'spinner-third']}
+              spin
+              className="text-3xl text-primary"
+            />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Vendor requests */}
+            {requests.map((request) => (
+              <div key={request.id} className="border border-blue-200 bg-blue-50 p-4">
+                <p className="text-sm font-medium text-blue-900">
+                  Vendor requested {money(request.amount)}
+                </p>
+                {request.reason && <p className="text-sm text-gray-700 mt-1">{request.reason}</p>}
+                <ul className="text-sm text-gray-600 mt-2">
+                  {request.lines.map((line) => (
+                    <li key={line.orderItemId}>
+                      {line.title || 'Item'}
+                      {line.quantity > 0 ? ` × ${line.quantity}` : ' (partial)'}
+                    </li>
+                  ))}
+                  {request.shippingLines.length > 0 && <li>Shipping</li>}
+                </ul>
+                <div className="flex gap-2 mt-3">
+                  <button
+                    onClick={() => refundMutation.mutate({ refundRequestId: request.id })}
+                    disabled={refundMutation.isPending}
+                    className="px-3 py-1 bg-primary text-white text-sm disabled:opacity-50"
+                  >
+                    Issue Refund
+                  </button>
+                  <button
+                    onClick={() => declineRequest(request.id)}
+                    disabled={declineMutation.isPending}
+                    className="px-3 py-1 border border-gray-300 bg-white text-sm disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            {/* New refund */}
+            {data.remainingAmount > 0 && (
+              <div className="space-y-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">Items</p>
+                  <div className="space-y-2">
+                    {data.items.map((item) => (
+                      <div
+                        key={item.orderItemId}
+                        className="flex items-center justify-between gap-3 text-sm"
+                      >
+                        <span className="text-gray-900">
+                          {item.title || `Item #${item.orderItemId}`}
+                          <span className="text-gray-500">
+                            {' '}
+                            · {money(item.remainingAmount)} refundable
+                          </span>
+                        </span>
+                        {item.remainingQuantity > 0 ? (
+                          <select
+                            value={quantities[item.orderItemId] ?? 0}
+                            onChange={(e) =>
+                              setQuantities({
+                                ...quantities,
+                                [item.orderItemId]: parseInt(e.target.value, 10),
+                              })
+                            }
+                            className="border border-gray-300 px-2 py-1"
+                          >
+                            {Array.from({ length: item.remainingQuantity + 1 }, (_, qty) => (
+                              <option key={qty} value={qty}>
+                                {qty} of {item.remainingQuantity}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-xs text-gray-500">Refunded</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {data.shipping.some((line) => line.remainingAmount > 0) && (
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-2">Shipping</p>
+                    {data.shipping
+                      .filter((line) => line.remainingAmount > 0)
+                      .map((line) => (
+                        <label
+                          key={line.vendorId ?? 'order'}
+                          className="flex items-center gap-2 text-sm text-gray-700"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={shippingVendors.includes(line.vendorId)}
+                            onChange={(e) =>
+                              setShippingVendors(
+                                e.target.checked
+                                  ? [...shippingVendors, line.vendorId]
+                                  : shippingVendors.filter((id) => id !== line.vendorId),
+                              )
+                            }
+                          />
+                          {line.vendorId ? `Vendor #${line.vendorId} shipping` : 'Order shipping'} (
+                          {money(line.remainingNet)})
+                        </label>
+                      ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Amount (optional)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="Full value of the selection"
+                      className="w-full border border-gray-300 px-3 py-2 text-sm"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Caps the selection (e.g. less a restocking fee). On its own, refunded across
+                      the remaining items.
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                    <input
+                      type="text"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      className="w-full border border-gray-300 px-3 py-2 text-sm"
+                    />
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={restock}
+                    onChange={(e) => setRestock(e.target.checked)}
+                  />
+                  Return refunded items to inventory
+                </label>
+
+                <button
+                  onClick={submitRefund}
+                  disabled={!canSubmit || refundMutation.isPending}
+                  className="w-full bg-primary text-white px-4 py-2 hover:bg-opacity-90 transition disabled:opacity-50"
+                >
+                  {refundMutation.isPending ? 'Refunding...' : 'Issue Refund'}
+                </button>
+              </div>
+            )}
+
+            {/* History */}
+            {data.refunds.length > 0 && (
+              <div className="border-t pt-4">
+                <h4 className="text-sm font-medium text-gray-700 mb-3">Refund history</h4>
+                <RefundTimeline refunds={data.refunds} currency={data.currency} viewer="admin" />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
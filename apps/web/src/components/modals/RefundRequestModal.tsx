@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+
+export interface RefundRequestItem {
+  id: number;
+  title: string;
+  remainingQuantity: number;
+}
+
+export interface RefundRequestPayload {
+  reason: string;
+  items: { orderItemId: number; quantity: number }[];
+  refundShipping: boolean;
+  amount?: number;
+  restock: boolean;
+}
+
+interface RefundRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orderNumber: string;
+  items: RefundRequestItem[];
+  canRefundShipping: boolean;
+  onSubmit: (payload: RefundRequestPayload) => void;
+  isSubmitting: boolean;
+}
+
+export default function RefundRequestModal({
+  isOpen,
+  onClose,
+  orderNumber,
+  items,
+  canRefundShipping,
+  onSubmit,
+  isSubmitting,
+}: RefundRequestModalProps) {
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [refundShipping, setRefundShipping] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [restock, setRestock] = useState(true);
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuantities(Object.fromEntries(items.map((item) => [item.id, item.remainingQuantity])));
+    setRefundShipping(canRefundShipping);
+    setAmount('');
+    setRestock(true);
+    setReason('');
+  }, [isOpen, items, canRefundShipping]);
+
+  if (!isOpen) return null;
+
+  const selectedItems = items
+    .map((item) => ({ orderItemId: item.id, quantity: quantities[item.id] || 0 }))
+    .filter((item) => item.quantity > 0);
+  const canSubmit =
+    reason.trim().length > 0 && (selectedItems.length > 0 || refundShipping || !!amount);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    onSubmit({
+      reason: reason.trim(),
+      items: selectedItems,
+      refundShipping,
+      ...(amount && { amount: parseFloat(amount) }),
+      restock,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-2xl font-bold text-primary mb-1">Request Refund</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Order #{orderNumber}. An admin reviews the request and issues the refund to the buyer.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Items to refund</p>
+            <div className="space-y-2">
+              {items.map((item) => (
+                <div key={item.id} className="flex items-center justify-between gap-3">
+                  <span className="text-sm text-gray-900">{item.title}</span>
+                  {item.remainingQuantity > 0 ? (
+                    <select
+                      value={quantities[item.id] ?? 0}
+                      onChange={(e) =>
+                        setQuantities({ ...quantities, [item.id]: parseInt(e.target.value, 10) })
+                      }
+                      className="border border-gray-300 px-2 py-1 text-sm"
+                    >
+                      {Array.from({ length: item.remainingQuantity + 1 }, (_, qty) => (
+                        <option key={qty} value={qty}>
+                          {qty}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-xs text-gray-500">Refunded</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {canRefundShipping && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={refundShipping}
+                onChange={(e) => setRefundShipping(e.target.checked)}
+              />
+              Refund shipping
+            </label>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={restock}
+              onChange={(e) => setRestock(e.target.checked)}
+            />
+            Return refunded items to inventory
+          </label>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Amount (optional)
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Full value of the selection"
+              className="w-full border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-black"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Refund less than the selection, or with nothing selected, a goodwill amount on your
+              items.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason *</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              className="w-full border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-black"
+              placeholder="Item damaged in transit, returned by buyer..."
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={!canSubmit || isSubmitting}
+              className="flex-1 bg-primary text-white px-4 py-2 hover:bg-opacity-90 transition disabled:opacity-50"
+            >
+              {isSubmitting ? (
+                <>
+                  <FontAwesomeIcon
+                    icon={['fal', 'spinner-third']}
+                    spin
+                    className="mr-2 text-base"
+                  />
+                  Submitting...
+                </>
+              ) : (
+                'Submit Request'
+              )}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-200 text-gray-700 px-4 py-2 hover:bg-gray-300 transition"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,18 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
 import { getApiUrl } from '@/lib/api';
 import api from '@/lib/api';
 import { debounce } from 'lodash';
 import Image from 'next/image';
+import { useCreateSavedSearch } from '@/hooks/useSavedSearches';
+import FacetPanel, {
+  appendFacetSelections,
+  hasFacetSelections,
+} from '@/components/shared/FacetPanel';
+import type { FacetCounts, FacetSelections } from '@/types/Search';
 
 interface SearchResult {
   id: number;
@@ -37,7 +44,6 @@ interface Category {
 }
 
 interface FilterState {
-  category: string;
   author: string;
   minPrice: string;
   maxPrice: string;
@@ -53,14 +59,17 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
   const [showFilters, setShowFilters] = useState(false);
   const [categories, setCategories] = useState<Category[]>([]);
   const [filters, setFilters] = useState<FilterState>({
-    category: '',
     author: '',
     minPrice: '',
     maxPrice: '',
     type: '',
     sortBy: 'relevance',
   });
+  const [facetSelections, setFacetSelections] = useState<FacetSelections>({});
+  const [facets, setFacets] = useState<FacetCounts | undefined>();
   const router = useRouter();
+  const { data: session } = useSession();
+  const createSavedSearch = useCreateSavedSearch();
   const inputRef = useRef<HTMLInputElement>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
 
@@ -90,48 +99,56 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
 
   // Debounced search function
   const performSearch = useCallback(
-    debounce(async (searchQuery: string, currentFilters: FilterState) => {
-      if (!searchQuery.trim()) {
-        setResults([]);
-        setLoading(false);
-        return;
-      }
+    debounce(
+      async (searchQuery: string, currentFilters: FilterState, selections: FacetSelections) => {
+        if (!searchQuery.trim()) {
+          setResults([]);
+          setFacets(undefined);
+          setLoading(false);
+          return;
+        }
 
-      try {
-        setLoading(true);
-
-        // Build query parameters
-        const params = new URLSearchParams();
-        params.append('q', searchQuery);
-        params.append('limit', '30');
-        params.append('status', 'published');
-
-        if (currentFilters.category) params.append('category', currentFilters.category);
-        if (currentFilters.author) params.append('author', currentFilters.author);
-        if (currentFilters.minPrice) params.append('minPrice', currentFilters.minPrice);
-        if (currentFilters.maxPrice) params.append('maxPrice', currentFilters.maxPrice);
-        if (currentFilters.type) params.append('type', currentFilters.type);
-        if (currentFilters.sortBy) params.append('sortBy', currentFilters.sortBy);
-
-        const response = await fetch(getApiUrl(`api/search?${params.toString()}`));
-        const data = await response.json();
-
-        if (data.success) {
-          // Combine books and products from search API response
-          const books = (data.data.books || []).map((b: any) => ({ ...b, type: 'book' as const }));
-          const products = (data.data.products || []).map((p: any) => ({
-            ...p,
-            type: 'product' as const,
-          }));
-          setResults([...books, ...products]);
+        try {
+          setLoading(true);
+
+          // Build query parameters
+          const params = new URLSearchParams();
+          params.append('q', searchQuery);
+          params.append('limit', '30');
+          params.append('status', 'published');
+
+          if (currentFilters.author) params.append('author', currentFilters.author);
+          if (currentFilters.minPrice) params.append('minPrice', currentFilters.minPrice);
+          if (currentFilters.maxPrice) params.append('maxPrice', currentFilters.maxPrice);
+          if (currentFilters.type) params.append('type', currentFilters.type);
+          appendFacetSelections(params, selections);
+          if (currentFilters.sortBy) params.append('sortBy', currentFilters.sortBy);
+
+          const response = await fetch(getApiUrl(`api/search?${params.toString()}`));
+          const data = await response.json();
+
+          if (data.success) {
+            // Combine books and products from search API response
+            const books = (data.data.books || []).map((b: any) => ({
+              ...b,
+              type: 'book' as const,
+            }));
+            const products = (data.data.products || []).map((p: any) => ({
+              ...p,
+              type: 'product' as const,
+            }));
+            setResults([...books, ...products]);
+            setFacets(data.data.facets);
+          }
+        } catch (error) {
+          console.error('Search error:', error);
+          setResults([]);
+        } finally {
+          setLoading(false);
         }
-      } catch (error) {
-        console.error('Search error:', error);
-        setResults([]);
-      } finally {
-        setLoading(false);
-      }
-    }, 300),
+      },
+      300,
+    ),
     [],
   );
 
@@ -143,7 +160,7 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
 
     if (value.trim()) {
       setLoading(true);
-      performSearch(value, filters);
+      performSearch(value, filters, facetSelections);
     } else {
       setResults([]);
       setLoading(false);
@@ -158,14 +175,24 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
 
     if (query.trim()) {
       setLoading(true);
-      performSearch(query, updatedFilters);
+      performSearch(query, updatedFilters, facetSelections);
+    }
+  };
+
+  // Handle facet selection change
+  const handleFacetChange = (selections: FacetSelections) => {
+    setFacetSelections(selections);
+    setSelectedIndex(0);
+
+    if (query.trim()) {
+      setLoading(true);
+      performSearch(query, filters, selections);
     }
   };
 
   // Clear filters
   const clearFilters = () => {
     const clearedFilters = {
-      category: '',
       author: '',
       minPrice: '',
       maxPrice: '',
@@ -173,15 +200,47 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
       sortBy: 'relevance',
     };
     setFilters(clearedFilters);
+    setFacetSelections({});
 
     if (query.trim()) {
       setLoading(true);
-      performSearch(query, clearedFilters);
+      performSearch(query, clearedFilters, {});
     }
   };
 
   const hasActiveFilters =
-    filters.category || filters.author || filters.minPrice || filters.maxPrice || filters.type;
+    hasFacetSelections(facetSelections) ||
+    filters.author ||
+    filters.minPrice ||
+    filters.maxPrice ||
+    filters.type;
+
+  const categoryNames = Object.fromEntries(categories.map((c) => [c.slug, c.name]));
+
+  // Saved searches hold one value per filter, so only single selections carry over
+  const singleSelection = (values?: string[]) => (values?.length === 1 ? values[0] : undefined);
+
+  // Save the current query and filters for new-listing alerts
+  const saveSearch = () => {
+    if (!session) {
+      router.push('/auth/login');
+      onClose();
+      return;
+    }
+
+    createSavedSearch.mutate({
+      query: query.trim(),
+      filters: {
+        type: (filters.type || undefined) as 'book' | 'product' | undefined,
+        author: filters.author || undefined,
+        category: singleSelection(facetSelections.category),
+        minPrice: filters.minPrice ? parseFloat(filters.minPrice) : undefined,
+        maxPrice: filters.maxPrice ? parseFloat(filters.maxPrice) : undefined,
+        condition: singleSelection(facetSelections.condition),
+        signed: facetSelections.signed?.includes('true') || undefined,
+      },
+    });
+  };
 
   // Handle keyboard navigation
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -215,8 +274,8 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
   // View all results
   const viewAllResults = () => {
     const params = new URLSearchParams();
-    if (query) params.append('q', query);
-    if (filters.category) params.append('category', filters.category);
+    if (query) params.append('search', query);
+    appendFacetSelections(params, facetSelections);
     if (filters.author) params.append('author', filters.author);
     if (filters.minPrice) params.append('minPrice', filters.minPrice);
     if (filters.maxPrice) params.append('maxPrice', filters.maxPrice);
@@ -318,15 +377,27 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
                 </span>
               )}
             </button>
-            {hasActiveFilters && (
-              <button
-                onClick={clearFilters}
-                className="text-xs text-red-600 hover:text-red-800 transition flex items-center gap-1"
-              >
-                <FontAwesomeIcon icon={['fal', 'times-circle']} />
-                Clear All
-              </button>
-            )}
+            <div className="flex items-center gap-4">
+              {(query.trim() || hasActiveFilters) && (
+                <button
+                  onClick={saveSearch}
+                  disabled={createSavedSearch.isPending}
+                  className="text-xs text-primary hover:text-secondary transition flex items-center gap-1 disabled:opacity-50"
+                >
+                  <FontAwesomeIcon icon={['fal', 'bell']} />
+                  Save Search
+                </button>
+              )}
+              {hasActiveFilters && (
+                <button
+                  onClick={clearFilters}
+                  className="text-xs text-red-600 hover:text-red-800 transition flex items-center gap-1"
+                >
+                  <FontAwesomeIcon icon={['fal', 'times-circle']} />
+                  Clear All
+                </button>
+              )}
+            </div>
           </div>
         </div>
 
@@ -350,25 +421,6 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
                 </select>
               </div>
 
-              {/* Category Filter */}
-              <div>
-                <label className="block text-xs font-semibold text-gray-700 mb-1 uppercase tracking-wide">
-                  Category
-                </label>
-                <select
-                  value={filters.category}
-                  onChange={(e) => handleFilterChange({ category: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 focus:ring-2 focus:ring-primary focus:border-primary text-sm"
-                >
-                  <option value="">All Categories</option>
-                  {categories.map((category) => (
-                    <option key={category.id} value={category.slug}>
-                      {category.name}
-                    </option>
-                  ))}
-                </select>
-              </div>
-
               {/* Author Filter */}
               <div>
                 <label className="block text-xs font-semibold text-gray-700 mb-1 uppercase tracking-wide">
@@ -427,6 +479,18 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
                 </div>
               </div>
             </div>
+
+            {/* Facets with live counts for the current search */}
+            <FacetPanel
+              facets={facets}
+              selections={facetSelections}
+              onChange={handleFacetChange}
+              categoryNames={categoryNames}
+              query={query}
+              type={filters.type}
+              compact
+              className="mt-4 pt-4 border-t border-gray-100"
+            />
           </div>
         )}
 
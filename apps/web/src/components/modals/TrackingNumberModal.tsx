@@ -8,6 +8,8 @@ interface TrackingNumberModalProps {
   orderNumber: string;
   trackingNumber: string;
   onTrackingChange: (value: string) => void;
+  carrier?: string;
+  onCarrierChange?: (value: string) => void;
   onSubmit: () => void;
   isSubmitting: boolean;
 }
@@ -18,6 +20,8 @@ export default function TrackingNumberModal({
   orderNumber,
   trackingNumber,
   onTrackingChange,
+  carrier,
+  onCarrierChange,
   onSubmit,
   isSubmitting,
 }: TrackingNumberModalProps) {
@@ -28,6 +32,15 @@ export default function TrackingNumberModal({
       <div className="bg-white p-8 max-w-md w-full mx-4">
         <h3 className="text-2xl font-bold text-primary mb-4">Add Tracking Number</h3>
         <p className="text-sm text-gray-600 mb-4">Order #{orderNumber}</p>
+        {onCarrierChange && (
+          <input
+            type="text"
+            placeholder="Carrier (e.g., USPS, UPS, FedEx)"
+            value={carrier || ''}
+            onChange={(e) => onCarrierChange(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 mb-3 focus:outline-none focus:ring-2 focus:ring-black"
+          />
+        )}
         <input
           type="text"
           placeholder="Enter tracking number"
@@ -0,0 +1,167 @@
+'use client';
+
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import { formatDate, formatMoney } from '@/lib/format';
+import { OrderRefund } from '@/types/OrderRefund';
+
+interface RefundTimelineProps {
+  refunds: OrderRefund[];
+  currency?: string;
+  viewer: 'buyer' | 'vendor' | 'admin';
+}
+
+interface TimelineEvent {
+  key: string;
+  date: string;
+  icon: string;
+  color: string;
+  title: string;
+  refund: OrderRefund;
+  showBreakdown?: boolean;
+  detail?: string | null;
+}
+
+const num = (value: number | string | null | undefined) => parseFloat(String(value ?? 0)) || 0;
+
+/**
+ * Refund requests and refunds on an order, oldest first
+ */
+export default function RefundTimeline({ refunds, currency, viewer }: RefundTimelineProps) {
+  if (refunds.length === 0) return null;
+
+  const money = (amount: number | string) =>
+    formatMoney(amount, { currency: currency || 'USD', decimals: 2 });
+
+  const events: TimelineEvent[] = [];
+  for (const refund of refunds) {
+    if (refund.requestedBy === 'vendor' && viewer !== 'buyer') {
+      events.push({
+        key: `${refund.id}-requested`,
+        date: refund.createdAt,
+        icon: 'paper-plane',
+        color: 'text-blue-600',
+        title:
+          viewer === 'vendor'
+            ? `You requested a refund of ${money(refund.amount)}`
+            : `Seller requested a refund of ${money(refund.amount)}`,
+        refund,
+        showBreakdown: refund.status === 'requested',
+        detail: refund.reason,
+      });
+    }
+
+    const processedAt = refund.processedAt || refund.createdAt;
+    if (refund.status === 'declined') {
+      events.push({
+        key: `${refund.id}-declined`,
+        date: processedAt,
+        icon: 'times-circle',
+        color: 'text-red-600',
+        title: 'Refund request declined',
+        refund,
+        detail: refund.note,
+      });
+    } else if (refund.status === 'pending' || refund.status === 'processing') {
+      events.push({
+        key: `${refund.id}-pending`,
+        date: processedAt,
+        icon: 'hourglass-half',
+        color: 'text-yellow-600',
+        title: `Refund of ${money(refund.amount)} processing`,
+        refund,
+        showBreakdown: true,
+      });
+    } else if (refund.status === 'succeeded') {
+      events.push({
+        key: `${refund.id}-succeeded`,
+        date: processedAt,
+        icon: 'undo',
+        color: 'text-green-600',
+        title:
+          viewer === 'buyer'
+            ? `Refunded ${money(refund.amount)} to your original payment method`
+            : `Refunded ${money(refund.amount)}`,
+        refund,
+        showBreakdown: true,
+        detail: refund.requestedBy === 'admin' ? refund.reason : null,
+      });
+    } else if (refund.status === 'failed' && viewer !== 'buyer') {
+      events.push({
+        key: `${refund.id}-failed`,
+        date: processedAt,
+        icon: 'exclamation-triangle',
+        color: 'text-red-600',
+        title: `Refund of ${money(refund.amount)} failed`,
+        refund,
+        detail: refund.failureReason,
+      });
+    }
+  }
+  events.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+      {events.map((event) => {
+        const { refund } = event;
+        const shipping = refund.shippingLines.reduce(
+          (sum, line) => sum + num(line.amount) - num(line.discountAmount),
+          0,
+        );
+        const tax = refund.lines.reduce((sum, line) => sum + num(line.taxAmount), 0);
+        const reversed = (refund.reversedEarnings || []).reduce(
+          (sum, entry) => sum + entry.netAmount,
+          0,
+        );
+
+        return (
+          <li key={event.key} className="ml-5">
+            <span className="absolute -left-2.5 flex items-center justify-center w-5 h-5 bg-white">
+              <FontAwesomeIcon icon={['fal', event.icon]} className={event.color} />
+            </span>
+            <p className="text-sm font-medium text-gray-900">{event.title}</p>
+            <p className="text-xs text-gray-500">{formatDate(event.date, { includeTime: true })}</p>
+            {event.detail && (
+              <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">{event.detail}</p>
+            )}
+            {event.showBreakdown && (
+              <ul className="mt-2 text-sm text-gray-600 space-y-1">
+                {refund.lines.map((line) => (
+                  <li key={line.orderItemId} className="flex justify-between gap-4">
+                    <span>
+                      {line.title || 'Item'}
+                      {line.quantity > 0 ? ` × ${line.quantity}` : ' (partial)'}
+                    </span>
+                    <span>{money(line.amount - line.taxAmount)}</span>
+                  </li>
+                ))}
+                {shipping > 0 && (
+                  <li className="flex justify-between gap-4">
+                    <span>Shipping</span>
+                    <span>{money(shipping)}</span>
+                  </li>
+                )}
+                {tax > 0 && (
+                  <li className="flex justify-between gap-4">
+                    <span>Tax</span>
+                    <span>{money(tax)}</span>
+                  </li>
+                )}
+                {viewer !== 'buyer' && refund.status === 'succeeded' && refund.restock && (
+                  <li className="text-xs text-gray-500">Refunded units returned to inventory</li>
+                )}
+                {viewer !== 'buyer' && reversed > 0 && (
+                  <li className="flex justify-between gap-4 text-red-600">
+                    <span>
+                      {viewer === 'vendor' ? 'Your earnings reversed' : 'Earnings reversed'}
+                    </span>
+                    <span>-{formatMoney(reversed, { decimals: 2 })}</span>
+                  </li>
+                )}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
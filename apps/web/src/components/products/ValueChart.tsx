@@ -0,0 +1,311 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { FontAwesomeIcon } from '@/components/FontAwesomeIcon';
+import api from '@/lib/api';
+import { formatDate, formatMoney } from '@/lib/format';
+import type {
+  PriceEventType,
+  PricePoint,
+  ValueChartData,
+  ValueChartResponse,
+} from '@/types/PriceHistory';
+
+interface ValueChartProps {
+  itemType: 'book' | 'product';
+  itemId: number | string;
+}
+
+const SERIES: Array<{ type: PriceEventType; label: string; color: string; line: boolean }> = [
+  { type: 'list_price', label: 'Asking price', color: '#1f2937', line: true },
+  { type: 'sale_price', label: 'Sale price', color: '#d97706', line: true },
+  { type: 'auction_hammer', label: 'Auction hammer', color: '#059669', line: false },
+  { type: 'offer_accepted', label: 'Accepted offer', color: '#2563eb', line: false },
+];
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 64 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PlottedPoint extends PricePoint {
+  type: PriceEventType;
+  x: number;
+  y: number;
+}
+
+/**
+ * Interactive price history chart for a listing and for every copy of the same work
+ */
+export default function ValueChart({ itemType, itemId }: ValueChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [scope, setScope] = useState<'item' | 'work'>('item');
+  const [hidden, setHidden] = useState<PriceEventType[]>([]);
+  const [hovered, setHovered] = useState<PlottedPoint | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['value-chart', itemType, itemId],
+    queryFn: async () => {
+      const res = await api.get<{ success: boolean; data: ValueChartResponse }>(
+        `/price-history/${itemType}/${itemId}`,
+      );
+      return res.data.data;
+    },
+    retry: false,
+  });
+
+  const chart: ValueChartData | undefined = data?.[scope];
+  const currency = data?.currency || 'USD';
+  const money = (amount: number | null) =>
+    amount === null ? '—' : formatMoney(amount, { currency, decimals: 2 });
+
+  const plotted = useMemo(() => {
+    if (!chart) return null;
+
+    const visible = SERIES.filter((series) => !hidden.includes(series.type));
+    const points = visible.flatMap((series) =>
+      chart.series[series.type].map((point) => ({ ...point, type: series.type })),
+    );
+    if (points.length === 0) return { points: [] as PlottedPoint[], ticks: [] as number[] };
+
+    const times = points.map((point) => new Date(point.date).getTime());
+    const amounts = points.map((point) => point.amount);
+    let [minTime, maxTime] = [Math.min(...times), Math.max(...times)];
+    if (minTime === maxTime) [minTime, maxTime] = [minTime - DAY_MS, maxTime + DAY_MS];
+    const maxAmount = Math.max(...amounts) * 1.1 || 1;
+    const minAmount = Math.max(0, Math.min(...amounts) * 0.8);
+
+    const x = (time: number) =>
+      PADDING.left +
+      ((time - minTime) / (maxTime - minTime)) * (WIDTH - PADDING.left - PADDING.right);
+    const y = (amount: number) =>
+      HEIGHT -
+      PADDING.bottom -
+      ((amount - minAmount) / (maxAmount - minAmount || 1)) *
+        (HEIGHT - PADDING.top - PADDING.bottom);
+
+    return {
+      points: points.map((point) => ({
+        ...point,
+        x: x(new Date(point.date).getTime()),
+        y: y(point.amount),
+      })),
+      ticks: [0, 0.5, 1].map((step) => minAmount + (maxAmount - minAmount) * step),
+      y,
+      minTime,
+      maxTime,
+    };
+  }, [chart, hidden]);
+
+  // Asking and sale prices hold until the next change, so they are drawn as steps
+  const stepPath = (points: PlottedPoint[]) =>
+    points
+      .map((point, index) => (index === 0 ? `M${point.x},${point.y}` : `H${point.x}V${point.y}`))
+      .join('') + (points.length ? `H${WIDTH - PADDING.right}` : '');
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!plotted?.points.length || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const cursorX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const nearest = plotted.points.reduce((best, point) =>
+      Math.abs(point.x - cursorX) < Math.abs(best.x - cursorX) ? point : best,
+    );
+    setHovered(nearest);
+  };
+
+  const toggleSeries = (type: PriceEventType) => {
+    setHidden((prev) =>
+      prev.includes(type) ? prev.filter((hiddenType) => hiddenType !== type) : [...prev, type],
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <FontAwesomeIcon icon={['fal', 'spinner-third']} spin className="text-2xl text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data || !chart) {
+    return <p className="text-sm text-gray-500">Price history is unavailable right now.</p>;
+  }
+
+  const { stats } = chart;
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div className="inline-flex border border-gray-300 text-sm">
+          <button
+            onClick={() => setScope('item')}
+            className={`px-3 py-1.5 ${scope === 'item' ? 'bg-black text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+          >
+            This copy
+          </button>
+          <button
+            onClick={() => setScope('work')}
+            className={`px-3 py-1.5 ${scope === 'work' ? 'bg-black text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+          >
+            All copies ({data.work.listingCount})
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs">
+          {SERIES.map((series) => (
+            <button
+              key={series.type}
+              onClick={() => toggleSeries(series.type)}
+              className={`flex items-center gap-1.5 ${hidden.includes(series.type) ? 'opacity-40' : ''}`}
+            >
+              <span
+                className={`inline-block w-3 h-3 ${series.line ? '' : 'rounded-full'}`}
+                style={{ backgroundColor: series.color }}
+              />
+              {series.label} ({chart.series[series.type].length})
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {stats.count === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">No price history recorded yet.</p>
+      ) : (
+        <div className="relative">
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHovered(null)}
+            role="img"
+            aria-label="Price history chart"
+          >
+            {plotted?.ticks.map((tick) => (
+              <g key={tick}>
+                <line
+                  x1={PADDING.left}
+                  x2={WIDTH - PADDING.right}
+                  y1={plotted.y?.(tick)}
+                  y2={plotted.y?.(tick)}
+                  stroke="#e5e7eb"
+                />
+                <text
+                  x={PADDING.left - 8}
+                  y={(plotted.y?.(tick) ?? 0) + 4}
+                  textAnchor="end"
+                  className="fill-gray-500 text-[10px]"
+                >
+                  {formatMoney(tick, { currency })}
+                </text>
+              </g>
+            ))}
+            {plotted?.minTime !== undefined && plotted.maxTime !== undefined && (
+              <>
+                <text x={PADDING.left} y={HEIGHT - 8} className="fill-gray-500 text-[10px]">
+                  {formatDate(new Date(plotted.minTime))}
+                </text>
+                <text
+                  x={WIDTH - PADDING.right}
+                  y={HEIGHT - 8}
+                  textAnchor="end"
+                  className="fill-gray-500 text-[10px]"
+                >
+                  {formatDate(new Date(plotted.maxTime))}
+                </text>
+              </>
+            )}
+
+            {SERIES.filter((series) => !hidden.includes(series.type)).map((series) => {
+              const points = plotted?.points.filter((point) => point.type === series.type) || [];
+              return (
+                <g key={series.type}>
+                  {series.line && points.length > 0 && (
+                    <path d={stepPath(points)} fill="none" stroke={series.color} strokeWidth={2} />
+                  )}
+                  {points.map((point, index) => (
+                    <circle
+                      key={index}
+                      cx={point.x}
+                      cy={point.y}
+                      r={series.line ? 3 : 5}
+                      fill={series.color}
+                      stroke="#fff"
+                      strokeWidth={1.5}
+                    />
+                  ))}
+                </g>
+              );
+            })}
+
+            {hovered && (
+              <line
+                x1={hovered.x}
+                x2={hovered.x}
+                y1={PADDING.top}
+                y2={HEIGHT - PADDING.bottom}
+                stroke="#9ca3af"
+                strokeDasharray="4 4"
+              />
+            )}
+          </svg>
+
+          {hovered && (
+            <div
+              className="absolute pointer-events-none bg-white border border-gray-200 shadow px-3 py-2 text-xs -translate-x-1/2"
+              style={{ left: `${(hovered.x / WIDTH) * 100}%`, top: 0 }}
+            >
+              <p className="font-semibold text-gray-900">{money(hovered.amount)}</p>
+              <p className="text-gray-600">
+                {SERIES.find((series) => series.type === hovered.type)?.label} ·{' '}
+                {formatDate(hovered.date)}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4 mt-4 text-sm">
+        <div>
+          <dt className="text-gray-500">Range</dt>
+          <dd className="font-semibold text-gray-900">
+            {stats.low === null ? '—' : `${money(stats.low)} – ${money(stats.high)}`}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Median realized</dt>
+          <dd className="font-semibold text-gray-900">
+            {money(stats.realizedMedian)}
+            {stats.realizedCount > 0 && (
+              <span className="text-gray-500 font-normal"> ({stats.realizedCount} sales)</span>
+            )}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Last realized</dt>
+          <dd className="font-semibold text-gray-900">{money(stats.lastRealized)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Asking price change</dt>
+          <dd
+            className={`font-semibold ${
+              (stats.listPriceChange ?? 0) > 0
+                ? 'text-green-600'
+                : (stats.listPriceChange ?? 0) < 0
+                  ? 'text-red-600'
+                  : 'text-gray-900'
+            }`}
+          >
+            {stats.listPriceChange === null
+              ? '—'
+              : `${stats.listPriceChange > 0 ? '+' : ''}${stats.listPriceChange}%`}
+          </dd>
+        </div>
+      </dl>
+
+      <p className="text-xs text-gray-400 mt-3">
+        Prices shown in {currency}. Listings in other currencies are converted at current rates.
+      </p>
+    </div>
+  );
+}
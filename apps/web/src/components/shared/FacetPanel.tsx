@@ -0,0 +1,255 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import api from '@/lib/api';
+import type { FacetCounts, FacetSelections, FacetValue, SearchFacet } from '@/types/Search';
+
+export const SEARCH_FACETS: SearchFacet[] = [
+  'category',
+  'condition',
+  'vendor',
+  'price',
+  'century',
+  'signed',
+  'auction',
+];
+
+const FACET_TITLES: Record<SearchFacet, string> = {
+  category: 'Category',
+  condition: 'Condition',
+  vendor: 'Seller',
+  price: 'Price',
+  century: 'Published',
+  signed: 'Signed copies',
+  auction: 'Live auctions',
+};
+
+// Yes/no facets render as one checkbox for "true"
+const TOGGLE_FACETS: SearchFacet[] = ['signed', 'auction'];
+
+// Facets with more values than this get a "show all" link and a typo-tolerant value search
+const COLLAPSED_VALUES = 6;
+const SEARCHABLE_FACETS: SearchFacet[] = ['category', 'vendor'];
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+const money = (amount: string) => `$${Number(amount).toLocaleString()}`;
+
+/**
+ * Display label for a facet value; categoryNames maps category slugs to names
+ */
+export function facetLabel(
+  facet: SearchFacet,
+  value: string,
+  categoryNames: Record<string, string> = {},
+): string {
+  if (facet === 'category') return categoryNames[value] || value;
+  if (facet === 'century') return `${ordinal(Number(value))} century`;
+  if (facet === 'price') {
+    if (value.endsWith('+')) return `${money(value.slice(0, -1))}+`;
+    const [min, max] = value.split('-');
+    return `${money(min)} – ${money(max)}`;
+  }
+  if (TOGGLE_FACETS.includes(facet)) return value === 'true' ? 'Yes' : 'No';
+  return value;
+}
+
+/**
+ * Facet selections from URL search params (repeated params, e.g. ?condition=Fine&condition=Good)
+ */
+export function readFacetSelections(params: URLSearchParams): FacetSelections {
+  const selections: FacetSelections = {};
+  for (const facet of SEARCH_FACETS) {
+    const values = params.getAll(facet).filter(Boolean);
+    if (values.length > 0) selections[facet] = values;
+  }
+  return selections;
+}
+
+/**
+ * Add facet selections to URL search params as repeated params
+ */
+export function appendFacetSelections(params: URLSearchParams, selections: FacetSelections) {
+  for (const facet of SEARCH_FACETS) {
+    for (const value of selections[facet] || []) params.append(facet, value);
+  }
+}
+
+export const hasFacetSelections = (selections: FacetSelections) =>
+  SEARCH_FACETS.some((facet) => (selections[facet] || []).length > 0);
+
+interface FacetPanelProps {
+  facets?: FacetCounts;
+  selections: FacetSelections;
+  onChange: (selections: FacetSelections) => void;
+  categoryNames?: Record<string, string>;
+  query?: string; // current search terms, so value searches count the same listings
+  type?: string;
+  compact?: boolean; // two columns at most, for narrow containers
+  className?: string;
+}
+
+interface FacetGroupProps
+  extends Omit<FacetPanelProps, 'facets' | 'onChange' | 'compact' | 'className'> {
+  facet: SearchFacet;
+  values: FacetValue[];
+  onToggle: (value: string) => void;
+}
+
+function FacetGroup({
+  facet,
+  values,
+  selections,
+  onToggle,
+  categoryNames,
+  query,
+  type,
+}: FacetGroupProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [valueQuery, setValueQuery] = useState('');
+  const selected = selections[facet] || [];
+  const searchable = SEARCHABLE_FACETS.includes(facet) && values.length > COLLAPSED_VALUES;
+
+  const { data: matches, isFetching } = useQuery({
+    queryKey: ['facet-values', facet, valueQuery, query, type],
+    queryFn: async () => {
+      const { data } = await api.get<{ success: boolean; data: FacetValue[] }>(
+        `/search/facets/${facet}`,
+        { params: { facetQuery: valueQuery, q: query || undefined, type: type || undefined } },
+      );
+      return data.data;
+    },
+    enabled: searchable && valueQuery.trim().length > 0,
+    staleTime: 30 * 1000,
+  });
+
+  const shown = valueQuery.trim()
+    ? matches || []
+    : expanded
+      ? values
+      : values.slice(0, COLLAPSED_VALUES);
+
+  return (
+    <fieldset>
+      <legend className="text-sm font-medium text-gray-700 mb-2">{FACET_TITLES[facet]}</legend>
+
+      {searchable && (
+        <input
+          type="text"
+          value={valueQuery}
+          onChange={(e) => setValueQuery(e.target.value)}
+          placeholder={`Find a ${FACET_TITLES[facet].toLowerCase()}...`}
+          className="w-full mb-2 px-2 py-1 text-sm border border-gray-300 focus:ring-2 focus:ring-primary focus:border-primary"
+        />
+      )}
+
+      <ul className="space-y-1">
+        {shown.map((option) => (
+          <li key={option.value}>
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={() => onToggle(option.value)}
+                className="h-4 w-4 text-primary focus:ring-primary"
+              />
+              <span className="flex-1 truncate">
+                {facetLabel(facet, option.value, categoryNames)}
+              </span>
+              <span className="text-xs text-gray-400">{option.count.toLocaleString()}</span>
+            </label>
+          </li>
+        ))}
+        {valueQuery.trim() && !isFetching && shown.length === 0 && (
+          <li className="text-xs text-gray-500">No matches</li>
+        )}
+      </ul>
+
+      {!valueQuery.trim() && values.length > COLLAPSED_VALUES && (
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="mt-1 text-xs text-primary hover:underline"
+        >
+          {expanded ? 'Show fewer' : `Show all ${values.length}`}
+        </button>
+      )}
+    </fieldset>
+  );
+}
+
+/**
+ * Multi-select facet filters with live counts from GET /search
+ * Values within a facet match any of them; facets without values are hidden
+ */
+export default function FacetPanel({
+  facets,
+  selections,
+  onChange,
+  categoryNames,
+  query,
+  type,
+  compact = false,
+  className = '',
+}: FacetPanelProps) {
+  if (!facets) return null;
+
+  const toggle = (facet: SearchFacet, value: string) => {
+    const current = selections[facet] || [];
+    const next = current.includes(value)
+      ? current.filter((selected) => selected !== value)
+      : [...current, value];
+    onChange({ ...selections, [facet]: next.length > 0 ? next : undefined });
+  };
+
+  const lists = SEARCH_FACETS.filter(
+    (facet) => !TOGGLE_FACETS.includes(facet) && (facets[facet] || []).length > 0,
+  );
+  const toggles = SEARCH_FACETS.filter((facet) => TOGGLE_FACETS.includes(facet)).map((facet) => ({
+    facet,
+    option: (facets[facet] || []).find((value) => value.value === 'true'),
+  }));
+
+  return (
+    <div className={className}>
+      <div className={`grid grid-cols-1 sm:grid-cols-2 gap-6 ${compact ? '' : 'lg:grid-cols-5'}`}>
+        {lists.map((facet) => (
+          <FacetGroup
+            key={facet}
+            facet={facet}
+            values={facets[facet] || []}
+            selections={selections}
+            onToggle={(value) => toggle(facet, value)}
+            categoryNames={categoryNames}
+            query={query}
+            type={type}
+          />
+        ))}
+      </div>
+
+      {toggles.some(({ option }) => option) && (
+        <div className="mt-4 flex flex-wrap gap-x-6 gap-y-2">
+          {toggles.map(
+            ({ facet, option }) =>
+              option && (
+                <label key={facet} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={(selections[facet] || []).includes('true')}
+                    onChange={() => toggle(facet, 'true')}
+                    className="h-4 w-4 text-primary focus:ring-primary"
+                  />
+                  {FACET_TITLES[facet]}
+                  <span className="text-xs text-gray-400">{option.count.toLocaleString()}</span>
+                </label>
+              ),
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
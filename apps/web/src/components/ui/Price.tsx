@@ -0,0 +1,27 @@
+'use client';
+
+import { useCurrency } from '@/hooks/useCurrency';
+
+interface PriceProps {
+  amount: number | string;
+  currency?: string;
+  decimals?: number;
+  className?: string;
+}
+
+/**
+ * Listing price shown in the buyer's preferred currency
+ * Converted prices are marked approximate and show the charged amount on hover
+ */
+export default function Price({ amount, currency = 'USD', decimals = 0, className }: PriceProps) {
+  const { formatPrice } = useCurrency();
+  const { text, approximate, original } = formatPrice(amount, currency, decimals);
+
+  if (!approximate) return <span className={className}>{text}</span>;
+
+  return (
+    <span className={className} title={`Approximately ${text}; charged as ${original}`}>
+      ≈ {text}
+    </span>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState } from 'react';
+import { io, Socket } from 'socket.io-client';
+import { useSession } from 'next-auth/react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  AuctionBid,
+  AuctionBidEvent,
+  AuctionClientEvents,
+  AuctionEndedEvent,
+  AuctionExtendedEvent,
+  AuctionOutbidEvent,
+  AuctionServerEvents,
+  AuctionStatus,
+  AuctionSummary,
+} from '@/types/Auction';
+
+interface UseAuctionSocketOptions {
+  auctionId?: number;
+  onBid?: (event: AuctionBidEvent) => void;
+  onOutbid?: (event: AuctionOutbidEvent) => void;
+  onExtended?: (event: AuctionExtendedEvent) => void;
+  onEnded?: (event: AuctionEndedEvent) => void;
+}
+
+// Query keys holding an AuctionSummary (see products/[...slug]/page.tsx)
+const SUMMARY_QUERY_KEYS = [['auctionById'], ['activeAuction']];
+
+const toSummaryStatus = (status: string): AuctionStatus => {
+  if (status === 'cancelled') return 'cancelled';
+  if (status === 'sold' || status === 'ended_sold') return 'sold';
+  return 'ended';
+};
+
+/**
+ * Live auction room: joins `auction:<id>` on the /auctions namespace and patches the
+ * React Query cache in place so the page never refetches to stay current
+ */
+export const useAuctionSocket = ({
+  auctionId,
+  onBid,
+  onOutbid,
+  onExtended,
+  onEnded,
+}: UseAuctionSocketOptions) => {
+  const { data: session, status: sessionStatus } = useSession();
+  const queryClient = useQueryClient();
+  const socketRef = useRef<Socket<AuctionServerEvents, AuctionClientEvents> | null>(null);
+  const [viewerCount, setViewerCount] = useState<number | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+
+  // Keep the latest callbacks without reconnecting when they change
+  const handlersRef = useRef({ onBid, onOutbid, onExtended, onEnded });
+  handlersRef.current = { onBid, onOutbid, onExtended, onEnded };
+
+  useEffect(() => {
+    // Wait for the session so signed-in viewers connect with their token (for outbid alerts)
+    if (!auctionId || sessionStatus === 'loading') return;
+
+    const socketUrl = process.env.NEXT_PUBLIC_SOCKET_URL || '';
+
+    const socket: Socket<AuctionServerEvents, AuctionClientEvents> = io(`${socketUrl}/auctions`, {
+      auth: {
+        token: session?.accessToken || '',
+      },
+      transports: ['websocket', 'polling'],
+    });
+
+    socketRef.current = socket;
+
+    const updateSummary = (update: (auction: AuctionSummary) => AuctionSummary) => {
+      SUMMARY_QUERY_KEYS.forEach((queryKey) => {
+        queryClient.setQueriesData<AuctionSummary | null>({ queryKey }, (auction) =>
+          auction && auction.id === auctionId ? update(auction) : auction,
+        );
+      });
+    };
+
+    socket.on('connect', () => {
+      setIsConnected(true);
+      // Rejoin on every (re)connect; rooms do not survive a dropped connection
+      socket.emit('auction:join', auctionId);
+    });
+
+    socket.on('disconnect', () => {
+      setIsConnected(false);
+    });
+
+    socket.on('connect_error', (error) => {
+      console.error('Auction socket connection error:', error.message);
+    });
+
+    socket.on('auction:bid', (event) => {
+      if (event.auctionId !== auctionId) return;
+      updateSummary((auction) => ({
+        ...auction,
+        currentBid: event.currentBid,
+        bidCount: event.bidCount,
+        minimumBid: event.minimumBid,
+      }));
+      queryClient.setQueryData<AuctionBid[]>(['auctionBids', auctionId], (bids) => {
+        if (!bids) return bids;
+        const newIds = new Set(event.bids.map((bid) => bid.id));
+        return [...event.bids, ...bids.filter((bid) => !newIds.has(bid.id))];
+      });
+      handlersRef.current.onBid?.(event);
+    });
+
+    socket.on('auction:outbid', (event) => {
+      if (event.auctionId !== auctionId) return;
+      handlersRef.current.onOutbid?.(event);
+    });
+
+    socket.on('auction:extended', (event) => {
+      if (event.auctionId !== auctionId) return;
+      updateSummary((auction) => ({
+        ...auction,
+        endsAt: event.endsAt,
+        extensionCount: (auction.extensionCount || 0) + 1,
+      }));
+      handlersRef.current.onExtended?.(event);
+    });
+
+    socket.on('auction:ended', (event) => {
+      if (event.auctionId !== auctionId) return;
+      updateSummary((auction) => ({ ...auction, status: toSummaryStatus(event.status) }));
+      handlersRef.current.onEnded?.(event);
+    });
+
+    socket.on('auction:viewers', (event) => {
+      if (event.auctionId !== auctionId) return;
+      setViewerCount(event.viewerCount);
+    });
+
+    return () => {
+      socket.emit('auction:leave', auctionId);
+      socket.disconnect();
+      socketRef.current = null;
+      setIsConnected(false);
+      setViewerCount(null);
+    };
+  }, [auctionId, sessionStatus, session?.accessToken, queryClient]);
+
+  return {
+    viewerCount,
+    isConnected,
+  };
+};
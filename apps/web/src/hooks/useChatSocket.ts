@@ -1,122 +1,222 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { useSession } from 'next-auth/react';
+import { getSession, useSession } from 'next-auth/react';
+import { getApiUrl } from '@/lib/api';
+import type { ChatAttachment, ChatReadReceipt } from '@/types/Chat';
 
 interface ChatMessage {
   id: number;
-  conversationId: number;
+  conversationId: number | string;
   senderId: number;
   content: string;
+  attachments: ChatAttachment[];
   createdAt: string;
 }
 
+interface ChatAck {
+  success: boolean;
+  message?: string;
+}
+
 interface UseChatSocketOptions {
-  conversationId?: number;
+  conversationId?: number | string;
   onNewMessage?: (message: ChatMessage) => void;
   onTypingStart?: (userId: string) => void;
   onTypingStop?: (userId: string) => void;
+  onRead?: (receipt: ChatReadReceipt) => void;
   onError?: (error: string) => void;
+  onAuthError?: (error: string) => void;
 }
 
+// Handshake rejections the server marks with data.code (see sockets/socketAuth.js)
+const REFRESHABLE_AUTH_ERRORS = ['AUTH_INVALID', 'AUTH_EXPIRED'];
+const AUTH_ERRORS = [...REFRESHABLE_AUTH_ERRORS, 'AUTH_REQUIRED', 'ACCOUNT_INACTIVE'];
+
+const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please sign in again.';
+const ACK_TIMEOUT_MS = 5000;
+
+/**
+ * Live chat on the /chat namespace
+ * The server takes the sender from the session token, so it is the only identity sent. When the
+ * server rejects or drops the connection for its token, the hook reconnects once with the
+ * current session token and reports authError if that does not help.
+ */
 export const useChatSocket = ({
   conversationId,
   onNewMessage,
   onTypingStart,
   onTypingStop,
+  onRead,
   onError,
+  onAuthError,
 }: UseChatSocketOptions) => {
   const { data: session } = useSession();
   const socketRef = useRef<Socket | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+
+  // The socket reads the token on every (re)connect, so a refreshed token applies without a new socket
+  const tokenRef = useRef(session?.accessToken);
+  tokenRef.current = session?.accessToken || tokenRef.current;
+  const hasToken = !!session?.accessToken;
+
+  // Keep the latest callbacks without reconnecting when they change
+  const handlersRef = useRef({
+    onNewMessage,
+    onTypingStart,
+    onTypingStop,
+    onRead,
+    onError,
+    onAuthError,
+  });
+  handlersRef.current = { onNewMessage, onTypingStart, onTypingStop, onRead, onError, onAuthError };
 
   // Initialize socket connection
   useEffect(() => {
-    if (!session?.accessToken) return;
+    if (!hasToken) return;
 
     const socketUrl = process.env.NEXT_PUBLIC_SOCKET_URL || '';
 
     // Connect to /chat namespace
     const socket = io(`${socketUrl}/chat`, {
-      auth: {
-        token: session.accessToken,
-      },
+      auth: (cb) => cb({ token: tokenRef.current }),
       transports: ['websocket', 'polling'],
     });
 
     socketRef.current = socket;
+    let refreshedToken: string | undefined;
+
+    // Retry once with the session's current token; give up if it is the one that failed
+    const recoverFromAuthFailure = async (code: string) => {
+      const fresh = REFRESHABLE_AUTH_ERRORS.includes(code) ? await getSession() : null;
+      const token = fresh?.accessToken;
+
+      if (token && token !== tokenRef.current && token !== refreshedToken) {
+        refreshedToken = token;
+        tokenRef.current = token;
+        socket.connect();
+        return;
+      }
+
+      setAuthError(SESSION_EXPIRED_MESSAGE);
+      handlersRef.current.onAuthError?.(SESSION_EXPIRED_MESSAGE);
+    };
 
     socket.on('connect', () => {
-      console.log('Chat socket connected');
+      setIsConnected(true);
+      setAuthError(null);
     });
 
-    socket.on('disconnect', () => {
-      console.log('Chat socket disconnected');
+    socket.on('disconnect', (reason) => {
+      setIsConnected(false);
+      // The server disconnects sockets whose token expired (after sending auth:expired)
+      if (reason === 'io server disconnect') recoverFromAuthFailure('AUTH_EXPIRED');
     });
 
-    socket.on('connect_error', (error) => {
+    socket.on('connect_error', (error: Error & { data?: { code?: string } }) => {
+      const code = error.data?.code;
+      if (code && AUTH_ERRORS.includes(code)) {
+        // Rejected handshakes are not retried by socket.io
+        recoverFromAuthFailure(code);
+        return;
+      }
       console.error('Chat socket connection error:', error.message);
-      onError?.(error.message);
+      handlersRef.current.onError?.(error.message);
     });
 
     // Handle new messages
     socket.on('message:new', (message: ChatMessage) => {
-      console.log('New message received:', message);
-      onNewMessage?.(message);
+      handlersRef.current.onNewMessage?.(message);
+    });
+
+    // Handle read receipts (either participant's read cursor moved)
+    socket.on('conversation:read', (receipt: ChatReadReceipt) => {
+      handlersRef.current.onRead?.(receipt);
     });
 
-    // Handle message errors
+    // Handle message and room errors
     socket.on('message:error', ({ error }) => {
       console.error('Message error:', error);
-      onError?.(error);
+      handlersRef.current.onError?.(error);
+    });
+
+    socket.on('conversation:error', ({ error }) => {
+      handlersRef.current.onError?.(error);
     });
 
     // Handle typing indicators
     socket.on('typing:user', (userId: string) => {
-      onTypingStart?.(userId);
+      handlersRef.current.onTypingStart?.(userId);
     });
 
     socket.on('typing:stop', (userId: string) => {
-      onTypingStop?.(userId);
+      handlersRef.current.onTypingStop?.(userId);
     });
 
     return () => {
       socket.disconnect();
       socketRef.current = null;
+      setIsConnected(false);
     };
-  }, [session?.accessToken, onNewMessage, onTypingStart, onTypingStop, onError]);
+  }, [hasToken]);
 
-  // Join conversation room when conversationId changes
+  // Join conversation room when conversationId changes, and again after reconnecting
+  // (rooms do not survive a dropped connection)
   useEffect(() => {
     if (conversationId && socketRef.current?.connected) {
-      console.log('Joining conversation:', conversationId);
       socketRef.current.emit('join:conversation', conversationId);
 
       return () => {
         if (socketRef.current?.connected) {
-          console.log('Leaving conversation:', conversationId);
           socketRef.current.emit('leave:conversation', conversationId);
         }
       };
     }
     return undefined;
-  }, [conversationId]);
+  }, [conversationId, isConnected]);
 
-  // Send message via socket
+  // Send message via socket; resolves false when it could not be sent
   const sendMessage = useCallback(
-    (content: string) => {
-      if (!socketRef.current || !conversationId || !session?.user?.id) {
-        console.error('Cannot send message: socket not ready or missing data');
-        return false;
+    (content: string): Promise<boolean> => {
+      const socket = socketRef.current;
+      if (!socket?.connected || !conversationId) {
+        return Promise.resolve(false);
       }
 
-      socketRef.current.emit('message:send', {
-        conversationId,
-        senderId: parseInt(session.user.id),
-        content: content.trim(),
+      return new Promise((resolve) => {
+        socket
+          .timeout(ACK_TIMEOUT_MS)
+          .emit(
+            'message:send',
+            { conversationId, content: content.trim() },
+            (err: Error | null, ack?: ChatAck) => resolve(!err && !!ack?.success),
+          );
       });
+    },
+    [conversationId],
+  );
 
-      return true;
+  // Mark the conversation read up to a message (default: the latest); over REST when offline
+  const markRead = useCallback(
+    (messageId?: number | string) => {
+      if (!conversationId) return;
+
+      const socket = socketRef.current;
+      if (socket?.connected) {
+        socket.emit('conversation:read', { conversationId, messageId });
+        return;
+      }
+
+      fetch(getApiUrl(`api/chat/conversations/${conversationId}/read`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${tokenRef.current}`,
+        },
+        body: JSON.stringify({ messageId }),
+      }).catch((error) => console.error('Failed to mark conversation read:', error));
     },
-    [conversationId, session?.user?.id],
+    [conversationId],
   );
 
   // Emit typing indicator
@@ -135,7 +235,9 @@ export const useChatSocket = ({
 
   return {
     sendMessage,
+    markRead,
     emitTyping,
-    isConnected: socketRef.current?.connected ?? false,
+    isConnected,
+    authError,
   };
 };
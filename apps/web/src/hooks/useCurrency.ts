@@ -0,0 +1,90 @@
+/**
+ * useCurrency Hook
+ * Formats listing prices in the buyer's preferred currency and locale.
+ * Converted amounts are estimates; orders are charged in the listing currency.
+ */
+
+'use client';
+
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useSession } from 'next-auth/react';
+import api from '@/lib/api';
+import { useCurrentLocale } from '@/lib/clientTranslations';
+import { formatMoney } from '@/lib/format';
+import {
+  BASE_CURRENCY,
+  convertAmount,
+  localeForLanguage,
+  type ExchangeRates,
+} from '@/lib/currency';
+
+export interface FormattedPrice {
+  text: string;
+  approximate: boolean;
+  original: string;
+}
+
+export function useExchangeRates() {
+  return useQuery({
+    queryKey: ['exchange-rates'],
+    queryFn: async () => {
+      const { data } = await api.get<{ success: boolean; data: { rates: ExchangeRates } }>(
+        '/currency/rates',
+      );
+      return data.data.rates;
+    },
+    staleTime: 1000 * 60 * 60, // Rates change at most daily
+  });
+}
+
+export function usePreferredCurrency() {
+  const { data: session } = useSession();
+
+  const { data } = useQuery({
+    queryKey: ['preferred-currency'],
+    queryFn: async () => {
+      const { data } = await api.get('/users/me');
+      return (data.data?.currency as string) || BASE_CURRENCY;
+    },
+    enabled: !!session,
+    staleTime: 1000 * 60 * 30,
+  });
+
+  return data || BASE_CURRENCY;
+}
+
+export function useCurrency() {
+  const preferredCurrency = usePreferredCurrency();
+  const { data: rates } = useExchangeRates();
+  const locale = localeForLanguage(useCurrentLocale());
+
+  const format = useCallback(
+    (amount: number | string, currency: string = BASE_CURRENCY, decimals = 0) =>
+      formatMoney(amount, { currency, decimals, locale }),
+    [locale],
+  );
+
+  /**
+   * Price in the preferred currency, falling back to the listing currency without a rate
+   */
+  const formatPrice = useCallback(
+    (
+      amount: number | string,
+      listingCurrency: string = BASE_CURRENCY,
+      decimals = 0,
+    ): FormattedPrice => {
+      const original = format(amount, listingCurrency, decimals);
+      const converted =
+        listingCurrency === preferredCurrency
+          ? null
+          : convertAmount(amount, listingCurrency, preferredCurrency, rates || {});
+
+      if (converted === null) return { text: original, approximate: false, original };
+      return { text: format(converted, preferredCurrency, decimals), approximate: true, original };
+    },
+    [format, preferredCurrency, rates],
+  );
+
+  return { preferredCurrency, locale, format, formatPrice };
+}
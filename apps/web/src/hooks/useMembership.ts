@@ -4,13 +4,14 @@
  */
 
 import { useQuery } from '@tanstack/react-query';
+import { useSession } from 'next-auth/react';
 import {
   getTierFromSlug,
   type MembershipTier,
   hasFeatureAccess,
   type MembershipFeatures,
 } from '@/lib/membershipAccess';
-import { getApiUrl } from '@/lib/api';
+import api from '@/lib/api';
 
 interface MembershipPlan {
   id: string;
@@ -27,19 +28,22 @@ interface UserSubscription {
 }
 
 export function useMembership() {
+  const { data: session } = useSession();
   const { data, isLoading, error } = useQuery<{
     success: boolean;
     data: UserSubscription | null;
   }>({
     queryKey: ['userSubscription'],
     queryFn: async () => {
-      const res = await fetch(getApiUrl('api/memberships/subscription'));
-      if (!res.ok) {
-        if (res.status === 401) return { success: true, data: null };
+      try {
+        const res = await api.get('/memberships/subscription');
+        return res.data;
+      } catch (err: any) {
+        if (err.response?.status === 401) return { success: true, data: null };
         throw new Error('Failed to fetch subscription');
       }
-      return res.json();
     },
+    enabled: !!session,
     retry: false,
   });
 
@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSession } from 'next-auth/react';
+import api from '@/lib/api';
+import type { ApiResponse } from '@/types';
+import type { SavedSearch, SavedSearchFilters } from '@/types/SavedSearch';
+import toast from 'react-hot-toast';
+
+// Fetch user's saved searches
+export const useSavedSearches = () => {
+  const { data: session } = useSession();
+
+  return useQuery({
+    queryKey: ['saved-searches'],
+    queryFn: async () => {
+      const { data } = await api.get<ApiResponse<SavedSearch[]>>('/saved-searches');
+      return data.data || [];
+    },
+    enabled: !!session,
+  });
+};
+
+// Save a search query and filters
+export const useCreateSavedSearch = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (search: { name?: string; query: string; filters: SavedSearchFilters }) => {
+      const { data } = await api.post<ApiResponse<SavedSearch>>('/saved-searches', search);
+      return data.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+      toast.success("Search saved. We'll let you know about new matches.");
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to save search');
+    },
+  });
+};
+
+// Rename a saved search or toggle its alerts
+export const useUpdateSavedSearch = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<SavedSearch> & { id: number }) => {
+      const { data } = await api.put<ApiResponse<SavedSearch>>(`/saved-searches/${id}`, updates);
+      return data.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to update saved search');
+    },
+  });
+};
+
+// Delete a saved search
+export const useDeleteSavedSearch = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await api.delete(`/saved-searches/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+      toast.success('Saved search deleted');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to delete saved search');
+    },
+  });
+};
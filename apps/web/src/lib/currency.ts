@@ -0,0 +1,48 @@
+/**
+ * Currency helpers for displaying listing prices in a buyer's preferred currency.
+ * Exchange rates are units of each currency per 1 unit of the base currency (USD).
+ */
+
+export const BASE_CURRENCY = 'USD';
+
+export type ExchangeRates = Record<string, number>;
+
+const LOCALES: Record<string, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE',
+};
+
+/**
+ * Number-formatting locale for an interface language code
+ */
+export function localeForLanguage(language?: string | null): string {
+  return LOCALES[(language || 'en').split('-')[0]] || 'en-US';
+}
+
+/**
+ * Convert an amount between currencies through the base currency
+ * Returns null when either currency has no rate
+ */
+export function convertAmount(
+  amount: number | string,
+  from: string,
+  to: string,
+  rates: ExchangeRates,
+): number | null {
+  const value = typeof amount === 'string' ? parseFloat(amount) : amount;
+  if (isNaN(value)) return null;
+  if (from === to) return value;
+
+  const fromRate = from === BASE_CURRENCY ? 1 : rates[from];
+  const toRate = to === BASE_CURRENCY ? 1 : rates[to];
+  if (!fromRate || !toRate) return null;
+
+  return Math.round((value / fromRate) * toRate * 100) / 100;
+}
+
+/**
+ * Currencies vendors can list in and buyers can prefer
+ */
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD'];
@@ -1,5 +1,5 @@
 /**
- * Format a number as money with currency symbol
+ * Format a number as money with currency symbol, using the locale's grouping and symbol placement
  */
 export function formatMoney(
   value: number | string | null | undefined,
@@ -8,11 +8,18 @@ export function formatMoney(
     currency?: string;
     showCurrency?: boolean;
     decimals?: number;
+    locale?: string;
   },
 ): string {
   if (value === null || value === undefined || value === '') return '$0';
 
-  const { fromCents = false, currency = 'USD', showCurrency = true, decimals = 0 } = options || {};
+  const {
+    fromCents = false,
+    currency = 'USD',
+    showCurrency = true,
+    decimals = 0,
+    locale = 'en-US',
+  } = options || {};
 
   let numValue = typeof value === 'string' ? parseFloat(value) : value;
 
@@ -23,21 +30,23 @@ export function formatMoney(
     numValue = numValue / 100;
   }
 
-  const formatted = numValue.toLocaleString('en-US', {
+  const numberOptions: Intl.NumberFormatOptions = {
     minimumFractionDigits: decimals,
     maximumFractionDigits: decimals,
-  });
-
-  if (!showCurrency) return formatted;
-
-  // Currency symbols
-  const symbols: Record<string, string> = {
-    USD: '$',
-    EUR: '€',
-    GBP: '£',
   };
 
-  return `${symbols[currency] || '$'}${formatted}`;
+  if (!showCurrency) return numValue.toLocaleString(locale, numberOptions);
+
+  try {
+    return new Intl.NumberFormat(locale, {
+      ...numberOptions,
+      style: 'currency',
+      currency,
+    }).format(numValue);
+  } catch {
+    // Unknown currency codes fall back to the plain number with the code appended
+    return `${numValue.toLocaleString(locale, numberOptions)} ${currency}`;
+  }
 }
 
 /**
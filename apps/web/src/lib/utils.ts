@@ -86,10 +86,129 @@ export function mapNotificationToUI(notification: any): {
         color: 'text-purple-600',
       };
 
+    case 'SAVED_SEARCH_MATCH':
+      return {
+        title: 'New Match for Your Saved Search',
+        message: data?.metadata?.itemTitle
+          ? `"${data.metadata.itemTitle}" matches "${data.metadata.savedSearchName}".`
+          : 'A new listing matches one of your saved searches.',
+        icon: ['fal', 'search'] as [string, string],
+        href: data?.metadata?.itemPath || '/account/saved-searches',
+        color: 'text-blue-600',
+      };
+
+    case 'RARE_BOOK_REQUEST_MATCH':
+      return {
+        title: 'A Book You Requested May Be Available',
+        message: data?.metadata?.itemTitle
+          ? `"${data.metadata.itemTitle}" is a ${data.metadata.confidence}% match for "${data.metadata.requestTitle}".`
+          : 'A new listing matches one of your rare book requests.',
+        icon: ['fal', 'book'] as [string, string],
+        href: data?.metadata?.itemPath || '/account/notifications',
+        color: 'text-green-600',
+      };
+
+    case 'RARE_BOOK_REQUEST_MATCH_VENDOR':
+      return {
+        title: 'Your Listing Matches a Request',
+        message: data?.metadata?.itemTitle
+          ? `"${data.metadata.itemTitle}" is a ${data.metadata.confidence}% match for "${data.metadata.requestTitle}".`
+          : 'One of your listings matches a rare book request.',
+        icon: ['fal', 'book'] as [string, string],
+        href: data?.metadata?.requestId
+          ? `/vendor/requests/${data.metadata.requestId}`
+          : '/vendor/requests',
+        color: 'text-blue-600',
+      };
+
+    case 'PAYMENT_DISPUTE_OPENED':
+      return {
+        title: 'Payment Disputed',
+        message: data?.metadata?.orderNumber
+          ? `A payment dispute was opened on order #${data.metadata.orderNumber}.`
+          : 'A payment dispute was opened.',
+        icon: ['fal', 'exclamation-triangle'] as [string, string],
+        href: '/admin/disputes',
+        color: 'text-red-600',
+      };
+
+    case 'PAYMENT_DISPUTE_OPENED_VENDOR':
+      return {
+        title: 'A Sale Was Disputed',
+        message: data?.metadata?.orderNumber
+          ? `The payment for order #${data.metadata.orderNumber} was disputed. Your earnings for it are on hold.`
+          : 'A payment was disputed. Your earnings for the sale are on hold.',
+        icon: ['fal', 'exclamation-triangle'] as [string, string],
+        href: data?.entityId ? `/vendor/orders?highlight=${data.entityId}` : '/vendor/orders',
+        color: 'text-red-600',
+      };
+
+    case 'PAYMENT_DISPUTE_CLOSED':
+    case 'PAYMENT_DISPUTE_CLOSED_VENDOR':
+      return {
+        title: data?.metadata?.resolution === 'won' ? 'Dispute Won' : 'Dispute Lost',
+        message:
+          data?.metadata?.resolution === 'won'
+            ? 'The dispute was resolved in your favor and the held earnings have been released.'
+            : 'The dispute was lost and the held earnings for this sale have been reversed.',
+        icon: ['fal', 'gavel'] as [string, string],
+        href:
+          type === 'PAYMENT_DISPUTE_CLOSED'
+            ? '/admin/disputes'
+            : data?.entityId
+              ? `/vendor/orders?highlight=${data.entityId}`
+              : '/vendor/orders',
+        color: data?.metadata?.resolution === 'won' ? 'text-green-600' : 'text-red-600',
+      };
+
+    case 'REFUND_ISSUED':
+      return {
+        title: 'Refund Issued',
+        message: data?.metadata?.orderNumber
+          ? `A refund for order #${data.metadata.orderNumber} is on its way to your original payment method.`
+          : 'A refund is on its way to your original payment method.',
+        icon: ['fal', 'undo'] as [string, string],
+        href: data?.entityId ? `/account/orders/${data.entityId}` : '/account/orders',
+        color: 'text-green-600',
+      };
+
+    case 'REFUND_ISSUED_VENDOR':
+      return {
+        title: 'Refund Issued on Your Sale',
+        message: data?.metadata?.orderNumber
+          ? `A refund was issued on order #${data.metadata.orderNumber}.`
+          : 'A refund was issued on one of your sales.',
+        icon: ['fal', 'undo'] as [string, string],
+        href: data?.entityId ? `/vendor/orders/${data.entityId}` : '/vendor/orders',
+        color: 'text-yellow-600',
+      };
+
+    case 'REFUND_REQUESTED':
+      return {
+        title: 'Refund Requested',
+        message: data?.metadata?.orderNumber
+          ? `${data.metadata.shopName || 'A vendor'} requested a refund on order #${data.metadata.orderNumber}.`
+          : 'A vendor requested a refund.',
+        icon: ['fal', 'undo'] as [string, string],
+        href: '/admin/orders',
+        color: 'text-blue-600',
+      };
+
+    case 'REFUND_REQUEST_DECLINED':
+      return {
+        title: 'Refund Request Declined',
+        message: data?.metadata?.orderNumber
+          ? `Your refund request on order #${data.metadata.orderNumber} was declined.`
+          : 'Your refund request was declined.',
+        icon: ['fal', 'times-circle'] as [string, string],
+        href: data?.entityId ? `/vendor/orders/${data.entityId}` : '/vendor/orders',
+        color: 'text-red-600',
+      };
+
     default:
       return {
-        title: 'Notification',
-        message: 'You have a new notification.',
+        title: notification.title || 'Notification',
+        message: notification.message || 'You have a new notification.',
         icon: ['fal', 'bell'] as [string, string],
         href: '/account/notifications',
         color: 'text-gray-600',
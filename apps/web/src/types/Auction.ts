@@ -5,6 +5,13 @@ export type AuctionableType = 'book' | 'product';
 
 export type AuctionStatus = 'upcoming' | 'active' | 'ended' | 'sold' | 'cancelled';
 
+// Effective anti-sniping settings (auction override, vendor default, or platform default)
+export interface SoftCloseSettings {
+  windowMinutes: number;
+  extensionMinutes: number;
+  maxExtensionMinutes: number;
+}
+
 export interface Auction {
   id: number;
   auctionableType: AuctionableType;
@@ -12,10 +19,17 @@ export interface Auction {
   vendorId: number;
   startingPrice: number;
   reservePrice?: number;
+  bidIncrement?: number | null;
   currentBid?: number;
   bidCount?: number;
   startDate: string | Date;
   endDate: string | Date;
+  originalEndDate?: string | Date | null;
+  softCloseWindowMinutes?: number | null;
+  softCloseExtensionMinutes?: number | null;
+  softCloseMaxExtensionMinutes?: number | null;
+  extensionCount?: number;
+  softClose?: SoftCloseSettings;
   status: AuctionStatus;
   winnerId?: number;
   createdAt: string | Date;
@@ -42,12 +56,16 @@ export interface AuctionBid {
   auctionId: number;
   userId: string;
   amount: number;
+  // Only returned on the bidder's own bids
+  maxBidAmount?: number | null;
   status: 'active' | 'outbid' | 'winning' | 'won' | 'lost';
   isAutoBid: boolean;
   createdAt: string | Date;
   user?: {
     id: string;
-    name: string;
+    firstName?: string;
+    lastName?: string;
+    name?: string;
     image?: string;
   };
 }
@@ -69,12 +87,71 @@ export interface CreateAuctionRequest {
   auctionableId: string;
   startingPrice: number;
   reservePrice?: number;
+  bidIncrement?: number;
+  softCloseWindowMinutes?: number;
+  softCloseExtensionMinutes?: number;
+  softCloseMaxExtensionMinutes?: number;
   startDate?: string | Date;
   endDate: string | Date;
 }
 
 export interface PlaceBidRequest {
   amount: number;
+  maxBid?: number;
+}
+
+export interface PlaceBidResponse {
+  bid: AuctionBid;
+  isLeading: boolean;
+  currentBid: number;
+  endsAt: string | Date;
+  extended: boolean;
+}
+
+// Real-time events from the /auctions socket namespace
+export interface AuctionBidEvent {
+  auctionId: number;
+  currentBid: number;
+  bidCount: number;
+  minimumBid: number;
+  bids: AuctionBid[];
+}
+
+export interface AuctionOutbidEvent {
+  auctionId: number;
+  currentBid: number;
+  minimumBid: number;
+}
+
+export interface AuctionExtendedEvent {
+  auctionId: number;
+  endsAt: string;
+  previousEndsAt: string;
+  extendedByMinutes: number;
+}
+
+export interface AuctionEndedEvent {
+  auctionId: number;
+  status: string;
+  endedAt: string;
+}
+
+export interface AuctionViewersEvent {
+  auctionId: number;
+  viewerCount: number;
+}
+
+export interface AuctionServerEvents {
+  'auction:bid': (event: AuctionBidEvent) => void;
+  'auction:outbid': (event: AuctionOutbidEvent) => void;
+  'auction:extended': (event: AuctionExtendedEvent) => void;
+  'auction:ended': (event: AuctionEndedEvent) => void;
+  'auction:viewers': (event: AuctionViewersEvent) => void;
+}
+
+export interface AuctionClientEvents {
+  'auction:join': (auctionId: number) => void;
+  'auction:leave': (auctionId: number) => void;
 }
 
 export interface AuctionSummary {
@@ -84,8 +161,13 @@ export interface AuctionSummary {
   startingPrice: number;
   currentBid: number;
   bidCount: number;
+  minimumBid?: number;
+  bidIncrement?: number;
   startsAt: string | Date;
   endsAt: string | Date;
+  originalEndsAt?: string | Date | null;
+  extensionCount?: number;
+  softClose?: SoftCloseSettings;
   status: AuctionStatus;
   vendor?: {
     id: number;
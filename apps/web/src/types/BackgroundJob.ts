@@ -0,0 +1,28 @@
+export type BackgroundJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface BackgroundJobRun {
+  id: number;
+  name: string;
+  payload: Record<string, unknown>;
+  status: BackgroundJobStatus;
+  uniqueKey: string | null;
+  runAt: string;
+  attempts: number;
+  maxAttempts: number;
+  lockedBy: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  result: Record<string, unknown> | null;
+  lastError: string | null;
+  createdAt: string;
+}
+
+export interface BackgroundJobDefinition {
+  name: string;
+  description: string;
+  everySeconds: number | null; // null for one-off jobs
+  maxAttempts: number;
+  lastRun: BackgroundJobRun | null;
+  nextRun: BackgroundJobRun | null;
+  failures24h: number;
+}
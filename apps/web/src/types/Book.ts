@@ -8,6 +8,7 @@ export interface Book {
   shortDescription?: string;
   price: number;
   salePrice?: number;
+  currency?: string;
   quantity: number;
   condition: string;
   conditionNotes?: string;
@@ -19,6 +20,7 @@ export interface Book {
   language?: string;
   binding?: string;
   isSigned: boolean;
+  bibliographicDetails?: BibliographicDetails | null;
   status: string;
   images?: BookImage[];
   media?: BookMedia[];
@@ -27,6 +29,8 @@ export interface Book {
   metaDescription?: string;
   views?: number;
   menuOrder?: number;
+  shippingWeight?: number | string;
+  shippingOverride?: number | string | null;
   createdAt: Date | string;
   updatedAt: Date | string;
   vendor?: {
@@ -37,6 +41,38 @@ export interface Book {
   };
 }
 
+export type DustJacketState =
+  | 'fine'
+  | 'near-fine'
+  | 'very-good'
+  | 'good'
+  | 'fair'
+  | 'poor'
+  | 'facsimile'
+  | 'lacking'
+  | 'not-issued';
+
+export type SignatureType = 'signed' | 'inscribed' | 'association';
+
+export interface ProvenanceEntry {
+  owner: string;
+  period?: string;
+  note?: string;
+}
+
+// Structured rare-book details; every key is optional
+export interface BibliographicDetails {
+  firstPrinting?: boolean;
+  dustJacket?: DustJacketState;
+  signature?: SignatureType;
+  signedBy?: string;
+  inscription?: string;
+  pointsOfIssue?: string[];
+  provenance?: ProvenanceEntry[]; // earliest owner first
+  limitationNumber?: number;
+  limitationTotal?: number;
+}
+
 export interface BookMedia {
   id: number;
   bookId: number;
@@ -68,6 +104,7 @@ export interface BookFormData {
   shortDescription?: string;
   price: string;
   salePrice?: string;
+  currency?: string;
   quantity: number;
   condition: string;
   conditionNotes?: string;
@@ -79,9 +116,12 @@ export interface BookFormData {
   language?: string;
   binding?: string;
   isSigned: boolean;
+  bibliographicDetails?: BibliographicDetails;
   status: 'draft' | 'published' | 'sold';
   images: BookImage[];
   metaTitle?: string;
   metaDescription?: string;
   menuOrder?: number;
+  shippingWeight?: string;
+  shippingOverride?: string;
 }
@@ -0,0 +1,90 @@
+// Image or PDF sent in a chat message (uploaded to Cloudinary)
+export interface ChatAttachment {
+  kind: 'image' | 'pdf';
+  url: string;
+  publicId: string;
+  resourceType: string;
+  fileName: string;
+  mimeType: string;
+  bytes: number;
+  width: number | null;
+  height: number | null;
+  thumbnailUrl: string | null;
+}
+
+// Broadcast as conversation:read when a participant's read cursor moves
+export interface ChatReadReceipt {
+  conversationId: number | string;
+  userId: number;
+  lastReadMessageId: number | string;
+  lastReadAt: string;
+}
+
+export interface ChatSearchResult {
+  id: number | string;
+  conversationId: number | string;
+  senderId: number;
+  message: string;
+  snippet: string;
+  attachments: ChatAttachment[];
+  isMine: boolean;
+  createdAt: string;
+  itemType: 'book' | 'product' | null; // set when the conversation is about an item
+  itemId: number | null;
+  otherUser: { id: number; firstName: string; lastName: string } | null;
+  vendor: { id: number; shopName: string } | null; // the other participant's shop, if any
+}
+
+export const CHAT_ATTACHMENT_ACCEPT = 'image/jpeg,image/png,image/webp,application/pdf';
+export const MAX_CHAT_ATTACHMENTS = 5;
+export const MAX_CHAT_ATTACHMENT_MB = 10;
+
+// The book or product an item conversation is about, shown as a card above the thread
+export interface ChatItem {
+  type: 'book' | 'product';
+  id: number;
+  title: string;
+  sid: string | null;
+  price: string;
+  salePrice: string | null;
+  status: string | null;
+  vendorId: number;
+  imageUrl: string | null;
+}
+
+export type ChatOfferStatus =
+  | 'pending'
+  | 'accepted'
+  | 'declined'
+  | 'countered'
+  | 'expired'
+  | 'cancelled';
+
+// The current state of the custom offer an offer message is about
+export interface ChatOffer {
+  id: string;
+  itemType: 'book' | 'product';
+  itemId: number;
+  originalPrice: string;
+  offerPrice: string;
+  message: string | null;
+  status: ChatOfferStatus;
+  initiatedBy: 'buyer' | 'vendor';
+  counterOfId: string | null;
+  expiresAt: string | null;
+}
+
+export type ChatOfferAction = 'accept' | 'decline' | 'counter' | 'cancel';
+
+// A message as the buyer and vendor chat endpoints list it
+export interface ChatThreadMessage {
+  id: number | string;
+  message: string;
+  attachments: ChatAttachment[];
+  kind?: 'text' | 'offer';
+  offerEvent?: string | null; // created, countered, accepted, declined, cancelled or expired
+  offer?: ChatOffer | null;
+  createdAt: string;
+  isCustomer?: boolean; // buyer chat: sent by the signed-in customer
+  isVendor?: boolean; // vendor chat: sent by the signed-in vendor
+}
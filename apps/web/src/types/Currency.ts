@@ -0,0 +1,7 @@
+export interface ExchangeRate {
+  id: number;
+  currency: string; // ISO 4217 code
+  rate: number | string; // units of this currency per 1 USD
+  isActive: boolean;
+  updatedAt: string;
+}
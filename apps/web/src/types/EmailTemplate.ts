@@ -0,0 +1,16 @@
+export interface EmailTemplate {
+  id: number | null; // null: a built-in default that has not been customized
+  name: string; // emails look templates up by name
+  subject: string;
+  bodyHtml: string; // {{variable}} placeholders are filled in when the email is sent
+  category: string;
+  active: boolean;
+  builtIn: boolean;
+  customized: boolean;
+  updatedAt?: string;
+}
+
+export interface EmailTemplatePreview {
+  subject: string;
+  html: string;
+}
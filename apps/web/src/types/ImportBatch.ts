@@ -0,0 +1,41 @@
+export type ImportBatchStatus =
+  | 'queued'
+  | 'running'
+  | 'cancelling'
+  | 'cancelled'
+  | 'completed'
+  | 'failed'
+  | 'rolled_back';
+
+export type ImportMode = 'create' | 'update' | 'upsert' | 'sync';
+
+export interface ImportBatchProgress {
+  batchId: number;
+  importId: string;
+  fileName: string | null;
+  mode: ImportMode;
+  status: ImportBatchStatus;
+  totalRows: number;
+  processedRows: number;
+  percent: number;
+  active: boolean; // still queued or being processed
+  canRollback: boolean;
+  createdCount: number;
+  updatedCount: number;
+  unchangedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  archivedCount: number;
+  lastError: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  failures?: { rowIndex: number | null; title: string | null; error: string }[];
+}
+
+export interface ImportRollbackResult {
+  deleted: number;
+  restored: number;
+  archived: number;
+  skipped: { bookId: number; title: string | null; reason: string }[];
+}
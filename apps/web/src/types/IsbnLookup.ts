@@ -0,0 +1,38 @@
+export type IsbnLookupField =
+  | 'title'
+  | 'author'
+  | 'publisher'
+  | 'publicationYear'
+  | 'edition'
+  | 'language'
+  | 'binding';
+
+export interface IsbnMetadata {
+  title: string | null;
+  author: string | null;
+  publisher: string | null;
+  publicationYear: number | null;
+  edition: string | null;
+  language: string | null;
+  binding: string | null;
+  pageCount: number | null;
+  coverUrl: string | null;
+}
+
+export interface IsbnLookupResult {
+  valid: boolean;
+  isbn10: string | null;
+  isbn13: string | null;
+  metadata: IsbnMetadata | null; // null when no record was found
+  source: string | null;
+}
+
+// Result of looking up every ISBN in a staged import
+export interface ImportIsbnLookupSummary {
+  lookedUp: number;
+  rowsWithSuggestions: number;
+  invalidIsbns: number;
+  failed: number;
+  remaining: number; // not reached before the lookup's time limit; looking up again continues
+  truncated: boolean;
+}
@@ -0,0 +1,45 @@
+export type NotificationChannel = 'inApp' | 'email' | 'sms' | 'push';
+
+// How a type's email goes out: on its own, or batched in a daily or weekly digest
+export type NotificationDigestMode = 'instant' | 'daily' | 'weekly';
+
+export interface NotificationChannelSetting {
+  enabled: boolean;
+  required: boolean; // account and payment emails that cannot be turned off
+}
+
+export interface NotificationTypePreference {
+  type: string;
+  label: string;
+  channels: Record<NotificationChannel, NotificationChannelSetting | null>; // null: not sent on it
+  digest: NotificationDigestMode | null; // null: no email, or a required one that is always instant
+}
+
+export interface NotificationPreferenceCategory {
+  key: string;
+  label: string;
+  types: NotificationTypePreference[];
+}
+
+// Local times in the user's time zone, e.g. { start: '22:00', end: '07:00' }
+export interface NotificationQuietHours {
+  start: string;
+  end: string;
+}
+
+export interface NotificationPreferenceCenter {
+  channels: NotificationChannel[];
+  emailNotifications: boolean;
+  smsEligible: boolean;
+  digestModes: NotificationDigestMode[];
+  notificationDigest: NotificationDigestMode | null; // null: each type's own default
+  quietHours: NotificationQuietHours | null;
+  timezone: string;
+  categories: NotificationPreferenceCategory[];
+}
+
+// Unsaved choices, keyed by notification type
+export type NotificationPreferenceChanges = Record<
+  string,
+  Partial<Record<NotificationChannel, boolean>> & { digest?: NotificationDigestMode }
+>;
@@ -0,0 +1,88 @@
+export type OrderRefundStatus =
+  | 'requested'
+  | 'declined'
+  | 'pending'
+  | 'processing' // accepted by Stripe, not yet applied to the order
+  | 'succeeded'
+  | 'failed';
+
+export interface OrderRefundLine {
+  orderItemId: number;
+  vendorId: number | null;
+  title: string | null;
+  quantity: number; // 0 for amount-based refunds
+  share: number; // share (0–1) of the order item refunded
+  itemAmount: number;
+  discountAmount: number;
+  taxAmount: number;
+  amount: number;
+}
+
+export interface OrderRefundShippingLine {
+  vendorId: number | null;
+  amount: number;
+  discountAmount: number;
+}
+
+export interface ReversedEarning {
+  earningId: number;
+  vendorId: number;
+  amount: number;
+  platformFee: number;
+  netAmount: number;
+  balanceField: 'balancePending' | 'balanceAvailable';
+}
+
+export interface OrderRefund {
+  id: number;
+  orderId: number;
+  status: OrderRefundStatus;
+  requestedBy: 'admin' | 'vendor';
+  vendorId: number | null;
+  reason: string | null;
+  note?: string | null;
+  lines: OrderRefundLine[];
+  shippingLines: OrderRefundShippingLine[];
+  itemsAmount: number | string;
+  shippingAmount: number | string;
+  discountAmount: number | string;
+  taxAmount: number | string;
+  amount: number | string;
+  currency: string;
+  restock: boolean;
+  stripeRefundId: string | null;
+  reversedEarnings?: ReversedEarning[];
+  failureReason?: string | null;
+  processedAt: string | null;
+  createdAt: string;
+  orderAmount?: number | string; // vendor view: the whole refund, when amount is the vendor's part
+}
+
+export interface RefundableItem {
+  orderItemId: number;
+  vendorId: number | null;
+  title: string | null;
+  quantity: number;
+  remainingQuantity: number;
+  remainingAmount: number;
+}
+
+export interface RefundableShipping {
+  vendorId: number | null;
+  amount: number;
+  remainingAmount: number;
+  remainingNet: number;
+}
+
+export interface OrderRefundSummary {
+  orderId: number;
+  orderNumber: string;
+  currency: string;
+  totalAmount: number | string;
+  paymentStatus: string;
+  items: RefundableItem[];
+  shipping: RefundableShipping[];
+  refundedAmount: number;
+  remainingAmount: number;
+  refunds: OrderRefund[];
+}
@@ -0,0 +1,43 @@
+export type EvidenceUrgency = 'overdue' | 'due_soon' | 'open';
+
+export interface FrozenEarning {
+  earningId: number;
+  vendorId: number;
+  amount: number;
+  balanceField: 'balancePending' | 'balanceAvailable';
+  previousStatus: string;
+}
+
+export interface PaymentDispute {
+  id: number;
+  stripeDisputeId: string;
+  stripeChargeId: string | null;
+  stripePaymentIntentId: string | null;
+  orderId: number | null;
+  amount: number | string;
+  currency: string;
+  reason: string | null;
+  status: string; // Stripe dispute status, e.g. needs_response, under_review, won, lost
+  evidenceDueBy: string | null;
+  frozenEarnings: FrozenEarning[];
+  resolution: 'won' | 'lost' | null;
+  closedAt: string | null;
+  adminNotes: string | null;
+  createdAt: string;
+  evidenceUrgency: EvidenceUrgency | null;
+  frozenAmount: number;
+  order?: {
+    id: number;
+    orderNumber: string;
+    totalAmount: number | string;
+    currency: string;
+    createdAt: string;
+    user?: { id: number; email: string; firstName?: string; lastName?: string };
+  } | null;
+}
+
+export interface PaymentDisputeStats {
+  open: number;
+  dueSoon: number;
+  openAmount: number;
+}
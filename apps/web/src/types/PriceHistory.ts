@@ -0,0 +1,27 @@
+export type PriceEventType = 'list_price' | 'sale_price' | 'auction_hammer' | 'offer_accepted';
+
+export interface PricePoint {
+  date: string;
+  amount: number;
+}
+
+export interface ValueChartStats {
+  count: number;
+  low: number | null;
+  high: number | null;
+  realizedCount: number;
+  realizedMedian: number | null;
+  lastRealized: number | null;
+  listPriceChange: number | null; // percent, first to latest asking price
+}
+
+export interface ValueChartData {
+  series: Record<PriceEventType, PricePoint[]>;
+  stats: ValueChartStats;
+}
+
+export interface ValueChartResponse {
+  currency: string;
+  item: ValueChartData;
+  work: ValueChartData & { key: string | null; listingCount: number };
+}
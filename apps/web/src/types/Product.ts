@@ -14,6 +14,7 @@ export interface Product {
   shortDescription?: string;
   price: number;
   salePrice?: number;
+  currency?: string;
   condition: string;
   conditionNotes?: string;
   category: string;
@@ -30,6 +31,7 @@ export interface Product {
   artist?: string;
   dimensions?: string;
   weight?: number;
+  shippingOverride?: number | null;
   materials?: string;
   isSigned: boolean;
   isAuthenticated: boolean;
@@ -59,6 +61,7 @@ export interface ProductFormData {
   shortDescription?: string;
   price: string;
   salePrice?: string;
+  currency?: string;
   condition?: string;
   conditionNotes?: string;
   category?: string;
@@ -73,6 +76,7 @@ export interface ProductFormData {
   artist?: string;
   dimensions?: string;
   weight?: number;
+  shippingOverride?: number | null;
   materials?: string;
   isSigned: boolean;
   isAuthenticated: boolean;
@@ -0,0 +1,29 @@
+export type RequestMatchReason = 'isbn' | 'title' | 'author' | 'price';
+
+export interface RareBookRequestMatch {
+  requestId: number;
+  bookId: number;
+  sid: string | null;
+  title: string;
+  author: string | null;
+  price: string | number;
+  currency?: string;
+  status: string;
+  confidence: number; // 0-100
+  reasons: RequestMatchReason[];
+}
+
+export interface RareBookRequest {
+  id: number;
+  title: string;
+  author: string | null;
+  isbn: string | null;
+  category: string | null;
+  condition: string | null;
+  maxPrice: string | number | null;
+  description: string | null;
+  status?: 'open' | 'fulfilled' | 'closed';
+  userId: number;
+  createdAt: string;
+  matches?: RareBookRequestMatch[];
+}
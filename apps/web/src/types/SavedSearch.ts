@@ -0,0 +1,19 @@
+export interface SavedSearchFilters {
+  type?: 'book' | 'product';
+  author?: string;
+  category?: string; // category slug
+  minPrice?: number;
+  maxPrice?: number;
+  condition?: string;
+  signed?: boolean;
+}
+
+export interface SavedSearch {
+  id: number;
+  name: string;
+  query: string;
+  filters: SavedSearchFilters;
+  alertsEnabled: boolean;
+  lastAlertedAt: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,35 @@
+// Facets GET /search counts and filters on; each takes repeated query params of the same name
+export type SearchFacet =
+  | 'category' // category slug
+  | 'condition'
+  | 'vendor' // shop name
+  | 'price' // bucket, e.g. "100-250" or "5000+"
+  | 'century' // e.g. "19"
+  | 'signed' // "true" / "false"
+  | 'auction'; // has an active auction, "true" / "false"
+
+export interface FacetValue {
+  value: string;
+  count: number;
+  selected?: boolean;
+}
+
+export type FacetCounts = Partial<Record<SearchFacet, FacetValue[]>>;
+
+// Selected values per facet; several values in one facet match any of them
+export type FacetSelections = Partial<Record<SearchFacet, string[]>>;
+
+export interface SearchResponse<T = unknown> {
+  success: boolean;
+  data: {
+    books: T[];
+    products: T[];
+    total: number;
+    facets?: FacetCounts; // missing when the index can't filter and the search fell back
+  };
+  pagination: {
+    limit: number;
+    offset: number;
+    total: number;
+  };
+}
@@ -0,0 +1,36 @@
+export type ShippingRateType = 'flat' | 'weight' | 'item';
+
+export interface ShippingZone {
+  id?: number;
+  name: string;
+  countries: string[]; // ISO 3166-1 alpha-2 codes, or '*' for rest of world
+  regions: string[]; // state/province codes; empty matches the whole country
+  baseRate: number | string;
+  additionalRate: number | string;
+  freeShippingThreshold?: number | string | null;
+  sortOrder?: number;
+}
+
+export interface ShippingProfile {
+  id: number;
+  vendorId: number;
+  name: string;
+  rateType: ShippingRateType;
+  zones: ShippingZone[];
+}
+
+export interface ShippingLine {
+  vendorId: number;
+  vendorName: string | null;
+  amount: number;
+  zoneId: number | null;
+  zoneName: string | null;
+  freeShipping: boolean;
+  error: string | null;
+}
+
+export interface ShippingQuote {
+  lines: ShippingLine[];
+  total: number;
+  canShip: boolean;
+}
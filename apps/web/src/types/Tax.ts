@@ -0,0 +1,28 @@
+export interface TaxRate {
+  id: number;
+  name: string;
+  country: string; // ISO 3166-1 alpha-2
+  state: string | null;
+  postalPrefix: string | null;
+  rate: number | string; // decimal, 0.0725 = 7.25%
+  inclusive: boolean; // listed prices already include this tax (EU VAT)
+  exemptCategories: string[];
+  isActive: boolean;
+}
+
+export interface TaxLine {
+  taxRateId: number | null;
+  name: string;
+  jurisdiction: string;
+  rate: number;
+  inclusive: boolean;
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface TaxQuote {
+  lines: TaxLine[];
+  totalTax: number;
+  exclusiveTax: number;
+  inclusiveTax: number;
+}
@@ -1,3 +1,6 @@
+import type { TaxLine } from './Tax';
+import type { OrderRefund } from './OrderRefund';
+
 // User & Authentication Types
 export interface User {
   id: number;
@@ -49,6 +52,7 @@ export interface Book {
   shortDescription?: string;
   price: number;
   compareAtPrice?: number;
+  currency?: string;
   stockQuantity: number;
   reservable: boolean;
   reservationDuration?: number;
@@ -76,6 +80,7 @@ export interface BookListItem {
   author: string;
   price: number;
   salePrice?: number | null;
+  currency?: string;
   condition: string;
   shortDescription: string;
   primaryImage: string | null;
@@ -110,13 +115,30 @@ export interface Order {
   id: number;
   userId: number;
   orderNumber: string;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+  status:
+    | 'pending'
+    | 'processing'
+    | 'partially_shipped'
+    | 'shipped'
+    | 'delivered'
+    | 'cancelled'
+    | 'refunded';
   subtotal: number;
   shippingCost: number;
   tax: number;
+  taxLines?: TaxLine[];
   totalAmount: number;
+  currency?: string;
+  exchangeRate?: number | string;
   paymentMethod: string;
-  paymentStatus: 'pending' | 'completed' | 'failed' | 'refunded';
+  paymentStatus:
+    | 'pending'
+    | 'completed'
+    | 'failed'
+    | 'partially_refunded'
+    | 'refunded'
+    | 'disputed'
+    | 'chargeback';
   stripePaymentIntentId?: string;
   shippingAddress?: Address;
   billingAddress?: Address;
@@ -125,6 +147,24 @@ export interface Order {
   createdAt: string;
   updatedAt: string;
   items?: OrderItem[];
+  shipments?: OrderShipment[];
+  refunds?: OrderRefund[];
+}
+
+export type ShipmentStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+/** One vendor's part of an order, fulfilled and tracked independently */
+export interface OrderShipment {
+  id: number;
+  orderId: number;
+  vendorId: number;
+  status: ShipmentStatus;
+  carrier?: string | null;
+  trackingNumber?: string | null;
+  shippingCost: number | string;
+  shippedAt?: string | null;
+  deliveredAt?: string | null;
+  vendor?: { id: number; shopName: string };
 }
 
 export interface OrderItem {
@@ -132,6 +172,7 @@ export interface OrderItem {
   orderId: number;
   bookId: number;
   vendorId: number;
+  shipmentId?: number | null;
   quantity: number;
   price: number;
   totalPrice: number;
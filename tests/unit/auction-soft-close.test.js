@@ -0,0 +1,84 @@
+/**
+ * Unit tests for auction soft close (anti-sniping)
+ * Tests pure functions: resolveSoftCloseSettings, computeSoftCloseExtension
+ */
+
+let resolveSoftCloseSettings, computeSoftCloseExtension, DEFAULT_SOFT_CLOSE;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/auctionSoftClose.js');
+  resolveSoftCloseSettings = mod.resolveSoftCloseSettings;
+  computeSoftCloseExtension = mod.computeSoftCloseExtension;
+  DEFAULT_SOFT_CLOSE = mod.DEFAULT_SOFT_CLOSE;
+});
+
+const END = new Date('2026-03-10T18:00:00Z');
+const minutesBefore = (date, minutes) => new Date(date.getTime() - minutes * 60 * 1000);
+const minutesAfter = (date, minutes) => new Date(date.getTime() + minutes * 60 * 1000);
+
+const auction = (overrides = {}) => ({
+  endDate: END,
+  originalEndDate: null,
+  softCloseWindowMinutes: null,
+  softCloseExtensionMinutes: null,
+  softCloseMaxExtensionMinutes: null,
+  ...overrides,
+});
+
+// ─── resolveSoftCloseSettings ───
+describe('resolveSoftCloseSettings', () => {
+  it('falls back to platform defaults', () => {
+    expect(resolveSoftCloseSettings(auction())).toEqual(DEFAULT_SOFT_CLOSE);
+  });
+
+  it('prefers auction overrides over vendor defaults', () => {
+    const settings = resolveSoftCloseSettings(auction({ softCloseWindowMinutes: 5 }), {
+      softCloseWindowMinutes: 10,
+      softCloseExtensionMinutes: 3,
+    });
+    expect(settings.windowMinutes).toBe(5);
+    expect(settings.extensionMinutes).toBe(3);
+    expect(settings.maxExtensionMinutes).toBe(DEFAULT_SOFT_CLOSE.maxExtensionMinutes);
+  });
+
+  it('keeps an explicit 0 instead of falling through', () => {
+    const settings = resolveSoftCloseSettings(auction({ softCloseWindowMinutes: 0 }), {
+      softCloseWindowMinutes: 10,
+    });
+    expect(settings.windowMinutes).toBe(0);
+  });
+});
+
+// ─── computeSoftCloseExtension ───
+describe('computeSoftCloseExtension', () => {
+  it('does not extend for bids outside the window', () => {
+    expect(computeSoftCloseExtension(auction(), minutesBefore(END, 5))).toBeNull();
+  });
+
+  it('extends for bids inside the window', () => {
+    const result = computeSoftCloseExtension(auction(), minutesBefore(END, 1));
+    expect(result.newEndDate).toEqual(minutesAfter(END, 2));
+    expect(result.originalEndDate).toEqual(END);
+    expect(result.extendedByMinutes).toBe(2);
+  });
+
+  it('does nothing when soft close is disabled', () => {
+    const disabled = auction({ softCloseWindowMinutes: 0 });
+    expect(computeSoftCloseExtension(disabled, minutesBefore(END, 1))).toBeNull();
+  });
+
+  it('caps the total extension past the original end', () => {
+    const extended = auction({
+      endDate: minutesAfter(END, 29),
+      originalEndDate: END,
+    });
+    const result = computeSoftCloseExtension(extended, minutesAfter(END, 28));
+    expect(result.newEndDate).toEqual(minutesAfter(END, 30));
+    expect(result.extendedByMinutes).toBe(1);
+  });
+
+  it('stops extending once the cap is reached', () => {
+    const capped = auction({ endDate: minutesAfter(END, 30), originalEndDate: END });
+    expect(computeSoftCloseExtension(capped, minutesAfter(END, 29))).toBeNull();
+  });
+});
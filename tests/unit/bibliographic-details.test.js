@@ -0,0 +1,210 @@
+/**
+ * Unit tests for bibliographic details
+ * Tests pure functions: sanitizeBibliographicDetails, parseLimitation, bibliographicDetailsFromRow,
+ * bibliographicImportValues, bibliographicFilters, bibliographicSearchFilters,
+ * bibliographicIndexFields, and the import path through applyMappings, validateRows and planImport
+ */
+
+let sanitizeBibliographicDetails, parseLimitation, bibliographicDetailsFromRow;
+let bibliographicImportValues, bibliographicFilters, bibliographicSearchFilters;
+let bibliographicIndexFields;
+let applyMappings, autoDetectMappings, validateRows, planImport;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/bibliographicDetails.js');
+  sanitizeBibliographicDetails = mod.sanitizeBibliographicDetails;
+  parseLimitation = mod.parseLimitation;
+  bibliographicDetailsFromRow = mod.bibliographicDetailsFromRow;
+  bibliographicImportValues = mod.bibliographicImportValues;
+  bibliographicFilters = mod.bibliographicFilters;
+  bibliographicSearchFilters = mod.bibliographicSearchFilters;
+  bibliographicIndexFields = mod.bibliographicIndexFields;
+  const importService = await import('../../apps/api/src/services/import/importService.js');
+  applyMappings = importService.applyMappings;
+  autoDetectMappings = importService.autoDetectMappings;
+  validateRows = importService.validateRows;
+  ({ planImport } = await import('../../apps/api/src/services/import/importDiff.js'));
+});
+
+// ─── sanitizeBibliographicDetails ───
+describe('sanitizeBibliographicDetails', () => {
+  it('cleans form input and drops blanks', () => {
+    const { details } = sanitizeBibliographicDetails({
+      firstPrinting: 'yes',
+      dustJacket: 'Near Fine',
+      signature: '',
+      inscription: ' To Ernest, with love ',
+      pointsOfIssue: ['"Stratford" on p. 4', ' '],
+      provenance: [{ owner: 'Bookplate of J. Smith', period: ' 1920-1954 ', note: '' }],
+      limitationNumber: '45',
+      limitationTotal: 250,
+    });
+    expect(details).toEqual({
+      firstPrinting: true,
+      dustJacket: 'near-fine',
+      signature: 'inscribed',
+      inscription: 'To Ernest, with love',
+      pointsOfIssue: ['"Stratford" on p. 4'],
+      provenance: [{ owner: 'Bookplate of J. Smith', period: '1920-1954' }],
+      limitationNumber: 45,
+      limitationTotal: 250,
+    });
+    expect(sanitizeBibliographicDetails({ signedBy: '', pointsOfIssue: [] })).toEqual({
+      details: null,
+    });
+  });
+
+  it('rejects unknown states and impossible limitations', () => {
+    expect(sanitizeBibliographicDetails({ dustJacket: 'shiny' })).toMatchObject({
+      field: 'dustJacket',
+    });
+    expect(sanitizeBibliographicDetails({ signature: 'stamped' }).error).toMatch(/Signature/);
+    expect(sanitizeBibliographicDetails({ provenance: [{ period: '1900' }] }).error).toMatch(
+      'needs an owner',
+    );
+    expect(
+      sanitizeBibliographicDetails({ limitationNumber: 300, limitationTotal: 250 }).error,
+    ).toMatch('cannot exceed');
+    expect(sanitizeBibliographicDetails({ limitationNumber: 'XLV' }).field).toBe(
+      'limitationNumber',
+    );
+  });
+});
+
+// ─── parseLimitation ───
+describe('parseLimitation', () => {
+  it('reads the common ways limitations are written', () => {
+    expect(parseLimitation('45/250')).toEqual({ limitationNumber: '45', limitationTotal: '250' });
+    expect(parseLimitation('No. 45 of 250')).toEqual({
+      limitationNumber: '45',
+      limitationTotal: '250',
+    });
+    expect(parseLimitation('One of 250')).toEqual({ limitationTotal: '250' });
+    expect(parseLimitation('#12')).toEqual({ limitationNumber: '12' });
+  });
+});
+
+// ─── import values ───
+describe('import values', () => {
+  const details = {
+    firstPrinting: false,
+    signature: 'signed',
+    signedBy: 'Ernest Hemingway',
+    provenance: [{ owner: 'A. Collector', period: '1950s' }, { owner: 'B. Dealer' }],
+    limitationTotal: 500,
+  };
+
+  it('round-trips details through their CSV text form', () => {
+    expect(bibliographicImportValues(details)).toMatchObject({
+      firstPrinting: false,
+      provenance: 'A. Collector (1950s) | B. Dealer',
+      limitation: 'Limited to 500',
+      dustJacket: null,
+    });
+    expect(bibliographicDetailsFromRow(bibliographicImportValues(details)).details).toEqual(
+      details,
+    );
+  });
+
+  it('maps, normalizes and validates CSV columns', () => {
+    const headers = ['Title', 'Price', 'First Printing', 'Dust Jacket', 'Limitation', 'Provenance'];
+    const mappings = autoDetectMappings(headers);
+    expect(mappings).toMatchObject({
+      'First Printing': 'firstPrinting',
+      'Dust Jacket': 'dustJacket',
+      Limitation: 'limitation',
+      Provenance: 'provenance',
+    });
+
+    const rows = applyMappings(
+      [
+        {
+          Title: 'A',
+          Price: '10',
+          'First Printing': 'Y',
+          'Dust Jacket': 'Very Good',
+          Limitation: '12/100',
+        },
+        { Title: 'B', Price: '10', Limitation: '120/100' },
+      ],
+      mappings,
+    );
+    expect(rows[0]).toMatchObject({ firstPrinting: true, dustJacket: 'very-good' });
+    const { validRows, invalidRows } = validateRows(rows);
+    expect(validRows).toHaveLength(1);
+    expect(invalidRows[0]._errors).toEqual([
+      { field: 'limitation', message: 'Copy number cannot exceed the size of the limitation' },
+    ]);
+  });
+
+  it('merges mapped detail columns into stored details on sparse updates', () => {
+    const book = {
+      id: 1,
+      sid: 'S1',
+      status: 'published',
+      bibliographicDetails: { dustJacket: 'good', limitationTotal: 100 },
+    };
+    const { plan } = planImport([{ _rowIndex: 1, sku: 'S1', dustJacket: 'fine' }], [book], {
+      matchStrategy: 'sku',
+      sparse: true,
+      mappedFields: ['sku', 'dustJacket'],
+    });
+    expect(plan[0].action).toBe('update');
+    expect(plan[0].changes).toEqual([
+      {
+        field: 'bibliographicDetails',
+        before: book.bibliographicDetails,
+        after: { dustJacket: 'fine', limitationTotal: 100 },
+      },
+    ]);
+
+    // Stored key order doesn't count as a change
+    const reordered = {
+      ...book,
+      bibliographicDetails: { limitationTotal: 100, dustJacket: 'fine' },
+    };
+    const again = planImport([{ _rowIndex: 1, sku: 'S1', dustJacket: 'fine' }], [reordered], {
+      matchStrategy: 'sku',
+      sparse: true,
+      mappedFields: ['sku', 'dustJacket'],
+    });
+    expect(again.plan[0].action).toBe('unchanged');
+  });
+});
+
+// ─── filters and index ───
+describe('filters', () => {
+  it('keeps only known filter values', () => {
+    expect(
+      bibliographicFilters({
+        firstPrinting: 'true',
+        dustJacket: 'original',
+        signature: 'forged',
+        provenance: 'false',
+        limited: 'true',
+      }),
+    ).toEqual({ firstPrinting: true, dustJacket: 'original', limited: true });
+  });
+
+  it('builds search filters over the indexed attributes', () => {
+    expect(bibliographicSearchFilters({ dustJacket: 'original', signature: 'any' })).toEqual([
+      'dustJacket IN ["fine", "near-fine", "very-good", "good", "fair", "poor"]',
+      'signatureType IN ["signed", "inscribed", "association"]',
+    ]);
+    expect(
+      bibliographicIndexFields({
+        signature: 'association',
+        provenance: [{ owner: 'F. Scott Fitzgerald' }],
+        limitationNumber: 3,
+      }),
+    ).toEqual({
+      firstPrinting: false,
+      dustJacket: null,
+      signatureType: 'association',
+      hasProvenance: true,
+      isLimited: false,
+      pointsOfIssue: [],
+      provenanceOwners: ['F. Scott Fitzgerald'],
+    });
+  });
+});
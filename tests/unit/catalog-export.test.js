@@ -0,0 +1,161 @@
+/**
+ * Unit tests for catalog export
+ * Tests pure functions: exportOptions, exportRecord, csvHeader, csvLine, onixProduct, and
+ * streamCatalogExport against stub models
+ */
+
+let exportOptions, exportRecord, csvHeader, csvLine, onixHeader, onixProduct;
+let autoDetectMappings, parseCSV, applyMappings;
+let streamCatalogExport;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/export/catalogFormats.js');
+  exportOptions = mod.exportOptions;
+  exportRecord = mod.exportRecord;
+  csvHeader = mod.csvHeader;
+  csvLine = mod.csvLine;
+  onixHeader = mod.onixHeader;
+  onixProduct = mod.onixProduct;
+  const importService = await import('../../apps/api/src/services/import/importService.js');
+  autoDetectMappings = importService.autoDetectMappings;
+  parseCSV = importService.parseCSV;
+  applyMappings = importService.applyMappings;
+  const catalogExport = await import('../../apps/api/src/services/export/catalogExport.js');
+  streamCatalogExport = catalogExport.streamCatalogExport;
+});
+
+const book = {
+  id: 9,
+  sid: 'MD-1',
+  title: 'Moby-Dick; or, The Whale',
+  author: 'Herman Melville',
+  isbn: '978-0-14-243724-7',
+  description: { html: '<p>First "American" edition</p>' },
+  shortDescription: null,
+  price: '1200.00',
+  quantity: 1,
+  condition: 'good',
+  category: 'Fiction',
+  status: 'published',
+  shippingWeight: '2.50',
+  wpPostId: null,
+  binding: 'Hardcover',
+  language: 'English',
+  isSigned: true,
+};
+const images = ['https://img/a.jpg', 'https://img/b.jpg'];
+
+// ─── exportOptions ───
+describe('exportOptions', () => {
+  it('defaults to CSV of every status', () => {
+    expect(exportOptions({})).toEqual({
+      format: 'csv',
+      status: null,
+      category: null,
+      from: null,
+      to: null,
+    });
+    expect(exportOptions({ status: 'all', format: 'ONIX' }).format).toBe('onix');
+  });
+
+  it('rejects unknown formats, statuses and bad date ranges', () => {
+    expect(() => exportOptions({ format: 'xlsx' })).toThrow('Unknown export format');
+    expect(() => exportOptions({ status: 'deleted' })).toThrow('Unknown listing status');
+    expect(() => exportOptions({ from: 'soon' })).toThrow('Invalid from date');
+    expect(() => exportOptions({ from: '2026-03-02', to: '2026-03-01' })).toThrow('must be before');
+  });
+});
+
+// ─── exportRecord ───
+describe('exportRecord', () => {
+  it('keys book values by import target field', () => {
+    const record = exportRecord(book, images);
+    expect(record).toMatchObject({
+      sku: 'MD-1',
+      weight: '2.50',
+      description: '<p>First "American" edition</p>',
+      images,
+    });
+    expect(record).not.toHaveProperty('sid');
+    expect(record.publisher).toBeNull();
+  });
+});
+
+// ─── csvHeader / csvLine ───
+describe('CSV export', () => {
+  it('uses headers the import maps back to the same fields', () => {
+    const headers = csvHeader().trim().split(',');
+    const mappings = autoDetectMappings(headers);
+    for (const header of headers) {
+      expect(mappings[header]).toBe(header.replace(/_([a-z])/g, (_, c) => c.toUpperCase()));
+    }
+  });
+
+  it('round-trips through the import parser', async () => {
+    const csv = csvHeader() + csvLine(exportRecord(book, images));
+    const { headers, rows } = await parseCSV(csv);
+    const [row] = applyMappings(rows, autoDetectMappings(headers));
+    expect(row).toMatchObject({
+      title: book.title,
+      sku: 'MD-1',
+      price: 1200,
+      description: '<p>First "American" edition</p>',
+      images,
+      isSigned: true,
+      status: 'published',
+    });
+  });
+});
+
+// ─── onixProduct ───
+describe('onixProduct', () => {
+  it('writes identifiers, form, contributor and supply detail', () => {
+    const xml = onixProduct(exportRecord(book, images), { currency: 'USD', supplierName: 'A&B' });
+    expect(xml).toContain('<ProductIDType>15</ProductIDType><IDValue>9780142437247</IDValue>');
+    expect(xml).toContain('<ProductForm>BB</ProductForm>');
+    expect(xml).toContain('<PersonName>Herman Melville</PersonName>');
+    expect(xml).toContain('<LanguageCode>eng</LanguageCode>');
+    expect(xml).toContain('&lt;p&gt;First &quot;American&quot; edition&lt;/p&gt;');
+    expect(xml).toContain('<SupplierName>A&amp;B</SupplierName>');
+    expect(xml).toContain('<ProductAvailability>20</ProductAvailability>');
+    expect(xml).toContain('<PriceAmount>1200.00</PriceAmount><CurrencyCode>USD</CurrencyCode>');
+  });
+
+  it('marks unpublished listings unavailable and handles missing authors', () => {
+    const xml = onixProduct(exportRecord({ ...book, status: 'sold', author: null, isbn: 'n/a' }));
+    expect(xml).toContain('<ProductAvailability>40</ProductAvailability>');
+    expect(xml).toContain('<NoContributor/>');
+    expect(xml).not.toContain('<ProductIDType>15</ProductIDType>');
+  });
+
+  it('stamps the header with the send time', () => {
+    expect(onixHeader({ senderName: 'Shop', sentAt: new Date('2026-03-16T09:05:30Z') })).toContain(
+      '<SentDateTime>20260316T0905Z</SentDateTime>',
+    );
+  });
+});
+
+// ─── streamCatalogExport ───
+describe('streamCatalogExport', () => {
+  it('stops when the client disconnects while waiting for the stream to drain', async () => {
+    const { Writable } = await import('stream');
+    const out = new Writable({ highWaterMark: 1, write: () => {} }); // never drains
+    let queries = 0;
+    const db = {
+      Book: {
+        findAll: async () => {
+          queries++;
+          return [];
+        },
+      },
+      BookMedia: { findAll: async () => [] },
+      Vendor: {},
+    };
+
+    const exported = streamCatalogExport(out, { format: 'csv' }, db);
+    setTimeout(() => out.destroy(), 10);
+
+    await expect(exported).resolves.toBe(0);
+    expect(queries).toBe(0);
+  });
+});
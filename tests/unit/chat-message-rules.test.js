@@ -0,0 +1,113 @@
+/**
+ * Unit tests for chat attachments, read cursors and message search
+ * Tests pure functions: attachmentKind, toAttachment, messagePreview, advancesCursor, isReadBy,
+ * normalizeSearchQuery, searchSnippet
+ */
+
+let attachmentKind,
+  toAttachment,
+  messagePreview,
+  advancesCursor,
+  isReadBy,
+  normalizeSearchQuery,
+  searchSnippet;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/chatMessageRules.js');
+  attachmentKind = mod.attachmentKind;
+  toAttachment = mod.toAttachment;
+  messagePreview = mod.messagePreview;
+  advancesCursor = mod.advancesCursor;
+  isReadBy = mod.isReadBy;
+  normalizeSearchQuery = mod.normalizeSearchQuery;
+  searchSnippet = mod.searchSnippet;
+});
+
+// ─── Attachments ───
+describe('attachments', () => {
+  it('accepts condition photos and PDFs only', () => {
+    expect(attachmentKind('image/jpeg')).toBe('image');
+    expect(attachmentKind('image/webp')).toBe('image');
+    expect(attachmentKind('application/pdf')).toBe('pdf');
+    expect(attachmentKind('image/svg+xml')).toBeNull();
+    expect(attachmentKind('application/zip')).toBeNull();
+  });
+
+  it('keeps what the thread needs to show and later delete a file', () => {
+    const photo = toAttachment(
+      { originalname: 'spine.jpg', mimetype: 'image/jpeg', size: 2048 },
+      {
+        secure_url: 'https://res.cloudinary.com/x/image/upload/v1/chat/7/spine.jpg',
+        public_id: 'chat/7/spine',
+        resource_type: 'image',
+        bytes: 1900,
+        width: 1200,
+        height: 800,
+        eager: [{ secure_url: 'https://res.cloudinary.com/x/thumb.jpg' }],
+      },
+    );
+    expect(photo).toMatchObject({
+      kind: 'image',
+      publicId: 'chat/7/spine',
+      fileName: 'spine.jpg',
+      bytes: 1900,
+      width: 1200,
+      thumbnailUrl: 'https://res.cloudinary.com/x/thumb.jpg',
+    });
+
+    const invoice = toAttachment(
+      { originalname: 'invoice.pdf', mimetype: 'application/pdf', size: 5000 },
+      { secure_url: 'https://res.cloudinary.com/x/raw/invoice.pdf', public_id: 'chat/7/invoice' },
+    );
+    expect(invoice).toMatchObject({ kind: 'pdf', bytes: 5000, width: null, thumbnailUrl: null });
+  });
+
+  it('previews attachment-only messages', () => {
+    expect(messagePreview({ body: 'Is the jacket clipped?', attachments: [] })).toBe(
+      'Is the jacket clipped?',
+    );
+    expect(messagePreview({ body: '', attachments: [{ kind: 'image' }] })).toBe('Photo');
+    expect(
+      messagePreview({ body: '', attachments: [{ kind: 'pdf', fileName: 'quote.pdf' }] }),
+    ).toBe('quote.pdf');
+    expect(messagePreview({ body: '', attachments: [{}, {}] })).toBe('2 attachments');
+    expect(messagePreview(undefined)).toBe('');
+  });
+});
+
+// ─── Read cursors ───
+describe('read cursors', () => {
+  const cursor = { lastReadAt: '2026-03-01T10:00:00Z' };
+
+  it('only moves forward', () => {
+    expect(advancesCursor(null, { createdAt: '2026-03-01T09:00:00Z' })).toBe(true);
+    expect(advancesCursor(cursor, { createdAt: '2026-03-01T11:00:00Z' })).toBe(true);
+    expect(advancesCursor(cursor, { createdAt: '2026-03-01T10:00:00Z' })).toBe(false);
+    expect(advancesCursor(cursor, { createdAt: '2026-03-01T09:00:00Z' })).toBe(false);
+  });
+
+  it('counts messages up to the cursor as read', () => {
+    expect(isReadBy(cursor, { createdAt: '2026-03-01T10:00:00Z' })).toBe(true);
+    expect(isReadBy(cursor, { createdAt: '2026-03-01T10:00:01Z' })).toBe(false);
+    expect(isReadBy(null, { createdAt: '2026-03-01T09:00:00Z' })).toBe(false);
+  });
+});
+
+// ─── Search ───
+describe('message search', () => {
+  it('ignores queries too short to search', () => {
+    expect(normalizeSearchQuery('  first   edition ')).toBe('first edition');
+    expect(normalizeSearchQuery('a')).toBe('');
+    expect(normalizeSearchQuery(undefined)).toBe('');
+  });
+
+  it('excerpts around the first matching term', () => {
+    const text = `${'x'.repeat(100)} the quote for the Hemingway first edition is $4,500 ${'y'.repeat(200)}`;
+    const snippet = searchSnippet(text, 'quote hemingway', 20);
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('the quote for the Hemingway');
+
+    expect(searchSnippet('Quoted at $300', 'quotes')).toBe('Quoted at $300');
+  });
+});
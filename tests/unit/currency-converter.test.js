@@ -0,0 +1,107 @@
+/**
+ * Unit tests for the currency converter
+ * Tests pure functions: normalizeCurrency, buildRateTable, convertAmount,
+ * resolveSettlementCurrency, toMinorUnits, fromMinorUnits
+ */
+
+let normalizeCurrency,
+  buildRateTable,
+  convertAmount,
+  resolveSettlementCurrency,
+  toMinorUnits,
+  fromMinorUnits;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/currencyConverter.js');
+  normalizeCurrency = mod.normalizeCurrency;
+  buildRateTable = mod.buildRateTable;
+  convertAmount = mod.convertAmount;
+  resolveSettlementCurrency = mod.resolveSettlementCurrency;
+  toMinorUnits = mod.toMinorUnits;
+  fromMinorUnits = mod.fromMinorUnits;
+});
+
+const RATES = { USD: 1, EUR: 0.9, GBP: 0.8, JPY: 150 };
+
+// ─── normalizeCurrency ───
+describe('normalizeCurrency', () => {
+  it('upper-cases ISO codes', () => {
+    expect(normalizeCurrency(' eur ')).toBe('EUR');
+  });
+
+  it('falls back to USD for blank or malformed codes', () => {
+    expect(normalizeCurrency(null)).toBe('USD');
+    expect(normalizeCurrency('euro')).toBe('USD');
+  });
+});
+
+// ─── buildRateTable ───
+describe('buildRateTable', () => {
+  it('keys active rates by currency and always includes the base', () => {
+    const rates = buildRateTable([
+      { currency: 'eur', rate: '0.90000000' },
+      { currency: 'GBP', rate: 0.8, isActive: false },
+      { currency: 'CAD', rate: 0 },
+    ]);
+    expect(rates).toEqual({ EUR: 0.9, USD: 1 });
+  });
+});
+
+// ─── convertAmount ───
+describe('convertAmount', () => {
+  it('converts from and to the base currency', () => {
+    expect(convertAmount(100, 'USD', 'EUR', RATES)).toBe(90);
+    expect(convertAmount(90, 'EUR', 'USD', RATES)).toBe(100);
+  });
+
+  it('converts between two non-base currencies through the base', () => {
+    expect(convertAmount(90, 'EUR', 'GBP', RATES)).toBe(80);
+  });
+
+  it('rounds to cents', () => {
+    expect(convertAmount(10, 'GBP', 'EUR', RATES)).toBe(11.25);
+    expect(convertAmount(1, 'EUR', 'USD', RATES)).toBe(1.11);
+  });
+
+  it('throws when a currency has no rate', () => {
+    expect(() => convertAmount(10, 'CHF', 'USD', RATES)).toThrow('No exchange rate for CHF');
+  });
+
+  it('returns same-currency amounts without a rate', () => {
+    expect(convertAmount('12.5', 'CHF', 'chf', {})).toBe(12.5);
+  });
+});
+
+// ─── resolveSettlementCurrency ───
+describe('resolveSettlementCurrency', () => {
+  it('settles in the listing currency when every item shares it', () => {
+    expect(resolveSettlementCurrency(['EUR', 'eur'])).toBe('EUR');
+  });
+
+  it('settles mixed-currency orders in USD', () => {
+    expect(resolveSettlementCurrency(['EUR', 'GBP'])).toBe('USD');
+    expect(resolveSettlementCurrency([])).toBe('USD');
+  });
+});
+
+// ─── toMinorUnits ───
+describe('toMinorUnits', () => {
+  it('charges cents for decimal currencies', () => {
+    expect(toMinorUnits(19.99, 'EUR')).toBe(1999);
+  });
+
+  it('charges whole units for zero-decimal currencies', () => {
+    expect(toMinorUnits(1500, 'jpy')).toBe(1500);
+  });
+});
+
+// ─── fromMinorUnits ───
+describe('fromMinorUnits', () => {
+  it('converts cents back to decimal amounts', () => {
+    expect(fromMinorUnits(1999, 'usd')).toBe(19.99);
+  });
+
+  it('leaves zero-decimal currencies unchanged', () => {
+    expect(fromMinorUnits(1500, 'JPY')).toBe(1500);
+  });
+});
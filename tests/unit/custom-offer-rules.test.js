@@ -0,0 +1,91 @@
+/**
+ * Unit tests for negotiating custom offers in chat
+ * Tests pure functions: offerParty, allowedOfferActions, offerPriceError, offerEventText,
+ * toChatOffer, toChatItem
+ */
+
+let offerParty, allowedOfferActions, offerPriceError, offerEventText, toChatOffer, toChatItem;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/customOfferRules.js');
+  offerParty = mod.offerParty;
+  allowedOfferActions = mod.allowedOfferActions;
+  offerPriceError = mod.offerPriceError;
+  offerEventText = mod.offerEventText;
+  toChatOffer = mod.toChatOffer;
+  toChatItem = mod.toChatItem;
+});
+
+const now = new Date('2026-03-10T12:00:00Z');
+const pending = {
+  id: 'offer-1',
+  userId: 42,
+  status: 'pending',
+  initiatedBy: 'buyer',
+  offerPrice: '180.00',
+  originalPrice: '250.00',
+  expiresAt: '2026-03-15T12:00:00Z',
+};
+
+// ─── Parties and actions ───
+describe('offer actions', () => {
+  it('identifies the buyer and the vendor on an offer', () => {
+    expect(offerParty(pending, { userId: 42, vendorUserId: 7 })).toBe('buyer');
+    expect(offerParty(pending, { userId: '7', vendorUserId: 7 })).toBe('vendor');
+    expect(offerParty(pending, { userId: 99, vendorUserId: 7 })).toBeNull();
+  });
+
+  it('lets the initiator withdraw and the other party answer', () => {
+    expect(allowedOfferActions(pending, 'buyer', now)).toEqual(['cancel']);
+    expect(allowedOfferActions(pending, 'vendor', now)).toEqual(['accept', 'decline', 'counter']);
+    expect(allowedOfferActions(pending, null, now)).toEqual([]);
+  });
+
+  it('allows nothing once an offer is answered or expired', () => {
+    expect(allowedOfferActions({ ...pending, status: 'countered' }, 'vendor', now)).toEqual([]);
+    expect(
+      allowedOfferActions({ ...pending, expiresAt: '2026-03-01T00:00:00Z' }, 'vendor', now),
+    ).toEqual([]);
+  });
+});
+
+// ─── Prices and messages ───
+describe('offer prices and chat messages', () => {
+  it('rejects prices that are not positive or above the listing', () => {
+    expect(offerPriceError('180', '250.00')).toBeNull();
+    expect(offerPriceError('0', '250.00')).toMatch(/positive/);
+    expect(offerPriceError('', '250.00')).toMatch(/positive/);
+    expect(offerPriceError('300', '250.00')).toBe(
+      'Offer price cannot be above the listed price of $250.00',
+    );
+  });
+
+  it('summarises each offer event', () => {
+    expect(offerEventText('created', pending)).toBe('Offered $180.00');
+    expect(offerEventText('countered', { offerPrice: 210 })).toBe('Countered with $210.00');
+    expect(offerEventText('cancelled', pending)).toBe('Withdrew the offer of $180.00');
+  });
+
+  it('shows a lapsed pending offer as expired', () => {
+    const lapsed = toChatOffer({ ...pending, expiresAt: '2020-01-01T00:00:00Z' });
+    expect(lapsed.status).toBe('expired');
+    const open = toChatOffer({ ...pending, expiresAt: '2999-01-01T00:00:00Z' });
+    expect(open).toMatchObject({ status: 'pending', counterOfId: null });
+  });
+
+  it('builds the item card from the primary photo', () => {
+    const card = toChatItem('book', {
+      id: 5,
+      title: 'The Sun Also Rises',
+      price: '250.00',
+      vendorId: 3,
+      media: [
+        { isPrimary: false, thumbnailUrl: 'back.jpg' },
+        { isPrimary: true, thumbnailUrl: 'front.jpg' },
+      ],
+    });
+    expect(card).toMatchObject({ type: 'book', id: 5, vendorId: 3, imageUrl: 'front.jpg' });
+    expect(toChatItem('product', { id: 1, images: [{ url: 'p.jpg' }] }).imageUrl).toBe('p.jpg');
+    expect(toChatItem('book', null)).toBeNull();
+  });
+});
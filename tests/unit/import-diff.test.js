@@ -0,0 +1,213 @@
+/**
+ * Unit tests for import dry runs, sync mode and rollback
+ * Tests pure functions: buildBookData, diffBook, planImport, summarizePlan,
+ * syncArchiveCandidates, rollbackAction
+ */
+
+let buildBookData, diffBook, planImport, summarizePlan, syncArchiveCandidates, rollbackAction;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/import/importDiff.js');
+  buildBookData = mod.buildBookData;
+  diffBook = mod.diffBook;
+  planImport = mod.planImport;
+  summarizePlan = mod.summarizePlan;
+  syncArchiveCandidates = mod.syncArchiveCandidates;
+  rollbackAction = mod.rollbackAction;
+});
+
+const books = [
+  {
+    id: 1,
+    title: 'Moby-Dick',
+    author: 'Herman Melville',
+    sid: 'MD-1',
+    isbn: null,
+    price: '120.00',
+    quantity: 1,
+    condition: 'good',
+    status: 'published',
+    description: { html: 'First edition' },
+  },
+  { id: 2, title: 'Walden', author: 'Thoreau', sid: 'WA-1', price: '45.00', status: 'published' },
+  { id: 3, title: 'Emma', author: 'Austen', sid: 'EM-1', price: '30.00', status: 'sold' },
+];
+
+const row = (overrides) => ({
+  _rowIndex: 1,
+  title: 'Moby-Dick',
+  author: 'Herman Melville',
+  sku: 'MD-1',
+  price: 120,
+  quantity: 1,
+  condition: 'good',
+  status: 'published',
+  description: 'First edition',
+  ...overrides,
+});
+
+// ─── buildBookData ───
+describe('buildBookData', () => {
+  it('fills defaults for a full row', () => {
+    const data = buildBookData({ title: 'A', author: 'B', price: 5, sku: 'X' }, { vendorId: 7 });
+    expect(data).toMatchObject({
+      vendorId: 7,
+      quantity: 1,
+      condition: 'good',
+      status: 'draft',
+      sid: 'X',
+      description: null,
+    });
+  });
+
+  it('writes only mapped columns for a sparse row', () => {
+    const data = buildBookData(
+      { title: 'A', sku: 'X', price: 5, quantity: 2 },
+      { vendorId: 7, sparse: true, mappedFields: ['sku', 'price', 'quantity'] },
+    );
+    expect(data).toEqual({ sid: 'X', price: 5, quantity: 2 });
+  });
+});
+
+// ─── diffBook ───
+describe('diffBook', () => {
+  it('ignores decimal formatting and description wrapping', () => {
+    expect(
+      diffBook(books[0], { price: 120, description: { html: 'First edition' }, isbn: '' }),
+    ).toEqual([]);
+  });
+
+  it('lists changed fields with their stored values', () => {
+    expect(diffBook(books[0], { price: 99.5, quantity: 1 })).toEqual([
+      { field: 'price', before: '120.00', after: 99.5 },
+    ]);
+  });
+});
+
+// ─── planImport ───
+describe('planImport', () => {
+  const options = { mode: 'upsert', matchStrategy: 'sku', vendorId: 7 };
+
+  it('creates, updates and leaves unchanged rows alone', () => {
+    const { plan } = planImport(
+      [
+        row(),
+        row({ _rowIndex: 2, sku: 'WA-1', title: 'Walden', author: 'Thoreau', price: 50 }),
+        row({ _rowIndex: 3, sku: 'NEW-1', title: 'Ulysses' }),
+      ],
+      books,
+      options,
+    );
+    expect(plan.map((entry) => entry.action)).toEqual(['unchanged', 'update', 'create']);
+    expect(plan[1].changes).toContainEqual({ field: 'price', before: '45.00', after: 50 });
+  });
+
+  it('skips unmatched rows in update mode', () => {
+    const { plan } = planImport([row({ sku: 'NEW-1' })], books, { ...options, mode: 'update' });
+    expect(plan[0]).toMatchObject({ action: 'skip', reason: 'No matching listing' });
+  });
+
+  it('skips a second row for a listing the import creates', () => {
+    const { plan } = planImport(
+      [row({ sku: 'NEW-1' }), row({ _rowIndex: 2, sku: 'NEW-1' })],
+      books,
+      options,
+    );
+    expect(plan[1]).toMatchObject({ action: 'skip', reason: 'Duplicate of row 1' });
+  });
+
+  it('only touches mapped columns in sparse mode', () => {
+    const { plan } = planImport([row({ price: 99, title: 'Ignored' })], books, {
+      ...options,
+      sparse: true,
+      mappedFields: ['sku', 'price'],
+    });
+    expect(plan[0].changes.map((change) => change.field)).toEqual(['price']);
+  });
+
+  it('replaces images only when they differ', () => {
+    const mediaByBook = new Map([[1, ['https://img/a.jpg']]]);
+    const same = planImport([row({ images: ['https://img/a.jpg'] })], books, {
+      ...options,
+      mediaByBook,
+    });
+    const changed = planImport([row({ images: ['https://img/b.jpg'] })], books, {
+      ...options,
+      mediaByBook,
+    });
+    expect(same.plan[0].action).toBe('unchanged');
+    expect(changed.plan[0]).toMatchObject({ action: 'update', replaceImages: true });
+  });
+
+  it('archives live listings missing from a sync file', () => {
+    const { archive } = planImport([row()], books, { ...options, mode: 'sync' });
+    expect(archive.map((book) => book.id)).toEqual([2]);
+  });
+});
+
+// ─── summarizePlan ───
+describe('summarizePlan', () => {
+  it('counts actions and flattens descriptions', () => {
+    const report = summarizePlan(
+      planImport([row({ description: 'Rebound' }), row({ _rowIndex: 2, sku: 'NEW-1' })], books, {
+        mode: 'sync',
+        matchStrategy: 'sku',
+      }),
+    );
+    expect(report.summary).toEqual({ create: 1, update: 1, unchanged: 0, skip: 0, archive: 1 });
+    expect(report.rows[0].changes).toEqual([
+      { field: 'description', before: 'First edition', after: 'Rebound' },
+    ]);
+    expect(report.archive).toEqual([{ bookId: 2, title: 'Walden', status: 'published' }]);
+  });
+});
+
+// ─── syncArchiveCandidates ───
+describe('syncArchiveCandidates', () => {
+  it('leaves sold and already archived listings alone', () => {
+    const candidates = syncArchiveCandidates(
+      [...books, { id: 4, status: 'archived' }, { id: 5, status: 'draft' }],
+      new Set([1]),
+    );
+    expect(candidates.map((book) => book.id)).toEqual([2, 5]);
+  });
+});
+
+// ─── rollbackAction ───
+describe('rollbackAction', () => {
+  const importedAt = new Date('2026-03-14T10:00:00Z');
+  const before = new Date('2026-03-14T09:59:00Z');
+  const after = new Date('2026-03-15T08:00:00Z');
+
+  it('deletes created books and restores updated ones', () => {
+    expect(rollbackAction({ action: 'created' }, { updatedAt: before }, importedAt)).toEqual({
+      action: 'delete',
+    });
+    expect(rollbackAction({ action: 'updated' }, { updatedAt: before }, importedAt)).toEqual({
+      action: 'restore',
+    });
+    expect(rollbackAction({ action: 'archived' }, { updatedAt: before }, importedAt)).toEqual({
+      action: 'restore',
+    });
+  });
+
+  it('skips books edited since the import unless forced', () => {
+    const book = { updatedAt: after, status: 'published' };
+    expect(rollbackAction({ action: 'updated' }, book, importedAt).reason).toBe(
+      'Edited since the import',
+    );
+    expect(rollbackAction({ action: 'updated' }, book, importedAt, true).action).toBe('restore');
+  });
+
+  it('never deletes a created book that has sold', () => {
+    const book = { updatedAt: before, status: 'sold' };
+    expect(rollbackAction({ action: 'created' }, book, importedAt, true)).toEqual({
+      action: 'skip',
+      reason: 'Sold since the import',
+    });
+  });
+
+  it('skips books that no longer exist', () => {
+    expect(rollbackAction({ action: 'updated' }, null, importedAt).action).toBe('skip');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for CSV import mapping templates
+ * Tests pure functions: scoreTemplate, matchTemplate, templateMappings, sanitizeTransforms,
+ * sanitizeTemplate
+ */
+
+let scoreTemplate, matchTemplate, templateMappings, sanitizeTransforms, sanitizeTemplate;
+let TARGET_FIELDS;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/import/mappingTemplates.js');
+  scoreTemplate = mod.scoreTemplate;
+  matchTemplate = mod.matchTemplate;
+  templateMappings = mod.templateMappings;
+  sanitizeTransforms = mod.sanitizeTransforms;
+  sanitizeTemplate = mod.sanitizeTemplate;
+  ({ TARGET_FIELDS } = await import('../../apps/api/src/services/import/importService.js'));
+});
+
+const abebooks = {
+  id: 1,
+  vendorId: null,
+  usageCount: 10,
+  headers: ['Title', 'Author', 'Price', 'BookCondition', 'PubDate'],
+  mappings: {
+    Title: 'title',
+    Author: 'author',
+    Price: 'price',
+    BookCondition: 'condition',
+    PubDate: 'publicationYear',
+  },
+};
+
+// ─── scoreTemplate ───
+describe('scoreTemplate', () => {
+  it('scores the share of template columns present, ignoring case', () => {
+    expect(scoreTemplate(['title', 'AUTHOR', 'Price', 'BOOKCONDITION', 'Notes'], abebooks)).toBe(
+      0.8,
+    );
+  });
+
+  it('does not penalize extra CSV columns', () => {
+    const headers = [...abebooks.headers, 'Illustrator', 'Jacket'];
+    expect(scoreTemplate(headers, abebooks)).toBe(1);
+  });
+
+  it('falls back to mapping keys when the template has no headers', () => {
+    expect(
+      scoreTemplate(['Title', 'Price'], { mappings: { Title: 'title', Price: 'price' } }),
+    ).toBe(1);
+  });
+});
+
+// ─── matchTemplate ───
+describe('matchTemplate', () => {
+  it('returns null when no template reaches the threshold', () => {
+    expect(matchTemplate(['Title', 'Price'], [abebooks])).toBeNull();
+  });
+
+  it('prefers the vendor template over a shared one with the same score', () => {
+    const own = { ...abebooks, id: 2, vendorId: 7, usageCount: 0 };
+    const match = matchTemplate(abebooks.headers, [abebooks, own]);
+    expect(match.template.id).toBe(2);
+    expect(match.score).toBe(1);
+  });
+
+  it('prefers the closer match over the vendor template', () => {
+    const own = { ...abebooks, id: 2, vendorId: 7, headers: [...abebooks.headers, 'SKU'] };
+    expect(matchTemplate(abebooks.headers, [own, abebooks]).template.id).toBe(1);
+  });
+});
+
+// ─── templateMappings ───
+describe('templateMappings', () => {
+  it('keys the template mappings by the CSV column names', () => {
+    expect(templateMappings(['TITLE', 'price', 'Notes'], abebooks)).toEqual({
+      TITLE: 'title',
+      price: 'price',
+    });
+  });
+});
+
+// ─── sanitizeTransforms ───
+describe('sanitizeTransforms', () => {
+  it('lowercases synonyms and drops empty entries', () => {
+    const { transforms } = sanitizeTransforms(
+      {
+        valueMaps: { condition: { 'Near Fine': 'very-good', '': 'good' } },
+        defaults: { category: 'Maps', language: '' },
+        priceMultiplier: '1',
+      },
+      TARGET_FIELDS,
+    );
+    expect(transforms).toEqual({
+      valueMaps: { condition: { 'near fine': 'very-good' } },
+      defaults: { category: 'Maps' },
+    });
+  });
+
+  it('rejects unknown fields and invalid options', () => {
+    expect(sanitizeTransforms({ defaults: { colour: 'red' } }, TARGET_FIELDS).error).toMatch(
+      /Unknown field/,
+    );
+    expect(
+      sanitizeTransforms({ valueMaps: { condition: { vg: 'pristine' } } }, TARGET_FIELDS).error,
+    ).toMatch(/not a valid condition/);
+  });
+
+  it('rejects out of range price multipliers', () => {
+    expect(sanitizeTransforms({ priceMultiplier: 0 }, TARGET_FIELDS).error).toMatch(
+      /Price multiplier/,
+    );
+    expect(sanitizeTransforms({ priceMultiplier: 1.1 }, TARGET_FIELDS).transforms).toEqual({
+      priceMultiplier: 1.1,
+    });
+  });
+});
+
+// ─── sanitizeTemplate ───
+describe('sanitizeTemplate', () => {
+  it('requires a name and at least one mapped column', () => {
+    expect(sanitizeTemplate({ mappings: { Title: 'title' } }, TARGET_FIELDS).error).toMatch(
+      /name is required/,
+    );
+    expect(
+      sanitizeTemplate({ name: 'Mine', mappings: { Notes: '__ignore__' } }, TARGET_FIELDS).error,
+    ).toMatch(/at least one column/);
+  });
+
+  it('rejects unknown target fields', () => {
+    expect(
+      sanitizeTemplate({ name: 'Mine', mappings: { Foo: 'foo' } }, TARGET_FIELDS).error,
+    ).toMatch(/Unknown target field/);
+  });
+
+  it('defaults headers to the mapped columns', () => {
+    const template = sanitizeTemplate(
+      { name: ' Weekly export ', mappings: { Title: 'title', Notes: null } },
+      TARGET_FIELDS,
+    );
+    expect(template).toMatchObject({
+      name: 'Weekly export',
+      mappings: { Title: 'title', Notes: null },
+      headers: ['Title', 'Notes'],
+      transforms: {},
+    });
+  });
+});
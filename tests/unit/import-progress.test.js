@@ -0,0 +1,133 @@
+/**
+ * Unit tests for background import progress
+ * Tests pure functions: matchIdentifiers, rowOutcome, failedRowOutcome, batchProgress,
+ * cancelTransition, batchReportCSV
+ */
+
+let matchIdentifiers, rowOutcome, failedRowOutcome, batchProgress, cancelTransition, batchReportCSV;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/import/importProgress.js');
+  matchIdentifiers = mod.matchIdentifiers;
+  rowOutcome = mod.rowOutcome;
+  failedRowOutcome = mod.failedRowOutcome;
+  batchProgress = mod.batchProgress;
+  cancelTransition = mod.cancelTransition;
+  batchReportCSV = mod.batchReportCSV;
+});
+
+// ─── matchIdentifiers ───
+describe('matchIdentifiers', () => {
+  const rows = [
+    { title: 'Emma', author: 'Austen', sku: 'EM-1', isbn: '9780141439587' },
+    { title: 'EMMA', author: 'Austen', sku: 'EM-1' },
+    { title: 'Walden', sku: 'WA-1', wpPostId: 42 },
+  ];
+
+  it('collects unique identifiers for the strategy', () => {
+    expect(matchIdentifiers(rows, 'sku')).toEqual({ attribute: 'sid', values: ['EM-1', 'WA-1'] });
+    expect(matchIdentifiers(rows, 'isbn')).toEqual({
+      attribute: 'isbn',
+      values: ['9780141439587'],
+    });
+    expect(matchIdentifiers(rows, 'wp_post_id')).toEqual({ attribute: 'wpPostId', values: ['42'] });
+  });
+
+  it('lowercases titles and needs an author to match on title', () => {
+    expect(matchIdentifiers(rows, 'title_author')).toEqual({
+      attribute: 'title',
+      values: ['emma'],
+    });
+  });
+
+  it('returns null when nothing can match', () => {
+    expect(matchIdentifiers(rows, 'none')).toBeNull();
+    expect(matchIdentifiers([{ title: 'Emma' }], 'isbn')).toBeNull();
+  });
+});
+
+// ─── rowOutcome ───
+describe('rowOutcome', () => {
+  it('maps plan actions to row statuses', () => {
+    expect(rowOutcome({ action: 'create' }, 12)).toEqual({
+      status: 'created',
+      bookId: 12,
+      message: null,
+    });
+    expect(rowOutcome({ action: 'unchanged', book: { id: 3 } })).toEqual({
+      status: 'unchanged',
+      bookId: 3,
+      message: null,
+    });
+    expect(rowOutcome({ action: 'skip', reason: 'No matching listing' })).toEqual({
+      status: 'skipped',
+      bookId: null,
+      message: 'No matching listing',
+    });
+  });
+});
+
+// ─── failedRowOutcome ───
+describe('failedRowOutcome', () => {
+  it('keeps the matched book so sync does not archive it as missing', () => {
+    expect(failedRowOutcome({ action: 'update', book: { id: 7 } }, 'Deadlock')).toEqual({
+      status: 'failed',
+      bookId: 7,
+      message: 'Deadlock',
+    });
+  });
+
+  it('records no book for rows that matched none', () => {
+    expect(failedRowOutcome({ action: 'create' }, 'Bad data').bookId).toBeNull();
+    expect(failedRowOutcome(undefined, 'Batch error').bookId).toBeNull();
+  });
+});
+
+// ─── batchProgress ───
+describe('batchProgress', () => {
+  it('reports the share of rows processed', () => {
+    const progress = batchProgress({
+      id: 1,
+      status: 'running',
+      totalRows: 300,
+      processedRows: 200,
+    });
+    expect(progress).toMatchObject({ batchId: 1, percent: 66, active: true, canRollback: false });
+  });
+
+  it('only allows rolling back finished imports', () => {
+    expect(batchProgress({ status: 'cancelled', totalRows: 0 }).canRollback).toBe(true);
+    expect(batchProgress({ status: 'rolled_back', totalRows: 10 }).canRollback).toBe(false);
+  });
+});
+
+// ─── cancelTransition ───
+describe('cancelTransition', () => {
+  it('cancels queued imports outright and lets running ones finish their chunk', () => {
+    expect(cancelTransition('queued')).toBe('cancelled');
+    expect(cancelTransition('running')).toBe('cancelling');
+    expect(cancelTransition('completed')).toBeNull();
+  });
+});
+
+// ─── batchReportCSV ───
+describe('batchReportCSV', () => {
+  it('writes one line per row and quotes values that need it', () => {
+    const csv = batchReportCSV([
+      { rowIndex: 1, data: { title: 'Emma', sku: 'EM-1' }, status: 'created', bookId: 7 },
+      {
+        rowIndex: 2,
+        data: { title: 'Walden, or Life' },
+        status: 'failed',
+        bookId: null,
+        message: 'Price "abc" is invalid',
+      },
+    ]);
+    expect(csv.split('\n')).toEqual([
+      'row,title,sku,isbn,result,book_id,message',
+      '1,Emma,EM-1,,created,7,',
+      '2,"Walden, or Life",,,failed,,"Price ""abc"" is invalid"',
+      '',
+    ]);
+  });
+});
@@ -203,6 +203,43 @@ describe('applyMappings', () => {
     const result = applyMappings(rows, mappings);
     expect(result[0].publicationYear).toBe(1913);
   });
+
+  it('applies template value synonyms before normalizing', () => {
+    const rows = [
+      { title: 'A', price: '10', cond: 'Near Fine' },
+      { title: 'B', price: '10', cond: 'Good' },
+    ];
+    const mappings = { title: 'title', price: 'price', cond: 'condition' };
+    const result = applyMappings(rows, mappings, {
+      valueMaps: { condition: { 'near fine': 'very-good' } },
+    });
+    expect(result[0].condition).toBe('very-good');
+    expect(result[1].condition).toBe('good');
+  });
+
+  it('fills template defaults for empty and unmapped fields', () => {
+    const rows = [
+      { title: 'A', price: '10', category: '' },
+      { title: 'B', price: '10', category: 'Maps' },
+    ];
+    const mappings = { title: 'title', price: 'price', category: 'category' };
+    const result = applyMappings(rows, mappings, {
+      defaults: { category: 'Rare Books', language: 'French' },
+    });
+    expect(result[0].category).toBe('Rare Books');
+    expect(result[1].category).toBe('Maps');
+    expect(result[0].language).toBe('French');
+  });
+
+  it('scales prices by the template price multiplier', () => {
+    const rows = [{ title: 'A', price: '10.00' }];
+    const result = applyMappings(
+      rows,
+      { title: 'title', price: 'price' },
+      { priceMultiplier: 1.255 },
+    );
+    expect(result[0].price).toBe(12.55);
+  });
 });
 
 // ─── validateRows ───
@@ -0,0 +1,200 @@
+/**
+ * Unit tests for ISBN lookup
+ * Tests pure functions: parseIsbn, isbn10To13, isbn13To10, isbn13Key, lookupSuggestions,
+ * fromOpenLibrary, and lookupIsbn against the fixture provider
+ */
+
+let parseIsbn, isbn10To13, isbn13To10, isbn13Key, lookupSuggestions, fromOpenLibrary;
+let lookupIsbn, lookupIsbns, registerIsbnProvider;
+
+beforeAll(async () => {
+  const isbn = await import('../../apps/api/src/services/isbn/isbn.js');
+  parseIsbn = isbn.parseIsbn;
+  isbn10To13 = isbn.isbn10To13;
+  isbn13To10 = isbn.isbn13To10;
+  isbn13Key = isbn.isbn13Key;
+  lookupSuggestions = isbn.lookupSuggestions;
+  const providers = await import('../../apps/api/src/services/isbn/isbnProviders.js');
+  fromOpenLibrary = providers.fromOpenLibrary;
+  const lookup = await import('../../apps/api/src/services/isbn/isbnLookup.js');
+  lookupIsbn = lookup.lookupIsbn;
+  lookupIsbns = lookup.lookupIsbns;
+  registerIsbnProvider = lookup.registerIsbnProvider;
+});
+
+// ─── parseIsbn ───
+describe('parseIsbn', () => {
+  it('accepts hyphenated ISBN-10s and ISBN-13s and gives both forms', () => {
+    expect(parseIsbn('0-306-40615-2')).toEqual({
+      valid: true,
+      isbn10: '0306406152',
+      isbn13: '9780306406157',
+      error: null,
+    });
+    expect(parseIsbn('978-0-14-310595-4')).toMatchObject({
+      valid: true,
+      isbn10: '0143105957',
+    });
+  });
+
+  it('accepts an X check digit', () => {
+    expect(parseIsbn('080442957x')).toMatchObject({ valid: true, isbn10: '080442957X' });
+  });
+
+  it('rejects bad checksums and lengths', () => {
+    expect(parseIsbn('0306406153').error).toBe('Invalid ISBN-10 checksum');
+    expect(parseIsbn('9780306406158').error).toBe('Invalid ISBN-13 checksum');
+    expect(parseIsbn('12345').error).toBe('ISBN must have 10 or 13 digits');
+    expect(parseIsbn('').error).toBe('ISBN is required');
+  });
+});
+
+// ─── conversion ───
+describe('ISBN conversion', () => {
+  it('round-trips between ISBN-10 and ISBN-13', () => {
+    expect(isbn10To13('0306406152')).toBe('9780306406157');
+    expect(isbn13To10('9780306406157')).toBe('0306406152');
+  });
+
+  it('has no ISBN-10 for 979 ISBNs', () => {
+    expect(isbn13To10('9791090636071')).toBeNull();
+  });
+});
+
+// ─── isbn13Key ───
+describe('isbn13Key', () => {
+  it('converts ISBN-10 to ISBN-13 so both forms compare equal', () => {
+    expect(isbn13Key('0-7432-7356-7')).toBe('9780743273565');
+    expect(isbn13Key('978-0-7432-7356-5')).toBe('9780743273565');
+  });
+
+  it('rejects values that are not ISBNs', () => {
+    expect(isbn13Key('12345')).toBeNull();
+    expect(isbn13Key('0-7432-7356-8')).toBeNull();
+    expect(isbn13Key(null)).toBeNull();
+  });
+});
+
+// ─── lookupSuggestions ───
+describe('lookupSuggestions', () => {
+  it('only offers values for blank fields', () => {
+    const metadata = {
+      title: 'Moby-Dick',
+      author: 'Herman Melville',
+      publisher: 'Penguin Classics',
+      publicationYear: 2009,
+      edition: null,
+      pageCount: 720,
+    };
+    expect(lookupSuggestions({ title: 'Moby Dick (signed)', author: ' ' }, metadata)).toEqual({
+      author: 'Herman Melville',
+      publisher: 'Penguin Classics',
+      publicationYear: 2009,
+    });
+    expect(lookupSuggestions({}, null)).toEqual({});
+  });
+});
+
+// ─── fromOpenLibrary ───
+describe('fromOpenLibrary', () => {
+  it('maps an Open Library data record', () => {
+    expect(
+      fromOpenLibrary({
+        title: 'Walden',
+        subtitle: 'or, Life in the Woods',
+        authors: [{ name: 'Henry David Thoreau' }],
+        publishers: [{ name: 'Ticknor and Fields' }],
+        publish_date: 'August 9, 1854',
+        number_of_pages: 357,
+        cover: { medium: 'https://covers/m.jpg' },
+      }),
+    ).toMatchObject({
+      title: 'Walden: or, Life in the Woods',
+      author: 'Henry David Thoreau',
+      publisher: 'Ticknor and Fields',
+      publicationYear: 1854,
+      coverUrl: 'https://covers/m.jpg',
+    });
+    expect(fromOpenLibrary(undefined)).toBeNull();
+  });
+});
+
+// ─── lookupIsbn ───
+describe('lookupIsbn', () => {
+  it('resolves fixture records by either ISBN form', async () => {
+    const result = await lookupIsbn('0-14-310595-7');
+    expect(result).toMatchObject({ valid: true, isbn13: '9780143105954', source: 'fixture' });
+    expect(result.metadata.title).toBe('Moby-Dick');
+  });
+
+  it('returns no metadata for unknown or invalid ISBNs', async () => {
+    expect((await lookupIsbn('9780306406157')).metadata).toBeNull();
+    expect(await lookupIsbn('9780306406158')).toMatchObject({ valid: false, metadata: null });
+  });
+
+  it('reports provider failures per ISBN', async () => {
+    const previous = process.env.ISBN_LOOKUP_PROVIDER;
+    registerIsbnProvider({
+      name: 'broken',
+      lookup: async () => {
+        throw new Error('Provider down');
+      },
+    });
+    process.env.ISBN_LOOKUP_PROVIDER = 'broken';
+    try {
+      const results = await lookupIsbns(['0306406152', '0306406152', '']);
+      expect(results.size).toBe(1);
+      expect(results.get('0306406152')).toMatchObject({ valid: true, error: 'Provider down' });
+    } finally {
+      if (previous === undefined) delete process.env.ISBN_LOOKUP_PROVIDER;
+      else process.env.ISBN_LOOKUP_PROVIDER = previous;
+    }
+  });
+
+  it('sends batches to providers that resolve many ISBNs at once', async () => {
+    const previous = process.env.ISBN_LOOKUP_PROVIDER;
+    const batches = [];
+    registerIsbnProvider({
+      name: 'batched',
+      batchSize: 2,
+      lookup: async () => {
+        throw new Error('Looked up one at a time');
+      },
+      lookupMany: async (isbns) => {
+        batches.push(isbns.map((isbn) => isbn.isbn13));
+        return new Map([['9780306406157', { title: 'Found' }]]);
+      },
+    });
+    process.env.ISBN_LOOKUP_PROVIDER = 'batched';
+    try {
+      const results = await lookupIsbns(['0306406152', '9780306406157', '9780143105954', 'nope']);
+      expect(batches).toEqual([['9780306406157', '9780143105954']]);
+      expect(results.get('0306406152').metadata).toEqual({ title: 'Found' });
+      expect(results.get('9780306406157').metadata).toEqual({ title: 'Found' });
+      expect(results.get('9780143105954')).toMatchObject({ metadata: null, source: 'batched' });
+      expect(results.get('nope')).toMatchObject({ valid: false, metadata: null });
+    } finally {
+      if (previous === undefined) delete process.env.ISBN_LOOKUP_PROVIDER;
+      else process.env.ISBN_LOOKUP_PROVIDER = previous;
+    }
+  });
+
+  it('leaves out ISBNs not resolved within the time budget', async () => {
+    const previous = process.env.ISBN_LOOKUP_PROVIDER;
+    registerIsbnProvider({
+      name: 'slow',
+      lookup: (isbn, { signal }) =>
+        new Promise((resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('Aborted')));
+        }),
+    });
+    process.env.ISBN_LOOKUP_PROVIDER = 'slow';
+    try {
+      const results = await lookupIsbns(['0306406152', '12345'], { timeBudgetMs: 20 });
+      expect([...results.keys()]).toEqual(['12345']);
+    } finally {
+      if (previous === undefined) delete process.env.ISBN_LOOKUP_PROVIDER;
+      else process.env.ISBN_LOOKUP_PROVIDER = previous;
+    }
+  });
+});
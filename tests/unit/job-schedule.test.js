@@ -0,0 +1,59 @@
+/**
+ * Unit tests for background job scheduling
+ * Tests pure functions: retryDelayMs, nextIntervalRun, shouldRetry
+ */
+
+let retryDelayMs, nextIntervalRun, shouldRetry, RETRY_BASE_MS, RETRY_MAX_MS;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/jobs/jobSchedule.js');
+  retryDelayMs = mod.retryDelayMs;
+  nextIntervalRun = mod.nextIntervalRun;
+  shouldRetry = mod.shouldRetry;
+  RETRY_BASE_MS = mod.RETRY_BASE_MS;
+  RETRY_MAX_MS = mod.RETRY_MAX_MS;
+});
+
+// ─── retryDelayMs ───
+describe('retryDelayMs', () => {
+  it('doubles the delay with each attempt', () => {
+    expect(retryDelayMs(1)).toBe(RETRY_BASE_MS);
+    expect(retryDelayMs(2)).toBe(RETRY_BASE_MS * 2);
+    expect(retryDelayMs(3)).toBe(RETRY_BASE_MS * 4);
+  });
+
+  it('caps the delay', () => {
+    expect(retryDelayMs(20)).toBe(RETRY_MAX_MS);
+    expect(retryDelayMs(5, { baseMs: 1000, maxMs: 10000 })).toBe(10000);
+  });
+});
+
+// ─── nextIntervalRun ───
+describe('nextIntervalRun', () => {
+  it('aligns to the next interval boundary', () => {
+    const now = new Date('2026-03-10T10:17:42.500Z');
+    expect(nextIntervalRun(now, 60).toISOString()).toBe('2026-03-10T10:18:00.000Z');
+    expect(nextIntervalRun(now, 300).toISOString()).toBe('2026-03-10T10:20:00.000Z');
+    expect(nextIntervalRun(now, 3600).toISOString()).toBe('2026-03-10T11:00:00.000Z');
+  });
+
+  it('moves past a boundary it lands exactly on', () => {
+    const now = new Date('2026-03-10T10:00:00.000Z');
+    expect(nextIntervalRun(now, 3600).toISOString()).toBe('2026-03-10T11:00:00.000Z');
+  });
+
+  it('gives every replica the same slot', () => {
+    const a = nextIntervalRun(new Date('2026-03-10T10:00:01Z'), 600);
+    const b = nextIntervalRun(new Date('2026-03-10T10:09:59Z'), 600);
+    expect(a.getTime()).toBe(b.getTime());
+  });
+});
+
+// ─── shouldRetry ───
+describe('shouldRetry', () => {
+  it('retries until attempts reach the limit', () => {
+    expect(shouldRetry(1, 3)).toBe(true);
+    expect(shouldRetry(2, 3)).toBe(true);
+    expect(shouldRetry(3, 3)).toBe(false);
+  });
+});
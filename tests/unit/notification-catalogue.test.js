@@ -0,0 +1,172 @@
+/**
+ * Unit tests for the notification catalogue and per-channel preferences
+ * Tests pure functions: isSmsEligible, resolveChannels, digestPreference, normalizePreferences,
+ * preferenceMatrix, preferenceAudiences
+ */
+
+let isSmsEligible, resolveChannels, digestPreference, normalizePreferences, preferenceMatrix;
+let preferenceAudiences;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/notificationCatalogue.js');
+  isSmsEligible = mod.isSmsEligible;
+  resolveChannels = mod.resolveChannels;
+  digestPreference = mod.digestPreference;
+  normalizePreferences = mod.normalizePreferences;
+  preferenceMatrix = mod.preferenceMatrix;
+  preferenceAudiences = mod.preferenceAudiences;
+});
+
+const smsReady = {
+  phoneNumber: '+15551234567',
+  metadata: { smsOptIn: true, smsVerified: true },
+};
+
+// ─── SMS eligibility ───
+describe('isSmsEligible', () => {
+  it('needs a verified, opted-in phone that has not replied STOP', () => {
+    expect(isSmsEligible(smsReady)).toBe(true);
+    expect(isSmsEligible({ ...smsReady, phoneNumber: null })).toBe(false);
+    expect(isSmsEligible({ ...smsReady, metadata: { smsOptIn: true } })).toBe(false);
+    expect(isSmsEligible({ ...smsReady, metadata: { ...smsReady.metadata, smsStop: true } })).toBe(
+      false,
+    );
+  });
+});
+
+// ─── Channel resolution ───
+describe('resolveChannels', () => {
+  it('uses the type defaults when the user has no preferences', () => {
+    expect(resolveChannels('ORDER_CONFIRMED_BUYER', smsReady)).toEqual({
+      inApp: true,
+      email: true,
+      sms: true,
+      push: true,
+    });
+    expect(resolveChannels('custom_offer', {})).toEqual({
+      inApp: true,
+      email: true,
+      sms: false,
+      push: true,
+    });
+  });
+
+  it('applies per-type overrides', () => {
+    const user = {
+      ...smsReady,
+      notificationPreferences: { ORDER_NEW_VENDOR: { email: false, push: false } },
+    };
+    expect(resolveChannels('ORDER_NEW_VENDOR', user)).toMatchObject({
+      inApp: true,
+      email: false,
+      push: false,
+    });
+  });
+
+  it('keeps required email on and lets the master email switch turn off the rest', () => {
+    const user = {
+      emailNotifications: false,
+      notificationPreferences: { PAYMENT_FAILED: { email: false } },
+    };
+    expect(resolveChannels('PAYMENT_FAILED', user).email).toBe(true);
+    expect(resolveChannels('SAVED_SEARCH_MATCH', user).email).toBe(false);
+  });
+
+  it('sends no SMS to users who are not eligible', () => {
+    expect(resolveChannels('AUCTION_WON_PAYMENT_DUE', { phoneNumber: '+15551234567' }).sms).toBe(
+      false,
+    );
+  });
+
+  it('sends unknown types to the inbox only', () => {
+    expect(resolveChannels('SOMETHING_NEW', smsReady)).toEqual({
+      inApp: true,
+      email: false,
+      sms: false,
+      push: true,
+    });
+  });
+});
+
+// ─── Email digests ───
+describe('digestPreference', () => {
+  it('uses the type override, then the user default, then the type default', () => {
+    expect(digestPreference('AUCTION_OUTBID', {})).toBe('daily');
+    expect(digestPreference('ORDER_NEW_VENDOR', {})).toBe('instant');
+    expect(digestPreference('ORDER_NEW_VENDOR', { notificationDigest: 'weekly' })).toBe('weekly');
+    expect(
+      digestPreference('AUCTION_OUTBID', {
+        notificationDigest: 'weekly',
+        notificationPreferences: { AUCTION_OUTBID: { digest: 'instant' } },
+      }),
+    ).toBe('instant');
+  });
+
+  it('has no mode for types without email or with a required email', () => {
+    expect(digestPreference('REFUND_ISSUED', { notificationDigest: 'daily' })).toBeNull();
+    expect(digestPreference('PAYMENT_FAILED', { notificationDigest: 'daily' })).toBeNull();
+  });
+});
+
+// ─── Saving preferences ───
+describe('normalizePreferences', () => {
+  it('keeps known types and channels with boolean values only', () => {
+    expect(
+      normalizePreferences({
+        ORDER_NEW_VENDOR: { email: false, sms: true, push: 'no' },
+        NOT_A_TYPE: { email: false },
+      }),
+    ).toEqual({ ORDER_NEW_VENDOR: { email: false } });
+  });
+
+  it('keeps known digest modes for types that can be batched', () => {
+    expect(
+      normalizePreferences({
+        AUCTION_OUTBID: { digest: 'weekly' },
+        ORDER_NEW_VENDOR: { digest: 'hourly' },
+        PAYMENT_FAILED: { digest: 'daily' },
+      }),
+    ).toEqual({ AUCTION_OUTBID: { digest: 'weekly' } });
+  });
+
+  it('ignores required channels and merges over saved choices', () => {
+    const saved = { SAVED_SEARCH_MATCH: { email: false }, AUCTION_OUTBID: { sms: false } };
+    expect(
+      normalizePreferences(
+        { PAYMENT_FAILED: { email: false, sms: false }, SAVED_SEARCH_MATCH: { push: false } },
+        saved,
+      ),
+    ).toEqual({
+      SAVED_SEARCH_MATCH: { email: false, push: false },
+      AUCTION_OUTBID: { sms: false },
+      PAYMENT_FAILED: { sms: false },
+    });
+  });
+});
+
+// ─── Preference center ───
+describe('preferenceMatrix', () => {
+  it('shows customers only the categories meant for them', () => {
+    expect(preferenceAudiences({ role: 'customer' })).toEqual(['customer']);
+    expect(preferenceAudiences({ role: 'vendor' })).toEqual(['customer', 'vendor']);
+
+    const keys = preferenceMatrix({}, ['customer']).map((category) => category.key);
+    expect(keys).toContain('orders');
+    expect(keys).not.toContain('selling');
+    expect(keys).not.toContain('admin');
+  });
+
+  it('marks unsupported, required and turned-off channels', () => {
+    const user = { notificationPreferences: { PAYMENT_FAILED: { sms: false } } };
+    const payments = preferenceMatrix(user).find((category) => category.key === 'payments');
+    const failed = payments.types.find((row) => row.type === 'PAYMENT_FAILED');
+
+    expect(failed.channels.email).toEqual({ enabled: true, required: true });
+    expect(failed.channels.sms).toEqual({ enabled: false, required: false });
+
+    expect(failed.digest).toBeNull();
+
+    const refunds = payments.types.find((row) => row.type === 'REFUND_ISSUED');
+    expect(refunds.channels.email).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Unit tests for notification digest rules
+ * Tests pure functions: localParts, zonedTime, normalizeQuietHours, isQuietHours, quietHoursEnd,
+ * nextDigestRun, emailSchedule, digestRetryAt, groupDigestItems, digestVariables
+ */
+
+let localParts, zonedTime, normalizeQuietHours, isQuietHours, quietHoursEnd;
+let nextDigestRun, emailSchedule, groupDigestItems, digestVariables, DIGEST_MAX_ITEMS;
+let digestRetryAt, DIGEST_MAX_ATTEMPTS;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/notificationDigestRules.js');
+  localParts = mod.localParts;
+  zonedTime = mod.zonedTime;
+  normalizeQuietHours = mod.normalizeQuietHours;
+  isQuietHours = mod.isQuietHours;
+  quietHoursEnd = mod.quietHoursEnd;
+  nextDigestRun = mod.nextDigestRun;
+  emailSchedule = mod.emailSchedule;
+  groupDigestItems = mod.groupDigestItems;
+  digestVariables = mod.digestVariables;
+  DIGEST_MAX_ITEMS = mod.DIGEST_MAX_ITEMS;
+  digestRetryAt = mod.digestRetryAt;
+  DIGEST_MAX_ATTEMPTS = mod.DIGEST_MAX_ATTEMPTS;
+});
+
+const newYork = {
+  timezone: 'America/New_York',
+  quietHours: { start: '22:00', end: '07:00' },
+};
+
+// ─── Time zones ───
+describe('localParts and zonedTime', () => {
+  it('reads wall-clock time in the user time zone', () => {
+    expect(localParts(new Date('2026-01-05T03:30:00Z'), 'America/New_York')).toEqual({
+      year: 2026,
+      month: 1,
+      day: 4,
+      hour: 22,
+      minute: 30,
+      weekday: 0,
+    });
+  });
+
+  it('falls back to UTC for unknown time zones', () => {
+    expect(localParts(new Date('2026-01-05T03:30:00Z'), 'Mars/Olympus').hour).toBe(3);
+  });
+
+  it('finds the instant of a local time across DST changes and month ends', () => {
+    expect(zonedTime('America/New_York', 2026, 1, 15, 8).toISOString()).toBe(
+      '2026-01-15T13:00:00.000Z',
+    );
+    expect(zonedTime('America/New_York', 2026, 7, 15, 8).toISOString()).toBe(
+      '2026-07-15T12:00:00.000Z',
+    );
+    expect(zonedTime('Asia/Kolkata', 2026, 1, 32, 8).toISOString()).toBe(
+      '2026-02-01T02:30:00.000Z',
+    );
+  });
+});
+
+// ─── Quiet hours ───
+describe('quiet hours', () => {
+  it('accepts HH:MM pairs, null to turn them off, and rejects anything else', () => {
+    expect(normalizeQuietHours({ start: '22:00', end: '07:00' })).toEqual({
+      start: '22:00',
+      end: '07:00',
+    });
+    expect(normalizeQuietHours(null)).toBeNull();
+    expect(normalizeQuietHours({ start: '25:00', end: '07:00' })).toBeUndefined();
+    expect(normalizeQuietHours({ start: '07:00', end: '07:00' })).toBeUndefined();
+  });
+
+  it('applies overnight quiet hours in the user time zone', () => {
+    expect(isQuietHours(new Date('2026-01-05T03:30:00Z'), newYork)).toBe(true); // 22:30
+    expect(isQuietHours(new Date('2026-01-05T11:30:00Z'), newYork)).toBe(true); // 06:30
+    expect(isQuietHours(new Date('2026-01-05T12:00:00Z'), newYork)).toBe(false); // 07:00
+    expect(isQuietHours(new Date('2026-01-05T03:30:00Z'), { timezone: 'UTC' })).toBe(false);
+  });
+
+  it('ends quiet hours at the next local end time', () => {
+    expect(quietHoursEnd(new Date('2026-01-05T03:30:00Z'), newYork).toISOString()).toBe(
+      '2026-01-05T12:00:00.000Z',
+    );
+    expect(quietHoursEnd(new Date('2026-01-05T11:30:00Z'), newYork).toISOString()).toBe(
+      '2026-01-05T12:00:00.000Z',
+    );
+  });
+});
+
+// ─── Digest schedule ───
+describe('nextDigestRun', () => {
+  it('sends daily digests at 8:00 local time', () => {
+    const user = { timezone: 'America/New_York' };
+    expect(nextDigestRun(new Date('2026-01-05T12:00:00Z'), 'daily', user).toISOString()).toBe(
+      '2026-01-05T13:00:00.000Z',
+    );
+    expect(nextDigestRun(new Date('2026-01-05T14:00:00Z'), 'daily', user).toISOString()).toBe(
+      '2026-01-06T13:00:00.000Z',
+    );
+  });
+
+  it('sends weekly digests on Monday morning', () => {
+    const user = { timezone: 'Europe/London' };
+    // Wednesday 7 January 2026
+    expect(nextDigestRun(new Date('2026-01-07T10:00:00Z'), 'weekly', user).toISOString()).toBe(
+      '2026-01-12T08:00:00.000Z',
+    );
+  });
+
+  it('moves a digest that falls in quiet hours to their end', () => {
+    const user = { timezone: 'UTC', quietHours: { start: '06:00', end: '09:30' } };
+    expect(nextDigestRun(new Date('2026-01-05T00:00:00Z'), 'daily', user).toISOString()).toBe(
+      '2026-01-05T09:30:00.000Z',
+    );
+  });
+});
+
+describe('emailSchedule', () => {
+  const night = new Date('2026-01-05T03:30:00Z'); // 22:30 in New York
+
+  it('sends instant email now outside quiet hours', () => {
+    expect(emailSchedule(new Date('2026-01-05T15:00:00Z'), 'instant', newYork)).toBeNull();
+  });
+
+  it('holds instant email until quiet hours end', () => {
+    expect(emailSchedule(night, 'instant', newYork).toISOString()).toBe('2026-01-05T12:00:00.000Z');
+  });
+
+  it('queues digest email for the next digest', () => {
+    expect(emailSchedule(night, 'daily', newYork).toISOString()).toBe('2026-01-05T13:00:00.000Z');
+  });
+
+  it('never holds required email', () => {
+    expect(emailSchedule(night, 'daily', newYork, { required: true })).toBeNull();
+  });
+});
+
+describe('digestRetryAt', () => {
+  const now = new Date('2026-01-05T13:00:00Z');
+
+  it('waits longer after each failed send', () => {
+    expect(digestRetryAt(now, 1).toISOString()).toBe('2026-01-05T13:30:00.000Z');
+    expect(digestRetryAt(now, 2).toISOString()).toBe('2026-01-05T14:00:00.000Z');
+  });
+
+  it('gives up once every attempt is used', () => {
+    expect(digestRetryAt(now, DIGEST_MAX_ATTEMPTS - 1)).toBeInstanceOf(Date);
+    expect(digestRetryAt(now, DIGEST_MAX_ATTEMPTS)).toBeNull();
+  });
+});
+
+// ─── Rendering ───
+describe('digest rendering', () => {
+  const row = (title, message) => ({ title, message, createdAt: '2026-01-05T15:00:00Z' });
+
+  it('groups items under headings in first-seen order', () => {
+    const groups = groupDigestItems(
+      [
+        { ...row('Outbid', 'a'), heading: 'Auctions' },
+        { ...row('Offer', 'b'), heading: 'Offers' },
+        { ...row('Outbid', 'c'), heading: 'Auctions' },
+      ],
+      (item) => item.heading,
+    );
+    expect(groups.map((group) => [group.heading, group.items.length])).toEqual([
+      ['Auctions', 2],
+      ['Offers', 1],
+    ]);
+  });
+
+  it('escapes notification text and caps the listed items', () => {
+    const items = Array.from({ length: DIGEST_MAX_ITEMS + 2 }, () =>
+      row('New Offer', '<b>Shop & Co</b> sent an offer'),
+    );
+    const variables = digestVariables(
+      { firstName: 'Ada', timezone: 'UTC' },
+      [{ heading: 'Offers', items }],
+      { notificationsUrl: 'https://example.com/n', preferencesUrl: 'https://example.com/p' },
+    );
+
+    expect(variables.userName).toBe('Ada');
+    expect(variables.summary).toBe(`${DIGEST_MAX_ITEMS + 2} updates`);
+    expect(variables.itemsHtml).toContain('&lt;b&gt;Shop &amp; Co&lt;/b&gt;');
+    expect(variables.itemsHtml).not.toContain('<b>Shop');
+    expect(variables.itemsHtml.match(/<li>/g)).toHaveLength(DIGEST_MAX_ITEMS);
+    expect(variables.itemsHtml).toContain('And 2 more in your notifications');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for order fulfillment rules
+ * Tests pure functions: deriveOrderStatus, canTransition, statusTimestamps
+ */
+
+let deriveOrderStatus, canTransition, statusTimestamps;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/orderFulfillment.js');
+  deriveOrderStatus = mod.deriveOrderStatus;
+  canTransition = mod.canTransition;
+  statusTimestamps = mod.statusTimestamps;
+});
+
+// ─── deriveOrderStatus ───
+describe('deriveOrderStatus', () => {
+  it('keeps the order partially shipped until every vendor has shipped', () => {
+    expect(deriveOrderStatus(['shipped', 'pending'], 'pending')).toBe('partially_shipped');
+    expect(deriveOrderStatus(['delivered', 'processing'], 'pending')).toBe('partially_shipped');
+  });
+
+  it('marks the order shipped once all shipments have shipped', () => {
+    expect(deriveOrderStatus(['shipped', 'delivered'], 'partially_shipped')).toBe('shipped');
+  });
+
+  it('marks the order delivered once all shipments are delivered', () => {
+    expect(deriveOrderStatus(['delivered', 'delivered'], 'shipped')).toBe('delivered');
+  });
+
+  it('ignores cancelled shipments unless all are cancelled', () => {
+    expect(deriveOrderStatus(['cancelled', 'shipped'], 'pending')).toBe('shipped');
+    expect(deriveOrderStatus(['cancelled', 'cancelled'], 'pending')).toBe('cancelled');
+  });
+
+  it('reports processing before anything ships and otherwise keeps the current status', () => {
+    expect(deriveOrderStatus(['processing', 'pending'], 'pending')).toBe('processing');
+    expect(deriveOrderStatus(['pending'], 'pending')).toBe('pending');
+    expect(deriveOrderStatus([], 'completed')).toBe('completed');
+  });
+});
+
+// ─── canTransition ───
+describe('canTransition', () => {
+  it('allows forward progress only', () => {
+    expect(canTransition('pending', 'processing')).toBe(true);
+    expect(canTransition('processing', 'delivered')).toBe(true);
+    expect(canTransition('shipped', 'processing')).toBe(false);
+  });
+
+  it('does not cancel shipments that already shipped', () => {
+    expect(canTransition('processing', 'cancelled')).toBe(true);
+    expect(canTransition('shipped', 'cancelled')).toBe(false);
+  });
+});
+
+// ─── statusTimestamps ───
+describe('statusTimestamps', () => {
+  const now = new Date('2026-03-05T12:00:00Z');
+
+  it('stamps shippedAt and deliveredAt once', () => {
+    expect(statusTimestamps('shipped', {}, now)).toEqual({ shippedAt: now });
+    expect(statusTimestamps('delivered', { shippedAt: now }, now)).toEqual({ deliveredAt: now });
+    expect(statusTimestamps('shipped', { shippedAt: now }, now)).toEqual({});
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Unit tests for partial and per-item order refunds
+ * Tests pure functions: refundableSummary, calculateRefund, isFullyRefunded, earningClawback,
+ * clawbackBalanceField, vendorRefundPortion
+ */
+
+let refundableSummary,
+  calculateRefund,
+  isFullyRefunded,
+  earningClawback,
+  clawbackBalanceField,
+  vendorRefundPortion;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/orderRefundRules.js');
+  refundableSummary = mod.refundableSummary;
+  calculateRefund = mod.calculateRefund;
+  isFullyRefunded = mod.isFullyRefunded;
+  earningClawback = mod.earningClawback;
+  clawbackBalanceField = mod.clawbackBalanceField;
+  vendorRefundPortion = mod.vendorRefundPortion;
+});
+
+// Two vendors; a 10% coupon; exclusive tax on the first item
+const order = {
+  subtotal: '150.00',
+  discountAmount: '15.00',
+  totalAmount: '153.00',
+  shippingLines: [
+    { vendorId: 10, amount: 5 },
+    { vendorId: 20, amount: 5 },
+  ],
+  items: [
+    {
+      id: 1,
+      vendorId: 10,
+      title: 'First Folio',
+      quantity: 2,
+      subtotal: '100.00',
+      taxAmount: '8.00',
+      taxLines: [{ amount: 8, inclusive: false }],
+    },
+    { id: 2, vendorId: 20, title: 'Map', quantity: 1, subtotal: '50.00', taxAmount: '0.00' },
+  ],
+};
+
+// ─── refundableSummary ───
+describe('refundableSummary', () => {
+  it('spreads the coupon discount over the items and adds exclusive tax', () => {
+    const summary = refundableSummary(order, []);
+    expect(summary.items[0]).toMatchObject({ discount: 10, tax: 8, remainingAmount: 98 });
+    expect(summary.items[1]).toMatchObject({ discount: 5, tax: 0, remainingAmount: 45 });
+    expect(summary.remainingAmount).toBe(153);
+  });
+
+  it('applies a free shipping coupon to shipping instead', () => {
+    const summary = refundableSummary({ ...order, discountAmount: '10.00' }, [], {
+      discountType: 'free_shipping',
+    });
+    expect(summary.items[0].discount).toBe(0);
+    expect(summary.shipping[0]).toMatchObject({ discount: 5, remainingNet: 0 });
+  });
+
+  it('subtracts earlier refunds', () => {
+    const refund = calculateRefund(order, [], { items: [{ orderItemId: 1, quantity: 1 }] });
+    const summary = refundableSummary(order, [refund]);
+    expect(summary.items[0]).toMatchObject({ remainingQuantity: 1, remainingAmount: 49 });
+    expect(summary.refundedAmount).toBe(49);
+    expect(summary.remainingAmount).toBe(104);
+  });
+
+  it('falls back to the order shipping cost for orders without shipping lines', () => {
+    const summary = refundableSummary({ ...order, shippingLines: [], shippingCost: '10.00' }, []);
+    expect(summary.shipping).toEqual([
+      expect.objectContaining({ vendorId: null, amount: 10, remainingAmount: 10 }),
+    ]);
+  });
+});
+
+// ─── calculateRefund ───
+describe('calculateRefund', () => {
+  it('refunds units with their share of discount and tax', () => {
+    const refund = calculateRefund(order, [], { items: [{ orderItemId: '1', quantity: 1 }] });
+    expect(refund.lines).toEqual([
+      expect.objectContaining({
+        orderItemId: 1,
+        quantity: 1,
+        share: 0.5,
+        itemAmount: 50,
+        discountAmount: 5,
+        taxAmount: 4,
+        amount: 49,
+      }),
+    ]);
+    expect(refund.amount).toBe(49);
+  });
+
+  it('refunds the selected vendor shipping', () => {
+    const refund = calculateRefund(order, [], {
+      items: [{ orderItemId: 2, quantity: 1 }],
+      refundShipping: ['20'],
+    });
+    expect(refund.shippingLines).toEqual([{ vendorId: 20, amount: 5, discountAmount: 0 }]);
+    expect(refund.amount).toBe(50);
+  });
+
+  it('caps the selection at a requested amount', () => {
+    const refund = calculateRefund(order, [], {
+      items: [{ orderItemId: 1, quantity: 2 }],
+      amount: 50,
+    });
+    expect(refund.amount).toBe(50);
+    expect(refund.lines[0].quantity).toBe(2);
+    expect(refund.lines[0].share).toBeCloseTo(50 / 98);
+  });
+
+  it('spreads an amount-only refund over the remaining items by value', () => {
+    const refund = calculateRefund(order, [], { amount: 45 });
+    expect(refund.lines).toHaveLength(2);
+    expect(refund.lines.every((line) => line.quantity === 0)).toBe(true);
+    expect(refund.amount).toBe(45);
+  });
+
+  it('restricts vendor refunds to their own items and shipping', () => {
+    const refund = calculateRefund(
+      order,
+      [],
+      { items: [{ orderItemId: 2, quantity: 1 }], refundShipping: true },
+      { vendorId: 20 },
+    );
+    expect(refund.lines.map((line) => line.vendorId)).toEqual([20]);
+    expect(refund.shippingLines.map((line) => line.vendorId)).toEqual([20]);
+    expect(calculateRefund(order, [], { amount: 20 }, { vendorId: 20 }).lines).toEqual([
+      expect.objectContaining({ orderItemId: 2, amount: 20 }),
+    ]);
+
+    expect(
+      calculateRefund(order, [], { items: [{ orderItemId: 1, quantity: 1 }] }, { vendorId: 20 })
+        .error,
+    ).toMatch(/not part of this order/);
+  });
+
+  it('rejects more units than remain', () => {
+    const first = calculateRefund(order, [], { items: [{ orderItemId: 1, quantity: 1 }] });
+    const result = calculateRefund(order, [first], { items: [{ orderItemId: 1, quantity: 2 }] });
+    expect(result.error).toMatch(/Only 1 of "First Folio"/);
+  });
+
+  it('rejects amounts above the selection or the remaining items', () => {
+    expect(
+      calculateRefund(order, [], { items: [{ orderItemId: 2, quantity: 1 }], amount: 60 }).error,
+    ).toMatch(/come to 45.00/);
+    expect(calculateRefund(order, [], { amount: 150 }).error).toMatch(/At most 143.00/);
+    expect(calculateRefund(order, [], { amount: 0 }).error).toMatch(/greater than zero/);
+  });
+
+  it('requires something to refund', () => {
+    expect(calculateRefund(order, [], {}).error).toMatch(/Select items, shipping or an amount/);
+  });
+
+  it('adds up to the order total when everything is refunded', () => {
+    const refund = calculateRefund(order, [], {
+      items: [
+        { orderItemId: 1, quantity: 2 },
+        { orderItemId: 2, quantity: 1 },
+      ],
+      refundShipping: true,
+    });
+    expect(refund.amount).toBe(153);
+    expect(isFullyRefunded(order, [refund])).toBe(true);
+  });
+});
+
+// ─── earningClawback ───
+describe('earningClawback', () => {
+  const earning = { amount: '100.00', platformFee: '8.00', netAmount: '92.00' };
+
+  it('claws back the refunded share of the earning', () => {
+    expect(earningClawback(earning, 0.5)).toEqual({
+      amount: 50,
+      platformFee: 4,
+      netAmount: 46,
+      full: false,
+    });
+  });
+
+  it('takes the share relative to what was not refunded before', () => {
+    // The earning was already reduced to the remaining half; refunding that half takes it all
+    expect(earningClawback({ amount: 50, platformFee: 4, netAmount: 46 }, 0.5, 0.5)).toEqual({
+      amount: 50,
+      platformFee: 4,
+      netAmount: 46,
+      full: true,
+    });
+  });
+});
+
+// ─── clawbackBalanceField ───
+describe('clawbackBalanceField', () => {
+  it('skips earnings already reversed, refunded or frozen by a dispute', () => {
+    expect(clawbackBalanceField({ status: 'disputed' })).toBeNull();
+    expect(clawbackBalanceField({ status: 'reversed' })).toBeNull();
+    expect(clawbackBalanceField({ status: 'refunded' })).toBeNull();
+  });
+
+  it('recovers paid out earnings from the available balance', () => {
+    expect(clawbackBalanceField({ status: 'paid', paidAt: new Date() })).toBe('balanceAvailable');
+    expect(clawbackBalanceField({ status: 'completed' })).toBe('balanceAvailable');
+  });
+
+  it('recovers pending sale earnings from the pending balance', () => {
+    expect(clawbackBalanceField({ status: 'pending', transactionType: 'sale' })).toBe(
+      'balancePending',
+    );
+  });
+});
+
+// ─── vendorRefundPortion ───
+describe('vendorRefundPortion', () => {
+  it('returns only the vendor lines and their amount', () => {
+    const refund = calculateRefund(order, [], {
+      items: [
+        { orderItemId: 1, quantity: 1 },
+        { orderItemId: 2, quantity: 1 },
+      ],
+      refundShipping: true,
+    });
+    const portion = vendorRefundPortion(refund, 10);
+    expect(portion.lines.map((line) => line.orderItemId)).toEqual([1]);
+    expect(portion.amount).toBe(54);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for Stripe payment event reconciliation
+ * Tests pure functions: refundPaymentStatus, disputeResolution, evidenceUrgency,
+ * earningBalanceField
+ */
+
+let refundPaymentStatus, disputeResolution, evidenceUrgency, earningBalanceField;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/paymentEventRules.js');
+  refundPaymentStatus = mod.refundPaymentStatus;
+  disputeResolution = mod.disputeResolution;
+  evidenceUrgency = mod.evidenceUrgency;
+  earningBalanceField = mod.earningBalanceField;
+});
+
+// ─── refundPaymentStatus ───
+describe('refundPaymentStatus', () => {
+  it('detects full and partial refunds', () => {
+    expect(refundPaymentStatus({ amount: 5000, amount_refunded: 5000 })).toBe('refunded');
+    expect(refundPaymentStatus({ amount: 5000, amount_refunded: 1200 })).toBe('partially_refunded');
+  });
+
+  it('returns null when nothing was refunded', () => {
+    expect(refundPaymentStatus({ amount: 5000, amount_refunded: 0 })).toBeNull();
+  });
+});
+
+// ─── disputeResolution ───
+describe('disputeResolution', () => {
+  it('releases earnings for won disputes and closed inquiries', () => {
+    expect(disputeResolution('won')).toBe('won');
+    expect(disputeResolution('warning_closed')).toBe('won');
+  });
+
+  it('reverses earnings for lost disputes', () => {
+    expect(disputeResolution('lost')).toBe('lost');
+  });
+
+  it('keeps open disputes unresolved', () => {
+    expect(disputeResolution('needs_response')).toBeNull();
+    expect(disputeResolution('under_review')).toBeNull();
+  });
+});
+
+// ─── evidenceUrgency ───
+describe('evidenceUrgency', () => {
+  const now = new Date('2026-03-11T12:00:00Z');
+
+  it('flags overdue and soon-due evidence', () => {
+    expect(evidenceUrgency('needs_response', '2026-03-10T12:00:00Z', now)).toBe('overdue');
+    expect(evidenceUrgency('needs_response', '2026-03-13T12:00:00Z', now)).toBe('due_soon');
+    expect(evidenceUrgency('needs_response', '2026-03-20T12:00:00Z', now)).toBe('open');
+  });
+
+  it('ignores closed disputes and missing deadlines', () => {
+    expect(evidenceUrgency('lost', '2026-03-10T12:00:00Z', now)).toBeNull();
+    expect(evidenceUrgency('needs_response', null, now)).toBeNull();
+  });
+});
+
+// ─── earningBalanceField ───
+describe('earningBalanceField', () => {
+  it('holds undelivered order earnings from the pending balance', () => {
+    expect(earningBalanceField({ status: 'pending', transactionType: 'book_sale' })).toBe(
+      'balancePending',
+    );
+  });
+
+  it('holds settled and auction earnings from the available balance', () => {
+    expect(earningBalanceField({ status: 'completed', transactionType: 'book_sale' })).toBe(
+      'balanceAvailable',
+    );
+    expect(earningBalanceField({ status: 'pending', transactionType: 'auction_sale' })).toBe(
+      'balanceAvailable',
+    );
+  });
+
+  it('cannot hold earnings already paid out, frozen or reversed', () => {
+    expect(earningBalanceField({ status: 'completed', payoutId: 7 })).toBeNull();
+    expect(earningBalanceField({ status: 'disputed' })).toBeNull();
+    expect(earningBalanceField({ status: 'reversed' })).toBeNull();
+  });
+});
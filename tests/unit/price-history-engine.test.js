@@ -0,0 +1,96 @@
+/**
+ * Unit tests for price history / value charts
+ * Tests pure functions: workKeyFor, listingPriceEvents, buildValueChart
+ */
+
+let workKeyFor, listingPriceEvents, buildValueChart;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/priceHistoryEngine.js');
+  workKeyFor = mod.workKeyFor;
+  listingPriceEvents = mod.listingPriceEvents;
+  buildValueChart = mod.buildValueChart;
+});
+
+// ─── workKeyFor ───
+describe('workKeyFor', () => {
+  it('keys by ISBN-13 so ISBN-10 and ISBN-13 copies group together', () => {
+    expect(workKeyFor({ isbn: '0-7432-7356-7', title: 'Anything' })).toBe('isbn:9780743273565');
+    expect(workKeyFor({ isbn: '9780743273565' })).toBe('isbn:9780743273565');
+  });
+
+  it('normalizes title and author word order, case and articles', () => {
+    const a = workKeyFor({ title: 'The Great Gatsby', author: 'F. Scott Fitzgerald' });
+    const b = workKeyFor({ title: 'Great Gatsby, The', author: 'Fitzgerald, F. Scott' });
+    expect(a).toBe(b);
+    expect(a).toBe('work:gatsby great|f fitzgerald scott');
+  });
+
+  it('uses the artist for products', () => {
+    expect(workKeyFor({ title: 'Water Lilies', artist: 'Claude Monet' })).toBe(
+      'work:lilies water|claude monet',
+    );
+  });
+
+  it('returns null without an ISBN or title', () => {
+    expect(workKeyFor({ author: 'Anonymous' })).toBeNull();
+  });
+});
+
+// ─── listingPriceEvents ───
+describe('listingPriceEvents', () => {
+  it('records the asking and sale price of a new listing', () => {
+    expect(listingPriceEvents(null, { price: '100.00', salePrice: '80' })).toEqual([
+      { eventType: 'list_price', amount: 100 },
+      { eventType: 'sale_price', amount: 80 },
+    ]);
+  });
+
+  it('records only the prices that changed', () => {
+    expect(
+      listingPriceEvents({ price: '100.00', salePrice: null }, { price: 100, salePrice: 75 }),
+    ).toEqual([{ eventType: 'sale_price', amount: 75 }]);
+  });
+
+  it('ignores unchanged, empty and zero prices', () => {
+    expect(listingPriceEvents({ price: 100 }, { price: '100.00' })).toEqual([]);
+    expect(listingPriceEvents(null, { price: 0, salePrice: null })).toEqual([]);
+  });
+});
+
+// ─── buildValueChart ───
+describe('buildValueChart', () => {
+  const entries = [
+    { eventType: 'list_price', amount: '200.00', recordedAt: '2026-03-01T00:00:00Z' },
+    { eventType: 'auction_hammer', amount: '150.00', recordedAt: '2026-02-01T00:00:00Z' },
+    { eventType: 'list_price', amount: '250.00', recordedAt: '2026-04-01T00:00:00Z' },
+    { eventType: 'offer_accepted', amount: '180.00', recordedAt: '2026-05-01T00:00:00Z' },
+  ];
+
+  it('groups points by event type in date order', () => {
+    const { series } = buildValueChart(entries);
+    expect(series.list_price.map((point) => point.amount)).toEqual([200, 250]);
+    expect(series.auction_hammer).toEqual([{ date: '2026-02-01T00:00:00.000Z', amount: 150 }]);
+    expect(series.sale_price).toEqual([]);
+  });
+
+  it('summarizes range, realized prices and asking price change', () => {
+    expect(buildValueChart(entries).stats).toEqual({
+      count: 4,
+      low: 150,
+      high: 250,
+      realizedCount: 2,
+      realizedMedian: 165,
+      lastRealized: 180,
+      listPriceChange: 25,
+    });
+  });
+
+  it('returns empty stats without entries', () => {
+    const { stats } = buildValueChart([]);
+    expect(stats.count).toBe(0);
+    expect(stats.low).toBeNull();
+    expect(stats.realizedMedian).toBeNull();
+    expect(stats.listPriceChange).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the proxy (max) bid engine
+ * Tests pure functions: getBidIncrement, getMinimumBid, resolveProxyBid
+ */
+
+let getBidIncrement, getMinimumBid, resolveProxyBid;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/proxyBidEngine.js');
+  getBidIncrement = mod.getBidIncrement;
+  getMinimumBid = mod.getMinimumBid;
+  resolveProxyBid = mod.resolveProxyBid;
+});
+
+const auction = (overrides = {}) => ({
+  startingPrice: '50.00',
+  currentBid: null,
+  bidCount: 0,
+  bidIncrement: null,
+  reservePrice: null,
+  ...overrides,
+});
+
+// ─── getBidIncrement ───
+describe('getBidIncrement', () => {
+  it('uses the tier table when no fixed increment is set', () => {
+    expect(getBidIncrement(40)).toBe(5);
+    expect(getBidIncrement(250)).toBe(10);
+    expect(getBidIncrement(2500)).toBe(50);
+    expect(getBidIncrement(50000)).toBe(250);
+  });
+
+  it('prefers a fixed auction increment', () => {
+    expect(getBidIncrement(2500, '7.50')).toBe(7.5);
+  });
+});
+
+// ─── getMinimumBid ───
+describe('getMinimumBid', () => {
+  it('returns the starting price before any bids', () => {
+    expect(getMinimumBid(auction())).toBe(50);
+  });
+
+  it('adds the increment to the current bid', () => {
+    expect(getMinimumBid(auction({ currentBid: '120.00', bidCount: 3 }))).toBe(130);
+  });
+});
+
+// ─── resolveProxyBid ───
+describe('resolveProxyBid', () => {
+  it('opens at the entered amount and keeps the max hidden on the bid', () => {
+    const result = resolveProxyBid({
+      auction: auction(),
+      leader: null,
+      challenger: { userId: 1, amount: 50, maxBidAmount: 300 },
+    });
+    expect(result.currentBid).toBe(50);
+    expect(result.challengerLeads).toBe(true);
+    expect(result.bids).toEqual([
+      { userId: 1, amount: 50, maxBidAmount: 300, isAutoBid: false, status: 'winning' },
+    ]);
+  });
+
+  it('counter-bids for the leader when their max is higher', () => {
+    const result = resolveProxyBid({
+      auction: auction({ currentBid: 50, bidCount: 1 }),
+      leader: { userId: 1, amount: 50, maxBidAmount: 300 },
+      challenger: { userId: 2, amount: 100, maxBidAmount: null },
+    });
+    expect(result.challengerLeads).toBe(false);
+    expect(result.leaderUserId).toBe(1);
+    expect(result.currentBid).toBe(110);
+    expect(result.bids[0]).toMatchObject({ userId: 2, amount: 100, status: 'outbid' });
+    expect(result.bids[1]).toMatchObject({
+      userId: 1,
+      amount: 110,
+      isAutoBid: true,
+      status: 'winning',
+    });
+  });
+
+  it('exhausts the leader max and leads one increment above it', () => {
+    const result = resolveProxyBid({
+      auction: auction({ currentBid: 50, bidCount: 1 }),
+      leader: { userId: 1, amount: 50, maxBidAmount: 200 },
+      challenger: { userId: 2, amount: 55, maxBidAmount: 500 },
+    });
+    expect(result.challengerLeads).toBe(true);
+    expect(result.currentBid).toBe(210);
+    expect(result.bids).toEqual([
+      { userId: 1, amount: 200, maxBidAmount: 200, isAutoBid: true, status: 'outbid' },
+      { userId: 2, amount: 210, maxBidAmount: 500, isAutoBid: true, status: 'winning' },
+    ]);
+  });
+
+  it('never bids the challenger past their own max', () => {
+    const result = resolveProxyBid({
+      auction: auction({ currentBid: 50, bidCount: 1 }),
+      leader: { userId: 1, amount: 50, maxBidAmount: 200 },
+      challenger: { userId: 2, amount: 55, maxBidAmount: 205 },
+    });
+    expect(result.currentBid).toBe(205);
+  });
+
+  it('resolves equal maximums in favour of the earlier max', () => {
+    const result = resolveProxyBid({
+      auction: auction({ currentBid: 50, bidCount: 1 }),
+      leader: { userId: 1, amount: 50, maxBidAmount: 200 },
+      challenger: { userId: 2, amount: 60, maxBidAmount: 200 },
+    });
+    expect(result.challengerLeads).toBe(false);
+    expect(result.currentBid).toBe(200);
+    expect(result.bids[1]).toMatchObject({ userId: 1, amount: 200, status: 'winning' });
+  });
+
+  it('lifts the leading price to the reserve when the max covers it', () => {
+    const result = resolveProxyBid({
+      auction: auction({ reservePrice: '150.00' }),
+      leader: null,
+      challenger: { userId: 1, amount: 50, maxBidAmount: 400 },
+    });
+    expect(result.currentBid).toBe(150);
+    expect(result.bids[0].isAutoBid).toBe(true);
+  });
+});
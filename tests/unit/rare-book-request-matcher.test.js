@@ -0,0 +1,110 @@
+/**
+ * Unit tests for rare book request matching
+ * Tests pure functions: textSimilarity, scoreRequestMatch
+ */
+
+let textSimilarity, scoreRequestMatch;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/rareBookRequestMatcher.js');
+  textSimilarity = mod.textSimilarity;
+  scoreRequestMatch = mod.scoreRequestMatch;
+});
+
+const request = (overrides = {}) => ({
+  title: 'The Great Gatsby',
+  author: 'F. Scott Fitzgerald',
+  isbn: null,
+  maxPrice: '1500.00',
+  ...overrides,
+});
+
+const book = (overrides = {}) => ({
+  title: 'Great Gatsby, The',
+  author: 'Fitzgerald, F. Scott',
+  isbn: null,
+  price: '1200.00',
+  salePrice: null,
+  ...overrides,
+});
+
+// ─── textSimilarity ───
+describe('textSimilarity', () => {
+  it('ignores case, punctuation, articles and word order', () => {
+    expect(textSimilarity('The Great Gatsby', 'great gatsby, the')).toBe(1);
+  });
+
+  it('tolerates typos', () => {
+    expect(textSimilarity('Great Gatsbey', 'The Great Gatsby')).toBeGreaterThan(0.8);
+  });
+
+  it('scores a partial title found within a longer one', () => {
+    expect(textSimilarity('Gatsby', 'The Great Gatsby: A Novel')).toBe(0.9);
+  });
+
+  it('scores unrelated titles low', () => {
+    expect(textSimilarity('Tender Is the Night', 'The Great Gatsby')).toBeLessThan(0.5);
+  });
+});
+
+// ─── scoreRequestMatch ───
+describe('scoreRequestMatch', () => {
+  it('is certain of an exact ISBN match', () => {
+    const result = scoreRequestMatch(
+      request({ title: 'Gatsby 1st ed', isbn: '0743273567' }),
+      book({ title: 'Anything', isbn: '9780743273565' }),
+    );
+    expect(result).toEqual({ confidence: 100, reasons: ['isbn', 'price'] });
+  });
+
+  it('caps fuzzy title and author matches below an ISBN match', () => {
+    const result = scoreRequestMatch(request(), book());
+    expect(result.confidence).toBe(95);
+    expect(result.reasons).toEqual(['title', 'author', 'price']);
+  });
+
+  it('weights in a mismatched author', () => {
+    const result = scoreRequestMatch(request(), book({ author: 'Anonymous' }));
+    expect(result.confidence).toBeLessThan(80);
+    expect(result.reasons).toEqual(['title', 'price']);
+  });
+
+  it('does not match books over budget, using the sale price', () => {
+    expect(scoreRequestMatch(request(), book({ price: '2000.00' }))).toBeNull();
+    expect(
+      scoreRequestMatch(request(), book({ price: '2000.00', salePrice: '1400.00' })),
+    ).not.toBeNull();
+  });
+
+  it('converts listings in other currencies before comparing with the budget', () => {
+    const rates = { GBP: 0.8, JPY: 150 };
+    // £1,100 is $1,375, within the $1,500 budget; £1,300 is $1,625, over it
+    expect(
+      scoreRequestMatch(request(), book({ price: '1100.00', currency: 'GBP' }), rates),
+    ).not.toBeNull();
+    expect(
+      scoreRequestMatch(request(), book({ price: '1300.00', currency: 'GBP' }), rates),
+    ).toBeNull();
+    // ¥200,000 is $1,333: a raw comparison with the budget would wrongly reject it
+    expect(
+      scoreRequestMatch(request(), book({ price: '200000', currency: 'JPY' }), rates),
+    ).not.toBeNull();
+  });
+
+  it('skips listings in a currency without an exchange rate when there is a budget', () => {
+    expect(scoreRequestMatch(request(), book({ price: '10.00', currency: 'CHF' }))).toBeNull();
+    expect(
+      scoreRequestMatch(request({ maxPrice: null }), book({ price: '10.00', currency: 'CHF' })),
+    ).not.toBeNull();
+  });
+
+  it('does not match different titles or a requested edition with another ISBN', () => {
+    expect(scoreRequestMatch(request(), book({ title: 'Tender Is the Night' }))).toBeNull();
+    expect(
+      scoreRequestMatch(
+        request({ isbn: '9780743273565' }),
+        book({ title: 'The Great Gatsby Annotated', isbn: '9781234567897', author: 'Anonymous' }),
+      ),
+    ).toBeNull();
+  });
+});
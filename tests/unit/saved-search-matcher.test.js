@@ -0,0 +1,113 @@
+/**
+ * Unit tests for saved search matching
+ * Tests pure functions: normalizeSavedSearchFilters, isNewListing, matchesSavedSearch
+ */
+
+let normalizeSavedSearchFilters, isNewListing, matchesSavedSearch;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/savedSearchMatcher.js');
+  normalizeSavedSearchFilters = mod.normalizeSavedSearchFilters;
+  isNewListing = mod.isNewListing;
+  matchesSavedSearch = mod.matchesSavedSearch;
+});
+
+const book = (overrides = {}) => ({
+  id: '1',
+  title: 'The Great Gatsby',
+  author: 'F. Scott Fitzgerald',
+  description: '<p>First edition in the <strong>original</strong> dust jacket</p>',
+  category: 'fiction',
+  condition: 'Very Good',
+  price: 1200,
+  salePrice: null,
+  status: 'published',
+  quantity: 1,
+  trackQuantity: true,
+  isSigned: false,
+  tags: ['jazz age'],
+  ...overrides,
+});
+
+const search = (query, filters = {}) => ({ query, filters });
+
+// ─── normalizeSavedSearchFilters ───
+describe('normalizeSavedSearchFilters', () => {
+  it('drops blank values and unknown keys', () => {
+    expect(
+      normalizeSavedSearchFilters({ author: '  ', category: 'poetry', sortBy: 'price', type: 'x' }),
+    ).toEqual({ category: 'poetry' });
+  });
+
+  it('parses prices and the signed flag from query strings', () => {
+    expect(normalizeSavedSearchFilters({ minPrice: '50', maxPrice: '-1', signed: 'true' })).toEqual(
+      { minPrice: 50, signed: true },
+    );
+  });
+});
+
+// ─── isNewListing ───
+describe('isNewListing', () => {
+  it('treats a first-time available listing as new', () => {
+    expect(isNewListing(null, book())).toBe(true);
+  });
+
+  it('treats publishing or restocking as new', () => {
+    expect(isNewListing(book({ status: 'draft' }), book())).toBe(true);
+    expect(isNewListing(book({ quantity: 0 }), book())).toBe(true);
+  });
+
+  it('does not re-alert on updates to live listings or unavailable documents', () => {
+    expect(isNewListing(book(), book({ price: 900 }))).toBe(false);
+    expect(isNewListing(null, book({ quantity: 0 }))).toBe(false);
+  });
+});
+
+// ─── matchesSavedSearch ───
+describe('matchesSavedSearch', () => {
+  it('requires every query term in the listing text', () => {
+    expect(matchesSavedSearch(search('gatsby first edition'), book(), 'book')).toBe(true);
+    expect(matchesSavedSearch(search('gatsby signed'), book(), 'book')).toBe(false);
+  });
+
+  it('ignores HTML when matching the description', () => {
+    expect(matchesSavedSearch(search('original dust'), book(), 'book')).toBe(true);
+    expect(matchesSavedSearch(search('strong'), book(), 'book')).toBe(false);
+  });
+
+  it('matches author against book authors and product artists', () => {
+    expect(matchesSavedSearch(search('', { author: 'fitzgerald' }), book(), 'book')).toBe(true);
+    const print = book({ author: undefined, artist: 'Ansel Adams' });
+    expect(matchesSavedSearch(search('', { author: 'adams' }), print, 'product')).toBe(true);
+  });
+
+  it('applies type, category, condition and signed filters', () => {
+    expect(matchesSavedSearch(search('', { type: 'product' }), book(), 'book')).toBe(false);
+    expect(matchesSavedSearch(search('', { category: 'Fiction' }), book(), 'book')).toBe(true);
+    expect(matchesSavedSearch(search('', { condition: 'fine' }), book(), 'book')).toBe(false);
+    expect(matchesSavedSearch(search('', { signed: true }), book(), 'book')).toBe(false);
+    expect(matchesSavedSearch(search('', { signed: true }), book({ isSigned: true }), 'book')).toBe(
+      true,
+    );
+  });
+
+  it('checks the sale price against the price range', () => {
+    const filters = { minPrice: 500, maxPrice: 1000 };
+    expect(matchesSavedSearch(search('', filters), book(), 'book')).toBe(false);
+    expect(matchesSavedSearch(search('', filters), book({ salePrice: 950 }), 'book')).toBe(true);
+  });
+
+  it('compares listings in other currencies with the price range in the base currency', () => {
+    const filters = { minPrice: 500, maxPrice: 1000 };
+    const rates = { JPY: 150 };
+    // ¥120,000 is $800
+    const yen = book({ price: 120000, currency: 'JPY' });
+    expect(matchesSavedSearch(search('', filters), yen, 'book', rates)).toBe(true);
+    expect(
+      matchesSavedSearch(search('', filters), book({ price: 900, currency: 'JPY' }), 'book', rates),
+    ).toBe(false);
+    expect(
+      matchesSavedSearch(search('', filters), book({ price: 800, currency: 'CHF' }), 'book', rates),
+    ).toBe(false);
+  });
+});
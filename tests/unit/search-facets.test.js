@@ -0,0 +1,138 @@
+/**
+ * Unit tests for search facets
+ * Tests pure functions: priceBucket, publicationCentury, parseFacetSelections, facetFilter,
+ * buildFacetQueries, mergeFacetDistributions
+ */
+
+let priceBucket, publicationCentury, parseFacetSelections, facetFilter;
+let buildFacetQueries, mergeFacetDistributions;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/searchFacets.js');
+  priceBucket = mod.priceBucket;
+  publicationCentury = mod.publicationCentury;
+  parseFacetSelections = mod.parseFacetSelections;
+  facetFilter = mod.facetFilter;
+  buildFacetQueries = mod.buildFacetQueries;
+  mergeFacetDistributions = mod.mergeFacetDistributions;
+});
+
+// ─── index attributes ───
+describe('index attributes', () => {
+  it('buckets prices by the price a buyer pays', () => {
+    expect(priceBucket(49.99)).toBe('0-50');
+    expect(priceBucket('50')).toBe('50-100');
+    expect(priceBucket(1200, 450)).toBe('250-500');
+    expect(priceBucket(25000)).toBe('5000+');
+    expect(priceBucket(null)).toBeNull();
+  });
+
+  it('buckets listings in other currencies by their price in the base currency', () => {
+    const rates = { JPY: 145, GBP: 0.8 };
+    // ¥8,000 is about $55, not 5000+
+    expect(priceBucket(8000, null, { currency: 'JPY', rates })).toBe('50-100');
+    // £45 is $56.25, not 0-50
+    expect(priceBucket(45, null, { currency: 'GBP', rates })).toBe('50-100');
+    expect(priceBucket(45, null, { currency: 'CHF', rates })).toBeNull();
+  });
+
+  it('places years in centuries', () => {
+    expect(publicationCentury(1925)).toBe(20);
+    expect(publicationCentury(1900)).toBe(19);
+    expect(publicationCentury('1623')).toBe(17);
+    expect(publicationCentury(undefined)).toBeNull();
+  });
+});
+
+// ─── parseFacetSelections ───
+describe('parseFacetSelections', () => {
+  it('reads single and repeated params and drops unknown values', () => {
+    expect(
+      parseFacetSelections({
+        condition: ['Fine', 'Good', 'Fine', ' '],
+        category: 'poetry',
+        price: ['100-250', '10-20'],
+        century: ['19', 'nineteenth'],
+        signed: 'yes',
+        auction: 'true',
+        q: 'gatsby',
+      }),
+    ).toEqual({
+      category: ['poetry'],
+      condition: ['Fine', 'Good'],
+      price: ['100-250'],
+      century: ['19'],
+      auction: ['true'],
+    });
+  });
+});
+
+// ─── queries ───
+describe('buildFacetQueries', () => {
+  it('matches any value within a facet', () => {
+    expect(facetFilter('condition', ['Fine', 'Near "Fine"'])).toBe(
+      'condition IN ["Fine", "Near \\"Fine\\""]',
+    );
+    expect(facetFilter('century', ['19', '20'])).toBe(
+      '(publicationCentury = 19 OR publicationCentury = 20)',
+    );
+    expect(facetFilter('signed', ['true'])).toBe('isSigned = true');
+  });
+
+  it('counts each selected facet without its own selection', () => {
+    const queries = buildFacetQueries('books', 'first', {
+      filters: ['status = "published"'],
+      selections: { condition: ['Fine'], signed: ['true'] },
+      limit: 24,
+    });
+
+    expect(queries).toHaveLength(3);
+    expect(queries[0]).toMatchObject({
+      limit: 24,
+      filter: ['status = "published"', 'condition IN ["Fine"]', 'isSigned = true'],
+    });
+    expect(queries[1]).toEqual({
+      indexUid: 'books',
+      q: 'first',
+      filter: ['status = "published"', 'isSigned = true'],
+      facets: ['condition'],
+      limit: 0,
+    });
+    expect(queries[2].filter).toEqual(['status = "published"', 'condition IN ["Fine"]']);
+  });
+});
+
+// ─── mergeFacetDistributions ───
+describe('mergeFacetDistributions', () => {
+  it('sums counts across indexes and keeps selected values listed', () => {
+    const selections = { condition: ['Fair'] };
+    const books = [
+      {
+        facetDistribution: {
+          condition: { Fair: 0 },
+          priceBucket: { '100-250': 2, '0-50': 5 },
+          publicationCentury: { 19: 1, 20: 4 },
+        },
+      },
+      { facetDistribution: { condition: { Good: 3, Fine: 3 } } },
+    ];
+    const products = [
+      { facetDistribution: { priceBucket: { '0-50': 1 }, vendorName: { 'Old Maps': 2 } } },
+      { facetDistribution: { condition: { Good: 1 } } },
+    ];
+
+    const facets = mergeFacetDistributions([books, products], selections);
+    expect(facets.condition).toEqual([
+      { value: 'Good', count: 4, selected: false },
+      { value: 'Fine', count: 3, selected: false },
+      { value: 'Fair', count: 0, selected: true },
+    ]);
+    expect(facets.price.map((v) => [v.value, v.count])).toEqual([
+      ['0-50', 6],
+      ['100-250', 2],
+    ]);
+    expect(facets.century.map((v) => v.value)).toEqual(['20', '19']);
+    expect(facets.vendor).toEqual([{ value: 'Old Maps', count: 2, selected: false }]);
+    expect(facets.auction).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the shipping rate engine
+ * Tests pure functions: normalizeCountry, findZone, calculateVendorShipping, calculateShippingLines,
+ * toShippingItem, toBaseCurrencyItem
+ */
+
+let normalizeCountry, findZone, calculateVendorShipping, calculateShippingLines, DEFAULT_FLAT_RATE;
+let toShippingItem, toBaseCurrencyItem;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/shippingRateEngine.js');
+  normalizeCountry = mod.normalizeCountry;
+  findZone = mod.findZone;
+  calculateVendorShipping = mod.calculateVendorShipping;
+  calculateShippingLines = mod.calculateShippingLines;
+  DEFAULT_FLAT_RATE = mod.DEFAULT_FLAT_RATE;
+  toShippingItem = mod.toShippingItem;
+  toBaseCurrencyItem = mod.toBaseCurrencyItem;
+});
+
+const ZONES = [
+  { id: 1, name: 'Domestic', countries: ['US'], regions: [], baseRate: 5, additionalRate: 2 },
+  { id: 2, name: 'Remote US', countries: ['US'], regions: ['AK', 'HI'], baseRate: 15 },
+  { id: 3, name: 'International', countries: ['*'], regions: [], baseRate: 25, additionalRate: 10 },
+];
+
+const US = { country: 'United States', state: 'CA' };
+const item = (overrides = {}) => ({ quantity: 1, price: 20, weight: 1, ...overrides });
+
+// ─── normalizeCountry ───
+describe('normalizeCountry', () => {
+  it('maps country names to ISO codes', () => {
+    expect(normalizeCountry('United States')).toBe('US');
+    expect(normalizeCountry(' united kingdom ')).toBe('GB');
+  });
+
+  it('upper-cases unknown values', () => {
+    expect(normalizeCountry('br')).toBe('BR');
+  });
+});
+
+// ─── findZone ───
+describe('findZone', () => {
+  it('prefers a region match over the country-wide zone', () => {
+    expect(findZone(ZONES, { country: 'US', state: 'ak' }).name).toBe('Remote US');
+    expect(findZone(ZONES, US).name).toBe('Domestic');
+  });
+
+  it('falls back to the rest-of-world zone', () => {
+    expect(findZone(ZONES, { country: 'France' }).name).toBe('International');
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(findZone(ZONES.slice(0, 2), { country: 'FR' })).toBeNull();
+  });
+});
+
+// ─── calculateVendorShipping ───
+describe('calculateVendorShipping', () => {
+  it('charges the platform flat rate without a profile', () => {
+    expect(calculateVendorShipping(null, [item()], US).amount).toBe(DEFAULT_FLAT_RATE);
+  });
+
+  it('charges a flat rate once per vendor', () => {
+    const result = calculateVendorShipping(
+      { rateType: 'flat', zones: ZONES },
+      [item({ quantity: 3 })],
+      US,
+    );
+    expect(result.amount).toBe(5);
+    expect(result.zoneName).toBe('Domestic');
+  });
+
+  it('adds the additional rate for each extra item', () => {
+    const result = calculateVendorShipping(
+      { rateType: 'item', zones: ZONES },
+      [item({ quantity: 2 }), item()],
+      US,
+    );
+    expect(result.amount).toBe(9);
+  });
+
+  it('charges by weight in kilograms', () => {
+    const result = calculateVendorShipping(
+      { rateType: 'weight', zones: ZONES },
+      [item({ weight: 2, weightUnit: 'kg' })],
+      { country: 'DE' },
+    );
+    expect(result.amount).toBe(45);
+  });
+
+  it('waives the zone rate over the free-shipping threshold but keeps overrides', () => {
+    const zones = [{ ...ZONES[0], freeShippingThreshold: 50 }];
+    const result = calculateVendorShipping(
+      { rateType: 'flat', zones },
+      [item({ price: 40 }), item({ price: 20, shippingOverride: 3 })],
+      US,
+    );
+    expect(result.freeShipping).toBe(true);
+    expect(result.amount).toBe(3);
+  });
+
+  it('reports destinations the vendor does not ship to', () => {
+    const result = calculateVendorShipping(
+      { rateType: 'flat', zones: ZONES.slice(0, 1) },
+      [item()],
+      { country: 'JP' },
+    );
+    expect(result.error).toBeTruthy();
+    expect(result.amount).toBe(0);
+  });
+
+  it('charges nothing for items that do not require shipping', () => {
+    expect(calculateVendorShipping(null, [item({ requiresShipping: false })], US).amount).toBe(0);
+  });
+});
+
+// ─── calculateShippingLines ───
+describe('calculateShippingLines', () => {
+  it('totals per-vendor lines and collects errors', () => {
+    const { lines, total, errors } = calculateShippingLines(
+      [
+        { vendorId: 1, vendorName: 'A', profile: null, items: [item()] },
+        {
+          vendorId: 2,
+          vendorName: 'B',
+          profile: { rateType: 'flat', zones: ZONES },
+          items: [item()],
+        },
+        {
+          vendorId: 3,
+          vendorName: 'C',
+          profile: { rateType: 'flat', zones: ZONES.slice(0, 1) },
+          items: [item()],
+        },
+      ],
+      { country: 'CA' },
+    );
+    expect(lines).toHaveLength(3);
+    expect(total).toBe(DEFAULT_FLAT_RATE + 25);
+    expect(errors.map((line) => line.vendorId)).toEqual([3]);
+  });
+});
+
+// ─── Listing currencies ───
+describe('toShippingItem and toBaseCurrencyItem', () => {
+  const rates = { EUR: 0.9, JPY: 150 };
+  const profile = {
+    rateType: 'flat',
+    zones: [{ id: 1, countries: ['US'], regions: [], baseRate: 8, freeShippingThreshold: 100 }],
+  };
+  const quote = (record) =>
+    calculateVendorShipping(
+      profile,
+      [toBaseCurrencyItem(toShippingItem(record, 'product'), rates)],
+      US,
+    );
+
+  it('carries the listing currency of products as well as books', () => {
+    expect(toShippingItem({ price: 10, currency: 'eur' }, 'product').currency).toBe('EUR');
+    expect(toShippingItem({ price: 10, currency: 'GBP' }, 'book').currency).toBe('GBP');
+  });
+
+  it('compares a non-USD product with the free-shipping threshold in USD', () => {
+    // ¥12,000 is $80: below the $100 threshold even though the raw price is far above it
+    expect(quote({ price: 12000, currency: 'JPY', requiresShipping: true })).toMatchObject({
+      amount: 8,
+      freeShipping: false,
+    });
+    // €99 is $110
+    expect(quote({ price: 99, currency: 'EUR', requiresShipping: true }).freeShipping).toBe(true);
+  });
+
+  it('converts a non-USD product shipping override', () => {
+    const line = quote({ price: 4500, currency: 'JPY', shippingOverride: 1500 });
+    expect(line.amount).toBe(10);
+  });
+});
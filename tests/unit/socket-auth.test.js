@@ -0,0 +1,63 @@
+/**
+ * Unit tests for socket authentication
+ * Tests pure functions: verifySocketToken, msUntilExpiry, socketAuthError
+ */
+
+const SECRET = 'test-socket-secret';
+
+let jwt, verifySocketToken, msUntilExpiry, socketAuthError, SOCKET_AUTH_ERRORS;
+
+beforeAll(async () => {
+  ({ default: jwt } = await import('jsonwebtoken'));
+  const mod = await import('../../apps/api/src/sockets/socketAuth.js');
+  verifySocketToken = mod.verifySocketToken;
+  msUntilExpiry = mod.msUntilExpiry;
+  socketAuthError = mod.socketAuthError;
+  SOCKET_AUTH_ERRORS = mod.SOCKET_AUTH_ERRORS;
+});
+
+// ─── verifySocketToken ───
+describe('verifySocketToken', () => {
+  it('takes the user only from a verified token', () => {
+    const token = jwt.sign({ userId: 42 }, SECRET, { expiresIn: '1h' });
+    const { userId, expiresAt, error } = verifySocketToken(token, SECRET);
+    expect(error).toBeUndefined();
+    expect(userId).toBe(42);
+    expect(expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('tells missing, invalid and expired tokens apart', () => {
+    expect(verifySocketToken(undefined, SECRET)).toEqual({ error: SOCKET_AUTH_ERRORS.missing });
+    expect(verifySocketToken('', SECRET)).toEqual({ error: SOCKET_AUTH_ERRORS.missing });
+
+    const forged = jwt.sign({ userId: 42 }, 'someone-elses-secret');
+    expect(verifySocketToken(forged, SECRET)).toEqual({ error: SOCKET_AUTH_ERRORS.invalid });
+
+    const anonymous = jwt.sign({ role: 'admin' }, SECRET);
+    expect(verifySocketToken(anonymous, SECRET)).toEqual({ error: SOCKET_AUTH_ERRORS.invalid });
+
+    const expired = jwt.sign({ userId: 42, exp: Math.floor(Date.now() / 1000) - 60 }, SECRET);
+    expect(verifySocketToken(expired, SECRET)).toEqual({ error: SOCKET_AUTH_ERRORS.expired });
+  });
+});
+
+// ─── msUntilExpiry ───
+describe('msUntilExpiry', () => {
+  it('schedules expiry only when it can', () => {
+    const now = 1_000_000;
+    expect(msUntilExpiry(now + 5000, now)).toBe(5000);
+    expect(msUntilExpiry(now - 5000, now)).toBe(0);
+    expect(msUntilExpiry(null, now)).toBeNull();
+    expect(msUntilExpiry(now + 30 * 24 * 60 * 60 * 1000, now)).toBeNull();
+  });
+});
+
+// ─── socketAuthError ───
+describe('socketAuthError', () => {
+  it('carries a code the client can act on', () => {
+    const error = socketAuthError(SOCKET_AUTH_ERRORS.expired, 'Authentication failed');
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('Authentication failed');
+    expect(error.data).toEqual({ code: 'AUTH_EXPIRED' });
+  });
+});
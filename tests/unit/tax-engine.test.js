@@ -0,0 +1,95 @@
+/**
+ * Unit tests for the tax engine
+ * Tests pure functions: matchTaxRates, isExempt, calculateTax
+ */
+
+let matchTaxRates, isExempt, calculateTax;
+
+beforeAll(async () => {
+  const mod = await import('../../apps/api/src/services/taxEngine.js');
+  matchTaxRates = mod.matchTaxRates;
+  isExempt = mod.isExempt;
+  calculateTax = mod.calculateTax;
+});
+
+const RATES = [
+  { id: 1, name: 'CA State Tax', country: 'US', state: 'CA', rate: '0.06000' },
+  { id: 2, name: 'LA County Tax', country: 'US', state: 'CA', postalPrefix: '900', rate: '0.025' },
+  { id: 3, name: 'NY State Tax', country: 'US', state: 'NY', rate: 0.04 },
+  { id: 4, name: 'VAT', country: 'DE', rate: 0.19, inclusive: true, exemptCategories: [] },
+  {
+    id: 5,
+    name: 'UK VAT',
+    country: 'GB',
+    rate: 0.2,
+    inclusive: true,
+    exemptCategories: ['rare-books'],
+  },
+  { id: 6, name: 'Old Rate', country: 'US', state: 'CA', rate: 0.5, isActive: false },
+];
+
+const LA = { country: 'United States', state: 'ca', postalCode: '90012' };
+const item = (overrides = {}) => ({ price: 100, quantity: 1, categories: [], ...overrides });
+
+// ─── matchTaxRates ───
+describe('matchTaxRates', () => {
+  it('stacks state and postal-prefix rates for the destination', () => {
+    expect(matchTaxRates(RATES, LA).map((rate) => rate.id)).toEqual([1, 2]);
+  });
+
+  it('skips postal rates that do not match and inactive rates', () => {
+    const ids = matchTaxRates(RATES, { ...LA, postalCode: '94105' }).map((rate) => rate.id);
+    expect(ids).toEqual([1]);
+  });
+
+  it('returns nothing for untaxed destinations', () => {
+    expect(matchTaxRates(RATES, { country: 'JP' })).toEqual([]);
+  });
+});
+
+// ─── isExempt ───
+describe('isExempt', () => {
+  it('exempts non-taxable items from every rate', () => {
+    expect(isExempt(RATES[0], item({ taxable: false }))).toBe(true);
+  });
+
+  it('exempts items in a rate exempt category', () => {
+    expect(isExempt(RATES[4], item({ categories: ['Rare-Books'] }))).toBe(true);
+    expect(isExempt(RATES[4], item({ categories: ['maps'] }))).toBe(false);
+  });
+});
+
+// ─── calculateTax ───
+describe('calculateTax', () => {
+  it('adds exclusive tax per jurisdiction', () => {
+    const result = calculateTax([item({ quantity: 2 })], RATES, LA);
+    expect(result.lines.map((line) => line.amount)).toEqual([12, 5]);
+    expect(result.exclusiveTax).toBe(17);
+    expect(result.inclusiveTax).toBe(0);
+    expect(result.items[0].taxAmount).toBe(17);
+  });
+
+  it('extracts inclusive VAT from the listed price', () => {
+    const result = calculateTax([item({ price: 119 })], RATES, { country: 'Germany' });
+    expect(result.inclusiveTax).toBe(19);
+    expect(result.exclusiveTax).toBe(0);
+    expect(result.lines[0]).toMatchObject({ name: 'VAT', inclusive: true, taxableAmount: 100 });
+  });
+
+  it('reduces the taxable amount by the order discount', () => {
+    const result = calculateTax([item(), item({ taxable: false })], RATES, LA, { discount: 50 });
+    // $50 spread across $200 of items leaves $75 of the taxable item
+    expect(result.lines[0].taxableAmount).toBe(75);
+    expect(result.totalTax).toBe(6.38);
+  });
+
+  it('leaves exempt items untaxed', () => {
+    const result = calculateTax(
+      [item({ categories: ['rare-books'] }), item({ price: 120 })],
+      RATES,
+      { country: 'GB' },
+    );
+    expect(result.items[0].taxAmount).toBe(0);
+    expect(result.items[1].taxAmount).toBe(20);
+  });
+});